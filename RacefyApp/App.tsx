@@ -2,12 +2,15 @@ import React, {useEffect} from 'react';
 import {StatusBar} from 'expo-status-bar';
 import {GestureHandlerRootView} from 'react-native-gesture-handler';
 import {SafeAreaProvider} from 'react-native-safe-area-context';
-import {AuthProvider} from './src/hooks/useAuth';
+import {AuthProvider, useAuth} from './src/hooks/useAuth';
 import {ThemeProvider, useTheme} from './src/hooks/useTheme';
 import {LiveActivityProvider} from './src/hooks/useLiveActivity';
 import {UnitsProvider} from './src/hooks/useUnits';
 import {AppConfigProvider} from './src/contexts/AppConfigContext';
 import {loadGlobalHapticsPreference} from './src/hooks/useHaptics';
+import {useUnsyncedSyncWorker} from './src/hooks/useUnsyncedActivities';
+import {useOutboxWorker} from './src/hooks/useMutationOutbox';
+import {useRealtimeConnection} from './src/hooks/useRealtime';
 import {configureRevenueCat} from './src/services/revenuecat';
 import {KeyboardProvider} from 'react-native-keyboard-controller';
 import {AppNavigator} from './src/navigation';
@@ -18,6 +21,14 @@ import {loadSavedLanguage} from './src/i18n';
 
 function AppContent() {
   const { colors, isDark } = useTheme();
+  const { isAuthenticated, user } = useAuth();
+
+  // Upload queued activities in the background while signed in
+  useUnsyncedSyncWorker(isAuthenticated);
+  // Replay likes, comments, follows… made while offline
+  useOutboxWorker(user?.id ?? null);
+  // Messaging events (new messages, typing, unread badge)
+  useRealtimeConnection(isAuthenticated);
 
   useEffect(() => {
     loadSavedLanguage();
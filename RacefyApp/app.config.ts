@@ -204,6 +204,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     apiStagingUrl: process.env.API_STAGING_URL || 'https://app.dev.racefy.io/api',
     useStagingInDev: process.env.USE_STAGING_IN_DEV === 'true',
     xdebugEnabled: process.env.XDEBUG_ENABLED === 'true',
+    realtimeUrl: process.env.REALTIME_URL || null,
     mapboxAccessToken: process.env.MAPBOX_ACCESS_TOKEN || null,
     mapboxEnabled: process.env.MAPBOX_ENABLED !== 'false', // Default to true
     // Debug logging configuration
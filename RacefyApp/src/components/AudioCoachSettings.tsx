@@ -13,7 +13,8 @@ import { useTheme } from '../hooks/useTheme';
 import { useSubscription } from '../hooks/useSubscription';
 import { triggerHaptic } from '../hooks/useHaptics';
 import { useAudioCoachSettings } from '../hooks/useAudioCoachSettings';
-import { buildAnnouncementText } from '../services/audioCoach/templates';
+import { useUnits } from '../hooks/useUnits';
+import { buildAnnouncementText, buildTimeAnnouncementText } from '../services/audioCoach/templates';
 import { speakText } from '../services/audioCoach/tts';
 import { spacing, fontSize, borderRadius } from '../theme';
 import type {
@@ -21,10 +22,26 @@ import type {
   AudioCoachStyle,
   AudioCoachLanguage,
   AudioCoachVoice,
+  AudioCoachTriggerMode,
 } from '../types/audioCoach';
 
+const TRIGGER_MODE_OPTIONS: AudioCoachTriggerMode[] = ['distance', 'time', 'both'];
+
+/** Interval choices in the user's unit; stored as km */
 const INTERVAL_OPTIONS = [0.5, 1, 2, 5];
 
+const INTERVAL_MINUTES_OPTIONS = [1, 5, 10, 15, 30];
+
+/** Race distances offered as custom announcement points (km → label key) */
+const CUSTOM_DISTANCE_OPTIONS: { km: number; labelKey?: string }[] = [
+  { km: 5 },
+  { km: 10 },
+  { km: 15 },
+  { km: 21.1, labelKey: 'settings.audioCoach.halfMarathon' },
+  { km: 30 },
+  { km: 42.2, labelKey: 'settings.audioCoach.marathon' },
+];
+
 const STYLE_OPTIONS: AudioCoachStyle[] = ['neutral', 'motivational', 'coach', 'minimal'];
 
 const LANGUAGE_OPTIONS: { value: AudioCoachLanguage; label: string }[] = [
@@ -54,6 +71,7 @@ export function AudioCoachSettings({ embedded = true }: AudioCoachSettingsProps)
   const { t } = useTranslation();
   const { colors } = useTheme();
   const { tier } = useSubscription();
+  const { units, getDistanceUnit, getDistanceValueFromKm } = useUnits();
 
   const {
     settings,
@@ -74,18 +92,42 @@ export function AudioCoachSettings({ embedded = true }: AudioCoachSettingsProps)
     updateSettings({ [key]: value });
   }, [updateSettings]);
 
+  const handleToggleCustomDistance = useCallback((km: number) => {
+    triggerHaptic();
+    const current = settings.customDistancesKm;
+    const next = current.includes(km)
+      ? current.filter((d) => d !== km)
+      : [...current, km].sort((a, b) => a - b);
+    updateSettings({ customDistancesKm: next });
+  }, [settings.customDistancesKm, updateSettings]);
+
   const handlePreview = useCallback(() => {
     triggerHaptic();
+    if (settings.triggerMode === 'time') {
+      const timeText = buildTimeAnnouncementText({
+        language: settings.language,
+        style: settings.style,
+        minutes: 30,
+        km: 5.45,
+        pace: 5.5,
+        heartRate: tier === 'pro' && settings.announceHeartRate ? 155 : undefined,
+        units,
+      });
+      speakText(timeText, settings, tier as any, true);
+      return;
+    }
     const text = buildAnnouncementText({
       language: settings.language,
       style: settings.style,
-      km: 5,
+      // 5 km / 5 mi
+      km: 5 / getDistanceValueFromKm(1),
       pace: 5.5,
       heartRate: tier === 'pro' && settings.announceHeartRate ? 155 : undefined,
       splitDelta: tier === 'pro' && settings.announceSplitDelta ? -8 : undefined,
+      units,
     });
     speakText(text, settings, tier as any, true);
-  }, [settings, tier]);
+  }, [settings, tier, units, getDistanceValueFromKm]);
 
   if (isLoading) {
     return (
@@ -158,38 +200,150 @@ export function AudioCoachSettings({ embedded = true }: AudioCoachSettingsProps)
         </View>
       </View>
 
-      {/* Interval */}
+      {/* Trigger mode */}
       <View style={[styles.section, { borderBottomColor: colors.border }]}>
         <Text style={[styles.sectionLabel, { color: colors.textPrimary }]}>
-          {t('settings.audioCoach.interval')}
+          {t('settings.audioCoach.triggerMode')}
         </Text>
         <View style={styles.chipRow}>
-          {INTERVAL_OPTIONS.map((km) => (
+          {TRIGGER_MODE_OPTIONS.map((mode) => (
             <TouchableOpacity
-              key={km}
+              key={mode}
               style={[
                 styles.chip,
                 { borderColor: colors.border, backgroundColor: colors.cardBackground },
-                settings.intervalKm === km && { borderColor: colors.primary, backgroundColor: colors.primary },
+                settings.triggerMode === mode && { borderColor: colors.primary, backgroundColor: colors.primary },
                 isDisabled && styles.chipDisabled,
               ]}
-              onPress={() => handleToggle('intervalKm', km)}
+              onPress={() => handleToggle('triggerMode', mode)}
               disabled={isDisabled}
             >
               <Text
                 style={[
                   styles.chipText,
                   { color: colors.textSecondary },
-                  settings.intervalKm === km && { color: colors.white },
+                  settings.triggerMode === mode && { color: colors.white },
                 ]}
               >
-                {km} km
+                {t(`settings.audioCoach.triggerModes.${mode}`)}
               </Text>
             </TouchableOpacity>
           ))}
         </View>
       </View>
 
+      {/* Distance interval / custom distances */}
+      {settings.triggerMode !== 'time' && (
+        <View style={[styles.section, { borderBottomColor: colors.border }]}>
+          <Text style={[styles.sectionLabel, { color: colors.textPrimary }]}>
+            {t('settings.audioCoach.interval')}
+          </Text>
+          <View style={styles.chipRow}>
+            {INTERVAL_OPTIONS.map((interval) => {
+              const km = interval / getDistanceValueFromKm(1);
+              const isSelected = settings.customDistancesKm.length === 0
+                && Math.abs(settings.intervalKm - km) < 1e-6;
+              return (
+                <TouchableOpacity
+                  key={interval}
+                  style={[
+                    styles.chip,
+                    { borderColor: colors.border, backgroundColor: colors.cardBackground },
+                    isSelected && { borderColor: colors.primary, backgroundColor: colors.primary },
+                    isDisabled && styles.chipDisabled,
+                  ]}
+                  onPress={() => {
+                    triggerHaptic();
+                    // Picking a regular interval replaces the custom distance list
+                    updateSettings({ intervalKm: km, customDistancesKm: [] });
+                  }}
+                  disabled={isDisabled}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: colors.textSecondary },
+                      isSelected && { color: colors.white },
+                    ]}
+                  >
+                    {interval} {getDistanceUnit()}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.subLabel, { color: colors.textPrimary }]}>
+            {t('settings.audioCoach.customDistances')}
+          </Text>
+          <Text style={[styles.hint, { color: colors.textSecondary, marginBottom: spacing.sm }]}>
+            {t('settings.audioCoach.customDistancesHint')}
+          </Text>
+          <View style={styles.chipGrid}>
+            {CUSTOM_DISTANCE_OPTIONS.map(({ km, labelKey }) => {
+              const isSelected = settings.customDistancesKm.includes(km);
+              return (
+                <TouchableOpacity
+                  key={km}
+                  style={[
+                    styles.chip,
+                    { borderColor: colors.border, backgroundColor: colors.cardBackground },
+                    isSelected && { borderColor: colors.primary, backgroundColor: colors.primary },
+                    isDisabled && styles.chipDisabled,
+                  ]}
+                  onPress={() => handleToggleCustomDistance(km)}
+                  disabled={isDisabled}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: colors.textSecondary },
+                      isSelected && { color: colors.white },
+                    ]}
+                  >
+                    {labelKey ? t(labelKey) : `${km} km`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {/* Time interval */}
+      {settings.triggerMode !== 'distance' && (
+        <View style={[styles.section, { borderBottomColor: colors.border }]}>
+          <Text style={[styles.sectionLabel, { color: colors.textPrimary }]}>
+            {t('settings.audioCoach.intervalMinutes')}
+          </Text>
+          <View style={styles.chipRow}>
+            {INTERVAL_MINUTES_OPTIONS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                style={[
+                  styles.chip,
+                  { borderColor: colors.border, backgroundColor: colors.cardBackground },
+                  settings.intervalMinutes === minutes && { borderColor: colors.primary, backgroundColor: colors.primary },
+                  isDisabled && styles.chipDisabled,
+                ]}
+                onPress={() => handleToggle('intervalMinutes', minutes)}
+                disabled={isDisabled}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: colors.textSecondary },
+                    settings.intervalMinutes === minutes && { color: colors.white },
+                  ]}
+                >
+                  {minutes} min
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
       {/* Style */}
       <View style={[styles.section, { borderBottomColor: colors.border }]}>
         <Text style={[styles.sectionLabel, { color: colors.textPrimary }]}>
@@ -429,6 +583,11 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginBottom: spacing.sm,
   },
+  subLabel: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+    marginTop: spacing.md,
+  },
   chipGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
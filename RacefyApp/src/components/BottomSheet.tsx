@@ -27,9 +27,11 @@ interface BottomSheetProps {
   onClose: () => void;
   title?: string;
   options: BottomSheetOption[];
+  /** Extra content between the options and the cancel button (e.g. a setting for the chosen action) */
+  footer?: React.ReactNode;
 }
 
-export function BottomSheet({ visible, onClose, title, options }: BottomSheetProps) {
+export function BottomSheet({ visible, onClose, title, options, footer }: BottomSheetProps) {
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
 
@@ -107,6 +109,8 @@ export function BottomSheet({ visible, onClose, title, options }: BottomSheetPro
                 ))}
               </View>
 
+              {footer}
+
               {/* Cancel Button */}
               <TouchableOpacity
                 style={[styles.cancelButton, { backgroundColor: colors.background }]}
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { useTheme } from '../hooks/useTheme';
+import { api } from '../services/api';
+import { logger } from '../services/logger';
+import { formatDistance } from '../utils/formatters';
+import { spacing, fontSize, borderRadius } from '../theme';
+import type { Event, PlannedRoute } from '../types/api';
+
+export type ChatShareKind = 'route' | 'event';
+
+interface ChatShareSheetProps {
+  visible: boolean;
+  kind: ChatShareKind;
+  onClose: () => void;
+  onSelectRoute: (route: PlannedRoute) => void;
+  onSelectEvent: (event: Event) => void;
+}
+
+interface ShareRow {
+  key: string;
+  icon: string | null;
+  title: string;
+  subtitle: string;
+  onPress: () => void;
+}
+
+/**
+ * Picks something to share into a chat as a card: one of the user's planned
+ * routes, or an ongoing / upcoming event.
+ */
+export function ChatShareSheet({
+  visible,
+  kind,
+  onClose,
+  onSelectRoute,
+  onSelectEvent,
+}: ChatShareSheetProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [routes, setRoutes] = useState<PlannedRoute[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    let mounted = true;
+    setIsLoading(true);
+    const load =
+      kind === 'route'
+        ? api.getRoutes({ page: 1, per_page: 50 }).then((response) => {
+            if (mounted) setRoutes(response.data);
+          })
+        : Promise.all([
+            api.getEvents({ status: 'ongoing', per_page: 20 }),
+            api.getEvents({ status: 'upcoming', per_page: 30 }),
+          ]).then(([ongoing, upcoming]) => {
+            if (mounted) setEvents([...ongoing.data, ...upcoming.data]);
+          });
+    load
+      .catch((error: any) => {
+        logger.error('api', 'Failed to load items to share', { kind, error: error.message });
+      })
+      .finally(() => {
+        if (mounted) setIsLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [visible, kind]);
+
+  const rows: ShareRow[] =
+    kind === 'route'
+      ? routes.map((route) => ({
+          key: `route-${route.id}`,
+          icon: route.sport_type?.icon ?? 'map-outline',
+          title: route.title,
+          subtitle: formatDistance(route.distance),
+          onPress: () => onSelectRoute(route),
+        }))
+      : events.map((event) => ({
+          key: `event-${event.id}`,
+          icon: event.sport_type?.icon ?? 'calendar-outline',
+          title: event.post?.title || t('eventDetail.untitled'),
+          subtitle: `${format(new Date(event.starts_at), 'd MMM, HH:mm')} · ${event.location_name}`,
+          onPress: () => onSelectEvent(event),
+        }));
+
+  const renderRow = ({ item }: { item: ShareRow }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => {
+        onClose();
+        item.onPress();
+      }}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.rowIcon, { backgroundColor: colors.primary + '20' }]}>
+        <Ionicons name={(item.icon as any) || 'fitness-outline'} size={22} color={colors.primary} />
+      </View>
+      <View style={styles.rowText}>
+        <Text style={[styles.rowTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+          {item.title}
+        </Text>
+        <Text style={[styles.rowSubtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+          {item.subtitle}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[
+            styles.sheet,
+            {
+              backgroundColor: colors.cardBackground,
+              paddingBottom: Math.max(insets.bottom, spacing.lg),
+            },
+          ]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View style={styles.handleContainer}>
+            <View style={[styles.handle, { backgroundColor: colors.border }]} />
+          </View>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.textPrimary }]}>
+              {kind === 'route' ? t('messaging.shareRoute') : t('messaging.shareEvent')}
+            </Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Ionicons name="close" size={24} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator color={colors.primary} />
+            </View>
+          ) : (
+            <FlatList
+              data={rows}
+              keyExtractor={(item) => item.key}
+              renderItem={renderRow}
+              contentContainerStyle={styles.listContent}
+              ListEmptyComponent={
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                  {kind === 'route' ? t('messaging.noRoutesToShare') : t('messaging.noEventsToShare')}
+                </Text>
+              }
+              ItemSeparatorComponent={() => (
+                <View style={[styles.separator, { backgroundColor: colors.border }]} />
+              )}
+            />
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    paddingHorizontal: spacing.lg,
+    maxHeight: '70%',
+  },
+  handleContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingBottom: spacing.md,
+  },
+  title: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    paddingVertical: spacing.xl,
+    alignItems: 'center',
+  },
+  listContent: {
+    paddingBottom: spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    gap: spacing.md,
+  },
+  rowIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  rowSubtitle: {
+    fontSize: fontSize.sm,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: fontSize.sm,
+    textAlign: 'center',
+    paddingVertical: spacing.xl,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+  },
+});
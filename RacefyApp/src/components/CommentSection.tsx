@@ -9,7 +9,8 @@ import {useTheme} from '../hooks/useTheme';
 import {useAuth} from '../hooks/useAuth';
 import {api} from '../services/api';
 import {logger} from '../services/logger';
-import {emitRefresh} from '../services/refreshEvents';
+import {createOptimisticId, submitMutation} from '../services/mutationOutbox';
+import {emitRefresh, useRefreshOn} from '../services/refreshEvents';
 import {fontSize, spacing} from '../theme';
 import type {Comment, CommentableType, MediaItem, User} from '../types/api';
 
@@ -82,6 +83,15 @@ export function CommentSection({
     }
   }, [isExpanded, fetchComments, comments.length, isAuthenticated]);
 
+  // Swap offline placeholders for the real comments once the outbox replays them
+  const hasPlaceholders = comments.some(
+    (c) => c.id < 0 || c.replies?.some((r) => r.id < 0)
+  );
+  const refetchPlaceholders = useCallback(() => {
+    if (hasPlaceholders) fetchComments();
+  }, [hasPlaceholders, fetchComments]);
+  useRefreshOn(commentableType === 'post' ? 'feed' : 'events', refetchPlaceholders);
+
   const handleRefresh = useCallback(() => {
     setIsRefreshing(true);
     fetchComments();
@@ -94,18 +104,30 @@ export function CommentSection({
       photo,
     };
 
-    let newComment: Comment;
-    switch (commentableType) {
-      case 'post':
-        newComment = await api.createComment(commentableId, data);
-        break;
-      case 'event':
-        newComment = await api.createEventComment(commentableId, data);
-        break;
-      default:
-        throw new Error('Invalid commentable type');
+    if (commentableType !== 'post' && commentableType !== 'event') {
+      throw new Error('Invalid commentable type');
     }
 
+    const submitted = await submitMutation<Comment>({
+      type: commentableType === 'post' ? 'createComment' : 'createEventComment',
+      targetId: commentableId,
+      data,
+    });
+
+    // Queued while offline: show a placeholder until the replay refreshes the list
+    const newComment: Comment = submitted.queued
+      ? {
+          id: createOptimisticId(),
+          user_id: user?.id ?? 0,
+          commentable_type: commentableType,
+          commentable_id: commentableId,
+          parent_id: replyingTo?.id ?? null,
+          content,
+          likes_count: 0,
+          created_at: submitted.entry.createdAt,
+        }
+      : submitted.result;
+
     // Add user info to the new comment
     if (user) {
       newComment.user = user;
@@ -127,7 +149,8 @@ export function CommentSection({
 
     setLocalCommentsCount((prev) => prev + 1);
     setReplyingTo(null);
-    emitRefresh('feed');
+    // A queued comment isn't on the server yet; the replay emits the refresh
+    if (!submitted.queued) emitRefresh('feed');
   };
 
   const handleDeleteComment = useCallback(async (commentId: number) => {
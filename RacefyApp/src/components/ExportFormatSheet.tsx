@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Switch, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { BottomSheet, type BottomSheetOption } from './BottomSheet';
+import { useTheme } from '../hooks/useTheme';
+import { spacing, fontSize, borderRadius } from '../theme';
+import {
+  ACTIVITY_EXPORT_FORMATS,
+  type ActivityExportFormat,
+  type ActivityExportOptions,
+} from '../utils/activityExport';
+
+interface ExportFormatSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (format: ActivityExportFormat, options: ActivityExportOptions) => void;
+}
+
+const FORMAT_ICONS: Record<ActivityExportFormat, BottomSheetOption['icon']> = {
+  gpx: 'map-outline',
+  tcx: 'pulse-outline',
+  geojson: 'layers-outline',
+};
+
+/**
+ * GPX / TCX / GeoJSON picker shown before any activity export. Privacy zones
+ * are hidden unless the user switches that off for this one export.
+ */
+export function ExportFormatSheet({ visible, onClose, onSelect }: ExportFormatSheetProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const [hidePrivacyZones, setHidePrivacyZones] = useState(true);
+
+  // The opt-out never carries over to the next export
+  useEffect(() => {
+    if (visible) setHidePrivacyZones(true);
+  }, [visible]);
+
+  const options: BottomSheetOption[] = ACTIVITY_EXPORT_FORMATS.map((format) => ({
+    id: `export-${format}`,
+    icon: FORMAT_ICONS[format],
+    title: t(`activityExport.formats.${format}.title`),
+    description: t(`activityExport.formats.${format}.description`),
+    onPress: () => onSelect(format, { hidePrivacyZones }),
+  }));
+
+  return (
+    <BottomSheet
+      visible={visible}
+      onClose={onClose}
+      title={t('activityExport.chooseFormat')}
+      options={options}
+      footer={
+        <View style={[styles.privacyRow, { backgroundColor: colors.background }]}>
+          <View style={styles.privacyText}>
+            <Text style={[styles.privacyTitle, { color: colors.textPrimary }]}>
+              {t('activityExport.hidePrivacyZones')}
+            </Text>
+            <Text style={[styles.privacyDescription, { color: colors.textSecondary }]}>
+              {hidePrivacyZones
+                ? t('activityExport.hidePrivacyZonesOn')
+                : t('activityExport.hidePrivacyZonesOff')}
+            </Text>
+          </View>
+          <Switch
+            value={hidePrivacyZones}
+            onValueChange={setHidePrivacyZones}
+            trackColor={{ false: colors.border, true: colors.primary }}
+          />
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  privacyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    marginBottom: spacing.md,
+    gap: spacing.md,
+  },
+  privacyText: {
+    flex: 1,
+  },
+  privacyTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  privacyDescription: {
+    fontSize: fontSize.sm,
+    marginTop: 2,
+  },
+});
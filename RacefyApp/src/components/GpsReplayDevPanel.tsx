@@ -0,0 +1,165 @@
+/**
+ * GPS Replay Dev Panel
+ *
+ * Dev Tools controls for replaying a recorded GPX / track-points JSON file
+ * through the live recording pipeline. Arm a replay here, then start a
+ * recording as usual - the foreground watcher receives the recorded fixes.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import { useTheme } from '../hooks/useTheme';
+import { triggerHaptic } from '../hooks/useHaptics';
+import {
+  armGpsReplay,
+  disarmGpsReplay,
+  getGpsReplayStatus,
+  subscribeGpsReplay,
+  type GpsReplayStatus,
+} from '../services/gpsReplay';
+import { parseRecordedTrack, REPLAY_DEGRADATION_PRESETS, type ReplayFix } from '../utils/trackReplay';
+import { spacing, fontSize, borderRadius } from '../theme';
+import { Button } from './Button';
+
+// Faster replays record the track as covered that much faster (see gpsReplay)
+const SPEED_MULTIPLIERS = [1, 2, 4];
+type DegradationPreset = keyof typeof REPLAY_DEGRADATION_PRESETS;
+const PRESETS = Object.keys(REPLAY_DEGRADATION_PRESETS) as DegradationPreset[];
+
+export function GpsReplayDevPanel() {
+  const { colors } = useTheme();
+  const [track, setTrack] = useState<{ name: string; fixes: ReplayFix[] } | null>(null);
+  const [speedMultiplier, setSpeedMultiplier] = useState(1);
+  const [preset, setPreset] = useState<DegradationPreset>('clean');
+  const [status, setStatus] = useState<GpsReplayStatus>(getGpsReplayStatus);
+
+  useEffect(() => subscribeGpsReplay(setStatus), []);
+
+  const handlePickTrack = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/gpx+xml', 'application/json', 'text/xml', 'application/xml', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      const file = result.assets[0];
+      const content = await FileSystem.readAsStringAsync(file.uri);
+      const fixes = parseRecordedTrack(file.name, content);
+      if (fixes.length < 2) {
+        Alert.alert('Replay', 'No track points found in this file.');
+        return;
+      }
+      setTrack({ name: file.name, fixes });
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  const handleToggle = () => {
+    triggerHaptic();
+    if (status.active) {
+      disarmGpsReplay();
+      return;
+    }
+    if (!track) return;
+    armGpsReplay(track.name, track.fixes, speedMultiplier, REPLAY_DEGRADATION_PRESETS[preset]);
+    Alert.alert('Replay armed', 'Start a recording - it will receive the replayed track instead of GPS.');
+  };
+
+  const renderChips = <T extends string | number>(
+    values: T[],
+    selected: T,
+    onSelect: (value: T) => void,
+    format: (value: T) => string
+  ) => (
+    <View style={styles.chips}>
+      {values.map((value) => {
+        const isSelected = value === selected;
+        return (
+          <TouchableOpacity
+            key={String(value)}
+            style={[
+              styles.chip,
+              { borderColor: isSelected ? colors.primary : colors.border },
+              isSelected && { backgroundColor: colors.primary },
+            ]}
+            disabled={status.active}
+            onPress={() => onSelect(value)}
+          >
+            <Text style={[styles.chipText, { color: isSelected ? colors.white : colors.textPrimary }]}>
+              {format(value)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <View>
+      <Text style={[styles.title, { color: colors.textPrimary }]}>GPS Replay</Text>
+      <Button title={track ? track.name : 'Pick GPX / JSON track'} variant="outline" onPress={handlePickTrack} />
+      {track && (
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>{track.fixes.length} points</Text>
+      )}
+
+      <Text style={[styles.label, { color: colors.textSecondary }]}>Speed</Text>
+      {renderChips(SPEED_MULTIPLIERS, speedMultiplier, setSpeedMultiplier, (v) => `${v}x`)}
+      {speedMultiplier > 1 && (
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          Moves {speedMultiplier}x faster than recorded - speed filters, pace and cues see a faster athlete
+        </Text>
+      )}
+
+      <Text style={[styles.label, { color: colors.textSecondary }]}>Signal degradation</Text>
+      {renderChips(PRESETS, preset, setPreset, (v) => v)}
+
+      <View style={{ height: spacing.sm }} />
+      <Button
+        title={status.active ? 'Disarm replay' : 'Arm replay'}
+        variant={status.active ? 'danger' : 'primary'}
+        disabled={!status.active && !track}
+        onPress={handleToggle}
+      />
+      {status.active && (
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          {status.trackName} @ {status.speedMultiplier}x - {status.emitted}/{status.total} fixes
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  label: {
+    fontSize: fontSize.sm,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  hint: {
+    fontSize: fontSize.sm,
+    marginTop: spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: fontSize.sm,
+  },
+});
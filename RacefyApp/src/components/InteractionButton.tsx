@@ -15,8 +15,10 @@ import * as Haptics from 'expo-haptics';
 import {useTheme} from '../hooks/useTheme';
 import {api} from '../services/api';
 import {logger} from '../services/logger';
+import {submitMutation} from '../services/mutationOutbox';
 import {fontSize, spacing} from '../theme';
 import {InteractorsListModal} from './InteractorsListModal';
+import type {BoostResponse} from '../types/api';
 
 export type InteractionVariant = 'like' | 'boost' | 'comment';
 export type InteractionTargetType =
@@ -106,17 +108,19 @@ async function performInteraction(
   parentId: number | undefined,
   add: boolean
 ): Promise<{ count?: number }> {
+  // Likes and activity boosts go through the outbox: offline they are queued
+  // and the optimistic state stays until the replay succeeds or is rejected
   if (variant === 'like') {
     if (targetType === 'post') {
-      add ? await api.likePost(targetId) : await api.unlikePost(targetId);
+      await submitMutation({ type: add ? 'likePost' : 'unlikePost', targetId });
       return {};
     }
     if (targetType === 'activity') {
-      add ? await api.likeActivity(targetId) : await api.unlikeActivity(targetId);
+      await submitMutation({ type: add ? 'likeActivity' : 'unlikeActivity', targetId });
       return {};
     }
     if (targetType === 'comment') {
-      add ? await api.likeComment(targetId) : await api.unlikeComment(targetId);
+      await submitMutation({ type: add ? 'likeComment' : 'unlikeComment', targetId });
       return {};
     }
     throw new Error(`like is not supported for targetType=${targetType}`);
@@ -124,10 +128,11 @@ async function performInteraction(
 
   // boost
   if (targetType === 'activity') {
-    const res = add
-      ? await api.boostActivity(targetId)
-      : await api.unboostActivity(targetId);
-    return { count: res.boosts_count };
+    const res = await submitMutation<BoostResponse>({
+      type: add ? 'boostActivity' : 'unboostActivity',
+      targetId,
+    });
+    return { count: res.queued ? undefined : res.result.boosts_count };
   }
   if (targetType === 'commentary') {
     if (parentId == null) {
@@ -0,0 +1,253 @@
+/**
+ * LeafletPrivacyZoneEditor - Privacy zone editor for devices without Mapbox
+ * Same props and handle as MapboxPrivacyZoneEditor (which falls back to it):
+ * Leaflet runs in a WebView, the zones and the masked preview are computed
+ * here and sent to the page, taps and vertex drags come back as messages.
+ */
+
+import React, { useRef, useCallback, useEffect, useMemo, useState, forwardRef, useImperativeHandle } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { WebView, type WebViewMessageEvent } from 'react-native-webview';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../hooks/useTheme';
+import { logger } from '../services/logger';
+import { applyPrivacyMask, privacyZoneRing } from '../utils/privacyMask';
+import type { MapboxPrivacyZoneEditorHandle, MapboxPrivacyZoneEditorProps } from './MapboxPrivacyZoneEditor';
+
+/** Leaflet coordinates are [lat, lng]; our rings and polygons are [lng, lat] */
+type LatLngTuple = [number, number];
+
+const LEAFLET_VERSION = '1.9.4';
+
+const TILES = {
+  light: 'https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png',
+  dark: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+};
+const TILE_ATTRIBUTION = '&copy; OpenStreetMap contributors &copy; CARTO';
+
+/** Everything the page draws, re-sent whenever it changes */
+interface LeafletScene {
+  zones: LatLngTuple[][];
+  full: LatLngTuple[] | null;
+  visible: LatLngTuple[][];
+  draft: LatLngTuple[] | null;
+  edge: LatLngTuple[] | null;
+  vertices: LatLngTuple[];
+  draggable: boolean;
+  fit: LatLngTuple[];
+  center: { lat: number; lng: number } | null;
+  colors: { zone: string; draft: string; route: string; hidden: string };
+}
+
+type LeafletMessage =
+  | { type: 'ready' }
+  | { type: 'unavailable' }
+  | { type: 'tap'; lat: number; lng: number }
+  | { type: 'vertexDrag'; index: number; lat: number; lng: number };
+
+function toLatLng([lng, lat]: [number, number]): LatLngTuple {
+  return [lat, lng];
+}
+
+function buildHtml(isDark: boolean, background: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no">
+<link rel="stylesheet" href="https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist/leaflet.css">
+<script src="https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist/leaflet.js"></script>
+<style>
+  html, body, #map { margin: 0; height: 100%; background: ${background}; }
+  .vertex { width: 12px; height: 12px; border-radius: 9px; border: 3px solid #ffffff; }
+</style>
+</head>
+<body>
+<div id="map"></div>
+<script>
+  function send(message) { window.ReactNativeWebView.postMessage(JSON.stringify(message)); }
+  if (!window.L) {
+    send({ type: 'unavailable' });
+  } else {
+    var map = L.map('map', { zoomControl: false }).setView([0, 0], 2);
+    L.tileLayer('${isDark ? TILES.dark : TILES.light}', { maxZoom: 19, attribution: '${TILE_ATTRIBUTION}' }).addTo(map);
+    var layers = L.layerGroup().addTo(map);
+    var fitted = false;
+    map.on('click', function (e) { send({ type: 'tap', lat: e.latlng.lat, lng: e.latlng.lng }); });
+
+    window.render = function (s) {
+      layers.clearLayers();
+      s.zones.forEach(function (ring) {
+        L.polygon(ring, { color: s.colors.zone, weight: 1.5, opacity: 0.7, fillOpacity: 0.2, interactive: false }).addTo(layers);
+      });
+      if (s.full) {
+        L.polyline(s.full, { color: s.colors.hidden, weight: 3, opacity: 0.8, dashArray: '2 6', lineCap: 'round', interactive: false }).addTo(layers);
+      }
+      if (s.visible.length > 0) {
+        L.polyline(s.visible, { color: s.colors.route, weight: 4, lineCap: 'round', lineJoin: 'round', interactive: false }).addTo(layers);
+      }
+      if (s.draft) {
+        L.polygon(s.draft, { color: s.colors.draft, weight: 2, fillOpacity: 0.25, interactive: false }).addTo(layers);
+      }
+      if (s.edge) {
+        L.polyline(s.edge, { color: s.colors.draft, weight: 2, dashArray: '4 4', interactive: false }).addTo(layers);
+      }
+      s.vertices.forEach(function (vertex, index) {
+        var icon = L.divIcon({ className: '', iconSize: [18, 18], html: '<div class="vertex" style="background:' + s.colors.draft + '"></div>' });
+        L.marker(vertex, { icon: icon, draggable: s.draggable })
+          .on('dragend', function (e) {
+            var point = e.target.getLatLng();
+            send({ type: 'vertexDrag', index: index, lat: point.lat, lng: point.lng });
+          })
+          .addTo(layers);
+      });
+      if (!fitted && s.fit.length > 1) {
+        map.fitBounds(s.fit, { padding: [60, 60] });
+        fitted = true;
+      } else if (!fitted && s.center) {
+        map.setView([s.center.lat, s.center.lng], 14);
+        fitted = true;
+      }
+    };
+    window.flyTo = function (lat, lng, zoom) { map.flyTo([lat, lng], zoom); };
+    send({ type: 'ready' });
+  }
+</script>
+</body>
+</html>`;
+}
+
+export const LeafletPrivacyZoneEditor = forwardRef<MapboxPrivacyZoneEditorHandle, MapboxPrivacyZoneEditorProps>(function LeafletPrivacyZoneEditor({
+  zones,
+  draftZone,
+  onMapTap,
+  onVertexDrag,
+  previewTrack,
+  trim,
+  height,
+  initialCenter,
+}, ref) {
+  const { t } = useTranslation();
+  const { colors, isDark } = useTheme();
+  const webViewRef = useRef<WebView>(null);
+  // Bumped on every page load; the scene is (re)sent after each
+  const [loadCount, setLoadCount] = useState(0);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useImperativeHandle(ref, () => ({
+    flyTo: (lat: number, lng: number, zoom: number = 15) => {
+      webViewRef.current?.injectJavaScript(`window.flyTo && window.flyTo(${lat}, ${lng}, ${zoom}); true;`);
+    },
+  }), []);
+
+  const html = useMemo(() => buildHtml(isDark, colors.cardBackground), [isDark, colors.cardBackground]);
+
+  const scene = useMemo((): LeafletScene => {
+    const draftRing = draftZone ? privacyZoneRing(draftZone) : [];
+    const polygonVertices = draftZone?.shape === 'polygon' ? draftZone.polygon ?? [] : [];
+    const hasPreview = !!previewTrack && previewTrack.length >= 2;
+    const maskZones = draftZone ? [...zones.filter((zone) => zone.id !== draftZone.id), draftZone] : zones;
+    const visible = hasPreview
+      ? applyPrivacyMask(previewTrack!, { zones: maskZones, trim }).filter((segment) => segment.length >= 2)
+      : [];
+    const full = hasPreview ? previewTrack!.map((p): LatLngTuple => [p.lat, p.lng]) : null;
+
+    return {
+      zones: zones
+        .filter((zone) => zone.is_active && zone.id !== draftZone?.id)
+        .map((zone) => privacyZoneRing(zone))
+        .filter((ring) => ring.length >= 4)
+        .map((ring) => ring.map(toLatLng)),
+      full,
+      visible: visible.map((segment) => segment.map((p): LatLngTuple => [p.lat, p.lng])),
+      draft: draftRing.length >= 4 ? draftRing.map(toLatLng) : null,
+      edge: polygonVertices.length === 2 ? polygonVertices.map(toLatLng) : null,
+      vertices: polygonVertices.map(toLatLng),
+      draggable: !!onVertexDrag,
+      // Frame the draft, else the preview track, else the initial center
+      fit: draftRing.length >= 4 ? draftRing.map(toLatLng) : full ?? [],
+      center: initialCenter ?? null,
+      colors: {
+        zone: isDark ? '#f87171' : '#ef4444',
+        draft: isDark ? '#60a5fa' : '#3b82f6',
+        route: isDark ? '#34d399' : '#10b981',
+        hidden: isDark ? '#9ca3af' : '#6b7280',
+      },
+    };
+  }, [zones, draftZone, previewTrack, trim, initialCenter, onVertexDrag, isDark]);
+
+  useEffect(() => {
+    if (loadCount === 0) return;
+    webViewRef.current?.injectJavaScript(`window.render(${JSON.stringify(scene)}); true;`);
+  }, [loadCount, scene]);
+
+  const handleMessage = useCallback((event: WebViewMessageEvent) => {
+    let message: LeafletMessage;
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+    switch (message.type) {
+      case 'ready':
+        setUnavailable(false);
+        setLoadCount((count) => count + 1);
+        break;
+      case 'unavailable':
+        logger.warn('gps', 'Leaflet could not be loaded for privacy zone editor');
+        setUnavailable(true);
+        break;
+      case 'tap':
+        onMapTap?.(message.lat, message.lng);
+        break;
+      case 'vertexDrag':
+        onVertexDrag?.(message.index, message.lat, message.lng);
+        break;
+    }
+  }, [onMapTap, onVertexDrag]);
+
+  if (unavailable) {
+    return (
+      <View style={[styles.fallback, height ? { height } : { flex: 1 }, { backgroundColor: colors.cardBackground }]}>
+        <Ionicons name="map-outline" size={32} color={colors.textMuted} />
+        <Text style={[styles.fallbackText, { color: colors.textSecondary }]}>
+          {t('settings.privacyZones.mapUnavailable')}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={height ? { height } : { flex: 1 }}>
+      <WebView
+        ref={webViewRef}
+        style={[styles.map, { backgroundColor: colors.cardBackground }]}
+        originWhitelist={['*']}
+        source={{ html }}
+        onMessage={handleMessage}
+        onError={(event) => {
+          logger.warn('gps', 'Privacy zone map failed to load', { error: event.nativeEvent.description });
+          setUnavailable(true);
+        }}
+        scrollEnabled={false}
+        javaScriptEnabled
+      />
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+  fallback: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 24,
+  },
+  fallbackText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
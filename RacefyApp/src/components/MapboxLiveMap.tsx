@@ -11,6 +11,8 @@ import { View, StyleSheet, ActivityIndicator, Animated, Text } from 'react-nativ
 import * as Location from 'expo-location';
 import { logger } from '../services/logger';
 import { useTheme } from '../hooks/useTheme';
+import { usePrivacyMask } from '../hooks/usePrivacyMask';
+import { applyPrivacyMask } from '../utils/privacyMask';
 import type { GpsPoint, GeoJSONLineString } from '../types/api';
 
 // Conditional import - only loads if @rnmapbox/maps is installed
@@ -80,6 +82,11 @@ export interface MapboxLiveMapProps {
 
   // Planned route (for live navigation)
   plannedRoute?: GeoJSONLineString | null;
+  /** Way back to the planned route while off route (routed path or straight line) */
+  rejoinPath?: GeoJSONLineString | null;
+
+  /** Hide the trimmed start, cut the track inside privacy zones and cover the zones (default on), so screenshots don't leak them */
+  maskPrivacyZones?: boolean;
 }
 
 /**
@@ -100,8 +107,11 @@ export function MapboxLiveMap({
   selectedRouteId,
   onFollowUserChanged,
   plannedRoute,
+  rejoinPath,
+  maskPrivacyZones = true,
 }: MapboxLiveMapProps) {
   const { colors, isDark } = useTheme();
+  const privacyMask = usePrivacyMask(maskPrivacyZones);
   const cameraRef = useRef<any>(null);
   const mapReadyRef = useRef(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -161,22 +171,30 @@ export function MapboxLiveMap({
   // Use preview location if tracking hasn't started, otherwise use live position
   const displayPosition = currentPosition || previewLocation;
 
-  // Build GeoJSON LineString from livePoints
+  // Build GeoJSON from livePoints — one line per run outside the privacy zones.
+  // The end trim is left out: while recording, the end is where the user is now.
+  // The zones themselves aren't drawn: any shape centred on a zone would
+  // give its centre (often home) away in a screenshot.
   // Depends on livePointsVersion (cheap number comparison) instead of array reference
   // to avoid O(n) copy on every render from duration timer
   const routeGeoJSON = useMemo(() => {
     if (livePoints.length < 2) return null;
+    const liveMask = { ...privacyMask, trim: { ...privacyMask.trim, hide_end_meters: 0 } };
+    const segments = applyPrivacyMask(livePoints, liveMask).filter(
+      segment => segment.length >= 2
+    );
+    if (segments.length === 0) return null;
 
     return {
       type: 'Feature' as const,
       properties: {},
       geometry: {
-        type: 'LineString' as const,
-        coordinates: livePoints.map(p => [p.lng, p.lat]),
+        type: 'MultiLineString' as const,
+        coordinates: segments.map(segment => segment.map(p => [p.lng, p.lat])),
       },
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [livePointsVersion]);
+  }, [livePointsVersion, privacyMask]);
 
   // Note: Map load analytics tracked by parent when activityId is available
   // No trackMapLoad(0) call here - activityId 0 is invalid and API rejects it
@@ -398,6 +416,33 @@ export function MapboxLiveMap({
           </MapboxGL.ShapeSource>
         )}
 
+        {/* Rejoin path back to the planned route (off route) */}
+        {rejoinPath && rejoinPath.coordinates.length > 1 && (
+          <MapboxGL.ShapeSource
+            id="rejoin-path"
+            shape={{
+              type: 'Feature',
+              properties: {},
+              geometry: {
+                type: 'LineString',
+                coordinates: rejoinPath.coordinates,
+              },
+            }}
+          >
+            <MapboxGL.LineLayer
+              id="rejoin-path-line"
+              style={{
+                lineColor: isDark ? '#f87171' : '#ef4444',
+                lineWidth: 4,
+                lineOpacity: 0.9,
+                lineDasharray: [2, 1.5],
+                lineCap: 'round',
+                lineJoin: 'round',
+              }}
+            />
+          </MapboxGL.ShapeSource>
+        )}
+
         {/* Shadow track polyline with border (recording/paused state only) */}
         {validShadowTrack && livePoints.length > 0 && (
           <MapboxGL.ShapeSource
@@ -0,0 +1,302 @@
+/**
+ * MapboxPrivacyZoneEditor - Draw and preview privacy zones on the map
+ * Tap to place a circle / add polygon vertices, drag vertices to reshape,
+ * and see a recent track with the current mask applied.
+ * Without Mapbox the same editor runs on Leaflet (LeafletPrivacyZoneEditor).
+ */
+
+import React, { useRef, useCallback, useEffect, useMemo, useState, forwardRef, useImperativeHandle } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { useTheme } from '../hooks/useTheme';
+import { logger } from '../services/logger';
+import { applyPrivacyMask, privacyZoneRing } from '../utils/privacyMask';
+import { LeafletPrivacyZoneEditor } from './LeafletPrivacyZoneEditor';
+import type { GpsPoint, PrivacyTrimSettings, PrivacyZone } from '../types/api';
+
+// Conditional import - only loads if @rnmapbox/maps is installed
+let MapboxGL: any = null;
+let MAPBOX_ACCESS_TOKEN: string | null = null;
+
+try {
+  MapboxGL = require('@rnmapbox/maps').default;
+  MAPBOX_ACCESS_TOKEN = require('../config/api').MAPBOX_ACCESS_TOKEN;
+
+  if (MAPBOX_ACCESS_TOKEN && MapboxGL) {
+    MapboxGL.setAccessToken(MAPBOX_ACCESS_TOKEN);
+  }
+} catch (e) {
+  logger.debug('gps', 'Mapbox SDK not available for privacy zone editor');
+}
+
+export interface MapboxPrivacyZoneEditorHandle {
+  /** Fly the camera to the given coordinates. */
+  flyTo: (lat: number, lng: number, zoom?: number) => void;
+}
+
+export interface MapboxPrivacyZoneEditorProps {
+  /** Saved zones, drawn for context and applied to the preview */
+  zones: PrivacyZone[];
+  /** Zone being drawn or edited. Omit to only preview the mask. */
+  draftZone?: PrivacyZone | null;
+  onMapTap?: (lat: number, lng: number) => void;
+  /** Makes the draft polygon's vertices draggable */
+  onVertexDrag?: (index: number, lat: number, lng: number) => void;
+  /** Raw points of a recent activity to preview the mask on */
+  previewTrack?: GpsPoint[] | null;
+  trim: PrivacyTrimSettings;
+  /** Fixed height in px. Omit to let the component fill its parent (flex: 1). */
+  height?: number;
+  /** Map center when there's neither a draft nor a preview track to frame. */
+  initialCenter?: { lat: number; lng: number } | null;
+}
+
+function zonesCollection(zones: PrivacyZone[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: zones
+      .map((zone) => privacyZoneRing(zone))
+      .filter((ring) => ring.length >= 4)
+      .map((ring) => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Polygon' as const, coordinates: [ring] },
+        properties: {},
+      })),
+  };
+}
+
+export const MapboxPrivacyZoneEditor = forwardRef<MapboxPrivacyZoneEditorHandle, MapboxPrivacyZoneEditorProps>(function MapboxPrivacyZoneEditor(props, ref) {
+  if (!MapboxGL || !MAPBOX_ACCESS_TOKEN) {
+    return <LeafletPrivacyZoneEditor ref={ref} {...props} />;
+  }
+  return <MapboxEditorMap ref={ref} {...props} />;
+});
+
+const MapboxEditorMap = forwardRef<MapboxPrivacyZoneEditorHandle, MapboxPrivacyZoneEditorProps>(function MapboxEditorMap({
+  zones,
+  draftZone,
+  onMapTap,
+  onVertexDrag,
+  previewTrack,
+  trim,
+  height,
+  initialCenter,
+}, ref) {
+  const { isDark } = useTheme();
+  const cameraRef = useRef<any>(null);
+  const [mapReady, setMapReady] = useState(false);
+
+  useImperativeHandle(ref, () => ({
+    flyTo: (lat: number, lng: number, zoom: number = 15) => {
+      cameraRef.current?.setCamera({
+        centerCoordinate: [lng, lat],
+        zoomLevel: zoom,
+        animationDuration: 600,
+      });
+    },
+  }), []);
+
+  const handleMapPress = useCallback((event: any) => {
+    const { geometry } = event;
+    if (geometry?.coordinates && onMapTap) {
+      const [lng, lat] = geometry.coordinates;
+      onMapTap(lat, lng);
+    }
+  }, [onMapTap]);
+
+  const draftRing = useMemo(() => (draftZone ? privacyZoneRing(draftZone) : []), [draftZone]);
+
+  // Frame the draft, else the preview track, once there's something to frame
+  const didFitRef = useRef(false);
+  useEffect(() => {
+    if (!mapReady || !cameraRef.current || didFitRef.current) return;
+    const coords: [number, number][] = draftRing.length >= 4
+      ? draftRing
+      : (previewTrack ?? []).map((p) => [p.lng, p.lat] as [number, number]);
+    if (coords.length > 1) {
+      const lats = coords.map((c) => c[1]);
+      const lngs = coords.map((c) => c[0]);
+      cameraRef.current.fitBounds(
+        [Math.max(...lngs), Math.max(...lats)],
+        [Math.min(...lngs), Math.min(...lats)],
+        [60, 60, 60, 60],
+        500
+      );
+      didFitRef.current = true;
+    } else if (initialCenter) {
+      cameraRef.current.setCamera({
+        centerCoordinate: [initialCenter.lng, initialCenter.lat],
+        zoomLevel: 14,
+        animationDuration: 600,
+      });
+      didFitRef.current = true;
+    }
+  }, [mapReady, draftRing, previewTrack, initialCenter]);
+
+  const contextZones = useMemo(
+    () => zonesCollection(zones.filter((zone) => zone.is_active && zone.id !== draftZone?.id)),
+    [zones, draftZone?.id]
+  );
+
+  // Preview: the whole track dashed underneath, what survives the mask on top
+  const previewFeatures = useMemo(() => {
+    if (!previewTrack || previewTrack.length < 2) return null;
+    const maskZones = draftZone ? [...zones.filter((zone) => zone.id !== draftZone.id), draftZone] : zones;
+    const visible = applyPrivacyMask(previewTrack, { zones: maskZones, trim })
+      .filter((segment) => segment.length >= 2);
+    return {
+      full: {
+        type: 'Feature' as const,
+        geometry: { type: 'LineString' as const, coordinates: previewTrack.map((p) => [p.lng, p.lat]) },
+        properties: {},
+      },
+      visible: visible.length > 0
+        ? {
+            type: 'Feature' as const,
+            geometry: {
+              type: 'MultiLineString' as const,
+              coordinates: visible.map((segment) => segment.map((p) => [p.lng, p.lat])),
+            },
+            properties: {},
+          }
+        : null,
+    };
+  }, [previewTrack, zones, draftZone, trim]);
+
+  const mapStyle = isDark ? 'mapbox://styles/mapbox/dark-v11' : 'mapbox://styles/mapbox/outdoors-v12';
+  const routeColor = isDark ? '#34d399' : '#10b981';
+  const hiddenColor = isDark ? '#9ca3af' : '#6b7280';
+  const zoneColor = isDark ? '#f87171' : '#ef4444';
+  const draftColor = isDark ? '#60a5fa' : '#3b82f6';
+  const polygonVertices = draftZone?.shape === 'polygon' ? draftZone.polygon ?? [] : [];
+
+  return (
+    <View style={height ? { height } : { flex: 1 }}>
+      <MapboxGL.MapView
+        style={styles.map}
+        styleURL={mapStyle}
+        onPress={handleMapPress}
+        onDidFinishLoadingMap={() => setMapReady(true)}
+        attributionEnabled={false}
+        logoEnabled={false}
+        compassEnabled
+      >
+        <MapboxGL.Camera
+          ref={cameraRef}
+          zoomLevel={13}
+          animationMode="none"
+        />
+
+        {/* Saved zones */}
+        {contextZones.features.length > 0 && (
+          <MapboxGL.ShapeSource id="privacyEditorZones" shape={contextZones}>
+            <MapboxGL.FillLayer
+              id="privacyEditorZonesFill"
+              style={{ fillColor: zoneColor, fillOpacity: 0.2 }}
+            />
+            <MapboxGL.LineLayer
+              id="privacyEditorZonesLine"
+              style={{ lineColor: zoneColor, lineWidth: 1.5, lineOpacity: 0.7 }}
+            />
+          </MapboxGL.ShapeSource>
+        )}
+
+        {/* Preview track */}
+        {previewFeatures && (
+          <MapboxGL.ShapeSource id="privacyEditorPreviewFull" shape={previewFeatures.full}>
+            <MapboxGL.LineLayer
+              id="privacyEditorPreviewHidden"
+              style={{
+                lineColor: hiddenColor,
+                lineWidth: 3,
+                lineDasharray: [1, 2],
+                lineCap: 'round',
+                lineJoin: 'round',
+                lineOpacity: 0.8,
+              }}
+            />
+          </MapboxGL.ShapeSource>
+        )}
+        {previewFeatures?.visible && (
+          <MapboxGL.ShapeSource id="privacyEditorPreviewVisible" shape={previewFeatures.visible}>
+            <MapboxGL.LineLayer
+              id="privacyEditorPreviewVisibleLine"
+              style={{
+                lineColor: routeColor,
+                lineWidth: 4,
+                lineCap: 'round',
+                lineJoin: 'round',
+                lineOpacity: 1,
+              }}
+            />
+          </MapboxGL.ShapeSource>
+        )}
+
+        {/* Zone being drawn */}
+        {draftRing.length >= 4 && (
+          <MapboxGL.ShapeSource
+            id="privacyEditorDraft"
+            shape={{
+              type: 'Feature',
+              geometry: { type: 'Polygon', coordinates: [draftRing] },
+              properties: {},
+            }}
+          >
+            <MapboxGL.FillLayer
+              id="privacyEditorDraftFill"
+              style={{ fillColor: draftColor, fillOpacity: 0.25 }}
+            />
+            <MapboxGL.LineLayer
+              id="privacyEditorDraftLine"
+              style={{ lineColor: draftColor, lineWidth: 2 }}
+            />
+          </MapboxGL.ShapeSource>
+        )}
+        {/* Outline so far, before the polygon has three vertices */}
+        {polygonVertices.length === 2 && (
+          <MapboxGL.ShapeSource
+            id="privacyEditorDraftEdge"
+            shape={{
+              type: 'Feature',
+              geometry: { type: 'LineString', coordinates: polygonVertices },
+              properties: {},
+            }}
+          >
+            <MapboxGL.LineLayer
+              id="privacyEditorDraftEdgeLine"
+              style={{ lineColor: draftColor, lineWidth: 2, lineDasharray: [2, 2] }}
+            />
+          </MapboxGL.ShapeSource>
+        )}
+
+        {/* Vertex handles */}
+        {polygonVertices.map(([lng, lat], index) => (
+          <MapboxGL.PointAnnotation
+            key={`vertex-${index}`}
+            id={`privacyEditorVertex-${index}`}
+            coordinate={[lng, lat]}
+            draggable={!!onVertexDrag}
+            onDragEnd={(event: any) => {
+              const [dragLng, dragLat] = event.geometry.coordinates;
+              onVertexDrag?.(index, dragLat, dragLng);
+            }}
+          >
+            <View style={[styles.vertex, { backgroundColor: draftColor }]} />
+          </MapboxGL.PointAnnotation>
+        ))}
+      </MapboxGL.MapView>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+  vertex: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 3,
+    borderColor: '#ffffff',
+  },
+});
@@ -26,6 +26,8 @@ try {
   logger.debug('gps', 'Mapbox SDK not available for route planner');
 }
 
+const NO_ALTERNATIVES: GeoJSONLineString[] = [];
+
 export type RoutePlannerMapStyle = 'outdoors' | 'streets' | 'satellite';
 
 export interface MapboxRoutePlannerHandle {
@@ -45,6 +47,8 @@ interface MapboxRoutePlannerProps {
   initialCenter?: { lat: number; lng: number } | null;
   /** Map style variant. Defaults to 'outdoors'. */
   mapStyleType?: RoutePlannerMapStyle;
+  /** Other candidate routes (e.g. generated loops), drawn muted under the main route */
+  alternativeGeometries?: GeoJSONLineString[];
 }
 
 export const MapboxRoutePlanner = forwardRef<MapboxRoutePlannerHandle, MapboxRoutePlannerProps>(function MapboxRoutePlanner({
@@ -56,6 +60,7 @@ export const MapboxRoutePlanner = forwardRef<MapboxRoutePlannerHandle, MapboxRou
   height,
   initialCenter,
   mapStyleType = 'outdoors',
+  alternativeGeometries = NO_ALTERNATIVES,
 }, ref) {
   const { colors, isDark } = useTheme();
   const cameraRef = useRef<any>(null);
@@ -102,12 +107,13 @@ export const MapboxRoutePlanner = forwardRef<MapboxRoutePlannerHandle, MapboxRou
     didInitialCenterRef.current = true;
   }, [mapReady, initialCenter, waypoints.length]);
 
-  // Fit camera to all waypoints + route
+  // Fit camera to all waypoints + route (and alternatives)
   useEffect(() => {
     if (!mapReady || !cameraRef.current) return;
 
-    if (routeGeometry && routeGeometry.coordinates.length > 1) {
-      const coords = routeGeometry.coordinates;
+    const coords = [routeGeometry, ...alternativeGeometries]
+      .flatMap((geometry) => geometry?.coordinates ?? []);
+    if (coords.length > 1) {
       const lats = coords.map((c) => c[1]);
       const lngs = coords.map((c) => c[0]);
       cameraRef.current.fitBounds(
@@ -123,7 +129,7 @@ export const MapboxRoutePlanner = forwardRef<MapboxRoutePlannerHandle, MapboxRou
         animationDuration: 500,
       });
     }
-  }, [mapReady, waypoints.length, routeGeometry]);
+  }, [mapReady, waypoints.length, routeGeometry, alternativeGeometries]);
 
   // Build waypoint markers GeoJSON
   const waypointFeatures: GeoJSON.FeatureCollection = {
@@ -152,6 +158,15 @@ export const MapboxRoutePlanner = forwardRef<MapboxRoutePlannerHandle, MapboxRou
       }
     : null;
 
+  const alternativesFeature: GeoJSON.FeatureCollection = {
+    type: 'FeatureCollection',
+    features: alternativeGeometries.map((geometry) => ({
+      type: 'Feature' as const,
+      geometry,
+      properties: {},
+    })),
+  };
+
   const mapStyle =
     mapStyleType === 'satellite'
       ? 'mapbox://styles/mapbox/satellite-streets-v12'
@@ -162,6 +177,7 @@ export const MapboxRoutePlanner = forwardRef<MapboxRoutePlannerHandle, MapboxRou
           : 'mapbox://styles/mapbox/outdoors-v12';
 
   const routeColor = isDark ? '#34d399' : '#10b981';
+  const alternativeColor = isDark ? '#9ca3af' : '#6b7280';
   const waypointColor = isDark ? '#60a5fa' : '#3b82f6';
   const startColor = isDark ? '#4ade80' : '#22c55e';
   const endColor = isDark ? '#fb7185' : '#ef4444';
@@ -183,6 +199,23 @@ export const MapboxRoutePlanner = forwardRef<MapboxRoutePlannerHandle, MapboxRou
           animationMode="none"
         />
 
+        {/* Alternative routes */}
+        {alternativeGeometries.length > 0 && (
+          <MapboxGL.ShapeSource id="plannerAlternatives" shape={alternativesFeature}>
+            <MapboxGL.LineLayer
+              id="plannerAlternativesLine"
+              style={{
+                lineColor: alternativeColor,
+                lineWidth: 3,
+                lineCap: 'round',
+                lineJoin: 'round',
+                lineOpacity: 0.6,
+                lineDasharray: [2, 2],
+              }}
+            />
+          </MapboxGL.ShapeSource>
+        )}
+
         {/* Route polyline */}
         {routeFeature && (
           <MapboxGL.ShapeSource id="plannerRoute" shape={routeFeature}>
@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { spacing, fontSize, borderRadius } from '../theme';
+import type { Message } from '../types/api';
+
+export const MESSAGE_REACTION_EMOJIS = ['👍', '❤️', '😂', '🔥', '👏', '😮'];
+
+interface MessageActionsSheetProps {
+  message: Message | null;
+  currentUserId: number | null;
+  onClose: () => void;
+  onReact: (message: Message, emoji: string) => void;
+  onReply: (message: Message) => void;
+  onCopy: (message: Message) => void;
+}
+
+/** Long-press menu of a chat bubble: quick reactions, reply, copy */
+export function MessageActionsSheet({
+  message,
+  currentUserId,
+  onClose,
+  onReact,
+  onReply,
+  onCopy,
+}: MessageActionsSheetProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const run = (action: (message: Message) => void) => {
+    if (!message) return;
+    onClose();
+    action(message);
+  };
+
+  return (
+    <Modal visible={!!message} animationType="fade" transparent onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[
+            styles.sheet,
+            {
+              backgroundColor: colors.cardBackground,
+              paddingBottom: Math.max(insets.bottom, spacing.lg),
+            },
+          ]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View style={styles.emojiRow}>
+            {MESSAGE_REACTION_EMOJIS.map((emoji) => {
+              const isMine =
+                currentUserId != null &&
+                !!message?.reactions?.some(
+                  (r) => r.emoji === emoji && r.user_ids.includes(currentUserId)
+                );
+              return (
+                <TouchableOpacity
+                  key={emoji}
+                  style={[styles.emojiButton, isMine && { backgroundColor: colors.primary + '25' }]}
+                  onPress={() => run((m) => onReact(m, emoji))}
+                >
+                  <Text style={styles.emoji}>{emoji}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity style={styles.option} onPress={() => run(onReply)}>
+            <Ionicons name="arrow-undo-outline" size={22} color={colors.textPrimary} />
+            <Text style={[styles.optionText, { color: colors.textPrimary }]}>
+              {t('messaging.reply')}
+            </Text>
+          </TouchableOpacity>
+          {!!message?.content && (
+            <TouchableOpacity style={styles.option} onPress={() => run(onCopy)}>
+              <Ionicons name="copy-outline" size={22} color={colors.textPrimary} />
+              <Text style={[styles.optionText, { color: colors.textPrimary }]}>
+                {t('messaging.copyText')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+  },
+  emojiRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  emojiButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emoji: {
+    fontSize: 26,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  optionText: {
+    fontSize: fontSize.md,
+  },
+});
@@ -6,9 +6,12 @@ import { useTheme } from '../hooks/useTheme';
 import { formatDistance, formatTotalTime } from '../utils/formatters';
 import { spacing, fontSize, borderRadius } from '../theme';
 import type { NavigationState } from '../hooks/useLiveNavigation';
+import type { RejoinState } from '../hooks/useRejoinRoute';
 
 interface NavigationOverlayProps {
   navigation: NavigationState;
+  /** Way back to the route while off route (useRejoinRoute) */
+  rejoin?: RejoinState | null;
 }
 
 function getTurnIconName(maneuver: string): keyof typeof Ionicons.glyphMap {
@@ -18,12 +21,14 @@ function getTurnIconName(maneuver: string): keyof typeof Ionicons.glyphMap {
   return 'arrow-up';
 }
 
-export function NavigationOverlay({ navigation: nav }: NavigationOverlayProps) {
+export function NavigationOverlay({ navigation: nav, rejoin }: NavigationOverlayProps) {
   const { t } = useTranslation();
   const { colors } = useTheme();
 
   if (!nav.isActive) return null;
 
+  const isRejoining = nav.isOffRoute && !!rejoin && rejoin.status !== 'idle';
+
   return (
     <View style={styles.container} pointerEvents="box-none">
       {/* Off-route warning */}
@@ -36,8 +41,34 @@ export function NavigationOverlay({ navigation: nav }: NavigationOverlayProps) {
         </View>
       )}
 
+      {/* Way back to the route — the map is north-up, so the arrow is a compass bearing */}
+      {isRejoining && (
+        <View style={[styles.turnCard, { backgroundColor: colors.cardBackground }]}>
+          <View style={[styles.turnIconBox, { backgroundColor: '#ef4444' }]}>
+            <Ionicons
+              name="arrow-up"
+              size={24}
+              color="#fff"
+              style={{ transform: [{ rotate: `${Math.round(rejoin.bearing ?? 0)}deg` }] }}
+            />
+          </View>
+          <View style={styles.turnInfo}>
+            <Text style={[styles.turnDistance, { color: colors.textPrimary }]}>
+              {t('navigation.rejoinIn', { distance: formatDistance(rejoin.distance) })}
+            </Text>
+            <Text style={[styles.turnInstruction, { color: colors.textSecondary }]} numberOfLines={1}>
+              {rejoin.status === 'routed'
+                ? t('navigation.rejoinRouted')
+                : rejoin.status === 'direct'
+                  ? t('navigation.rejoinDirect')
+                  : t('navigation.rejoinFetching')}
+            </Text>
+          </View>
+        </View>
+      )}
+
       {/* Next turn card */}
-      {nav.nextTurn && nav.distanceToTurn !== null && (
+      {!isRejoining && nav.nextTurn && nav.distanceToTurn !== null && (
         <View style={[styles.turnCard, { backgroundColor: colors.cardBackground }]}>
           <View style={[styles.turnIconBox, { backgroundColor: colors.primary }]}>
             <Ionicons
@@ -5,6 +5,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { useTheme } from '../../hooks/useTheme';
+import { useOutboxCount } from '../../hooks/useMutationOutbox';
 
 const ONLINE_DISMISS_DELAY = 2500;
 const BAR_CONTENT_HEIGHT = 32;
@@ -13,6 +14,7 @@ export function NetworkStatusBar() {
   const { colors } = useTheme();
   const { t } = useTranslation();
   const insets = useSafeAreaInsets();
+  const pendingCount = useOutboxCount();
 
   const [isOnline, setIsOnline] = useState(true);
   const [visible, setVisible] = useState(false);
@@ -68,6 +70,9 @@ export function NetworkStatusBar() {
   const barColor = isOnline ? colors.success : colors.error;
   const iconName = isOnline ? 'wifi' : 'cloud-offline-outline';
   const message = isOnline ? t('network.backOnline') : t('network.offline');
+  // Changes made offline are queued in the outbox, not lost
+  const pendingMessage =
+    !isOnline && pendingCount > 0 ? t('network.pendingChanges', { count: pendingCount }) : null;
 
   return (
     <Animated.View
@@ -82,7 +87,7 @@ export function NetworkStatusBar() {
       ]}
     >
       <Ionicons name={iconName} size={14} color={colors.white} />
-      <Text style={[styles.text, { color: colors.white }]}>{message}</Text>
+      <Text style={[styles.text, { color: colors.white }]}>{pendingMessage ?? message}</Text>
     </Animated.View>
   );
 }
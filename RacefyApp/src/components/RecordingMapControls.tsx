@@ -28,6 +28,10 @@ interface RecordingMapControlsProps {
   onClearShadowTrack?: () => void;
   onSelectShadowTrack?: () => void;
 
+  // Lap button (recording only)
+  lapNumber?: number;
+  onLap?: () => void;
+
   // Offset from screen bottom (e.g. tab bar height + safe area inset)
   bottomOffset?: number;
 }
@@ -44,6 +48,8 @@ export function RecordingMapControls({
   shadowTrackTitle,
   onClearShadowTrack,
   onSelectShadowTrack,
+  lapNumber,
+  onLap,
   bottomOffset,
 }: RecordingMapControlsProps) {
   const { t } = useTranslation();
@@ -138,6 +144,20 @@ export function RecordingMapControls({
           </TouchableOpacity>
         )}
 
+        {!isPaused && onLap && (
+          <TouchableOpacity
+            style={[styles.controlButton, { backgroundColor: colors.cardBackground, borderWidth: 1, borderColor: colors.border }]}
+            onPress={onLap}
+            disabled={isLoading}
+            accessibilityLabel={t('laps.markLap')}
+          >
+            <Ionicons name="flag" size={24} color={colors.primary} />
+            {lapNumber !== undefined && (
+              <Text style={[styles.lapNumber, { color: colors.textSecondary }]}>{lapNumber}</Text>
+            )}
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={[styles.controlButton, { backgroundColor: colors.error }]}
           onPress={onStop}
@@ -235,4 +255,8 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 4,
   },
+  lapNumber: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
 });
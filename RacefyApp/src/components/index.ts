@@ -26,6 +26,7 @@ export * from './LiveEventCard';
 export * from './CompareUserSelector';
 export * from './CountdownTimer';
 export * from './DebugLogsSection';
+export * from './GpsReplayDevPanel';
 export * from './DifficultySelector';
 export * from './OptionSelector';
 export * from './PointsBudgetIndicator';
@@ -83,7 +84,10 @@ export * from './AutoDisplayImage';
 export * from './ImageViewer';
 export * from './ImageGallery';
 export * from './BottomSheet';
+export * from './ExportFormatSheet';
 export * from './ParticipantsSheet';
+export * from './ChatShareSheet';
+export * from './MessageActionsSheet';
 export * from './EventSelectionSheet';
 export * from './ActivitySelectionSheet';
 export * from './ProfileStats';
@@ -19,6 +19,9 @@ export const XDEBUG_ENABLED = __DEV__ && extra.xdebugEnabled === true;
 const MAPBOX_TOKEN = extra.mapboxAccessToken || null;
 const MAPBOX_FEATURE_ENABLED = extra.mapboxEnabled !== false;
 
+// Realtime messaging endpoint; derived from the API URL when unset (see services/realtime/client)
+export const REALTIME_URL: string | null = extra.realtimeUrl || null;
+
 // Only use Mapbox if both token is set AND feature is enabled
 export const MAPBOX_ACCESS_TOKEN = MAPBOX_FEATURE_ENABLED ? MAPBOX_TOKEN : null;
 
@@ -14,6 +14,18 @@ import { logger } from '../services/logger';
 
 // ============ TYPE DEFINITIONS ============
 
+/**
+ * Position smoothing strategy:
+ * - weighted_average: recency-weighted moving average over smoothingBufferSize fixes
+ * - kalman: constant-velocity Kalman filter using reported accuracy and speed
+ *
+ * Fallback profiles all use weighted_average; a sport opts into kalman through
+ * the smoothing_strategy field of its API GPS profile.
+ */
+export type GpsSmoothingStrategy = 'weighted_average' | 'kalman';
+
+export const GPS_SMOOTHING_STRATEGIES: readonly GpsSmoothingStrategy[] = ['weighted_average', 'kalman'];
+
 export interface GpsProfile {
   /** Whether GPS tracking is enabled for this activity type */
   enabled: boolean;
@@ -29,8 +41,10 @@ export interface GpsProfile {
   timeInterval: number;
   /** Distance interval for GPS updates in meters */
   distanceInterval: number;
-  /** Number of points to average for GPS smoothing */
+  /** Number of points to average for GPS smoothing (elevation median window for Kalman) */
   smoothingBufferSize: number;
+  /** How positions are smoothed before distance is measured */
+  smoothingStrategy: GpsSmoothingStrategy;
   /** Speed threshold in m/s below which user is considered stationary (default: 0.5 m/s = 1.8 km/h) */
   stationarySpeedThreshold: number;
   // Pace display settings
@@ -70,6 +84,15 @@ const PROFILE_CONSTRAINTS = {
   backgroundSyncInterval: { min: 60000, max: 600000 }, // 1-10 minutes
 } as const;
 
+/**
+ * Narrows an API value to a known smoothing strategy (default: weighted_average)
+ */
+function parseSmoothingStrategy(value: unknown): GpsSmoothingStrategy {
+  return GPS_SMOOTHING_STRATEGIES.includes(value as GpsSmoothingStrategy)
+    ? (value as GpsSmoothingStrategy)
+    : 'weighted_average';
+}
+
 /**
  * Validates a GPS profile value is within acceptable range
  */
@@ -118,6 +141,7 @@ function validateProfile(profile: GpsProfile): GpsProfile {
       PROFILE_CONSTRAINTS.smoothingBufferSize.min,
       PROFILE_CONSTRAINTS.smoothingBufferSize.max
     ),
+    smoothingStrategy: parseSmoothingStrategy(profile.smoothingStrategy),
     stationarySpeedThreshold: clamp(
       profile.stationarySpeedThreshold ?? 0.5,
       PROFILE_CONSTRAINTS.stationarySpeedThreshold.min,
@@ -170,6 +194,7 @@ export function convertApiGpsProfile(apiProfile: GpsProfileApiResponse): GpsProf
     timeInterval: apiProfile.time_interval,
     distanceInterval: apiProfile.distance_interval,
     smoothingBufferSize: apiProfile.smoothing_buffer_size,
+    smoothingStrategy: parseSmoothingStrategy(apiProfile.smoothing_strategy),
     // Use API value if available, otherwise default to 0.5 m/s
     stationarySpeedThreshold: apiProfile.stationary_speed_threshold ?? 0.5,
     // Pace display settings (with sensible defaults if not provided by API)
@@ -199,6 +224,7 @@ export function convertToApiGpsProfile(profile: GpsProfile): GpsProfileRequest {
     time_interval: profile.timeInterval,
     distance_interval: profile.distanceInterval,
     smoothing_buffer_size: profile.smoothingBufferSize,
+    smoothing_strategy: profile.smoothingStrategy,
     // Stationary detection
     stationary_speed_threshold: profile.stationarySpeedThreshold,
     // Pace display settings
@@ -227,6 +253,7 @@ export const DEFAULT_GPS_PROFILE: GpsProfile = {
   timeInterval: 3000, // 3 seconds
   distanceInterval: 5,
   smoothingBufferSize: 3,
+  smoothingStrategy: 'weighted_average',
   stationarySpeedThreshold: 0.5, // 0.5 m/s = 1.8 km/h
   // Pace display settings (balanced defaults)
   paceSmoothingFactor: 0.3,
@@ -254,6 +281,7 @@ export const FALLBACK_GPS_PROFILES: Record<string, GpsProfile> = {
     timeInterval: 3000,
     distanceInterval: 5,
     smoothingBufferSize: 3,
+    smoothingStrategy: 'weighted_average',
     stationarySpeedThreshold: 0.5,
     // Pace: fast feedback, responsive to pace changes
     paceSmoothingFactor: 0.3,
@@ -273,6 +301,7 @@ export const FALLBACK_GPS_PROFILES: Record<string, GpsProfile> = {
     timeInterval: 2000,
     distanceInterval: 8,
     smoothingBufferSize: 3,
+    smoothingStrategy: 'weighted_average',
     stationarySpeedThreshold: 0.8, // Higher for cycling (technical terrain, slow starts)
     // Pace: very responsive for speed changes, higher min distance
     paceSmoothingFactor: 0.2,
@@ -292,6 +321,7 @@ export const FALLBACK_GPS_PROFILES: Record<string, GpsProfile> = {
     timeInterval: 5000,
     distanceInterval: 5,
     smoothingBufferSize: 4,
+    smoothingStrategy: 'weighted_average',
     stationarySpeedThreshold: 0.3, // Lower for walking (slower activity)
     // Pace: smoother display for slower activity
     paceSmoothingFactor: 0.5,
@@ -311,6 +341,7 @@ export const FALLBACK_GPS_PROFILES: Record<string, GpsProfile> = {
     timeInterval: 5000,
     distanceInterval: 5,
     smoothingBufferSize: 4,
+    smoothingStrategy: 'weighted_average',
     stationarySpeedThreshold: 0.3, // Lower for hiking (frequent stops, slow sections)
     // Pace: very smooth for variable terrain and frequent stops
     paceSmoothingFactor: 0.5,
@@ -332,6 +363,7 @@ export const FALLBACK_GPS_PROFILES: Record<string, GpsProfile> = {
     timeInterval: 10000,
     distanceInterval: 10,
     smoothingBufferSize: 5,
+    smoothingStrategy: 'weighted_average',
     stationarySpeedThreshold: 0.5,
     paceSmoothingFactor: 0.3,
     paceWindowSeconds: 45,
@@ -350,6 +382,7 @@ export const FALLBACK_GPS_PROFILES: Record<string, GpsProfile> = {
     timeInterval: 10000,
     distanceInterval: 10,
     smoothingBufferSize: 3,
+    smoothingStrategy: 'weighted_average',
     stationarySpeedThreshold: 0.5,
     paceSmoothingFactor: 0.3,
     paceWindowSeconds: 45,
@@ -368,6 +401,7 @@ export const FALLBACK_GPS_PROFILES: Record<string, GpsProfile> = {
     timeInterval: 10000,
     distanceInterval: 10,
     smoothingBufferSize: 3,
+    smoothingStrategy: 'weighted_average',
     stationarySpeedThreshold: 0.5,
     paceSmoothingFactor: 0.3,
     paceWindowSeconds: 45,
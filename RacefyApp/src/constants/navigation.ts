@@ -12,3 +12,12 @@ export const TURN_ANNOUNCE_DISTANCE_M = 200;
 
 /** Distance threshold to consider a turn as "passed" */
 export const TURN_PASSED_DISTANCE_M = 30;
+
+/** Minimum time between rejoin path requests while still off-route */
+export const REJOIN_RETRY_INTERVAL_MS = 30_000;
+
+/** Round-trip loop generator: candidates offered per request */
+export const LOOP_CANDIDATE_COUNT = 3;
+
+/** Loops whose routed distance is further than this from the target (fraction) are re-scaled once */
+export const LOOP_DISTANCE_TOLERANCE = 0.15;
@@ -44,3 +44,19 @@ export const MAX_PACE_SEGMENTS = 30;
  * This is an approximation — a proper calculation would use weight × MET × duration.
  */
 export const CALORIES_PER_SECOND = 0.15;
+
+// ── Stationary detection ────────────────────────────────────────────────────
+
+/**
+ * Minimum movement (m) required while the GPS reports a speed below the
+ * profile's stationarySpeedThreshold. Filters drift while standing still.
+ */
+export const STATIONARY_MIN_DISTANCE_M = 8;
+
+// ── Kalman smoothing ────────────────────────────────────────────────────────
+
+/** Expected acceleration standard deviation (m/s²) — process noise of the Kalman filter */
+export const KALMAN_ACCELERATION_NOISE = 2;
+
+/** Standard deviation (m/s) assumed for GPS-reported speed */
+export const KALMAN_SPEED_NOISE = 1;
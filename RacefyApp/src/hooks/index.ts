@@ -48,5 +48,14 @@ export * from './useTeamTrends';
 export * from './useTeamsLeaderboard';
 export * from './useEventTeams';
 export * from './useMyPlannedRoutes';
+export * from './useOfflineRoutes';
 export * from './useActiveWeek';
 export * from './useDefaultSport';
+export * from './useWorkouts';
+export * from './useWorkoutExecutor';
+export * from './useTargetZoneAlerts';
+export * from './useAutoLapSettings';
+export * from './useLaps';
+export * from './useAudioCue';
+export * from './useIsOnlineRef';
+export * from './useCachedQuery';
@@ -1,71 +1,82 @@
 import { useRef, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import NetInfo from '@react-native-community/netinfo';
 import { logger } from '../services/logger';
 import {
   buildAnnouncementText,
   buildStartAnnouncement,
   buildEndAnnouncement,
   buildMilestoneAnnouncement,
+  buildTimeAnnouncementText,
 } from '../services/audioCoach/templates';
+import { getDistanceThreshold, getTimeThreshold } from '../services/audioCoach/triggers';
 import { speakText, stopSpeaking } from '../services/audioCoach/tts';
+import { useIsOnlineRef } from './useIsOnlineRef';
 import type { AudioCoachSettings } from '../types/audioCoach';
+import type { UnitSystem } from '../utils/unitConversions';
 
-/** Shared AsyncStorage key — same as in backgroundLocation.ts */
+/** Shared AsyncStorage keys — same as in backgroundLocation.ts */
 const BG_AUDIO_THRESHOLD_KEY = '@racefy:audioCoach:bgLastThreshold';
+const BG_AUDIO_TIME_THRESHOLD_KEY = '@racefy:audioCoach:bgLastTimeThreshold';
 
 interface UseAudioCoachParams {
   settings: AudioCoachSettings;
   totalDistanceKm: number;
+  /** Moving time in seconds (excludes pauses) — drives time-based announcements */
+  elapsedSeconds: number;
   currentPaceMinPerKm: number;
   heartRate?: number;
   previousKmPace?: number;
   userTier?: 'free' | 'plus' | 'pro';
+  /** Spoken units and interval thresholds follow the user's unit system */
+  units?: UnitSystem;
 }
 
 /**
- * Foreground hook that triggers voice announcements at km thresholds.
- * Syncs with background task via shared AsyncStorage key to prevent double announcements.
+ * Foreground hook that triggers voice announcements at distance and/or time thresholds.
+ * Syncs with background task via shared AsyncStorage keys to prevent double announcements.
  * Idempotent — safe to call every render.
  */
 export function useAudioCoach({
   settings,
   totalDistanceKm,
+  elapsedSeconds,
   currentPaceMinPerKm,
   heartRate,
   previousKmPace,
   userTier = 'free',
+  units = 'metric',
 }: UseAudioCoachParams): void {
   const lastAnnouncedThreshold = useRef(0);
+  const lastAnnouncedMinute = useRef(0);
   const prevDistanceRef = useRef(0);
-  const isOnlineRef = useRef(true);
+  const prevElapsedRef = useRef(0);
+  const isOnlineRef = useIsOnlineRef();
 
-  // Reset threshold when distance drops (new activity or sim restart)
+  // Reset thresholds when distance/time drops (new activity or sim restart)
   if (totalDistanceKm < prevDistanceRef.current * 0.5) {
     lastAnnouncedThreshold.current = 0;
   }
+  if (elapsedSeconds < prevElapsedRef.current * 0.5) {
+    lastAnnouncedMinute.current = 0;
+  }
   prevDistanceRef.current = totalDistanceKm;
+  prevElapsedRef.current = elapsedSeconds;
 
-  // Track network state
-  useEffect(() => {
-    const unsubscribe = NetInfo.addEventListener((state) => {
-      isOnlineRef.current = state.isConnected ?? true;
-    });
-    return () => unsubscribe();
-  }, []);
-
-  // Sync with background task threshold on mount / when distance changes significantly
+  // Sync with background task thresholds on mount / when distance or time changes significantly
   useEffect(() => {
-    AsyncStorage.getItem(BG_AUDIO_THRESHOLD_KEY).then((val) => {
-      if (val) {
-        const bgThreshold = parseFloat(val);
-        if (bgThreshold > lastAnnouncedThreshold.current) {
-          lastAnnouncedThreshold.current = bgThreshold;
-          logger.debug('audioCoach', 'Synced with background threshold', { bgThreshold });
-        }
+    AsyncStorage.multiGet([BG_AUDIO_THRESHOLD_KEY, BG_AUDIO_TIME_THRESHOLD_KEY]).then(([[, distVal], [, timeVal]]) => {
+      const bgThreshold = distVal ? parseFloat(distVal) : 0;
+      if (bgThreshold > lastAnnouncedThreshold.current) {
+        lastAnnouncedThreshold.current = bgThreshold;
+        logger.debug('audioCoach', 'Synced with background threshold', { bgThreshold });
+      }
+      const bgMinute = timeVal ? parseFloat(timeVal) : 0;
+      if (bgMinute > lastAnnouncedMinute.current) {
+        lastAnnouncedMinute.current = bgMinute;
+        logger.debug('audioCoach', 'Synced with background time threshold', { bgMinute });
       }
     }).catch(() => {});
-  }, [Math.floor(totalDistanceKm)]);
+  }, [Math.floor(totalDistanceKm), Math.floor(elapsedSeconds / 60)]);
 
   // Stop speech only on unmount (not when disabled — preview may be playing from Settings)
   const prevEnabledRef = useRef(settings.enabled);
@@ -81,18 +92,45 @@ export function useAudioCoach({
     return () => { stopSpeaking(); };
   }, []);
 
-  // Check for km threshold crossing
+  // Check for distance / time threshold crossing
   useEffect(() => {
     if (!settings.enabled) return;
-    if (settings.intervalKm <= 0) return;
-    if (totalDistanceKm <= 0) return;
-    if (currentPaceMinPerKm <= 0) return;
 
-    const currentThreshold =
-      Math.floor(totalDistanceKm / settings.intervalKm) * settings.intervalKm;
+    const currentThreshold = getDistanceThreshold(settings, totalDistanceKm);
+    const currentMinute = getTimeThreshold(settings, elapsedSeconds);
+    const isNewDistance = currentThreshold > lastAnnouncedThreshold.current && currentPaceMinPerKm > 0;
+    const isNewMinute = currentMinute > lastAnnouncedMinute.current;
 
-    if (currentThreshold <= 0) return;
-    if (currentThreshold <= lastAnnouncedThreshold.current) return;
+    // Only include HR and split data for PRO tier
+    const includeHeartRate = userTier === 'pro' && settings.announceHeartRate;
+    const includeSplitDelta = userTier === 'pro' && settings.announceSplitDelta;
+
+    if (isNewMinute) {
+      // A coinciding distance announcement already covers this minute — just mark it
+      lastAnnouncedMinute.current = currentMinute;
+      AsyncStorage.setItem(BG_AUDIO_TIME_THRESHOLD_KEY, currentMinute.toString()).catch(() => {});
+
+      if (!isNewDistance) {
+        logger.info('audioCoach', 'Time threshold crossed, announcing', {
+          minutes: currentMinute,
+          km: totalDistanceKm.toFixed(2),
+          tier: userTier,
+        });
+        const text = buildTimeAnnouncementText({
+          language: settings.language,
+          style: settings.style,
+          minutes: currentMinute,
+          km: totalDistanceKm,
+          pace: currentPaceMinPerKm,
+          heartRate: includeHeartRate ? heartRate : undefined,
+          units,
+        });
+        speakText(text, settings, userTier, isOnlineRef.current);
+        return;
+      }
+    }
+
+    if (!isNewDistance) return;
 
     // New threshold crossed
     lastAnnouncedThreshold.current = currentThreshold;
@@ -107,10 +145,6 @@ export function useAudioCoach({
       tier: userTier,
     });
 
-    // Only include HR and split data for PRO tier
-    const includeHeartRate = userTier === 'pro' && settings.announceHeartRate;
-    const includeSplitDelta = userTier === 'pro' && settings.announceSplitDelta;
-
     // Calculate split delta if we have previous km pace
     let splitDelta: number | undefined;
     if (includeSplitDelta && previousKmPace !== undefined && previousKmPace > 0) {
@@ -125,12 +159,13 @@ export function useAudioCoach({
       pace: currentPaceMinPerKm,
       heartRate: includeHeartRate ? heartRate : undefined,
       splitDelta,
+      units,
     });
 
     speakText(text, settings, userTier, isOnlineRef.current);
 
     // Check milestone announcement (premium feature)
-    const milestoneText = buildMilestoneAnnouncement(settings.language, currentThreshold);
+    const milestoneText = buildMilestoneAnnouncement(settings.language, currentThreshold, units);
     if (milestoneText) {
       // Delay milestone so km announcement finishes first
       setTimeout(() => {
@@ -140,10 +175,12 @@ export function useAudioCoach({
   }, [
     settings,
     totalDistanceKm,
+    elapsedSeconds,
     currentPaceMinPerKm,
     heartRate,
     previousKmPace,
     userTier,
+    units,
   ]);
 }
 
@@ -162,8 +199,9 @@ export function announceEnd(
   avgPaceMinPerKm: number,
   userTier: 'free' | 'plus' | 'pro' = 'free',
   isOnline = true,
+  units: UnitSystem = 'metric',
 ): void {
   if (!settings.enabled) return;
-  const text = buildEndAnnouncement(settings.language, totalKm, avgPaceMinPerKm);
+  const text = buildEndAnnouncement(settings.language, totalKm, avgPaceMinPerKm, units);
   speakText(text, settings, userTier, isOnline);
 }
\ No newline at end of file
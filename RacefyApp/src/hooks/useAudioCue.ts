@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import * as Haptics from 'expo-haptics';
+import { speakText } from '../services/audioCoach/tts';
+import { isGlobalHapticsEnabled } from './useHaptics';
+import { useIsOnlineRef } from './useIsOnlineRef';
+import type { AudioCoachSettings } from '../types/audioCoach';
+
+interface UseAudioCueParams {
+  audioSettings: AudioCoachSettings;
+  /** Speak cues — follows the audio coach session toggle */
+  voiceEnabled: boolean;
+  userTier?: 'free' | 'plus' | 'pro';
+  /** Haptic played with every cue; null for spoken-only cues */
+  haptic: Haptics.NotificationFeedbackType | null;
+}
+
+/**
+ * Cue for in-activity events (workout steps, laps, zone alerts, rejoin
+ * guidance): a haptic when enabled globally and, when the audio coach is
+ * on, the text spoken through the shared TTS queue.
+ */
+export function useAudioCue({
+  audioSettings,
+  voiceEnabled,
+  userTier = 'free',
+  haptic,
+}: UseAudioCueParams) {
+  const isOnlineRef = useIsOnlineRef();
+
+  const cue = useCallback((text: string) => {
+    if (haptic !== null && isGlobalHapticsEnabled()) {
+      Haptics.notificationAsync(haptic).catch(() => {});
+    }
+    if (voiceEnabled) {
+      speakText(text, audioSettings, userTier, isOnlineRef.current);
+    }
+  }, [haptic, voiceEnabled, audioSettings, userTier, isOnlineRef]);
+
+  return { cue, isOnlineRef };
+}
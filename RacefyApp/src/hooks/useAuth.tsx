@@ -9,6 +9,7 @@ import {logger} from '../services/logger';
 import {configureGoogleSignIn, signInWithGoogle, signOutFromGoogle} from '../services/googleSignIn';
 import {IMPERSONATION_SESSION_KEY, useImpersonationActions} from './useImpersonationActions';
 import {revenueCatLogIn, revenueCatLogOut} from '../services/revenuecat';
+import {clearSessionData} from '../services/sessionData';
 import {
   clearAllPersistedPoints,
   getAllPersistedPoints,
@@ -90,6 +91,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   // Handle 401 unauthorized responses by clearing user state
   const handleUnauthorized = useCallback(() => {
     logger.auth('Session expired, logging out user');
+    clearSessionData();
     setUser(null);
     setIsImpersonating(false);
     setImpersonatedUser(null);
@@ -276,6 +278,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await revenueCatLogOut();
     // Reset push notification service state
     pushNotificationService.reset();
+    // Cached responses, queued mutations, stored chats, privacy zones and offline routes belong to this account
+    await clearSessionData();
     setUser(null);
     setRequiresConsent(false);
     logger.auth('User logged out');
@@ -0,0 +1,29 @@
+import {useCallback, useEffect, useState} from 'react';
+import {logger} from '../services/logger';
+import {getAutoLapSettings, saveAutoLapSettings} from '../services/autoLap';
+import {DEFAULT_AUTO_LAP_SETTINGS} from '../utils/laps';
+import type {AutoLapSettings} from '../types/lap';
+
+/** Persisted auto-lap preference for the recording screen */
+export function useAutoLapSettings() {
+  const [settings, setSettings] = useState<AutoLapSettings>(DEFAULT_AUTO_LAP_SETTINGS);
+
+  useEffect(() => {
+    let mounted = true;
+    getAutoLapSettings().then((stored) => {
+      if (mounted) setSettings(stored);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const updateSettings = useCallback((next: AutoLapSettings) => {
+    setSettings(next);
+    saveAutoLapSettings(next).catch((err) => {
+      logger.warn('activity', 'Failed to save auto-lap settings', {error: err});
+    });
+  }, []);
+
+  return {settings, updateSettings};
+}
@@ -0,0 +1,230 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {logger} from '../services/logger';
+import {
+  getQueryCacheGeneration,
+  isQueryStale,
+  loadQuery,
+  peekQuery,
+  type QueryCacheEntry,
+  setQueryData,
+  subscribeQuery,
+} from '../services/queryCache';
+import type {RefreshEventType} from '../services/refreshEvents';
+import type {PaginatedResponse} from '../types/api';
+
+/** Cached data younger than this is shown without refetching on mount */
+const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+interface UseCachedQueryOptions {
+  /** Refresh event types that invalidate this query */
+  tags?: RefreshEventType[];
+  staleTime?: number;
+  /** Fetch automatically on mount / key change (default true) */
+  enabled?: boolean;
+}
+
+interface UseCachedQueryResult<T> {
+  data: T | undefined;
+  /** True only while there's nothing to show yet */
+  isLoading: boolean;
+  /** True whenever a fetch is running, including background revalidation */
+  isValidating: boolean;
+  error: string | null;
+  updatedAt: number | null;
+  refetch: () => Promise<T | undefined>;
+  /** Update the cached data locally (every hook on the same key sees it) */
+  mutate: (updater: (current: T) => T) => void;
+}
+
+/**
+ * Stale-while-revalidate read through the shared query cache.
+ * Pass `null` as the key to skip (e.g. while a required param is missing).
+ */
+export function useCachedQuery<T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  { tags = [], staleTime = DEFAULT_STALE_TIME_MS, enabled = true }: UseCachedQueryOptions = {},
+): UseCachedQueryResult<T> {
+  const [entry, setEntry] = useState<QueryCacheEntry<T> | undefined>(() =>
+    key ? peekQuery<T>(key) : undefined,
+  );
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest fetcher/tags without re-subscribing on every render
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const tagsRef = useRef(tags);
+  tagsRef.current = tags;
+  const requestIdRef = useRef(0);
+
+  const refetch = useCallback(async (): Promise<T | undefined> => {
+    if (!key) return undefined;
+    const requestId = ++requestIdRef.current;
+    setIsValidating(true);
+    const generation = getQueryCacheGeneration();
+    try {
+      const data = await fetcherRef.current();
+      setQueryData(key, data, { tags: tagsRef.current, fromFetch: true, generation });
+      if (requestId === requestIdRef.current) setError(null);
+      return data;
+    } catch (err: any) {
+      logger.warn('api', 'Cached query fetch failed', { key, error: err?.message });
+      if (requestId === requestIdRef.current) {
+        setError(err?.message || 'Failed to load data');
+      }
+      return undefined;
+    } finally {
+      if (requestId === requestIdRef.current) setIsValidating(false);
+    }
+  }, [key]);
+
+  useEffect(() => {
+    if (!key) {
+      setEntry(undefined);
+      return;
+    }
+    let cancelled = false;
+    setEntry(peekQuery<T>(key));
+    setError(null);
+
+    const unsubscribe = subscribeQuery(key, (next) => {
+      setEntry(next as QueryCacheEntry<T> | undefined);
+      // Invalidated by a refresh event while mounted — refetch now
+      if (enabled && next?.isInvalidated) refetch();
+    });
+
+    loadQuery<T>(key).then((loaded) => {
+      if (cancelled) return;
+      setEntry(loaded);
+      if (enabled && isQueryStale(loaded, staleTime)) refetch();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [key, enabled, staleTime, refetch]);
+
+  const mutate = useCallback((updater: (current: T) => T) => {
+    if (key) setQueryData<T>(key, updater);
+  }, [key]);
+
+  return {
+    data: entry?.data,
+    isLoading: !entry && (isValidating || (enabled && !!key && !error)),
+    isValidating,
+    error,
+    updatedAt: entry?.updatedAt ?? null,
+    refetch,
+    mutate,
+  };
+}
+
+/** Cached value of a paginated list: every page loaded so far */
+export interface CachedPage<T> {
+  items: T[];
+  nextPage: number;
+  hasMore: boolean;
+}
+
+interface UseCachedPaginatedQueryResult<T> {
+  items: T[];
+  /** Loading the first page with nothing cached, or loading more */
+  isLoading: boolean;
+  isRefreshing: boolean;
+  hasMore: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  mutate: (updater: (items: T[]) => T[]) => void;
+}
+
+/**
+ * Paginated variant of useCachedQuery. Page 1 is what gets persisted;
+ * further pages live in memory and are dropped on the next refresh.
+ */
+export function useCachedPaginatedQuery<T extends { id: number }>(
+  key: string | null,
+  fetchPage: (page: number) => Promise<PaginatedResponse<T>>,
+  { tags = [], staleTime = DEFAULT_STALE_TIME_MS, enabled = true }: UseCachedQueryOptions = {},
+): UseCachedPaginatedQueryResult<T> {
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const isLoadingMoreRef = useRef(false);
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const fetchFirstPage = useCallback(async (): Promise<CachedPage<T>> => {
+    const response = await fetchPageRef.current(1);
+    return {
+      items: response.data,
+      nextPage: 2,
+      hasMore: response.meta.current_page < response.meta.last_page,
+    };
+  }, []);
+
+  const query = useCachedQuery<CachedPage<T>>(key, fetchFirstPage, { tags, staleTime, enabled });
+  const { data, refetch } = query;
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    setLoadMoreError(null);
+    try {
+      await refetch();
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [refetch]);
+
+  const loadMore = useCallback(async () => {
+    if (!key || !data?.hasMore || isLoadingMoreRef.current) return;
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const page = data.nextPage;
+      const generation = getQueryCacheGeneration();
+      const response = await fetchPageRef.current(page);
+      // Memory only: the persisted copy stays a first-page snapshot
+      setQueryData<CachedPage<T>>(key, (current) => {
+        // Deduplicate by ID when loading more
+        const existingIds = new Set(current.items.map((item) => item.id));
+        return {
+          items: [...current.items, ...response.data.filter((item) => !existingIds.has(item.id))],
+          nextPage: page + 1,
+          hasMore: response.meta.current_page < response.meta.last_page,
+        };
+      }, { persist: false, generation });
+    } catch (err: any) {
+      logger.warn('api', 'Failed to load more', { key, error: err?.message });
+      setLoadMoreError(err?.message || 'Failed to load data');
+    } finally {
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [key, data]);
+
+  const mutate = useCallback((updater: (items: T[]) => T[]) => {
+    if (!key) return;
+    const current = peekQuery<CachedPage<T>>(key)?.data;
+    setQueryData<CachedPage<T>>(
+      key,
+      (page) => ({ ...page, items: updater(page.items) }),
+      // Only a first-page snapshot is worth writing to disk
+      { persist: (current?.nextPage ?? 2) <= 2 },
+    );
+  }, [key]);
+
+  return {
+    items: data?.items ?? [],
+    isLoading: query.isLoading || isLoadingMore,
+    isRefreshing,
+    hasMore: data?.hasMore ?? true,
+    error: query.error ?? loadMoreError,
+    refresh,
+    loadMore,
+    mutate,
+  };
+}
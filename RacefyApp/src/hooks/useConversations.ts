@@ -1,9 +1,20 @@
 import { useState, useCallback } from 'react';
 import { api } from '../services/api';
+import { deleteChatSnapshot } from '../services/chatStore';
 import { logger } from '../services/logger';
 import type { Conversation } from '../types/api';
+import { useAuth } from './useAuth';
+import { useRealtimeEvent, useRealtimeResync } from './useRealtime';
+
+/** Most recent activity first, like the API orders them */
+function sortByLastMessage(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) =>
+    (b.last_message_at ?? b.created_at).localeCompare(a.last_message_at ?? a.created_at)
+  );
+}
 
 export function useConversations() {
+  const { user } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -55,9 +66,48 @@ export function useConversations() {
     [hasMore, isLoading, fetchConversations]
   );
 
+  // Keep the list live: bump conversations as messages arrive
+  useRealtimeEvent('message.created', ({ conversationId, message }) => {
+    // A conversation we haven't loaded (new chat) — fetch the list
+    if (!conversations.some((c) => c.id === conversationId)) {
+      fetchConversations(true);
+      return;
+    }
+    const isOwn = message.is_own || message.sender.id === user?.id;
+    setConversations((prev) =>
+      sortByLastMessage(
+        prev.map((c) =>
+          c.id === conversationId
+            ? {
+                ...c,
+                last_message: {
+                  id: message.id,
+                  content: message.content,
+                  type: message.type,
+                  sender_id: message.sender.id,
+                  created_at: message.created_at,
+                },
+                last_message_at: message.created_at,
+                unread_count: isOwn ? c.unread_count : c.unread_count + 1,
+              }
+            : c
+        )
+      )
+    );
+  });
+
+  useRealtimeEvent('conversation.updated', ({ conversation }) => {
+    setConversations((prev) =>
+      sortByLastMessage([conversation, ...prev.filter((c) => c.id !== conversation.id)])
+    );
+  });
+
+  useRealtimeResync(refresh);
+
   const deleteConversation = useCallback(async (conversationId: number) => {
     try {
       await api.deleteConversation(conversationId);
+      await deleteChatSnapshot(conversationId);
       setConversations((prev) => prev.filter((c) => c.id !== conversationId));
     } catch (err) {
       logger.error('api', 'Failed to delete conversation', { error: err });
@@ -1,68 +1,36 @@
 import { useState, useCallback } from 'react';
 import { api } from '../services/api';
+import { queryKey } from '../services/queryCache';
 import type { Event } from '../types/api';
+import { useCachedPaginatedQuery } from './useCachedQuery';
 
 type EventStatus = 'upcoming' | 'ongoing' | 'completed';
 
 export function useEvents() {
-  const [events, setEvents] = useState<Event[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<EventStatus | undefined>(
     undefined
   );
 
-  const fetchEvents = useCallback(
-    async (reset = false) => {
-      if (isLoading) return;
-
-      if (reset) {
-        setIsRefreshing(true);
-      } else {
-        setIsLoading(true);
-      }
-      setError(null);
-
-      try {
-        const currentPage = reset ? 1 : page;
-        const response = await api.getEvents({
-          status: statusFilter,
-          page: currentPage,
-        });
-
-        setEvents((prev) => {
-          if (reset) return response.data;
-          // Deduplicate by event ID when loading more
-          const existingIds = new Set(prev.map((e) => e.id));
-          const newEvents = response.data.filter((e) => !existingIds.has(e.id));
-          return [...prev, ...newEvents];
-        });
-        setHasMore(response.meta.current_page < response.meta.last_page);
-        setPage(currentPage + 1);
-      } catch (err) {
-        setError('Failed to load events');
-      } finally {
-        setIsLoading(false);
-        setIsRefreshing(false);
-      }
-    },
-    [page, isLoading, statusFilter]
-  );
-
-  const refresh = useCallback(() => fetchEvents(true), [fetchEvents]);
-  const loadMore = useCallback(
-    () => hasMore && !isLoading && fetchEvents(false),
-    [hasMore, isLoading, fetchEvents]
+  // One cache entry per filter — switching back to a filter shows its cached
+  // list while it revalidates; emitRefresh('events') invalidates all of them
+  const {
+    items: events,
+    isLoading,
+    isRefreshing,
+    hasMore,
+    error: queryError,
+    refresh,
+    loadMore,
+    mutate: setEvents,
+  } = useCachedPaginatedQuery<Event>(
+    queryKey('/events', { status: statusFilter }),
+    (page) => api.getEvents({ status: statusFilter, page }),
+    { tags: ['events'] },
   );
+  const error = queryError ? 'Failed to load events' : null;
 
   const changeFilter = useCallback((status: EventStatus | undefined) => {
     setStatusFilter(status);
-    setPage(1);
-    setEvents([]);
-    setHasMore(true);
   }, []);
 
   const registerForEvent = useCallback(async (eventId: number) => {
@@ -82,7 +50,7 @@ export function useEvents() {
     } catch (err) {
       throw err;
     }
-  }, []);
+  }, [setEvents]);
 
   const cancelRegistration = useCallback(async (eventId: number) => {
     try {
@@ -101,7 +69,7 @@ export function useEvents() {
     } catch (err) {
       throw err;
     }
-  }, []);
+  }, [setEvents]);
 
   return {
     events,
@@ -1,65 +1,37 @@
-import {useCallback, useRef, useState} from 'react';
+import {useCallback} from 'react';
 import {api} from '../services/api';
-import {logger} from '../services/logger';
+import {createOptimisticId, submitMutation} from '../services/mutationOutbox';
+import {queryKey} from '../services/queryCache';
 import type {MediaItem, Post, ReshareRequest} from '../types/api';
+import {useAuth} from './useAuth';
+import {useCachedPaginatedQuery} from './useCachedQuery';
 
-export function useFeed() {
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Refs break the dependency cycle — page/isLoading used only inside fetchFeed
-  const pageRef = useRef(1);
-  const isLoadingRef = useRef(false);
-
-  const fetchFeed = useCallback(async (reset = false) => {
-    if (isLoadingRef.current) return;
-    isLoadingRef.current = true;
-
-    if (reset) {
-      setIsRefreshing(true);
-    } else {
-      setIsLoading(true);
-    }
-    setError(null);
+const FEED_QUERY_KEY = queryKey('/feed');
 
-    try {
-      const currentPage = reset ? 1 : pageRef.current;
-      const response = await api.getFeed(currentPage);
-      const postsData = response.data;
-      const meta = response.meta;
-
-      setPosts((prev) => {
-        if (reset) return postsData;
-        // Deduplicate by post ID when loading more
-        const existingIds = new Set(prev.map((p) => p.id));
-        const newPosts = postsData.filter((p) => !existingIds.has(p.id));
-        return [...prev, ...newPosts];
-      });
-      setHasMore(meta.current_page < meta.last_page);
-      pageRef.current = currentPage + 1;
-    } catch (err) {
-      logger.error('api', 'Failed to fetch posts', { error: err });
-      setError('Failed to load feed');
-    } finally {
-      isLoadingRef.current = false;
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
-  }, []);  // stable — no deps needed thanks to refs
+export function useFeed() {
+  const { isAuthenticated, user } = useAuth();
 
-  const refresh = useCallback(() => fetchFeed(true), [fetchFeed]);
-  // isLoadingRef.current guards against concurrent calls inside fetchFeed
-  const loadMore = useCallback(
-    () => hasMore && fetchFeed(false),
-    [hasMore, fetchFeed]
+  // Page 1 comes from the shared query cache, so the feed renders instantly
+  // and revalidates in the background; emitRefresh('feed' | 'posts') invalidates it
+  const {
+    items: posts,
+    isLoading,
+    isRefreshing,
+    hasMore,
+    error: queryError,
+    refresh,
+    loadMore,
+    mutate: setPosts,
+  } = useCachedPaginatedQuery<Post>(
+    isAuthenticated ? FEED_QUERY_KEY : null,
+    (page) => api.getFeed(page),
+    { tags: ['feed', 'posts'] },
   );
+  const error = queryError ? 'Failed to load feed' : null;
 
   /**
    * Pure local state update — applied after the InteractionButton has
-   * already confirmed the like/unlike with the server.
+   * confirmed the like/unlike with the server or queued it in the outbox.
    */
   const applyLikeChange = useCallback(
     (postId: number, isLiked: boolean, likesCount: number) => {
@@ -71,12 +43,12 @@ export function useFeed() {
         )
       );
     },
-    []
+    [setPosts]
   );
 
   /**
    * Pure local state update — applied after the InteractionButton has
-   * already confirmed the boost/unboost with the server.
+   * confirmed the boost/unboost with the server or queued it in the outbox.
    */
   const applyBoostChange = useCallback(
     (postId: number, isBoosted: boolean, boostsCount: number) => {
@@ -94,7 +66,7 @@ export function useFeed() {
         })
       );
     },
-    []
+    [setPosts]
   );
 
   const createPost = useCallback(async (
@@ -102,30 +74,34 @@ export function useFeed() {
     media?: MediaItem[],
     visibility: 'public' | 'followers' | 'private' = 'public'
   ) => {
-    try {
-      const newPost = await api.createPost({ content: content || ' ', visibility });
+    const submitted = await submitMutation<Post>({
+      type: 'createPost',
+      data: { content: content || ' ', visibility },
+      media,
+    });
 
-      // Upload media items if provided
-      if (media && media.length > 0) {
-        const uploadedMedia = [];
-        for (const item of media) {
-          try {
-            const uploaded = await api.uploadPostMedia(newPost.id, item);
-            uploadedMedia.push(uploaded);
-          } catch (uploadError) {
-            logger.error('api', 'Failed to upload media item', { error: uploadError });
-            // Continue with other uploads
-          }
+    // Queued while offline: a placeholder stands in until the replay refreshes the feed
+    const newPost: Post = submitted.queued
+      ? {
+          id: createOptimisticId(),
+          user_id: user?.id ?? 0,
+          type: 'general',
+          title: null,
+          content: content || ' ',
+          visibility,
+          status: 'published',
+          likes_count: 0,
+          comments_count: 0,
+          created_at: submitted.entry.createdAt,
+          updated_at: submitted.entry.createdAt,
+          user: user ?? undefined,
+          is_owner: true,
         }
-        newPost.media = uploadedMedia;
-      }
+      : submitted.result;
 
-      setPosts((prev) => [newPost, ...prev]);
-      return newPost;
-    } catch (err) {
-      throw err;
-    }
-  }, []);
+    setPosts((prev) => [newPost, ...prev]);
+    return newPost;
+  }, [user, setPosts]);
 
   const deletePost = useCallback(async (postId: number) => {
     try {
@@ -134,22 +110,23 @@ export function useFeed() {
     } catch (err) {
       throw err;
     }
-  }, []);
+  }, [setPosts]);
 
   const resharePost = useCallback(async (originalPostId: number, data: ReshareRequest = {}) => {
-    const resharedPost = await api.resharePost(originalPostId, data);
+    const submitted = await submitMutation<Post>({ type: 'resharePost', targetId: originalPostId, data });
     setPosts((prev) => {
       const updated = prev.map((p) =>
         p.id === originalPostId
           ? { ...p, reshares_count: (p.reshares_count || 0) + 1, is_reshared: true }
           : p
       );
-      return [resharedPost, ...updated];
+      // A queued reshare shows up in the feed once the replay refreshes it
+      return submitted.queued ? updated : [submitted.result, ...updated];
     });
-  }, []);
+  }, [setPosts]);
 
   const unresharePost = useCallback(async (originalPostId: number) => {
-    await api.unresharePost(originalPostId);
+    await submitMutation({ type: 'unresharePost', targetId: originalPostId });
     setPosts((prev) => {
       const filtered = prev.filter(
         (p) => !(p.shared_post?.id === originalPostId && p.is_owner)
@@ -160,7 +137,7 @@ export function useFeed() {
           : p
       );
     });
-  }, []);
+  }, [setPosts]);
 
   return {
     posts,
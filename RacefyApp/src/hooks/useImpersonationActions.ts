@@ -3,6 +3,7 @@ import { useCallback } from 'react';
 import { api } from '../services/api';
 import { secureStorage } from '../services/secureStorage';
 import { logger } from '../services/logger';
+import { clearSessionData } from '../services/sessionData';
 import type { User, ImpersonationSession } from '../types/api';
 
 export const IMPERSONATION_SESSION_KEY = '@racefy_impersonation_session';
@@ -55,6 +56,7 @@ export function useImpersonationActions(
 
   const restoreAdminToken = useCallback(async (adminToken: string) => {
     await api.setToken(adminToken);
+    await clearSessionData();
     const adminData = await api.getUser();
     setUser(adminData);
     await clearImpersonationState();
@@ -76,6 +78,7 @@ export function useImpersonationActions(
 
       // Clear cached data so screens fetch fresh data for the impersonated user
       await AsyncStorage.multiRemove(USER_CACHE_KEYS);
+      await clearSessionData();
 
       // Fetch full user data (with subscription/plan) using the impersonation token
       const fullUserData = await api.getUser();
@@ -113,6 +116,7 @@ export function useImpersonationActions(
 
       // Clear cached data so screens fetch fresh data for the admin user
       await AsyncStorage.multiRemove(USER_CACHE_KEYS);
+      await clearSessionData();
 
       if (originalAdminToken) {
         await api.setToken(originalAdminToken);
@@ -130,6 +134,7 @@ export function useImpersonationActions(
       logger.error('auth', 'Failed to stop impersonation', { error });
       // Clear cached data even on error
       await AsyncStorage.multiRemove(USER_CACHE_KEYS).catch(() => {});
+      await clearSessionData();
       if (originalAdminToken) {
         await api.setToken(originalAdminToken);
         const adminData = await api.getUser();
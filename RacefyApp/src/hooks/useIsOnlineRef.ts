@@ -0,0 +1,19 @@
+import { useEffect, useRef, type MutableRefObject } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+
+/**
+ * Latest known network state as a ref, for callbacks that need it without
+ * re-rendering (TTS voice choice, skipping requests while offline).
+ */
+export function useIsOnlineRef(): MutableRefObject<boolean> {
+  const isOnlineRef = useRef(true);
+
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      isOnlineRef.current = state.isConnected ?? true;
+    });
+    return () => unsubscribe();
+  }, []);
+
+  return isOnlineRef;
+}
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Haptics from 'expo-haptics';
+import { logger } from '../services/logger';
+import { buildLapCue } from '../services/audioCoach/templates';
+import { useAudioCue } from './useAudioCue';
+import {
+  addHeartRateSample,
+  buildLapProgress,
+  buildLapResult,
+  distanceBetween,
+  emptyLapHeartRate,
+  getAutoLapTrigger,
+  type LapHeartRate,
+} from '../utils/laps';
+import type { AudioCoachSettings } from '../types/audioCoach';
+import type { ActivityLap, AutoLapSettings, LapProgress, LapTrigger } from '../types/lap';
+import type { UnitSystem } from '../utils/unitConversions';
+
+interface UseLapsParams {
+  settings: AutoLapSettings;
+  /** True while an activity is recording or paused */
+  isActive: boolean;
+  /** Moving time in seconds (excludes pauses) */
+  elapsedSeconds: number;
+  distanceMeters: number;
+  heartRate?: number | null;
+  currentPosition: { lat: number; lng: number } | null;
+  /** Where the recording started — reference for start-point laps */
+  startPosition: { lat: number; lng: number } | null;
+  audioSettings: AudioCoachSettings;
+  /** Speak lap summaries — follows the audio coach session toggle */
+  voiceEnabled: boolean;
+  userTier?: 'free' | 'plus' | 'pro';
+  units?: UnitSystem;
+}
+
+export interface LapsState {
+  currentLap: LapProgress | null;
+  /** Finished laps, oldest first */
+  laps: ActivityLap[];
+  /** Close the lap in progress now (lap button) */
+  markLap: () => void;
+  /** Finished laps plus the lap in progress (trigger `finish`) */
+  getResults: () => ActivityLap[];
+}
+
+interface LapStart {
+  seconds: number;
+  meters: number;
+}
+
+/** Ignore lap presses closer together than this (double taps) */
+const MIN_MANUAL_LAP_SECONDS = 3;
+
+/**
+ * Splits the live recording into laps — automatically every N km/mi or when
+ * passing the start point again, and on demand from the lap button. Laps
+ * run on moving time, so pausing the activity pauses the lap. Each finished
+ * lap is confirmed with a haptic and, when the audio coach is on, a spoken
+ * summary through the shared TTS queue.
+ */
+export function useLaps({
+  settings,
+  isActive,
+  elapsedSeconds,
+  distanceMeters,
+  heartRate,
+  currentPosition,
+  startPosition,
+  audioSettings,
+  voiceEnabled,
+  userTier = 'free',
+  units = 'metric',
+}: UseLapsParams): LapsState {
+  const [laps, setLaps] = useState<ActivityLap[]>([]);
+  const [lapStart, setLapStart] = useState<LapStart>({ seconds: 0, meters: 0 });
+  const heartRateRef = useRef<LapHeartRate>(emptyLapHeartRate());
+  const lastSampleRef = useRef<number | null>(null);
+  const { cue } = useAudioCue({
+    audioSettings,
+    voiceEnabled,
+    userTier,
+    haptic: Haptics.NotificationFeedbackType.Success,
+  });
+
+  // Reset when the recording ends
+  useEffect(() => {
+    if (isActive) return;
+    setLaps([]);
+    setLapStart({ seconds: 0, meters: 0 });
+    heartRateRef.current = emptyLapHeartRate();
+    lastSampleRef.current = null;
+  }, [isActive]);
+
+  // The timer / distance can settle to 0 just after start — rebase instead of
+  // carrying the previous activity's reading into the first lap
+  useEffect(() => {
+    if (elapsedSeconds < lapStart.seconds || distanceMeters < lapStart.meters) {
+      setLapStart({
+        seconds: Math.min(elapsedSeconds, lapStart.seconds),
+        meters: Math.min(distanceMeters, lapStart.meters),
+      });
+    }
+  }, [elapsedSeconds, distanceMeters, lapStart]);
+
+  // One heart rate sample per second of moving time
+  useEffect(() => {
+    if (!isActive || lastSampleRef.current === elapsedSeconds) return;
+    lastSampleRef.current = elapsedSeconds;
+    heartRateRef.current = addHeartRateSample(heartRateRef.current, heartRate);
+  }, [isActive, elapsedSeconds, heartRate]);
+
+  const lapNumber = laps.length + 1;
+  const currentLap = isActive
+    ? buildLapProgress(lapNumber, elapsedSeconds - lapStart.seconds, distanceMeters - lapStart.meters, heartRateRef.current)
+    : null;
+
+  const closeLap = useCallback((trigger: LapTrigger) => {
+    const progress = buildLapProgress(
+      lapNumber,
+      elapsedSeconds - lapStart.seconds,
+      distanceMeters - lapStart.meters,
+      heartRateRef.current
+    );
+    const lap = buildLapResult(progress, trigger, lapStart.seconds, heartRateRef.current);
+    logger.info('activity', 'Lap completed', {
+      lap: lap.lap_number,
+      trigger,
+      elapsed: lap.elapsed_seconds,
+      distance: lap.distance_meters,
+    });
+
+    setLaps((prev) => [...prev, lap]);
+    setLapStart({ seconds: elapsedSeconds, meters: distanceMeters });
+    heartRateRef.current = emptyLapHeartRate();
+    cue(buildLapCue(audioSettings.language, lap.lap_number, lap.elapsed_seconds, lap.distance_meters, lap.avg_pace, units));
+  }, [lapNumber, elapsedSeconds, distanceMeters, lapStart, cue, audioSettings.language, units]);
+
+  // Auto-lap on distance or when passing the start point
+  const lapDistance = distanceMeters - lapStart.meters;
+  const distanceFromStart = settings.mode === 'start_point'
+    ? distanceBetween(currentPosition, startPosition)
+    : null;
+  const autoTrigger = isActive ? getAutoLapTrigger(settings, lapDistance, distanceFromStart) : null;
+
+  useEffect(() => {
+    if (autoTrigger) closeLap(autoTrigger);
+  }, [autoTrigger, closeLap]);
+
+  const markLap = useCallback(() => {
+    if (!isActive || elapsedSeconds - lapStart.seconds < MIN_MANUAL_LAP_SECONDS) return;
+    closeLap('manual');
+  }, [isActive, elapsedSeconds, lapStart.seconds, closeLap]);
+
+  const getResults = useCallback((): ActivityLap[] => {
+    if (!currentLap || (currentLap.elapsedSeconds <= 0 && currentLap.distanceMeters <= 0)) return laps;
+    return [...laps, buildLapResult(currentLap, 'finish', lapStart.seconds, heartRateRef.current)];
+  }, [laps, currentLap, lapStart.seconds]);
+
+  return {
+    currentLap,
+    laps,
+    markLap,
+    getResults,
+  };
+}
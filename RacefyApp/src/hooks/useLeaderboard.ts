@@ -1,12 +1,14 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { api } from '../services/api';
 import { logger } from '../services/logger';
+import { queryKey } from '../services/queryCache';
 import type {
   LeaderboardEntry,
   LeaderboardPeriod,
   LeaderboardResponse,
   EventLeaderboardResponse,
 } from '../types/api';
+import { useCachedQuery } from './useCachedQuery';
 
 export type LeaderboardType = 'global' | 'following';
 
@@ -32,50 +34,39 @@ export function useLeaderboard({
   limit = 50,
   autoLoad = true,
 }: UseLeaderboardOptions): UseLeaderboardResult {
-  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
   const [period, setPeriod] = useState<LeaderboardPeriod>(initialPeriod);
-  const [isLoading, setIsLoading] = useState(autoLoad);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchLeaderboard = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
 
+  const fetchLeaderboard = useCallback(async (): Promise<LeaderboardResponse> => {
     try {
-      let response: LeaderboardResponse;
-
       if (type === 'global') {
-        response = await api.getGlobalLeaderboard(period, limit);
-      } else {
-        response = await api.getFollowingLeaderboard(period, limit);
+        return await api.getGlobalLeaderboard(period, limit);
       }
-
-      setEntries(response.leaderboard);
-    } catch (err: any) {
+      return await api.getFollowingLeaderboard(period, limit);
+    } catch (err) {
       logger.error('api', `Failed to fetch ${type} leaderboard`, { error: err, period });
-      setError(err.message || 'Failed to load leaderboard');
-      setEntries([]);
-    } finally {
-      setIsLoading(false);
+      throw err;
     }
   }, [type, period, limit]);
 
-  useEffect(() => {
-    if (autoLoad) {
-      fetchLeaderboard();
-    }
-  }, [fetchLeaderboard, autoLoad]);
+  // Standings change as activities are saved, so they're tagged 'activities'
+  const { data, isLoading, error, refetch } = useCachedQuery(
+    queryKey(`/leaderboard/${type}`, { period, limit }),
+    fetchLeaderboard,
+    { tags: ['activities'], enabled: autoLoad },
+  );
 
   const changePeriod = useCallback((newPeriod: LeaderboardPeriod) => {
     setPeriod(newPeriod);
   }, []);
 
   return {
-    entries,
+    entries: data?.leaderboard ?? [],
     period,
     isLoading,
     error,
-    refetch: fetchLeaderboard,
+    refetch: async () => {
+      await refetch();
+    },
     changePeriod,
   };
 }
@@ -99,38 +90,27 @@ export function useEventLeaderboard({
   limit = 50,
   autoLoad = true,
 }: UseEventLeaderboardOptions): UseEventLeaderboardResult {
-  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
-  const [isLoading, setIsLoading] = useState(autoLoad);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchLeaderboard = useCallback(async () => {
-    if (!eventId) return;
-
-    setIsLoading(true);
-    setError(null);
-
+  const fetchLeaderboard = useCallback(async (): Promise<EventLeaderboardResponse> => {
     try {
-      const response: EventLeaderboardResponse = await api.getEventLeaderboard(eventId, limit);
-      setEntries(response.leaderboard);
-    } catch (err: any) {
+      return await api.getEventLeaderboard(eventId, limit);
+    } catch (err) {
       logger.error('api', 'Failed to fetch event leaderboard', { error: err, eventId });
-      setError(err.message || 'Failed to load leaderboard');
-      setEntries([]);
-    } finally {
-      setIsLoading(false);
+      throw err;
     }
   }, [eventId, limit]);
 
-  useEffect(() => {
-    if (autoLoad && eventId) {
-      fetchLeaderboard();
-    }
-  }, [fetchLeaderboard, autoLoad, eventId]);
+  const { data, isLoading, error, refetch } = useCachedQuery(
+    eventId ? queryKey(`/events/${eventId}/leaderboard`, { limit }) : null,
+    fetchLeaderboard,
+    { tags: ['events', 'activities'], enabled: autoLoad },
+  );
 
   return {
-    entries,
+    entries: data?.leaderboard ?? [],
     isLoading,
     error,
-    refetch: fetchLeaderboard,
+    refetch: async () => {
+      await refetch();
+    },
   };
 }
\ No newline at end of file
@@ -8,6 +8,7 @@ import {
   clearBackgroundSyncState,
   clearForegroundBuffer,
   clearLocationBuffer,
+  countLocationBuffer,
   getAllPersistedPoints,
   getBackgroundSyncState,
   getLastBackgroundPosition,
@@ -19,22 +20,33 @@ import {
   stopBackgroundLocationTracking,
   syncAudioCoachForegroundDistance,
 } from "../services/backgroundLocation";
-import {enqueueUnsyncedActivity} from "../services/unsyncedActivities";
+import {
+  clearLocalActivity,
+  createLocalActivity,
+  createServerActivity,
+  enqueueUnsyncedActivity,
+  getLocalActivity,
+  isLocalActivityId,
+  isPromotedLocalActivity,
+  saveLocalActivity,
+  uploadUnsyncedActivity,
+} from "../services/unsyncedActivities";
+import {isGpsReplayActive, watchLivePosition} from "../services/gpsReplay";
 import NetInfo, {NetInfoState} from "@react-native-community/netinfo";
-import type {Activity, ActivityLocation, AutoCreatedPost, GpsPoint,} from "../types/api";
+import type {Activity, ActivityLocation, AutoCreatedPost, FinishActivityRequest, GpsPoint,} from "../types/api";
+import type {WorkoutStepResult} from "../types/workout";
+import type {ActivityLap} from "../types/lap";
 import {convertToApiGpsProfile, DEFAULT_GPS_PROFILE, type GpsProfile,} from "../config/gpsProfiles";
 import {useSportTypes} from "./useSportTypes";
 import {useAuth} from "./useAuth";
 import {logger} from "../services/logger";
 import {captureActivityLocation} from "../utils/locationCapture";
-import {addPaceSegment, calculateCurrentPace, type PaceSegment, smoothPace,} from "../utils/paceCalculator";
+import {createTrackProcessor, type TrackPointResult, type TrackProcessor,} from "../utils/trackProcessor";
 import {
   CALORIES_PER_SECOND,
-  GPS_GAP_THRESHOLD_MS,
   GPS_GOOD_THRESHOLD_MS,
   GPS_WEAK_THRESHOLD_MS,
   MAX_BACKOFF_MS,
-  MAX_PACE_SEGMENTS,
   PERSIST_INTERVAL_MS,
   SYNC_INTERVAL_MS,
 } from "../constants/tracking";
@@ -92,7 +104,7 @@ const initialStats: LiveActivityStats = {
 // Internal hook implementation (not exported directly)
 function useLiveActivityInternal() {
   const { getGpsProfileForSport } = useSportTypes();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
 
   const [state, setState] = useState<LiveActivityState>({
     activity: null,
@@ -121,12 +133,6 @@ function useLiveActivityInternal() {
   const durationInterval = useRef<NodeJS.Timeout | null>(null);
   const backgroundSyncInterval = useRef<NodeJS.Timeout | null>(null);
   const localStatsRef = useRef<LiveActivityStats>({ ...initialStats });
-  const lastPosition = useRef<{
-    lat: number;
-    lng: number;
-    ele?: number;
-    timestamp?: number;
-  } | null>(null);
   const trackingStartTime = useRef<number | null>(null);
   const pausedDuration = useRef<number>(0);
   const currentActivityId = useRef<number | null>(null);
@@ -141,24 +147,19 @@ function useLiveActivityInternal() {
   // Location captured at activity start (for sending with finish request)
   const activityLocationRef = useRef<ActivityLocation | null>(null);
 
-  // GPS smoothing buffer - stores last N positions for averaging
-  const gpsBuffer = useRef<
-    Array<{ lat: number; lng: number; ele?: number; timestamp: number }>
-  >([]);
-
   // Current GPS profile based on activity type
   const currentGpsProfile = useRef<GpsProfile>(DEFAULT_GPS_PROFILE);
 
+  // Filtering, smoothing, gap detection and distance/elevation/pace accumulation.
+  // Owns the last known (smoothed) position. Replaced on every new activity.
+  const trackProcessor = useRef<TrackProcessor>(
+    createTrackProcessor(DEFAULT_GPS_PROFILE),
+  );
+
   // App state tracking for GPS drift prevention
   const appState = useRef<AppStateStatus>(AppState.currentState);
-  const skipNextGpsPoint = useRef<boolean>(false);
   const appStateSubscription = useRef<any>(null);
 
-  // Timestamp (ms) of the last GPS point actually added to pointsBuffer.
-  // Used for gap detection: if the gap since this point exceeds GPS_GAP_THRESHOLD_MS
-  // the next arriving point is treated as a route-segment break and discarded.
-  const lastBufferedPointTime = useRef<number | null>(null);
-
   // Network status tracking
   const networkSubscription = useRef<any>(null);
   const isOnlineRef = useRef<boolean>(true);
@@ -174,107 +175,29 @@ function useLiveActivityInternal() {
   const syncRetryCount = useRef<number>(0);
   const lastSyncAttempt = useRef<number>(0);
 
-  // Pace calculation - stores recent distance snapshots for current pace
-  const paceSegments = useRef<PaceSegment[]>([]);
-  const smoothedPaceRef = useRef<number | null>(null);
-
-  // Calculate smoothed position from GPS buffer (with recency weighting)
-  const getSmoothedPosition = (newPoint: {
-    lat: number;
-    lng: number;
-    ele?: number;
-    timestamp: number;
-  }) => {
-    const bufferSize = currentGpsProfile.current.smoothingBufferSize;
-    gpsBuffer.current.push(newPoint);
-    if (gpsBuffer.current.length > bufferSize) {
-      gpsBuffer.current.shift();
-    }
+  // Guard against creating the server copy of a local activity twice
+  const isPromotingRef = useRef<boolean>(false);
 
-    const buffer = gpsBuffer.current;
-
-    // Weighted average: newer points have more influence (linear weights: 1, 2, 3...)
-    let totalWeight = 0;
-    let weightedLat = 0;
-    let weightedLng = 0;
-
-    buffer.forEach((p, i) => {
-      const weight = i + 1; // Linear weight: older=1, newest=bufferSize
-      weightedLat += p.lat * weight;
-      weightedLng += p.lng * weight;
-      totalWeight += weight;
-    });
-
-    const avgLat = weightedLat / totalWeight;
-    const avgLng = weightedLng / totalWeight;
-
-    // For elevation, keep median to reduce outlier impact (more robust for altitude)
-    const elevations = buffer
-      .filter((p) => p.ele !== undefined)
-      .map((p) => p.ele!);
-    let avgEle: number | undefined;
-    if (elevations.length > 0) {
-      elevations.sort((a, b) => a - b);
-      const mid = Math.floor(elevations.length / 2);
-      avgEle =
-        elevations.length % 2 === 0
-          ? (elevations[mid - 1] + elevations[mid]) / 2
-          : elevations[mid];
+  // Apply a processed point to local stats and the sync/map buffers.
+  // Rejections are only logged — the processor already updated its baseline.
+  const applyTrackResult = (result: TrackPointResult): boolean => {
+    if (!result.accepted) {
+      if (result.reason === "small_movement" || result.reason === "baseline") {
+        logger.debug("gps", `GPS point filtered: ${result.reason}`, result.details);
+      } else {
+        logger.gps(`GPS point filtered: ${result.reason} - NOT synced to server`, {
+          ...result.details,
+          lat: result.point.lat,
+          lng: result.point.lng,
+        });
+      }
+      return false;
     }
 
-    return {
-      lat: avgLat,
-      lng: avgLng,
-      ele: avgEle,
-      timestamp: newPoint.timestamp,
-    };
-  };
-
-  // Haversine formula for distance calculation (fallback when offline)
-  const calculateDistance = (
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  };
-
-  // Update current pace based on recent GPS segments
-  const updateCurrentPace = () => {
-    const profile = currentGpsProfile.current;
-
-    // Calculate raw current pace from segments
-    const rawPace = calculateCurrentPace(
-      paceSegments.current,
-      profile.paceWindowSeconds,
-      profile.minSegmentDistance,
-    );
-
-    if (rawPace !== null) {
-      // Apply smoothing for stable display
-      const smoothed = smoothPace(
-        rawPace,
-        smoothedPaceRef.current,
-        profile.paceSmoothingFactor,
-      );
-      smoothedPaceRef.current = smoothed;
-      localStatsRef.current.currentPace = smoothed;
-    } else {
-      // Not enough data yet - keep previous value or null
-      localStatsRef.current.currentPace = smoothedPaceRef.current;
-    }
+    localStatsRef.current.distance += result.distance;
+    localStatsRef.current.elevation_gain += result.elevationGain;
+    localStatsRef.current.currentPace = trackProcessor.current.getStats().currentPace;
+    return true;
   };
 
   // Check for existing active activity on mount (only for authenticated users)
@@ -345,7 +268,28 @@ function useLiveActivityInternal() {
     try {
       logger.activity("Checking for existing activity");
       setState((prev) => ({ ...prev, isLoading: true }));
-      const activity = await api.getCurrentActivity();
+      const localRecord = await getLocalActivity();
+      let activity: Activity | null = null;
+      try {
+        activity = await api.getCurrentActivity();
+      } catch (error) {
+        // Offline: an activity recorded locally can still be resumed
+        if (!localRecord) throw error;
+      }
+      if (activity && localRecord) {
+        if (isPromotedLocalActivity(localRecord.activity, activity)) {
+          // The local activity reached the server before the app was killed
+          await clearLocalActivity();
+        } else {
+          // A different activity (another device, or an older one) — keep the
+          // local recording so it's offered once the server one is closed
+          logger.warn("activity", "Server activity differs from local recording, keeping local", {
+            serverId: activity.id,
+            localStartedAt: localRecord.activity.started_at,
+          });
+        }
+      }
+      activity = activity ?? localRecord?.activity ?? null;
       if (activity) {
         logger.activity("Found existing activity", {
           id: activity.id,
@@ -452,117 +396,54 @@ function useLiveActivityInternal() {
       // 1. Get background sync state
       const syncState = await getBackgroundSyncState();
 
-      // 2. Get buffer (don't clear yet)
-      const buffer = await getLocationBuffer();
-
-      // 3. Calculate unsynced points (points not yet sent by background sync)
-      unsyncedPoints = buffer.slice(syncState.syncedPointsCount);
+      // 2-3. Read the points not yet sent by background sync (don't clear yet)
+      unsyncedPoints = await getLocationBuffer(syncState.syncedPointsCount);
+      const totalBuffered = syncState.syncedPointsCount + unsyncedPoints.length;
 
       if (unsyncedPoints.length > 0) {
         logger.gps("Foreground: Syncing remaining background points", {
           activityId,
-          totalBuffered: buffer.length,
+          totalBuffered,
           alreadySynced: syncState.syncedPointsCount,
           unsyncedCount: unsyncedPoints.length,
         });
 
-        // 4. Convert to GpsPoint format, applying gap detection, and add to foreground buffer.
-        // The first point that arrives after a gap > GPS_GAP_THRESHOLD_MS is discarded
-        // (it would create a visible jump on the route map).  The gap clock is reset so
-        // the next point is accepted as the new segment start.
-        const points: GpsPoint[] = [];
-        let prevBufTime = lastBufferedPointTime.current;
-
-        for (const p of unsyncedPoints) {
-          const pointTime = new Date(p.time).getTime();
-          if (
-            prevBufTime !== null &&
-            pointTime - prevBufTime > GPS_GAP_THRESHOLD_MS
-          ) {
-            logger.gps(
-              "Background point discarded: route segment break (large time gap)",
-              {
-                gapSeconds: ((pointTime - prevBufTime) / 1000).toFixed(0),
-                thresholdSeconds: GPS_GAP_THRESHOLD_MS / 1000,
-              },
-            );
-            // Advance clock: next point is accepted as new segment start
-            prevBufTime = pointTime;
-            continue;
-          }
-          points.push({
+        // 4. Run the points through the track processor. They were already
+        // filtered by the background task, so only gap detection applies: the
+        // first point after a gap > GPS_GAP_THRESHOLD_MS is discarded (it would
+        // create a visible jump on the route map) and starts a new segment.
+        // Distance/elevation are accumulated IMMEDIATELY (UX improvement) so the
+        // user sees updates when returning to foreground instead of waiting 30s.
+        const results = trackProcessor.current.ingestFiltered(
+          unsyncedPoints.map((p) => ({
             lat: p.lat,
             lng: p.lng,
             ele: p.ele,
             time: p.time,
             speed: p.speed,
             accuracy: p.accuracy,
-          });
-          prevBufTime = pointTime;
+          })),
+        );
+
+        const points: GpsPoint[] = [];
+        let additionalDistance = 0;
+        let additionalElevation = 0;
+        for (const result of results) {
+          if (applyTrackResult(result) && result.accepted) {
+            points.push(result.point);
+            additionalDistance += result.distance;
+            additionalElevation += result.elevationGain;
+          }
         }
 
         if (points.length > 0) {
           pointsBuffer.current.push(...points);
           allRoutePoints.current.push(...points);
           pointsVersionRef.current++;
-          // Update the gap-detection clock to the last accepted background point
-          const lastPoint = points[points.length - 1];
-          if (lastPoint.time) {
-            lastBufferedPointTime.current = new Date(lastPoint.time).getTime();
-          }
         }
 
-        // 5. Calculate local stats from background points IMMEDIATELY (UX improvement)
-        // This shows distance/elevation updates instantly when returning to foreground
-        // instead of waiting 30s for next sync interval
-        const profile = currentGpsProfile.current;
-        let additionalDistance = 0;
-        let additionalElevation = 0;
-
-        // Start from last known position (or first gap-filtered background point)
-        let prevPoint =
-          lastPosition.current ||
-          (points.length > 0
-            ? {
-                lat: points[0].lat,
-                lng: points[0].lng,
-                ele: points[0].ele,
-              }
-            : null);
-
-        // Iterate only gap-filtered points so no jump distances are counted
-        for (const point of points) {
-          if (prevPoint) {
-            // Calculate distance
-            const dist = calculateDistance(
-              prevPoint.lat,
-              prevPoint.lng,
-              point.lat,
-              point.lng,
-            );
-
-            // Only count if moved more than threshold
-            if (dist > profile.minDistanceThreshold) {
-              additionalDistance += dist;
-
-              // Calculate elevation gain
-              if (point.ele && prevPoint.ele) {
-                const elevDiff = point.ele - prevPoint.ele;
-                if (elevDiff > profile.minElevationChange) {
-                  additionalElevation += elevDiff;
-                }
-              }
-            }
-          }
-
-          prevPoint = { lat: point.lat, lng: point.lng, ele: point.ele };
-        }
-
-        // Update local stats immediately
+        // 5. Update UI state immediately - user sees distance instantly!
         if (additionalDistance > 0) {
-          localStatsRef.current.distance += additionalDistance;
-          localStatsRef.current.elevation_gain += additionalElevation;
-
           logger.gps("Updated local stats from background points", {
             additionalDistance: additionalDistance.toFixed(1),
             additionalElevation: additionalElevation.toFixed(1),
@@ -570,7 +451,6 @@ function useLiveActivityInternal() {
             totalElevation: localStatsRef.current.elevation_gain.toFixed(1),
           });
 
-          // Update UI state immediately - user sees distance instantly!
           setState((prev) => ({
             ...prev,
             currentStats: { ...localStatsRef.current },
@@ -583,11 +463,11 @@ function useLiveActivityInternal() {
         logger.gps("Foreground: Cleared background buffer and sync state");
       } else {
         logger.gps("Foreground: No unsynced background points", {
-          totalBuffered: buffer.length,
+          totalBuffered,
           alreadySynced: syncState.syncedPointsCount,
         });
         // Still clear the buffer and state even if all points were synced
-        if (buffer.length > 0) {
+        if (totalBuffered > 0) {
           await clearLocationBuffer();
           await clearBackgroundSyncState();
         }
@@ -601,10 +481,8 @@ function useLiveActivityInternal() {
       if (unsyncedPoints.length > 0) {
         try {
           // Re-save only the unsynced points
-          const syncState = await getBackgroundSyncState();
-          const existingBuffer = await getLocationBuffer();
           // Only re-save if buffer was cleared
-          if (existingBuffer.length === 0) {
+          if ((await countLocationBuffer()) === 0) {
             await saveLocationBuffer(unsyncedPoints);
             logger.gps("Re-saved unsynced background points after failure", {
               count: unsyncedPoints.length,
@@ -630,71 +508,14 @@ function useLiveActivityInternal() {
 
     logger.gps("Starting foreground GPS tracking");
 
-    locationSubscription.current = await Location.watchPositionAsync(
+    // Plays back the armed dev replay instead of real GPS when one is set
+    locationSubscription.current = await watchLivePosition(
       {
         accuracy: Location.Accuracy.BestForNavigation,
         distanceInterval: profile.distanceInterval,
         timeInterval: profile.timeInterval,
       },
       (location) => {
-        const gpsProfile = currentGpsProfile.current;
-
-        // Filter out inaccurate GPS readings first
-        const accuracy = location.coords.accuracy;
-        if (accuracy && accuracy > gpsProfile.accuracyThreshold) {
-          logger.gps("GPS point filtered: poor accuracy", {
-            accuracy: accuracy.toFixed(1),
-            threshold: gpsProfile.accuracyThreshold,
-          });
-          return;
-        }
-
-        // Skip first GPS point after returning from background to avoid drift
-        // BUT update lastPosition so the next point has a valid baseline
-        if (skipNextGpsPoint.current) {
-          logger.gps(
-            "Skipping first GPS point after returning from background (using as new baseline)",
-            {
-              accuracy: location.coords.accuracy,
-              speed: location.coords.speed,
-              lat: location.coords.latitude,
-              lng: location.coords.longitude,
-            },
-          );
-          skipNextGpsPoint.current = false;
-
-          // Use smoothed position for baseline consistency
-          // (next point calculation also uses smoothed position)
-          const smoothedBaseline = getSmoothedPosition({
-            lat: location.coords.latitude,
-            lng: location.coords.longitude,
-            ele: location.coords.altitude ?? undefined,
-            timestamp: location.timestamp,
-          });
-
-          // Update lastPosition with smoothed values for consistent distance calculation
-          lastPosition.current = {
-            lat: smoothedBaseline.lat,
-            lng: smoothedBaseline.lng,
-            ele: smoothedBaseline.ele,
-            timestamp: location.timestamp,
-          };
-
-          // Don't add to buffer or calculate distance, just set baseline
-          return;
-        }
-
-        // Stationary detection: if GPS reports very low speed, use stricter distance threshold
-        const gpsSpeed = location.coords.speed;
-        const stationaryThreshold = gpsProfile.stationarySpeedThreshold ?? 0.5;
-        const isLikelyStationary =
-          gpsSpeed !== null &&
-          gpsSpeed !== undefined &&
-          gpsSpeed < stationaryThreshold;
-        const effectiveMinDistance = isLikelyStationary
-          ? Math.max(gpsProfile.minDistanceThreshold, 8) // At least 8m when stationary
-          : gpsProfile.minDistanceThreshold;
-
         const point: GpsPoint = {
           lat: location.coords.latitude,
           lng: location.coords.longitude,
@@ -704,133 +525,27 @@ function useLiveActivityInternal() {
           accuracy: location.coords.accuracy ?? undefined,
         };
 
-        // Apply GPS smoothing to reduce jitter/drift
-        const smoothedPoint = getSmoothedPosition({
-          lat: point.lat,
-          lng: point.lng,
-          ele: point.ele,
-          timestamp: location.timestamp,
-        });
-
-        // Calculate local distance for immediate UI feedback
-        if (lastPosition.current) {
-          // Use smoothed position for distance calculation
-          const dist = calculateDistance(
-            lastPosition.current.lat,
-            lastPosition.current.lng,
-            smoothedPoint.lat,
-            smoothedPoint.lng,
-          );
+        // Accuracy, stationary, implied-speed and gap filtering + smoothing.
+        // Only validated (original, non-smoothed) points are stored for server
+        // sync to prevent GPS jumps/glitches.
+        const result = trackProcessor.current.process(point);
 
-          // Calculate actual time difference between GPS readings
-          const timeSinceLastPoint = lastPosition.current.timestamp
-            ? (location.timestamp - lastPosition.current.timestamp) / 1000
-            : 3; // fallback to 3 seconds if no timestamp
-
-          // Calculate implied speed to filter GPS glitches
-          const impliedSpeed =
-            timeSinceLastPoint > 0 ? dist / timeSinceLastPoint : 999;
-
-          if (
-            dist > effectiveMinDistance &&
-            impliedSpeed < gpsProfile.maxRealisticSpeed
-          ) {
-            // Only count if moved more than threshold AND speed is realistic
-
-            // Gap detection: if the gap since the last buffered point exceeds the
-            // threshold the GPS route has a discontinuity (app was in background,
-            // GPS signal was lost, etc.).  Discard this first "jump" point and
-            // reset the gap clock so the very next point is accepted normally.
-            const isGapPoint =
-              lastBufferedPointTime.current !== null &&
-              location.timestamp - lastBufferedPointTime.current >
-                GPS_GAP_THRESHOLD_MS;
-
-            if (isGapPoint) {
-              logger.gps(
-                "GPS point discarded: route segment break (large time gap)",
-                {
-                  gapSeconds: (
-                    (location.timestamp - lastBufferedPointTime.current!) /
-                    1000
-                  ).toFixed(0),
-                  thresholdSeconds: GPS_GAP_THRESHOLD_MS / 1000,
-                  lat: point.lat,
-                  lng: point.lng,
-                },
-              );
-              // Advance the clock so the next point is accepted
-              lastBufferedPointTime.current = location.timestamp;
-            } else {
-              localStatsRef.current.distance += dist;
-
-              // Calculate elevation gain with noise filter
-              if (smoothedPoint.ele && lastPosition.current.ele) {
-                const elevDiff = smoothedPoint.ele - lastPosition.current.ele;
-                // Only count significant elevation changes to filter GPS altitude noise
-                if (elevDiff > gpsProfile.minElevationChange) {
-                  localStatsRef.current.elevation_gain += elevDiff;
-                }
-              }
-
-              // Track pace segment for current pace calculation
-              paceSegments.current = addPaceSegment(
-                paceSegments.current,
-                {
-                  timestamp: location.timestamp,
-                  distance: localStatsRef.current.distance,
-                },
-                MAX_PACE_SEGMENTS,
-              );
-
-              // Update current pace based on recent segments
-              updateCurrentPace();
-
-              // Store original (non-smoothed) validated point for server sync
-              // IMPORTANT: Only validated points are sent to prevent GPS jumps/glitches
-              pointsBuffer.current.push(point);
-              allRoutePoints.current.push(point);
-              pointsVersionRef.current++;
-              lastBufferedPointTime.current = location.timestamp;
-
-              setState((prev) => ({
-                ...prev,
-                currentStats: { ...localStatsRef.current },
-              }));
-            }
-          } else if (
-            dist > effectiveMinDistance &&
-            impliedSpeed >= gpsProfile.maxRealisticSpeed
-          ) {
-            logger.gps(
-              "GPS point filtered: unrealistic speed - NOT synced to server",
-              {
-                distance: dist.toFixed(1),
-                timeDelta: timeSinceLastPoint.toFixed(1),
-                speedKmh: (impliedSpeed * 3.6).toFixed(1),
-                maxSpeedKmh: (gpsProfile.maxRealisticSpeed * 3.6).toFixed(1),
-              },
-            );
-          } else if (dist <= effectiveMinDistance) {
-            logger.debug(
-              "gps",
-              "GPS point filtered: small movement - NOT synced to server",
-              {
-                distance: dist.toFixed(1),
-                threshold: effectiveMinDistance,
-                isStationary: isLikelyStationary,
-              },
-            );
-          }
+        // Poor-accuracy fixes don't count as signal
+        if (!result.accepted && result.reason === "poor_accuracy") {
+          applyTrackResult(result);
+          return;
         }
 
-        // Update last position with smoothed values for next calculation
-        lastPosition.current = {
-          lat: smoothedPoint.lat,
-          lng: smoothedPoint.lng,
-          ele: smoothedPoint.ele,
-          timestamp: location.timestamp,
-        };
+        if (applyTrackResult(result)) {
+          pointsBuffer.current.push(point);
+          allRoutePoints.current.push(point);
+          pointsVersionRef.current++;
+
+          setState((prev) => ({
+            ...prev,
+            currentStats: { ...localStatsRef.current },
+          }));
+        }
 
         // Update GPS signal time (we got a GPS reading, even if filtered)
         lastGpsTime.current = Date.now();
@@ -854,7 +569,8 @@ function useLiveActivityInternal() {
     const previousAppState = appState.current;
     const activityId = currentActivityId.current;
 
-    if (!activityId) {
+    // Replayed fixes come from JS timers - keep the foreground watcher running
+    if (!activityId || isGpsReplayActive()) {
       appState.current = nextAppState;
       return;
     }
@@ -888,9 +604,12 @@ function useLiveActivityInternal() {
         logger.gps("Background tracking already running (continuing)");
       }
 
-      // Sync foreground distance to background audio coach so it continues
-      // from the correct total distance (not just previous background sessions)
-      await syncAudioCoachForegroundDistance(localStatsRef.current.distance);
+      // Sync foreground distance and moving time to background audio coach so it
+      // continues from the correct totals (not just previous background sessions)
+      await syncAudioCoachForegroundDistance(
+        localStatsRef.current.distance,
+        localStatsRef.current.duration,
+      );
 
       // Stop foreground tracking (background tracking should now be running)
       stopForegroundTracking();
@@ -954,11 +673,11 @@ function useLiveActivityInternal() {
       // 4. Recover last position from background for distance continuity
       const lastBgPosition = await getLastBackgroundPosition();
       if (lastBgPosition) {
-        lastPosition.current = {
+        trackProcessor.current.seedPosition({
           lat: lastBgPosition.lat,
           lng: lastBgPosition.lng,
           timestamp: lastBgPosition.timestamp,
-        };
+        });
         logger.gps(
           "Recovered last background position for distance continuity",
           {
@@ -969,8 +688,7 @@ function useLiveActivityInternal() {
       }
 
       // 5. Clear GPS smoothing buffer and skip first point to avoid drift
-      gpsBuffer.current = [];
-      skipNextGpsPoint.current = true;
+      trackProcessor.current.rebaseline();
 
       // 6. NOW start foreground tracking
       await startForegroundTracking();
@@ -1000,6 +718,7 @@ function useLiveActivityInternal() {
     // Load GPS profile for this activity type from API or fallback
     const profile = getGpsProfileForSport(sportTypeId);
     currentGpsProfile.current = profile;
+    trackProcessor.current.setProfile(profile);
 
     logger.info("gps", "GPS profile loaded for activity", {
       activityId,
@@ -1066,8 +785,11 @@ function useLiveActivityInternal() {
         // Rebuild local distance/elevation from the recovered points so the UI
         // doesn't show 0 km after an app kill or after the server-derived
         // currentStats (which may be 0 if sync was failing) overwrote them.
-        // We mirror the gap- and threshold-filtering used during live tracking
-        // so accidental jumps between far-apart points aren't counted.
+        // The track processor applies the same gap- and threshold-filtering used
+        // during live tracking so accidental jumps between far-apart points aren't
+        // counted, and seeds the gap clock + last position so the very next live
+        // GPS sample doesn't add a jump from the recovered tail to the new position.
+        // All recovered points stay in the sync buffer regardless.
         const ordered = [...recoveredGpsPoints].sort((a, b) => {
           const ta = a.time ? new Date(a.time).getTime() : 0;
           const tb = b.time ? new Date(b.time).getTime() : 0;
@@ -1076,25 +798,11 @@ function useLiveActivityInternal() {
 
         let recoveredDistance = 0;
         let recoveredElevation = 0;
-        let prevRec: { lat: number; lng: number; ele?: number; t: number } | null = null;
-        let lastRecoveredT: number | null = null;
-
-        for (const p of ordered) {
-          const t = p.time ? new Date(p.time).getTime() : 0;
-          if (prevRec && t - prevRec.t <= GPS_GAP_THRESHOLD_MS) {
-            const dist = calculateDistance(prevRec.lat, prevRec.lng, p.lat, p.lng);
-            if (dist > profile.minDistanceThreshold) {
-              recoveredDistance += dist;
-              if (p.ele != null && prevRec.ele != null) {
-                const elevDiff = p.ele - prevRec.ele;
-                if (elevDiff > profile.minElevationChange) {
-                  recoveredElevation += elevDiff;
-                }
-              }
-            }
+        for (const result of trackProcessor.current.ingestFiltered(ordered)) {
+          if (result.accepted) {
+            recoveredDistance += result.distance;
+            recoveredElevation += result.elevationGain;
           }
-          prevRec = { lat: p.lat, lng: p.lng, ele: p.ele, t };
-          lastRecoveredT = t;
         }
 
         if (recoveredDistance > 0) {
@@ -1105,20 +813,6 @@ function useLiveActivityInternal() {
               (localStatsRef.current.elevation_gain || 0) + recoveredElevation,
           };
 
-          // Seed the gap clock + last position so the very next live GPS sample
-          // doesn't add a jump from the recovered tail to the new position.
-          if (prevRec) {
-            lastPosition.current = {
-              lat: prevRec.lat,
-              lng: prevRec.lng,
-              ele: prevRec.ele,
-              timestamp: prevRec.t || Date.now(),
-            };
-          }
-          if (lastRecoveredT) {
-            lastBufferedPointTime.current = lastRecoveredT;
-          }
-
           setState((prevState) => ({
             ...prevState,
             currentStats: { ...localStatsRef.current },
@@ -1150,7 +844,7 @@ function useLiveActivityInternal() {
       // IMPORTANT: On Android, start background tracking FIRST while app is in foreground
       // This prevents the "foreground service cannot be started in background" error
       // Background tracking runs alongside foreground tracking, ready for when app goes to background
-      if (Platform.OS === "android") {
+      if (Platform.OS === "android" && !isGpsReplayActive()) {
         const bgStarted = await startBackgroundLocationTracking(profile);
         if (!bgStarted) {
           logger.warn(
@@ -1179,10 +873,13 @@ function useLiveActivityInternal() {
             return;
           }
         }
-        syncPoints(activityId);
+        // Read the ref - a local activity gets a server ID once it is promoted
+        if (currentActivityId.current) {
+          syncPoints(currentActivityId.current);
+        }
       }, SYNC_INTERVAL_MS);
 
-      // Persist foreground buffer to AsyncStorage every 10 seconds (crash protection)
+      // Persist foreground buffer every 10 seconds (crash protection, appends new points only)
       persistInterval.current = setInterval(async () => {
         if (pointsBuffer.current.length > 0) {
           const pointsToSave: BufferedLocation[] = pointsBuffer.current.map(
@@ -1309,12 +1006,8 @@ function useLiveActivityInternal() {
     // NOTE: Do NOT clearAllPersistedPoints() here — caller decides when to clear
     // (after successful finish/discard). This prevents data loss if finish API fails.
 
-    // Clear GPS smoothing buffer
-    gpsBuffer.current = [];
-
-    // Reset app state tracking
-    skipNextGpsPoint.current = false;
-    lastBufferedPointTime.current = null;
+    // Clear GPS smoothing buffer and gap clock
+    trackProcessor.current.resetSegment();
 
     currentActivityId.current = null;
     stopDurationTimer();
@@ -1350,7 +1043,73 @@ function useLiveActivityInternal() {
     return result;
   };
 
+  /**
+   * Create the server copy of an activity that was started offline.
+   * Returns the server activity ID, or null if the server is still unreachable.
+   * Points recorded so far stay in the buffer and are uploaded by the next sync.
+   */
+  const promoteLocalActivity = async (
+    localId: number,
+  ): Promise<number | null> => {
+    if (isPromotingRef.current) return null;
+    isPromotingRef.current = true;
+
+    try {
+      const record = await getLocalActivity();
+      if (!record || record.activity.id !== localId) return null;
+
+      // Paused locally (e.g. reconnecting mid-pause) -> paused on the server
+      // too, so resumeTracking calls /resume on it
+      const activity = await createServerActivity(record);
+
+      currentActivityId.current = activity.id;
+      await setActiveActivityId(activity.id);
+      await clearLocalActivity();
+
+      pausedDuration.current = activity.total_paused_duration || 0;
+      setState((prev) => ({ ...prev, activity }));
+
+      logger.activity("Local activity created on server", {
+        localId,
+        serverId: activity.id,
+        status: activity.status,
+      });
+      return activity.id;
+    } catch (error: any) {
+      logger.warn("activity", "Failed to create local activity on server", {
+        localId,
+        error: error.message,
+      });
+      return null;
+    } finally {
+      isPromotingRef.current = false;
+    }
+  };
+
   const syncPoints = async (activityId: number) => {
+    if (isLocalActivityId(activityId)) {
+      // Callers holding the local ID after promotion continue with the server ID
+      const promotedId =
+        currentActivityId.current && !isLocalActivityId(currentActivityId.current)
+          ? currentActivityId.current
+          : null;
+      const serverId =
+        promotedId ??
+        (isOnlineRef.current ? await promoteLocalActivity(activityId) : null);
+      if (!serverId) {
+        // Still offline - points stay buffered and persisted
+        setState((prev) => ({
+          ...prev,
+          trackingStatus: {
+            ...prev.trackingStatus,
+            pendingPoints: pointsBuffer.current.length,
+          },
+        }));
+        return;
+      }
+      activityId = serverId;
+    }
+
     if (pointsBuffer.current.length === 0) {
       // Update tracking status to show no pending points
       setState((prev) => ({
@@ -1497,9 +1256,23 @@ function useLiveActivityInternal() {
         });
         setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
+        // Without a connection the activity is recorded locally and
+        // reconciled with the server once connectivity returns
+        let serverReachable = isOnlineRef.current;
+
         // IMPORTANT: Check for existing activity first!
         // Never call start blindly - the API will reject if one exists
-        const existingActivity = await api.getCurrentActivity();
+        let existingActivity: Activity | null = null;
+        if (serverReachable) {
+          try {
+            existingActivity = await api.getCurrentActivity();
+          } catch (error: any) {
+            if (error?.status) throw error;
+            serverReachable = false;
+          }
+        }
+        existingActivity =
+          existingActivity ?? (await getLocalActivity())?.activity ?? null;
         if (existingActivity) {
           const stats: LiveActivityStats = {
             distance: existingActivity.distance,
@@ -1549,24 +1322,42 @@ function useLiveActivityInternal() {
         const gpsProfileRequest = convertToApiGpsProfile(gpsProfile);
 
         // Start activity on server with GPS profile
-        const activity = await api.startLiveActivity({
-          sport_type_id: sportTypeId,
-          title,
-          started_at: new Date().toISOString(),
-          event_id: eventId,
-          gps_profile: gpsProfileRequest,
-        });
+        let activity: Activity | null = null;
+        if (serverReachable) {
+          try {
+            activity = await api.startLiveActivity({
+              sport_type_id: sportTypeId,
+              title,
+              started_at: new Date().toISOString(),
+              event_id: eventId,
+              gps_profile: gpsProfileRequest,
+            });
+          } catch (error: any) {
+            if (error?.status) throw error;
+          }
+        }
+
+        if (!activity) {
+          activity = createLocalActivity({
+            userId: user?.id ?? 0,
+            sportTypeId,
+            title,
+            eventId,
+          });
+          await saveLocalActivity({ activity, gpsProfile: gpsProfileRequest });
+          logger.activity("No connection - recording activity locally", {
+            localId: activity.id,
+          });
+        }
 
         // Reset local stats and pace tracking
         localStatsRef.current = { ...initialStats };
-        lastPosition.current = null;
+        trackProcessor.current = createTrackProcessor(currentGpsProfile.current);
         pointsBuffer.current = [];
         allRoutePoints.current = [];
         pointsVersionRef.current++;
         pausedDuration.current = 0;
         trackingStartTime.current = null;
-        paceSegments.current = [];
-        smoothedPaceRef.current = null;
 
         setState((prev) => ({
           ...prev,
@@ -1601,7 +1392,7 @@ function useLiveActivityInternal() {
         throw error;
       }
     },
-    [getGpsProfileForSport],
+    [getGpsProfileForSport, user],
   );
 
   const pauseTracking = useCallback(async () => {
@@ -1632,11 +1423,22 @@ function useLiveActivityInternal() {
         });
       }
 
-      // Sync remaining points
-      await syncPoints(state.activity.id);
+      let activity: Activity;
+      if (isLocalActivityId(state.activity.id)) {
+        // Recorded offline - pause locally, points stay persisted until finish
+        activity = {
+          ...state.activity,
+          status: "paused",
+          duration: localStatsRef.current.duration,
+        };
+        await updateLocalActivity(activity);
+      } else {
+        // Sync remaining points
+        await syncPoints(state.activity.id);
 
-      // Pause on server
-      const activity = await api.pauseActivity(state.activity.id);
+        // Pause on server
+        activity = await api.pauseActivity(state.activity.id);
+      }
 
       logger.activity("Activity paused", {
         id: activity.id,
@@ -1678,7 +1480,12 @@ function useLiveActivityInternal() {
 
       // Only call API resume if activity is paused
       // If activity is already in_progress (e.g., app crashed), just restart GPS tracking
-      if (state.activity.status === "paused") {
+      if (isLocalActivityId(state.activity.id)) {
+        // Recorded offline - resume locally, the server copy is created on next sync
+        activity = { ...state.activity, status: "in_progress" };
+        await updateLocalActivity(activity);
+        logger.activity("Local activity resumed", { id: activity.id });
+      } else if (state.activity.status === "paused") {
         activity = await api.resumeActivity(state.activity.id);
         // Update paused duration from server
         pausedDuration.current = activity.total_paused_duration || 0;
@@ -1703,8 +1510,7 @@ function useLiveActivityInternal() {
 
       // Clear GPS smoothing buffer and skip first point after resume
       // to avoid false distance from pre-pause position
-      gpsBuffer.current = [];
-      skipNextGpsPoint.current = true;
+      trackProcessor.current.rebaseline();
 
       // Restart GPS tracking with sport-specific profile
       // Fallback to pre-resume state in case API response omits sport_type_id
@@ -1724,16 +1530,29 @@ function useLiveActivityInternal() {
     }
   }, [state.activity]);
 
+  // Keep the persisted local activity in step with pause/resume so it can be
+  // restored after an app restart while still offline.
+  const updateLocalActivity = async (activity: Activity): Promise<void> => {
+    const record = await getLocalActivity();
+    if (!record) return;
+    await saveLocalActivity({ ...record, activity });
+  };
+
   // Snapshot the current activity + buffered points into the unsynced queue.
   // Called from finish error paths when the server keeps rejecting /points or
-  // /finish — the user can later retry or export GPX from the queue screen.
-  const enqueueFailedFinish = async (errorMessage: string): Promise<void> => {
-    if (!state.activity) return;
+  // /finish, and when finishing an activity recorded offline — the user can
+  // later retry or export GPX from the queue screen.
+  const enqueueCurrentActivity = async (
+    errorMessage?: string,
+    finishData?: Omit<FinishActivityRequest, "final_points" | "ended_at" | "location">,
+  ): Promise<boolean> => {
+    if (!state.activity) return false;
     try {
       const points = deduplicatePoints(pointsBuffer.current);
       const startedAt = state.activity.started_at;
-      const endedAt = lastPosition.current?.timestamp
-        ? new Date(lastPosition.current.timestamp).toISOString()
+      const lastFix = trackProcessor.current.getLastPosition();
+      const endedAt = lastFix?.timestamp
+        ? new Date(lastFix.timestamp).toISOString()
         : new Date().toISOString();
 
       await enqueueUnsyncedActivity(
@@ -1741,7 +1560,7 @@ function useLiveActivityInternal() {
           activityId: state.activity.id,
           sportTypeId: state.activity.sport_type_id,
           sportTypeName: state.activity.sport_type?.name,
-          title: state.activity.title,
+          title: finishData?.title || state.activity.title,
           startedAt,
           endedAt,
           distance: Math.round(localStatsRef.current.distance),
@@ -1753,14 +1572,22 @@ function useLiveActivityInternal() {
           pointsCount: points.length,
           location: activityLocationRef.current ?? undefined,
           lastError: errorMessage,
+          eventId: state.activity.event_id,
+          userId: state.activity.user_id,
+          gpsProfile: isLocalActivityId(state.activity.id)
+            ? (await getLocalActivity())?.gpsProfile
+            : undefined,
+          finishData,
         },
         points,
       );
+      return true;
     } catch (err) {
       logger.warn('activity', 'Failed to enqueue unsynced activity', {
         id: state.activity?.id,
         error: err,
       });
+      return false;
     }
   };
 
@@ -1770,6 +1597,9 @@ function useLiveActivityInternal() {
     description?: string;
     calories?: number;
     skip_auto_post?: boolean;
+    workout_name?: string;
+    workout_steps?: WorkoutStepResult[];
+    laps?: ActivityLap[];
   }): Promise<{ activity: Activity; post?: AutoCreatedPost; points_earned?: number } | null> => {
     if (!state.activity) return null;
 
@@ -1794,14 +1624,15 @@ function useLiveActivityInternal() {
       const finalPoints = deduplicatePoints(pointsBuffer.current);
 
       // Use last GPS timestamp as ended_at (instead of current time)
-      const endedAt = lastPosition.current?.timestamp
-        ? new Date(lastPosition.current.timestamp).toISOString()
+      const lastFix = trackProcessor.current.getLastPosition();
+      const endedAt = lastFix?.timestamp
+        ? new Date(lastFix.timestamp).toISOString()
         : new Date().toISOString();
 
       logger.activity("Using GPS timestamp for ended_at", {
         endedAt,
         difference:
-          Date.now() - (lastPosition.current?.timestamp || Date.now()),
+          Date.now() - (lastFix?.timestamp || Date.now()),
         finalPointsCount: finalPoints.length,
       });
 
@@ -1830,15 +1661,13 @@ function useLiveActivityInternal() {
 
       // Reset state and pace tracking
       localStatsRef.current = { ...initialStats };
-      lastPosition.current = null;
+      trackProcessor.current = createTrackProcessor(currentGpsProfile.current);
       pointsBuffer.current = [];
       allRoutePoints.current = [];
       pointsVersionRef.current++;
       pausedDuration.current = 0;
       trackingStartTime.current = null;
       activityLocationRef.current = null;
-      paceSegments.current = [];
-      smoothedPaceRef.current = null;
 
       setState({
         activity: null,
@@ -1878,7 +1707,7 @@ function useLiveActivityInternal() {
         await saveForegroundBuffer(pointsToSave).catch(() => {});
       }
 
-      await enqueueFailedFinish(error?.message || "Failed to finish activity");
+      await enqueueCurrentActivity(error?.message || "Failed to finish activity", data);
 
       setState((prev) => ({
         ...prev,
@@ -1897,6 +1726,9 @@ function useLiveActivityInternal() {
     description?: string;
     calories?: number;
     skip_auto_post?: boolean;
+    workout_name?: string;
+    workout_steps?: WorkoutStepResult[];
+    laps?: ActivityLap[];
   }): Promise<{ activity: Activity; post?: AutoCreatedPost; points_earned?: number } | null> => {
     if (!state.activity) return null;
 
@@ -1952,15 +1784,13 @@ function useLiveActivityInternal() {
 
       // Reset state and pace tracking
       localStatsRef.current = { ...initialStats };
-      lastPosition.current = null;
+      trackProcessor.current = createTrackProcessor(currentGpsProfile.current);
       pointsBuffer.current = [];
       allRoutePoints.current = [];
       pointsVersionRef.current++;
       pausedDuration.current = 0;
       trackingStartTime.current = null;
       activityLocationRef.current = null;
-      paceSegments.current = [];
-      smoothedPaceRef.current = null;
 
       setState({
         activity: null,
@@ -2000,7 +1830,7 @@ function useLiveActivityInternal() {
         await saveForegroundBuffer(pointsToSave).catch(() => {});
       }
 
-      await enqueueFailedFinish(error?.message || "Failed to finish activity");
+      await enqueueCurrentActivity(error?.message || "Failed to finish activity", data);
 
       setState((prev) => ({
         ...prev,
@@ -2013,6 +1843,87 @@ function useLiveActivityInternal() {
     }
   };
 
+  // Helper: Finish an activity recorded offline. The activity and its points
+  // move to the unsynced queue, which creates it on the server when possible.
+  const finishLocalActivity = async (data?: Omit<
+    FinishActivityRequest,
+    "final_points" | "ended_at" | "location"
+  >): Promise<{ activity: Activity; post?: AutoCreatedPost; points_earned?: number; savedOffline?: boolean } | null> => {
+    if (!state.activity) return null;
+    const localActivity = state.activity;
+
+    setState((prev) => ({ ...prev, isLoading: true }));
+
+    // Stop GPS — no new points arrive after this
+    await stopGpsTracking();
+
+    if (!(await enqueueCurrentActivity(undefined, data))) {
+      throw new Error("Failed to save activity on this device");
+    }
+
+    // Queued: now safe to clear buffer and persisted data
+    await clearAllPersistedPoints();
+    await clearLocalActivity();
+
+    const finishedActivity: Activity = {
+      ...localActivity,
+      ...(data?.title && { title: data.title }),
+      status: "completed",
+      ended_at: new Date().toISOString(),
+      distance: Math.round(localStatsRef.current.distance),
+      duration: localStatsRef.current.duration,
+      elevation_gain: Math.round(localStatsRef.current.elevation_gain || 0),
+      calories: localStatsRef.current.calories,
+    };
+
+    logger.activity("Local activity finished and queued for upload", {
+      localId: localActivity.id,
+      distance: finishedActivity.distance,
+      duration: finishedActivity.duration,
+    });
+
+    // Reset state and pace tracking
+    localStatsRef.current = { ...initialStats };
+    trackProcessor.current = createTrackProcessor(currentGpsProfile.current);
+    pointsBuffer.current = [];
+    allRoutePoints.current = [];
+    pointsVersionRef.current++;
+    pausedDuration.current = 0;
+    trackingStartTime.current = null;
+    activityLocationRef.current = null;
+
+    setState({
+      activity: null,
+      isTracking: false,
+      isPaused: false,
+      isLoading: false,
+      error: null,
+      currentStats: { ...initialStats },
+      hasExistingActivity: false,
+      trackingStatus: {
+        gpsSignal: "good",
+        isOnline: isOnlineRef.current,
+        pendingPoints: 0,
+        lastSyncTime: null,
+        syncError: null,
+      },
+    });
+
+    // Connection may be back already - upload right away
+    if (isOnlineRef.current) {
+      const result = await uploadUnsyncedActivity(localActivity.id, { trigger: "finish" });
+      if (result.ok) {
+        return {
+          activity: result.activity,
+          post: result.response?.post,
+          points_earned: result.response?.points_earned,
+        };
+      }
+    }
+
+    return { activity: finishedActivity, savedOffline: true };
+  };
+
   const finishTracking = useCallback(
     async (data?: {
       title?: string;
@@ -2020,7 +1931,10 @@ function useLiveActivityInternal() {
       calories?: number;
       skip_auto_post?: boolean;
       event_id?: number | null;
-    }): Promise<{ activity: Activity; post?: AutoCreatedPost; points_earned?: number } | null> => {
+      workout_name?: string;
+      workout_steps?: WorkoutStepResult[];
+      laps?: ActivityLap[];
+    }): Promise<{ activity: Activity; post?: AutoCreatedPost; points_earned?: number; savedOffline?: boolean } | null> => {
       if (!state.activity) return null;
 
       // Guard: prevent concurrent finish/discard calls
@@ -2036,8 +1950,13 @@ function useLiveActivityInternal() {
       try {
         logger.activity("Finishing activity", { id: state.activity.id });
 
+        // Recorded offline and never reached the server
+        if (isLocalActivityId(state.activity.id)) {
+          return await finishLocalActivity(data);
+        }
+
         // Check if GPS stopped a long time ago (> 2 minutes)
-        const lastGpsTimestamp = lastPosition.current?.timestamp;
+        const lastGpsTimestamp = trackProcessor.current.getLastPosition()?.timestamp;
         const now = Date.now();
 
         if (lastGpsTimestamp && now - lastGpsTimestamp > 120000) {
@@ -2145,15 +2064,13 @@ function useLiveActivityInternal() {
 
         // Reset state and pace tracking
         localStatsRef.current = { ...initialStats };
-        lastPosition.current = null;
+        trackProcessor.current = createTrackProcessor(currentGpsProfile.current);
         pointsBuffer.current = [];
         allRoutePoints.current = [];
         pointsVersionRef.current++;
         pausedDuration.current = 0;
         trackingStartTime.current = null;
         activityLocationRef.current = null;
-        paceSegments.current = [];
-        smoothedPaceRef.current = null;
 
         setState({
           activity: null,
@@ -2194,7 +2111,7 @@ function useLiveActivityInternal() {
           await saveForegroundBuffer(pointsToSave).catch(() => {});
         }
 
-        await enqueueFailedFinish(error?.message || "Failed to finish activity");
+        await enqueueCurrentActivity(error?.message || "Failed to finish activity", data);
 
         setState((prev) => ({
           ...prev,
@@ -2233,22 +2150,24 @@ function useLiveActivityInternal() {
       // Clear persisted data (discarding — no need to keep anything)
       await clearAllPersistedPoints();
 
-      // Discard on server
-      await api.discardActivity(state.activity.id);
+      // Discard on server (an activity recorded offline only exists here)
+      if (isLocalActivityId(state.activity.id)) {
+        await clearLocalActivity();
+      } else {
+        await api.discardActivity(state.activity.id);
+      }
 
       logger.activity("Activity discarded", { id: state.activity.id });
 
       // Reset state and pace tracking
       localStatsRef.current = { ...initialStats };
-      lastPosition.current = null;
+      trackProcessor.current = createTrackProcessor(currentGpsProfile.current);
       pointsBuffer.current = [];
       allRoutePoints.current = [];
       pointsVersionRef.current++;
       pausedDuration.current = 0;
       trackingStartTime.current = null;
       activityLocationRef.current = null;
-      paceSegments.current = [];
-      smoothedPaceRef.current = null;
 
       setState({
         activity: null,
@@ -2287,6 +2206,8 @@ function useLiveActivityInternal() {
     setState((prev) => ({ ...prev, error: null }));
   }, []);
 
+  const currentFix = trackProcessor.current.getLastPosition();
+
   return {
     ...state,
     startTracking,
@@ -2303,10 +2224,10 @@ function useLiveActivityInternal() {
     // (avoids O(n) array copy on every render from duration timer)
     livePoints: allRoutePoints.current,
     livePointsVersion: pointsVersionRef.current,
-    currentPosition: lastPosition.current
+    currentPosition: currentFix
       ? {
-          lat: lastPosition.current.lat,
-          lng: lastPosition.current.lng,
+          lat: currentFix.lat,
+          lng: currentFix.lng,
         }
       : null,
   };
@@ -2336,7 +2257,10 @@ interface LiveActivityContextType {
     calories?: number;
     skip_auto_post?: boolean;
     event_id?: number | null;
-  }) => Promise<{ activity: Activity; post?: AutoCreatedPost; points_earned?: number } | null>;
+    workout_name?: string;
+    workout_steps?: WorkoutStepResult[];
+    laps?: ActivityLap[];
+  }) => Promise<{ activity: Activity; post?: AutoCreatedPost; points_earned?: number; savedOffline?: boolean } | null>;
   discardTracking: () => Promise<void>;
   clearError: () => void;
   checkExistingActivity: () => Promise<void>;
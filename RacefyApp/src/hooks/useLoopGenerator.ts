@@ -0,0 +1,103 @@
+import { useState, useCallback, useRef } from 'react';
+import { api } from '../services/api';
+import { logger } from '../services/logger';
+import { loopHeadings, loopWaypoints } from '../utils/loopGenerator';
+import { LOOP_CANDIDATE_COUNT, LOOP_DISTANCE_TOLERANCE } from '../constants/navigation';
+import type { RoutePreviewResponse, RouteWaypoint } from '../types/api';
+
+export interface LoopCandidate {
+  id: string;
+  /** Direction the loop sets off in (0-360) */
+  heading: number;
+  waypoints: RouteWaypoint[];
+  preview: RoutePreviewResponse;
+}
+
+/** Rotation between one set of candidates and the next */
+const ROTATE_STEP_DEG = 360 / LOOP_CANDIDATE_COUNT / 2;
+
+/**
+ * Round-trip loops for the route planner: sketches LOOP_CANDIDATE_COUNT
+ * circles through the start in different directions and routes each with
+ * previewRoute. A loop that misses the target distance by more than
+ * LOOP_DISTANCE_TOLERANCE is re-scaled and routed once more.
+ */
+export function useLoopGenerator() {
+  const [candidates, setCandidates] = useState<LoopCandidate[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+  const offsetRef = useRef(0);
+
+  const routeLoop = async (
+    start: { lat: number; lng: number },
+    distance: number,
+    heading: number,
+    profile: 'walking' | 'cycling'
+  ): Promise<LoopCandidate> => {
+    let waypoints = loopWaypoints(start, distance, heading);
+    let preview = await api.previewRoute({ waypoints, profile });
+
+    const ratio = preview.distance / distance;
+    if (ratio > 0 && Math.abs(ratio - 1) > LOOP_DISTANCE_TOLERANCE) {
+      waypoints = loopWaypoints(start, distance, heading, 1 / ratio);
+      preview = await api.previewRoute({ waypoints, profile });
+    }
+
+    return { id: `loop-${heading}`, heading, waypoints, preview };
+  };
+
+  /**
+   * Generate candidates around `start`. `rotate` turns the directions so
+   * the user gets a different set for the same start and distance.
+   */
+  const generate = useCallback(async (
+    start: { lat: number; lng: number },
+    distance: number,
+    profile: 'walking' | 'cycling',
+    rotate: boolean = false
+  ) => {
+    const requestId = ++requestIdRef.current;
+    if (rotate) offsetRef.current = (offsetRef.current + ROTATE_STEP_DEG) % 360;
+
+    setIsGenerating(true);
+    setError(null);
+    setCandidates([]);
+
+    const headings = loopHeadings(LOOP_CANDIDATE_COUNT, offsetRef.current);
+    const results = await Promise.allSettled(
+      headings.map((heading) => routeLoop(start, distance, heading, profile))
+    );
+    if (requestId !== requestIdRef.current) return;
+
+    const loops = results
+      .flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []))
+      .sort((a, b) => Math.abs(a.preview.distance - distance) - Math.abs(b.preview.distance - distance));
+
+    logger.info('api', 'Loop candidates generated', {
+      distance,
+      profile,
+      candidates: loops.map((loop) => Math.round(loop.preview.distance)),
+    });
+    if (loops.length === 0) {
+      setError('Failed to generate loops');
+    }
+    setCandidates(loops);
+    setIsGenerating(false);
+  }, []);
+
+  const clear = useCallback(() => {
+    requestIdRef.current++;
+    setCandidates([]);
+    setIsGenerating(false);
+    setError(null);
+  }, []);
+
+  return {
+    candidates,
+    isGenerating,
+    error,
+    generate,
+    clear,
+  };
+}
@@ -1,114 +1,479 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { api } from '../services/api';
+import {
+  isUnsentMessage,
+  loadChatSnapshot,
+  saveChatSnapshot,
+} from '../services/chatStore';
 import { logger } from '../services/logger';
+import { createOptimisticId } from '../services/mutationOutbox';
+import { sendTyping, subscribeConversation } from '../services/realtime/client';
 import { emitRefresh } from '../services/refreshEvents';
-import type { Message } from '../types/api';
+import type {
+  Event,
+  MediaItem,
+  Message,
+  MessageEventPreview,
+  MessageReaction,
+  MessageReplyPreview,
+  MessageRoutePreview,
+  PlannedRoute,
+  SendMessageRequest,
+} from '../types/api';
+import { useAuth } from './useAuth';
+import { useRealtimeEvent, useRealtimeResync } from './useRealtime';
+
+/** Messages per history request */
+const HISTORY_PAGE_SIZE = 30;
+/** Coalesce bursts of changes into one write to the chat store */
+const PERSIST_DEBOUNCE_MS = 500;
+/** Re-announce typing at most this often while the user keeps typing */
+const TYPING_THROTTLE_MS = 3000;
+/** Typing stops this long after the last keystroke */
+const TYPING_IDLE_MS = 4000;
+/** Drop someone's typing indicator if no update arrives (missed "stopped" event) */
+const TYPING_EXPIRY_MS = 6000;
+
+/** What the composer sends: text, a photo (optionally captioned), or a shared route / event */
+export interface MessageDraft {
+  content?: string;
+  photo?: MediaItem;
+  route?: PlannedRoute;
+  event?: Event;
+  replyTo?: Message | null;
+}
+
+function createClientId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function toRoutePreview(route: PlannedRoute): MessageRoutePreview {
+  return {
+    id: route.id,
+    title: route.title,
+    distance: route.distance,
+    elevation_gain: route.elevation_gain,
+    sport_type: route.sport_type
+      ? { id: route.sport_type.id, name: route.sport_type.name, icon: route.sport_type.icon }
+      : null,
+    route_preview_url: null,
+  };
+}
+
+function toEventPreview(event: Event): MessageEventPreview {
+  return {
+    id: event.id,
+    title: event.post?.title ?? null,
+    location_name: event.location_name,
+    starts_at: event.starts_at,
+    status: event.status,
+    sport_type: event.sport_type
+      ? { id: event.sport_type.id, name: event.sport_type.name, icon: event.sport_type.icon }
+      : null,
+    cover_image_url: event.cover_image_url,
+  };
+}
+
+function toReplyPreview(message: Message): MessageReplyPreview {
+  return { id: message.id, sender: message.sender, type: message.type, content: message.content };
+}
+
+/** Rebuild the API request from an optimistic message (first send and retries) */
+function toSendRequest(message: Message): SendMessageRequest {
+  const request: SendMessageRequest = {
+    content: message.content ?? undefined,
+    reply_to_id: message.reply_to?.id,
+    client_id: message.client_id ?? undefined,
+  };
+  if (message.type === 'photo' && message.photo) {
+    request.photo = {
+      uri: message.photo.url,
+      type: 'image',
+      width: message.photo.width ?? undefined,
+      height: message.photo.height ?? undefined,
+    };
+  } else if (message.type === 'route' && message.route) {
+    request.type = 'route';
+    request.route_id = message.route.id;
+  } else if (message.type === 'event' && message.event) {
+    request.type = 'event';
+    request.event_id = message.event.id;
+  }
+  return request;
+}
+
+/** Delivered messages by ID, then unsent ones in the order they were written */
+function orderMessages(messages: Message[]): Message[] {
+  const sent = messages.filter((m) => !isUnsentMessage(m)).sort((a, b) => a.id - b.id);
+  const unsent = messages
+    .filter(isUnsentMessage)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return [...sent, ...unsent];
+}
+
+/**
+ * Merge messages into the list. A message matches an existing one by server
+ * ID or by client ID (optimistic bubble ↔ stored message); the incoming copy
+ * wins unless it would turn a delivered message back into an unsent one.
+ */
+function mergeMessages(current: Message[], incoming: Message[]): Message[] {
+  if (incoming.length === 0) return current;
+  const result = [...current];
+  for (const message of incoming) {
+    const index = result.findIndex(
+      (existing) =>
+        (message.id > 0 && existing.id === message.id) ||
+        (!!message.client_id && existing.client_id === message.client_id)
+    );
+    if (index === -1) {
+      result.push(message);
+    } else if (!(isUnsentMessage(message) && !isUnsentMessage(result[index]))) {
+      result[index] = message;
+    }
+  }
+  return orderMessages(result);
+}
+
+function oldestServerId(messages: Message[]): number | null {
+  const sent = messages.find((m) => !isUnsentMessage(m) && m.id > 0);
+  return sent ? sent.id : null;
+}
+
+function newestServerId(messages: Message[]): number | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (!isUnsentMessage(messages[i]) && messages[i].id > 0) return messages[i].id;
+  }
+  return null;
+}
 
 export function useMessages(conversationId: number) {
+  const { user } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isSending, setIsSending] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [hasMoreOlder, setHasMoreOlder] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastMessageIdRef = useRef<number | null>(null);
+  const [typingUserIds, setTypingUserIds] = useState<number[]>([]);
+  /** Highest message ID another participant has read (read receipts) */
+  const [readUpToId, setReadUpToId] = useState<number | null>(null);
+
+  // Latest list for callbacks that decide before updating state
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
+  const isHydratedRef = useRef(false);
+  const isLoadingOlderRef = useRef(false);
+  const typingExpiryRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+  const lastTypingSentRef = useRef(0);
+  const typingIdleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Fetch messages (API returns oldest first for chat display)
+  const markAsRead = useCallback(() => {
+    api.markConversationAsRead(conversationId).catch(() => {
+      // Ignore errors for marking as read
+    });
+    // Emit refresh event so badge updates immediately
+    emitRefresh('messages');
+  }, [conversationId]);
+
+  // Newest page from the API, merged over what we already show
   const fetchMessages = useCallback(async () => {
     try {
       setError(null);
-      const response = await api.getMessages(conversationId);
-      setMessages(response.data);
+      const response = await api.getMessageHistory(conversationId, { perPage: HISTORY_PAGE_SIZE });
+      const page = [...response.data].reverse();
+      const current = messagesRef.current;
+      const newestKnown = newestServerId(current);
+      const oldestFetched = page.length > 0 ? page[0].id : null;
 
-      if (response.data.length > 0) {
-        lastMessageIdRef.current = response.data[response.data.length - 1].id;
+      if (
+        newestKnown !== null &&
+        oldestFetched !== null &&
+        oldestFetched > newestKnown &&
+        response.meta.has_more
+      ) {
+        // More than a page arrived since the stored history: drop it rather than leave a gap
+        setMessages(mergeMessages(current.filter(isUnsentMessage), page));
+        setHasMoreOlder(true);
+      } else {
+        setMessages((prev) => mergeMessages(prev, page));
+        if (newestKnown === null) setHasMoreOlder(response.meta.has_more);
       }
-
-      // Mark conversation as read
-      api.markConversationAsRead(conversationId).catch(() => {
-        // Ignore errors for marking as read
-      });
-      // Emit refresh event so badge updates immediately
-      emitRefresh('messages');
+      markAsRead();
     } catch (err) {
       logger.error('api', 'Failed to fetch messages', { error: err });
       setError('Failed to load messages');
     } finally {
       setIsLoading(false);
     }
+  }, [conversationId, markAsRead]);
+
+  /** Infinite scroll backward through history */
+  const loadOlder = useCallback(async () => {
+    const beforeId = oldestServerId(messagesRef.current);
+    if (!hasMoreOlder || beforeId === null || isLoadingOlderRef.current) return;
+
+    isLoadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const response = await api.getMessageHistory(conversationId, {
+        beforeId,
+        perPage: HISTORY_PAGE_SIZE,
+      });
+      setMessages((prev) => mergeMessages(prev, response.data));
+      setHasMoreOlder(response.meta.has_more);
+    } catch (err) {
+      logger.warn('api', 'Failed to load older messages', { conversationId, error: err });
+    } finally {
+      isLoadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [conversationId, hasMoreOlder]);
+
+  const stopTyping = useCallback(() => {
+    if (typingIdleRef.current) {
+      clearTimeout(typingIdleRef.current);
+      typingIdleRef.current = null;
+    }
+    if (lastTypingSentRef.current > 0) {
+      lastTypingSentRef.current = 0;
+      sendTyping(conversationId, false);
+    }
   }, [conversationId]);
 
-  // Send message
-  const sendMessage = useCallback(
-    async (content: string) => {
-      if (!content.trim()) return false;
+  /** Call on every input change; sends throttled typing updates */
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      sendTyping(conversationId, true);
+    }
+    if (typingIdleRef.current) clearTimeout(typingIdleRef.current);
+    typingIdleRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [conversationId, stopTyping]);
 
-      setIsSending(true);
+  const deliver = useCallback(
+    async (message: Message) => {
       try {
-        const response = await api.sendMessage(conversationId, content.trim());
-        setMessages((prev) => [...prev, response.data]);
-        lastMessageIdRef.current = response.data.id;
+        const response = await api.sendMessage(conversationId, toSendRequest(message));
+        setMessages((prev) =>
+          mergeMessages(prev, [
+            { ...response.data, client_id: message.client_id, is_own: true, delivery_state: 'sent' },
+          ])
+        );
         return true;
       } catch (err) {
         logger.error('api', 'Failed to send message', { error: err });
-        setError('Failed to send message');
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.client_id === message.client_id && m.delivery_state === 'pending'
+              ? { ...m, delivery_state: 'failed' }
+              : m
+          )
+        );
         return false;
-      } finally {
-        setIsSending(false);
       }
     },
     [conversationId]
   );
 
-  // Poll for new messages
-  const pollForNewMessages = useCallback(async () => {
-    try {
-      const response = await api.getMessages(conversationId);
-      const fetchedMessages = response.data;
-
-      if (fetchedMessages.length > 0) {
-        const latestMessageId = fetchedMessages[fetchedMessages.length - 1].id;
-
-        // Only update if there are new messages
-        if (latestMessageId !== lastMessageIdRef.current) {
-          setMessages(fetchedMessages);
-          lastMessageIdRef.current = latestMessageId;
-
-          // Mark as read if there are new messages from others
-          const hasNewFromOthers = fetchedMessages.some(
-            (m) => !m.is_own && m.id > (lastMessageIdRef.current || 0)
-          );
-          if (hasNewFromOthers) {
-            api.markConversationAsRead(conversationId).catch(() => {});
-            // Emit refresh event so badge updates immediately
-            emitRefresh('messages');
-          }
-        }
+  // Optimistic send: the bubble shows right away as pending
+  const sendMessage = useCallback(
+    async (draft: MessageDraft) => {
+      const text = draft.content?.trim() || null;
+      if (!user || (!text && !draft.photo && !draft.route && !draft.event)) return false;
+
+      stopTyping();
+      const optimistic: Message = {
+        id: createOptimisticId(),
+        conversation_id: conversationId,
+        sender: { id: user.id, name: user.name, username: user.username, avatar: user.avatar ?? null },
+        content: text,
+        type: draft.photo ? 'photo' : draft.route ? 'route' : draft.event ? 'event' : 'text',
+        photo: draft.photo
+          ? {
+              url: draft.photo.uri,
+              thumbnail_url: null,
+              width: draft.photo.width ?? null,
+              height: draft.photo.height ?? null,
+            }
+          : undefined,
+        route: draft.route ? toRoutePreview(draft.route) : undefined,
+        event: draft.event ? toEventPreview(draft.event) : undefined,
+        reply_to: draft.replyTo && draft.replyTo.id > 0 ? toReplyPreview(draft.replyTo) : null,
+        is_own: true,
+        created_at: new Date().toISOString(),
+        client_id: createClientId(),
+        delivery_state: 'pending',
+      };
+      setMessages((prev) => mergeMessages(prev, [optimistic]));
+      return deliver(optimistic);
+    },
+    [conversationId, user, stopTyping, deliver]
+  );
+
+  /** Tap-to-retry on a failed bubble */
+  const retryMessage = useCallback(
+    async (clientId: string) => {
+      const message = messagesRef.current.find(
+        (m) => m.client_id === clientId && m.delivery_state === 'failed'
+      );
+      if (!message) return false;
+      const pending: Message = { ...message, delivery_state: 'pending' };
+      setMessages((prev) => prev.map((m) => (m.client_id === clientId ? pending : m)));
+      return deliver(pending);
+    },
+    [deliver]
+  );
+
+  const discardMessage = useCallback((clientId: string) => {
+    setMessages((prev) =>
+      prev.filter((m) => !(m.client_id === clientId && m.delivery_state === 'failed'))
+    );
+  }, []);
+
+  const setReactions = useCallback((messageId: number, reactions: MessageReaction[]) => {
+    setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, reactions } : m)));
+  }, []);
+
+  /** Add the user's reaction, or take it back if they already reacted with this emoji */
+  const toggleReaction = useCallback(
+    async (messageId: number, emoji: string) => {
+      const message = messagesRef.current.find((m) => m.id === messageId);
+      if (!message || messageId <= 0 || !user) return;
+
+      const previous = message.reactions ?? [];
+      const existing = previous.find((r) => r.emoji === emoji);
+      const isRemoving = !!existing?.user_ids.includes(user.id);
+      const optimistic = isRemoving
+        ? previous
+            .map((r) =>
+              r.emoji === emoji
+                ? { ...r, count: r.count - 1, user_ids: r.user_ids.filter((id) => id !== user.id) }
+                : r
+            )
+            .filter((r) => r.count > 0)
+        : existing
+          ? previous.map((r) =>
+              r.emoji === emoji ? { ...r, count: r.count + 1, user_ids: [...r.user_ids, user.id] } : r
+            )
+          : [...previous, { emoji, count: 1, user_ids: [user.id] }];
+      setReactions(messageId, optimistic);
+
+      try {
+        const reactions = isRemoving
+          ? await api.removeMessageReaction(conversationId, messageId, emoji)
+          : await api.addMessageReaction(conversationId, messageId, emoji);
+        setReactions(messageId, reactions);
+      } catch (err) {
+        logger.warn('api', 'Failed to update reaction', { conversationId, messageId, error: err });
+        setReactions(messageId, previous);
       }
-    } catch (err) {
-      logger.warn('api', 'Message polling error', { error: err });
+    },
+    [conversationId, user, setReactions]
+  );
+
+  const setUserTyping = useCallback((userId: number, isTyping: boolean) => {
+    const timers = typingExpiryRef.current;
+    const existing = timers.get(userId);
+    if (existing) clearTimeout(existing);
+    timers.delete(userId);
+
+    if (isTyping) {
+      timers.set(userId, setTimeout(() => setUserTyping(userId, false), TYPING_EXPIRY_MS));
     }
-  }, [conversationId]);
+    setTypingUserIds((prev) => {
+      const without = prev.filter((id) => id !== userId);
+      return isTyping ? [...without, userId] : without;
+    });
+  }, []);
 
-  // Initial fetch and polling setup
+  useRealtimeEvent('message.created', (event) => {
+    if (event.conversationId !== conversationId) return;
+    const isOwn = event.message.is_own || event.message.sender.id === user?.id;
+    setMessages((prev) =>
+      mergeMessages(prev, [
+        { ...event.message, is_own: isOwn, delivery_state: isOwn ? 'sent' : undefined },
+      ])
+    );
+    if (!isOwn) {
+      setUserTyping(event.message.sender.id, false);
+      markAsRead();
+    }
+  });
+
+  useRealtimeEvent('message.read', (event) => {
+    if (event.conversationId !== conversationId || event.userId === user?.id) return;
+    setReadUpToId((prev) => Math.max(prev ?? 0, event.lastReadMessageId));
+  });
+
+  useRealtimeEvent('message.reactions', (event) => {
+    if (event.conversationId !== conversationId) return;
+    setReactions(event.messageId, event.reactions);
+  });
+
+  useRealtimeEvent('typing', (event) => {
+    if (event.conversationId !== conversationId || event.userId === user?.id) return;
+    setUserTyping(event.userId, event.isTyping);
+  });
+
+  // Events sent while disconnected are lost — catch up from the API
+  useRealtimeResync(fetchMessages);
+
+  // Stored history first (instant, works offline), then the newest page
   useEffect(() => {
-    fetchMessages();
+    let cancelled = false;
+    isHydratedRef.current = false;
+    setMessages([]);
+    setHasMoreOlder(false);
+    setReadUpToId(null);
+    setTypingUserIds([]);
+    setIsLoading(true);
 
-    // Poll for new messages every 5 seconds
-    pollIntervalRef.current = setInterval(pollForNewMessages, 5000);
+    loadChatSnapshot(conversationId).then((snapshot) => {
+      if (cancelled) return;
+      if (snapshot) {
+        setMessages((prev) => mergeMessages(snapshot.messages, prev));
+        setHasMoreOlder(snapshot.hasMoreOlder);
+        setIsLoading(false);
+      }
+      isHydratedRef.current = true;
+      fetchMessages();
+    });
+    const unsubscribe = subscribeConversation(conversationId);
+    const typingTimers = typingExpiryRef.current;
 
     return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current);
-      }
+      cancelled = true;
+      unsubscribe();
+      stopTyping();
+      typingTimers.forEach(clearTimeout);
+      typingTimers.clear();
     };
-  }, [conversationId, fetchMessages, pollForNewMessages]);
+  }, [conversationId, fetchMessages, stopTyping]);
+
+  // Persist after changes (not before the snapshot was read, or it would be overwritten)
+  useEffect(() => {
+    if (!isHydratedRef.current) return;
+    const timeout = setTimeout(
+      () => saveChatSnapshot(conversationId, messages, hasMoreOlder),
+      PERSIST_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [conversationId, messages, hasMoreOlder]);
 
   return {
     messages,
     isLoading,
-    isSending,
+    isLoadingOlder,
+    hasMoreOlder,
     error,
+    typingUserIds,
+    readUpToId,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    toggleReaction,
+    loadOlder,
+    notifyTyping,
     refresh: fetchMessages,
   };
 }
@@ -0,0 +1,125 @@
+import {useCallback, useEffect, useState} from 'react';
+import {Alert, AppState, AppStateStatus, DeviceEventEmitter} from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import {useTranslation} from 'react-i18next';
+import {logger} from '../services/logger';
+import {
+  countOutbox,
+  flushOutbox,
+  OUTBOX_CHANGED_EVENT,
+  OUTBOX_REJECTED_EVENT,
+  setOutboxOwner,
+  type OutboxRejection,
+} from '../services/mutationOutbox';
+
+/** Retry delay after a replay pass stopped on a network / server error */
+const RETRY_DELAY_MS = 60 * 1000;
+
+// Lightweight count-only hook (network banner, settings).
+export function useOutboxCount(): number {
+  const [count, setCount] = useState(0);
+
+  const refresh = useCallback(() => {
+    countOutbox().then(setCount).catch(() => setCount(0));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const sub = DeviceEventEmitter.addListener(OUTBOX_CHANGED_EVENT, refresh);
+    return () => sub.remove();
+  }, [refresh]);
+
+  return count;
+}
+
+/**
+ * Replay worker for the mutation outbox. Mounted once at the app root with
+ * the signed-in user's ID (null when signed out), which it sets as the
+ * outbox owner: flushes when connectivity returns, when the app comes to the
+ * foreground and whenever something is queued while online, and tells the
+ * user when the server rejects a queued change.
+ */
+export function useOutboxWorker(userId: number | null): void {
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    setOutboxOwner(userId);
+    if (userId === null) return;
+
+    let isActive = true;
+    let isRunning = false;
+    let isOnline = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearTimer = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    };
+
+    const run = async () => {
+      if (!isActive || !isOnline || isRunning) return;
+      isRunning = true;
+      clearTimer();
+      try {
+        await flushOutbox();
+      } catch (err) {
+        logger.warn('api', 'Outbox worker pass failed', { error: err });
+      } finally {
+        isRunning = false;
+      }
+      // Something is still queued: the pass stopped on a transient error
+      const remaining = await countOutbox().catch(() => 0);
+      if (isActive && remaining > 0 && AppState.currentState === 'active') {
+        timer = setTimeout(run, RETRY_DELAY_MS);
+      }
+    };
+
+    NetInfo.fetch().then((state) => {
+      isOnline = state.isConnected ?? true;
+      run();
+    });
+
+    const appSub = AppState.addEventListener('change', (next: AppStateStatus) => {
+      if (next === 'active') {
+        run();
+      } else {
+        clearTimer();
+      }
+    });
+    const netUnsubscribe = NetInfo.addEventListener((state) => {
+      const wasOnline = isOnline;
+      isOnline = state.isConnected ?? true;
+      if (!wasOnline && isOnline) {
+        run();
+      } else if (!isOnline) {
+        clearTimer();
+      }
+    });
+    const changedSub = DeviceEventEmitter.addListener(OUTBOX_CHANGED_EVENT, () => {
+      if (!isRunning && !timer) run();
+    });
+    const rejectedSub = DeviceEventEmitter.addListener(
+      OUTBOX_REJECTED_EVENT,
+      (rejection: OutboxRejection) => {
+        Alert.alert(
+          t('outbox.rejectedTitle'),
+          t(`outbox.rejected.${rejection.entry.mutation.type}`, {
+            defaultValue: t('outbox.rejected.default'),
+          }),
+        );
+      },
+    );
+
+    return () => {
+      isActive = false;
+      clearTimer();
+      appSub.remove();
+      netUnsubscribe();
+      changedSub.remove();
+      rejectedSub.remove();
+      setOutboxOwner(null);
+    };
+  }, [userId, t]);
+}
@@ -1,10 +1,37 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { api } from '../services/api';
 import { logger } from '../services/logger';
-import type { NearbyRoute, User } from '../types/api';
+import { useOfflineRoutes } from './useOfflineRoutes';
+import type { NearbyRoute, PlannedRoute, User } from '../types/api';
 
+function toNearbyRoute(r: PlannedRoute, user: User | null): NearbyRoute {
+  return {
+    id: r.id,
+    title: r.title,
+    distance: r.distance,
+    elevation_gain: r.elevation_gain,
+    duration: r.estimated_duration,
+    sport_type_id: r.sport_type_id,
+    user: {
+      id: r.user?.id ?? user?.id ?? r.user_id,
+      name: r.user?.name ?? user?.name ?? '',
+      username: r.user?.username ?? user?.username ?? '',
+      avatar: r.user?.avatar ?? (user as any)?.avatar ?? '',
+    },
+    distance_from_user: 0,
+    stats: { likes_count: 0, completion_count: 0 },
+    track_data: r.geometry,
+    created_at: r.created_at,
+  } as unknown as NearbyRoute;
+}
+
+/**
+ * The user's planned routes plus any routes downloaded for offline use, so
+ * a downloaded route can be picked for navigation without signal.
+ */
 export function useMyPlannedRoutes(isAuthenticated: boolean, user: User | null): NearbyRoute[] {
   const [myRoutes, setMyRoutes] = useState<NearbyRoute[]>([]);
+  const { packs: offlinePacks } = useOfflineRoutes();
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -16,25 +43,7 @@ export function useMyPlannedRoutes(isAuthenticated: boolean, user: User | null):
       try {
         const response = await api.getRoutes({ page: 1, per_page: 50 });
         if (cancelled) return;
-        const converted: NearbyRoute[] = response.data.map((r) => ({
-          id: r.id,
-          title: r.title,
-          distance: r.distance,
-          elevation_gain: r.elevation_gain,
-          duration: r.estimated_duration,
-          sport_type_id: r.sport_type_id,
-          user: {
-            id: user?.id ?? r.user_id,
-            name: user?.name ?? '',
-            username: user?.username ?? '',
-            avatar: (user as any)?.avatar ?? '',
-          },
-          distance_from_user: 0,
-          stats: { likes_count: 0, completion_count: 0 },
-          track_data: r.geometry,
-          created_at: r.created_at,
-        } as unknown as NearbyRoute));
-        setMyRoutes(converted);
+        setMyRoutes(response.data.map((r) => toNearbyRoute(r, user)));
       } catch (err) {
         logger.debug('api', 'Failed to fetch my planned routes', { error: err });
       }
@@ -42,5 +51,12 @@ export function useMyPlannedRoutes(isAuthenticated: boolean, user: User | null):
     return () => { cancelled = true; };
   }, [isAuthenticated, user?.id]);
 
-  return myRoutes;
-}
\ No newline at end of file
+  return useMemo(() => {
+    if (!isAuthenticated) return myRoutes;
+    const fetchedIds = new Set(myRoutes.map((r) => r.id));
+    const offlineOnly = offlinePacks
+      .filter((pack) => !fetchedIds.has(pack.route.id))
+      .map((pack) => toNearbyRoute(pack.route, user));
+    return offlineOnly.length > 0 ? [...myRoutes, ...offlineOnly] : myRoutes;
+  }, [isAuthenticated, myRoutes, offlinePacks, user]);
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+import {
+  OFFLINE_ROUTES_CHANGED_EVENT,
+  getOfflineRoutes,
+  type OfflineRoutePack,
+} from '../services/offlineRoutes';
+
+/**
+ * Routes downloaded for offline use, kept in sync with downloads and
+ * deletions made anywhere in the app.
+ */
+export function useOfflineRoutes(): { packs: OfflineRoutePack[]; isLoading: boolean } {
+  const [packs, setPacks] = useState<OfflineRoutePack[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    getOfflineRoutes().then((stored) => {
+      if (cancelled) return;
+      setPacks(stored);
+      setIsLoading(false);
+    });
+    const subscription = DeviceEventEmitter.addListener(
+      OFFLINE_ROUTES_CHANGED_EVENT,
+      (next: OfflineRoutePack[]) => {
+        if (!cancelled) setPacks(next);
+      }
+    );
+    return () => {
+      cancelled = true;
+      subscription.remove();
+    };
+  }, []);
+
+  return { packs, isLoading };
+}
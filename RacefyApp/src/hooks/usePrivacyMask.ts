@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+import {
+  PRIVACY_ZONES_CHANGED_EVENT,
+  getCachedPrivacyMask,
+  getPrivacyMask,
+} from '../services/privacyZones';
+import { EMPTY_PRIVACY_MASK, type PrivacyMask } from '../utils/privacyMask';
+import { useAuth } from './useAuth';
+
+/**
+ * The user's privacy zones and start/end trim for on-device masking (live
+ * map). Starts from the stored copy so it works offline, refreshes from the
+ * API once per mount and follows edits made in settings.
+ */
+export function usePrivacyMask(enabled = true): PrivacyMask {
+  const { isAuthenticated } = useAuth();
+  const [mask, setMask] = useState<PrivacyMask>(EMPTY_PRIVACY_MASK);
+  const isActive = enabled && isAuthenticated;
+
+  useEffect(() => {
+    if (!isActive) {
+      setMask(EMPTY_PRIVACY_MASK);
+      return;
+    }
+    let cancelled = false;
+    getCachedPrivacyMask().then((cached) => {
+      if (!cancelled && cached) setMask(cached);
+      // Fresh mask arrives through the changed event
+      getPrivacyMask();
+    });
+    const subscription = DeviceEventEmitter.addListener(
+      PRIVACY_ZONES_CHANGED_EVENT,
+      (next: PrivacyMask) => {
+        if (!cancelled) setMask(next);
+      }
+    );
+    return () => {
+      cancelled = true;
+      subscription.remove();
+    };
+  }, [isActive]);
+
+  return mask;
+}
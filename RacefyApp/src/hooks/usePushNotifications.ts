@@ -3,6 +3,7 @@ import * as Notifications from 'expo-notifications';
 import { type EventSubscription } from 'expo-modules-core';
 import { NavigationContainerRefWithCurrent, ParamListBase } from '@react-navigation/native';
 import { pushNotificationService } from '../services/pushNotifications';
+import { openDeepLink } from '../navigation/linking';
 import { logger } from '../services/logger';
 import type { RootStackParamList } from '../navigation/types';
 import type { PushNotificationData, NotificationType } from '../types/api';
@@ -107,7 +108,7 @@ export function usePushNotifications(
 
       // PRIORITY 1: Use backend-provided URL if available
       if (url) {
-        const navigated = navigateFromUrl(url, navigation);
+        const navigated = openDeepLink(navigation, url);
         if (navigated) {
           return;
         }
@@ -244,76 +245,6 @@ export function usePushNotifications(
     [navigationRef]
   );
 
-  /**
-   * Navigate based on backend-provided URL
-   * Returns true if navigation succeeded, false otherwise
-   */
-  const navigateFromUrl = (url: string, navigation: any): boolean => {
-    try {
-      // Profile: /@username
-      if (url.match(/^\/@[\w-]+$/)) {
-        const username = url.substring(2);
-        navigation.navigate('UserProfile', { username });
-        return true;
-      }
-
-      // Post: /posts/{id}
-      const postMatch = url.match(/^\/posts\/(\d+)$/);
-      if (postMatch) {
-        navigation.navigate('PostDetail', { postId: parseInt(postMatch[1]) });
-        return true;
-      }
-
-      // Activity: /activities/{id}
-      const activityMatch = url.match(/^\/activities\/(\d+)$/);
-      if (activityMatch) {
-        navigation.navigate('ActivityDetail', { activityId: parseInt(activityMatch[1]) });
-        return true;
-      }
-
-      // Event: /events/{id}
-      const eventMatch = url.match(/^\/events\/(\d+)$/);
-      if (eventMatch) {
-        navigation.navigate('EventDetail', { eventId: parseInt(eventMatch[1]) });
-        return true;
-      }
-
-      // Goal: /goals/{id} or /goals
-      const goalMatch = url.match(/^\/goals\/(\d+)$/);
-      if (goalMatch) {
-        navigation.navigate('GoalDetail', { goalId: parseInt(goalMatch[1]) });
-        return true;
-      }
-      if (url === '/goals') {
-        navigation.navigate('Goals');
-        return true;
-      }
-
-      // Messages: /messages?conversation={id} or /messages/{id}
-      const messagesQueryMatch = url.match(/^\/messages\?(?:.*&)?conversation=(\d+)/);
-      const messagesPathMatch = url.match(/^\/messages\/(\d+)$/);
-      const conversationIdFromUrl = messagesQueryMatch
-        ? parseInt(messagesQueryMatch[1])
-        : messagesPathMatch
-          ? parseInt(messagesPathMatch[1])
-          : null;
-      if (conversationIdFromUrl) {
-        navigation.navigate('Chat', { conversationId: conversationIdFromUrl });
-        return true;
-      }
-      if (url.startsWith('/messages')) {
-        navigation.navigate('ConversationsList');
-        return true;
-      }
-
-      logger.warn('general', 'Unknown URL pattern', { url });
-      return false;
-    } catch (error) {
-      logger.error('general', 'Error parsing notification URL', { url, error });
-      return false;
-    }
-  };
-
   // Stable ref to the latest handleNotificationNavigation — avoids recreating listeners
   // when the callback identity changes (e.g. after auth state update)
   const handleNotificationNavigationRef = useRef(handleNotificationNavigation);
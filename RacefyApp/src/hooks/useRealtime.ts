@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  addRealtimeListener,
+  addRealtimeStateListener,
+  getRealtimeState,
+  reconnectRealtimeNow,
+  startRealtime,
+  stopRealtime,
+} from '../services/realtime/client';
+import type {
+  RealtimeConnectionState,
+  RealtimeEventOf,
+  RealtimeEventType,
+} from '../types/realtime';
+
+/**
+ * Owns the realtime connection. Mounted once at the app root: connected while
+ * signed in and in the foreground, reconnects right away when the network
+ * comes back.
+ */
+export function useRealtimeConnection(enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (AppState.currentState === 'active') startRealtime();
+
+    const appSub = AppState.addEventListener('change', (next: AppStateStatus) => {
+      if (next === 'active') {
+        startRealtime();
+      } else if (next === 'background') {
+        stopRealtime();
+      }
+    });
+
+    let isOnline = true;
+    const netUnsubscribe = NetInfo.addEventListener((netState) => {
+      const wasOnline = isOnline;
+      isOnline = netState.isConnected ?? true;
+      if (!wasOnline && isOnline) reconnectRealtimeNow();
+    });
+
+    return () => {
+      appSub.remove();
+      netUnsubscribe();
+      stopRealtime();
+    };
+  }, [enabled]);
+}
+
+/** Call `handler` for every realtime event of `type` while mounted */
+export function useRealtimeEvent<T extends RealtimeEventType>(
+  type: T,
+  handler: (event: RealtimeEventOf<T>) => void,
+): void {
+  // Latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return addRealtimeListener(type, (event) => handlerRef.current(event));
+  }, [type]);
+}
+
+export function useRealtimeState(): RealtimeConnectionState {
+  const [state, setState] = useState<RealtimeConnectionState>(getRealtimeState);
+
+  useEffect(() => {
+    setState(getRealtimeState());
+    return addRealtimeStateListener(setState);
+  }, []);
+
+  return state;
+}
+
+/**
+ * Calls `onResync` when the connection comes back to `connected` after having
+ * been lost — events sent in between were missed, so the caller refetches.
+ */
+export function useRealtimeResync(onResync: () => void): void {
+  const callbackRef = useRef(onResync);
+  callbackRef.current = onResync;
+
+  useEffect(() => {
+    let previous = getRealtimeState();
+    return addRealtimeStateListener((next) => {
+      if (next === 'connected' && previous !== 'connected' && previous !== 'disconnected') {
+        callbackRef.current();
+      }
+      previous = next;
+    });
+  }, []);
+}
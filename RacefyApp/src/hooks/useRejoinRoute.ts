@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { api } from '../services/api';
+import { logger } from '../services/logger';
+import { buildRejoinCue } from '../services/audioCoach/templates';
+import { useAudioCue } from './useAudioCue';
+import {
+  bearing,
+  haversine,
+  nearestPointAhead,
+  nearestPointOnRoute,
+  routeTotalDistance,
+} from '../utils/routeNavigation';
+import { OFF_ROUTE_ALERT_M, REJOIN_RETRY_INTERVAL_MS } from '../constants/navigation';
+import type { AudioCoachSettings } from '../types/audioCoach';
+import type { GeoJSONLineString, PlannedRoute } from '../types/api';
+import type { UnitSystem } from '../utils/unitConversions';
+
+export interface RejoinState {
+  /**
+   * idle: on route · fetching: asking the router (straight line shown meanwhile)
+   * · routed: walkable path from the router · direct: straight line (offline or routing failed)
+   */
+  status: 'idle' | 'fetching' | 'routed' | 'direct';
+  /** Path from the current position back to the route */
+  geometry: GeoJSONLineString | null;
+  /** Rejoin point on the route [lng, lat] */
+  target: [number, number] | null;
+  /** Meters left to the rejoin point */
+  distance: number;
+  /** Compass bearing to the rejoin point (0-360) for the direction arrow */
+  bearing: number | null;
+}
+
+const IDLE: RejoinState = {
+  status: 'idle',
+  geometry: null,
+  target: null,
+  distance: 0,
+  bearing: null,
+};
+
+interface UseRejoinRouteParams {
+  /** Route being navigated */
+  route: PlannedRoute | null;
+  currentPosition: { lat: number; lng: number } | null;
+  /** Confirmed off-route (from useLiveNavigation) */
+  isOffRoute: boolean;
+  /** Progress along the route (from useLiveNavigation) — the last on-route value is where rejoining starts */
+  distanceAlong: number;
+  /** Mapbox profile */
+  profile?: 'walking' | 'cycling';
+  audioSettings: AudioCoachSettings;
+  /** Speak guidance — follows the audio coach session toggle */
+  voiceEnabled: boolean;
+  userTier?: 'free' | 'plus' | 'pro';
+  units?: UnitSystem;
+}
+
+function directState(here: [number, number], target: [number, number]): RejoinState {
+  return {
+    status: 'direct',
+    geometry: { type: 'LineString', coordinates: [here, target] },
+    target,
+    distance: Math.round(haversine(here, target)),
+    bearing: bearing(here, target),
+  };
+}
+
+/**
+ * Guidance back to the planned route once live navigation confirms the user
+ * is off route. Asks the router for the shortest way from the current
+ * position to the nearest point of the route still ahead; offline (or when
+ * routing fails) it falls back to a straight line and compass bearing. The
+ * path is refreshed when the user strays from it, and each new path is
+ * announced through the audio coach.
+ */
+export function useRejoinRoute({
+  route,
+  currentPosition,
+  isOffRoute,
+  distanceAlong,
+  profile = 'walking',
+  audioSettings,
+  voiceEnabled,
+  userTier = 'free',
+  units = 'metric',
+}: UseRejoinRouteParams): RejoinState {
+  const [state, setState] = useState<RejoinState>(IDLE);
+  const onRouteAlongRef = useRef(0);
+  const requestIdRef = useRef(0);
+  const lastRequestAtRef = useRef(0);
+  const announcedDirectRef = useRef(false);
+  const positionRef = useRef(currentPosition);
+  positionRef.current = currentPosition;
+
+  // Remember progress while on route — rejoin ahead of it, not behind
+  useEffect(() => {
+    onRouteAlongRef.current = 0;
+  }, [route?.id]);
+
+  useEffect(() => {
+    if (!isOffRoute) onRouteAlongRef.current = distanceAlong;
+  }, [isOffRoute, distanceAlong]);
+
+  const { cue: announce, isOnlineRef } = useAudioCue({ audioSettings, voiceEnabled, userTier, haptic: null });
+
+  const request = useCallback(async () => {
+    const pos = positionRef.current;
+    const coords = route?.geometry?.coordinates as [number, number][] | undefined;
+    if (!pos || !coords || coords.length < 2) return;
+
+    const requestId = ++requestIdRef.current;
+    lastRequestAtRef.current = Date.now();
+    const here: [number, number] = [pos.lng, pos.lat];
+    const target = nearestPointAhead(here, coords, onRouteAlongRef.current).point;
+    setState({ ...directState(here, target), status: 'fetching' });
+
+    const isOnline = isOnlineRef.current;
+    if (isOnline) {
+      try {
+        const preview = await api.previewRoute({
+          waypoints: [
+            { lat: pos.lat, lng: pos.lng, label: 'Start' },
+            { lat: target[1], lng: target[0], label: 'Route' },
+          ],
+          profile,
+        });
+        if (requestId !== requestIdRef.current) return;
+
+        const path = (preview.geometry?.coordinates ?? []) as [number, number][];
+        if (path.length >= 2) {
+          const distance = Math.round(preview.distance ?? routeTotalDistance(path));
+          setState({
+            status: 'routed',
+            geometry: preview.geometry,
+            target,
+            distance,
+            bearing: bearing(here, target),
+          });
+          logger.info('activity', 'Rejoin path ready', { routeId: route?.id, distance });
+          announce(
+            buildRejoinCue(
+              audioSettings.language,
+              distance,
+              { firstInstruction: preview.turn_instructions?.[0]?.instruction ?? null },
+              units
+            )
+          );
+          return;
+        }
+      } catch (err: any) {
+        if (requestId !== requestIdRef.current) return;
+        logger.warn('activity', 'Rejoin path fetch failed, using direct line', { error: err?.message });
+      }
+    }
+
+    const direct = directState(here, target);
+    setState(direct);
+    logger.info('activity', 'Rejoin by direct line', { routeId: route?.id, distance: direct.distance, isOnline });
+    // Retries while still offline would repeat the same cue every interval
+    if (!announcedDirectRef.current) {
+      announcedDirectRef.current = true;
+      announce(buildRejoinCue(audioSettings.language, direct.distance, { bearing: direct.bearing ?? 0 }, units));
+    }
+  }, [route, profile, announce, isOnlineRef, audioSettings.language, units]);
+
+  // Start guidance when off route is confirmed, drop it when back on route
+  useEffect(() => {
+    if (!isOffRoute || !route) {
+      requestIdRef.current++;
+      announcedDirectRef.current = false;
+      setState(IDLE);
+      return;
+    }
+    request();
+  // request intentionally excluded — one request per off-route episode
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOffRoute, route?.id]);
+
+  // Follow the user while off route
+  useEffect(() => {
+    if (!isOffRoute || !currentPosition || !route?.geometry?.coordinates) return;
+    const here: [number, number] = [currentPosition.lng, currentPosition.lat];
+    const retryDue = Date.now() - lastRequestAtRef.current >= REJOIN_RETRY_INTERVAL_MS;
+
+    if (state.status === 'direct') {
+      // Maybe back online — try for a real path again
+      if (retryDue) {
+        request();
+        return;
+      }
+      const coords = route.geometry.coordinates as [number, number][];
+      setState(directState(here, nearestPointAhead(here, coords, onRouteAlongRef.current).point));
+    } else if (state.status === 'routed' && state.geometry) {
+      const path = state.geometry.coordinates as [number, number][];
+      const onPath = nearestPointOnRoute(here, path);
+      // Strayed from the rejoin path too — route again
+      if (onPath.distance >= OFF_ROUTE_ALERT_M && retryDue) {
+        request();
+        return;
+      }
+      const distance = Math.round(Math.max(0, routeTotalDistance(path) - onPath.distanceAlong));
+      setState((prev) => ({
+        ...prev,
+        distance,
+        bearing: prev.target ? bearing(here, prev.target) : prev.bearing,
+      }));
+    }
+  // state.geometry/status read on position updates only
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPosition?.lat, currentPosition?.lng]);
+
+  return state;
+}
@@ -2,6 +2,7 @@ import { useEffect, useRef, useState, useMemo } from 'react';
 import { api } from '../services/api';
 import { logger } from '../services/logger';
 import { nearestPointOnRoute, routeTotalDistance } from '../utils/routeNavigation';
+import { useIsOnlineRef } from './useIsOnlineRef';
 import type {
   GeoJSONLineString,
   RouteTurnInstruction,
@@ -58,6 +59,7 @@ export function useRouteApproachPath({
 }: Params): ApproachState {
   const [state, setState] = useState<ApproachState>(INITIAL);
   const fetchedKeyRef = useRef<string | null>(null);
+  const isOnlineRef = useIsOnlineRef();
 
   // Reset when route changes or recording stops
   useEffect(() => {
@@ -105,7 +107,28 @@ export function useRouteApproachPath({
     setState((prev) => ({ ...prev, status: 'fetching', error: null }));
 
     let cancelled = false;
+
+    // Fallback: use raw base geometry from nearest point
+    const fallBackToBase = (error: string) => {
+      const trimmed = trimRouteFrom(baseCoords, nearest.index, nearest.point);
+      setState({
+        status: 'error',
+        geometry: { type: 'LineString', coordinates: trimmed },
+        turnInstructions: shiftTurnsAfter(baseTurnInstructions, nearest.distanceAlong),
+        totalDistance: routeTotalDistance(trimmed),
+        approachDistance: 0,
+        error,
+      });
+    };
+
     (async () => {
+      // No signal (e.g. an offline route pack) — don't wait for a request timeout
+      if (!isOnlineRef.current) {
+        logger.info('activity', 'Offline, skipping route approach fetch', { routeId });
+        fallBackToBase('offline');
+        return;
+      }
+
       try {
         const joinPoint = nearest.point;
         const preview: RoutePreviewResponse = await api.previewRoute({
@@ -152,16 +175,7 @@ export function useRouteApproachPath({
         logger.warn('activity', 'Route approach fetch failed, falling back to raw route', {
           error: err?.message,
         });
-        // Fallback: use raw base geometry from nearest point
-        const trimmed = trimRouteFrom(baseCoords, nearest.index, nearest.point);
-        setState({
-          status: 'error',
-          geometry: { type: 'LineString', coordinates: trimmed },
-          turnInstructions: shiftTurnsAfter(baseTurnInstructions, nearest.distanceAlong),
-          totalDistance: routeTotalDistance(trimmed),
-          approachDistance: 0,
-          error: err?.message ?? 'approach_failed',
-        });
+        fallBackToBase(err?.message ?? 'approach_failed');
       }
     })();
 
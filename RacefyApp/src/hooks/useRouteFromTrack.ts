@@ -0,0 +1,171 @@
+import { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '../services/api';
+import { logger } from '../services/logger';
+import {
+  buildRouteFromTrack,
+  lineStringToPoints,
+  parseRouteFile,
+  savedRouteMatchesTrack,
+  type RouteFileErrorCode,
+  type RouteFileFormat,
+  type TrackRoute,
+  type TrackTurnManeuver,
+} from '../utils/routeFromTrack';
+import type { GpsPoint, PlannedRoute } from '../types/api';
+
+type TrackSource =
+  | { type: 'activity'; activityId: number }
+  | { type: 'file'; fileName: string };
+
+export interface SavedTrackRoute {
+  route: PlannedRoute;
+  /** False when the server didn't keep the track as sent — see savedRouteMatchesTrack */
+  matchesTrack: boolean;
+}
+
+/**
+ * Turns one of the user's activities or an imported GPX / GeoJSON file into
+ * a planned route: the track is simplified client-side and saved with its
+ * own geometry, elevation profile and turn instructions, so the route
+ * follows the recorded line rather than being re-routed between waypoints.
+ */
+export function useRouteFromTrack() {
+  const { t } = useTranslation();
+  const [route, setRoute] = useState<TrackRoute | null>(null);
+  const [source, setSource] = useState<TrackSource | null>(null);
+  const [suggestedTitle, setSuggestedTitle] = useState('');
+  const [suggestedSportTypeId, setSuggestedSportTypeId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const build = useCallback((points: GpsPoint[]) => {
+    const describeTurn = (maneuver: TrackTurnManeuver) => t(`routeFromTrack.turns.${maneuver}`);
+    return buildRouteFromTrack(points, describeTurn);
+  }, [t]);
+
+  const loadFromActivity = useCallback(async (activityId: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [activity, track] = await Promise.all([
+        api.getActivity(activityId),
+        api.getActivityTrack(activityId),
+      ]);
+      const points = lineStringToPoints(track.track_data);
+      if (points.length < 2) {
+        setError(t('routeFromTrack.errors.no_track'));
+        return;
+      }
+      const built = build(points);
+      setRoute(built);
+      setSource({ type: 'activity', activityId });
+      setSuggestedTitle(activity.title);
+      setSuggestedSportTypeId(activity.sport_type_id);
+      logger.info('activity', 'Route built from activity', {
+        activityId,
+        points: points.length,
+        waypoints: built.waypoints.length,
+        turns: built.turnInstructions.length,
+      });
+    } catch (err: any) {
+      logger.error('api', 'Failed to load activity track for route', { activityId, error: err?.message });
+      setError(t('routeFromTrack.loadFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [build, t]);
+
+  /** Returns the error code when the file can't be used, null on success */
+  const loadFromFile = useCallback((
+    format: RouteFileFormat,
+    content: string,
+    fileName: string
+  ): RouteFileErrorCode | null => {
+    const result = parseRouteFile(format, content);
+    if (!result.ok) {
+      logger.warn('activity', 'Route file rejected', { format, reason: result.error });
+      return result.error;
+    }
+    const built = build(result.points);
+    setRoute(built);
+    setSource({ type: 'file', fileName });
+    setSuggestedTitle(result.name ?? fileName.replace(/\.[^.]+$/, ''));
+    setError(null);
+    logger.info('activity', 'Route built from file', {
+      format,
+      points: result.points.length,
+      waypoints: built.waypoints.length,
+      turns: built.turnInstructions.length,
+    });
+    return null;
+  }, [build]);
+
+  const reset = useCallback(() => {
+    setRoute(null);
+    setSource(null);
+    setSuggestedTitle('');
+    setError(null);
+  }, []);
+
+  const saveRoute = useCallback(async (
+    title: string,
+    sportTypeId: number,
+    profile: 'walking' | 'cycling',
+    description?: string,
+    isPublic?: boolean
+  ): Promise<SavedTrackRoute | null> => {
+    if (!route || !source) return null;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const saved = await api.createRoute({
+        title,
+        description,
+        sport_type_id: sportTypeId,
+        profile,
+        waypoints: route.waypoints,
+        is_public: isPublic,
+        geometry: route.geometry,
+        elevation_profile: route.elevationProfile,
+        turn_instructions: route.turnInstructions,
+        source: source.type,
+        source_activity_id: source.type === 'activity' ? source.activityId : undefined,
+      });
+      const matchesTrack = savedRouteMatchesTrack(route, saved);
+      if (!matchesTrack) {
+        logger.warn('api', 'Saved route differs from the track', {
+          routeId: saved.id,
+          sentDistance: route.distance,
+          savedDistance: saved.distance,
+          sentPoints: route.geometry.coordinates.length,
+          savedPoints: saved.geometry?.coordinates?.length ?? 0,
+        });
+      }
+      return { route: saved, matchesTrack };
+    } catch (err: any) {
+      logger.error('api', 'Failed to save route from track', { source: source.type, error: err?.message });
+      setError(t('routeFromTrack.saveFailed'));
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [route, source, t]);
+
+  return {
+    route,
+    source,
+    suggestedTitle,
+    suggestedSportTypeId,
+    isLoading,
+    isSaving,
+    error,
+    loadFromActivity,
+    loadFromFile,
+    reset,
+    saveRoute,
+  };
+}
@@ -46,6 +46,18 @@ const INITIAL_PREVIEW: PreviewState = {
   turnInstructions: [],
 };
 
+function toPreviewState(response: RoutePreviewResponse): PreviewState {
+  return {
+    geometry: response.geometry,
+    distance: response.distance,
+    estimatedDuration: response.estimated_duration,
+    elevationGain: response.elevation_gain,
+    elevationLoss: response.elevation_loss,
+    elevationProfile: response.elevation_profile,
+    turnInstructions: response.turn_instructions,
+  };
+}
+
 export function useRoutePlanner() {
   const [waypoints, setWaypoints] = useState<RouteWaypoint[]>([]);
   const [profile, setProfile] = useState<'walking' | 'cycling'>('walking');
@@ -75,15 +87,7 @@ export function useRoutePlanner() {
         profile: prof,
       });
 
-      setPreview({
-        geometry: response.geometry,
-        distance: response.distance,
-        estimatedDuration: response.estimated_duration,
-        elevationGain: response.elevation_gain,
-        elevationLoss: response.elevation_loss,
-        elevationProfile: response.elevation_profile,
-        turnInstructions: response.turn_instructions,
-      });
+      setPreview(toPreviewState(response));
     } catch (err) {
       setError('Failed to calculate route');
     } finally {
@@ -155,6 +159,16 @@ export function useRoutePlanner() {
     }
   }, [waypoints]);
 
+  /** Replace all waypoints with an already-routed set (e.g. a generated loop) */
+  const loadWaypoints = useCallback((newWps: RouteWaypoint[], response: RoutePreviewResponse) => {
+    undoStack.current.push([...waypoints]);
+    if (previewTimer.current) {
+      clearTimeout(previewTimer.current);
+    }
+    setWaypoints(newWps);
+    setPreview(toPreviewState(response));
+  }, [waypoints]);
+
   const changeProfile = useCallback((newProfile: 'walking' | 'cycling') => {
     setProfile(newProfile);
     if (waypoints.length >= 2) {
@@ -203,6 +217,7 @@ export function useRoutePlanner() {
     reorderWaypoints,
     undo,
     clearAll,
+    loadWaypoints,
     changeProfile,
     saveRoute,
   };
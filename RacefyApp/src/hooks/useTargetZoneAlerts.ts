@@ -0,0 +1,107 @@
+import { useEffect, useRef } from 'react';
+import * as Haptics from 'expo-haptics';
+import { logger } from '../services/logger';
+import { buildHeartRateZoneCue, buildPaceZoneCue } from '../services/audioCoach/templates';
+import { useAudioCue } from './useAudioCue';
+import { getTargetZoneStatus, hasTargetZone } from '../utils/targetZones';
+import type { AudioCoachSettings } from '../types/audioCoach';
+import type { TargetZone, TargetZoneStatus } from '../types/targetZone';
+import type { UnitSystem } from '../utils/unitConversions';
+
+interface UseTargetZoneAlertsParams {
+  zone: TargetZone | null;
+  /** True while an activity is recording (not paused) */
+  isActive: boolean;
+  /** Moving time in seconds (excludes pauses) */
+  elapsedSeconds: number;
+  currentPaceSecPerKm?: number | null;
+  heartRate?: number | null;
+  audioSettings: AudioCoachSettings;
+  /** Speak alerts — follows the audio coach session toggle */
+  voiceEnabled: boolean;
+  userTier?: 'free' | 'plus' | 'pro';
+  units?: UnitSystem;
+}
+
+/** While still out of zone, repeat the alert no more often than this */
+const MIN_REPEAT_INTERVAL_SEC = 60;
+
+interface OutOfZoneTracker {
+  /** Moving time when the metric left the zone, null while in zone */
+  since: number | null;
+  lastAlertAt: number | null;
+}
+
+const idleTracker = (): OutOfZoneTracker => ({ since: null, lastAlertAt: null });
+
+/**
+ * Watches live pace and heart rate against the selected target zone.
+ * A metric has to stay outside its band for `alertDelaySeconds` of moving
+ * time before the user is warned (haptic + spoken cue when the audio coach
+ * is on), so brief spikes from GPS noise or a hill don't trigger alerts.
+ */
+export function useTargetZoneAlerts({
+  zone,
+  isActive,
+  elapsedSeconds,
+  currentPaceSecPerKm,
+  heartRate,
+  audioSettings,
+  voiceEnabled,
+  userTier = 'free',
+  units = 'metric',
+}: UseTargetZoneAlertsParams): TargetZoneStatus {
+  const paceTrackerRef = useRef<OutOfZoneTracker>(idleTracker());
+  const hrTrackerRef = useRef<OutOfZoneTracker>(idleTracker());
+  const { cue: alert } = useAudioCue({
+    audioSettings,
+    voiceEnabled,
+    userTier,
+    haptic: Haptics.NotificationFeedbackType.Warning,
+  });
+
+  const status = getTargetZoneStatus(zone, currentPaceSecPerKm, heartRate);
+
+  // Reset when the recording pauses/ends or the zone changes
+  useEffect(() => {
+    if (isActive) return;
+    paceTrackerRef.current = idleTracker();
+    hrTrackerRef.current = idleTracker();
+  }, [isActive, zone]);
+
+  useEffect(() => {
+    if (!isActive || !hasTargetZone(zone)) return;
+
+    const shouldAlert = (tracker: OutOfZoneTracker, outOfZone: boolean): boolean => {
+      if (!outOfZone) {
+        tracker.since = null;
+        tracker.lastAlertAt = null;
+        return false;
+      }
+      if (tracker.since === null || elapsedSeconds < tracker.since) {
+        tracker.since = elapsedSeconds;
+      }
+      if (elapsedSeconds - tracker.since < zone.alertDelaySeconds) return false;
+      const repeatInterval = Math.max(zone.alertDelaySeconds, MIN_REPEAT_INTERVAL_SEC);
+      if (tracker.lastAlertAt !== null && elapsedSeconds - tracker.lastAlertAt < repeatInterval) {
+        return false;
+      }
+      tracker.lastAlertAt = elapsedSeconds;
+      return true;
+    };
+
+    const paceOut = status.pace === 'fast' || status.pace === 'slow';
+    if (shouldAlert(paceTrackerRef.current, paceOut) && currentPaceSecPerKm) {
+      logger.info('training', 'Pace outside target zone', { status: status.pace, pace: Math.round(currentPaceSecPerKm) });
+      alert(buildPaceZoneCue(audioSettings.language, status.pace as 'fast' | 'slow', currentPaceSecPerKm, units));
+    }
+
+    const hrOut = status.heartRate === 'low' || status.heartRate === 'high';
+    if (shouldAlert(hrTrackerRef.current, hrOut) && heartRate) {
+      logger.info('training', 'Heart rate outside target zone', { status: status.heartRate, heartRate });
+      alert(buildHeartRateZoneCue(audioSettings.language, status.heartRate as 'low' | 'high', heartRate));
+    }
+  }, [isActive, zone, elapsedSeconds, status.pace, status.heartRate, currentPaceSecPerKm, heartRate, alert, audioSettings.language, units]);
+
+  return status;
+}
@@ -1,47 +1,33 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { api } from '../services/api';
+import { queryKey } from '../services/queryCache';
 import type { Team } from '../types/api';
+import { useAuth } from './useAuth';
+import { useCachedPaginatedQuery, useCachedQuery } from './useCachedQuery';
+
+/** Search input settles for this long before it becomes a new query */
+const SEARCH_DEBOUNCE_MS = 500;
 
 export function useTeams() {
-  const [teams, setTeams] = useState<Team[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
-  const [page, setPage] = useState(1);
   const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
 
-  const fetchTeams = useCallback(async (reset = false) => {
-    const currentPage = reset ? 1 : page;
-    if (!reset) setIsLoading(true);
-    try {
-      const response = await api.getTeams({
-        search: search || undefined,
-        page: currentPage,
-        per_page: 20,
-      });
-      const newTeams = response.data;
-      setTeams(reset ? newTeams : prev => [...prev, ...newTeams]);
-      setHasMore(response.meta.current_page < response.meta.last_page);
-      setPage(currentPage + 1);
-    } catch {
-      // Silent
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
-  }, [page, search]);
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
 
-  const refresh = useCallback(async () => {
-    setIsRefreshing(true);
-    setPage(1);
-    await fetchTeams(true);
-  }, [fetchTeams]);
+  const { items: teams, isLoading, isRefreshing, hasMore, refresh, loadMore } =
+    useCachedPaginatedQuery<Team>(
+      queryKey('/teams', { search: appliedSearch || undefined, per_page: 20 }),
+      (page) => api.getTeams({ search: appliedSearch || undefined, page, per_page: 20 }),
+      { tags: ['teams'] },
+    );
 
-  const loadMore = useCallback(() => {
-    if (!isLoading && hasMore) {
-      fetchTeams(false);
-    }
-  }, [isLoading, hasMore, fetchTeams]);
+  const fetchTeams = useCallback(
+    (reset = false) => (reset ? refresh() : loadMore()),
+    [refresh, loadMore]
+  );
 
   return {
     teams, isLoading, isRefreshing, hasMore,
@@ -51,27 +37,24 @@ export function useTeams() {
 }
 
 export function useMyTeams() {
-  const [teams, setTeams] = useState<Team[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { isAuthenticated } = useAuth();
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  const { data, isLoading, refetch } = useCachedQuery<Team[]>(
+    isAuthenticated ? queryKey('/teams/my') : null,
+    () => api.getMyTeams(),
+    { tags: ['teams'] },
+  );
+
   const fetchMyTeams = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const data = await api.getMyTeams();
-      setTeams(data);
-    } catch {
-      // Silent
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
-  }, []);
+    await refetch();
+  }, [refetch]);
 
   const refresh = useCallback(async () => {
     setIsRefreshing(true);
     await fetchMyTeams();
+    setIsRefreshing(false);
   }, [fetchMyTeams]);
 
-  return { teams, isLoading, isRefreshing, fetchMyTeams, refresh };
+  return { teams: data ?? [], isLoading, isRefreshing, fetchMyTeams, refresh };
 }
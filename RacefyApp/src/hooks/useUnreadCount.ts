@@ -1,12 +1,17 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { api } from '../services/api';
 import { logger } from '../services/logger';
 import { useAuth } from './useAuth';
+import { useRealtimeEvent, useRealtimeResync } from './useRealtime';
 
-export function useUnreadCount(pollInterval = 30000) {
+/**
+ * Unread message count for badges. Fetched once on mount, then kept current
+ * by `unread.count` realtime events (pushed by the socket, or produced by the
+ * polling fallback while it's down).
+ */
+export function useUnreadCount() {
   const { isAuthenticated } = useAuth();
   const [count, setCount] = useState(0);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
   const fetchUnreadCount = useCallback(async () => {
     if (!isAuthenticated) {
@@ -24,17 +29,13 @@ export function useUnreadCount(pollInterval = 30000) {
 
   useEffect(() => {
     fetchUnreadCount();
+  }, [fetchUnreadCount]);
 
-    if (isAuthenticated) {
-      intervalRef.current = setInterval(fetchUnreadCount, pollInterval);
-    }
+  useRealtimeEvent('unread.count', (event) => {
+    if (isAuthenticated) setCount(event.count);
+  });
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [fetchUnreadCount, isAuthenticated, pollInterval]);
+  useRealtimeResync(fetchUnreadCount);
 
   return { count, refresh: fetchUnreadCount };
 }
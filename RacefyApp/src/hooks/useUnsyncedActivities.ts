@@ -1,17 +1,19 @@
 import {useCallback, useEffect, useRef, useState} from 'react';
 import {AppState, AppStateStatus, DeviceEventEmitter} from 'react-native';
-import {api} from '../services/api';
+import NetInfo from '@react-native-community/netinfo';
 import {logger} from '../services/logger';
 import {
   clearAllUnsyncedActivities,
   countUnsyncedActivities,
   enqueueUnsyncedActivity,
-  getUnsyncedActivity,
+  getNextUnsyncedRetryAt,
   listUnsyncedActivities,
   removeUnsyncedActivity,
+  retryDueUnsyncedActivities,
   UNSYNCED_QUEUE_CHANGED_EVENT,
   type UnsyncedActivityMeta,
-  updateUnsyncedActivityMeta,
+  type UnsyncedRetryTrigger,
+  uploadUnsyncedActivity,
 } from '../services/unsyncedActivities';
 
 export type RetryOutcome =
@@ -56,57 +58,11 @@ export function useUnsyncedActivities() {
   const retry = useCallback(async (activityId: number): Promise<RetryOutcome> => {
     setRetryingId(activityId);
     try {
-      const entry = await getUnsyncedActivity(activityId);
-      if (!entry) {
-        return { ok: false, error: 'Entry not found' };
-      }
-
-      // 1. Upload points in one batch (the server already handled smaller
-      //    batches; if this is too large we'll learn from the response).
-      if (entry.points.length > 0) {
-        try {
-          await api.addActivityPoints(activityId, entry.points, {
-            calories: entry.calories,
-            avg_heart_rate: entry.avgHeartRate,
-            max_heart_rate: entry.maxHeartRate,
-            client_distance: entry.distance,
-          });
-        } catch (pointsErr: any) {
-          const msg = pointsErr?.message || 'Failed to upload points';
-          await updateUnsyncedActivityMeta(activityId, {
-            lastError: msg,
-            lastRetryAt: new Date().toISOString(),
-            retryCount: (entry.retryCount || 0) + 1,
-          });
-          await refresh();
-          return { ok: false, error: msg };
-        }
-      }
-
-      // 2. Finish the activity (no final_points: they were uploaded above).
-      try {
-        await api.finishActivity(activityId, {
-          ended_at: entry.endedAt,
-          location: entry.location,
-          client_distance: entry.distance,
-          avg_heart_rate: entry.avgHeartRate,
-          max_heart_rate: entry.maxHeartRate,
-          calories: entry.calories,
-        });
-      } catch (finishErr: any) {
-        const msg = finishErr?.message || 'Failed to finish activity';
-        await updateUnsyncedActivityMeta(activityId, {
-          lastError: msg,
-          lastRetryAt: new Date().toISOString(),
-          retryCount: (entry.retryCount || 0) + 1,
-        });
-        await refresh();
-        return { ok: false, error: msg };
-      }
-
-      // Both steps succeeded — drop the entry.
-      await removeUnsyncedActivity(activityId);
+      const result = await uploadUnsyncedActivity(activityId, { trigger: 'manual' });
       await refresh();
+      if (!result.ok) {
+        return { ok: false, error: result.error };
+      }
       logger.activity('Unsynced activity retried successfully', { activityId });
       return { ok: true };
     } finally {
@@ -161,4 +117,83 @@ export function useUnsyncedActivitiesCount(): { count: number; refresh: () => vo
   return { count, refresh };
 }
 
+/**
+ * Background sync worker for the unsynced queue. Mounted once at the app root
+ * while signed in: retries due entries when the app comes to the foreground,
+ * when connectivity returns, and when the earliest backoff elapses.
+ */
+export function useUnsyncedSyncWorker(enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isActive = true;
+    let isRunning = false;
+    let isOnline = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearTimer = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    };
+
+    // Wake up when the earliest entry's backoff elapses (foreground only)
+    const schedule = async () => {
+      clearTimer();
+      if (!isActive || !isOnline || AppState.currentState !== 'active') return;
+      const nextAt = await getNextUnsyncedRetryAt().catch(() => null);
+      if (nextAt === null || !isActive) return;
+      clearTimer();
+      timer = setTimeout(() => run('scheduled'), Math.max(nextAt - Date.now(), 1000));
+    };
+
+    const run = async (trigger: UnsyncedRetryTrigger) => {
+      if (!isActive || !isOnline || isRunning) return;
+      isRunning = true;
+      try {
+        await retryDueUnsyncedActivities(trigger);
+      } catch (err) {
+        logger.warn('activity', 'Unsynced sync worker pass failed', { trigger, error: err });
+      } finally {
+        isRunning = false;
+        schedule();
+      }
+    };
+
+    NetInfo.fetch().then((state) => {
+      isOnline = state.isConnected ?? true;
+      run('foreground');
+    });
+
+    const appSub = AppState.addEventListener('change', (next: AppStateStatus) => {
+      if (next === 'active') {
+        run('foreground');
+      } else {
+        clearTimer();
+      }
+    });
+    const netUnsubscribe = NetInfo.addEventListener((state) => {
+      const wasOnline = isOnline;
+      isOnline = state.isConnected ?? true;
+      if (!wasOnline && isOnline) {
+        run('reconnect');
+      } else if (!isOnline) {
+        clearTimer();
+      }
+    });
+    const queueSub = DeviceEventEmitter.addListener(UNSYNCED_QUEUE_CHANGED_EVENT, () => {
+      if (!isRunning) schedule();
+    });
+
+    return () => {
+      isActive = false;
+      clearTimer();
+      appSub.remove();
+      netUnsubscribe();
+      queueSub.remove();
+    };
+  }, [enabled]);
+}
+
 export { enqueueUnsyncedActivity };
\ No newline at end of file
@@ -1,7 +1,11 @@
 import { useState, useCallback, useEffect } from 'react';
 import { api } from '../services/api';
 import { logger } from '../services/logger';
+import { submitMutation } from '../services/mutationOutbox';
+import { queryKey } from '../services/queryCache';
+import { useRefreshOn } from '../services/refreshEvents';
 import type { UserProfile, ConversationParticipant, FollowStatusValue } from '../types/api';
+import { useCachedQuery } from './useCachedQuery';
 
 interface UseUserProfileOptions {
   username: string;
@@ -21,39 +25,60 @@ interface UseUserProfileReturn {
 }
 
 export function useUserProfile({ username }: UseUserProfileOptions): UseUserProfileReturn {
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [isFollowing, setIsFollowing] = useState(false);
   const [followStatus, setFollowStatus] = useState<FollowStatusValue>(null);
   const [isFollowLoading, setIsFollowLoading] = useState(false);
   const [isMessageLoading, setIsMessageLoading] = useState(false);
 
-  const fetchProfile = useCallback(async () => {
-    try {
-      setError(null);
-      const data = await api.getUserByUsername(username);
-      setProfile(data);
+  // The profile is served from the query cache (instant on revisit, revalidated
+  // in the background); follow status is per-viewer and always fetched fresh
+  const {
+    data: cachedProfile,
+    isLoading,
+    error: queryError,
+    refetch,
+    mutate: mutateProfile,
+  } = useCachedQuery<UserProfile>(
+    queryKey(`/users/${username}`),
+    () => api.getUserByUsername(username),
+    { tags: ['profile'] },
+  );
+  const profile = cachedProfile ?? null;
+  // A failed revalidation keeps showing the cached profile
+  const error = !profile && queryError ? 'Failed to load profile' : null;
 
-      // Fetch follow status to get detailed status info
-      try {
-        const status = await api.getFollowStatus(data.id);
-        setIsFollowing(status.is_following);
-        setFollowStatus(status.follow_status ?? null);
-      } catch (statusErr) {
-        // Fallback to is_following from profile if getFollowStatus fails
-        logger.warn('api', 'Failed to fetch follow status, using profile data', { error: statusErr });
-        setIsFollowing(data.is_following ?? false);
-        setFollowStatus(data.is_following ? 'accepted' : null);
-      }
+  const fetchFollowStatus = useCallback(async (data: UserProfile) => {
+    try {
+      const status = await api.getFollowStatus(data.id);
+      setIsFollowing(status.is_following);
+      setFollowStatus(status.follow_status ?? null);
+    } catch (statusErr) {
+      // Fallback to is_following from profile if getFollowStatus fails
+      logger.warn('api', 'Failed to fetch follow status, using profile data', { error: statusErr });
+      setIsFollowing(data.is_following ?? false);
+      setFollowStatus(data.is_following ? 'accepted' : null);
+    }
+  }, []);
 
-      return data;
-    } catch (err) {
-      logger.error('api', 'Failed to fetch profile:', { err });
-      setError('Failed to load profile');
+  const fetchProfile = useCallback(async () => {
+    const data = await refetch();
+    if (!data) {
+      logger.error('api', 'Failed to fetch profile:', { username });
       return null;
     }
-  }, [username]);
+    return data;
+  }, [refetch, username]);
+
+  useEffect(() => {
+    if (profile) fetchFollowStatus(profile);
+    // Only when the viewed user changes, not on every revalidation
+  }, [profile?.id, fetchFollowStatus]);
+
+  // A replayed (or rejected) offline follow emits 'profile' — resync the button
+  const refreshFollowStatus = useCallback(() => {
+    if (profile) fetchFollowStatus(profile);
+  }, [profile, fetchFollowStatus]);
+  useRefreshOn('profile', refreshFollowStatus);
 
   const handleFollowToggle = useCallback(async () => {
     if (!profile) return;
@@ -62,20 +87,18 @@ export function useUserProfile({ username }: UseUserProfileOptions): UseUserProf
     try {
       if (followStatus === 'pending') {
         // Cancel pending request
-        await api.unfollowUser(profile.id);
+        await submitMutation({ type: 'unfollowUser', targetId: profile.id });
         setIsFollowing(false);
         setFollowStatus(null);
       } else if (followStatus === 'accepted' || isFollowing) {
         // Unfollow accepted follow
-        await api.unfollowUser(profile.id);
+        await submitMutation({ type: 'unfollowUser', targetId: profile.id });
         setIsFollowing(false);
         setFollowStatus(null);
-        setProfile((prev) =>
-          prev ? { ...prev, followers_count: prev.followers_count - 1 } : prev
-        );
+        mutateProfile((prev) => ({ ...prev, followers_count: prev.followers_count - 1 }));
       } else {
         // Send new follow request
-        await api.followUser(profile.id);
+        await submitMutation({ type: 'followUser', targetId: profile.id });
         setFollowStatus('pending');
         // Don't increment follower count until request is accepted
       }
@@ -84,7 +107,7 @@ export function useUserProfile({ username }: UseUserProfileOptions): UseUserProf
     } finally {
       setIsFollowLoading(false);
     }
-  }, [profile, isFollowing, followStatus]);
+  }, [profile, isFollowing, followStatus, mutateProfile]);
 
   const handleStartConversation = useCallback(async () => {
     if (!profile) return null;
@@ -109,16 +132,6 @@ export function useUserProfile({ username }: UseUserProfileOptions): UseUserProf
     }
   }, [profile]);
 
-  // Initial load
-  useEffect(() => {
-    const loadProfile = async () => {
-      setIsLoading(true);
-      await fetchProfile();
-      setIsLoading(false);
-    };
-    loadProfile();
-  }, [fetchProfile]);
-
   return {
     profile,
     isLoading,
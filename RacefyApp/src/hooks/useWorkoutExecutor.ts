@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as Haptics from 'expo-haptics';
+import { logger } from '../services/logger';
+import { buildWorkoutCompleteCue, buildWorkoutStepCue } from '../services/audioCoach/templates';
+import { useAudioCue } from './useAudioCue';
+import {
+  buildStepResult,
+  flattenWorkout,
+  getPaceStatus,
+  getStepProgress,
+  type WorkoutStepProgress,
+} from '../utils/workouts';
+import type { AudioCoachSettings } from '../types/audioCoach';
+import type {
+  FlatWorkoutStep,
+  Workout,
+  WorkoutPaceStatus,
+  WorkoutStepResult,
+} from '../types/workout';
+import type { UnitSystem } from '../utils/unitConversions';
+
+interface UseWorkoutExecutorParams {
+  workout: Workout | null;
+  /** True while an activity is recording or paused */
+  isActive: boolean;
+  /** Moving time in seconds (excludes pauses) */
+  elapsedSeconds: number;
+  distanceMeters: number;
+  currentPaceSecPerKm?: number | null;
+  audioSettings: AudioCoachSettings;
+  /** Speak step cues — follows the audio coach session toggle */
+  voiceEnabled: boolean;
+  userTier?: 'free' | 'plus' | 'pro';
+  units?: UnitSystem;
+}
+
+export interface WorkoutExecutorState {
+  isRunning: boolean;
+  isComplete: boolean;
+  currentStep: FlatWorkoutStep | null;
+  nextStep: FlatWorkoutStep | null;
+  totalSteps: number;
+  progress: WorkoutStepProgress | null;
+  paceStatus: WorkoutPaceStatus | null;
+  /** Finished steps plus the step in progress (marked not completed) */
+  getResults: () => WorkoutStepResult[];
+}
+
+interface StepStart {
+  seconds: number;
+  meters: number;
+}
+
+/**
+ * Runs a structured workout alongside the live recording.
+ * Steps advance on the recording's moving time / distance, so pausing the
+ * activity pauses the step too. Each step change is cued with a haptic and,
+ * when the audio coach is on, a spoken cue through the shared TTS queue.
+ */
+export function useWorkoutExecutor({
+  workout,
+  isActive,
+  elapsedSeconds,
+  distanceMeters,
+  currentPaceSecPerKm,
+  audioSettings,
+  voiceEnabled,
+  userTier = 'free',
+  units = 'metric',
+}: UseWorkoutExecutorParams): WorkoutExecutorState {
+  const steps = useMemo(() => (workout ? flattenWorkout(workout) : []), [workout]);
+
+  // stepIndex === -1 → not started; === steps.length → complete
+  const [stepIndex, setStepIndex] = useState(-1);
+  const [stepStart, setStepStart] = useState<StepStart>({ seconds: 0, meters: 0 });
+  const resultsRef = useRef<WorkoutStepResult[]>([]);
+  const { cue } = useAudioCue({
+    audioSettings,
+    voiceEnabled,
+    userTier,
+    haptic: Haptics.NotificationFeedbackType.Success,
+  });
+
+  // Reset when the recording ends or a different workout is picked
+  useEffect(() => {
+    if (isActive) return;
+    setStepIndex(-1);
+    setStepStart({ seconds: 0, meters: 0 });
+    resultsRef.current = [];
+  }, [isActive, workout]);
+
+  // Start the first step once the recording begins
+  useEffect(() => {
+    if (!isActive || steps.length === 0 || stepIndex !== -1) return;
+    logger.info('training', 'Workout started', { name: workout?.name, steps: steps.length });
+    setStepIndex(0);
+    setStepStart({ seconds: elapsedSeconds, meters: distanceMeters });
+    cue(buildWorkoutStepCue(audioSettings.language, steps[0], units));
+  }, [isActive, steps, stepIndex, elapsedSeconds, distanceMeters, cue, audioSettings.language, units, workout?.name]);
+
+  // The timer / distance can settle to 0 just after start — rebase instead of
+  // carrying the previous activity's reading into the first step
+  useEffect(() => {
+    if (elapsedSeconds < stepStart.seconds || distanceMeters < stepStart.meters) {
+      setStepStart({
+        seconds: Math.min(elapsedSeconds, stepStart.seconds),
+        meters: Math.min(distanceMeters, stepStart.meters),
+      });
+    }
+  }, [elapsedSeconds, distanceMeters, stepStart]);
+
+  const currentStep = stepIndex >= 0 ? steps[stepIndex] ?? null : null;
+  const stepElapsed = elapsedSeconds - stepStart.seconds;
+  const stepDistance = distanceMeters - stepStart.meters;
+  const progress = currentStep ? getStepProgress(currentStep, stepElapsed, stepDistance) : null;
+
+  // Advance when the current step's time or distance is covered
+  useEffect(() => {
+    if (!isActive || !currentStep || !progress?.isDone) return;
+
+    resultsRef.current = [
+      ...resultsRef.current,
+      buildStepResult(currentStep, stepElapsed, stepDistance, true),
+    ];
+    const next = steps[stepIndex + 1];
+    logger.info('training', 'Workout step completed', {
+      step: stepIndex,
+      elapsed: Math.round(stepElapsed),
+      distance: Math.round(stepDistance),
+      hasNext: !!next,
+    });
+
+    setStepIndex(stepIndex + 1);
+    setStepStart({ seconds: elapsedSeconds, meters: distanceMeters });
+    cue(next
+      ? buildWorkoutStepCue(audioSettings.language, next, units)
+      : buildWorkoutCompleteCue(audioSettings.language));
+  }, [isActive, currentStep, progress?.isDone, stepIndex, steps, stepElapsed, stepDistance, elapsedSeconds, distanceMeters, cue, audioSettings.language, units]);
+
+  const getResults = useCallback((): WorkoutStepResult[] => {
+    if (!currentStep) return resultsRef.current;
+    return [
+      ...resultsRef.current,
+      buildStepResult(currentStep, stepElapsed, stepDistance, false),
+    ];
+  }, [currentStep, stepElapsed, stepDistance]);
+
+  return {
+    isRunning: isActive && currentStep !== null,
+    isComplete: steps.length > 0 && stepIndex >= steps.length,
+    currentStep,
+    nextStep: stepIndex >= 0 ? steps[stepIndex + 1] ?? null : null,
+    totalSteps: steps.length,
+    progress,
+    paceStatus: getPaceStatus(currentPaceSecPerKm, currentStep?.target),
+    getResults,
+  };
+}
@@ -0,0 +1,36 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {DeviceEventEmitter} from 'react-native';
+import {logger} from '../services/logger';
+import {listWorkouts, WORKOUTS_CHANGED_EVENT} from '../services/workouts';
+import type {Workout} from '../types/workout';
+
+/** Saved structured workouts, refreshed whenever the library changes */
+export function useWorkouts() {
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const isMounted = useRef(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await listWorkouts();
+      if (isMounted.current) setWorkouts(list);
+    } catch (err) {
+      logger.warn('training', 'Failed to list workouts', { error: err });
+      if (isMounted.current) setWorkouts([]);
+    } finally {
+      if (isMounted.current) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    isMounted.current = true;
+    refresh();
+    const sub = DeviceEventEmitter.addListener(WORKOUTS_CHANGED_EVENT, refresh);
+    return () => {
+      isMounted.current = false;
+      sub.remove();
+    };
+  }, [refresh]);
+
+  return {workouts, isLoading, refresh};
+}
@@ -1,9 +1,8 @@
-import React, {useEffect, useRef} from 'react';
+import React, {useCallback, useEffect, useMemo, useRef} from 'react';
 import {
   createNavigationContainerRef,
   DarkTheme,
   DefaultTheme,
-  LinkingOptions,
   NavigationContainer,
   Theme,
   useNavigation
@@ -44,10 +43,11 @@ import {UserProfileScreen} from '../screens/details/UserProfileScreen';
 import {ActivityDetailScreen} from '../screens/details/ActivityDetailScreen';
 import {ActivityShareScreen} from '../screens/details/ActivityShareScreen';
 import {PostDetailScreen} from '../screens/details/PostDetailScreen';
+import {ShareLinkScreen} from '../screens/details/ShareLinkScreen';
 import {ChatScreen, ConversationsListScreen} from '../screens/messaging';
 import {EventCommentarySettingsScreen, EventFormScreen} from '../screens/events';
 import {PostFormScreen} from '../screens/posts';
-import {ActivityFormScreen, GpxImportScreen} from '../screens/activities';
+import {ActivityExportScreen, ActivityFormScreen, GpxImportScreen} from '../screens/activities';
 import {PaywallScreen} from '../screens/PaywallScreen';
 import {EditProfileScreen} from '../screens/profile';
 import {BlockedUsersScreen, PrivacyZonesScreen, SettingsScreen, TrainingRemindersScreen} from '../screens/settings';
@@ -74,10 +74,12 @@ import {FeedbackFormScreen} from '../screens/feedback/FeedbackFormScreen';
 import {FeedbackDetailScreen} from '../screens/feedback/FeedbackDetailScreen';
 import {InviteMemberScreen} from '../screens/teams/InviteMemberScreen';
 import {TeamsLeaderboardScreen} from '../screens/teams/TeamsLeaderboardScreen';
-import {RouteDetailScreen, RouteLibraryScreen, RoutePlannerScreen} from '../screens/routes';
+import {OfflineRoutesScreen, RouteDetailScreen, RouteFromTrackScreen, RouteLibraryScreen, RoutePlannerScreen} from '../screens/routes';
+import {WorkoutEditorScreen} from '../screens/workouts';
 
 // Types
 import type {AuthStackParamList, MainTabParamList, RootStackParamList,} from './types';
+import {createLinking, openPendingDeepLink} from './linking';
 import {FeedScreen} from '../screens/main/FeedScreen';
 import {InsightsScreen} from '../screens/main/InsightsScreen';
 import {UnsyncedActivitiesScreen} from '../screens/main/UnsyncedActivitiesScreen';
@@ -90,28 +92,6 @@ import {GoalFormScreen} from '../screens/goals/GoalFormScreen';
 // Create navigation ref for use outside of React components (e.g., push notification handlers)
 export const navigationRef = createNavigationContainerRef<RootStackParamList>();
 
-// Deep linking: /reset-password?token=XXX&email=YYY opens the reset flow
-// inside the Auth modal stack on racefy://, https://racefy.io and https://app.dev.racefy.io.
-// /messages/{id} opens the Chat screen directly (works for direct & team chats —
-// ChatScreen fetches the conversation when it's not passed as a param).
-const linking: LinkingOptions<RootStackParamList> = {
-  prefixes: ['racefy://', 'https://racefy.io', 'https://app.dev.racefy.io'],
-  config: {
-    screens: {
-      Auth: {
-        screens: {
-          Login: 'login',
-          Register: 'register',
-          ForgotPassword: 'forgot-password',
-          ResetPassword: 'reset-password',
-        },
-      },
-      Chat: 'messages/:conversationId',
-      ConversationsList: 'messages',
-    },
-  },
-};
-
 const RootStack = createNativeStackNavigator<RootStackParamList>();
 const AuthStack = createNativeStackNavigator<AuthStackParamList>();
 const MainTab = createBottomTabNavigator<MainTabParamList>();
@@ -310,6 +290,13 @@ export function AppNavigator() {
   // Initialize push notifications with navigation ref for deep linking
   usePushNotifications({ navigationRef });
 
+  // Deep linking (see navigation/linking.ts) — links behind login wait for it
+  const linkingAccess = isAuthenticated ? (requiresConsent ? 'consent' : 'auth') : 'guest';
+  const linking = useMemo(() => createLinking(linkingAccess), [linkingAccess]);
+  const handleNavigationReady = useCallback(() => {
+    if (linkingAccess === 'auth') openPendingDeepLink(navigationRef);
+  }, [linkingAccess]);
+
   if (isLoading) {
     return <Loading fullScreen message="Loading..." />;
   }
@@ -348,7 +335,13 @@ export function AppNavigator() {
 
   return (
     <ErrorBoundary>
-        <NavigationContainer ref={navigationRef} theme={navigationTheme} key={authStateKey} linking={linking}>
+        <NavigationContainer
+          ref={navigationRef}
+          theme={navigationTheme}
+          key={authStateKey}
+          linking={linking}
+          onReady={handleNavigationReady}
+        >
           <RootStack.Navigator
             screenOptions={{
               headerShown: false,
@@ -424,6 +417,10 @@ export function AppNavigator() {
               name="PostDetail"
               component={PostDetailScreen}
             />
+            <RootStack.Screen
+              name="ShareLink"
+              component={ShareLinkScreen}
+            />
             <RootStack.Screen
               name="ConversationsList"
               component={ConversationsListScreen}
@@ -452,6 +449,10 @@ export function AppNavigator() {
               name="GpxImport"
               component={GpxImportScreen}
             />
+            <RootStack.Screen
+              name="ActivityExport"
+              component={ActivityExportScreen}
+            />
             <RootStack.Screen
               name="UnsyncedActivities"
               component={UnsyncedActivitiesScreen}
@@ -568,6 +569,10 @@ export function AppNavigator() {
             <RootStack.Screen name="RouteLibrary" component={RouteLibraryScreen} />
             <RootStack.Screen name="RouteDetail" component={RouteDetailScreen} />
             <RootStack.Screen name="RoutePlanner" component={RoutePlannerScreen} />
+            <RootStack.Screen name="OfflineRoutes" component={OfflineRoutesScreen} />
+            <RootStack.Screen name="RouteFromTrack" component={RouteFromTrackScreen} />
+            {/* Workouts */}
+            <RootStack.Screen name="WorkoutEditor" component={WorkoutEditorScreen} />
           </>
         )}
           </RootStack.Navigator>
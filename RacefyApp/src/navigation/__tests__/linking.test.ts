@@ -0,0 +1,47 @@
+import { createLinking, normalizeDeepLinkPath, toDeepLinkPath } from '../linking';
+
+jest.mock('../../services/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+/** Route name and params the signed-in app opens for a web URL */
+function resolve(url: string) {
+  const path = toDeepLinkPath(url);
+  const state = path ? createLinking('auth').getStateFromPath!(path, undefined as any) : undefined;
+  const route = state?.routes[state.routes.length - 1];
+  return route && { name: route.name, params: route.params };
+}
+
+describe('deep links', () => {
+  // ShareLinkResponse.url values, as documented in docs/SOCIAL_SHARING.md
+  it('opens share links for activities and posts', () => {
+    expect(resolve('https://racefy.io/share/activities/x7k9m2p4r5t1w3z8')).toEqual({
+      name: 'ShareLink',
+      params: { kind: 'activities', key: 'x7k9m2p4r5t1w3z8' },
+    });
+    expect(resolve('https://app.dev.racefy.io/share/posts/a3k7n9p2m4t8w1z5')).toEqual({
+      name: 'ShareLink',
+      params: { kind: 'posts', key: 'a3k7n9p2m4t8w1z5' },
+    });
+  });
+
+  it('opens event share links with or without the @', () => {
+    expect(resolve('https://racefy.io/share/events/@city-marathon-2025')).toEqual({
+      name: 'ShareLink',
+      params: { kind: 'events', key: '@city-marathon-2025' },
+    });
+    expect(resolve('https://racefy.io/share/events/city-marathon-2025')).toEqual({
+      name: 'ShareLink',
+      params: { kind: 'events', key: 'city-marathon-2025' },
+    });
+  });
+
+  it('opens an event friendly_url through the share link screen', () => {
+    expect(normalizeDeepLinkPath('/events/@city-marathon-2025')).toBe('share/events/@city-marathon-2025');
+    expect(resolve('https://racefy.io/events/42')).toEqual({ name: 'EventDetail', params: { eventId: 42 } });
+  });
+
+  it('ignores links to other sites', () => {
+    expect(toDeepLinkPath('https://example.com/share/posts/abc')).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import {Linking} from 'react-native';
+import {
+  getActionFromState,
+  getStateFromPath,
+  type LinkingOptions,
+  type NavigationContainerRef,
+  type ParamListBase,
+} from '@react-navigation/native';
+import {logger} from '../services/logger';
+import type {RootStackParamList} from './types';
+
+/**
+ * Deep links on racefy://, https://racefy.io and https://app.dev.racefy.io.
+ *
+ * Web paths the app opens:
+ *   /activities/{id}, /posts/{id}, /events/{id}, /routes/{id}, /goals/{id}
+ *   /@{username} (profile), /teams/{slug}, /messages/{id}
+ *   /events/@{slug} (the event's `friendly_url`) and /share/{activities|posts|events}/{token|slug}
+ *     (ShareLinkResponse.url, see docs/SOCIAL_SHARING.md) — resolved by ShareLinkScreen
+ *   /reset-password?token=XXX&email=YYY (reset flow inside the Auth modal stack)
+ *
+ * A link to anything behind login opened while logged out (or before consent)
+ * is kept and opened once the signed-in navigator is ready, so cold starts,
+ * links tapped on the landing screen and push notification `url`s all end up
+ * in the same place.
+ */
+
+export const DEEP_LINK_PREFIXES = ['racefy://', 'https://racefy.io', 'https://app.dev.racefy.io'];
+
+/** Which root navigator is mounted — see AppNavigator */
+export type DeepLinkAccess = 'guest' | 'consent' | 'auth';
+
+const config: NonNullable<LinkingOptions<RootStackParamList>['config']> = {
+  // Deep-linked screens get the tabs underneath so back works on cold start
+  initialRouteName: 'Main',
+  screens: {
+    Auth: {
+      screens: {
+        Login: 'login',
+        Register: 'register',
+        ForgotPassword: 'forgot-password',
+        ResetPassword: 'reset-password',
+      },
+    },
+    Main: {
+      screens: {
+        Feed: 'feed',
+        Events: 'events',
+      },
+    },
+    ActivityDetail: {path: 'activities/:activityId', parse: {activityId: Number}},
+    PostDetail: {path: 'posts/:postId', parse: {postId: Number}},
+    EventDetail: {path: 'events/:eventId', parse: {eventId: Number}},
+    ShareLink: 'share/:kind/:key',
+    UserProfile: 'users/:username',
+    RouteLibrary: 'routes',
+    RouteDetail: {path: 'routes/:routeId', parse: {routeId: Number}},
+    TeamsList: 'teams',
+    TeamDetail: 'teams/:slug',
+    Goals: 'goals',
+    GoalDetail: {path: 'goals/:goalId', parse: {goalId: Number}},
+    Chat: {path: 'messages/:conversationId', parse: {conversationId: Number}},
+    ConversationsList: 'messages',
+  },
+};
+
+// Reachable without an account (mounted in the guest navigator)
+const PUBLIC_ROUTES = new Set<string>(['Landing', 'Auth', 'LegalDocuments']);
+
+let pendingPath: string | null = null;
+let initialUrlHandled = false;
+
+/** Rewrite the web URL forms the path config can't express */
+export function normalizeDeepLinkPath(path: string): string {
+  const trimmed = path.replace(/^\/+/, '');
+
+  // /@username
+  const profile = trimmed.match(/^@([\w.-]+)\/?(\?.*)?$/);
+  if (profile) return `users/${profile[1]}`;
+
+  // /events/@slug, or a bare slug in place of the id
+  const eventSlug = trimmed.match(/^events\/@?([^/?#]+)\/?$/);
+  if (eventSlug && !/^\d+$/.test(eventSlug[1])) return `share/events/@${eventSlug[1]}`;
+
+  // /messages?conversation={id}
+  const conversation = trimmed.match(/^messages\/?\?(?:.*&)?conversation=(\d+)/);
+  if (conversation) return `messages/${conversation[1]}`;
+
+  return trimmed;
+}
+
+/** Path part of a link we handle, or null for other sites */
+export function toDeepLinkPath(url: string): string | null {
+  if (url.startsWith('/')) return url;
+  const prefix = DEEP_LINK_PREFIXES.find((p) => url.startsWith(p));
+  return prefix ? url.slice(prefix.length) || '/' : null;
+}
+
+function resolveState(path: string) {
+  return getStateFromPath<RootStackParamList>(normalizeDeepLinkPath(path), config);
+}
+
+function targetRoute(state: NonNullable<ReturnType<typeof resolveState>>): string {
+  return state.routes[state.routes.length - 1].name;
+}
+
+function loginState() {
+  return {
+    routes: [{name: 'Landing'}, {name: 'Auth', state: {routes: [{name: 'Login'}]}}],
+  } as NonNullable<ReturnType<typeof resolveState>>;
+}
+
+export function createLinking(access: DeepLinkAccess): LinkingOptions<RootStackParamList> {
+  return {
+    prefixes: DEEP_LINK_PREFIXES,
+    config,
+    // The container remounts when auth changes; only the first one may open
+    // the launch URL, later ones resume through the pending link instead
+    async getInitialURL() {
+      if (initialUrlHandled) return null;
+      initialUrlHandled = true;
+      return Linking.getInitialURL();
+    },
+    getStateFromPath(path) {
+      const state = resolveState(path);
+      if (!state || access === 'auth' || PUBLIC_ROUTES.has(targetRoute(state))) return state;
+
+      pendingPath = path;
+      logger.info('general', 'Deep link kept until sign-in', {path, access});
+      return access === 'guest' ? loginState() : undefined;
+    },
+  };
+}
+
+/**
+ * Open a link from outside the linking subscription (push notification `url`,
+ * a resumed pending link). Returns false when the app has no screen for it.
+ */
+export function openDeepLink(navigation: NavigationContainerRef<ParamListBase>, url: string): boolean {
+  const path = toDeepLinkPath(url);
+  const state = path ? resolveState(path) : undefined;
+  if (!path || !state) {
+    logger.warn('general', 'Unknown deep link', {url});
+    return false;
+  }
+
+  const routeNames = navigation.getRootState()?.routeNames ?? [];
+  if (!routeNames.includes(targetRoute(state))) {
+    pendingPath = path;
+    logger.info('general', 'Deep link kept until sign-in', {path});
+    if (routeNames.includes('Auth')) navigation.navigate('Auth', {screen: 'Login'});
+    return true;
+  }
+
+  const action = getActionFromState(state, config);
+  if (!action) return false;
+  navigation.dispatch(action);
+  return true;
+}
+
+/** Called when the signed-in navigator is ready */
+export function openPendingDeepLink(navigation: NavigationContainerRef<ParamListBase>): void {
+  const path = pendingPath;
+  pendingPath = null;
+  if (path) openDeepLink(navigation, path);
+}
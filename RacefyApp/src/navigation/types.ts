@@ -29,6 +29,8 @@ export type RootStackParamList = {
   ActivityDetail: { activityId: number };
   ActivityShare: { activityId: number; hasGpsTrack?: boolean; photos?: import('../types/api').Photo[] };
   UserProfile: { username: string };
+  // Share links (/share/{kind}/{token|@slug}) and event slugs, resolved to one of the screens above
+  ShareLink: { kind: string; key: string };
   Settings: undefined;
   BlockedUsers: undefined;
   PrivacyZones: undefined;
@@ -43,6 +45,7 @@ export type RootStackParamList = {
   PostForm: { postId?: number };
   ActivityForm: { activityId?: number };
   GpxImport: undefined;
+  ActivityExport: undefined;
   UnsyncedActivities: undefined;
   Paywall: { feature?: string } | undefined;
   Leaderboard: undefined;
@@ -78,6 +81,10 @@ export type RootStackParamList = {
   RouteLibrary: { selectMode?: boolean } | undefined;
   RouteDetail: { routeId: number };
   RoutePlanner: undefined;
+  OfflineRoutes: undefined;
+  RouteFromTrack: { activityId?: number } | undefined;
+  // Workouts
+  WorkoutEditor: { workoutId?: string } | undefined;
 };
 
 declare global {
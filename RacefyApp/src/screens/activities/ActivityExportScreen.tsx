@@ -0,0 +1,362 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Platform,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useTranslation } from 'react-i18next';
+import { Button, Card, OptionSelector, ScreenContainer, ScreenHeader } from '../../components';
+import { api } from '../../services/api';
+import { logger } from '../../services/logger';
+import { useAuth } from '../../hooks';
+import { useTheme } from '../../hooks/useTheme';
+import { useSubscription } from '../../hooks/useSubscription';
+import {
+  ACTIVITY_EXPORT_FORMATS,
+  exportActivitiesAndShare,
+  trackPointsToGpsPoints,
+  type ActivityExportFormat,
+  type ActivityExportInput,
+} from '../../utils/activityExport';
+import { spacing, fontSize, borderRadius } from '../../theme';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../navigation/types';
+import type { Activity } from '../../types/api';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'ActivityExport'>;
+
+/** Default range: the last 30 days */
+const DEFAULT_RANGE_DAYS = 30;
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function endOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(23, 59, 59, 999);
+  return d;
+}
+
+export function ActivityExportScreen({ navigation }: Props) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { user } = useAuth();
+  const { canUse } = useSubscription();
+
+  const [fromDate, setFromDate] = useState(() => {
+    const d = new Date();
+    d.setDate(d.getDate() - DEFAULT_RANGE_DAYS);
+    return d;
+  });
+  const [toDate, setToDate] = useState(() => new Date());
+  const [datePickerField, setDatePickerField] = useState<'from' | 'to' | null>(null);
+  const [exportFormat, setExportFormat] = useState<ActivityExportFormat>('gpx');
+  const [hidePrivacyZones, setHidePrivacyZones] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<{ current: number; total: number } | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const formatOptions = ACTIVITY_EXPORT_FORMATS.map((format) => ({
+    value: format,
+    label: t(`activityExport.formats.${format}.title`),
+  }));
+
+  const handleDateChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    if (Platform.OS === 'android') setDatePickerField(null);
+    if (!selectedDate) return;
+    if (datePickerField === 'from') {
+      setFromDate(selectedDate);
+      if (selectedDate > toDate) setToDate(selectedDate);
+    } else if (datePickerField === 'to') {
+      setToDate(selectedDate);
+    }
+  };
+
+  /** Own activities started within the range; the list is newest first */
+  const fetchActivitiesInRange = async (userId: number, from: Date, to: Date): Promise<Activity[]> => {
+    const found: Activity[] = [];
+    let page = 1;
+    let lastPage = 1;
+    do {
+      const response = await api.getActivities({ user_id: userId, page });
+      lastPage = response.meta.last_page;
+      let reachedStart = false;
+      for (const activity of response.data) {
+        const startedAt = new Date(activity.started_at);
+        if (startedAt < from) {
+          reachedStart = true;
+          continue;
+        }
+        if (startedAt <= to && activity.has_gps_track) found.push(activity);
+      }
+      if (reachedStart) break;
+      page++;
+    } while (page <= lastPage && isMountedRef.current);
+    return found.reverse();
+  };
+
+  const handleExport = async () => {
+    if (!user || isExporting) return;
+    const from = startOfDay(fromDate);
+    const to = endOfDay(toDate);
+
+    setIsExporting(true);
+    try {
+      const activities = await fetchActivitiesInRange(user.id, from, to);
+      if (activities.length === 0) {
+        Alert.alert(t('activityExport.bulkTitle'), t('activityExport.noActivities'));
+        return;
+      }
+
+      // Splits only matter for TCX laps, and the stats endpoint is premium
+      const includeSplits = exportFormat === 'tcx' && canUse('advanced_stats');
+      const inputs: ActivityExportInput[] = [];
+      for (let i = 0; i < activities.length; i++) {
+        if (!isMountedRef.current) return;
+        setProgress({ current: i + 1, total: activities.length });
+        const activity = activities[i];
+        try {
+          const [track, stats] = await Promise.all([
+            api.getActivityTrackPoints(activity.id),
+            includeSplits ? api.getActivityAnalysis(activity.id).catch(() => null) : Promise.resolve(null),
+          ]);
+          inputs.push({
+            activityId: activity.id,
+            name: activity.title,
+            startedAt: activity.started_at,
+            sportType: activity.sport_type?.name,
+            points: trackPointsToGpsPoints(track.data || []),
+            splits: stats?.splits?.splits,
+            calories: activity.calories,
+            distance: activity.distance,
+            duration: activity.duration,
+          });
+        } catch (error: any) {
+          // One broken track shouldn't sink the whole export
+          logger.warn('activity', 'Bulk export: skipping activity', { activityId: activity.id, error: error?.message });
+        }
+      }
+      if (!isMountedRef.current) return;
+
+      const range = `${toDateKey(from)}_${toDateKey(to)}`;
+      const result = await exportActivitiesAndShare(
+        exportFormat,
+        inputs,
+        `racefy-activities-${range}`,
+        t('activityExport.documentTitle', { from: toDateKey(from), to: toDateKey(to) }),
+        { hidePrivacyZones }
+      );
+      if (!result.ok) {
+        Alert.alert(
+          t('unsynced.exportFailedTitle'),
+          result.reason === 'privacy_zones_unavailable'
+            ? t('activityExport.privacyZonesUnavailable')
+            : t('unsynced.exportFailedBody')
+        );
+      }
+    } catch (error: any) {
+      logger.error('activity', 'Bulk export failed', { format: exportFormat, error: error?.message });
+      Alert.alert(t('unsynced.exportFailedTitle'), error?.message || t('unsynced.exportFailedBody'));
+    } finally {
+      if (isMountedRef.current) {
+        setIsExporting(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const renderDateField = (field: 'from' | 'to', label: string, value: Date) => (
+    <View style={styles.dateField}>
+      <Text style={[styles.label, { color: colors.textPrimary }]}>{label}</Text>
+      <TouchableOpacity
+        style={[styles.dateButton, { borderColor: colors.border, backgroundColor: colors.background }]}
+        onPress={() => setDatePickerField(field)}
+        disabled={isExporting}
+      >
+        <Text style={[styles.dateText, { color: colors.textPrimary }]}>{toDateKey(value)}</Text>
+        <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ScreenContainer>
+      <ScreenHeader
+        title={t('activityExport.bulkTitle')}
+        showBack
+        onBack={() => navigation.goBack()}
+      />
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <Card style={styles.sectionCard}>
+          <View style={styles.infoHeader}>
+            <Ionicons name="information-circle" size={24} color={colors.primary} />
+            <Text style={[styles.infoTitle, { color: colors.textPrimary }]}>
+              {t('activityExport.bulkTitle')}
+            </Text>
+          </View>
+          <Text style={[styles.infoText, { color: colors.textSecondary }]}>
+            {t('activityExport.bulkDescription')}
+          </Text>
+        </Card>
+
+        <Card style={styles.sectionCard}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+            {t('activityExport.dateRange')}
+          </Text>
+          <View style={styles.dateRow}>
+            {renderDateField('from', t('activityExport.from'), fromDate)}
+            {renderDateField('to', t('activityExport.to'), toDate)}
+          </View>
+        </Card>
+
+        <Card style={styles.sectionCard}>
+          <OptionSelector
+            label={t('activityExport.format')}
+            value={exportFormat}
+            onChange={setExportFormat}
+            options={formatOptions}
+            disabled={isExporting}
+          />
+          <Text style={[styles.infoText, { color: colors.textSecondary }]}>
+            {t(`activityExport.formats.${exportFormat}.description`)}
+          </Text>
+        </Card>
+
+        <Card style={styles.sectionCard}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={[styles.infoTitle, { color: colors.textPrimary }]}>
+                {t('activityExport.hidePrivacyZones')}
+              </Text>
+              <Text style={[styles.infoText, { color: colors.textSecondary }]}>
+                {hidePrivacyZones
+                  ? t('activityExport.hidePrivacyZonesOn')
+                  : t('activityExport.hidePrivacyZonesOff')}
+              </Text>
+            </View>
+            <Switch
+              value={hidePrivacyZones}
+              onValueChange={setHidePrivacyZones}
+              disabled={isExporting}
+              trackColor={{ false: colors.border, true: colors.primary }}
+            />
+          </View>
+        </Card>
+
+        {progress && (
+          <Text style={[styles.progressText, { color: colors.textSecondary }]}>
+            {t('activityExport.progress', progress)}
+          </Text>
+        )}
+
+        <Button
+          title={t('activityExport.export')}
+          onPress={handleExport}
+          loading={isExporting}
+          disabled={!user || isExporting}
+          variant="primary"
+        />
+      </ScrollView>
+
+      {datePickerField && (
+        <DateTimePicker
+          value={datePickerField === 'from' ? fromDate : toDate}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleDateChange}
+          minimumDate={datePickerField === 'to' ? fromDate : undefined}
+          maximumDate={new Date()}
+        />
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  sectionCard: {
+    marginBottom: spacing.md,
+  },
+  sectionTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    marginBottom: spacing.md,
+  },
+  infoHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  infoTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  infoText: {
+    fontSize: fontSize.sm,
+    lineHeight: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  switchText: {
+    flex: 1,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  dateField: {
+    flex: 1,
+  },
+  label: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+    marginBottom: spacing.sm,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  dateText: {
+    fontSize: fontSize.md,
+  },
+  progressText: {
+    fontSize: fontSize.sm,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+});
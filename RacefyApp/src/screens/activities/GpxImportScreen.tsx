@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -12,13 +12,33 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import * as DocumentPicker from 'expo-document-picker';
-import { ScreenHeader, Button, Card, EventSelectionSheet, ScreenContainer } from '../../components';
+import * as FileSystem from 'expo-file-system/legacy';
+import Slider from '@react-native-community/slider';
+import { ScreenHeader, Button, Card, EventSelectionSheet, RoutePreview, ScreenContainer } from '../../components';
 import { api } from '../../services/api';
 import { logger } from '../../services/logger';
 import { useTheme } from '../../hooks/useTheme';
+import { useUnits } from '../../hooks/useUnits';
 import { useOngoingEvents } from '../../hooks/useOngoingEvents';
 import { useSportTypes, type SportTypeWithIcon } from '../../hooks/useSportTypes';
 import type { Event } from '../../types/api';
+import {
+  MAX_IMPORT_FILE_BYTES,
+  checkImportPoints,
+  detectActivityFileFormat,
+  matchSportSlug,
+  parseActivityFile,
+  secondsIntoActivity,
+  summarizeActivityPoints,
+  toLineString,
+  trimActivityPoints,
+  type ActivityFileFormat,
+  type ActivityImportErrorCode,
+  type ParsedActivityFile,
+} from '../../utils/activityImport';
+import { writeGpxToCache } from '../../utils/gpxExport';
+import { formatDurationCompact } from '../../utils/formatDuration';
+import { formatTime } from '../../utils/formatters';
 import { spacing, fontSize, borderRadius } from '../../theme';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
@@ -30,14 +50,30 @@ interface SelectedFile {
   name: string;
   type: string;
   size?: number;
+  format: ActivityFileFormat;
 }
 
+const PICKER_TYPES = [
+  'application/gpx+xml',
+  'application/vnd.garmin.tcx+xml',
+  'application/vnd.ant.fit',
+  'text/xml',
+  'application/xml',
+  'application/octet-stream',
+  '*/*',
+];
+
 export function GpxImportScreen({ navigation }: Props) {
   const { t } = useTranslation();
   const { colors } = useTheme();
+  const { formatDistance, formatElevation } = useUnits();
   const { sportTypes, isLoading: sportsLoading } = useSportTypes();
 
   const [selectedFile, setSelectedFile] = useState<SelectedFile | null>(null);
+  const [parsedFile, setParsedFile] = useState<ParsedActivityFile | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
   const [selectedSport, setSelectedSport] = useState<SportTypeWithIcon | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [eventSheetVisible, setEventSheetVisible] = useState(false);
@@ -46,50 +82,133 @@ export function GpxImportScreen({ navigation }: Props) {
   // Fetch ongoing events where user is registered
   const { events: ongoingEvents, isLoading: eventsLoading, refresh: refreshEvents } = useOngoingEvents();
 
+  const showFileError = (code: ActivityImportErrorCode) => {
+    Alert.alert(t('gpxImport.errors.title'), t(`gpxImport.errors.${code}`));
+  };
+
+  const clearFile = () => {
+    setSelectedFile(null);
+    setParsedFile(null);
+  };
+
   const handleSelectFile = async () => {
+    let file: DocumentPicker.DocumentPickerAsset;
     try {
       const result = await DocumentPicker.getDocumentAsync({
-        type: ['application/gpx+xml', 'text/xml', 'application/xml', '*/*'],
+        type: PICKER_TYPES,
         copyToCacheDirectory: true,
       });
-
-      if (!result.canceled && result.assets && result.assets.length > 0) {
-        const file = result.assets[0];
-
-        // Validate file extension
-        const fileName = file.name.toLowerCase();
-        if (!fileName.endsWith('.gpx')) {
-          Alert.alert(
-            t('common.error'),
-            t('gpxImport.invalidFileType')
-          );
-          return;
-        }
-
-        setSelectedFile({
-          uri: file.uri,
-          name: file.name,
-          type: file.mimeType || 'application/gpx+xml',
-          size: file.size,
-        });
-      }
+      if (result.canceled || !result.assets || result.assets.length === 0) return;
+      file = result.assets[0];
     } catch (error) {
       logger.error('general', 'Document picker error', { error });
       Alert.alert(t('common.error'), t('gpxImport.selectFileFailed'));
+      return;
+    }
+
+    // Validate file extension and size before reading it
+    const format = detectActivityFileFormat(file.name);
+    if (!format) {
+      showFileError('unsupported_format');
+      return;
     }
+    if (file.size && file.size > MAX_IMPORT_FILE_BYTES) {
+      showFileError('too_large');
+      return;
+    }
+
+    setIsParsing(true);
+    clearFile();
+    try {
+      const content = await FileSystem.readAsStringAsync(file.uri, {
+        encoding: format === 'fit' ? FileSystem.EncodingType.Base64 : FileSystem.EncodingType.UTF8,
+      });
+      const result = parseActivityFile(format, content);
+      if (!result.ok) {
+        logger.warn('activity', 'Activity file rejected locally', { format, reason: result.error });
+        showFileError(result.error);
+        return;
+      }
+
+      const { activity } = result;
+      logger.info('activity', 'Activity file parsed', {
+        format,
+        points: activity.points.length,
+        sport: activity.sport,
+      });
+      setSelectedFile({
+        uri: file.uri,
+        name: file.name,
+        type: file.mimeType || 'application/gpx+xml',
+        size: file.size,
+        format,
+      });
+      setParsedFile(activity);
+      setTrimStart(0);
+      setTrimEnd(activity.points.length - 1);
+
+      // Preselect the sport written in the file
+      const slug = matchSportSlug(activity.sport);
+      const matchingSport = slug ? sportTypes.find((sport) => sport.slug === slug) : undefined;
+      if (matchingSport && !selectedSport) setSelectedSport(matchingSport);
+    } catch (error) {
+      logger.error('activity', 'Failed to read activity file', { format, error });
+      showFileError('corrupt');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const points = parsedFile?.points ?? [];
+  const isTrimmed = parsedFile !== null && (trimStart > 0 || trimEnd < points.length - 1);
+  const trimmedPoints = useMemo(
+    () => (points.length > 0 ? trimActivityPoints(points, trimStart, trimEnd) : []),
+    [points, trimStart, trimEnd]
+  );
+  const summary = useMemo(
+    () => (trimmedPoints.length > 0 ? summarizeActivityPoints(trimmedPoints) : null),
+    [trimmedPoints]
+  );
+
+  /**
+   * The import endpoint takes GPX. Untouched GPX files go up as-is; TCX, FIT
+   * and trimmed tracks are rewritten as GPX from the parsed points.
+   */
+  const buildUploadFile = async (): Promise<{ uri: string; name: string; type: string }> => {
+    if (!selectedFile || !parsedFile) throw new Error('No file selected');
+    if (selectedFile.format === 'gpx' && !isTrimmed) {
+      return { uri: selectedFile.uri, name: selectedFile.name, type: selectedFile.type };
+    }
+    const uri = await writeGpxToCache({
+      activityId: `import-${Date.now()}`,
+      name: parsedFile.name,
+      startedAt: trimmedPoints[0]?.time,
+      sportType: parsedFile.sport,
+      points: trimmedPoints,
+    });
+    const baseName = selectedFile.name.replace(/\.[^.]+$/, '');
+    return { uri, name: `${baseName}.gpx`, type: 'application/gpx+xml' };
   };
 
   const handleImport = async () => {
-    if (!selectedFile || !selectedSport) return;
+    if (!selectedFile || !parsedFile || !selectedSport) return;
+
+    // The whole file passed these checks, the trimmed selection may not
+    const trimmedError = checkImportPoints(trimmedPoints);
+    if (trimmedError) {
+      showFileError(trimmedError);
+      return;
+    }
 
     setIsImporting(true);
     try {
+      const uploadFile = await buildUploadFile();
       const formData = new FormData();
 
       formData.append('file', {
-        uri: Platform.OS === 'ios' ? selectedFile.uri.replace('file://', '') : selectedFile.uri,
-        type: selectedFile.type,
-        name: selectedFile.name,
+        uri: Platform.OS === 'ios' ? uploadFile.uri.replace('file://', '') : uploadFile.uri,
+        type: uploadFile.type,
+        name: uploadFile.name,
       } as any);
 
       formData.append('sport_type_id', String(selectedSport.id));
@@ -145,7 +264,7 @@ export function GpxImportScreen({ navigation }: Props) {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
-  const canImport = selectedFile && selectedSport && !isImporting;
+  const canImport = selectedFile && parsedFile && selectedSport && !isImporting && !isParsing;
 
   return (
     <ScreenContainer>
@@ -188,7 +307,14 @@ export function GpxImportScreen({ navigation }: Props) {
             onPress={handleSelectFile}
             activeOpacity={0.7}
           >
-            {selectedFile ? (
+            {isParsing ? (
+              <View style={styles.emptyFileContent}>
+                <ActivityIndicator size="small" color={colors.primary} />
+                <Text style={[styles.selectFileHint, styles.parsingText, { color: colors.textSecondary }]}>
+                  {t('gpxImport.reading')}
+                </Text>
+              </View>
+            ) : selectedFile ? (
               <View style={styles.selectedFileContent}>
                 <View style={[styles.fileIconContainer, { backgroundColor: colors.primary + '15' }]}>
                   <Ionicons name="document-text" size={28} color={colors.primary} />
@@ -197,14 +323,12 @@ export function GpxImportScreen({ navigation }: Props) {
                   <Text style={[styles.fileName, { color: colors.textPrimary }]} numberOfLines={1}>
                     {selectedFile.name}
                   </Text>
-                  {selectedFile.size && (
-                    <Text style={[styles.fileSize, { color: colors.textSecondary }]}>
-                      {formatFileSize(selectedFile.size)}
-                    </Text>
-                  )}
+                  <Text style={[styles.fileSize, { color: colors.textSecondary }]}>
+                    {[selectedFile.format.toUpperCase(), formatFileSize(selectedFile.size)].filter(Boolean).join(' · ')}
+                  </Text>
                 </View>
                 <TouchableOpacity
-                  onPress={() => setSelectedFile(null)}
+                  onPress={clearFile}
                   hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                 >
                   <Ionicons name="close-circle" size={24} color={colors.textMuted} />
@@ -226,6 +350,91 @@ export function GpxImportScreen({ navigation }: Props) {
           </TouchableOpacity>
         </Card>
 
+        {/* Preview */}
+        {parsedFile && summary && (
+          <Card style={styles.sectionCard}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+              {t('gpxImport.preview')}
+            </Text>
+            <View style={styles.mapContainer}>
+              <RoutePreview trackData={toLineString(trimmedPoints)} height={200} />
+            </View>
+            <Text style={[styles.startedAt, { color: colors.textSecondary }]}>
+              {new Date(summary.startedAt).toLocaleString()}
+            </Text>
+            <View style={styles.statsGrid}>
+              <PreviewStat icon="resize-outline" label={t('gpxImport.distance')} value={formatDistance(summary.distance)} colors={colors} />
+              <PreviewStat icon="time-outline" label={t('gpxImport.duration')} value={formatDurationCompact(summary.duration)} colors={colors} />
+              <PreviewStat
+                icon="trending-up-outline"
+                label={t('gpxImport.elevation')}
+                value={`+${formatElevation(summary.elevationGain)} / -${formatElevation(summary.elevationLoss)}`}
+                colors={colors}
+              />
+              <PreviewStat
+                icon="heart-outline"
+                label={t('gpxImport.heartRate')}
+                value={summary.avgHeartRate !== null
+                  ? t('gpxImport.heartRateValue', { avg: summary.avgHeartRate, max: summary.maxHeartRate })
+                  : '—'}
+                colors={colors}
+              />
+            </View>
+          </Card>
+        )}
+
+        {/* Trim */}
+        {parsedFile && points.length > 2 && (
+          <Card style={styles.sectionCard}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+              {t('gpxImport.trim')}
+            </Text>
+            <View style={styles.trimRow}>
+              <Text style={[styles.trimLabel, { color: colors.textSecondary }]}>{t('gpxImport.trimStart')}</Text>
+              <Text style={[styles.trimValue, { color: colors.textPrimary }]}>
+                {formatTime(secondsIntoActivity(points, trimStart))}
+              </Text>
+            </View>
+            <Slider
+              minimumValue={0}
+              maximumValue={points.length - 2}
+              step={1}
+              value={trimStart}
+              onValueChange={(value) => setTrimStart(Math.min(value, trimEnd - 1))}
+              minimumTrackTintColor={colors.border}
+              maximumTrackTintColor={colors.primary}
+              thumbTintColor={colors.primary}
+            />
+            <View style={styles.trimRow}>
+              <Text style={[styles.trimLabel, { color: colors.textSecondary }]}>{t('gpxImport.trimEnd')}</Text>
+              <Text style={[styles.trimValue, { color: colors.textPrimary }]}>
+                {formatTime(secondsIntoActivity(points, trimEnd))}
+              </Text>
+            </View>
+            <Slider
+              minimumValue={1}
+              maximumValue={points.length - 1}
+              step={1}
+              value={trimEnd}
+              onValueChange={(value) => setTrimEnd(Math.max(value, trimStart + 1))}
+              minimumTrackTintColor={colors.primary}
+              maximumTrackTintColor={colors.border}
+              thumbTintColor={colors.primary}
+            />
+            {isTrimmed && (
+              <TouchableOpacity
+                onPress={() => {
+                  setTrimStart(0);
+                  setTrimEnd(points.length - 1);
+                }}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Text style={[styles.trimReset, { color: colors.primary }]}>{t('gpxImport.resetTrim')}</Text>
+              </TouchableOpacity>
+            )}
+          </Card>
+        )}
+
         {/* Sport Type Selection */}
         <Card style={styles.sectionCard}>
           <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
@@ -355,6 +564,21 @@ export function GpxImportScreen({ navigation }: Props) {
   );
 }
 
+function PreviewStat({ icon, label, value, colors }: {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  value: string;
+  colors: ReturnType<typeof useTheme>['colors'];
+}) {
+  return (
+    <View style={styles.statItem}>
+      <Ionicons name={icon} size={20} color={colors.primary} />
+      <Text style={[styles.statValue, { color: colors.textPrimary }]}>{value}</Text>
+      <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{label}</Text>
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -440,6 +664,55 @@ const styles = StyleSheet.create({
     fontSize: fontSize.sm,
     marginTop: 2,
   },
+  parsingText: {
+    marginTop: spacing.sm,
+  },
+  mapContainer: {
+    borderRadius: borderRadius.md,
+    overflow: 'hidden',
+  },
+  startedAt: {
+    fontSize: fontSize.sm,
+    marginTop: spacing.sm,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  statItem: {
+    width: '48%',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  statValue: {
+    fontSize: fontSize.lg,
+    fontWeight: '700',
+    marginTop: spacing.xs,
+  },
+  statLabel: {
+    fontSize: fontSize.xs,
+    marginTop: 2,
+  },
+  trimRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+  },
+  trimLabel: {
+    fontSize: fontSize.sm,
+  },
+  trimValue: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  trimReset: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    marginTop: spacing.sm,
+    textAlign: 'right',
+  },
   loadingContainer: {
     padding: spacing.xl,
     alignItems: 'center',
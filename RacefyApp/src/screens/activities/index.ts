@@ -1,2 +1,3 @@
 export { ActivityFormScreen } from './ActivityFormScreen';
 export { GpxImportScreen } from './GpxImportScreen';
+export { ActivityExportScreen } from './ActivityExportScreen';
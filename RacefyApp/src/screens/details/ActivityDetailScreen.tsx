@@ -22,6 +22,7 @@ import {
   Card,
   CommentSection,
   ElevationChart,
+  ExportFormatSheet,
   HeartRateChart,
   InteractionButton,
   KeyboardAwareScreenLayout,
@@ -42,7 +43,12 @@ import {useSubscription} from '../../hooks/useSubscription';
 import {useUnits} from '../../hooks/useUnits';
 import {borderRadius, fontSize, spacing} from '../../theme';
 import {getSportIcon} from '../../utils/sportIcon';
-import {exportGpxAndShare} from '../../utils/gpxExport';
+import {
+  exportActivityAndShare,
+  trackPointsToGpsPoints,
+  type ActivityExportFormat,
+  type ActivityExportOptions,
+} from '../../utils/activityExport';
 import type {NativeStackScreenProps} from '@react-navigation/native-stack';
 import type {RootStackParamList} from '../../navigation/types';
 import type {Activity, GpsTrack, SingleActivityStats, User} from '../../types/api';
@@ -57,7 +63,7 @@ export function ActivityDetailScreen({ route, navigation }: Props) {
   const { canUse, tier } = useSubscription();
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
   const [isActionsSheetVisible, setIsActionsSheetVisible] = useState(false);
-  const { formatDistance, formatPaceWithUnit, formatSpeed, formatElevation } = useUnits();
+  const { formatDistance, formatPaceWithUnit, formatPaceFromSecPerKm, formatSpeed, formatElevation } = useUnits();
   const { activityId } = route.params;
   const scrollViewRef = useRef<ScrollView>(null);
   const [activity, setActivity] = useState<Activity | null>(null);
@@ -238,40 +244,44 @@ export function ActivityDetailScreen({ route, navigation }: Props) {
     }
   }, [isGeneratingReport, tier, activityId, navigation, t]);
 
-  const [isExportingGpx, setIsExportingGpx] = useState(false);
-  const handleExportGpx = useCallback(async () => {
-    if (!activity || isExportingGpx) return;
-    setIsExportingGpx(true);
+  const [isExportSheetVisible, setIsExportSheetVisible] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const handleExport = useCallback(async (exportFormat: ActivityExportFormat, options: ActivityExportOptions) => {
+    if (!activity || isExporting) return;
+    setIsExporting(true);
     try {
       const response = await api.getActivityTrackPoints(activityId);
-      const points = (response.data || []).map(p => ({
-        lat: p.lat,
-        lng: p.lng,
-        ele: p.elevation,
-        time: p.timestamp,
-        speed: p.speed,
-      }));
+      const points = trackPointsToGpsPoints(response.data || []);
       if (points.length === 0) {
         Alert.alert('', t('unsynced.exportEmpty'));
         return;
       }
-      const ok = await exportGpxAndShare({
+      const result = await exportActivityAndShare(exportFormat, {
         activityId,
         name: activity.title,
         startedAt: activity.started_at,
         sportType: activity.sport_type?.name,
         points,
-      });
-      if (!ok) {
-        Alert.alert('', t('unsynced.exportFailedBody'));
+        splits: activityStats?.splits?.splits,
+        calories: activity.calories,
+        distance: activity.distance,
+        duration: activity.duration,
+      }, options);
+      if (!result.ok) {
+        Alert.alert(
+          '',
+          result.reason === 'privacy_zones_unavailable'
+            ? t('activityExport.privacyZonesUnavailable')
+            : t('unsynced.exportFailedBody')
+        );
       }
     } catch (err: any) {
-      logger.error('activity', 'GPX export from detail failed', { activityId, error: err });
+      logger.error('activity', 'Export from detail failed', { activityId, format: exportFormat, error: err });
       Alert.alert('', err?.message || t('unsynced.exportFailedBody'));
     } finally {
-      setIsExportingGpx(false);
+      setIsExporting(false);
     }
-  }, [activity, activityId, isExportingGpx, t]);
+  }, [activity, activityId, activityStats, isExporting, t]);
 
   const toggleMapExpand = useCallback(() => {
     const newExpandedState = !isMapExpanded;
@@ -643,6 +653,44 @@ export function ActivityDetailScreen({ route, navigation }: Props) {
           <PremiumTeaser feature="advanced_stats" style={styles.section} />
         ) : null}
 
+        {/* Laps recorded in the app */}
+        {activity.laps && activity.laps.length > 0 && (
+          <Card style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+              {t('laps.title')} ({activity.laps.length})
+            </Text>
+            <View style={[styles.lapRow, { borderBottomColor: colors.border }]}>
+              <Text style={[styles.lapNumberCell, styles.lapHeader, { color: colors.textMuted }]}>#</Text>
+              <Text style={[styles.lapCell, styles.lapHeader, { color: colors.textMuted }]}>{t('laps.time')}</Text>
+              <Text style={[styles.lapCell, styles.lapHeader, { color: colors.textMuted }]}>{t('laps.distance')}</Text>
+              <Text style={[styles.lapCell, styles.lapHeader, { color: colors.textMuted }]}>{t('laps.pace')}</Text>
+              <Text style={[styles.lapCell, styles.lapHeader, { color: colors.textMuted }]}>{t('laps.heartRate')}</Text>
+            </View>
+            {activity.laps.map((lap) => (
+              <View key={lap.lap_number} style={[styles.lapRow, { borderBottomColor: colors.borderLight }]}>
+                <View style={[styles.lapNumberCell, styles.lapNumberWrap]}>
+                  <Text style={[styles.lapValue, { color: colors.textPrimary }]}>{lap.lap_number}</Text>
+                  {lap.trigger === 'manual' && (
+                    <Ionicons name="flag" size={10} color={colors.primary} />
+                  )}
+                </View>
+                <Text style={[styles.lapCell, styles.lapValue, { color: colors.textPrimary }]}>
+                  {formatDuration(lap.elapsed_seconds)}
+                </Text>
+                <Text style={[styles.lapCell, styles.lapValue, { color: colors.textPrimary }]}>
+                  {formatDistance(lap.distance_meters)}
+                </Text>
+                <Text style={[styles.lapCell, styles.lapValue, { color: colors.textPrimary }]}>
+                  {formatPaceFromSecPerKm(lap.avg_pace)}
+                </Text>
+                <Text style={[styles.lapCell, styles.lapValue, { color: colors.textPrimary }]}>
+                  {lap.avg_heart_rate ?? '--'}
+                </Text>
+              </View>
+            ))}
+          </Card>
+        )}
+
         {/* Photo Gallery */}
         {activity.photos && activity.photos.length > 0 && (
           <Card style={styles.section}>
@@ -795,11 +843,19 @@ export function ActivityDetailScreen({ route, navigation }: Props) {
           });
           if (activity.has_gps_track) {
             opts.push({
-              id: 'export-gpx',
+              id: 'export',
               icon: 'download-outline',
-              title: t('unsynced.exportGpx'),
-              onPress: handleExportGpx,
+              title: t('activityExport.export'),
+              onPress: () => setIsExportSheetVisible(true),
             });
+            if (isOwner) {
+              opts.push({
+                id: 'save-as-route',
+                icon: 'map-outline',
+                title: t('routeFromTrack.saveAsRoute'),
+                onPress: () => navigation.navigate('RouteFromTrack', { activityId }),
+              });
+            }
           }
           opts.push({
             id: 'delete',
@@ -811,6 +867,12 @@ export function ActivityDetailScreen({ route, navigation }: Props) {
           return opts;
         })()}
       />
+
+      <ExportFormatSheet
+        visible={isExportSheetVisible}
+        onClose={() => setIsExportSheetVisible(false)}
+        onSelect={handleExport}
+      />
     </ScreenContainer>
   );
 }
@@ -949,6 +1011,34 @@ const styles = StyleSheet.create({
     fontSize: fontSize.xs,
     marginTop: 2,
   },
+  lapRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+  },
+  lapNumberCell: {
+    width: 32,
+  },
+  lapNumberWrap: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  lapCell: {
+    flex: 1,
+    textAlign: 'right',
+  },
+  lapHeader: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  lapValue: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+    fontVariant: ['tabular-nums'],
+  },
   hrSourceBadge: {
     flexDirection: 'row',
     alignItems: 'center',
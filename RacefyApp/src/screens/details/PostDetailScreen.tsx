@@ -23,6 +23,7 @@ import {
 } from '../../components';
 import {api} from '../../services/api';
 import {logger} from '../../services/logger';
+import {submitMutation} from '../../services/mutationOutbox';
 import {emitRefresh, useRefreshOn} from '../../services/refreshEvents';
 import {fixStorageUrl} from '../../config/api';
 import {useTheme} from '../../hooks/useTheme';
@@ -124,18 +125,23 @@ export function PostDetailScreen({ route, navigation }: Props) {
   }, []);
 
   const handleReshareSubmit = async (content?: string, visibility?: string) => {
-    await api.resharePost(postId, { content, visibility: visibility as any });
+    const submitted = await submitMutation({
+      type: 'resharePost',
+      targetId: postId,
+      data: { content, visibility: visibility as any },
+    });
     setIsReshared(true);
     setResharesCount((prev) => prev + 1);
-    emitRefresh('feed');
+    // Queued reshares refresh the feed when the outbox replays them
+    if (!submitted.queued) emitRefresh('feed');
   };
 
   const handleUnreshare = async () => {
     try {
-      await api.unresharePost(postId);
+      const submitted = await submitMutation({ type: 'unresharePost', targetId: postId });
       setIsReshared(false);
       setResharesCount((prev) => Math.max(prev - 1, 0));
-      emitRefresh('feed');
+      if (!submitted.queued) emitRefresh('feed');
     } catch {
       Alert.alert(t('common.error'), t('reshare.unreshareError'));
     }
@@ -0,0 +1,124 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {Linking, StyleSheet, Text, View} from 'react-native';
+import {Ionicons} from '@expo/vector-icons';
+import {useTranslation} from 'react-i18next';
+import {Button, Loading, ScreenContainer, ScreenHeader} from '../../components';
+import {api} from '../../services/api';
+import {API_BASE_URL} from '../../config/api';
+import {logger} from '../../services/logger';
+import {useTheme} from '../../hooks/useTheme';
+import {fontSize, spacing} from '../../theme';
+import type {NativeStackScreenProps} from '@react-navigation/native-stack';
+import type {RootStackParamList} from '../../navigation/types';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'ShareLink'>;
+
+/** Public web page for the link — served next to the API, see docs/SOCIAL_SHARING.md */
+function publicShareUrl(kind: string, key: string): string {
+  return `${API_BASE_URL.replace(/\/api\/?$/, '')}/share/${kind}/${encodeURIComponent(key)}`;
+}
+
+/**
+ * Landing spot for links that don't carry an id: share links
+ * (/share/activities/{token}, /share/posts/{token}) and event friendly URLs
+ * (/events/@{slug}). Looks the entity up and replaces itself with its screen.
+ * Token lookups aren't in the API docs yet, so when one fails the public
+ * share page can still be opened in the browser.
+ */
+export function ShareLinkScreen({ route, navigation }: Props) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { kind, key } = route.params;
+  const [error, setError] = useState(false);
+
+  const resolve = useCallback(async () => {
+    setError(false);
+    try {
+      switch (kind) {
+        case 'activities': {
+          const activity = await api.getActivityByShareToken(key);
+          navigation.replace('ActivityDetail', { activityId: activity.id });
+          return;
+        }
+        case 'posts': {
+          const post = await api.getPostByShareToken(key);
+          navigation.replace('PostDetail', { postId: post.id });
+          return;
+        }
+        case 'events': {
+          if (/^\d+$/.test(key)) {
+            navigation.replace('EventDetail', { eventId: Number(key) });
+            return;
+          }
+          const event = await api.getEventBySlug(key.replace(/^@/, ''));
+          navigation.replace('EventDetail', { eventId: event.id });
+          return;
+        }
+        default:
+          logger.warn('general', 'Unknown share link kind', { kind, key });
+          setError(true);
+      }
+    } catch (err) {
+      logger.warn('general', 'Failed to resolve share link', { kind, key, error: err });
+      setError(true);
+    }
+  }, [kind, key, navigation]);
+
+  useEffect(() => {
+    resolve();
+  }, [resolve]);
+
+  const handleOpenInBrowser = () => {
+    Linking.openURL(publicShareUrl(kind, key)).catch((err) => {
+      logger.warn('general', 'Failed to open share page', { kind, key, error: err });
+    });
+  };
+
+  const handleBack = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else {
+      navigation.replace('Main', { screen: 'Home' });
+    }
+  };
+
+  if (!error) {
+    return <Loading fullScreen message={t('common.loading')} />;
+  }
+
+  return (
+    <ScreenContainer>
+      <ScreenHeader title="" showBack onBack={handleBack} />
+      <View style={styles.errorContainer}>
+        <Ionicons name="link-outline" size={64} color={colors.textMuted} />
+        <Text style={[styles.errorText, { color: colors.textSecondary }]}>
+          {t('deepLinks.notFound')}
+        </Text>
+        <Button title={t('common.tryAgain')} onPress={resolve} variant="primary" />
+        <Button
+          title={t('deepLinks.openInBrowser')}
+          onPress={handleOpenInBrowser}
+          variant="outline"
+          style={styles.browserButton}
+        />
+      </View>
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  errorText: {
+    fontSize: fontSize.lg,
+    marginVertical: spacing.lg,
+    textAlign: 'center',
+  },
+  browserButton: {
+    marginTop: spacing.md,
+  },
+});
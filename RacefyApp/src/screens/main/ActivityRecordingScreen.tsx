@@ -22,22 +22,29 @@ import {
   triggerHaptic,
   useActivityTimer,
   useAudioCoach,
+  useActiveWeek,
   useAudioCoachSettings,
   useAuth,
+  useAutoLapSettings,
   useDefaultSport,
   useHealthEnrichment,
+  useLaps,
   useLiveActivityContext,
   useMilestones,
   useMilestoneTracking,
   useMyPlannedRoutes,
   useNearbyRoutes,
+  useOfflineRoutes,
   useOngoingEvents,
   usePermissions,
   usePreviewLocation,
   useSportTypes,
   useSubscription,
+  useTargetZoneAlerts,
   useTheme,
   useUnits,
+  useWorkoutExecutor,
+  useWorkouts,
 } from '../../hooks';
 import {
   BottomSheet,
@@ -52,19 +59,25 @@ import {
 import {NavigationOverlay} from '../../components/NavigationOverlay';
 import {useLiveNavigation} from '../../hooks/useLiveNavigation';
 import {useRouteApproachPath} from '../../hooks/useRouteApproachPath';
+import {useRejoinRoute} from '../../hooks/useRejoinRoute';
 import {useNavigationAnnouncer} from '../../hooks/useNavigationAnnouncer';
 import {IdleView} from './recording/IdleView';
 import {RecordingView} from './recording/RecordingView';
 import {PausedView} from './recording/PausedView';
 import {SportSelectionModal} from './recording/SportSelectionModal';
 import {RouteSelectionModal} from './recording/RouteSelectionModal';
+import {WorkoutSelectionModal} from './recording/WorkoutSelectionModal';
+import {TargetZoneModal} from './recording/TargetZoneModal';
+import {AutoLapModal} from './recording/AutoLapModal';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type {Event} from '../../types/api';
+import type {TargetZone} from '../../types/targetZone';
 import * as Haptics from 'expo-haptics';
 import {borderRadius, fontSize, spacing} from '../../theme';
 import type {MainTabParamList, RootStackParamList} from '../../navigation';
 import {logger} from '../../services/logger';
 import {formatTime} from '../../utils/formatters';
+import {findTrainingPaceSession} from '../../utils/targetZones';
 
 
 const MILESTONE_ORDER = [
@@ -85,7 +98,7 @@ export function ActivityRecordingScreen() {
   const { t } = useTranslation();
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
-  const { formatDistance: fmtDistance } = useUnits();
+  const { formatDistance: fmtDistance, units } = useUnits();
 
   // Tab bar is hidden on this screen, so offset is just safe areawymoge
   const tabBarHeight = insets.bottom;
@@ -117,11 +130,16 @@ export function ActivityRecordingScreen() {
   const [sportModalVisible, setSportModalVisible] = useState(false);
   const [eventSheetVisible, setEventSheetVisible] = useState(false);
   const [routeSelectionModalVisible, setRouteSelectionModalVisible] = useState(false);
+  const [workoutModalVisible, setWorkoutModalVisible] = useState(false);
+  const [zoneModalVisible, setZoneModalVisible] = useState(false);
+  const [autoLapModalVisible, setAutoLapModalVisible] = useState(false);
 
   // Activity options
   const [selectedSport, setSelectedSport] = useDefaultSport(sportTypes, isAuthenticated, sportsLoading);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [skipAutoPost, setSkipAutoPost] = useState(false);
+  const [selectedWorkoutId, setSelectedWorkoutId] = useState<string | null>(null);
+  const [targetZone, setTargetZone] = useState<TargetZone | null>(null);
   const preselectedEventHandled = useRef(false);
   const isFinishingRef = useRef(false);
 
@@ -281,6 +299,7 @@ export function ActivityRecordingScreen() {
       clearInterval(interval);
       AsyncStorage.removeItem('@racefy:audioCoach:bgSimStartTime');
       AsyncStorage.setItem('@racefy:audioCoach:bgLastThreshold', '0');
+      AsyncStorage.setItem('@racefy:audioCoach:bgLastTimeThreshold', '0');
       if (devSimBgStartedRef.current) {
         import('../../services/backgroundLocation').then(m => m.stopBackgroundLocationTracking());
       }
@@ -290,6 +309,9 @@ export function ActivityRecordingScreen() {
   const audioCoachDistanceKm = __DEV__ && devSimRunning
     ? devSimDistanceM / 1000
     : currentStats.distance / 1000;
+  const audioCoachElapsedSeconds = __DEV__ && devSimRunning && devSimStartRef.current > 0
+    ? Math.floor((Date.now() - devSimStartRef.current) / 1000)
+    : currentStats.duration;
   const audioCoachPace = __DEV__ && devSimRunning
     ? devSimPace
     : (currentStats.currentPace ? currentStats.currentPace / 60 : 0);
@@ -297,10 +319,12 @@ export function ActivityRecordingScreen() {
   useAudioCoach({
     settings: { ...audioCoachSettings, enabled: isAudioCoachActive || (__DEV__ && devSimRunning) },
     totalDistanceKm: audioCoachDistanceKm,
+    elapsedSeconds: audioCoachElapsedSeconds,
     currentPaceMinPerKm: audioCoachPace,
     heartRate: currentStats.avg_heart_rate,
     previousKmPace: undefined,
     userTier: tier as any,
+    units,
   });
 
   // Preview location for map view (before tracking starts)
@@ -314,6 +338,18 @@ export function ActivityRecordingScreen() {
 
   const myPlannedRoutes = useMyPlannedRoutes(isAuthenticated, user);
 
+  // Downloaded copy of the selected route — brings turn instructions and the
+  // elevation profile, which the route list doesn't carry, also without signal
+  const { packs: offlineRoutePacks } = useOfflineRoutes();
+  const selectedOfflineRoute = useMemo(() => {
+    if (!selectedShadowTrack) return null;
+    const pack = offlineRoutePacks.find((p) =>
+      p.route.id === selectedShadowTrack.id
+      && Math.round(p.route.distance) === Math.round(selectedShadowTrack.distance)
+    );
+    return pack?.route ?? null;
+  }, [offlineRoutePacks, selectedShadowTrack]);
+
   // Merged list (my routes first, then nearby) used by both the inline horizontal
   // panel and the full-screen route-selection modal.
   const mergedRoutesForPanel = useMemo(() => {
@@ -361,7 +397,7 @@ export function ActivityRecordingScreen() {
   // Re-route from start position to nearest point on shadow track + merge geometries
   const approach = useRouteApproachPath({
     baseGeometry: selectedShadowTrack?.track_data ?? null,
-    baseTurnInstructions: [],
+    baseTurnInstructions: selectedOfflineRoute?.turn_instructions ?? [],
     routeId: selectedShadowTrack?.id ?? null,
     startPosition: recordingStartPosition,
     isRecording: status === 'recording',
@@ -390,10 +426,10 @@ export function ActivityRecordingScreen() {
       distance,
       estimated_duration: selectedShadowTrack.duration,
       elevation_gain: selectedShadowTrack.elevation_gain,
-      elevation_loss: 0,
-      elevation_profile: [],
+      elevation_loss: selectedOfflineRoute?.elevation_loss ?? 0,
+      elevation_profile: selectedOfflineRoute?.elevation_profile ?? [],
       turn_instructions: turnInstructions,
-      bounds: { min_lat: 0, max_lat: 0, min_lng: 0, max_lng: 0 },
+      bounds: selectedOfflineRoute?.bounds ?? { min_lat: 0, max_lat: 0, min_lng: 0, max_lng: 0 },
       is_public: false,
       usage_count: 0,
       created_at: selectedShadowTrack.created_at,
@@ -402,6 +438,7 @@ export function ActivityRecordingScreen() {
   }, [
     selectedShadowTrack?.id,
     selectedShadowTrack?.track_data,
+    selectedOfflineRoute,
     approach.status,
     approach.geometry,
     approach.turnInstructions,
@@ -425,6 +462,19 @@ export function ActivityRecordingScreen() {
     isActive: liveNav.isActive,
   });
 
+  // Once confirmed off route: the way back to the route, on the map and spoken (Pro, like the overlay)
+  const rejoin = useRejoinRoute({
+    route: canUse('live_navigation') ? plannedRouteForNav : null,
+    currentPosition,
+    isOffRoute: liveNav.isOffRoute && status === 'recording',
+    distanceAlong: liveNav.distanceAlong,
+    profile: approachProfile,
+    audioSettings: audioCoachSettings,
+    voiceEnabled: isAudioCoachActive,
+    userTier: tier as any,
+    units,
+  });
+
   // Accessibility: announce key recording state changes for screen readers
   const prevStatusRef = useRef<RecordingStatus | null>(null);
   useEffect(() => {
@@ -457,6 +507,55 @@ export function ActivityRecordingScreen() {
   const { resetMilestones } = useMilestoneTracking(distance, distanceMilestones);
   const { enrichActivityWithHeartRate } = useHealthEnrichment();
 
+  // Structured workout — picked while idle, runs alongside the recording
+  const { workouts } = useWorkouts();
+  const selectedWorkout = useMemo(
+    () => workouts.find((w) => w.id === selectedWorkoutId) ?? null,
+    [workouts, selectedWorkoutId]
+  );
+  const workoutExecutor = useWorkoutExecutor({
+    workout: selectedWorkout,
+    isActive: status === 'recording' || status === 'paused',
+    elapsedSeconds: localDuration,
+    distanceMeters: distance,
+    currentPaceSecPerKm: currentStats.currentPace,
+    audioSettings: audioCoachSettings,
+    voiceEnabled: isAudioCoachActive,
+    userTier: tier as any,
+    units,
+  });
+
+  // Pace / HR target zone — set manually or from the active training week
+  const activeWeek = useActiveWeek(isAuthenticated, selectedSport?.id);
+  const trainingPaceSession = useMemo(() => findTrainingPaceSession(activeWeek), [activeWeek]);
+  const zoneStatus = useTargetZoneAlerts({
+    zone: targetZone,
+    isActive: status === 'recording',
+    elapsedSeconds: localDuration,
+    currentPaceSecPerKm: currentStats.currentPace,
+    // No live heart rate yet (see LIVE_HEART_RATE_AVAILABLE) — the average from the server isn't one
+    audioSettings: audioCoachSettings,
+    voiceEnabled: isAudioCoachActive,
+    userTier: tier as any,
+    units,
+  });
+
+  // Laps — auto (distance / start point) and from the lap button
+  const { settings: autoLapSettings, updateSettings: updateAutoLapSettings } = useAutoLapSettings();
+  const lapTracker = useLaps({
+    settings: autoLapSettings,
+    isActive: status === 'recording' || status === 'paused',
+    elapsedSeconds: localDuration,
+    distanceMeters: distance,
+    // Lap heart rate stays empty until there's a live heart rate (see LIVE_HEART_RATE_AVAILABLE)
+    currentPosition,
+    startPosition: recordingStartPosition,
+    audioSettings: audioCoachSettings,
+    voiceEnabled: isAudioCoachActive,
+    userTier: tier as any,
+    units,
+  });
+
   // Handle preselected event
   useEffect(() => {
     const preselectedEvent = route.params?.preselectedEvent;
@@ -751,6 +850,11 @@ export function ActivityRecordingScreen() {
         calories: Math.floor(localDuration * 0.15),
         skip_auto_post: skipAutoPost,
         event_id: selectedEvent?.id ?? null,
+        ...(selectedWorkout && {
+          workout_name: selectedWorkout.name,
+          workout_steps: workoutExecutor.getResults(),
+        }),
+        ...(lapTracker.laps.length > 0 && { laps: lapTracker.getResults() }),
       });
 
       logger.activity('Activity saved from UI', {
@@ -764,11 +868,12 @@ export function ActivityRecordingScreen() {
         ? (localDuration / 60) / totalKm  // min/km
         : 0;
       if (avgPace > 0) {
-        announceEnd(audioCoachSettings, totalKm, avgPace, tier as any);
+        announceEnd(audioCoachSettings, totalKm, avgPace, tier as any, true, units);
       }
 
       // Fire-and-forget: enrich activity with HR data from Health Connect / HealthKit
-      if (result?.activity) {
+      // (an activity saved offline has no server ID yet)
+      if (result?.activity && !result.savedOffline) {
         enrichActivityWithHeartRate(result.activity).catch(() => {
           // Silently ignore — enrichment is non-blocking
         });
@@ -776,6 +881,8 @@ export function ActivityRecordingScreen() {
 
       resetMilestones();
       setSkipAutoPost(false);
+      setSelectedWorkoutId(null);
+      setTargetZone(null);
 
       // Restore original audio coach settings in AsyncStorage (undo session toggle)
       if (audioCoachSessionEnabled !== null) {
@@ -790,7 +897,9 @@ export function ActivityRecordingScreen() {
           ? t('recording.noPointsAwarded')
           : t('recording.pointsAwarded', { points: pointsEarned });
 
-      if (result?.post) {
+      if (result?.savedOffline) {
+        Alert.alert(t('recording.savedOfflineTitle'), t('recording.savedOfflineBody'));
+      } else if (result?.post) {
         if (result.post.status === 'published') {
           Alert.alert(t('common.success'), `${t('recording.activityShared')}\n\n${successMessage}`);
         } else if (result.post.status === 'draft') {
@@ -855,6 +964,8 @@ export function ActivityRecordingScreen() {
             try {
               await discardTracking();
               resetMilestones();
+              setSelectedWorkoutId(null);
+              setTargetZone(null);
               // Restore original audio coach settings in AsyncStorage
               if (audioCoachSessionEnabled !== null) {
                 setAudioCoachSessionEnabled(null);
@@ -925,6 +1036,12 @@ export function ActivityRecordingScreen() {
         logger.info('activity', 'Toggling view mode', { from: viewMode, to: newMode });
         setViewMode(newMode);
       } : undefined}
+      workoutSelected={!!selectedWorkout}
+      onSelectWorkout={() => setWorkoutModalVisible(true)}
+      zoneSelected={!!targetZone}
+      onSelectZone={() => setZoneModalVisible(true)}
+      autoLapSelected={autoLapSettings.mode !== 'off'}
+      onSelectAutoLap={() => setAutoLapModalVisible(true)}
       devSimRunning={devSimRunning}
       onToggleDevSim={() => { setDevSimRunning(prev => !prev); triggerHaptic(); }}
       devSimDistanceKm={devSimDistanceM / 1000}
@@ -956,6 +1073,11 @@ export function ActivityRecordingScreen() {
       onToggleLock={handleToggleLock}
       onPause={handlePause}
       onStop={handleStop}
+      workout={selectedWorkout ? workoutExecutor : null}
+      targetZone={targetZone}
+      zoneStatus={zoneStatus}
+      currentLap={lapTracker.currentLap}
+      onLap={lapTracker.markLap}
     />
   );
 
@@ -1094,6 +1216,48 @@ export function ActivityRecordingScreen() {
               />
             </TouchableOpacity>
 
+            {/* Workout */}
+            <TouchableOpacity
+              style={[styles.mapToolbarIcon, { backgroundColor: selectedWorkout ? colors.primary : colors.cardBackground }]}
+              onPress={() => setWorkoutModalVisible(true)}
+              activeOpacity={0.7}
+              accessibilityLabel={t('workouts.selectWorkout')}
+            >
+              <Ionicons
+                name={selectedWorkout ? 'barbell' : 'barbell-outline'}
+                size={24}
+                color={selectedWorkout ? '#ffffff' : colors.textSecondary}
+              />
+            </TouchableOpacity>
+
+            {/* Target zone */}
+            <TouchableOpacity
+              style={[styles.mapToolbarIcon, { backgroundColor: targetZone ? colors.primary : colors.cardBackground }]}
+              onPress={() => setZoneModalVisible(true)}
+              activeOpacity={0.7}
+              accessibilityLabel={t('targetZones.title')}
+            >
+              <Ionicons
+                name={targetZone ? 'pulse' : 'pulse-outline'}
+                size={24}
+                color={targetZone ? '#ffffff' : colors.textSecondary}
+              />
+            </TouchableOpacity>
+
+            {/* Auto-lap */}
+            <TouchableOpacity
+              style={[styles.mapToolbarIcon, { backgroundColor: autoLapSettings.mode !== 'off' ? colors.primary : colors.cardBackground }]}
+              onPress={() => setAutoLapModalVisible(true)}
+              activeOpacity={0.7}
+              accessibilityLabel={t('laps.autoLap')}
+            >
+              <Ionicons
+                name={autoLapSettings.mode !== 'off' ? 'flag' : 'flag-outline'}
+                size={24}
+                color={autoLapSettings.mode !== 'off' ? '#ffffff' : colors.textSecondary}
+              />
+            </TouchableOpacity>
+
             {/* Map style */}
             <TouchableOpacity
               style={[styles.mapToolbarIcon, { backgroundColor: colors.cardBackground }]}
@@ -1192,6 +1356,7 @@ export function ActivityRecordingScreen() {
             onRouteSelect={handleRouteSelect}
             onFollowUserChanged={setFollowUser}
             plannedRoute={selectedShadowTrack?.track_data || null}
+            rejoinPath={rejoin.geometry}
           />
 
           {/* Top overlay: sport grid + icon toolbar (idle map mode) */}
@@ -1200,7 +1365,7 @@ export function ActivityRecordingScreen() {
           {/* Live Navigation Overlay (Pro only) */}
           {liveNav.isActive && status === 'recording' && (
             <FeatureGate feature="live_navigation">
-              <NavigationOverlay navigation={liveNav} />
+              <NavigationOverlay navigation={liveNav} rejoin={rejoin} />
             </FeatureGate>
           )}
 
@@ -1253,6 +1418,8 @@ export function ActivityRecordingScreen() {
               shadowTrackTitle={selectedShadowTrack?.title || null}
               onClearShadowTrack={handleClearShadowTrack}
               onSelectShadowTrack={() => setRouteSelectionModalVisible(true)}
+              lapNumber={lapTracker.currentLap?.number}
+              onLap={lapTracker.markLap}
             />
           )}
         </View>
@@ -1491,6 +1658,37 @@ export function ActivityRecordingScreen() {
         isLoading={loadingRoutes}
         error={routesError}
       />
+
+      <WorkoutSelectionModal
+        visible={workoutModalVisible}
+        onClose={() => setWorkoutModalVisible(false)}
+        workouts={workouts}
+        selectedWorkoutId={selectedWorkout?.id ?? null}
+        onWorkoutSelect={(workout) => setSelectedWorkoutId(workout?.id ?? null)}
+        onCreateWorkout={() => {
+          setWorkoutModalVisible(false);
+          navigation.navigate('WorkoutEditor');
+        }}
+        onEditWorkout={(workout) => {
+          setWorkoutModalVisible(false);
+          navigation.navigate('WorkoutEditor', { workoutId: workout.id });
+        }}
+      />
+
+      <TargetZoneModal
+        visible={zoneModalVisible}
+        onClose={() => setZoneModalVisible(false)}
+        zone={targetZone}
+        trainingSession={trainingPaceSession}
+        onZoneChange={setTargetZone}
+      />
+
+      <AutoLapModal
+        visible={autoLapModalVisible}
+        onClose={() => setAutoLapModalVisible(false)}
+        settings={autoLapSettings}
+        onSettingsChange={updateAutoLapSettings}
+      />
     </ScreenContainer>
   );
 }
@@ -64,7 +64,6 @@ export function EventsScreen({ navigation, route }: Props) {
     isRefreshing,
     hasMore,
     error,
-    statusFilter,
     refresh,
     loadMore,
     changeFilter,
@@ -167,22 +166,17 @@ export function EventsScreen({ navigation, route }: Props) {
     fetchOverviewData();
   }, [refresh, fetchOverviewData]);
 
-  useRefreshOn('events', refreshAll);
+  // The list revalidates through the query cache; only the overview is refetched here
+  useRefreshOn('events', fetchOverviewData);
 
   useEffect(() => {
-    refreshAll();
+    fetchOverviewData();
   }, []);
 
   useEffect(() => {
     changeFilter(activeFilter === 'all' ? undefined : activeFilter);
   }, [activeFilter]);
 
-  useEffect(() => {
-    if (statusFilter !== undefined || activeFilter === 'all') {
-      refresh();
-    }
-  }, [statusFilter]);
-
   // Animate search visibility
   useEffect(() => {
     Animated.timing(searchAnimValue, {
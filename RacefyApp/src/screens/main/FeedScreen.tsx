@@ -70,7 +70,7 @@ export function FeedScreen({ navigation, route }: Props) {
     unresharePost,
   } = useFeed();
 
-  useRefreshOn('feed', refresh);
+  // The feed itself revalidates through the query cache on 'feed' refreshes
   useRefreshOn('messages', refreshUnreadCount);
 
   // Pause all videos when navigating away from this screen
@@ -85,12 +85,6 @@ export function FeedScreen({ navigation, route }: Props) {
   const searchAnimValue = useRef(new Animated.Value(0)).current;
   const searchDebounceRef = useRef<NodeJS.Timeout | null>(null);
 
-  useEffect(() => {
-    if (isAuthenticated) {
-      refresh();
-    }
-  }, [isAuthenticated, refresh]);
-
   // Cleanup search debounce on unmount
   useEffect(() => {
     return () => {
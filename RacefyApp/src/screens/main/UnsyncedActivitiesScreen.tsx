@@ -1,13 +1,17 @@
-import React, {useCallback} from 'react';
+import React, {useCallback, useState} from 'react';
 import {ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, Text, View,} from 'react-native';
 import {Ionicons} from '@expo/vector-icons';
 import {useTranslation} from 'react-i18next';
 import type {NativeStackScreenProps} from '@react-navigation/native-stack';
 import {useTheme} from '../../hooks/useTheme';
 import {useUnsyncedActivities} from '../../hooks/useUnsyncedActivities';
-import {exportGpxAndShare} from '../../utils/gpxExport';
-import {getUnsyncedActivity, type UnsyncedActivityMeta} from '../../services/unsyncedActivities';
-import {Button, ScreenContainer, ScreenHeader} from '../../components';
+import {
+  exportActivityAndShare,
+  type ActivityExportFormat,
+  type ActivityExportOptions,
+} from '../../utils/activityExport';
+import {getUnsyncedActivity, isLocalActivityId, type UnsyncedActivityMeta} from '../../services/unsyncedActivities';
+import {Button, ExportFormatSheet, ScreenContainer, ScreenHeader} from '../../components';
 import {spacing} from '../../theme';
 import type {RootStackParamList} from '../../navigation/types';
 
@@ -38,6 +42,7 @@ export function UnsyncedActivitiesScreen({ navigation }: Props) {
   const { t, i18n } = useTranslation();
   const { items, isLoading, retryingId, refresh, retry, discard } =
     useUnsyncedActivities();
+  const [exportEntry, setExportEntry] = useState<UnsyncedActivityMeta | null>(null);
 
   const onRetry = useCallback(async (entry: UnsyncedActivityMeta) => {
     const outcome = await retry(entry.activityId);
@@ -48,21 +53,33 @@ export function UnsyncedActivitiesScreen({ navigation }: Props) {
     }
   }, [retry, t]);
 
-  const onExport = useCallback(async (entry: UnsyncedActivityMeta) => {
+  const onExport = useCallback(async (
+    entry: UnsyncedActivityMeta,
+    format: ActivityExportFormat,
+    options: ActivityExportOptions,
+  ) => {
     const full = await getUnsyncedActivity(entry.activityId);
     if (!full) {
       Alert.alert(t('unsynced.exportFailedTitle'), t('unsynced.exportMissing'));
       return;
     }
-    const ok = await exportGpxAndShare({
+    const result = await exportActivityAndShare(format, {
       activityId: full.activityId,
       name: full.title || `Racefy activity ${full.activityId}`,
       startedAt: full.startedAt,
       sportType: full.sportTypeName,
       points: full.points,
-    });
-    if (!ok) {
-      Alert.alert(t('unsynced.exportFailedTitle'), t('unsynced.exportFailedBody'));
+      calories: entry.calories,
+      distance: entry.distance,
+      duration: entry.duration,
+    }, options);
+    if (!result.ok) {
+      Alert.alert(
+        t('unsynced.exportFailedTitle'),
+        result.reason === 'privacy_zones_unavailable'
+          ? t('activityExport.privacyZonesUnavailable')
+          : t('unsynced.exportFailedBody'),
+      );
     }
   }, [t]);
 
@@ -109,7 +126,9 @@ export function UnsyncedActivitiesScreen({ navigation }: Props) {
           >
             <Ionicons name="cloud-offline" size={14} color={colors.warning} />
             <Text style={[styles.badgeText, { color: colors.warning }]}>
-              {t('unsynced.statusFailed')}
+              {isLocalActivityId(item.activityId) && !item.serverActivityId
+                ? t('unsynced.statusOffline')
+                : t('unsynced.statusFailed')}
             </Text>
           </View>
         </View>
@@ -142,6 +161,29 @@ export function UnsyncedActivitiesScreen({ navigation }: Props) {
             {t('unsynced.retryCount', { count: item.retryCount })}
           </Text>
         )}
+        {item.nextRetryAt && (
+          <Text style={[styles.retryText, { color: colors.textMuted }]}>
+            {t('unsynced.nextRetry', { time: formatFailedAt(item.nextRetryAt, i18n.language) })}
+          </Text>
+        )}
+        {item.attempts && item.attempts.length > 0 && (
+          <View style={[styles.history, { borderTopColor: colors.border }]}>
+            <Text style={[styles.historyTitle, { color: colors.textSecondary }]}>
+              {t('unsynced.historyTitle')}
+            </Text>
+            {[...item.attempts].reverse().map((attempt) => (
+              <View key={`${attempt.at}-${attempt.trigger}`} style={styles.historyRow}>
+                <Ionicons name="close-circle-outline" size={14} color={colors.error} />
+                <Text style={[styles.historyText, { color: colors.textMuted }]} numberOfLines={2}>
+                  {formatFailedAt(attempt.at, i18n.language)}
+                  {' • '}
+                  {t(`unsynced.triggers.${attempt.trigger}`)}
+                  {attempt.error ? ` — ${attempt.error}` : ''}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
 
         <View style={styles.actions}>
           <Button
@@ -152,9 +194,9 @@ export function UnsyncedActivitiesScreen({ navigation }: Props) {
             style={styles.actionPrimary}
           />
           <Button
-            title={t('unsynced.exportGpx')}
+            title={t('unsynced.export')}
             variant="outline"
-            onPress={() => onExport(item)}
+            onPress={() => setExportEntry(item)}
             disabled={isRetrying || item.pointsCount === 0}
             style={styles.actionSecondary}
           />
@@ -168,7 +210,7 @@ export function UnsyncedActivitiesScreen({ navigation }: Props) {
         </View>
       </View>
     );
-  }, [colors, i18n.language, onDiscard, onExport, onRetry, retryingId, t]);
+  }, [colors, i18n.language, onDiscard, onRetry, retryingId, t]);
 
   return (
     <ScreenContainer>
@@ -202,6 +244,14 @@ export function UnsyncedActivitiesScreen({ navigation }: Props) {
           }
         />
       )}
+
+      <ExportFormatSheet
+        visible={exportEntry !== null}
+        onClose={() => setExportEntry(null)}
+        onSelect={(format, options) => {
+          if (exportEntry) onExport(exportEntry, format, options);
+        }}
+      />
     </ScreenContainer>
   );
 }
@@ -304,6 +354,26 @@ const styles = StyleSheet.create({
     fontSize: 11,
     marginTop: 2,
   },
+  history: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  historyTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.xs,
+    marginBottom: 2,
+  },
+  historyText: {
+    flex: 1,
+    fontSize: 11,
+  },
   actions: {
     flexDirection: 'row',
     marginTop: spacing.md,
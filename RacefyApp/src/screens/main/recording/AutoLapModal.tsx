@@ -0,0 +1,247 @@
+import React from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useTheme, useUnits } from '../../../hooks';
+import { ScreenContainer } from '../../../components';
+import { AUTO_LAP_DISTANCES } from '../../../utils/laps';
+import { getDistanceValueFromKm } from '../../../utils/unitConversions';
+import { borderRadius, fontSize, spacing } from '../../../theme';
+import type { AutoLapMode, AutoLapSettings } from '../../../types/lap';
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  settings: AutoLapSettings;
+  onSettingsChange: (settings: AutoLapSettings) => void;
+}
+
+const MODES: { mode: AutoLapMode; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { mode: 'off', icon: 'close-circle-outline' },
+  { mode: 'distance', icon: 'resize-outline' },
+  { mode: 'start_point', icon: 'refresh-outline' },
+];
+
+export function AutoLapModal({ visible, onClose, settings, onSettingsChange }: Props) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { units, getDistanceUnit } = useUnits();
+  // Distances are offered in the user's unit and stored in meters
+  const metersPerUnit = 1000 / getDistanceValueFromKm(1, units);
+
+  const dragGesture = Gesture.Pan()
+    .onEnd((event) => {
+      if (event.translationY > 100 || event.velocityY > 500) {
+        onClose();
+      }
+    });
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: isSelected ? colors.primary : colors.background,
+          borderColor: isSelected ? colors.primary : colors.border,
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? '#ffffff' : colors.textPrimary }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      transparent={false}
+    >
+      <ScreenContainer>
+        <GestureDetector gesture={dragGesture}>
+          <TouchableOpacity
+            style={[styles.dragHandle, { backgroundColor: colors.cardBackground }]}
+            onPress={onClose}
+            activeOpacity={0.8}
+          >
+            <View style={[styles.dragIndicator, { backgroundColor: colors.border }]} />
+          </TouchableOpacity>
+        </GestureDetector>
+
+        <View style={[styles.header, { backgroundColor: colors.cardBackground, borderBottomColor: colors.border }]}>
+          <Text style={[styles.title, { color: colors.textPrimary }]}>
+            {t('laps.autoLap')}
+          </Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="close" size={28} color={colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {MODES.map(({ mode, icon }) => {
+            const isSelected = settings.mode === mode;
+            return (
+              <TouchableOpacity
+                key={mode}
+                style={[
+                  styles.modeCard,
+                  {
+                    backgroundColor: colors.background,
+                    borderColor: isSelected ? colors.primary : colors.border,
+                    borderWidth: isSelected ? 2 : 1,
+                  },
+                ]}
+                onPress={() => onSettingsChange({ ...settings, mode })}
+              >
+                <Ionicons name={icon} size={20} color={isSelected ? colors.primary : colors.textSecondary} />
+                <View style={styles.modeInfo}>
+                  <Text style={[styles.modeTitle, { color: colors.textPrimary }]}>
+                    {t(`laps.modes.${mode}.title`)}
+                  </Text>
+                  <Text style={[styles.modeDescription, { color: colors.textMuted }]}>
+                    {t(`laps.modes.${mode}.description`)}
+                  </Text>
+                </View>
+                {isSelected && <Ionicons name="checkmark-circle" size={22} color={colors.primary} />}
+              </TouchableOpacity>
+            );
+          })}
+
+          {settings.mode === 'distance' && (
+            <>
+              <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+                {t('laps.every')}
+              </Text>
+              <View style={styles.chips}>
+                {AUTO_LAP_DISTANCES.map((value) => {
+                  const meters = Math.round(value * metersPerUnit);
+                  return renderChip(
+                    String(value),
+                    `${value} ${getDistanceUnit()}`,
+                    Math.abs(settings.distanceMeters - meters) < 1,
+                    () => onSettingsChange({ ...settings, distanceMeters: meters })
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.hint, { color: colors.textMuted }]}>
+            {t('laps.manualHint')}
+          </Text>
+        </ScrollView>
+
+        <View style={[styles.footer, { backgroundColor: colors.cardBackground, borderTopColor: colors.border }]}>
+          <TouchableOpacity
+            style={[styles.footerButton, { backgroundColor: colors.primary }]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.doneText}>{t('laps.done')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScreenContainer>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  dragHandle: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+  },
+  dragIndicator: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: spacing.xs,
+  },
+  content: {
+    padding: spacing.md,
+  },
+  modeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  modeInfo: {
+    flex: 1,
+  },
+  modeTitle: {
+    fontWeight: '600',
+  },
+  modeDescription: {
+    fontSize: fontSize.sm,
+  },
+  sectionTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: fontSize.sm,
+    marginTop: spacing.md,
+  },
+  footer: {
+    flexDirection: 'row',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
+  },
+  footerButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  doneText: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -41,6 +41,12 @@ interface IdleViewProps {
   // Toolbar extras
   viewMode?: 'stats' | 'map';
   onToggleView?: () => void;
+  workoutSelected?: boolean;
+  onSelectWorkout?: () => void;
+  zoneSelected?: boolean;
+  onSelectZone?: () => void;
+  autoLapSelected?: boolean;
+  onSelectAutoLap?: () => void;
   devSimRunning?: boolean;
   onToggleDevSim?: () => void;
   devSimDistanceKm?: number;
@@ -64,6 +70,12 @@ export function IdleView({
   onSelectSport,
   viewMode,
   onToggleView,
+  workoutSelected,
+  onSelectWorkout,
+  zoneSelected,
+  onSelectZone,
+  autoLapSelected,
+  onSelectAutoLap,
   devSimRunning,
   onToggleDevSim,
   devSimDistanceKm,
@@ -160,7 +172,7 @@ export function IdleView({
         )}
 
         {/* Icon toolbar – centered below sport grid */}
-        {(onToggleAudioCoach !== undefined || onToggleView !== undefined || (__DEV__ && onToggleDevSim !== undefined)) && (
+        {(onToggleAudioCoach !== undefined || onToggleView !== undefined || onSelectWorkout !== undefined || onSelectZone !== undefined || onSelectAutoLap !== undefined || (__DEV__ && onToggleDevSim !== undefined)) && (
           <View style={styles.iconToolbar}>
             {onToggleAudioCoach !== undefined && (
               <TouchableOpacity
@@ -195,6 +207,60 @@ export function IdleView({
               </TouchableOpacity>
             )}
 
+            {onSelectWorkout !== undefined && (
+              <TouchableOpacity
+                style={[
+                  styles.toolbarIcon,
+                  { backgroundColor: workoutSelected ? colors.primary : colors.cardBackground },
+                ]}
+                onPress={onSelectWorkout}
+                activeOpacity={0.7}
+                accessibilityLabel={t('workouts.selectWorkout')}
+              >
+                <Ionicons
+                  name={workoutSelected ? 'barbell' : 'barbell-outline'}
+                  size={24}
+                  color={workoutSelected ? '#ffffff' : colors.textSecondary}
+                />
+              </TouchableOpacity>
+            )}
+
+            {onSelectZone !== undefined && (
+              <TouchableOpacity
+                style={[
+                  styles.toolbarIcon,
+                  { backgroundColor: zoneSelected ? colors.primary : colors.cardBackground },
+                ]}
+                onPress={onSelectZone}
+                activeOpacity={0.7}
+                accessibilityLabel={t('targetZones.title')}
+              >
+                <Ionicons
+                  name={zoneSelected ? 'pulse' : 'pulse-outline'}
+                  size={24}
+                  color={zoneSelected ? '#ffffff' : colors.textSecondary}
+                />
+              </TouchableOpacity>
+            )}
+
+            {onSelectAutoLap !== undefined && (
+              <TouchableOpacity
+                style={[
+                  styles.toolbarIcon,
+                  { backgroundColor: autoLapSelected ? colors.primary : colors.cardBackground },
+                ]}
+                onPress={onSelectAutoLap}
+                activeOpacity={0.7}
+                accessibilityLabel={t('laps.autoLap')}
+              >
+                <Ionicons
+                  name={autoLapSelected ? 'flag' : 'flag-outline'}
+                  size={24}
+                  color={autoLapSelected ? '#ffffff' : colors.textSecondary}
+                />
+              </TouchableOpacity>
+            )}
+
             {__DEV__ && onToggleDevSim !== undefined && (
               <TouchableOpacity
                 style={[
@@ -15,16 +15,34 @@ import { useUnits } from '../../../hooks/useUnits';
 import type { GpsPoint } from '../../../types/api';
 import type { LiveActivityStats, TrackingStatus } from '../../../hooks/useLiveActivity';
 import type { SportTypeWithIcon } from '../../../hooks/useSportTypes';
+import type { WorkoutExecutorState } from '../../../hooks/useWorkoutExecutor';
 import type { GpsProfile } from '../../../config/gpsProfiles';
 import { calculateAveragePace } from '../../../utils/paceCalculator';
 import { formatTime } from '../../../utils/formatters';
+import { LIVE_HEART_RATE_AVAILABLE } from '../../../utils/targetZones';
 import { logger } from '../../../services/logger';
 import { MapboxLiveMap } from '../../../components';
 import type { MapStyleType } from '../../../components/MapboxLiveMap';
 import { spacing, fontSize, borderRadius, componentSize } from '../../../theme';
+import type { WorkoutStepType } from '../../../types/workout';
+import type { TargetZone, TargetZoneStatus } from '../../../types/targetZone';
+import type { LapProgress } from '../../../types/lap';
 
 type RecordingStatus = 'idle' | 'recording' | 'paused' | 'finished';
 
+const STEP_COLORS: Record<WorkoutStepType, string> = {
+  warmup: '#f59e0b',
+  work: '#ef4444',
+  recovery: '#3b82f6',
+  cooldown: '#8b5cf6',
+};
+
+/** Zone indicator colors by effort: below the band, inside, above */
+const ZONE_COLORS = {
+  below: '#3b82f6',
+  above: '#ef4444',
+};
+
 interface RecordingViewProps {
   selectedSport: SportTypeWithIcon | null;
   status: RecordingStatus;
@@ -46,6 +64,14 @@ interface RecordingViewProps {
   onToggleLock?: () => void;
   onPause: () => void;
   onStop: () => void;
+  /** Structured workout running alongside the recording */
+  workout?: WorkoutExecutorState | null;
+  /** Pace / heart rate zone picked before start, with its live status */
+  targetZone?: TargetZone | null;
+  zoneStatus?: TargetZoneStatus | null;
+  /** Lap in progress, and the lap button handler */
+  currentLap?: LapProgress | null;
+  onLap?: () => void;
 }
 
 export function RecordingView({
@@ -68,6 +94,11 @@ export function RecordingView({
   onToggleLock,
   onPause,
   onStop,
+  workout,
+  targetZone,
+  zoneStatus,
+  currentLap,
+  onLap,
 }: RecordingViewProps) {
   const { colors } = useTheme();
   const { t } = useTranslation();
@@ -112,6 +143,140 @@ export function RecordingView({
 
   const calories = Math.floor(localDuration * 0.15);
 
+  const renderWorkoutCard = () => {
+    if (!workout) return null;
+    if (workout.isComplete) {
+      return (
+        <View style={[styles.workoutCard, { borderColor: colors.success }]}>
+          <View style={styles.workoutHeader}>
+            <Ionicons name="checkmark-circle" size={16} color={colors.success} />
+            <Text style={[styles.workoutStepLabel, { color: colors.success }]}>
+              {t('workouts.complete').toUpperCase()}
+            </Text>
+          </View>
+        </View>
+      );
+    }
+
+    const { currentStep: step, progress, nextStep, paceStatus } = workout;
+    if (!step || !progress) return null;
+    const stepColor = STEP_COLORS[step.type];
+    const paceStatusColor = paceStatus === 'on_target' ? colors.success : colors.warning;
+
+    return (
+      <View style={[styles.workoutCard, { borderColor: stepColor }]}>
+        <View style={styles.workoutHeader}>
+          <View style={[styles.workoutDot, { backgroundColor: stepColor }]} />
+          <Text style={[styles.workoutStepLabel, { color: stepColor }]}>
+            {t(`workouts.stepTypes.${step.type}`).toUpperCase()}
+            {step.repeatCount > 1 ? ` ${step.repetition}/${step.repeatCount}` : ''}
+          </Text>
+          <Text style={styles.workoutStepCount}>
+            {t('workouts.stepOf', { current: step.index + 1, total: workout.totalSteps })}
+          </Text>
+        </View>
+
+        <Text style={styles.workoutRemaining}>
+          {step.duration.type === 'time' ? formatTime(progress.remaining) : fmtDistance(progress.remaining)}
+          <Text style={styles.metricUnit}> {t('workouts.remaining')}</Text>
+        </Text>
+
+        <View style={styles.workoutTrack}>
+          <View style={[styles.workoutFill, { width: `${progress.fraction * 100}%`, backgroundColor: stepColor }]} />
+        </View>
+
+        {step.target && (
+          <View style={styles.workoutTargetRow}>
+            <Ionicons name="speedometer-outline" size={14} color="#666666" />
+            <Text style={styles.workoutTarget}>
+              {formatPaceFromSecPerKm(step.target.minSecPerKm)}–{formatPaceFromSecPerKm(step.target.maxSecPerKm)} {getPaceUnit()}
+            </Text>
+            {paceStatus && (
+              <Text style={[styles.workoutPaceStatus, { color: paceStatusColor }]}>
+                {t(`workouts.paceStatus.${paceStatus}`)}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {nextStep && (
+          <Text style={styles.workoutNext}>
+            {t('workouts.next', { step: t(`workouts.stepTypes.${nextStep.type}`) })}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderLapCard = () => {
+    if (!currentLap) return null;
+    return (
+      <View style={[styles.lapCard, { borderColor: colors.primary }]}>
+        <View style={styles.workoutHeader}>
+          <Ionicons name="flag" size={14} color={colors.primary} />
+          <Text style={[styles.workoutStepLabel, { color: colors.primary }]}>
+            {t('laps.lapNumber', { number: currentLap.number }).toUpperCase()}
+          </Text>
+          <Text style={styles.lapTime}>{formatTime(currentLap.elapsedSeconds)}</Text>
+        </View>
+        <View style={styles.lapStatsRow}>
+          <Text style={styles.lapStat}>{fmtDistance(currentLap.distanceMeters)}</Text>
+          <Text style={styles.lapStat}>
+            {currentLap.paceSecPerKm !== null ? formatPaceFromSecPerKm(currentLap.paceSecPerKm) : '--:--'}
+            <Text style={styles.metricUnit}> {getPaceUnit()}</Text>
+          </Text>
+          {currentLap.avgHeartRate !== null && (
+            <View style={styles.lapHeartRate}>
+              <Ionicons name="heart" size={14} color={colors.error} />
+              <Text style={styles.lapStat}>{currentLap.avgHeartRate}</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderZonePill = (
+    icon: keyof typeof Ionicons.glyphMap,
+    range: string,
+    status: string | null | undefined,
+    effort: 'below' | 'in' | 'above' | null
+  ) => {
+    const color = effort === 'in' ? colors.success : effort ? ZONE_COLORS[effort] : '#888888';
+    return (
+      <View style={[styles.zonePill, { borderColor: color }]}>
+        <View style={[styles.zoneDot, { backgroundColor: color }]} />
+        <Ionicons name={icon} size={14} color="#666666" />
+        <Text style={styles.zoneRange}>{range}</Text>
+        {status && (
+          <Text style={[styles.zoneStatus, { color }]}>{status}</Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderZoneIndicator = () => {
+    if (!targetZone) return null;
+    const pace = zoneStatus?.pace ?? null;
+    const heartRate = zoneStatus?.heartRate ?? null;
+    return (
+      <View style={styles.zoneRow}>
+        {targetZone.pace && renderZonePill(
+          'speedometer-outline',
+          `${formatPaceFromSecPerKm(targetZone.pace.minSecPerKm)}–${formatPaceFromSecPerKm(targetZone.pace.maxSecPerKm)} ${getPaceUnit()}`,
+          pace && t(`workouts.paceStatus.${pace}`),
+          pace === 'on_target' ? 'in' : pace === 'fast' ? 'above' : pace === 'slow' ? 'below' : null
+        )}
+        {LIVE_HEART_RATE_AVAILABLE && targetZone.heartRate && renderZonePill(
+          'heart-outline',
+          `${targetZone.heartRate.minBpm}–${targetZone.heartRate.maxBpm} ${t('targetZones.bpm')}`,
+          heartRate && t(`targetZones.heartRateStatus.${heartRate}`),
+          heartRate === 'in_zone' ? 'in' : heartRate === 'high' ? 'above' : heartRate === 'low' ? 'below' : null
+        )}
+      </View>
+    );
+  };
+
   return (
     <View style={styles.container}>
       {/* Map background */}
@@ -151,6 +316,10 @@ export function RecordingView({
             {formatTime(localDuration)}
           </Text>
 
+          {renderWorkoutCard()}
+          {renderZoneIndicator()}
+          {renderLapCard()}
+
           <View style={styles.metricCards}>
             <View style={styles.metricCard}>
               <Text style={styles.metricLabel}>
@@ -180,7 +349,7 @@ export function RecordingView({
 
         {/* ── BOTTOM HALF: controls ── */}
         <View style={[styles.bottomHalf, { paddingBottom: insets.bottom + spacing.md }]}>
-          <View style={styles.toolbar}>
+          <View style={[styles.toolbar, onLap && styles.toolbarCompact]}>
             {/* Audio coach */}
             <TouchableOpacity
               style={[styles.toolbarButton, { backgroundColor: audioCoachActive ? colors.primary + '22' : 'rgba(0,0,0,0.08)' }]}
@@ -219,6 +388,18 @@ export function RecordingView({
                 color={isLocked ? '#ef4444' : 'rgba(0,0,0,0.35)'}
               />
             </TouchableOpacity>
+
+            {/* Lap */}
+            {onLap && (
+              <TouchableOpacity
+                style={[styles.toolbarButton, { backgroundColor: 'rgba(0,0,0,0.08)' }]}
+                onPress={onLap}
+                activeOpacity={0.7}
+                accessibilityLabel={t('laps.markLap')}
+              >
+                <Ionicons name="flag-outline" size={22} color={colors.primary} />
+              </TouchableOpacity>
+            )}
           </View>
 
           <TouchableOpacity
@@ -342,6 +523,136 @@ const styles = StyleSheet.create({
     fontSize: fontSize.sm,
     fontWeight: '600',
   },
+  workoutCard: {
+    alignSelf: 'stretch',
+    marginHorizontal: spacing.lg,
+    borderRadius: borderRadius.lg,
+    borderLeftWidth: 4,
+    padding: spacing.md,
+    gap: spacing.xs,
+    backgroundColor: 'rgba(255,255,255,0.75)',
+  },
+  workoutHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  workoutDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  workoutStepLabel: {
+    flex: 1,
+    fontSize: fontSize.xs,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  workoutStepCount: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    color: '#888888',
+  },
+  workoutRemaining: {
+    fontSize: fontSize.xxl,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+    color: '#111111',
+  },
+  workoutTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0,0,0,0.08)',
+  },
+  workoutFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  workoutTargetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  workoutTarget: {
+    flex: 1,
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+    color: '#333333',
+  },
+  workoutPaceStatus: {
+    fontSize: fontSize.sm,
+    fontWeight: '700',
+  },
+  workoutNext: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  lapCard: {
+    alignSelf: 'stretch',
+    marginHorizontal: spacing.lg,
+    borderRadius: borderRadius.lg,
+    borderLeftWidth: 4,
+    padding: spacing.md,
+    gap: spacing.xs,
+    backgroundColor: 'rgba(255,255,255,0.75)',
+  },
+  lapTime: {
+    fontSize: fontSize.lg,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+    color: '#111111',
+  },
+  lapStatsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  lapStat: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+    color: '#333333',
+  },
+  lapHeartRate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    marginHorizontal: spacing.lg,
+  },
+  zonePill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 2,
+    backgroundColor: 'rgba(255,255,255,0.75)',
+  },
+  zoneDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  zoneRange: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+    color: '#333333',
+  },
+  zoneStatus: {
+    fontSize: fontSize.sm,
+    fontWeight: '700',
+  },
   caloriesRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -364,6 +675,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     gap: spacing.xl,
   },
+  toolbarCompact: {
+    gap: spacing.lg,
+  },
   toolbarButton: {
     width: 52,
     height: 52,
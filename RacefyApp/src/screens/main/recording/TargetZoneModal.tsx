@@ -0,0 +1,397 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useTheme, useUnits } from '../../../hooks';
+import { Input, ScreenContainer } from '../../../components';
+import { formatClockInput, parseClockInput } from '../../../utils/workouts';
+import {
+  DEFAULT_ZONE_ALERT_DELAY,
+  LIVE_HEART_RATE_AVAILABLE,
+  ZONE_ALERT_DELAYS,
+  parsePaceTarget,
+} from '../../../utils/targetZones';
+import { getDistanceValueFromKm } from '../../../utils/unitConversions';
+import { borderRadius, fontSize, spacing } from '../../../theme';
+import type { TrainingActivity } from '../../../types/api';
+import type { TargetZone } from '../../../types/targetZone';
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  zone: TargetZone | null;
+  /** Session from the active training week with a pace target, if any */
+  trainingSession: TrainingActivity | null;
+  onZoneChange: (zone: TargetZone | null) => void;
+}
+
+/** Form state — paces (user's pace unit) and bpm stay as typed until apply */
+interface ZoneDraft {
+  paceFast: string;
+  paceSlow: string;
+  hrMin: string;
+  hrMax: string;
+  alertDelaySeconds: number;
+  source: TargetZone['source'];
+}
+
+export function TargetZoneModal({ visible, onClose, zone, trainingSession, onZoneChange }: Props) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { units, getPaceUnit } = useUnits();
+  const perKm = getDistanceValueFromKm(1, units);
+
+  const toDraft = (value: TargetZone | null): ZoneDraft => ({
+    paceFast: value?.pace ? formatClockInput(value.pace.minSecPerKm / perKm) : '',
+    paceSlow: value?.pace ? formatClockInput(value.pace.maxSecPerKm / perKm) : '',
+    hrMin: value?.heartRate ? String(value.heartRate.minBpm) : '',
+    hrMax: value?.heartRate ? String(value.heartRate.maxBpm) : '',
+    alertDelaySeconds: value?.alertDelaySeconds ?? DEFAULT_ZONE_ALERT_DELAY,
+    source: value?.source ?? 'manual',
+  });
+
+  const [draft, setDraft] = useState<ZoneDraft>(() => toDraft(zone));
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the applied zone each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(toDraft(zone));
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const update = (changes: Partial<ZoneDraft>) => {
+    setDraft((prev) => ({ ...prev, source: 'manual', ...changes }));
+    setError(null);
+  };
+
+  const dragGesture = Gesture.Pan()
+    .onEnd((event) => {
+      if (event.translationY > 100 || event.velocityY > 500) {
+        onClose();
+      }
+    });
+
+  const trainingPace = parsePaceTarget(trainingSession?.pace_target);
+
+  const applyTrainingPace = () => {
+    if (!trainingPace) return;
+    setDraft((prev) => ({
+      ...prev,
+      paceFast: formatClockInput(trainingPace.minSecPerKm / perKm),
+      paceSlow: formatClockInput(trainingPace.maxSecPerKm / perKm),
+      source: 'training',
+    }));
+    setError(null);
+  };
+
+  const handleApply = () => {
+    let pace: TargetZone['pace'] = null;
+    if (draft.paceFast.trim() || draft.paceSlow.trim()) {
+      const fast = parseClockInput(draft.paceFast);
+      const slow = parseClockInput(draft.paceSlow);
+      if (!fast || !slow || fast > slow) {
+        setError(t('targetZones.errors.invalidPace'));
+        return;
+      }
+      pace = { minSecPerKm: Math.round(fast * perKm), maxSecPerKm: Math.round(slow * perKm) };
+    }
+
+    let heartRate: TargetZone['heartRate'] = null;
+    if (LIVE_HEART_RATE_AVAILABLE && (draft.hrMin.trim() || draft.hrMax.trim())) {
+      const min = parseInt(draft.hrMin, 10);
+      const max = parseInt(draft.hrMax, 10);
+      if (!Number.isFinite(min) || !Number.isFinite(max) || min < 30 || max > 250 || min >= max) {
+        setError(t('targetZones.errors.invalidHeartRate'));
+        return;
+      }
+      heartRate = { minBpm: min, maxBpm: max };
+    }
+
+    onZoneChange(pace || heartRate
+      ? { pace, heartRate, alertDelaySeconds: draft.alertDelaySeconds, source: draft.source }
+      : null);
+    onClose();
+  };
+
+  const handleClear = () => {
+    onZoneChange(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      transparent={false}
+    >
+      <ScreenContainer>
+        <GestureDetector gesture={dragGesture}>
+          <TouchableOpacity
+            style={[styles.dragHandle, { backgroundColor: colors.cardBackground }]}
+            onPress={onClose}
+            activeOpacity={0.8}
+          >
+            <View style={[styles.dragIndicator, { backgroundColor: colors.border }]} />
+          </TouchableOpacity>
+        </GestureDetector>
+
+        <View style={[styles.header, { backgroundColor: colors.cardBackground, borderBottomColor: colors.border }]}>
+          <Text style={[styles.title, { color: colors.textPrimary }]}>
+            {t('targetZones.title')}
+          </Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="close" size={28} color={colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {trainingSession && trainingPace && (
+            <TouchableOpacity
+              style={[
+                styles.trainingCard,
+                {
+                  backgroundColor: colors.background,
+                  borderColor: draft.source === 'training' ? colors.primary : colors.border,
+                  borderWidth: draft.source === 'training' ? 2 : 1,
+                },
+              ]}
+              onPress={applyTrainingPace}
+            >
+              <Ionicons name="school-outline" size={20} color={colors.primary} />
+              <View style={styles.trainingInfo}>
+                <Text style={[styles.trainingTitle, { color: colors.textPrimary }]}>
+                  {t('targetZones.useTrainingPlan')}
+                </Text>
+                <Text style={[styles.trainingMeta, { color: colors.textMuted }]} numberOfLines={1}>
+                  {trainingSession.activity_type} · {formatClockInput(trainingPace.minSecPerKm / perKm)}–{formatClockInput(trainingPace.maxSecPerKm / perKm)} {getPaceUnit()}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+            {t('targetZones.paceBand', { unit: getPaceUnit() })}
+          </Text>
+          <View style={styles.row}>
+            <View style={styles.rowInput}>
+              <Input
+                label={t('workouts.fastest')}
+                value={draft.paceFast}
+                onChangeText={(paceFast) => update({ paceFast })}
+                keyboardType="numbers-and-punctuation"
+                placeholder={t('common.optional')}
+              />
+            </View>
+            <View style={styles.rowInput}>
+              <Input
+                label={t('workouts.slowest')}
+                value={draft.paceSlow}
+                onChangeText={(paceSlow) => update({ paceSlow })}
+                keyboardType="numbers-and-punctuation"
+                placeholder={t('common.optional')}
+              />
+            </View>
+          </View>
+
+          {LIVE_HEART_RATE_AVAILABLE && (
+            <>
+              <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+                {t('targetZones.heartRateZone')}
+              </Text>
+              <View style={styles.row}>
+                <View style={styles.rowInput}>
+                  <Input
+                    label={t('targetZones.minBpm')}
+                    value={draft.hrMin}
+                    onChangeText={(hrMin) => update({ hrMin })}
+                    keyboardType="number-pad"
+                    placeholder={t('common.optional')}
+                  />
+                </View>
+                <View style={styles.rowInput}>
+                  <Input
+                    label={t('targetZones.maxBpm')}
+                    value={draft.hrMax}
+                    onChangeText={(hrMax) => update({ hrMax })}
+                    keyboardType="number-pad"
+                    placeholder={t('common.optional')}
+                  />
+                </View>
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+            {t('targetZones.alertAfter')}
+          </Text>
+          <View style={styles.chips}>
+            {ZONE_ALERT_DELAYS.map((seconds) => {
+              const isSelected = draft.alertDelaySeconds === seconds;
+              return (
+                <TouchableOpacity
+                  key={seconds}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: isSelected ? colors.primary : colors.background,
+                      borderColor: isSelected ? colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => setDraft((prev) => ({ ...prev, alertDelaySeconds: seconds }))}
+                >
+                  <Text style={[styles.chipText, { color: isSelected ? '#ffffff' : colors.textPrimary }]}>
+                    {t('targetZones.seconds', { count: seconds })}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={[styles.hint, { color: colors.textMuted }]}>
+            {t('targetZones.alertHint')}
+          </Text>
+
+          {error && (
+            <Text style={[styles.error, { color: colors.error }]}>{error}</Text>
+          )}
+        </ScrollView>
+
+        <View style={[styles.footer, { backgroundColor: colors.cardBackground, borderTopColor: colors.border }]}>
+          {zone && (
+            <TouchableOpacity
+              style={[styles.footerButton, styles.clearButton, { borderColor: colors.border }]}
+              onPress={handleClear}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.clearText, { color: colors.textPrimary }]}>{t('targetZones.clear')}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.footerButton, { backgroundColor: colors.primary }]}
+            onPress={handleApply}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.applyText}>{t('targetZones.apply')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScreenContainer>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  dragHandle: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+  },
+  dragIndicator: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: spacing.xs,
+  },
+  content: {
+    padding: spacing.md,
+  },
+  trainingCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.md,
+    gap: spacing.sm,
+  },
+  trainingInfo: {
+    flex: 1,
+  },
+  trainingTitle: {
+    fontWeight: '600',
+  },
+  trainingMeta: {
+    fontSize: fontSize.sm,
+  },
+  sectionTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: fontSize.sm,
+    marginTop: spacing.sm,
+  },
+  error: {
+    fontSize: fontSize.sm,
+    marginTop: spacing.md,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
+  },
+  footerButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clearButton: {
+    borderWidth: 1,
+  },
+  clearText: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  applyText: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
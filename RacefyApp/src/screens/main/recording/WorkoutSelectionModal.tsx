@@ -0,0 +1,234 @@
+import React from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useTheme, useUnits } from '../../../hooks';
+import { ScreenContainer } from '../../../components';
+import { formatDurationCompact } from '../../../utils/formatDuration';
+import { getWorkoutTotals } from '../../../utils/workouts';
+import { borderRadius, fontSize, spacing } from '../../../theme';
+import type { Workout } from '../../../types/workout';
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  workouts: Workout[];
+  selectedWorkoutId: string | null;
+  onWorkoutSelect: (workout: Workout | null) => void;
+  onCreateWorkout: () => void;
+  onEditWorkout: (workout: Workout) => void;
+}
+
+export function WorkoutSelectionModal({
+  visible, onClose, workouts, selectedWorkoutId, onWorkoutSelect, onCreateWorkout, onEditWorkout,
+}: Props) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { formatDistance } = useUnits();
+
+  const dragGesture = Gesture.Pan()
+    .onEnd((event) => {
+      if (event.translationY > 100 || event.velocityY > 500) {
+        onClose();
+      }
+    });
+
+  const select = (workout: Workout | null) => {
+    onWorkoutSelect(workout);
+    onClose();
+  };
+
+  const summarize = (workout: Workout): string => {
+    const totals = getWorkoutTotals(workout);
+    const parts = [t('workouts.summary', { count: totals.steps })];
+    if (totals.seconds > 0) parts.push(formatDurationCompact(totals.seconds));
+    if (totals.meters > 0) parts.push(formatDistance(totals.meters));
+    return parts.join(' · ');
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      transparent={false}
+    >
+      <ScreenContainer>
+        <GestureDetector gesture={dragGesture}>
+          <TouchableOpacity
+            style={[styles.dragHandle, { backgroundColor: colors.cardBackground }]}
+            onPress={onClose}
+            activeOpacity={0.8}
+          >
+            <View style={[styles.dragIndicator, { backgroundColor: colors.border }]} />
+          </TouchableOpacity>
+        </GestureDetector>
+
+        <View style={[styles.header, { backgroundColor: colors.cardBackground, borderBottomColor: colors.border }]}>
+          <Text style={[styles.title, { color: colors.textPrimary }]}>
+            {t('workouts.selectWorkout')}
+          </Text>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="close" size={28} color={colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.list}>
+          <TouchableOpacity
+            style={[
+              styles.item,
+              {
+                borderColor: selectedWorkoutId === null ? colors.primary : colors.border,
+                backgroundColor: colors.background,
+                borderWidth: selectedWorkoutId === null ? 2 : 1,
+              },
+            ]}
+            onPress={() => select(null)}
+          >
+            <Ionicons name="close-circle-outline" size={18} color={colors.textSecondary} />
+            <Text style={[styles.itemTitle, styles.itemInfo, { color: colors.textPrimary }]}>
+              {t('workouts.noWorkout')}
+            </Text>
+          </TouchableOpacity>
+
+          {workouts.length === 0 && (
+            <View style={[styles.empty, { backgroundColor: colors.background, borderColor: colors.border }]}>
+              <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+                {t('workouts.noWorkouts')}
+              </Text>
+            </View>
+          )}
+
+          {workouts.map((workout) => {
+            const isSelected = selectedWorkoutId === workout.id;
+            return (
+              <TouchableOpacity
+                key={workout.id}
+                style={[
+                  styles.item,
+                  {
+                    borderColor: isSelected ? colors.primary : colors.border,
+                    backgroundColor: colors.background,
+                    borderWidth: isSelected ? 2 : 1,
+                  },
+                ]}
+                onPress={() => select(workout)}
+              >
+                <Ionicons name="barbell-outline" size={18} color={colors.primary} />
+                <View style={styles.itemInfo}>
+                  <Text style={[styles.itemTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                    {workout.name}
+                  </Text>
+                  <Text style={[styles.itemMeta, { color: colors.textMuted }]}>
+                    {summarize(workout)}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => onEditWorkout(workout)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  accessibilityLabel={t('workouts.editWorkout')}
+                >
+                  <Ionicons name="create-outline" size={20} color={colors.textSecondary} />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <View style={[styles.footer, { backgroundColor: colors.cardBackground, borderTopColor: colors.border }]}>
+          <TouchableOpacity
+            style={[styles.createButton, { backgroundColor: colors.primary }]}
+            onPress={onCreateWorkout}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="add" size={20} color="#ffffff" />
+            <Text style={styles.createText}>{t('workouts.createWorkout')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScreenContainer>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  dragHandle: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+  },
+  dragIndicator: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: spacing.xs,
+  },
+  list: {
+    padding: spacing.md,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontWeight: '600',
+  },
+  itemMeta: {
+    fontSize: fontSize.sm,
+  },
+  empty: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    fontSize: fontSize.sm,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
+  },
+  createButton: {
+    flexDirection: 'row',
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+  },
+  createText: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
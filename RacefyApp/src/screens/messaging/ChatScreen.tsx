@@ -4,38 +4,91 @@ import {
   Text,
   StyleSheet,
   FlatList,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   TextInput,
   TouchableOpacity,
   Platform,
   ActivityIndicator,
   Alert,
+  Image,
 } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
 import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { format, isSameDay, isToday, isYesterday, isThisYear } from 'date-fns';
 import { pl, enUS } from 'date-fns/locale';
-import { Avatar, Loading, ParticipantsSheet, ScreenContainer } from '../../components';
+import {
+  Avatar,
+  BottomSheet,
+  ChatShareSheet,
+  ImageViewer,
+  Loading,
+  MediaPicker,
+  MessageActionsSheet,
+  ParticipantsSheet,
+  ScreenContainer,
+} from '../../components';
+import type { ChatShareKind } from '../../components';
+import { useAuth } from '../../hooks/useAuth';
 import { useMessages } from '../../hooks/useMessages';
+import type { MessageDraft } from '../../hooks/useMessages';
 import { useTheme } from '../../hooks/useTheme';
 import { api } from '../../services/api';
 import { logger } from '../../services/logger';
+import { formatDistance } from '../../utils/formatters';
+import { formatDuration } from '../../utils/formatDuration';
 import { spacing, fontSize, borderRadius } from '../../theme';
 import type { ThemeColors } from '../../theme/colors';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
-import type { Conversation, ConversationParticipant, Message } from '../../types/api';
+import type {
+  Conversation,
+  ConversationParticipant,
+  MediaItem,
+  Message,
+  MessageReplyPreview,
+  MessageType,
+} from '../../types/api';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Chat'>;
 
+/** Start loading older history when scrolled this close to the top */
+const LOAD_OLDER_THRESHOLD = 200;
+/** Photos that can be attached to one send */
+const MAX_PHOTOS_PER_SEND = 4;
+const PHOTO_MAX_WIDTH = 220;
+
 export function ChatScreen({ navigation, route }: Props) {
   const { conversationId, participant: routeParticipant, conversation: routeConversation } = route.params;
   const { t, i18n } = useTranslation();
   const { colors } = useTheme();
+  const { user } = useAuth();
   const insets = useSafeAreaInsets();
-  const { messages, isLoading: isLoadingMessages, isSending, sendMessage } = useMessages(conversationId);
+  const {
+    messages,
+    isLoading: isLoadingMessages,
+    isLoadingOlder,
+    hasMoreOlder,
+    typingUserIds,
+    readUpToId,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    toggleReaction,
+    loadOlder,
+    notifyTyping,
+  } = useMessages(conversationId);
   const [inputText, setInputText] = useState('');
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [photos, setPhotos] = useState<MediaItem[]>([]);
+  const [isPhotoTrayVisible, setIsPhotoTrayVisible] = useState(false);
+  const [isAttachSheetVisible, setIsAttachSheetVisible] = useState(false);
+  const [shareKind, setShareKind] = useState<ChatShareKind | null>(null);
+  const [actionMessage, setActionMessage] = useState<Message | null>(null);
+  const [viewerUri, setViewerUri] = useState<string | null>(null);
   const flatListRef = useRef<FlatList>(null);
 
   const [conversation, setConversation] = useState<Conversation | null>(routeConversation ?? null);
@@ -77,14 +130,24 @@ export function ChatScreen({ navigation, route }: Props) {
     }
   }, [conversation, fetchConversation]);
 
-  // Scroll to bottom when new messages arrive
+  // Scroll to bottom when a new message arrives at the end — not when older history is prepended
+  const lastMessage = messages[messages.length - 1];
+  const lastMessageKey = lastMessage ? lastMessage.client_id ?? String(lastMessage.id) : null;
+  const previousLastMessageKeyRef = useRef<string | null>(null);
   useEffect(() => {
-    if (messages.length > 0) {
-      setTimeout(() => {
-        flatListRef.current?.scrollToEnd({ animated: true });
-      }, 100);
+    if (!lastMessageKey || lastMessageKey === previousLastMessageKeyRef.current) return;
+    const isFirstLoad = previousLastMessageKeyRef.current === null;
+    previousLastMessageKeyRef.current = lastMessageKey;
+    setTimeout(() => {
+      flatListRef.current?.scrollToEnd({ animated: !isFirstLoad });
+    }, 100);
+  }, [lastMessageKey]);
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (hasMoreOlder && event.nativeEvent.contentOffset.y < LOAD_OLDER_THRESHOLD) {
+      loadOlder();
     }
-  }, [messages.length]);
+  };
 
   const isTeam = conversation?.type === 'team';
   const isCaptain = conversation?.is_captain === true;
@@ -99,11 +162,115 @@ export function ChatScreen({ navigation, route }: Props) {
     return format(date, 'd MMMM yyyy', { locale: dateLocale });
   };
 
+  // "Seen" goes under the newest own message the other side has read
+  const lastSeenOwnMessageId = useMemo(() => {
+    if (readUpToId == null) return null;
+    let seenId: number | null = null;
+    for (const message of messages) {
+      if (message.is_own && message.id > 0 && message.id <= readUpToId) seenId = message.id;
+    }
+    return seenId;
+  }, [messages, readUpToId]);
+
+  const typingText = useMemo(() => {
+    if (typingUserIds.length === 0) return null;
+    if (typingUserIds.length > 1) return t('messaging.severalTyping');
+    const userId = typingUserIds[0];
+    const name =
+      (headerParticipant?.id === userId ? headerParticipant.name : undefined) ??
+      messages.find((m) => m.sender.id === userId)?.sender.name;
+    return name ? t('messaging.typing', { name }) : t('messaging.someoneTyping');
+  }, [typingUserIds, headerParticipant, messages, t]);
+
+  const handleInputChange = (text: string) => {
+    setInputText(text);
+    if (text.trim()) notifyTyping();
+  };
+
   const handleSend = async () => {
-    if (!inputText.trim() || isSending) return;
     const text = inputText.trim();
+    if (!text && photos.length === 0) return;
+    const quoted = replyTo;
+    const attached = photos;
     setInputText('');
-    await sendMessage(text);
+    setReplyTo(null);
+    setPhotos([]);
+    setIsPhotoTrayVisible(false);
+
+    if (attached.length === 0) {
+      await sendMessage({ content: text, replyTo: quoted });
+      return;
+    }
+    // One message per photo; the text goes along as the first photo's caption
+    for (const [index, photo] of attached.entries()) {
+      await sendMessage({
+        photo,
+        content: index === 0 ? text : undefined,
+        replyTo: index === 0 ? quoted : null,
+      });
+    }
+  };
+
+  const handleShare = (draft: Pick<MessageDraft, 'route' | 'event'>) => {
+    sendMessage({ ...draft, replyTo });
+    setReplyTo(null);
+  };
+
+  const describeMessage = (type: MessageType, content: string | null): string => {
+    switch (type) {
+      case 'photo':
+        return content || t('messaging.sharedPhoto');
+      case 'route':
+        return t('messaging.sharedRoute');
+      case 'event':
+        return t('messaging.sharedEvent');
+      case 'activity':
+        return t('messaging.sharedActivity');
+      default:
+        return content ?? '';
+    }
+  };
+
+  const scrollToMessage = (messageId: number) => {
+    const index = messages.findIndex((m) => m.id === messageId);
+    if (index !== -1) {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    }
+  };
+
+  const handleCopy = async (message: Message) => {
+    if (message.content) await Clipboard.setStringAsync(message.content);
+  };
+
+  const attachOptions = [
+    {
+      id: 'photo',
+      icon: 'image-outline' as const,
+      title: t('messaging.attachPhoto'),
+      onPress: () => setIsPhotoTrayVisible(true),
+    },
+    {
+      id: 'route',
+      icon: 'map-outline' as const,
+      title: t('messaging.shareRoute'),
+      onPress: () => setShareKind('route'),
+    },
+    {
+      id: 'event',
+      icon: 'calendar-outline' as const,
+      title: t('messaging.shareEvent'),
+      onPress: () => setShareKind('event'),
+    },
+  ];
+
+  const handleFailedMessagePress = (message: Message) => {
+    if (!message.client_id) return;
+    const clientId = message.client_id;
+    Alert.alert(t('messaging.notSent'), undefined, [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('messaging.deleteMessage'), style: 'destructive', onPress: () => discardMessage(clientId) },
+      { text: t('messaging.retry'), onPress: () => retryMessage(clientId) },
+    ]);
   };
 
   const handleHeaderPress = () => {
@@ -148,6 +315,116 @@ export function ChatScreen({ navigation, route }: Props) {
     }
   };
 
+  const renderReplyQuote = (quoted: MessageReplyPreview, isOwn: boolean) => (
+    <TouchableOpacity
+      style={[styles.replyQuote, isOwn ? themedStyles.ownReplyQuote : themedStyles.otherReplyQuote]}
+      onPress={() => scrollToMessage(quoted.id)}
+    >
+      <Text
+        style={[styles.replyQuoteSender, { color: isOwn ? colors.white : colors.primary }]}
+        numberOfLines={1}
+      >
+        {quoted.sender.name}
+      </Text>
+      <Text
+        style={[themedStyles.replyQuoteText, isOwn && themedStyles.ownMessageTime]}
+        numberOfLines={2}
+      >
+        {describeMessage(quoted.type, quoted.content)}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderAttachment = (item: Message, isOwn: boolean) => {
+    const cardTextStyle = [styles.cardTitle, { color: isOwn ? colors.white : colors.textPrimary }];
+    const cardMetaStyle = [themedStyles.cardMeta, isOwn && themedStyles.ownMessageTime];
+
+    if (item.type === 'photo' && item.photo) {
+      const { url, thumbnail_url, width, height } = item.photo;
+      const aspectRatio = width && height ? width / height : 4 / 3;
+      return (
+        <TouchableOpacity onPress={() => setViewerUri(url)} activeOpacity={0.9}>
+          <Image
+            source={{ uri: thumbnail_url ?? url }}
+            style={[styles.photo, { aspectRatio }]}
+            resizeMode="cover"
+          />
+        </TouchableOpacity>
+      );
+    }
+
+    if (item.type === 'route' && item.route) {
+      const route = item.route;
+      return (
+        <TouchableOpacity
+          style={[styles.card, isOwn ? themedStyles.ownCard : themedStyles.otherCard]}
+          onPress={() => navigation.navigate('RouteDetail', { routeId: route.id })}
+          disabled={route.id <= 0}
+        >
+          {route.route_preview_url && (
+            <Image source={{ uri: route.route_preview_url }} style={styles.cardImage} />
+          )}
+          <View style={styles.cardRow}>
+            <Ionicons name={(route.sport_type?.icon as any) || 'map-outline'} size={18} color={isOwn ? colors.white : colors.primary} />
+            <Text style={cardTextStyle} numberOfLines={1}>{route.title}</Text>
+          </View>
+          <Text style={cardMetaStyle}>
+            {formatDistance(route.distance)} · ↑ {Math.round(route.elevation_gain)} m
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (item.type === 'event' && item.event) {
+      const event = item.event;
+      return (
+        <TouchableOpacity
+          style={[styles.card, isOwn ? themedStyles.ownCard : themedStyles.otherCard]}
+          onPress={() => navigation.navigate('EventDetail', { eventId: event.id })}
+        >
+          {event.cover_image_url && (
+            <Image source={{ uri: event.cover_image_url }} style={styles.cardImage} />
+          )}
+          <View style={styles.cardRow}>
+            <Ionicons name={(event.sport_type?.icon as any) || 'calendar-outline'} size={18} color={isOwn ? colors.white : colors.primary} />
+            <Text style={cardTextStyle} numberOfLines={1}>
+              {event.title || t('eventDetail.untitled')}
+            </Text>
+          </View>
+          <Text style={cardMetaStyle} numberOfLines={1}>
+            {format(new Date(event.starts_at), 'd MMM, HH:mm', { locale: dateLocale })} · {event.location_name}
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (item.type === 'activity' && item.activity) {
+      const activity = item.activity;
+      return (
+        <TouchableOpacity
+          style={[styles.card, isOwn ? themedStyles.ownCard : themedStyles.otherCard]}
+          onPress={() => navigation.navigate('ActivityDetail', { activityId: activity.id })}
+        >
+          {(activity.route_preview_url || activity.route_map_url) && (
+            <Image
+              source={{ uri: (activity.route_preview_url || activity.route_map_url)! }}
+              style={styles.cardImage}
+            />
+          )}
+          <View style={styles.cardRow}>
+            <Ionicons name={(activity.sport_type?.icon as any) || 'fitness-outline'} size={18} color={isOwn ? colors.white : colors.primary} />
+            <Text style={cardTextStyle} numberOfLines={1}>{activity.title}</Text>
+          </View>
+          <Text style={cardMetaStyle}>
+            {formatDistance(activity.distance)} · {formatDuration(activity.duration)}
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return null;
+  };
+
   const renderMessage = ({ item, index }: { item: Message; index: number }) => {
     const isOwn = item.is_own;
     const prevMessage = index > 0 ? messages[index - 1] : null;
@@ -165,6 +442,8 @@ export function ChatScreen({ navigation, route }: Props) {
         prevMessage.is_own);
 
     const showAvatar = !isOwn && (showSender || !prevMessage || messages[index - 1]?.is_own !== item.is_own);
+    const isPending = item.delivery_state === 'pending';
+    const isFailed = item.delivery_state === 'failed';
 
     return (
       <>
@@ -196,27 +475,78 @@ export function ChatScreen({ navigation, route }: Props) {
               )}
             </View>
           )}
-          <View
+          <TouchableOpacity
             style={[
               styles.messageBubble,
               isOwn ? themedStyles.ownBubble : themedStyles.otherBubble,
+              isPending && styles.pendingBubble,
+              isFailed && themedStyles.failedBubble,
             ]}
+            onPress={() => handleFailedMessagePress(item)}
+            onLongPress={() => item.id > 0 && setActionMessage(item)}
+            disabled={!isFailed && item.id <= 0}
+            activeOpacity={0.7}
           >
             {showSender && (
               <Text style={[styles.senderName, { color: colors.primary }]}>
                 {item.sender.name}
               </Text>
             )}
-            <Text
-              style={[themedStyles.messageText, isOwn && themedStyles.ownMessageText]}
-            >
-              {item.content}
-            </Text>
-            <Text style={[themedStyles.messageTime, isOwn && themedStyles.ownMessageTime]}>
-              {time}
-            </Text>
-          </View>
+            {item.reply_to && renderReplyQuote(item.reply_to, isOwn)}
+            {renderAttachment(item, isOwn)}
+            {!!item.content && (
+              <Text
+                style={[themedStyles.messageText, isOwn && themedStyles.ownMessageText]}
+              >
+                {item.content}
+              </Text>
+            )}
+            <View style={styles.messageMeta}>
+              <Text style={[themedStyles.messageTime, isOwn && themedStyles.ownMessageTime]}>
+                {isPending ? t('messaging.sending') : time}
+              </Text>
+              {isPending && (
+                <Ionicons name="time-outline" size={12} color={themedStyles.ownMessageTime.color} />
+              )}
+            </View>
+          </TouchableOpacity>
         </View>
+        {!!item.reactions?.length && (
+          <View style={[styles.reactionsRow, isOwn ? styles.ownReactionsRow : styles.otherReactionsRow]}>
+            {item.reactions.map((reaction) => {
+              const isMine = user != null && reaction.user_ids.includes(user.id);
+              return (
+                <TouchableOpacity
+                  key={reaction.emoji}
+                  style={[
+                    styles.reactionChip,
+                    themedStyles.reactionChip,
+                    isMine && themedStyles.reactionChipMine,
+                  ]}
+                  onPress={() => toggleReaction(item.id, reaction.emoji)}
+                >
+                  <Text style={styles.reactionEmoji}>{reaction.emoji}</Text>
+                  {reaction.count > 1 && (
+                    <Text style={[styles.reactionCount, { color: colors.textSecondary }]}>
+                      {reaction.count}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+        {isFailed && (
+          <TouchableOpacity style={styles.failedRow} onPress={() => handleFailedMessagePress(item)}>
+            <Ionicons name="alert-circle" size={14} color={colors.error} />
+            <Text style={[styles.failedText, { color: colors.error }]}>
+              {t('messaging.failedTapToRetry')}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {item.id === lastSeenOwnMessageId && (
+          <Text style={[styles.seenText, { color: colors.textMuted }]}>{t('messaging.seen')}</Text>
+        )}
       </>
     );
   };
@@ -336,21 +666,78 @@ export function ChatScreen({ navigation, route }: Props) {
         <FlatList
           ref={flatListRef}
           data={messages}
-          keyExtractor={(item) => item.id.toString()}
+          keyExtractor={(item) => item.client_id ?? item.id.toString()}
           renderItem={renderMessage}
           contentContainerStyle={styles.messagesContent}
-          onContentSizeChange={() =>
-            flatListRef.current?.scrollToEnd({ animated: false })
+          onScroll={handleScroll}
+          scrollEventThrottle={100}
+          // Keep the visible message in place when older history is prepended
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+          onScrollToIndexFailed={({ index }) =>
+            flatListRef.current?.scrollToOffset({ offset: index * 60, animated: true })
+          }
+          ListHeaderComponent={
+            isLoadingOlder ? (
+              <ActivityIndicator style={styles.olderLoader} size="small" color={colors.primary} />
+            ) : null
+          }
+          ListFooterComponent={
+            typingText ? (
+              <Text style={[styles.typingText, { color: colors.textMuted }]}>{typingText}</Text>
+            ) : null
           }
         />
 
+        {replyTo && (
+          <View style={[styles.replyBanner, themedStyles.inputContainer]}>
+            <Ionicons name="arrow-undo" size={16} color={colors.primary} />
+            <View style={styles.replyBannerText}>
+              <Text style={[styles.replyQuoteSender, { color: colors.primary }]} numberOfLines={1}>
+                {t('messaging.replyingTo', { name: replyTo.sender.name })}
+              </Text>
+              <Text style={[styles.replyBannerContent, { color: colors.textSecondary }]} numberOfLines={1}>
+                {describeMessage(replyTo.type, replyTo.content)}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => setReplyTo(null)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Ionicons name="close" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {isPhotoTrayVisible && (
+          <View style={[styles.photoTray, themedStyles.inputContainer]}>
+            <MediaPicker
+              media={photos}
+              onChange={setPhotos}
+              maxItems={MAX_PHOTOS_PER_SEND}
+              allowVideo={false}
+            />
+          </View>
+        )}
+
         <View style={[styles.inputContainer, themedStyles.inputContainer, { paddingBottom: spacing.md + insets.bottom }]}>
+          <TouchableOpacity
+            style={styles.attachButton}
+            onPress={() =>
+              isPhotoTrayVisible && photos.length === 0
+                ? setIsPhotoTrayVisible(false)
+                : setIsAttachSheetVisible(true)
+            }
+            accessibilityLabel={t('messaging.attach')}
+          >
+            <Ionicons
+              name={isPhotoTrayVisible && photos.length === 0 ? 'close-circle-outline' : 'add-circle-outline'}
+              size={28}
+              color={colors.primary}
+            />
+          </TouchableOpacity>
           <TextInput
             style={[styles.input, themedStyles.input]}
             placeholder={t('messaging.placeholder')}
             placeholderTextColor={colors.textMuted}
             value={inputText}
-            onChangeText={setInputText}
+            onChangeText={handleInputChange}
             multiline
             maxLength={1000}
           />
@@ -358,16 +745,12 @@ export function ChatScreen({ navigation, route }: Props) {
             style={[
               styles.sendButton,
               themedStyles.sendButton,
-              (!inputText.trim() || isSending) && themedStyles.sendButtonDisabled,
+              !inputText.trim() && photos.length === 0 && themedStyles.sendButtonDisabled,
             ]}
             onPress={handleSend}
-            disabled={!inputText.trim() || isSending}
+            disabled={!inputText.trim() && photos.length === 0}
           >
-            {isSending ? (
-              <ActivityIndicator size="small" color={colors.white} />
-            ) : (
-              <Ionicons name="send" size={20} color={colors.white} />
-            )}
+            <Ionicons name="send" size={20} color={colors.white} />
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
@@ -378,6 +761,33 @@ export function ChatScreen({ navigation, route }: Props) {
         onClose={() => setIsParticipantsSheetVisible(false)}
         onUserPress={(username) => navigation.navigate('UserProfile', { username })}
       />
+
+      <BottomSheet
+        visible={isAttachSheetVisible}
+        onClose={() => setIsAttachSheetVisible(false)}
+        options={attachOptions}
+      />
+
+      <ChatShareSheet
+        visible={shareKind !== null}
+        kind={shareKind ?? 'route'}
+        onClose={() => setShareKind(null)}
+        onSelectRoute={(route) => handleShare({ route })}
+        onSelectEvent={(event) => handleShare({ event })}
+      />
+
+      <MessageActionsSheet
+        message={actionMessage}
+        currentUserId={user?.id ?? null}
+        onClose={() => setActionMessage(null)}
+        onReact={(message, emoji) => toggleReaction(message.id, emoji)}
+        onReply={setReplyTo}
+        onCopy={handleCopy}
+      />
+
+      {viewerUri && (
+        <ImageViewer uri={viewerUri} visible onClose={() => setViewerUri(null)} />
+      )}
     </ScreenContainer>
   );
 }
@@ -450,6 +860,40 @@ const styles = StyleSheet.create({
     padding: spacing.md,
     flexGrow: 1,
   },
+  seenText: {
+    fontSize: 11,
+    alignSelf: 'flex-end',
+    marginTop: -spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  olderLoader: {
+    marginVertical: spacing.sm,
+  },
+  pendingBubble: {
+    opacity: 0.7,
+  },
+  messageMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 4,
+  },
+  failedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 4,
+    marginTop: -spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  failedText: {
+    fontSize: 11,
+  },
+  typingText: {
+    fontSize: fontSize.sm,
+    fontStyle: 'italic',
+    marginTop: spacing.xs,
+  },
   messageContainer: {
     flexDirection: 'row',
     marginBottom: spacing.sm,
@@ -474,6 +918,98 @@ const styles = StyleSheet.create({
     borderRadius: borderRadius.lg,
     maxWidth: '100%',
   },
+  replyQuote: {
+    borderLeftWidth: 3,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  replyQuoteSender: {
+    fontSize: fontSize.xs,
+    fontWeight: '700',
+  },
+  photo: {
+    width: PHOTO_MAX_WIDTH,
+    maxHeight: 320,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.xs,
+  },
+  card: {
+    width: PHOTO_MAX_WIDTH,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  cardImage: {
+    width: '100%',
+    height: 110,
+    borderRadius: borderRadius.sm,
+    marginBottom: spacing.xs,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+  reactionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: -spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  ownReactionsRow: {
+    alignSelf: 'flex-end',
+  },
+  otherReactionsRow: {
+    alignSelf: 'flex-start',
+    marginLeft: 32 + spacing.xs,
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  reactionEmoji: {
+    fontSize: 13,
+  },
+  reactionCount: {
+    fontSize: 11,
+    marginLeft: 2,
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+  },
+  replyBannerText: {
+    flex: 1,
+  },
+  replyBannerContent: {
+    fontSize: fontSize.sm,
+  },
+  photoTray: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+  },
+  attachButton: {
+    height: 44,
+    justifyContent: 'center',
+    marginRight: spacing.xs,
+  },
   senderName: {
     fontSize: fontSize.xs,
     fontWeight: '700',
@@ -564,6 +1100,40 @@ const createThemedStyles = (colors: ThemeColors) =>
     ownMessageTime: {
       color: 'rgba(255, 255, 255, 0.7)',
     },
+    ownReplyQuote: {
+      backgroundColor: 'rgba(255, 255, 255, 0.15)',
+      borderLeftColor: colors.white,
+    },
+    otherReplyQuote: {
+      backgroundColor: colors.background,
+      borderLeftColor: colors.primary,
+    },
+    replyQuoteText: {
+      fontSize: fontSize.sm,
+      color: colors.textSecondary,
+    },
+    ownCard: {
+      backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    },
+    otherCard: {
+      backgroundColor: colors.background,
+    },
+    cardMeta: {
+      fontSize: fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    reactionChip: {
+      backgroundColor: colors.cardBackground,
+      borderColor: colors.border,
+    },
+    reactionChipMine: {
+      backgroundColor: colors.primary + '20',
+      borderColor: colors.primary,
+    },
+    failedBubble: {
+      backgroundColor: colors.textMuted,
+    },
     inputContainer: {
       backgroundColor: colors.cardBackground,
       borderTopColor: colors.border,
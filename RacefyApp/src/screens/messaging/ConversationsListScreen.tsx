@@ -23,7 +23,7 @@ import { logger } from '../../services/logger';
 import { spacing, fontSize } from '../../theme';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
-import type { Conversation, MentionSearchUser } from '../../types/api';
+import type { Conversation, LastMessage, MentionSearchUser } from '../../types/api';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'ConversationsList'>;
 
@@ -154,13 +154,26 @@ export function ConversationsListScreen({ navigation }: Props) {
     return format(date, 'd MMM yyyy', { locale: dateLocale });
   };
 
+  const formatLastMessage = (message: LastMessage): string | null => {
+    switch (message.type) {
+      case 'activity':
+        return t('messaging.sharedActivity');
+      case 'photo':
+        return message.content || t('messaging.sharedPhoto');
+      case 'route':
+        return t('messaging.sharedRoute');
+      case 'event':
+        return t('messaging.sharedEvent');
+      default:
+        return message.content;
+    }
+  };
+
   const renderConversation = ({ item }: { item: Conversation }) => {
     const timeAgo = item.last_message_at ? formatConversationTime(item.last_message_at) : '';
 
     const lastMessagePreview = item.last_message
-      ? item.last_message.type === 'activity'
-        ? t('messaging.sharedActivity')
-        : item.last_message.content
+      ? formatLastMessage(item.last_message)
       : '';
 
     const isTeam = item.type === 'team';
@@ -0,0 +1,189 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { EmptyState, ScreenContainer, ScreenHeader } from '../../components';
+import { useOfflineRoutes } from '../../hooks/useOfflineRoutes';
+import { useTheme } from '../../hooks/useTheme';
+import { deleteOfflineRoute, type OfflineRoutePack } from '../../services/offlineRoutes';
+import { formatDistance } from '../../utils/formatters';
+import { spacing, fontSize, borderRadius } from '../../theme';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../navigation/types';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'OfflineRoutes'>;
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
+
+export function OfflineRoutesScreen({ navigation }: Props) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { packs, isLoading } = useOfflineRoutes();
+
+  const totalBytes = packs.reduce((sum, pack) => sum + pack.tiles.sizeBytes, 0);
+
+  const handleDelete = useCallback((pack: OfflineRoutePack) => {
+    Alert.alert(
+      t('offlineRoutes.remove'),
+      t('offlineRoutes.removeConfirm'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => deleteOfflineRoute(pack.route.id),
+        },
+      ]
+    );
+  }, [t]);
+
+  const tilesLabel = (pack: OfflineRoutePack): string => {
+    switch (pack.tiles.status) {
+      case 'complete':
+        return t('offlineRoutes.size', { size: formatMegabytes(pack.tiles.sizeBytes) });
+      case 'downloading':
+        return t('offlineRoutes.downloadingMap');
+      default:
+        return t('offlineRoutes.availableOfflineNoMap');
+    }
+  };
+
+  const renderItem = ({ item }: { item: OfflineRoutePack }) => (
+    <TouchableOpacity
+      style={[
+        styles.packItem,
+        {
+          backgroundColor: colors.cardBackground,
+          borderColor: colors.border,
+        },
+      ]}
+      onPress={() => navigation.navigate('RouteDetail', { routeId: item.route.id })}
+      activeOpacity={0.7}
+    >
+      <Ionicons
+        name={item.tiles.status === 'complete' ? 'map' : 'map-outline'}
+        size={24}
+        color={item.tiles.status === 'failed' ? colors.textMuted : colors.primary}
+      />
+      <View style={styles.packInfo}>
+        <Text style={[styles.packTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+          {item.route.title}
+        </Text>
+        <Text style={[styles.packMeta, { color: colors.textSecondary }]}>
+          {formatDistance(item.route.distance)} · {tilesLabel(item)}
+        </Text>
+        <Text style={[styles.packMeta, { color: colors.textMuted }]}>
+          {t('offlineRoutes.downloadedAt', { date: new Date(item.downloadedAt).toLocaleDateString() })}
+        </Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => handleDelete(item)}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Ionicons name="trash-outline" size={20} color={colors.error} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      );
+    }
+
+    return (
+      <EmptyState
+        icon="cloud-download-outline"
+        title={t('offlineRoutes.empty')}
+        message={t('offlineRoutes.emptyMessage')}
+      />
+    );
+  };
+
+  return (
+    <ScreenContainer>
+      <ScreenHeader
+        title={t('offlineRoutes.title')}
+        showBack
+        onBack={() => navigation.goBack()}
+      />
+
+      {packs.length > 0 && (
+        <View style={styles.countContainer}>
+          <Text style={[styles.countText, { color: colors.textSecondary }]}>
+            {t('offlineRoutes.count', { count: packs.length })} · {t('offlineRoutes.size', { size: formatMegabytes(totalBytes) })}
+          </Text>
+        </View>
+      )}
+
+      <FlatList
+        data={packs}
+        keyExtractor={(item) => `offline-route-${item.route.id}`}
+        renderItem={renderItem}
+        contentContainerStyle={[
+          styles.listContent,
+          packs.length === 0 && styles.listContentEmpty,
+        ]}
+        ListEmptyComponent={renderEmpty}
+        showsVerticalScrollIndicator={false}
+      />
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  countContainer: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  countText: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+  },
+  listContent: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  listContentEmpty: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: spacing.xxl,
+  },
+  packItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    gap: spacing.sm,
+  },
+  packInfo: {
+    flex: 1,
+  },
+  packTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  packMeta: {
+    fontSize: fontSize.sm,
+  },
+});
@@ -11,8 +11,10 @@ import {
   LeafletMap,
 } from '../../components';
 import { useAuth } from '../../hooks/useAuth';
+import { useOfflineRoutes } from '../../hooks/useOfflineRoutes';
 import { useTheme } from '../../hooks/useTheme';
 import { api } from '../../services/api';
+import { deleteOfflineRoute, downloadOfflineRoute, getOfflineRoute } from '../../services/offlineRoutes';
 import { formatDistance, formatTotalTime } from '../../utils/formatters';
 import { spacing, fontSize, borderRadius } from '../../theme';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
@@ -23,15 +25,19 @@ type Props = NativeStackScreenProps<RootStackParamList, 'RouteDetail'>;
 
 export function RouteDetailScreen({ route: navRoute, navigation }: Props) {
   const { t } = useTranslation();
-  const { colors } = useTheme();
+  const { colors, isDark } = useTheme();
   const { user } = useAuth();
+  const { packs: offlinePacks } = useOfflineRoutes();
   const { routeId } = navRoute.params;
 
   const [route, setRoute] = useState<PlannedRoute | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isOfflineCopy, setIsOfflineCopy] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
 
   const isOwner = route?.user_id === user?.id;
+  const offlinePack = offlinePacks.find((p) => p.route.id === routeId) ?? null;
 
   useEffect(() => {
     loadRoute();
@@ -43,8 +49,16 @@ export function RouteDetailScreen({ route: navRoute, navigation }: Props) {
     try {
       const data = await api.getRoute(routeId);
       setRoute(data);
+      setIsOfflineCopy(false);
     } catch (err) {
-      setError(t('routeDetail.failedToLoad'));
+      // No signal — fall back to the downloaded copy
+      const stored = await getOfflineRoute(routeId);
+      if (stored) {
+        setRoute(stored.route);
+        setIsOfflineCopy(true);
+      } else {
+        setError(t('routeDetail.failedToLoad'));
+      }
     } finally {
       setIsLoading(false);
     }
@@ -77,6 +91,39 @@ export function RouteDetailScreen({ route: navRoute, navigation }: Props) {
     } catch {}
   }, [routeId, t]);
 
+  const handleDownload = useCallback(async () => {
+    if (!route) return;
+    setDownloadProgress(0);
+    try {
+      const pack = await downloadOfflineRoute(route, {
+        isDark,
+        onProgress: (percentage) => setDownloadProgress(Math.round(percentage)),
+      });
+      if (pack.tiles.status === 'failed') {
+        Alert.alert(t('offlineRoutes.tilesFailedTitle'), t('offlineRoutes.tilesFailedMessage'));
+      }
+    } catch {
+      Alert.alert(t('common.error'), t('offlineRoutes.downloadFailed'));
+    } finally {
+      setDownloadProgress(null);
+    }
+  }, [route, isDark, t]);
+
+  const handleRemoveOffline = useCallback(() => {
+    Alert.alert(
+      t('offlineRoutes.remove'),
+      t('offlineRoutes.removeConfirm'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => deleteOfflineRoute(routeId),
+        },
+      ]
+    );
+  }, [routeId, t]);
+
   if (isLoading) {
     return (
       <ScreenContainer>
@@ -106,6 +153,15 @@ export function RouteDetailScreen({ route: navRoute, navigation }: Props) {
       />
 
       <ScrollView contentContainerStyle={styles.content}>
+        {isOfflineCopy && (
+          <View style={[styles.offlineBanner, { backgroundColor: colors.cardBackground }]}>
+            <Ionicons name="cloud-offline-outline" size={18} color={colors.textSecondary} />
+            <Text style={[styles.offlineBannerText, { color: colors.textSecondary }]}>
+              {t('offlineRoutes.showingOfflineCopy')}
+            </Text>
+          </View>
+        )}
+
         {/* Map */}
         {route.geometry && (
           <View style={styles.mapContainer}>
@@ -182,6 +238,41 @@ export function RouteDetailScreen({ route: navRoute, navigation }: Props) {
 
         {/* Actions */}
         <View style={styles.actions}>
+          {offlinePack && downloadProgress === null ? (
+            <>
+              <View style={styles.offlineStatus}>
+                <Ionicons name="checkmark-circle" size={18} color={colors.primary} />
+                <Text style={[styles.offlineStatusText, { color: colors.textSecondary }]}>
+                  {offlinePack.tiles.status === 'complete'
+                    ? t('offlineRoutes.availableOffline')
+                    : offlinePack.tiles.status === 'downloading'
+                      ? t('offlineRoutes.downloadingMap')
+                      : t('offlineRoutes.availableOfflineNoMap')}
+                </Text>
+              </View>
+              {offlinePack.tiles.status === 'failed' && !isOfflineCopy && (
+                <Button
+                  title={t('offlineRoutes.retryMap')}
+                  onPress={handleDownload}
+                  variant="outline"
+                />
+              )}
+              <Button
+                title={t('offlineRoutes.remove')}
+                onPress={handleRemoveOffline}
+                variant="outline"
+              />
+            </>
+          ) : (
+            <Button
+              title={downloadProgress !== null
+                ? t('offlineRoutes.downloading', { percent: downloadProgress })
+                : t('offlineRoutes.download')}
+              onPress={handleDownload}
+              variant="outline"
+              disabled={downloadProgress !== null}
+            />
+          )}
           {!isOwner && (
             <Button
               title={t('routeDetail.duplicate')}
@@ -288,6 +379,28 @@ const styles = StyleSheet.create({
   turnDistance: {
     fontSize: fontSize.xs,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginHorizontal: spacing.md,
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+  },
+  offlineBannerText: {
+    flex: 1,
+    fontSize: fontSize.sm,
+  },
+  offlineStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+  },
+  offlineStatusText: {
+    fontSize: fontSize.sm,
+  },
   actions: {
     paddingHorizontal: spacing.md,
     paddingTop: spacing.lg,
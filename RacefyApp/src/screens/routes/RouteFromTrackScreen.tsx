@@ -0,0 +1,473 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import {
+  Button,
+  Card,
+  Input,
+  RoutePreview,
+  ScreenContainer,
+  ScreenHeader,
+  SportTypeSelector,
+} from '../../components';
+import { logger } from '../../services/logger';
+import { useRouteFromTrack } from '../../hooks/useRouteFromTrack';
+import { useTheme } from '../../hooks/useTheme';
+import { useUnits } from '../../hooks/useUnits';
+import {
+  MAX_ROUTE_FILE_BYTES,
+  detectRouteFileFormat,
+  type RouteFileErrorCode,
+} from '../../utils/routeFromTrack';
+import { spacing, fontSize, borderRadius } from '../../theme';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../navigation/types';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'RouteFromTrack'>;
+
+const PICKER_TYPES = [
+  'application/gpx+xml',
+  'application/geo+json',
+  'application/json',
+  'text/xml',
+  'application/xml',
+  'application/octet-stream',
+  '*/*',
+];
+
+export function RouteFromTrackScreen({ navigation, route: navRoute }: Props) {
+  const activityId = navRoute.params?.activityId;
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { formatDistance, formatElevation } = useUnits();
+
+  const {
+    route,
+    source,
+    suggestedTitle,
+    suggestedSportTypeId,
+    isLoading,
+    isSaving,
+    error,
+    loadFromActivity,
+    loadFromFile,
+    reset,
+    saveRoute,
+  } = useRouteFromTrack();
+
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [sportTypeId, setSportTypeId] = useState<number | null>(null);
+  const [profile, setProfile] = useState<'walking' | 'cycling'>('walking');
+  const [isPublic, setIsPublic] = useState(false);
+
+  useEffect(() => {
+    if (activityId) loadFromActivity(activityId);
+  }, [activityId, loadFromActivity]);
+
+  // Prefill from the activity / file, without overwriting what the user typed
+  useEffect(() => {
+    if (suggestedTitle) setTitle((current) => current || suggestedTitle);
+  }, [suggestedTitle]);
+
+  useEffect(() => {
+    if (suggestedSportTypeId) setSportTypeId((current) => current ?? suggestedSportTypeId);
+  }, [suggestedSportTypeId]);
+
+  const showFileError = (code: RouteFileErrorCode) => {
+    Alert.alert(t('routeFromTrack.errors.title'), t(`routeFromTrack.errors.${code}`));
+  };
+
+  const handleSelectFile = async () => {
+    let file: DocumentPicker.DocumentPickerAsset;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: PICKER_TYPES,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets || result.assets.length === 0) return;
+      file = result.assets[0];
+    } catch (err) {
+      logger.error('general', 'Document picker error', { error: err });
+      Alert.alert(t('common.error'), t('routeFromTrack.selectFileFailed'));
+      return;
+    }
+
+    const format = detectRouteFileFormat(file.name);
+    if (!format) {
+      showFileError('unsupported_format');
+      return;
+    }
+    if (file.size && file.size > MAX_ROUTE_FILE_BYTES) {
+      showFileError('too_large');
+      return;
+    }
+
+    setIsReadingFile(true);
+    try {
+      const content = await FileSystem.readAsStringAsync(file.uri, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+      const errorCode = loadFromFile(format, content, file.name);
+      if (errorCode) showFileError(errorCode);
+    } catch (err) {
+      logger.error('activity', 'Failed to read route file', { format, error: err });
+      showFileError('corrupt');
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  const handleClearFile = () => {
+    reset();
+    setTitle('');
+  };
+
+  const handleSave = async () => {
+    if (!title.trim() || !sportTypeId) return;
+    const saved = await saveRoute(title.trim(), sportTypeId, profile, description.trim() || undefined, isPublic);
+    if (!saved) return;
+    const openRoute = () => navigation.replace('RouteDetail', { routeId: saved.route.id });
+    if (saved.matchesTrack) {
+      openRoute();
+    } else {
+      Alert.alert(t('routeFromTrack.savedMismatchTitle'), t('routeFromTrack.savedMismatch'), [
+        { text: t('common.ok'), onPress: openRoute },
+      ]);
+    }
+  };
+
+  const renderSource = () => {
+    if (activityId) {
+      if (isLoading) {
+        return (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="small" color={colors.primary} />
+            <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+              {t('routeFromTrack.loadingActivity')}
+            </Text>
+          </View>
+        );
+      }
+      if (!route) {
+        return (
+          <View style={styles.loadingContainer}>
+            <Text style={[styles.hintText, { color: colors.error }]}>
+              {error ?? t('routeFromTrack.loadFailed')}
+            </Text>
+            <Button
+              title={t('common.tryAgain')}
+              onPress={() => loadFromActivity(activityId)}
+              variant="outline"
+            />
+          </View>
+        );
+      }
+      return null;
+    }
+
+    return (
+      <Card style={styles.sectionCard}>
+        <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+          {t('routeFromTrack.selectFile')}
+        </Text>
+        <TouchableOpacity
+          style={[
+            styles.fileSelector,
+            { backgroundColor: colors.background, borderColor: colors.border },
+            source?.type === 'file' && { borderColor: colors.primary, borderStyle: 'solid' },
+          ]}
+          onPress={handleSelectFile}
+          activeOpacity={0.7}
+        >
+          {isReadingFile ? (
+            <View style={styles.emptyFileContent}>
+              <ActivityIndicator size="small" color={colors.primary} />
+            </View>
+          ) : source?.type === 'file' ? (
+            <View style={styles.selectedFileContent}>
+              <Ionicons name="document-text" size={28} color={colors.primary} />
+              <Text style={[styles.fileName, { color: colors.textPrimary }]} numberOfLines={1}>
+                {source.fileName}
+              </Text>
+              <TouchableOpacity
+                onPress={handleClearFile}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="close-circle" size={24} color={colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.emptyFileContent}>
+              <Ionicons name="cloud-upload-outline" size={32} color={colors.primary} />
+              <Text style={[styles.selectFileText, { color: colors.textPrimary }]}>
+                {t('routeFromTrack.tapToSelect')}
+              </Text>
+              <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+                {t('routeFromTrack.supportedFiles')}
+              </Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </Card>
+    );
+  };
+
+  return (
+    <ScreenContainer>
+      <ScreenHeader
+        title={activityId ? t('routeFromTrack.titleFromActivity') : t('routeFromTrack.titleFromFile')}
+        showBack
+        onBack={() => navigation.goBack()}
+      />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView
+          style={styles.container}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderSource()}
+
+          {route && (
+            <>
+              <Card style={styles.sectionCard}>
+                <View style={styles.mapContainer}>
+                  <RoutePreview trackData={route.geometry} height={200} />
+                </View>
+                <View style={styles.statsRow}>
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+                      {formatDistance(route.distance)}
+                    </Text>
+                    <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                      {t('routeDetail.distance')}
+                    </Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+                      {route.elevationProfile.length > 0 ? `+${formatElevation(route.elevationGain)}` : '—'}
+                    </Text>
+                    <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                      {t('routeDetail.elevation')}
+                    </Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+                      {route.turnInstructions.length}
+                    </Text>
+                    <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                      {t('routeFromTrack.turns.label')}
+                    </Text>
+                  </View>
+                </View>
+                <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+                  {route.isLoop
+                    ? t('routeFromTrack.summaryLoop', { count: route.waypoints.length })
+                    : t('routeFromTrack.summary', { count: route.waypoints.length })}
+                </Text>
+              </Card>
+
+              <View style={styles.form}>
+                <Input
+                  label={t('common.title', 'Title')}
+                  value={title}
+                  onChangeText={setTitle}
+                  placeholder={t('routes.routeTitlePlaceholder', 'My morning run route')}
+                />
+
+                <Input
+                  label={t('common.description', 'Description')}
+                  value={description}
+                  onChangeText={setDescription}
+                  placeholder={t('routes.routeDescriptionPlaceholder', 'Optional description...')}
+                  multiline
+                  numberOfLines={3}
+                />
+
+                <SportTypeSelector
+                  value={sportTypeId}
+                  onChange={setSportTypeId}
+                />
+
+                <View style={styles.profileToggle}>
+                  {(['walking', 'cycling'] as const).map((option) => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[
+                        styles.profileOption,
+                        { borderColor: colors.border },
+                        profile === option && { backgroundColor: colors.primary, borderColor: colors.primary },
+                      ]}
+                      onPress={() => setProfile(option)}
+                    >
+                      <Ionicons
+                        name={option === 'walking' ? 'walk-outline' : 'bicycle-outline'}
+                        size={18}
+                        color={profile === option ? '#fff' : colors.textSecondary}
+                      />
+                      <Text style={[
+                        styles.profileText,
+                        { color: profile === option ? '#fff' : colors.textSecondary },
+                      ]}>
+                        {t(`routes.${option}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <TouchableOpacity
+                  style={styles.publicToggle}
+                  onPress={() => setIsPublic(!isPublic)}
+                >
+                  <Ionicons
+                    name={isPublic ? 'checkbox' : 'square-outline'}
+                    size={22}
+                    color={isPublic ? colors.primary : colors.textSecondary}
+                  />
+                  <Text style={[styles.publicLabel, { color: colors.textPrimary }]}>
+                    {t('routes.makePublic', 'Make this route public')}
+                  </Text>
+                </TouchableOpacity>
+
+                {error && (
+                  <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>
+                )}
+
+                <Button
+                  title={t('common.save', 'Save')}
+                  onPress={handleSave}
+                  loading={isSaving}
+                  disabled={!title.trim() || !sportTypeId}
+                />
+              </View>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.xxl,
+  },
+  sectionCard: {
+    marginBottom: spacing.md,
+  },
+  sectionTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    marginBottom: spacing.md,
+  },
+  fileSelector: {
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    alignItems: 'center',
+  },
+  emptyFileContent: {
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  selectedFileContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    gap: spacing.md,
+  },
+  selectFileText: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  fileName: {
+    flex: 1,
+    fontSize: fontSize.md,
+    fontWeight: '500',
+  },
+  hintText: {
+    fontSize: fontSize.sm,
+    textAlign: 'center',
+  },
+  mapContainer: {
+    borderRadius: borderRadius.md,
+    overflow: 'hidden',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: spacing.md,
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: fontSize.md,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: fontSize.xs,
+    marginTop: 2,
+  },
+  form: {
+    gap: spacing.md,
+  },
+  profileToggle: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  profileOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  profileText: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+  publicToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+  },
+  publicLabel: {
+    fontSize: fontSize.sm,
+  },
+  errorText: {
+    fontSize: fontSize.sm,
+    textAlign: 'center',
+  },
+});
@@ -11,7 +11,7 @@ import {
 } from 'react-native';
 import {Ionicons} from '@expo/vector-icons';
 import {useTranslation} from 'react-i18next';
-import {EmptyState, Loading, RouteCard, ScreenContainer, ScreenHeader} from '../../components';
+import {BottomSheet, EmptyState, Loading, RouteCard, ScreenContainer, ScreenHeader} from '../../components';
 import {useRoutes} from '../../hooks/useRoutes';
 import {useTheme} from '../../hooks/useTheme';
 import {borderRadius, fontSize, spacing} from '../../theme';
@@ -47,6 +47,7 @@ export function RouteLibraryScreen({ navigation, route: navRoute }: Props) {
   ];
 
   const [activeFilter, setActiveFilter] = useState<FilterOption>('my');
+  const [isCreateSheetVisible, setIsCreateSheetVisible] = useState(false);
 
   useEffect(() => {
     refresh();
@@ -120,9 +121,14 @@ export function RouteLibraryScreen({ navigation, route: navRoute }: Props) {
         showBack
         onBack={() => navigation.goBack()}
         rightAction={!selectMode ? (
-          <TouchableOpacity onPress={() => navigation.navigate('RoutePlanner')} style={{ padding: spacing.xs }}>
-            <Ionicons name="add-circle-outline" size={24} color={colors.primary} />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={() => navigation.navigate('OfflineRoutes')} style={{ padding: spacing.xs }}>
+              <Ionicons name="cloud-download-outline" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setIsCreateSheetVisible(true)} style={{ padding: spacing.xs }}>
+              <Ionicons name="add-circle-outline" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
         ) : undefined}
       />
 
@@ -176,11 +182,36 @@ export function RouteLibraryScreen({ navigation, route: navRoute }: Props) {
           ) : null
         }
       />
+
+      <BottomSheet
+        visible={isCreateSheetVisible}
+        onClose={() => setIsCreateSheetVisible(false)}
+        title={t('routes.createRoute')}
+        options={[
+          {
+            id: 'plan',
+            icon: 'navigate-outline',
+            title: t('routeFromTrack.planOnMap'),
+            onPress: () => navigation.navigate('RoutePlanner'),
+          },
+          {
+            id: 'import',
+            icon: 'document-text-outline',
+            title: t('routeFromTrack.importFile'),
+            description: t('routeFromTrack.importFileDescription'),
+            onPress: () => navigation.navigate('RouteFromTrack'),
+          },
+        ]}
+      />
     </ScreenContainer>
   );
 }
 
 const styles = StyleSheet.create({
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   filterContainer: {
     flexDirection: 'row',
     paddingHorizontal: spacing.md,
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import * as Location from 'expo-location';
 import { logger } from '../../services/logger';
 import {
@@ -22,14 +22,22 @@ import {
 } from '../../components';
 import { MapboxRoutePlanner, type MapboxRoutePlannerHandle, type RoutePlannerMapStyle } from '../../components/MapboxRoutePlanner';
 import { useRoutePlanner } from '../../hooks/useRoutePlanner';
+import { useLoopGenerator, type LoopCandidate } from '../../hooks/useLoopGenerator';
 import { useTheme } from '../../hooks/useTheme';
 import { formatDistance, formatTotalTime } from '../../utils/formatters';
+import { formatDistanceFromKmRounded } from '../../utils/unitConversions';
 import { spacing, fontSize, borderRadius } from '../../theme';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'RoutePlanner'>;
 
+/** Loop target distance: default, step and bounds in km per profile */
+const LOOP_DISTANCE_KM = {
+  walking: { initial: 5, step: 1, min: 1, max: 50 },
+  cycling: { initial: 30, step: 5, min: 5, max: 200 },
+} as const;
+
 export function RoutePlannerScreen({ navigation }: Props) {
   const { t } = useTranslation();
   const { colors } = useTheme();
@@ -45,10 +53,19 @@ export function RoutePlannerScreen({ navigation }: Props) {
     removeWaypoint,
     undo,
     clearAll,
+    loadWaypoints,
     changeProfile,
     saveRoute,
   } = useRoutePlanner();
 
+  const {
+    candidates: loopCandidates,
+    isGenerating: isGeneratingLoops,
+    error: loopError,
+    generate: generateLoops,
+    clear: clearLoops,
+  } = useLoopGenerator();
+
   // Save form state
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
@@ -56,6 +73,12 @@ export function RoutePlannerScreen({ navigation }: Props) {
   const [isPublic, setIsPublic] = useState(false);
   const [showSaveForm, setShowSaveForm] = useState(false);
 
+  // Round-trip loop generator state
+  const [isLoopMode, setIsLoopMode] = useState(false);
+  const [loopStart, setLoopStart] = useState<{ lat: number; lng: number } | null>(null);
+  const [loopDistanceKm, setLoopDistanceKm] = useState<number>(LOOP_DISTANCE_KM.walking.initial);
+  const [selectedLoopId, setSelectedLoopId] = useState<string | null>(null);
+
   // User location for initial map center
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const mapRef = useRef<MapboxRoutePlannerHandle>(null);
@@ -119,6 +142,177 @@ export function RoutePlannerScreen({ navigation }: Props) {
     }
   }, [title, sportTypeId, description, isPublic, saveRoute, navigation, t]);
 
+  const toggleLoopMode = useCallback(() => {
+    if (isLoopMode) {
+      clearLoops();
+      setIsLoopMode(false);
+      return;
+    }
+    // Start where the route starts, or from the user's location
+    setLoopStart(waypoints[0] ?? userLocation);
+    setSelectedLoopId(null);
+    setIsLoopMode(true);
+  }, [isLoopMode, clearLoops, waypoints, userLocation]);
+
+  const handleLoopStartTap = useCallback((lat: number, lng: number) => {
+    setLoopStart({ lat, lng });
+    setSelectedLoopId(null);
+    clearLoops();
+  }, [clearLoops]);
+
+  const handleProfileChange = useCallback((newProfile: 'walking' | 'cycling') => {
+    changeProfile(newProfile);
+    if (isLoopMode && newProfile !== profile) {
+      clearLoops();
+      setSelectedLoopId(null);
+      setLoopDistanceKm(LOOP_DISTANCE_KM[newProfile].initial);
+    }
+  }, [changeProfile, isLoopMode, profile, clearLoops]);
+
+  const stepLoopDistance = useCallback((direction: 1 | -1) => {
+    const { step, min, max } = LOOP_DISTANCE_KM[profile];
+    setLoopDistanceKm((km) => Math.min(max, Math.max(min, km + direction * step)));
+    setSelectedLoopId(null);
+    clearLoops();
+  }, [profile, clearLoops]);
+
+  const handleGenerateLoops = useCallback(async (rotate: boolean) => {
+    if (!loopStart) return;
+    setSelectedLoopId(null);
+    await generateLoops(loopStart, loopDistanceKm * 1000, profile, rotate);
+  }, [loopStart, loopDistanceKm, profile, generateLoops]);
+
+  // Preselect the candidate closest to the target distance
+  useEffect(() => {
+    if (loopCandidates.length > 0) setSelectedLoopId(loopCandidates[0].id);
+  }, [loopCandidates]);
+
+  const selectedLoop: LoopCandidate | null =
+    loopCandidates.find((candidate) => candidate.id === selectedLoopId) ?? null;
+
+  const alternativeLoopGeometries = useMemo(
+    () => loopCandidates
+      .filter((candidate) => candidate.id !== selectedLoopId)
+      .map((candidate) => candidate.preview.geometry),
+    [loopCandidates, selectedLoopId]
+  );
+
+  const handleUseLoop = useCallback(() => {
+    if (!selectedLoop) return;
+    loadWaypoints(selectedLoop.waypoints, selectedLoop.preview);
+    clearLoops();
+    setIsLoopMode(false);
+  }, [selectedLoop, loadWaypoints, clearLoops]);
+
+  const loopMapWaypoints = selectedLoop ? selectedLoop.waypoints : loopStart ? [loopStart] : [];
+
+  const renderLoopPanel = () => (
+    <View>
+      {!loopStart && (
+        <View style={styles.hint}>
+          <Ionicons name="finger-print-outline" size={20} color={colors.textSecondary} />
+          <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+            {t('routes.loop.startHint')}
+          </Text>
+        </View>
+      )}
+
+      {/* Target distance stepper */}
+      <View style={styles.loopDistanceRow}>
+        <Text style={[styles.loopDistanceLabel, { color: colors.textSecondary }]}>
+          {t('routes.loop.targetDistance')}
+        </Text>
+        <View style={styles.loopStepper}>
+          <TouchableOpacity
+            onPress={() => stepLoopDistance(-1)}
+            disabled={loopDistanceKm <= LOOP_DISTANCE_KM[profile].min}
+            style={styles.headerButton}
+          >
+            <Ionicons name="remove-circle-outline" size={26} color={colors.primary} />
+          </TouchableOpacity>
+          <Text style={[styles.loopDistanceValue, { color: colors.textPrimary }]}>
+            {formatDistanceFromKmRounded(loopDistanceKm, 'metric')}
+          </Text>
+          <TouchableOpacity
+            onPress={() => stepLoopDistance(1)}
+            disabled={loopDistanceKm >= LOOP_DISTANCE_KM[profile].max}
+            style={styles.headerButton}
+          >
+            <Ionicons name="add-circle-outline" size={26} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Candidates side by side */}
+      {loopCandidates.length > 0 && (
+        <View style={styles.loopCandidates}>
+          {loopCandidates.map((candidate, idx) => {
+            const isSelected = candidate.id === selectedLoopId;
+            return (
+              <TouchableOpacity
+                key={candidate.id}
+                style={[
+                  styles.loopCard,
+                  { backgroundColor: colors.cardBackground, borderColor: isSelected ? colors.primary : colors.border },
+                ]}
+                onPress={() => setSelectedLoopId(candidate.id)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.loopCardTitle, { color: isSelected ? colors.primary : colors.textSecondary }]}>
+                  {t('routes.loop.candidate', { number: idx + 1 })}
+                </Text>
+                <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+                  {formatDistance(candidate.preview.distance)}
+                </Text>
+                <Text style={[styles.loopCardMeta, { color: colors.textSecondary }]}>
+                  ↑ {candidate.preview.elevation_gain}m
+                </Text>
+                <Text style={[styles.loopCardMeta, { color: colors.textSecondary }]}>
+                  ~{formatTotalTime(candidate.preview.estimated_duration)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {loopError && (
+        <Text style={[styles.errorText, { color: colors.error }]}>{loopError}</Text>
+      )}
+
+      <View style={[styles.bottomAction, styles.loopActions]}>
+        {loopCandidates.length > 0 ? (
+          <>
+            <View style={styles.loopActionButton}>
+              <Button
+                title={t('routes.loop.another')}
+                onPress={() => handleGenerateLoops(true)}
+                variant="outline"
+                loading={isGeneratingLoops}
+              />
+            </View>
+            <View style={styles.loopActionButton}>
+              <Button
+                title={t('routes.loop.useLoop')}
+                onPress={handleUseLoop}
+                disabled={!selectedLoop}
+              />
+            </View>
+          </>
+        ) : (
+          <View style={styles.loopActionButton}>
+            <Button
+              title={t('routes.loop.generate')}
+              onPress={() => handleGenerateLoops(false)}
+              loading={isGeneratingLoops}
+              disabled={!loopStart}
+            />
+          </View>
+        )}
+      </View>
+    </View>
+  );
+
   const hasRoute = waypoints.length >= 2 && preview.geometry;
 
   return (
@@ -129,12 +323,25 @@ export function RoutePlannerScreen({ navigation }: Props) {
         onBack={() => navigation.goBack()}
         rightAction={
           <View style={styles.headerActions}>
-            {waypoints.length > 0 && (
+            {!showSaveForm && (
+              <TouchableOpacity
+                onPress={toggleLoopMode}
+                style={styles.headerButton}
+                accessibilityLabel={t('routes.loop.title')}
+              >
+                <Ionicons
+                  name={isLoopMode ? 'sync-circle' : 'sync-circle-outline'}
+                  size={24}
+                  color={isLoopMode ? colors.primary : colors.textPrimary}
+                />
+              </TouchableOpacity>
+            )}
+            {!isLoopMode && waypoints.length > 0 && (
               <TouchableOpacity onPress={undo} style={styles.headerButton}>
                 <Ionicons name="arrow-undo-outline" size={22} color={colors.textPrimary} />
               </TouchableOpacity>
             )}
-            {waypoints.length > 0 && (
+            {!isLoopMode && waypoints.length > 0 && (
               <TouchableOpacity onPress={clearAll} style={styles.headerButton}>
                 <Ionicons name="trash-outline" size={22} color={colors.error} />
               </TouchableOpacity>
@@ -152,7 +359,7 @@ export function RoutePlannerScreen({ navigation }: Props) {
                 styles.profileOption,
                 profile === 'walking' && { backgroundColor: colors.primary },
               ]}
-              onPress={() => changeProfile('walking')}
+              onPress={() => handleProfileChange('walking')}
             >
               <Ionicons
                 name="walk-outline"
@@ -172,7 +379,7 @@ export function RoutePlannerScreen({ navigation }: Props) {
                 styles.profileOption,
                 profile === 'cycling' && { backgroundColor: colors.primary },
               ]}
-              onPress={() => changeProfile('cycling')}
+              onPress={() => handleProfileChange('cycling')}
             >
               <Ionicons
                 name="bicycle-outline"
@@ -192,10 +399,11 @@ export function RoutePlannerScreen({ navigation }: Props) {
           <View style={{flex: 1}}>
             <MapboxRoutePlanner
               ref={mapRef}
-              waypoints={waypoints}
-              routeGeometry={preview.geometry}
-              isLoadingPreview={isLoadingPreview}
-              onMapTap={handleMapTap}
+              waypoints={isLoopMode ? loopMapWaypoints : waypoints}
+              routeGeometry={isLoopMode ? selectedLoop?.preview.geometry ?? null : preview.geometry}
+              alternativeGeometries={isLoopMode ? alternativeLoopGeometries : undefined}
+              isLoadingPreview={isLoopMode ? isGeneratingLoops : isLoadingPreview}
+              onMapTap={isLoopMode ? handleLoopStartTap : handleMapTap}
               initialCenter={userLocation}
               mapStyleType={mapStyleType}
             />
@@ -226,102 +434,106 @@ export function RoutePlannerScreen({ navigation }: Props) {
             </View>
           </View>
 
-          {/* Bottom panel: hint / waypoints / stats / action — always pinned */}
+          {/* Bottom panel: hint / waypoints / stats / action (or the loop generator) — always pinned */}
           <View style={[styles.bottomPanel, {backgroundColor: colors.background, borderTopColor: colors.border}]}>
-            {waypoints.length === 0 && (
-              <View style={styles.hint}>
-                <Ionicons name="finger-print-outline" size={20} color={colors.textSecondary} />
-                <Text style={[styles.hintText, { color: colors.textSecondary }]}>
-                  {t('routes.tapToAddWaypoint', 'Tap on the map to add waypoints')}
-                </Text>
-              </View>
-            )}
-
-            {waypoints.length > 0 && (
-              <View>
-                {/* Header row with count + scroll hint */}
-                <View style={styles.waypointsHeader}>
-                  <Text style={[styles.waypointsCount, { color: colors.textSecondary }]}>
-                    {waypoints.length} {t('routeDetail.waypoints', 'waypoints').toLowerCase()}
+            {isLoopMode ? renderLoopPanel() : (
+              <>
+              {waypoints.length === 0 && (
+                <View style={styles.hint}>
+                  <Ionicons name="finger-print-outline" size={20} color={colors.textSecondary} />
+                  <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+                    {t('routes.tapToAddWaypoint', 'Tap on the map to add waypoints')}
                   </Text>
-                  {waypoints.length > 2 && (
-                    <View style={styles.scrollHint}>
-                      <Ionicons name="swap-horizontal" size={14} color={colors.textMuted} />
-                      <Text style={[styles.scrollHintText, { color: colors.textMuted }]}>
-                        {t('routes.swipeToSeeAll', 'swipe')}
-                      </Text>
-                    </View>
-                  )}
                 </View>
+              )}
 
-                <ScrollView
-                  horizontal
-                  showsHorizontalScrollIndicator
-                  contentContainerStyle={{paddingHorizontal: spacing.md, gap: spacing.sm, paddingBottom: spacing.sm}}
-                >
-                  {waypoints.map((wp, idx) => (
-                    <View key={idx} style={[styles.waypointChip, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
-                      <View style={[
-                        styles.waypointDot,
-                        {
-                          backgroundColor: idx === 0 ? '#22c55e' :
-                            idx === waypoints.length - 1 ? '#ef4444' : '#3b82f6',
-                        },
-                      ]} />
-                      <Text style={[styles.waypointLabel, { color: colors.textPrimary }]}>
-                        {wp.label || `${t('routeDetail.waypoints', 'Waypoint')} ${idx + 1}`}
-                      </Text>
-                      <TouchableOpacity onPress={() => removeWaypoint(idx)}>
-                        <Ionicons name="close-circle" size={18} color={colors.textSecondary} />
-                      </TouchableOpacity>
-                    </View>
-                  ))}
-                  {/* Trailing chevron hint */}
-                  {waypoints.length > 2 && (
-                    <View style={styles.endHint}>
-                      <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
-                    </View>
-                  )}
-                </ScrollView>
-              </View>
-            )}
+              {waypoints.length > 0 && (
+                <View>
+                  {/* Header row with count + scroll hint */}
+                  <View style={styles.waypointsHeader}>
+                    <Text style={[styles.waypointsCount, { color: colors.textSecondary }]}>
+                      {waypoints.length} {t('routeDetail.waypoints', 'waypoints').toLowerCase()}
+                    </Text>
+                    {waypoints.length > 2 && (
+                      <View style={styles.scrollHint}>
+                        <Ionicons name="swap-horizontal" size={14} color={colors.textMuted} />
+                        <Text style={[styles.scrollHintText, { color: colors.textMuted }]}>
+                          {t('routes.swipeToSeeAll', 'swipe')}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
 
-            {/* Stats — always visible, show "—" before route is built */}
-            <View style={[styles.statsBar, { backgroundColor: colors.cardBackground }]}>
-              <View style={styles.statItem}>
-                <Text style={[styles.statValue, { color: colors.textPrimary }]}>
-                  {hasRoute ? formatDistance(preview.distance) : '—'}
-                </Text>
-                <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
-                  {t('routeDetail.distance')}
-                </Text>
-              </View>
-              <View style={styles.statItem}>
-                <Text style={[styles.statValue, { color: colors.textPrimary }]}>
-                  {hasRoute ? `~${formatTotalTime(preview.estimatedDuration)}` : '—'}
-                </Text>
-                <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
-                  {t('routeDetail.estimatedTime')}
-                </Text>
-              </View>
-              <View style={styles.statItem}>
-                <Text style={[styles.statValue, { color: colors.textPrimary }]}>
-                  {hasRoute ? `${preview.elevationGain}m` : '—'}
-                </Text>
-                <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
-                  {t('routeDetail.elevation')}
-                </Text>
+                  <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator
+                    contentContainerStyle={{paddingHorizontal: spacing.md, gap: spacing.sm, paddingBottom: spacing.sm}}
+                  >
+                    {waypoints.map((wp, idx) => (
+                      <View key={idx} style={[styles.waypointChip, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+                        <View style={[
+                          styles.waypointDot,
+                          {
+                            backgroundColor: idx === 0 ? '#22c55e' :
+                              idx === waypoints.length - 1 ? '#ef4444' : '#3b82f6',
+                          },
+                        ]} />
+                        <Text style={[styles.waypointLabel, { color: colors.textPrimary }]}>
+                          {wp.label || `${t('routeDetail.waypoints', 'Waypoint')} ${idx + 1}`}
+                        </Text>
+                        <TouchableOpacity onPress={() => removeWaypoint(idx)}>
+                          <Ionicons name="close-circle" size={18} color={colors.textSecondary} />
+                        </TouchableOpacity>
+                      </View>
+                    ))}
+                    {/* Trailing chevron hint */}
+                    {waypoints.length > 2 && (
+                      <View style={styles.endHint}>
+                        <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+                      </View>
+                    )}
+                  </ScrollView>
+                </View>
+              )}
+
+              {/* Stats — always visible, show "—" before route is built */}
+              <View style={[styles.statsBar, { backgroundColor: colors.cardBackground }]}>
+                <View style={styles.statItem}>
+                  <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+                    {hasRoute ? formatDistance(preview.distance) : '—'}
+                  </Text>
+                  <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                    {t('routeDetail.distance')}
+                  </Text>
+                </View>
+                <View style={styles.statItem}>
+                  <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+                    {hasRoute ? `~${formatTotalTime(preview.estimatedDuration)}` : '—'}
+                  </Text>
+                  <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                    {t('routeDetail.estimatedTime')}
+                  </Text>
+                </View>
+                <View style={styles.statItem}>
+                  <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+                    {hasRoute ? `${preview.elevationGain}m` : '—'}
+                  </Text>
+                  <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                    {t('routeDetail.elevation')}
+                  </Text>
+                </View>
               </View>
-            </View>
 
-            {/* Save button — always rendered, disabled until route is valid */}
-            <View style={styles.bottomAction}>
-              <Button
-                title={t('common.next', 'Next')}
-                onPress={() => setShowSaveForm(true)}
-                disabled={!hasRoute}
-              />
-            </View>
+              {/* Save button — always rendered, disabled until route is valid */}
+              <View style={styles.bottomAction}>
+                <Button
+                  title={t('common.next', 'Next')}
+                  onPress={() => setShowSaveForm(true)}
+                  disabled={!hasRoute}
+                />
+              </View>
+              </>
+            )}
           </View>
         </View>
       ) : (
@@ -562,6 +774,58 @@ const styles = StyleSheet.create({
     fontSize: fontSize.sm,
     textAlign: 'center',
   },
+  loopDistanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+  },
+  loopDistanceLabel: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+  loopStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  loopDistanceValue: {
+    fontSize: fontSize.md,
+    fontWeight: '700',
+    minWidth: 64,
+    textAlign: 'center',
+  },
+  loopCandidates: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+  },
+  loopCard: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.lg,
+    borderWidth: 2,
+  },
+  loopCardTitle: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  loopCardMeta: {
+    fontSize: fontSize.xs,
+    marginTop: 2,
+  },
+  loopActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  loopActionButton: {
+    flex: 1,
+  },
   saveActions: {
     flexDirection: 'row',
     gap: spacing.sm,
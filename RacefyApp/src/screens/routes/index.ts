@@ -1,3 +1,5 @@
 export { RouteLibraryScreen } from './RouteLibraryScreen';
 export { RouteDetailScreen } from './RouteDetailScreen';
 export { RoutePlannerScreen } from './RoutePlannerScreen';
+export { OfflineRoutesScreen } from './OfflineRoutesScreen';
+export { RouteFromTrackScreen } from './RouteFromTrackScreen';
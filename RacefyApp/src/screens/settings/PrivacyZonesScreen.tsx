@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -19,12 +19,32 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Location from 'expo-location';
 import { useTheme } from '../../hooks/useTheme';
 import { useSubscription } from '../../hooks/useSubscription';
+import { useAuth } from '../../hooks/useAuth';
 import { ScreenHeader, EmptyState, ScreenContainer } from '../../components';
+import {
+  MapboxPrivacyZoneEditor,
+  type MapboxPrivacyZoneEditorHandle,
+} from '../../components/MapboxPrivacyZoneEditor';
 import { api } from '../../services/api';
 import { logger } from '../../services/logger';
+import { cachePrivacyMask } from '../../services/privacyZones';
 import { upgradePromptEmitter } from '../../services/upgradePromptEmitter';
+import { trackPointsToGpsPoints } from '../../utils/activityExport';
+import {
+  DEFAULT_PRIVACY_ZONE_RADIUS_M,
+  NO_PRIVACY_TRIM,
+  circleToPolygon,
+  polygonCenter,
+} from '../../utils/privacyMask';
 import { spacing, fontSize, borderRadius } from '../../theme';
-import type { PrivacyZone, PrivacyZoneSuggestion, CreatePrivacyZoneRequest } from '../../types/api';
+import type {
+  PrivacyZone,
+  PrivacyZoneShape,
+  PrivacyZoneSuggestion,
+  PrivacyTrimSettings,
+  CreatePrivacyZoneRequest,
+  GpsPoint,
+} from '../../types/api';
 
 const ZONE_TYPE_ICONS: Record<string, string> = {
   home: 'home',
@@ -34,26 +54,45 @@ const ZONE_TYPE_ICONS: Record<string, string> = {
 
 const ZONE_TYPES: Array<CreatePrivacyZoneRequest['type']> = ['home', 'work', 'other'];
 
+const ZONE_SHAPES: PrivacyZoneShape[] = ['circle', 'polygon'];
+
+const ZONE_SHAPE_ICONS: Record<PrivacyZoneShape, string> = {
+  circle: 'ellipse-outline',
+  polygon: 'shapes-outline',
+};
+
+const TRIM_OPTIONS = [0, 100, 200, 500, 1000];
+
 export function PrivacyZonesScreen() {
   const { t } = useTranslation();
   const { colors } = useTheme();
   const navigation = useNavigation();
   const { features, canUse } = useSubscription();
+  const { user } = useAuth();
 
   const [zones, setZones] = useState<PrivacyZone[]>([]);
   const [suggestions, setSuggestions] = useState<PrivacyZoneSuggestion[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [hasLoadedZones, setHasLoadedZones] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [togglingId, setTogglingId] = useState<number | null>(null);
   const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [trim, setTrim] = useState<PrivacyTrimSettings | null>(null);
+  // Latest activity with GPS, to preview what the mask hides
+  const [previewTrack, setPreviewTrack] = useState<GpsPoint[] | null>(null);
 
   // Add/Edit modal state
   const [showAddModal, setShowAddModal] = useState(false);
   const [addLoading, setAddLoading] = useState(false);
+  const [editingZone, setEditingZone] = useState<PrivacyZone | null>(null);
+  const [sourceSuggestion, setSourceSuggestion] = useState<PrivacyZoneSuggestion | null>(null);
   const [newZoneName, setNewZoneName] = useState('');
   const [newZoneType, setNewZoneType] = useState<CreatePrivacyZoneRequest['type']>('home');
+  const [newZoneShape, setNewZoneShape] = useState<PrivacyZoneShape>('circle');
   const [newZoneLocation, setNewZoneLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [newZoneVertices, setNewZoneVertices] = useState<[number, number][]>([]);
   const [locationLoading, setLocationLoading] = useState(false);
+  const editorRef = useRef<MapboxPrivacyZoneEditorHandle>(null);
 
   const zonesLimit = typeof features.privacy_zones === 'number' ? features.privacy_zones : 1;
   const canAddMore = zones.length < zonesLimit;
@@ -61,11 +100,14 @@ export function PrivacyZonesScreen() {
   const loadData = useCallback(async (isRefresh = false) => {
     if (!isRefresh) setIsLoading(true);
     try {
-      const [zonesData, suggestionsData] = await Promise.all([
+      const [zonesData, suggestionsData, trimData] = await Promise.all([
         api.getPrivacyZones(),
         api.getPrivacyZoneSuggestions().catch(() => [] as PrivacyZoneSuggestion[]),
+        api.getPrivacyTrimSettings().catch(() => null),
       ]);
       setZones(zonesData);
+      setHasLoadedZones(true);
+      if (trimData) setTrim(trimData);
       // Filter suggestions that are not already zones
       const existingCoords = new Set(zonesData.map(z => `${z.latitude.toFixed(4)},${z.longitude.toFixed(4)}`));
       setSuggestions(suggestionsData.filter(s =>
@@ -79,7 +121,61 @@ export function PrivacyZonesScreen() {
     }
   }, []);
 
+  const loadPreviewTrack = useCallback(async () => {
+    if (!user) return;
+    try {
+      const response = await api.getActivities({ user_id: user.id });
+      const latest = response.data.find(a => a.has_gps_track);
+      if (!latest) return;
+      const track = await api.getActivityTrackPoints(latest.id);
+      setPreviewTrack(trackPointsToGpsPoints(track.data || []));
+    } catch (err) {
+      logger.warn('general', 'Failed to load privacy preview track', { error: err });
+    }
+  }, [user]);
+
   useEffect(() => { loadData(); }, [loadData]);
+  useEffect(() => { loadPreviewTrack(); }, [loadPreviewTrack]);
+
+  // Keep the on-device copy used for masking exports and the live map in sync
+  useEffect(() => {
+    if (hasLoadedZones) cachePrivacyMask({ zones, trim: trim ?? NO_PRIVACY_TRIM });
+  }, [zones, trim, hasLoadedZones]);
+
+  // The zone in the modal, in the shape the map and the mask expect
+  const draftZone = useMemo<PrivacyZone | null>(() => {
+    const base = {
+      id: editingZone?.id ?? -1,
+      name: newZoneName,
+      type: newZoneType,
+      is_active: true,
+      created_at: '',
+      updated_at: '',
+    };
+    if (newZoneShape === 'polygon') {
+      if (newZoneVertices.length === 0) return null;
+      const center = polygonCenter(newZoneVertices);
+      return {
+        ...base,
+        shape: 'polygon',
+        latitude: center.lat,
+        longitude: center.lng,
+        radius_meters: 0,
+        polygon: newZoneVertices,
+      };
+    }
+    if (!newZoneLocation) return null;
+    return {
+      ...base,
+      shape: 'circle',
+      latitude: newZoneLocation.lat,
+      longitude: newZoneLocation.lng,
+      radius_meters: editingZone?.shape !== 'polygon' && editingZone?.radius_meters
+        ? editingZone.radius_meters
+        : DEFAULT_PRIVACY_ZONE_RADIUS_M,
+      polygon: null,
+    };
+  }, [editingZone, newZoneName, newZoneType, newZoneShape, newZoneLocation, newZoneVertices]);
 
   const handleRefresh = () => {
     setIsRefreshing(true);
@@ -130,12 +226,78 @@ export function PrivacyZonesScreen() {
       upgradePromptEmitter.emit('show', { feature: 'privacy_zones' });
       return;
     }
+    setEditingZone(null);
+    setSourceSuggestion(null);
     setNewZoneName('');
     setNewZoneType('home');
+    setNewZoneShape('circle');
     setNewZoneLocation(null);
+    setNewZoneVertices([]);
+    setShowAddModal(true);
+  };
+
+  const handleEditPress = (zone: PrivacyZone) => {
+    setEditingZone(zone);
+    setSourceSuggestion(null);
+    setNewZoneName(zone.name);
+    setNewZoneType(zone.type);
+    setNewZoneShape(zone.shape ?? 'circle');
+    setNewZoneLocation({ lat: zone.latitude, lng: zone.longitude });
+    setNewZoneVertices(zone.shape === 'polygon' && zone.polygon ? zone.polygon : []);
+    setShowAddModal(true);
+  };
+
+  // Start from an octagon around the suggested spot; the user reshapes it on the map
+  const handleSuggestionAsPolygon = (suggestion: PrivacyZoneSuggestion) => {
+    if (!canAddMore) {
+      upgradePromptEmitter.emit('show', { feature: 'privacy_zones' });
+      return;
+    }
+    setEditingZone(null);
+    setSourceSuggestion(suggestion);
+    setNewZoneName(suggestion.name);
+    setNewZoneType(suggestion.type);
+    setNewZoneShape('polygon');
+    setNewZoneLocation({ lat: suggestion.latitude, lng: suggestion.longitude });
+    setNewZoneVertices(circleToPolygon(suggestion.latitude, suggestion.longitude));
     setShowAddModal(true);
   };
 
+  const handleShapeChange = (shape: PrivacyZoneShape) => {
+    setNewZoneShape(shape);
+    // Carry the spot over so switching shape doesn't lose the user's work
+    if (shape === 'polygon' && newZoneVertices.length === 0 && newZoneLocation) {
+      setNewZoneVertices(circleToPolygon(newZoneLocation.lat, newZoneLocation.lng));
+    } else if (shape === 'circle' && newZoneVertices.length >= 3) {
+      setNewZoneLocation(polygonCenter(newZoneVertices));
+    }
+  };
+
+  const handleMapTap = (lat: number, lng: number) => {
+    if (newZoneShape === 'polygon') {
+      setNewZoneVertices(prev => [...prev, [lng, lat]]);
+    } else {
+      setNewZoneLocation({ lat, lng });
+    }
+  };
+
+  const handleVertexDrag = (index: number, lat: number, lng: number) => {
+    setNewZoneVertices(prev => prev.map((vertex, i) => (i === index ? [lng, lat] : vertex)));
+  };
+
+  const handleTrimChange = async (key: keyof PrivacyTrimSettings, meters: number) => {
+    const previous = trim ?? NO_PRIVACY_TRIM;
+    const next = { ...previous, [key]: meters };
+    setTrim(next);
+    try {
+      setTrim(await api.updatePrivacyTrimSettings(next));
+    } catch (err) {
+      logger.error('general', 'Failed to update privacy trim', { error: err });
+      setTrim(previous);
+      Alert.alert(t('common.error'), t('common.genericError'));
+    }
+  };
+
   const handleUseCurrentLocation = async () => {
     setLocationLoading(true);
     try {
@@ -145,7 +307,13 @@ export function PrivacyZonesScreen() {
         return;
       }
       const location = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
-      setNewZoneLocation({ lat: location.coords.latitude, lng: location.coords.longitude });
+      const { latitude, longitude } = location.coords;
+      if (newZoneShape === 'circle') {
+        setNewZoneLocation({ lat: latitude, lng: longitude });
+      } else if (newZoneVertices.length === 0) {
+        setNewZoneVertices(circleToPolygon(latitude, longitude));
+      }
+      editorRef.current?.flyTo(latitude, longitude);
     } catch (err) {
       logger.error('general', 'Failed to get current location', { error: err });
       Alert.alert(t('common.error'), t('common.genericError'));
@@ -159,20 +327,39 @@ export function PrivacyZonesScreen() {
       Alert.alert(t('common.error'), t('settings.privacyZones.zoneName'));
       return;
     }
-    if (!newZoneLocation) {
+    if (newZoneShape === 'polygon' && newZoneVertices.length < 3) {
+      Alert.alert(t('common.error'), t('settings.privacyZones.polygonTooSmall'));
+      return;
+    }
+    if (!draftZone) {
       Alert.alert(t('common.error'), t('settings.privacyZones.tapMapToSelect'));
       return;
     }
 
+    const request: CreatePrivacyZoneRequest = {
+      name: newZoneName.trim(),
+      type: newZoneType,
+      shape: newZoneShape,
+      latitude: draftZone.latitude,
+      longitude: draftZone.longitude,
+      ...(newZoneShape === 'polygon' ? { polygon: newZoneVertices } : {}),
+    };
+
     setAddLoading(true);
     try {
-      const created = await api.createPrivacyZone({
-        name: newZoneName.trim(),
-        type: newZoneType,
-        latitude: newZoneLocation.lat,
-        longitude: newZoneLocation.lng,
-      });
-      setZones(prev => [...prev, created]);
+      if (editingZone) {
+        const updated = await api.updatePrivacyZone(editingZone.id, {
+          ...request,
+          polygon: newZoneShape === 'polygon' ? newZoneVertices : null,
+        });
+        setZones(prev => prev.map(z => z.id === editingZone.id ? updated : z));
+      } else {
+        const created = await api.createPrivacyZone(request);
+        setZones(prev => [...prev, created]);
+        if (sourceSuggestion) {
+          setSuggestions(prev => prev.filter(s => s !== sourceSuggestion));
+        }
+      }
       setShowAddModal(false);
       Alert.alert(t('common.success'), t('settings.privacyZones.saved'));
     } catch (err: any) {
@@ -180,7 +367,7 @@ export function PrivacyZonesScreen() {
         upgradePromptEmitter.emit('show', { feature: 'privacy_zones' });
         setShowAddModal(false);
       } else {
-        logger.error('general', 'Failed to create privacy zone', { error: err });
+        logger.error('general', 'Failed to save privacy zone', { error: err });
         Alert.alert(t('common.error'), t('common.genericError'));
       }
     } finally {
@@ -229,6 +416,7 @@ export function PrivacyZonesScreen() {
           <Text style={[styles.zoneName, { color: colors.textPrimary }]}>{zone.name}</Text>
           <Text style={[styles.zoneType, { color: colors.textMuted }]}>
             {t(`settings.privacyZones.type${zone.type.charAt(0).toUpperCase() + zone.type.slice(1)}`)}
+            {zone.shape === 'polygon' && ` \u2022 ${t('settings.privacyZones.shapePolygon')}`}
             {' \u2022 '}
             {zone.is_active ? t('settings.privacyZones.active') : t('settings.privacyZones.inactive')}
           </Text>
@@ -246,22 +434,33 @@ export function PrivacyZonesScreen() {
           )}
         </View>
       </View>
-      <TouchableOpacity
-        style={[styles.deleteButton, { borderTopColor: colors.border }]}
-        onPress={() => handleDelete(zone)}
-        disabled={deletingId === zone.id}
-      >
-        {deletingId === zone.id ? (
-          <ActivityIndicator size="small" color={colors.error} />
-        ) : (
-          <>
-            <Ionicons name="trash-outline" size={16} color={colors.error} />
-            <Text style={[styles.deleteText, { color: colors.error }]}>
-              {t('settings.privacyZones.deleteZone')}
-            </Text>
-          </>
-        )}
-      </TouchableOpacity>
+      <View style={[styles.cardActions, { borderTopColor: colors.border }]}>
+        <TouchableOpacity
+          style={[styles.deleteButton, styles.cardActionDivider, { borderRightColor: colors.border }]}
+          onPress={() => handleEditPress(zone)}
+        >
+          <Ionicons name="create-outline" size={16} color={colors.primary} />
+          <Text style={[styles.deleteText, { color: colors.primary }]}>
+            {t('settings.privacyZones.editZone')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.deleteButton}
+          onPress={() => handleDelete(zone)}
+          disabled={deletingId === zone.id}
+        >
+          {deletingId === zone.id ? (
+            <ActivityIndicator size="small" color={colors.error} />
+          ) : (
+            <>
+              <Ionicons name="trash-outline" size={16} color={colors.error} />
+              <Text style={[styles.deleteText, { color: colors.error }]}>
+                {t('settings.privacyZones.deleteZone')}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
     </View>
   );
 
@@ -286,6 +485,15 @@ export function PrivacyZonesScreen() {
             {t('settings.privacyZones.confidence', { value: suggestion.confidence })}
           </Text>
         </View>
+        <TouchableOpacity
+          style={[styles.addSuggestionButton, { borderWidth: 1, borderColor: colors.primary }]}
+          onPress={() => handleSuggestionAsPolygon(suggestion)}
+        >
+          <Ionicons name="shapes-outline" size={16} color={colors.primary} />
+          <Text style={[styles.addSuggestionText, { color: colors.primary }]}>
+            {t('settings.privacyZones.addAsPolygon')}
+          </Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.addSuggestionButton, { backgroundColor: colors.primary }]}
           onPress={() => handleAcceptSuggestion(suggestion)}
@@ -297,7 +505,43 @@ export function PrivacyZonesScreen() {
     </View>
   );
 
-  const ListHeader = () => (
+  const renderTrimOptions = (key: keyof PrivacyTrimSettings, label: string) => (
+    <View style={styles.trimRow}>
+      <Text style={[styles.trimLabel, { color: colors.textSecondary }]}>{label}</Text>
+      <View style={styles.trimChips}>
+        {TRIM_OPTIONS.map((meters) => {
+          const selected = (trim?.[key] ?? 0) === meters;
+          return (
+            <TouchableOpacity
+              key={meters}
+              style={[
+                styles.trimChip,
+                { borderColor: colors.border, backgroundColor: colors.cardBackground },
+                selected && { borderColor: colors.primary, backgroundColor: colors.primary },
+              ]}
+              onPress={() => handleTrimChange(key, meters)}
+              disabled={!trim || selected}
+            >
+              <Text style={[styles.trimChipText, { color: colors.textSecondary }, selected && { color: colors.white }]}>
+                {meters === 0 ? t('settings.privacyZones.trimOff') : t('settings.privacyZones.trimMeters', { meters })}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderPreviewLegend = () => (
+    <View style={styles.legendRow}>
+      <View style={[styles.legendLine, { backgroundColor: colors.success }]} />
+      <Text style={[styles.legendText, { color: colors.textMuted }]}>{t('settings.privacyZones.previewVisible')}</Text>
+      <View style={[styles.legendLine, styles.legendLineHidden, { borderColor: colors.textMuted }]} />
+      <Text style={[styles.legendText, { color: colors.textMuted }]}>{t('settings.privacyZones.previewHidden')}</Text>
+    </View>
+  );
+
+  const renderListHeader = () => (
     <>
       {/* Description */}
       <Text style={[styles.description, { color: colors.textSecondary }]}>
@@ -312,6 +556,31 @@ export function PrivacyZonesScreen() {
         </Text>
       </View>
 
+      {/* Start / end trim */}
+      {trim && (
+        <View style={[styles.trimCard, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+            {t('settings.privacyZones.trimTitle')}
+          </Text>
+          <Text style={[styles.sectionHint, { color: colors.textMuted }]}>
+            {t('settings.privacyZones.trimHint')}
+          </Text>
+          {renderTrimOptions('hide_start_meters', t('settings.privacyZones.trimStart'))}
+          {renderTrimOptions('hide_end_meters', t('settings.privacyZones.trimEnd'))}
+          {previewTrack && previewTrack.length > 1 && (
+            <>
+              <Text style={[styles.sectionHint, { color: colors.textMuted, marginTop: spacing.md }]}>
+                {t('settings.privacyZones.previewHint')}
+              </Text>
+              <View style={styles.previewMap}>
+                <MapboxPrivacyZoneEditor zones={zones} previewTrack={previewTrack} trim={trim} height={200} />
+              </View>
+              {renderPreviewLegend()}
+            </>
+          )}
+        </View>
+      )}
+
       {/* Suggestions */}
       {suggestions.length > 0 && (
         <View style={styles.suggestionsSection}>
@@ -358,7 +627,7 @@ export function PrivacyZonesScreen() {
         renderItem={renderZoneItem}
         keyExtractor={(item) => `zone-${item.id}`}
         contentContainerStyle={styles.listContent}
-        ListHeaderComponent={<ListHeader />}
+        ListHeaderComponent={renderListHeader()}
         ListEmptyComponent={
           !suggestions.length ? (
             <EmptyState
@@ -400,7 +669,7 @@ export function PrivacyZonesScreen() {
               <Ionicons name="close" size={24} color={colors.textPrimary} />
             </TouchableOpacity>
             <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>
-              {t('settings.privacyZones.addZone')}
+              {editingZone ? t('settings.privacyZones.editZone') : t('settings.privacyZones.addZone')}
             </Text>
             <TouchableOpacity onPress={handleSaveZone} disabled={addLoading}>
               {addLoading ? (
@@ -411,7 +680,21 @@ export function PrivacyZonesScreen() {
             </TouchableOpacity>
           </View>
 
+          <MapboxPrivacyZoneEditor
+            ref={editorRef}
+            zones={zones}
+            draftZone={draftZone}
+            onMapTap={handleMapTap}
+            onVertexDrag={handleVertexDrag}
+            previewTrack={previewTrack}
+            trim={trim ?? NO_PRIVACY_TRIM}
+            height={300}
+            initialCenter={newZoneLocation}
+          />
+
           <ScrollView style={styles.modalContent} contentContainerStyle={styles.modalContentInner}>
+            {previewTrack && previewTrack.length > 1 && renderPreviewLegend()}
+
             {/* Zone Name */}
             <Text style={[styles.fieldLabel, { color: colors.textPrimary }]}>
               {t('settings.privacyZones.zoneName')}
@@ -455,6 +738,37 @@ export function PrivacyZonesScreen() {
               ))}
             </View>
 
+            {/* Shape */}
+            <Text style={[styles.fieldLabel, { color: colors.textPrimary }]}>
+              {t('settings.privacyZones.shape')}
+            </Text>
+            <View style={styles.typeRow}>
+              {ZONE_SHAPES.map((shape) => (
+                <TouchableOpacity
+                  key={shape}
+                  style={[
+                    styles.typeChip,
+                    { borderColor: colors.border, backgroundColor: colors.cardBackground },
+                    newZoneShape === shape && { borderColor: colors.primary, backgroundColor: colors.primary },
+                  ]}
+                  onPress={() => handleShapeChange(shape)}
+                >
+                  <Ionicons
+                    name={ZONE_SHAPE_ICONS[shape] as any}
+                    size={16}
+                    color={newZoneShape === shape ? colors.white : colors.textSecondary}
+                  />
+                  <Text style={[
+                    styles.typeChipText,
+                    { color: colors.textSecondary },
+                    newZoneShape === shape && { color: colors.white },
+                  ]}>
+                    {t(`settings.privacyZones.shape${shape.charAt(0).toUpperCase() + shape.slice(1)}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
             {/* Location */}
             <Text style={[styles.fieldLabel, { color: colors.textPrimary }]}>
               {t('settings.privacyZones.location')}
@@ -475,7 +789,7 @@ export function PrivacyZonesScreen() {
               </Text>
             </TouchableOpacity>
 
-            {newZoneLocation && (
+            {newZoneShape === 'circle' && newZoneLocation && (
               <View style={[styles.locationPreview, { backgroundColor: colors.cardBackground, borderColor: colors.primary + '30' }]}>
                 <Ionicons name="checkmark-circle" size={18} color={colors.success} />
                 <Text style={[styles.locationPreviewText, { color: colors.textSecondary }]}>
@@ -484,9 +798,35 @@ export function PrivacyZonesScreen() {
               </View>
             )}
 
+            {newZoneShape === 'polygon' && (
+              <View style={[styles.locationPreview, { backgroundColor: colors.cardBackground, borderColor: colors.primary + '30' }]}>
+                <Ionicons
+                  name={newZoneVertices.length >= 3 ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={18}
+                  color={newZoneVertices.length >= 3 ? colors.success : colors.textMuted}
+                />
+                <Text style={[styles.locationPreviewText, styles.vertexCount, { color: colors.textSecondary }]}>
+                  {t('settings.privacyZones.corners', { count: newZoneVertices.length })}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => setNewZoneVertices(prev => prev.slice(0, -1))}
+                  disabled={newZoneVertices.length === 0}
+                >
+                  <Text style={[styles.vertexAction, { color: newZoneVertices.length ? colors.primary : colors.textMuted }]}>
+                    {t('settings.privacyZones.undoCorner')}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setNewZoneVertices([])} disabled={newZoneVertices.length === 0}>
+                  <Text style={[styles.vertexAction, { color: newZoneVertices.length ? colors.error : colors.textMuted }]}>
+                    {t('settings.privacyZones.clearCorners')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
             <Text style={[styles.radiusHint, { color: colors.textMuted }]}>
               <Ionicons name="information-circle-outline" size={14} color={colors.textMuted} />
-              {' '}{t('settings.privacyZones.radius')}
+              {' '}{newZoneShape === 'polygon' ? t('settings.privacyZones.polygonHint') : t('settings.privacyZones.radius')}
             </Text>
           </ScrollView>
         </ScreenContainer>
@@ -533,6 +873,59 @@ const styles = StyleSheet.create({
     fontSize: fontSize.xs,
     marginBottom: spacing.sm,
   },
+  trimCard: {
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  trimRow: {
+    marginTop: spacing.sm,
+  },
+  trimLabel: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  trimChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  trimChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+  },
+  trimChipText: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+  },
+  previewMap: {
+    borderRadius: borderRadius.md,
+    overflow: 'hidden',
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  legendLine: {
+    width: 18,
+    height: 3,
+    borderRadius: 2,
+  },
+  legendLineHidden: {
+    height: 0,
+    borderTopWidth: 3,
+    borderStyle: 'dashed',
+    marginLeft: spacing.sm,
+  },
+  legendText: {
+    fontSize: fontSize.xs,
+  },
   suggestionsSection: {
     marginBottom: spacing.md,
   },
@@ -593,13 +986,20 @@ const styles = StyleSheet.create({
   zoneActions: {
     alignItems: 'flex-end',
   },
+  cardActions: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+  },
+  cardActionDivider: {
+    borderRightWidth: 1,
+  },
   deleteButton: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
     gap: spacing.xs,
     paddingVertical: spacing.sm,
-    borderTopWidth: 1,
   },
   deleteText: {
     fontSize: fontSize.sm,
@@ -701,6 +1101,13 @@ const styles = StyleSheet.create({
     fontSize: fontSize.sm,
     fontVariant: ['tabular-nums'],
   },
+  vertexCount: {
+    flex: 1,
+  },
+  vertexAction: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
   radiusHint: {
     fontSize: fontSize.xs,
     marginTop: spacing.md,
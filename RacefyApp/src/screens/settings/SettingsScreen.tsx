@@ -25,6 +25,7 @@ import {
   BrandLogo,
   Button,
   DebugLogsSection,
+  GpsReplayDevPanel,
   Input,
   PremiumTeaser,
   PrivacyConsentsSection,
@@ -853,6 +854,18 @@ export function SettingsScreen({ navigation }: Props) {
             value={trainingRemindersSummary}
             onPress={() => navigation.navigate('TrainingReminders')}
           />
+          {/* Bulk activity export */}
+          <SettingsRow
+            icon="download-outline"
+            label={t('activityExport.bulkTitle')}
+            onPress={() => navigation.navigate('ActivityExport')}
+          />
+          {/* Downloaded routes */}
+          <SettingsRow
+            icon="cloud-download-outline"
+            label={t('offlineRoutes.title')}
+            onPress={() => navigation.navigate('OfflineRoutes')}
+          />
           {/* Audio Coach */}
           <AudioCoachSettings embedded />
           {/* AI Posts */}
@@ -1202,6 +1215,8 @@ export function SettingsScreen({ navigation }: Props) {
                 3. Wklej token i wyślij{'\n'}
                 4. Tapnij powiadomienie
               </Text>
+              <View style={{ height: spacing.lg }} />
+              <GpsReplayDevPanel />
             </View>
           </SettingsSection>
         )}
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput,
   RefreshControl, ActivityIndicator,
@@ -9,7 +9,6 @@ import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../navigation/types';
 import { useTeams, useMyTeams, useAuth, useTheme, useSubscription } from '../../hooks';
 import { ScreenContainer, ScreenHeader, TeamCard } from '../../components';
-import { useRefreshOn } from '../../services/refreshEvents';
 import { spacing, fontSize } from '../../theme';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'TeamsList'>;
@@ -22,25 +21,11 @@ export function TeamsListScreen({ navigation }: Props) {
 
   const [activeTab, setActiveTab] = useState<'my' | 'all'>(isAuthenticated ? 'my' : 'all');
 
+  // Both lists come from the query cache: they load on mount and refetch
+  // whenever a 'teams' refresh (create, delete, leave, etc.) invalidates them
   const myTeamsHook = useMyTeams();
   const allTeamsHook = useTeams();
 
-  useEffect(() => {
-    if (activeTab === 'my' && isAuthenticated) {
-      myTeamsHook.fetchMyTeams();
-    } else if (activeTab === 'all') {
-      allTeamsHook.fetchTeams(true);
-    }
-  }, [activeTab]);
-
-  // Auto-refresh when teams data changes (create, delete, leave, etc.)
-  const refreshAll = useCallback(() => {
-    if (isAuthenticated) myTeamsHook.fetchMyTeams();
-    allTeamsHook.fetchTeams(true);
-  }, [isAuthenticated, myTeamsHook.fetchMyTeams, allTeamsHook.fetchTeams]);
-
-  useRefreshOn('teams', refreshAll);
-
   const handleTeamPress = useCallback((slug: string) => {
     navigation.navigate('TeamDetail', { slug });
   }, [navigation]);
@@ -54,17 +39,10 @@ export function TeamsListScreen({ navigation }: Props) {
   }, [navigation, hasRemaining]);
 
   const handleSearch = useCallback((text: string) => {
+    // Debounced inside useTeams
     allTeamsHook.setSearch(text);
-    // Debounced fetch handled by effect or button
   }, [allTeamsHook]);
 
-  useEffect(() => {
-    if (activeTab === 'all') {
-      const timeout = setTimeout(() => allTeamsHook.fetchTeams(true), 500);
-      return () => clearTimeout(timeout);
-    }
-  }, [allTeamsHook.search]);
-
   const renderTab = (tab: 'my' | 'all', label: string) => (
     <TouchableOpacity
       style={[styles.tab, activeTab === tab && { borderBottomColor: colors.primary, borderBottomWidth: 2 }]}
@@ -0,0 +1,491 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Button, Input, ScreenContainer, ScreenHeader } from '../../components';
+import { useTheme } from '../../hooks/useTheme';
+import { useUnits } from '../../hooks/useUnits';
+import { logger } from '../../services/logger';
+import { deleteWorkout, getWorkout, saveWorkout } from '../../services/workouts';
+import { spacing, fontSize, borderRadius } from '../../theme';
+import { getDistanceValueFromKm, type UnitSystem } from '../../utils/unitConversions';
+import {
+  createWorkoutBlock,
+  createWorkoutId,
+  createWorkoutStep,
+  formatClockInput,
+  parseClockInput,
+} from '../../utils/workouts';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../navigation/types';
+import type { WorkoutBlock, WorkoutStep, WorkoutStepType } from '../../types/workout';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'WorkoutEditor'>;
+
+const STEP_TYPES: WorkoutStepType[] = ['warmup', 'work', 'recovery', 'cooldown'];
+const DURATION_TYPES: Array<StepDraft['durationType']> = ['time', 'distance'];
+const MAX_REPEAT = 50;
+
+/** Form state — durations and paces stay as typed until save */
+interface StepDraft {
+  id: string;
+  type: WorkoutStepType;
+  durationType: 'time' | 'distance';
+  /** m:ss for time steps, km / mi for distance steps */
+  value: string;
+  paceFast: string;
+  paceSlow: string;
+}
+
+interface BlockDraft {
+  id: string;
+  repeat: number;
+  steps: StepDraft[];
+}
+
+function toStepDraft(step: WorkoutStep, units: UnitSystem): StepDraft {
+  const perKm = getDistanceValueFromKm(1, units);
+  return {
+    id: step.id,
+    type: step.type,
+    durationType: step.duration.type,
+    value: step.duration.type === 'time'
+      ? formatClockInput(step.duration.seconds)
+      : String(Math.round((step.duration.meters / 1000) * perKm * 100) / 100),
+    paceFast: step.target ? formatClockInput(step.target.minSecPerKm / perKm) : '',
+    paceSlow: step.target ? formatClockInput(step.target.maxSecPerKm / perKm) : '',
+  };
+}
+
+function toBlockDraft(block: WorkoutBlock, units: UnitSystem): BlockDraft {
+  return { id: block.id, repeat: block.repeat, steps: block.steps.map((s) => toStepDraft(s, units)) };
+}
+
+/** Parse a draft step; returns an i18n error key when invalid */
+function fromStepDraft(draft: StepDraft, units: UnitSystem): WorkoutStep | string {
+  const perKm = getDistanceValueFromKm(1, units);
+
+  let duration: WorkoutStep['duration'];
+  if (draft.durationType === 'time') {
+    const seconds = parseClockInput(draft.value);
+    if (!seconds) return 'workouts.errors.invalidDuration';
+    duration = { type: 'time', seconds };
+  } else {
+    const value = parseFloat(draft.value.replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) return 'workouts.errors.invalidDuration';
+    duration = { type: 'distance', meters: Math.round((value / perKm) * 1000) };
+  }
+
+  let target: WorkoutStep['target'] = null;
+  if (draft.paceFast.trim() || draft.paceSlow.trim()) {
+    const fast = parseClockInput(draft.paceFast);
+    const slow = parseClockInput(draft.paceSlow);
+    if (!fast || !slow || fast > slow) return 'workouts.errors.invalidPace';
+    target = { minSecPerKm: Math.round(fast * perKm), maxSecPerKm: Math.round(slow * perKm) };
+  }
+
+  return { id: draft.id, type: draft.type, duration, target };
+}
+
+function newStepDraft(type: WorkoutStepType, units: UnitSystem): StepDraft {
+  return toStepDraft(createWorkoutStep(type), units);
+}
+
+export function WorkoutEditorScreen({ navigation, route }: Props) {
+  const editingId = route.params?.workoutId;
+  const isEdit = !!editingId;
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { units, getDistanceUnit, getPaceUnit } = useUnits();
+
+  const [loading, setLoading] = useState(isEdit);
+  const [submitting, setSubmitting] = useState(false);
+  const [createdAt, setCreatedAt] = useState<string | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [blocks, setBlocks] = useState<BlockDraft[]>(() => [
+    { id: createWorkoutId(), repeat: 1, steps: [newStepDraft('warmup', units)] },
+  ]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load existing workout for edit mode
+  useEffect(() => {
+    if (!editingId) return;
+    let mounted = true;
+    getWorkout(editingId)
+      .then((workout) => {
+        if (!mounted) return;
+        if (!workout) {
+          navigation.goBack();
+          return;
+        }
+        setName(workout.name);
+        setCreatedAt(workout.createdAt);
+        setBlocks(workout.blocks.map((b) => toBlockDraft(b, units)));
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [editingId, navigation, units]);
+
+  const updateBlock = (blockId: string, patch: (block: BlockDraft) => BlockDraft) => {
+    setBlocks((prev) => prev.map((b) => (b.id === blockId ? patch(b) : b)));
+  };
+
+  const updateStep = (blockId: string, stepId: string, patch: Partial<StepDraft>) => {
+    updateBlock(blockId, (b) => ({
+      ...b,
+      steps: b.steps.map((s) => (s.id === stepId ? { ...s, ...patch } : s)),
+    }));
+  };
+
+  const removeStep = (blockId: string, stepId: string) => {
+    setBlocks((prev) =>
+      prev
+        .map((b) => (b.id === blockId ? { ...b, steps: b.steps.filter((s) => s.id !== stepId) } : b))
+        .filter((b) => b.steps.length > 0)
+    );
+  };
+
+  const handleAddStep = () => {
+    setBlocks((prev) => [...prev, { id: createWorkoutId(), repeat: 1, steps: [newStepDraft('work', units)] }]);
+  };
+
+  const handleAddRepeat = () => {
+    const block = createWorkoutBlock([createWorkoutStep('work'), createWorkoutStep('recovery')], 4);
+    setBlocks((prev) => [...prev, toBlockDraft(block, units)]);
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+    if (!name.trim()) {
+      setError(t('workouts.errors.nameRequired'));
+      return;
+    }
+    if (blocks.length === 0) {
+      setError(t('workouts.errors.noSteps'));
+      return;
+    }
+
+    const parsedBlocks: WorkoutBlock[] = [];
+    for (const block of blocks) {
+      const steps: WorkoutStep[] = [];
+      for (const draft of block.steps) {
+        const parsed = fromStepDraft(draft, units);
+        if (typeof parsed === 'string') {
+          setError(t(parsed));
+          return;
+        }
+        steps.push(parsed);
+      }
+      parsedBlocks.push({ id: block.id, repeat: block.repeat, steps });
+    }
+
+    setSubmitting(true);
+    try {
+      await saveWorkout({
+        id: editingId ?? createWorkoutId(),
+        name: name.trim(),
+        blocks: parsedBlocks,
+        createdAt,
+      });
+      navigation.goBack();
+    } catch (err: any) {
+      logger.error('training', 'Failed to save workout', { error: err?.message });
+      Alert.alert('', err?.message || t('common.error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editingId) return;
+    Alert.alert(t('workouts.deleteWorkout'), t('workouts.deleteConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          await deleteWorkout(editingId);
+          navigation.goBack();
+        },
+      },
+    ]);
+  };
+
+  const renderChips = <T extends string>(
+    values: T[],
+    selected: T,
+    onSelect: (value: T) => void,
+    label: (value: T) => string
+  ) => (
+    <View style={styles.chipRow}>
+      {values.map((value) => {
+        const isSelected = value === selected;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[
+              styles.chip,
+              { backgroundColor: colors.background, borderColor: colors.border },
+              isSelected && { backgroundColor: colors.primary, borderColor: colors.primary },
+            ]}
+            onPress={() => onSelect(value)}
+          >
+            <Text style={[styles.chipText, isSelected ? styles.chipTextSelected : { color: colors.textSecondary }]}>
+              {label(value)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderStep = (block: BlockDraft, step: StepDraft) => (
+    <View key={step.id} style={[styles.step, { borderColor: colors.border }]}>
+      <View style={styles.stepHeader}>
+        {renderChips(STEP_TYPES, step.type, (type) => updateStep(block.id, step.id, { type }), (type) =>
+          t(`workouts.stepTypes.${type}`)
+        )}
+        <TouchableOpacity
+          onPress={() => removeStep(block.id, step.id)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityLabel={t('common.delete')}
+        >
+          <Ionicons name="trash-outline" size={18} color={colors.textMuted} />
+        </TouchableOpacity>
+      </View>
+
+      {renderChips(
+        DURATION_TYPES,
+        step.durationType,
+        (durationType) => updateStep(block.id, step.id, { durationType, value: '' }),
+        (type) => t(`workouts.durationTypes.${type}`)
+      )}
+
+      <Input
+        label={step.durationType === 'time'
+          ? t('workouts.timeLabel')
+          : t('workouts.distanceLabel', { unit: getDistanceUnit() })}
+        value={step.value}
+        onChangeText={(value) => updateStep(block.id, step.id, { value })}
+        keyboardType={step.durationType === 'time' ? 'numbers-and-punctuation' : 'decimal-pad'}
+        placeholder={step.durationType === 'time' ? '2:00' : '0.4'}
+      />
+
+      <Text style={[styles.label, { color: colors.textPrimary }]}>
+        {t('workouts.targetPace', { unit: getPaceUnit() })}
+      </Text>
+      <View style={styles.paceRow}>
+        <View style={styles.paceInput}>
+          <Input
+            label={t('workouts.fastest')}
+            value={step.paceFast}
+            onChangeText={(paceFast) => updateStep(block.id, step.id, { paceFast })}
+            keyboardType="numbers-and-punctuation"
+            placeholder={t('common.optional')}
+          />
+        </View>
+        <View style={styles.paceInput}>
+          <Input
+            label={t('workouts.slowest')}
+            value={step.paceSlow}
+            onChangeText={(paceSlow) => updateStep(block.id, step.id, { paceSlow })}
+            keyboardType="numbers-and-punctuation"
+            placeholder={t('common.optional')}
+          />
+        </View>
+      </View>
+    </View>
+  );
+
+  return (
+    <ScreenContainer>
+      <ScreenHeader
+        title={isEdit ? t('workouts.editWorkout') : t('workouts.newWorkout')}
+        showBack
+        onBack={() => navigation.goBack()}
+        rightAction={isEdit ? (
+          <TouchableOpacity onPress={handleDelete} accessibilityLabel={t('workouts.deleteWorkout')}>
+            <Ionicons name="trash-outline" size={22} color={colors.error} />
+          </TouchableOpacity>
+        ) : undefined}
+      />
+
+      {!loading && (
+        <ScrollView contentContainerStyle={styles.scroll} keyboardShouldPersistTaps="handled">
+          <View style={styles.field}>
+            <Input
+              label={t('workouts.name')}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('workouts.namePlaceholder')}
+            />
+          </View>
+
+          {blocks.map((block) => (
+            <View
+              key={block.id}
+              style={[
+                styles.block,
+                { backgroundColor: colors.cardBackground, borderColor: block.repeat > 1 ? colors.primary : colors.border },
+              ]}
+            >
+              <View style={styles.repeatRow}>
+                <Text style={[styles.label, styles.repeatLabel, { color: colors.textPrimary }]}>
+                  {t('workouts.repeat')}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => updateBlock(block.id, (b) => ({ ...b, repeat: Math.max(1, b.repeat - 1) }))}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="remove-circle-outline" size={24} color={colors.textSecondary} />
+                </TouchableOpacity>
+                <Text style={[styles.repeatValue, { color: colors.textPrimary }]}>{block.repeat}×</Text>
+                <TouchableOpacity
+                  onPress={() => updateBlock(block.id, (b) => ({ ...b, repeat: Math.min(MAX_REPEAT, b.repeat + 1) }))}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="add-circle-outline" size={24} color={colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+
+              {block.steps.map((step) => renderStep(block, step))}
+
+              <TouchableOpacity
+                style={styles.addInBlock}
+                onPress={() => updateBlock(block.id, (b) => ({ ...b, steps: [...b.steps, newStepDraft('recovery', units)] }))}
+              >
+                <Ionicons name="add" size={16} color={colors.primary} />
+                <Text style={[styles.addInBlockText, { color: colors.primary }]}>{t('workouts.addStep')}</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <View style={styles.addRow}>
+            <Button title={t('workouts.addStep')} variant="outline" onPress={handleAddStep} style={styles.addButton} />
+            <Button title={t('workouts.addRepeat')} variant="outline" onPress={handleAddRepeat} style={styles.addButton} />
+          </View>
+
+          {error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+
+          <Button
+            title={t('workouts.save')}
+            onPress={handleSubmit}
+            loading={submitting}
+            variant="primary"
+            style={styles.submitButton}
+          />
+        </ScrollView>
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  field: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+    marginBottom: spacing.sm,
+  },
+  block: {
+    borderWidth: 1,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    gap: spacing.sm,
+  },
+  repeatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  repeatLabel: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  repeatValue: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    minWidth: 36,
+    textAlign: 'center',
+  },
+  step: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingTop: spacing.sm,
+    gap: spacing.sm,
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  chipRow: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  paceRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  paceInput: {
+    flex: 1,
+  },
+  addInBlock: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    alignSelf: 'flex-start',
+    paddingVertical: spacing.xs,
+  },
+  addInBlockText: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  addButton: {
+    flex: 1,
+  },
+  error: {
+    fontSize: fontSize.sm,
+    marginTop: spacing.md,
+  },
+  submitButton: {
+    marginTop: spacing.lg,
+  },
+});
@@ -0,0 +1 @@
+export { WorkoutEditorScreen } from './WorkoutEditorScreen';
@@ -0,0 +1,49 @@
+import { api } from '../api';
+import { createLocalActivity, createServerActivity } from '../unsyncedActivities';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('../logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), activity: jest.fn() },
+}));
+jest.mock('../trackStore', () => ({}));
+jest.mock('../api', () => ({
+  api: { startLiveActivity: jest.fn(), pauseActivity: jest.fn() },
+}));
+
+const startLiveActivity = api.startLiveActivity as jest.Mock;
+const pauseActivity = api.pauseActivity as jest.Mock;
+
+function localRecord(status: 'in_progress' | 'paused') {
+  return { activity: { ...createLocalActivity({ userId: 1, sportTypeId: 2 }), status } };
+}
+
+describe('createServerActivity', () => {
+  beforeEach(() => {
+    startLiveActivity.mockReset().mockImplementation(async (data) => ({ id: 42, ...data, status: 'in_progress' }));
+    pauseActivity.mockReset().mockImplementation(async (id) => ({ id, status: 'paused', total_paused_duration: 0 }));
+  });
+
+  it('starts the server copy with the local start time', async () => {
+    const record = localRecord('in_progress');
+    const activity = await createServerActivity(record);
+    expect(startLiveActivity).toHaveBeenCalledWith(
+      expect.objectContaining({ sport_type_id: 2, started_at: record.activity.started_at }),
+    );
+    expect(pauseActivity).not.toHaveBeenCalled();
+    expect(activity.status).toBe('in_progress');
+  });
+
+  it('pauses the server copy of a paused local activity', async () => {
+    const activity = await createServerActivity(localRecord('paused'));
+    expect(pauseActivity).toHaveBeenCalledWith(42);
+    expect(activity).toMatchObject({ id: 42, status: 'paused' });
+  });
+
+  it('keeps the created activity when the pause fails', async () => {
+    pauseActivity.mockRejectedValue(new Error('offline'));
+    const activity = await createServerActivity(localRecord('paused'));
+    expect(activity).toMatchObject({ id: 42, status: 'in_progress' });
+  });
+});
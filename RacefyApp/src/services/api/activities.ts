@@ -380,6 +380,17 @@ export function ActivitiesMixin<TBase extends Constructable<ApiBase>>(Base: TBas
       return response.data;
     }
 
+    /**
+     * Resolve the token of a share link (`/share/activities/{token}`) to the activity
+     * Note: This endpoint may need to be added to the backend API
+     */
+    async getActivityByShareToken(token: string): Promise<Types.Activity> {
+      const response = await this.request<Types.ApiResponse<Types.Activity>>(
+        `/share/activities/${encodeURIComponent(token)}`
+      );
+      return response.data;
+    }
+
     async generatePhotoOverlay(
       id: number,
       photoId: number,
@@ -14,6 +14,13 @@ export const appendXdebugTrigger = (url: string): string => {
   return `${url}${separator}XDEBUG_TRIGGER=PHPSTORM`;
 };
 
+/**
+ * Header that lets the server recognise a retried create (the mutation
+ * outbox replays with the same key) and return the original instead.
+ */
+export const idempotencyHeaders = (key?: string): Record<string, string> | undefined =>
+  key ? { 'Idempotency-Key': key } : undefined;
+
 export class ApiBase {
   private token: string | null = null;
   private onUnauthorizedCallback: (() => void) | null = null;
@@ -1,5 +1,5 @@
 import type * as Types from '../../types/api';
-import type {ApiBase} from './base';
+import {idempotencyHeaders, type ApiBase} from './base';
 
 type Constructable<T = object> = new (...args: any[]) => T;
 
@@ -40,6 +40,13 @@ export function EventsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
       return response.data;
     }
 
+    /** Event by its friendly URL slug (`/events/@{slug}`) */
+    async getEventBySlug(slug: string): Promise<Types.Event> {
+      const response =
+        await this.request<Types.ApiResponse<Types.Event>>(`/events/slug/${encodeURIComponent(slug)}`);
+      return response.data;
+    }
+
     async getEventRankingModes(): Promise<Types.RankingModeOption[]> {
       const response =
           await this.request<Types.ApiResponse<Types.RankingModeOption[]>>('/events/ranking-modes');
@@ -186,7 +193,8 @@ export function EventsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
 
     async createEventComment(
       eventId: number,
-      data: Types.CreateCommentRequest
+      data: Types.CreateCommentRequest,
+      idempotencyKey?: string
     ): Promise<Types.Comment> {
       // Use FormData if photo is included
       if (data.photo) {
@@ -209,7 +217,7 @@ export function EventsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
 
         const result = await this.request<Types.ApiResponse<Types.Comment>>(
           `/events/${eventId}/comments`,
-          { method: 'POST', body: formData }
+          { method: 'POST', body: formData, headers: idempotencyHeaders(idempotencyKey) }
         );
         return result.data;
       }
@@ -219,6 +227,7 @@ export function EventsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
         {
           method: 'POST',
           body: JSON.stringify(data),
+          headers: idempotencyHeaders(idempotencyKey),
         }
       );
       return response.data;
@@ -1,8 +1,12 @@
 import type * as Types from '../../types/api';
 import type { ApiBase } from './base';
+import { logger } from '../logger';
 
 type Constructable<T = object> = new (...args: any[]) => T;
 
+/** Set once the server answers 404/405 for /messages/history — use the paged list from then on */
+let historyEndpointMissing = false;
+
 export function MessagingMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
   return class MessagingMixin extends Base {
     // ============ MESSAGING ============
@@ -40,16 +44,115 @@ export function MessagingMixin<TBase extends Constructable<ApiBase>>(Base: TBase
       return this.request(`/conversations/${conversationId}/messages?page=${page}`);
     }
 
+    /**
+     * Message history, newest first (keyset pagination). Pass the oldest
+     * message ID you have as `beforeId` to page further back in time.
+     * Servers without the history endpoint get the newest page of
+     * getMessages instead, without older pages.
+     */
+    async getMessageHistory(
+      conversationId: number,
+      params: { beforeId?: number; perPage?: number } = {}
+    ): Promise<Types.MessageHistoryResponse> {
+      if (!historyEndpointMissing) {
+        const query = new URLSearchParams({ per_page: String(params.perPage ?? 30) });
+        if (params.beforeId) query.append('before_id', String(params.beforeId));
+        try {
+          return await this.request<Types.MessageHistoryResponse>(
+            `/conversations/${conversationId}/messages/history?${query.toString()}`
+          );
+        } catch (error: any) {
+          // No answer from the server: the paged list wouldn't load either
+          if (!error?.status) throw error;
+          if (error.status === 404 || error.status === 405) historyEndpointMissing = true;
+          logger.warn('api', 'Message history endpoint failed, using paged messages', {
+            conversationId,
+            status: error.status,
+          });
+        }
+      }
+
+      if (params.beforeId) {
+        return { data: [], meta: { per_page: params.perPage ?? 30, has_more: false } };
+      }
+      const page = await this.getMessages(conversationId);
+      return {
+        data: [...page.data].reverse(),
+        meta: { per_page: page.meta.per_page, has_more: false },
+      };
+    }
+
+    /**
+     * `client_id` lets the server deduplicate retries and echo it back so the
+     * optimistic bubble can be matched with the stored message. Photo
+     * messages are uploaded as multipart.
+     */
     async sendMessage(
       conversationId: number,
-      content: string
+      data: Types.SendMessageRequest
     ): Promise<Types.ApiResponse<Types.Message>> {
+      const { photo, ...fields } = data;
+      if (photo) {
+        const formData = new FormData();
+        formData.append('type', 'photo');
+        if (fields.content) formData.append('content', fields.content);
+        if (fields.reply_to_id) formData.append('reply_to_id', String(fields.reply_to_id));
+        if (fields.client_id) formData.append('client_id', fields.client_id);
+
+        const filename = photo.uri.split('/').pop() || 'photo.jpg';
+        const match = /\.(\w+)$/.exec(filename);
+        const ext = match ? match[1].toLowerCase() : 'jpg';
+        const mimeType = ext === 'png' ? 'image/png' : ext === 'gif' ? 'image/gif' : 'image/jpeg';
+
+        formData.append('photo', {
+          uri: photo.uri,
+          name: filename,
+          type: mimeType,
+        } as any);
+
+        return this.request(`/conversations/${conversationId}/messages`, {
+          method: 'POST',
+          body: formData,
+        });
+      }
+
       return this.request(`/conversations/${conversationId}/messages`, {
         method: 'POST',
-        body: JSON.stringify({ content, type: 'text' }),
+        body: JSON.stringify({ type: 'text', ...fields }),
       });
     }
 
+    /**
+     * React to a message with an emoji. Returns the message's reactions after
+     * the change.
+     */
+    async addMessageReaction(
+      conversationId: number,
+      messageId: number,
+      emoji: string
+    ): Promise<Types.MessageReaction[]> {
+      const response = await this.request<Types.ApiResponse<Types.MessageReaction[]>>(
+        `/conversations/${conversationId}/messages/${messageId}/reactions`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ emoji }),
+        }
+      );
+      return response.data;
+    }
+
+    async removeMessageReaction(
+      conversationId: number,
+      messageId: number,
+      emoji: string
+    ): Promise<Types.MessageReaction[]> {
+      const response = await this.request<Types.ApiResponse<Types.MessageReaction[]>>(
+        `/conversations/${conversationId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
+        { method: 'DELETE' }
+      );
+      return response.data;
+    }
+
     async markConversationAsRead(conversationId: number): Promise<void> {
       await this.request(`/conversations/${conversationId}/read`, {
         method: 'POST',
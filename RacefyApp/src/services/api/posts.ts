@@ -1,6 +1,6 @@
 import {getFilename, getImageMimeType, getMediaMimeType} from '../../utils/mime';
 import type * as Types from '../../types/api';
-import type {ApiBase} from './base';
+import {idempotencyHeaders, type ApiBase} from './base';
 
 type Constructable<T = object> = new (...args: any[]) => T;
 
@@ -28,12 +28,13 @@ export function PostsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
       return response.data;
     }
 
-    async createPost(data: Types.CreatePostRequest): Promise<Types.Post> {
+    async createPost(data: Types.CreatePostRequest, idempotencyKey?: string): Promise<Types.Post> {
       const response = await this.request<Types.ApiResponse<Types.Post>>(
         '/posts',
         {
           method: 'POST',
           body: JSON.stringify(data),
+          headers: idempotencyHeaders(idempotencyKey),
         }
       );
       return response.data;
@@ -129,7 +130,8 @@ export function PostsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
 
     async createComment(
       postId: number,
-      data: Types.CreateCommentRequest
+      data: Types.CreateCommentRequest,
+      idempotencyKey?: string
     ): Promise<Types.Comment> {
       // Use FormData if photo is included
       if (data.photo) {
@@ -148,7 +150,7 @@ export function PostsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
 
         const result = await this.request<Types.ApiResponse<Types.Comment>>(
           `/posts/${postId}/comments`,
-          { method: 'POST', body: formData }
+          { method: 'POST', body: formData, headers: idempotencyHeaders(idempotencyKey) }
         );
         return result.data;
       }
@@ -158,6 +160,7 @@ export function PostsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
         {
           method: 'POST',
           body: JSON.stringify(data),
+          headers: idempotencyHeaders(idempotencyKey),
         }
       );
       return response.data;
@@ -297,6 +300,17 @@ export function PostsMixin<TBase extends Constructable<ApiBase>>(Base: TBase) {
       return response.data;
     }
 
+    /**
+     * Resolve the token of a share link (`/share/posts/{token}`) to the post
+     * Note: This endpoint may need to be added to the backend API
+     */
+    async getPostByShareToken(token: string): Promise<Types.Post> {
+      const response = await this.request<Types.ApiResponse<Types.Post>>(
+        `/share/posts/${encodeURIComponent(token)}`
+      );
+      return response.data;
+    }
+
     /**
      * Get shareable link for a comment
      * Note: This endpoint may need to be added to the backend API
@@ -39,6 +39,19 @@ export function PrivacyZonesMixin<TBase extends Constructable<ApiBase>>(Base: TB
       return response.data;
     }
 
+    async getPrivacyTrimSettings(): Promise<Types.PrivacyTrimSettings> {
+      const response = await this.request<Types.ApiResponse<Types.PrivacyTrimSettings>>('/privacy-zones/trim');
+      return response.data;
+    }
+
+    async updatePrivacyTrimSettings(data: Types.PrivacyTrimSettings): Promise<Types.PrivacyTrimSettings> {
+      const response = await this.request<Types.ApiResponse<Types.PrivacyTrimSettings>>(
+        '/privacy-zones/trim',
+        { method: 'PUT', body: JSON.stringify(data) },
+      );
+      return response.data;
+    }
+
     async getPrivacyZoneSuggestions(): Promise<Types.PrivacyZoneSuggestion[]> {
       const response = await this.request<Types.ApiResponse<Types.PrivacyZoneSuggestion[]>>(
         '/privacy-zones/suggestions',
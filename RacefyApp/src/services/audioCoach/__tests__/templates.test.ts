@@ -0,0 +1,27 @@
+import { buildMilestoneAnnouncement } from '../templates';
+
+const KM_PER_MILE = 1.609344;
+
+describe('buildMilestoneAnnouncement', () => {
+  it('names metric milestones by their km key', () => {
+    expect(buildMilestoneAnnouncement('en', 5)).toContain('5 K');
+    expect(buildMilestoneAnnouncement('en', 21.1)).toContain('half marathon');
+    expect(buildMilestoneAnnouncement('en', 7)).toBeNull();
+  });
+
+  it('speaks km milestones in miles for imperial users', () => {
+    expect(buildMilestoneAnnouncement('en', 5, 'imperial')).toContain('3.1 miles');
+    expect(buildMilestoneAnnouncement('en', 42.2, 'imperial')).toContain('marathon');
+  });
+
+  it('matches whole-mile thresholds in imperial', () => {
+    expect(buildMilestoneAnnouncement('en', 5 * KM_PER_MILE, 'imperial')).toContain('5 miles');
+    expect(buildMilestoneAnnouncement('en', 10 * KM_PER_MILE, 'imperial')).toContain('10 miles');
+    expect(buildMilestoneAnnouncement('en', 13.1 * KM_PER_MILE, 'imperial')).toContain('half marathon');
+    expect(buildMilestoneAnnouncement('en', 3 * KM_PER_MILE, 'imperial')).toBeNull();
+  });
+
+  it('ignores mile thresholds for metric users', () => {
+    expect(buildMilestoneAnnouncement('en', 5 * KM_PER_MILE)).toBeNull();
+  });
+});
@@ -0,0 +1,20 @@
+import { getDistanceThreshold, resolveTriggerSettings } from '../triggers';
+
+describe('getDistanceThreshold', () => {
+  it('crosses multiples of the interval in km', () => {
+    const settings = resolveTriggerSettings({ intervalKm: 0.5 });
+    expect(getDistanceThreshold(settings, 1.4)).toBe(1);
+    expect(getDistanceThreshold(settings, 1.5)).toBe(1.5);
+  });
+
+  it('treats a 1 mi interval stored as km the same on every device', () => {
+    const settings = resolveTriggerSettings({ intervalKm: 1.609344 });
+    expect(getDistanceThreshold(settings, 1.6)).toBe(0);
+    expect(getDistanceThreshold(settings, 3.3)).toBeCloseTo(3.218688, 6);
+  });
+
+  it('prefers the custom distance list', () => {
+    const settings = resolveTriggerSettings({ intervalKm: 1, customDistancesKm: [5, 10] });
+    expect(getDistanceThreshold(settings, 7)).toBe(5);
+  });
+});
@@ -7,6 +7,7 @@ import type {
   SynthesizeRequest,
   SynthesizeResponse,
 } from '../../types/audioCoach';
+import { DEFAULT_AUDIO_COACH_SETTINGS } from '../../types/audioCoach';
 import type { ApiResponse } from '../../types/api';
 
 /**
@@ -40,7 +41,10 @@ function toServerSettings(settings: Partial<AudioCoachSettings>): Partial<AudioC
 
   if (settings.enabled !== undefined) result.enabled = settings.enabled;
   if (settings.language !== undefined) result.language = LANG_TO_LOCALE[settings.language] || 'en-US';
+  if (settings.triggerMode !== undefined) result.trigger_mode = settings.triggerMode;
   if (settings.intervalKm !== undefined) result.interval_km = settings.intervalKm;
+  if (settings.customDistancesKm !== undefined) result.custom_distances_km = settings.customDistancesKm;
+  if (settings.intervalMinutes !== undefined) result.interval_minutes = settings.intervalMinutes;
   if (settings.style !== undefined) result.voice_style = settings.style;
   if (settings.speechRate !== undefined) result.speech_rate = settings.speechRate;
   if (settings.speechPitch !== undefined) result.speech_pitch = settings.speechPitch;
@@ -59,7 +63,10 @@ function fromServerSettings(server: AudioCoachServerSettings): AudioCoachSetting
   return {
     enabled: server.enabled,
     language: LOCALE_TO_LANG[server.language] || 'en',
+    triggerMode: server.trigger_mode ?? DEFAULT_AUDIO_COACH_SETTINGS.triggerMode,
     intervalKm: server.interval_km,
+    customDistancesKm: server.custom_distances_km ?? DEFAULT_AUDIO_COACH_SETTINGS.customDistancesKm,
+    intervalMinutes: server.interval_minutes ?? DEFAULT_AUDIO_COACH_SETTINGS.intervalMinutes,
     style: server.voice_style,
     speechRate: server.speech_rate,
     speechPitch: server.speech_pitch,
@@ -1,4 +1,12 @@
-import type { AnnouncementData, AudioCoachLanguage, AudioCoachStyle } from '../../types/audioCoach';
+import type {
+  AnnouncementData,
+  AudioCoachLanguage,
+  AudioCoachStyle,
+  TimeAnnouncementData,
+} from '../../types/audioCoach';
+import type { FlatWorkoutStep, WorkoutPaceStatus, WorkoutStepType } from '../../types/workout';
+import type { HeartRateZoneStatus } from '../../types/targetZone';
+import { getDistanceValueFromKm, type UnitSystem } from '../../utils/unitConversions';
 
 // ─── Pluralization helpers ───────────────────────────────────────────────────
 
@@ -6,6 +14,7 @@ type PluralForms = {
   one: string;   // nominative singular (n = 1)
   few?: string;  // 2–4 (Slavic languages)
   many: string;  // 5+ (also used as simple plural for non-Slavic)
+  fraction?: string; // non-integers, when it differs from `many` (Polish genitive singular)
 };
 
 /**
@@ -43,11 +52,22 @@ const DELTA_FORMS: Record<AudioCoachLanguage, LangTimeForms> = {
   pl: { min: { one: 'minutę', few: 'minuty', many: 'minut' }, sec: PACE_FORMS.pl.sec },
 };
 
-// ─── Kilometer forms per language ────────────────────────────────────────────
+/** Nominative hour forms — used for elapsed time in time-triggered announcements */
+const HOUR_FORMS: Record<AudioCoachLanguage, PluralForms> = {
+  en: { one: 'hour',    many: 'hours'   },
+  pl: { one: 'godzina', few: 'godziny', many: 'godzin' },
+  de: { one: 'Stunde',  many: 'Stunden' },
+  fr: { one: 'heure',   many: 'heures'  },
+  es: { one: 'hora',    many: 'horas'   },
+  it: { one: 'ora',     many: 'ore'     },
+  pt: { one: 'hora',    many: 'horas'   },
+};
+
+// ─── Distance unit forms per language ────────────────────────────────────────
 
 const KM_FORMS: Record<AudioCoachLanguage, PluralForms> = {
   en: { one: 'kilometer',   many: 'kilometers'   },
-  pl: { one: 'kilometr',    few: 'kilometry',    many: 'kilometrów' },
+  pl: { one: 'kilometr',    few: 'kilometry',    many: 'kilometrów', fraction: 'kilometra' },
   de: { one: 'Kilometer',   many: 'Kilometer'    },
   fr: { one: 'kilomètre',   many: 'kilomètres'   },
   es: { one: 'kilómetro',   many: 'kilómetros'   },
@@ -55,14 +75,60 @@ const KM_FORMS: Record<AudioCoachLanguage, PluralForms> = {
   pt: { one: 'quilómetro',  many: 'quilómetros'  },
 };
 
+const MILE_FORMS: Record<AudioCoachLanguage, PluralForms> = {
+  en: { one: 'mile',    many: 'miles'   },
+  pl: { one: 'mila',    few: 'mile',    many: 'mil', fraction: 'mili' },
+  de: { one: 'Meile',   many: 'Meilen'  },
+  fr: { one: 'mile',    many: 'miles'   },
+  es: { one: 'milla',   many: 'millas'  },
+  it: { one: 'miglio',  many: 'miglia'  },
+  pt: { one: 'milha',   many: 'milhas'  },
+};
+
+/** "per kilometer" / "per mile" — pace unit phrase */
+const PER_UNIT: Record<UnitSystem, Record<AudioCoachLanguage, string>> = {
+  metric: {
+    en: 'per kilometer', pl: 'na kilometr', de: 'pro Kilometer', fr: 'par kilomètre',
+    es: 'por kilómetro', it: 'per chilometro', pt: 'por quilómetro',
+  },
+  imperial: {
+    en: 'per mile', pl: 'na milę', de: 'pro Meile', fr: 'par mile',
+    es: 'por milla', it: 'per miglio', pt: 'por milha',
+  },
+};
+
+/** "Kilometer 5" / "Mile 5" — split label used by the `coach` style */
+const UNIT_LABEL: Record<UnitSystem, Record<AudioCoachLanguage, string>> = {
+  metric: {
+    en: 'Kilometer', pl: 'Kilometr', de: 'Kilometer', fr: 'Kilomètre',
+    es: 'Kilómetro', it: 'Chilometro', pt: 'Quilómetro',
+  },
+  imperial: {
+    en: 'Mile', pl: 'Mila', de: 'Meile', fr: 'Mile',
+    es: 'Milla', it: 'Miglio', pt: 'Milha',
+  },
+};
+
 /**
- * Format km value with correct plural form per language.
- * Non-integers (0.5, 1.5, …) always use plural (many) form.
+ * Format a distance (already in the user's unit) with the correct plural form.
+ * Non-integers (0.5, 1.5, …) use the fraction form, falling back to plural (many).
  */
-function formatKm(km: number, language: AudioCoachLanguage): string {
-  const f = KM_FORMS[language] ?? KM_FORMS.en;
-  if (km % 1 !== 0) return `${km} ${f.many}`;
-  return `${km} ${plur(km, f)}`;
+function formatUnits(value: number, language: AudioCoachLanguage, units: UnitSystem): string {
+  const forms = units === 'imperial' ? MILE_FORMS : KM_FORMS;
+  const f = forms[language] ?? forms.en;
+  if (value % 1 !== 0) return `${value} ${f.fraction ?? f.many}`;
+  return `${value} ${plur(value, f)}`;
+}
+
+/** Convert km to the user's unit, rounded for speech (1.609 km → 1 mile) */
+function toSpokenDistance(km: number, units: UnitSystem, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(getDistanceValueFromKm(km, units) * factor) / factor;
+}
+
+/** Convert min/km (or s/km) pace to the user's unit */
+function toUnitPace(perKm: number, units: UnitSystem): number {
+  return perKm / getDistanceValueFromKm(1, units);
 }
 
 // ─── Formatters ──────────────────────────────────────────────────────────────
@@ -125,18 +191,51 @@ function formatDelta(deltaSeconds: number, language: AudioCoachLanguage): string
   return `${timeStr} ${label}`;
 }
 
-type TemplateBuilder = (data: AnnouncementData) => string;
+/**
+ * Format elapsed whole minutes to spoken text per language.
+ *
+ * Examples:
+ *   en, 30 → "30 minutes"
+ *   pl, 75 → "1 godzina 15 minut"
+ */
+function formatElapsed(totalMinutes: number, language: AudioCoachLanguage): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const h = HOUR_FORMS[language] ?? HOUR_FORMS.en;
+  const m = (PACE_FORMS[language] ?? PACE_FORMS.en).min;
+
+  if (hours === 0) return `${minutes} ${plur(minutes, m)}`;
+  if (minutes === 0) return `${hours} ${plur(hours, h)}`;
+  return `${hours} ${plur(hours, h)} ${minutes} ${plur(minutes, m)}`;
+}
+
+/** Announcement data converted to the user's unit system */
+interface SpokenAnnouncement extends AnnouncementData {
+  /** Threshold distance in the user's unit (km or miles) */
+  distance: number;
+  units: UnitSystem;
+}
+
+type TemplateBuilder = (data: SpokenAnnouncement) => string;
+
+/** "5 kilometers" / "3 miles" */
+const dist = (d: SpokenAnnouncement) => formatUnits(d.distance, d.language, d.units);
+/** Short form: "5 K" / "5 km" in metric; miles are always spoken in full */
+const short = (d: SpokenAnnouncement) =>
+  d.units === 'imperial' ? dist(d) : `${d.distance} ${d.language === 'en' ? 'K' : 'km'}`;
+const per = (d: SpokenAnnouncement) => PER_UNIT[d.units][d.language];
+const label = (d: SpokenAnnouncement) => UNIT_LABEL[d.units][d.language];
 
 const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuilder>> = {
   en: {
     neutral: (d) => {
-      let text = `${formatKm(d.km, 'en')}. Pace ${formatPace(d.pace, d.language)} per kilometer.`;
+      let text = `${dist(d)}. Pace ${formatPace(d.pace, d.language)} ${per(d)}.`;
       if (d.heartRate) text += ` Heart rate ${d.heartRate}.`;
       if (d.splitDelta !== undefined) text += ` ${formatDelta(d.splitDelta, 'en')}.`;
       return text;
     },
     motivational: (d) => {
-      let text = `${d.km} K done! You're running ${formatPace(d.pace, d.language)} pace. Keep pushing!`;
+      let text = `${short(d)} done! You're running ${formatPace(d.pace, d.language)} pace. Keep pushing!`;
       if (d.heartRate) text += ` Heart at ${d.heartRate} BPM.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -146,7 +245,7 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     coach: (d) => {
-      let text = `Kilometer ${d.km}. Current pace is ${formatPace(d.pace, d.language)}.`;
+      let text = `${label(d)} ${d.distance}. Current pace is ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` Heart rate ${d.heartRate} beats per minute.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -156,20 +255,20 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     minimal: (d) => {
-      let text = `${d.km} K. ${formatPace(d.pace, d.language)}.`;
+      let text = `${short(d)}. ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` ${d.heartRate} BPM.`;
       return text;
     },
   },
   pl: {
     neutral: (d) => {
-      let text = `${formatKm(d.km, 'pl')}. Tempo ${formatPace(d.pace, d.language)} na kilometr.`;
+      let text = `${dist(d)}. Tempo ${formatPace(d.pace, d.language)} ${per(d)}.`;
       if (d.heartRate) text += ` Tętno ${d.heartRate}.`;
       if (d.splitDelta !== undefined) text += ` ${formatDelta(d.splitDelta, 'pl')}.`;
       return text;
     },
     motivational: (d) => {
-      let text = `${d.km} km za tobą! Tempo ${formatPace(d.pace, d.language)}. Tak trzymaj!`;
+      let text = `${short(d)} za tobą! Tempo ${formatPace(d.pace, d.language)}. Tak trzymaj!`;
       if (d.heartRate) text += ` Tętno ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -179,7 +278,7 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     coach: (d) => {
-      let text = `Kilometr ${d.km}. Aktualne tempo ${formatPace(d.pace, d.language)}.`;
+      let text = `${label(d)} ${d.distance}. Aktualne tempo ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` Tętno ${d.heartRate} uderzeń na minutę.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -189,20 +288,20 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     minimal: (d) => {
-      let text = `${d.km} km. ${formatPace(d.pace, d.language)}.`;
+      let text = `${short(d)}. ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` ${d.heartRate}.`;
       return text;
     },
   },
   de: {
     neutral: (d) => {
-      let text = `${formatKm(d.km, 'de')}. Tempo ${formatPace(d.pace, d.language)} pro Kilometer.`;
+      let text = `${dist(d)}. Tempo ${formatPace(d.pace, d.language)} ${per(d)}.`;
       if (d.heartRate) text += ` Herzfrequenz ${d.heartRate}.`;
       if (d.splitDelta !== undefined) text += ` ${formatDelta(d.splitDelta, 'de')}.`;
       return text;
     },
     motivational: (d) => {
-      let text = `${d.km} km geschafft! Tempo ${formatPace(d.pace, d.language)}. Weiter so!`;
+      let text = `${short(d)} geschafft! Tempo ${formatPace(d.pace, d.language)}. Weiter so!`;
       if (d.heartRate) text += ` Puls ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -212,7 +311,7 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     coach: (d) => {
-      let text = `Kilometer ${d.km}. Aktuelles Tempo ${formatPace(d.pace, d.language)}.`;
+      let text = `${label(d)} ${d.distance}. Aktuelles Tempo ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` Herzfrequenz ${d.heartRate} Schläge pro Minute.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -222,20 +321,20 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     minimal: (d) => {
-      let text = `${d.km} km. ${formatPace(d.pace, d.language)}.`;
+      let text = `${short(d)}. ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` ${d.heartRate}.`;
       return text;
     },
   },
   fr: {
     neutral: (d) => {
-      let text = `${formatKm(d.km, 'fr')}. Allure ${formatPace(d.pace, d.language)} par kilomètre.`;
+      let text = `${dist(d)}. Allure ${formatPace(d.pace, d.language)} ${per(d)}.`;
       if (d.heartRate) text += ` Fréquence cardiaque ${d.heartRate}.`;
       if (d.splitDelta !== undefined) text += ` ${formatDelta(d.splitDelta, 'fr')}.`;
       return text;
     },
     motivational: (d) => {
-      let text = `${d.km} km! Allure ${formatPace(d.pace, d.language)}. Continue comme ça!`;
+      let text = `${short(d)}! Allure ${formatPace(d.pace, d.language)}. Continue comme ça!`;
       if (d.heartRate) text += ` Cœur à ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -245,7 +344,7 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     coach: (d) => {
-      let text = `Kilomètre ${d.km}. Allure actuelle ${formatPace(d.pace, d.language)}.`;
+      let text = `${label(d)} ${d.distance}. Allure actuelle ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` Fréquence cardiaque ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -255,20 +354,20 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     minimal: (d) => {
-      let text = `${d.km} km. ${formatPace(d.pace, d.language)}.`;
+      let text = `${short(d)}. ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` ${d.heartRate}.`;
       return text;
     },
   },
   es: {
     neutral: (d) => {
-      let text = `${formatKm(d.km, 'es')}. Ritmo ${formatPace(d.pace, d.language)} por kilómetro.`;
+      let text = `${dist(d)}. Ritmo ${formatPace(d.pace, d.language)} ${per(d)}.`;
       if (d.heartRate) text += ` Frecuencia cardíaca ${d.heartRate}.`;
       if (d.splitDelta !== undefined) text += ` ${formatDelta(d.splitDelta, 'es')}.`;
       return text;
     },
     motivational: (d) => {
-      let text = `${d.km} km! Ritmo ${formatPace(d.pace, d.language)}. ¡Sigue así!`;
+      let text = `${short(d)}! Ritmo ${formatPace(d.pace, d.language)}. ¡Sigue así!`;
       if (d.heartRate) text += ` Corazón a ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -278,7 +377,7 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     coach: (d) => {
-      let text = `Kilómetro ${d.km}. Ritmo actual ${formatPace(d.pace, d.language)}.`;
+      let text = `${label(d)} ${d.distance}. Ritmo actual ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` Frecuencia cardíaca ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -288,20 +387,20 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     minimal: (d) => {
-      let text = `${d.km} km. ${formatPace(d.pace, d.language)}.`;
+      let text = `${short(d)}. ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` ${d.heartRate}.`;
       return text;
     },
   },
   it: {
     neutral: (d) => {
-      let text = `${formatKm(d.km, 'it')}. Ritmo ${formatPace(d.pace, d.language)} per chilometro.`;
+      let text = `${dist(d)}. Ritmo ${formatPace(d.pace, d.language)} ${per(d)}.`;
       if (d.heartRate) text += ` Frequenza cardiaca ${d.heartRate}.`;
       if (d.splitDelta !== undefined) text += ` ${formatDelta(d.splitDelta, 'it')}.`;
       return text;
     },
     motivational: (d) => {
-      let text = `${d.km} km! Ritmo ${formatPace(d.pace, d.language)}. Continua così!`;
+      let text = `${short(d)}! Ritmo ${formatPace(d.pace, d.language)}. Continua così!`;
       if (d.heartRate) text += ` Cuore a ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -311,7 +410,7 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     coach: (d) => {
-      let text = `Chilometro ${d.km}. Ritmo attuale ${formatPace(d.pace, d.language)}.`;
+      let text = `${label(d)} ${d.distance}. Ritmo attuale ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` Frequenza cardiaca ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -321,20 +420,20 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     minimal: (d) => {
-      let text = `${d.km} km. ${formatPace(d.pace, d.language)}.`;
+      let text = `${short(d)}. ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` ${d.heartRate}.`;
       return text;
     },
   },
   pt: {
     neutral: (d) => {
-      let text = `${formatKm(d.km, 'pt')}. Ritmo ${formatPace(d.pace, d.language)} por quilómetro.`;
+      let text = `${dist(d)}. Ritmo ${formatPace(d.pace, d.language)} ${per(d)}.`;
       if (d.heartRate) text += ` Frequência cardíaca ${d.heartRate}.`;
       if (d.splitDelta !== undefined) text += ` ${formatDelta(d.splitDelta, 'pt')}.`;
       return text;
     },
     motivational: (d) => {
-      let text = `${d.km} km! Ritmo ${formatPace(d.pace, d.language)}. Continue assim!`;
+      let text = `${short(d)}! Ritmo ${formatPace(d.pace, d.language)}. Continue assim!`;
       if (d.heartRate) text += ` Coração a ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -344,7 +443,7 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     coach: (d) => {
-      let text = `Quilómetro ${d.km}. Ritmo atual ${formatPace(d.pace, d.language)}.`;
+      let text = `${label(d)} ${d.distance}. Ritmo atual ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` Frequência cardíaca ${d.heartRate}.`;
       if (d.splitDelta !== undefined) {
         text += d.splitDelta < 0
@@ -354,7 +453,7 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
       return text;
     },
     minimal: (d) => {
-      let text = `${d.km} km. ${formatPace(d.pace, d.language)}.`;
+      let text = `${short(d)}. ${formatPace(d.pace, d.language)}.`;
       if (d.heartRate) text += ` ${d.heartRate}.`;
       return text;
     },
@@ -368,7 +467,55 @@ const templates: Record<AudioCoachLanguage, Record<AudioCoachStyle, TemplateBuil
 export function buildAnnouncementText(data: AnnouncementData): string {
   const langTemplates = templates[data.language] || templates.en;
   const builder = langTemplates[data.style] || langTemplates.neutral;
-  return builder(data);
+  const units = data.units ?? 'metric';
+  return builder({
+    ...data,
+    units,
+    distance: toSpokenDistance(data.km, units),
+    pace: toUnitPace(data.pace, units),
+    splitDelta: data.splitDelta !== undefined ? Math.round(toUnitPace(data.splitDelta, units)) : undefined,
+  });
+}
+
+// ─── Time-triggered announcements ───────────────────────────────────────────
+
+/** "{elapsed}. {distance}. Pace {pace} {per unit}." — `minimal` style drops the labels */
+const timeTemplates: Record<AudioCoachLanguage, { full: (elapsed: string, dist: string, pace: string, per: string) => string; heartRate: string }> = {
+  en: { full: (e, dist, p, per) => `${e}. ${dist}. Pace ${p} ${per}.`,    heartRate: 'Heart rate' },
+  pl: { full: (e, dist, p, per) => `${e}. ${dist}. Tempo ${p} ${per}.`,   heartRate: 'Tętno' },
+  de: { full: (e, dist, p, per) => `${e}. ${dist}. Tempo ${p} ${per}.`,   heartRate: 'Herzfrequenz' },
+  fr: { full: (e, dist, p, per) => `${e}. ${dist}. Allure ${p} ${per}.`,  heartRate: 'Fréquence cardiaque' },
+  es: { full: (e, dist, p, per) => `${e}. ${dist}. Ritmo ${p} ${per}.`,   heartRate: 'Frecuencia cardíaca' },
+  it: { full: (e, dist, p, per) => `${e}. ${dist}. Ritmo ${p} ${per}.`,   heartRate: 'Frequenza cardiaca' },
+  pt: { full: (e, dist, p, per) => `${e}. ${dist}. Ritmo ${p} ${per}.`,   heartRate: 'Frequência cardíaca' },
+};
+
+/**
+ * Build a time-triggered announcement ("every N minutes").
+ * Distance is rounded to 0.01 km/mi; pace is omitted until it's known.
+ */
+export function buildTimeAnnouncementText(data: TimeAnnouncementData): string {
+  const tpl = timeTemplates[data.language] || timeTemplates.en;
+  const units = data.units ?? 'metric';
+  const elapsed = formatElapsed(data.minutes, data.language);
+  const dist = formatUnits(toSpokenDistance(data.km, units), data.language, units);
+  const pace = toUnitPace(data.pace, units);
+
+  let text: string;
+  if (data.style === 'minimal') {
+    text = pace > 0
+      ? `${elapsed}. ${dist}. ${formatPace(pace, data.language)}.`
+      : `${elapsed}. ${dist}.`;
+  } else if (pace > 0) {
+    text = tpl.full(elapsed, dist, formatPace(pace, data.language), PER_UNIT[units][data.language]);
+  } else {
+    text = `${elapsed}. ${dist}.`;
+  }
+
+  if (data.heartRate) {
+    text += data.style === 'minimal' ? ` ${data.heartRate}.` : ` ${tpl.heartRate} ${data.heartRate}.`;
+  }
+  return text;
 }
 
 // ─── Start / End / Milestone announcements ──────────────────────────────────
@@ -387,32 +534,36 @@ export function buildStartAnnouncement(language: AudioCoachLanguage): string {
   return startTemplates[language] || startTemplates.en;
 }
 
-const endTemplates: Record<AudioCoachLanguage, (km: number, pace: number, lang: AudioCoachLanguage) => string> = {
-  en: (km, pace, lang) =>
-    `Run complete. ${formatKm(km, 'en')} in ${formatPace(pace, lang)}. Great job!`,
-  pl: (km, pace, lang) =>
-    `Bieg zakończony. ${formatKm(km, 'pl')}, tempo średnie ${formatPace(pace, lang)} na kilometr. Dobra robota!`,
-  de: (km, pace, lang) =>
-    `Lauf beendet. ${formatKm(km, 'de')} in ${formatPace(pace, lang)}. Gut gemacht!`,
-  fr: (km, pace, lang) =>
-    `Course terminée. ${formatKm(km, 'fr')} en ${formatPace(pace, lang)}. Bien joué!`,
-  es: (km, pace, lang) =>
-    `¡Carrera completada! ${formatKm(km, 'es')} en ${formatPace(pace, lang)}. ¡Buen trabajo!`,
-  it: (km, pace, lang) =>
-    `Corsa completata. ${formatKm(km, 'it')} in ${formatPace(pace, lang)}. Ottimo lavoro!`,
-  pt: (km, pace, lang) =>
-    `Corrida concluída. ${formatKm(km, 'pt')} em ${formatPace(pace, lang)}. Bom trabalho!`,
+type EndTemplate = (dist: string, pace: string, per: string) => string;
+
+const endTemplates: Record<AudioCoachLanguage, EndTemplate> = {
+  en: (dist, pace) =>
+    `Run complete. ${dist} in ${pace}. Great job!`,
+  pl: (dist, pace, per) =>
+    `Bieg zakończony. ${dist}, tempo średnie ${pace} ${per}. Dobra robota!`,
+  de: (dist, pace) =>
+    `Lauf beendet. ${dist} in ${pace}. Gut gemacht!`,
+  fr: (dist, pace) =>
+    `Course terminée. ${dist} en ${pace}. Bien joué!`,
+  es: (dist, pace) =>
+    `¡Carrera completada! ${dist} en ${pace}. ¡Buen trabajo!`,
+  it: (dist, pace) =>
+    `Corsa completata. ${dist} in ${pace}. Ottimo lavoro!`,
+  pt: (dist, pace) =>
+    `Corrida concluída. ${dist} em ${pace}. Bom trabalho!`,
 };
 
 export function buildEndAnnouncement(
   language: AudioCoachLanguage,
   totalKm: number,
   avgPaceMinPerKm: number,
+  units: UnitSystem = 'metric',
 ): string {
   const builder = endTemplates[language] || endTemplates.en;
-  // Round km to 1 decimal
-  const km = Math.round(totalKm * 10) / 10;
-  return builder(km, avgPaceMinPerKm, language);
+  // Round distance to 1 decimal
+  const dist = formatUnits(toSpokenDistance(totalKm, units, 1), language, units);
+  const pace = formatPace(toUnitPace(avgPaceMinPerKm, units), language);
+  return builder(dist, pace, PER_UNIT[units][language]);
 }
 
 // Milestone threshold labels (km value → spoken name per language)
@@ -435,16 +586,290 @@ const milestoneTemplates: Record<AudioCoachLanguage, (name: string) => string> =
   pt: (name) => `Parabéns! Você acabou de completar sua primeira ${name}!`,
 };
 
+/** Race names that stay the same in both unit systems */
+const NAMED_MILESTONES_KM = [21.1, 42.2];
+
+/**
+ * Imperial milestones, keyed by miles. Imperial thresholds fall on whole
+ * miles (8.05 km, 16.09 km, …), so they never match the km keys above.
+ * Race distances point at their MILESTONE_NAMES entry, plain ones are null.
+ */
+const MILE_MILESTONES: Record<number, number | null> = {
+  5: null,
+  10: null,
+  13.1: 21.1,
+  20: null,
+  26.2: 42.2,
+};
+
 /**
  * Build milestone announcement. Returns null if threshold is not a known milestone.
+ * In imperial, plain distance milestones are spoken in miles ("3.1 miles"), and
+ * whole-mile thresholds are matched against MILE_MILESTONES.
  */
 export function buildMilestoneAnnouncement(
   language: AudioCoachLanguage,
   thresholdKm: number,
+  units: UnitSystem = 'metric',
 ): string | null {
-  const names = MILESTONE_NAMES[thresholdKm];
-  if (!names) return null;
-  const name = names[language] || names.en;
+  const spoken = toSpokenDistance(thresholdKm, units, 1);
+  // MILESTONE_NAMES key to speak, or null to say the distance in miles
+  let nameKey: number | null;
+  if (MILESTONE_NAMES[thresholdKm]) {
+    nameKey = units === 'imperial' && !NAMED_MILESTONES_KM.includes(thresholdKm) ? null : thresholdKm;
+  } else if (units === 'imperial' && spoken in MILE_MILESTONES) {
+    nameKey = MILE_MILESTONES[spoken];
+  } else {
+    return null;
+  }
+  const names = nameKey !== null ? MILESTONE_NAMES[nameKey] : null;
+  const name = names ? names[language] || names.en : formatUnits(spoken, language, units);
   const builder = milestoneTemplates[language] || milestoneTemplates.en;
   return builder(name);
 }
+
+// ─── Workout step cues ───────────────────────────────────────────────────────
+
+const METER_FORMS: Record<AudioCoachLanguage, PluralForms> = {
+  en: { one: 'meter',  many: 'meters' },
+  pl: { one: 'metr',   few: 'metry',  many: 'metrów' },
+  de: { one: 'Meter',  many: 'Meter'  },
+  fr: { one: 'mètre',  many: 'mètres' },
+  es: { one: 'metro',  many: 'metros' },
+  it: { one: 'metro',  many: 'metri'  },
+  pt: { one: 'metro',  many: 'metros' },
+};
+
+const STEP_NAMES: Record<AudioCoachLanguage, Record<WorkoutStepType, string>> = {
+  en: { warmup: 'Warm up',        work: 'Work',      recovery: 'Recovery',     cooldown: 'Cool down' },
+  pl: { warmup: 'Rozgrzewka',     work: 'Praca',     recovery: 'Odpoczynek',   cooldown: 'Schłodzenie' },
+  de: { warmup: 'Aufwärmen',      work: 'Belastung', recovery: 'Erholung',     cooldown: 'Auslaufen' },
+  fr: { warmup: 'Échauffement',   work: 'Effort',    recovery: 'Récupération', cooldown: 'Retour au calme' },
+  es: { warmup: 'Calentamiento',  work: 'Esfuerzo',  recovery: 'Recuperación', cooldown: 'Vuelta a la calma' },
+  it: { warmup: 'Riscaldamento',  work: 'Lavoro',    recovery: 'Recupero',     cooldown: 'Defaticamento' },
+  pt: { warmup: 'Aquecimento',    work: 'Esforço',   recovery: 'Recuperação',  cooldown: 'Desaquecimento' },
+};
+
+const workoutTemplates: Record<AudioCoachLanguage, {
+  repetition: (n: number, total: number) => string;
+  target: (fast: string, slow: string, per: string) => string;
+  complete: string;
+}> = {
+  en: { repetition: (n, total) => `${n} of ${total}`, target: (f, s, per) => `Target pace ${f} to ${s} ${per}.`,         complete: 'Workout complete. Well done!' },
+  pl: { repetition: (n, total) => `${n} z ${total}`,  target: (f, s, per) => `Tempo docelowe od ${f} do ${s} ${per}.`,  complete: 'Trening zakończony. Świetna robota!' },
+  de: { repetition: (n, total) => `${n} von ${total}`, target: (f, s, per) => `Zieltempo ${f} bis ${s} ${per}.`,         complete: 'Training beendet. Gut gemacht!' },
+  fr: { repetition: (n, total) => `${n} sur ${total}`, target: (f, s, per) => `Allure cible de ${f} à ${s} ${per}.`,     complete: 'Séance terminée. Bien joué!' },
+  es: { repetition: (n, total) => `${n} de ${total}`, target: (f, s, per) => `Ritmo objetivo de ${f} a ${s} ${per}.`,   complete: '¡Entrenamiento completado! ¡Buen trabajo!' },
+  it: { repetition: (n, total) => `${n} di ${total}`, target: (f, s, per) => `Ritmo obiettivo da ${f} a ${s} ${per}.`,  complete: 'Allenamento completato. Ottimo lavoro!' },
+  pt: { repetition: (n, total) => `${n} de ${total}`, target: (f, s, per) => `Ritmo alvo de ${f} a ${s} ${per}.`,       complete: 'Treino concluído. Bom trabalho!' },
+};
+
+/** "2 minutes 30 seconds" — nominative forms */
+function formatStepTime(totalSeconds: number, language: AudioCoachLanguage): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = Math.round(totalSeconds % 60);
+  const f = PACE_FORMS[language] ?? PACE_FORMS.en;
+  if (minutes === 0) return `${seconds} ${plur(seconds, f.sec)}`;
+  if (seconds === 0) return `${minutes} ${plur(minutes, f.min)}`;
+  return `${minutes} ${plur(minutes, f.min)} ${seconds} ${plur(seconds, f.sec)}`;
+}
+
+/** Short metric distances are spoken in meters; imperial always in miles */
+function formatStepDistance(meters: number, language: AudioCoachLanguage, units: UnitSystem): string {
+  if (units === 'metric' && meters < 1000) {
+    const rounded = Math.round(meters);
+    return `${rounded} ${plur(rounded, METER_FORMS[language] ?? METER_FORMS.en)}`;
+  }
+  return formatUnits(toSpokenDistance(meters / 1000, units), language, units);
+}
+
+/**
+ * Cue for the start of a workout step.
+ *
+ * Example (en): "Work 2 of 5. 400 meters. Target pace 4 minutes 30 seconds
+ * to 4 minutes 45 seconds per kilometer."
+ */
+export function buildWorkoutStepCue(
+  language: AudioCoachLanguage,
+  step: FlatWorkoutStep,
+  units: UnitSystem = 'metric',
+): string {
+  const tpl = workoutTemplates[language] || workoutTemplates.en;
+  const name = (STEP_NAMES[language] ?? STEP_NAMES.en)[step.type];
+  const heading = step.repeatCount > 1 ? `${name} ${tpl.repetition(step.repetition, step.repeatCount)}` : name;
+  const length = step.duration.type === 'time'
+    ? formatStepTime(step.duration.seconds, language)
+    : formatStepDistance(step.duration.meters, language, units);
+
+  let text = `${heading}. ${length}.`;
+  if (step.target) {
+    const fast = formatPace(toUnitPace(step.target.minSecPerKm / 60, units), language);
+    const slow = formatPace(toUnitPace(step.target.maxSecPerKm / 60, units), language);
+    text += ` ${tpl.target(fast, slow, PER_UNIT[units][language])}`;
+  }
+  return text;
+}
+
+export function buildWorkoutCompleteCue(language: AudioCoachLanguage): string {
+  return (workoutTemplates[language] || workoutTemplates.en).complete;
+}
+
+// ─── Target zone alerts ──────────────────────────────────────────────────────
+
+const zoneTemplates: Record<AudioCoachLanguage, {
+  paceFast: (pace: string, per: string) => string;
+  paceSlow: (pace: string, per: string) => string;
+  heartRateHigh: (bpm: number) => string;
+  heartRateLow: (bpm: number) => string;
+}> = {
+  en: {
+    paceFast: (p, per) => `Too fast. Pace ${p} ${per}. Ease off.`,
+    paceSlow: (p, per) => `Too slow. Pace ${p} ${per}. Pick it up.`,
+    heartRateHigh: (bpm) => `Heart rate ${bpm}, above your zone. Ease off.`,
+    heartRateLow: (bpm) => `Heart rate ${bpm}, below your zone. Pick it up.`,
+  },
+  pl: {
+    paceFast: (p, per) => `Za szybko. Tempo ${p} ${per}. Zwolnij.`,
+    paceSlow: (p, per) => `Za wolno. Tempo ${p} ${per}. Przyspiesz.`,
+    heartRateHigh: (bpm) => `Tętno ${bpm}, powyżej strefy. Zwolnij.`,
+    heartRateLow: (bpm) => `Tętno ${bpm}, poniżej strefy. Przyspiesz.`,
+  },
+  de: {
+    paceFast: (p, per) => `Zu schnell. Tempo ${p} ${per}. Langsamer.`,
+    paceSlow: (p, per) => `Zu langsam. Tempo ${p} ${per}. Schneller.`,
+    heartRateHigh: (bpm) => `Herzfrequenz ${bpm}, über deiner Zone. Langsamer.`,
+    heartRateLow: (bpm) => `Herzfrequenz ${bpm}, unter deiner Zone. Schneller.`,
+  },
+  fr: {
+    paceFast: (p, per) => `Trop rapide. Allure ${p} ${per}. Ralentis.`,
+    paceSlow: (p, per) => `Trop lent. Allure ${p} ${per}. Accélère.`,
+    heartRateHigh: (bpm) => `Fréquence cardiaque ${bpm}, au-dessus de ta zone. Ralentis.`,
+    heartRateLow: (bpm) => `Fréquence cardiaque ${bpm}, sous ta zone. Accélère.`,
+  },
+  es: {
+    paceFast: (p, per) => `Demasiado rápido. Ritmo ${p} ${per}. Afloja.`,
+    paceSlow: (p, per) => `Demasiado lento. Ritmo ${p} ${per}. Acelera.`,
+    heartRateHigh: (bpm) => `Frecuencia cardíaca ${bpm}, por encima de tu zona. Afloja.`,
+    heartRateLow: (bpm) => `Frecuencia cardíaca ${bpm}, por debajo de tu zona. Acelera.`,
+  },
+  it: {
+    paceFast: (p, per) => `Troppo veloce. Ritmo ${p} ${per}. Rallenta.`,
+    paceSlow: (p, per) => `Troppo lento. Ritmo ${p} ${per}. Accelera.`,
+    heartRateHigh: (bpm) => `Frequenza cardiaca ${bpm}, sopra la tua zona. Rallenta.`,
+    heartRateLow: (bpm) => `Frequenza cardiaca ${bpm}, sotto la tua zona. Accelera.`,
+  },
+  pt: {
+    paceFast: (p, per) => `Rápido demais. Ritmo ${p} ${per}. Abrande.`,
+    paceSlow: (p, per) => `Lento demais. Ritmo ${p} ${per}. Acelere.`,
+    heartRateHigh: (bpm) => `Frequência cardíaca ${bpm}, acima da sua zona. Abrande.`,
+    heartRateLow: (bpm) => `Frequência cardíaca ${bpm}, abaixo da sua zona. Acelere.`,
+  },
+};
+
+/** Example (en): "Too fast. Pace 4 minutes 10 seconds per kilometer. Ease off." */
+export function buildPaceZoneCue(
+  language: AudioCoachLanguage,
+  status: Exclude<WorkoutPaceStatus, 'on_target'>,
+  paceSecPerKm: number,
+  units: UnitSystem = 'metric'
+): string {
+  const tpl = zoneTemplates[language] || zoneTemplates.en;
+  const pace = formatPace(toUnitPace(paceSecPerKm / 60, units), language);
+  const per = PER_UNIT[units][language];
+  return status === 'fast' ? tpl.paceFast(pace, per) : tpl.paceSlow(pace, per);
+}
+
+export function buildHeartRateZoneCue(
+  language: AudioCoachLanguage,
+  status: Exclude<HeartRateZoneStatus, 'in_zone'>,
+  bpm: number
+): string {
+  const tpl = zoneTemplates[language] || zoneTemplates.en;
+  return status === 'high' ? tpl.heartRateHigh(Math.round(bpm)) : tpl.heartRateLow(Math.round(bpm));
+}
+
+// ─── Lap announcements ───────────────────────────────────────────────────────
+
+const lapTemplates: Record<AudioCoachLanguage, {
+  lap: (n: number) => string;
+  pace: (pace: string, per: string) => string;
+}> = {
+  en: { lap: (n) => `Lap ${n}`,         pace: (p, per) => `Pace ${p} ${per}.` },
+  pl: { lap: (n) => `Okrążenie ${n}`,   pace: (p, per) => `Tempo ${p} ${per}.` },
+  de: { lap: (n) => `Runde ${n}`,       pace: (p, per) => `Tempo ${p} ${per}.` },
+  fr: { lap: (n) => `Tour ${n}`,        pace: (p, per) => `Allure ${p} ${per}.` },
+  es: { lap: (n) => `Vuelta ${n}`,      pace: (p, per) => `Ritmo ${p} ${per}.` },
+  it: { lap: (n) => `Giro ${n}`,        pace: (p, per) => `Ritmo ${p} ${per}.` },
+  pt: { lap: (n) => `Volta ${n}`,       pace: (p, per) => `Ritmo ${p} ${per}.` },
+};
+
+/**
+ * Summary of a finished lap.
+ *
+ * Example (en): "Lap 3. 4 minutes 52 seconds. 1 kilometer. Pace 4 minutes
+ * 52 seconds per kilometer."
+ */
+export function buildLapCue(
+  language: AudioCoachLanguage,
+  lapNumber: number,
+  elapsedSeconds: number,
+  distanceMeters: number,
+  paceSecPerKm: number | null,
+  units: UnitSystem = 'metric'
+): string {
+  const tpl = lapTemplates[language] || lapTemplates.en;
+  let text = `${tpl.lap(lapNumber)}. ${formatStepTime(elapsedSeconds, language)}. ${formatStepDistance(distanceMeters, language, units)}.`;
+  if (paceSecPerKm !== null) {
+    text += ` ${tpl.pace(formatPace(toUnitPace(paceSecPerKm / 60, units), language), PER_UNIT[units][language])}`;
+  }
+  return text;
+}
+
+// ─── Re-routing ──────────────────────────────────────────────────────────────
+
+/** Compass points, clockwise from north in 45° steps */
+const COMPASS_NAMES: Record<AudioCoachLanguage, string[]> = {
+  en: ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'],
+  pl: ['północ', 'północny wschód', 'wschód', 'południowy wschód', 'południe', 'południowy zachód', 'zachód', 'północny zachód'],
+  de: ['Norden', 'Nordosten', 'Osten', 'Südosten', 'Süden', 'Südwesten', 'Westen', 'Nordwesten'],
+  fr: ['nord', 'nord-est', 'est', 'sud-est', 'sud', 'sud-ouest', 'ouest', 'nord-ouest'],
+  es: ['norte', 'noreste', 'este', 'sureste', 'sur', 'suroeste', 'oeste', 'noroeste'],
+  it: ['nord', 'nord-est', 'est', 'sud-est', 'sud', 'sud-ovest', 'ovest', 'nord-ovest'],
+  pt: ['norte', 'nordeste', 'leste', 'sudeste', 'sul', 'sudoeste', 'oeste', 'noroeste'],
+};
+
+const rejoinTemplates: Record<AudioCoachLanguage, {
+  routed: (distance: string) => string;
+  direct: (direction: string, distance: string) => string;
+}> = {
+  en: { routed: (d) => `Rerouting. Rejoin the route in ${d}.`,                      direct: (dir, d) => `Head ${dir} for ${d} to rejoin the route.` },
+  pl: { routed: (d) => `Wyznaczam nową trasę. Powrót na trasę za ${d}.`,            direct: (dir, d) => `Kieruj się na ${dir}. Do trasy ${d}.` },
+  de: { routed: (d) => `Neue Route. Zurück zur Strecke in ${d}.`,                   direct: (dir, d) => `Richtung ${dir}. Noch ${d} bis zur Strecke.` },
+  fr: { routed: (d) => `Nouvel itinéraire. Rejoignez le parcours dans ${d}.`,       direct: (dir, d) => `Dirigez-vous vers le ${dir} sur ${d} pour rejoindre le parcours.` },
+  es: { routed: (d) => `Recalculando. Vuelve a la ruta en ${d}.`,                   direct: (dir, d) => `Dirígete al ${dir} durante ${d} para volver a la ruta.` },
+  it: { routed: (d) => `Ricalcolo del percorso. Rientra nel percorso tra ${d}.`,    direct: (dir, d) => `Vai verso ${dir} per ${d} per rientrare nel percorso.` },
+  pt: { routed: (d) => `A recalcular. Volte à rota em ${d}.`,                       direct: (dir, d) => `Siga para ${dir} durante ${d} para voltar à rota.` },
+};
+
+/**
+ * Guidance back to the planned route after going off route. With a routed
+ * path the first instruction of that path is appended; without one (offline)
+ * the cue gives the compass direction of the rejoin point.
+ *
+ * Example (en): "Rerouting. Rejoin the route in 350 meters. Turn left onto Main Street."
+ * Example (en, offline): "Head north-east for 120 meters to rejoin the route."
+ */
+export function buildRejoinCue(
+  language: AudioCoachLanguage,
+  distanceMeters: number,
+  rejoin: { bearing: number } | { firstInstruction: string | null },
+  units: UnitSystem = 'metric'
+): string {
+  const tpl = rejoinTemplates[language] || rejoinTemplates.en;
+  const distance = formatStepDistance(distanceMeters, language, units);
+  if ('bearing' in rejoin) {
+    const names = COMPASS_NAMES[language] ?? COMPASS_NAMES.en;
+    return tpl.direct(names[Math.round(rejoin.bearing / 45) % 8], distance);
+  }
+  return rejoin.firstInstruction ? `${tpl.routed(distance)} ${rejoin.firstInstruction}` : tpl.routed(distance);
+}
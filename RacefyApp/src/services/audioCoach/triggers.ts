@@ -0,0 +1,59 @@
+import type { AudioCoachSettings } from '../../types/audioCoach';
+import { DEFAULT_AUDIO_COACH_SETTINGS } from '../../types/audioCoach';
+
+// ─── Announcement triggers ───────────────────────────────────────────────────
+// Shared by the foreground hook (useAudioCoach) and the headless background
+// task so both decide on exactly the same thresholds. Each side persists the
+// last announced threshold under a shared AsyncStorage key to deduplicate.
+
+type TriggerSettings = Pick<
+  AudioCoachSettings,
+  'triggerMode' | 'intervalKm' | 'customDistancesKm' | 'intervalMinutes'
+>;
+
+/** Fill trigger fields missing from settings persisted by older app versions */
+export function resolveTriggerSettings(settings: Partial<AudioCoachSettings> | null | undefined): TriggerSettings {
+  return {
+    triggerMode: settings?.triggerMode ?? DEFAULT_AUDIO_COACH_SETTINGS.triggerMode,
+    intervalKm: settings?.intervalKm || DEFAULT_AUDIO_COACH_SETTINGS.intervalKm,
+    customDistancesKm: settings?.customDistancesKm ?? DEFAULT_AUDIO_COACH_SETTINGS.customDistancesKm,
+    intervalMinutes: settings?.intervalMinutes || DEFAULT_AUDIO_COACH_SETTINGS.intervalMinutes,
+  };
+}
+
+export function hasDistanceTrigger(settings: TriggerSettings): boolean {
+  return settings.triggerMode !== 'time';
+}
+
+export function hasTimeTrigger(settings: TriggerSettings): boolean {
+  return settings.triggerMode !== 'distance' && settings.intervalMinutes > 0;
+}
+
+/**
+ * Highest distance threshold (km) crossed so far, or 0 if none.
+ * Uses the custom distance list when set, otherwise multiples of intervalKm.
+ * Both are kilometres in every unit system — a 1 mi interval is stored as
+ * 1.609344 km — so the synced setting means the same distance everywhere.
+ */
+export function getDistanceThreshold(settings: TriggerSettings, totalDistanceKm: number): number {
+  if (!hasDistanceTrigger(settings) || totalDistanceKm <= 0) return 0;
+
+  if (settings.customDistancesKm.length > 0) {
+    return settings.customDistancesKm.reduce(
+      (best, km) => (km <= totalDistanceKm && km > best ? km : best),
+      0,
+    );
+  }
+
+  if (settings.intervalKm <= 0) return 0;
+  // Round to avoid float drift with fractional intervals (0.5 * 3 = 1.5000000000000002)
+  const threshold = Math.floor(totalDistanceKm / settings.intervalKm) * settings.intervalKm;
+  return Math.round(threshold * 1e6) / 1e6;
+}
+
+/** Highest time threshold (whole minutes) crossed so far, or 0 if none */
+export function getTimeThreshold(settings: TriggerSettings, elapsedSeconds: number): number {
+  if (!hasTimeTrigger(settings) || elapsedSeconds <= 0) return 0;
+  const elapsedMinutes = elapsedSeconds / 60;
+  return Math.floor(elapsedMinutes / settings.intervalMinutes) * settings.intervalMinutes;
+}
@@ -0,0 +1,32 @@
+/**
+ * Auto-lap preference
+ *
+ * How laps are split automatically during a recording. Kept on the device
+ * so the choice carries over between activities.
+ *
+ * Schema in AsyncStorage:
+ *   `@racefy:auto_lap`   -> JSON AutoLapSettings
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {logger} from './logger';
+import {DEFAULT_AUTO_LAP_SETTINGS} from '../utils/laps';
+import type {AutoLapSettings} from '../types/lap';
+
+const AUTO_LAP_KEY = '@racefy:auto_lap';
+
+export async function getAutoLapSettings(): Promise<AutoLapSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(AUTO_LAP_KEY);
+    if (!raw) return DEFAULT_AUTO_LAP_SETTINGS;
+    return {...DEFAULT_AUTO_LAP_SETTINGS, ...JSON.parse(raw)};
+  } catch (err) {
+    logger.warn('activity', 'Failed to read auto-lap settings', {error: err});
+    return DEFAULT_AUTO_LAP_SETTINGS;
+  }
+}
+
+export async function saveAutoLapSettings(settings: AutoLapSettings): Promise<void> {
+  await AsyncStorage.setItem(AUTO_LAP_KEY, JSON.stringify(settings));
+  logger.info('activity', 'Saved auto-lap settings', {...settings});
+}
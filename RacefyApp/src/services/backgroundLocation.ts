@@ -3,9 +3,22 @@ import * as Location from 'expo-location';
 import * as Speech from 'expo-speech';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {logger} from './logger';
-import {buildAnnouncementText, buildMilestoneAnnouncement} from './audioCoach/templates';
-import type {GpsProfile} from '../config/gpsProfiles';
+import {buildAnnouncementText, buildMilestoneAnnouncement, buildTimeAnnouncementText} from './audioCoach/templates';
+import {getDistanceThreshold, getTimeThreshold, resolveTriggerSettings} from './audioCoach/triggers';
+import type {UnitSystem} from '../utils/unitConversions';
+import {DEFAULT_GPS_PROFILE, type GpsProfile} from '../config/gpsProfiles';
 import {syncPointsToServer} from './backgroundApiClient';
+import {createTrackProcessor, type TrackProcessorState, type TrackRejectionReason} from '../utils/trackProcessor';
+import {
+  appendBufferPoints,
+  clearBufferPoints,
+  clearSyncCursor,
+  countBufferPoints,
+  getSyncCursor,
+  readBufferPoints,
+  replaceBufferPoints,
+  setSyncCursor,
+} from './trackStore';
 
 export const BACKGROUND_LOCATION_TASK = 'background-location-task';
 
@@ -14,13 +27,13 @@ let backgroundSyncTimer: NodeJS.Timeout | null = null;
 
 // Log task registration at module load time for debugging
 console.log('[BackgroundLocation] Module loaded, will define task:', BACKGROUND_LOCATION_TASK);
-const LOCATION_BUFFER_KEY = '@racefy_location_buffer';
-const FOREGROUND_BUFFER_KEY = '@racefy_foreground_buffer'; // Persisted foreground points
+// GPS buffers and the background sync cursor live in the track store (SQLite)
 const ACTIVE_ACTIVITY_KEY = '@racefy_active_activity_id';
 const GPS_PROFILE_KEY = '@racefy_gps_profile';
 const LAST_BACKGROUND_POSITION_KEY = '@racefy_last_bg_position';
 const LAST_SYNC_STATUS_KEY = '@racefy_last_sync_status';
-const BACKGROUND_SYNC_STATE_KEY = '@racefy_bg_sync_state';
+const BACKGROUND_SYNC_CURSOR = 'background';
+const BACKGROUND_TRACK_STATE_KEY = '@racefy_bg_track_state'; // Track processor state between task runs
 
 // Default thresholds - will be overridden by stored profile
 const DEFAULT_GPS_ACCURACY_THRESHOLD = 25;
@@ -37,32 +50,23 @@ export interface BufferedLocation {
   accuracy?: number;
 }
 
-// Helper to get stored GPS profile
-async function getStoredGpsProfile(): Promise<{
-  accuracyThreshold: number;
-  minDistanceThreshold: number;
-  maxRealisticSpeed: number;
-  stationarySpeedThreshold: number;
-  backgroundSyncInterval?: number;
-  backgroundSyncEnabled?: boolean;
-}> {
+// Helper to get stored GPS profile (falls back to background defaults)
+async function getStoredGpsProfile(): Promise<GpsProfile> {
   try {
     const profileJson = await AsyncStorage.getItem(GPS_PROFILE_KEY);
     if (profileJson) {
-      const profile = JSON.parse(profileJson) as GpsProfile;
+      const profile = JSON.parse(profileJson) as Partial<GpsProfile>;
       return {
-        accuracyThreshold: profile.accuracyThreshold,
-        minDistanceThreshold: profile.minDistanceThreshold,
-        maxRealisticSpeed: profile.maxRealisticSpeed,
+        ...DEFAULT_GPS_PROFILE,
+        ...profile,
         stationarySpeedThreshold: profile.stationarySpeedThreshold ?? DEFAULT_STATIONARY_SPEED_THRESHOLD,
-        backgroundSyncInterval: profile.backgroundSyncInterval,
-        backgroundSyncEnabled: profile.backgroundSyncEnabled,
       };
     }
   } catch {
     // Ignore errors, use default
   }
   return {
+    ...DEFAULT_GPS_PROFILE,
     accuracyThreshold: DEFAULT_GPS_ACCURACY_THRESHOLD,
     minDistanceThreshold: DEFAULT_MIN_DISTANCE_THRESHOLD,
     maxRealisticSpeed: DEFAULT_MAX_REALISTIC_SPEED,
@@ -70,27 +74,6 @@ async function getStoredGpsProfile(): Promise<{
   };
 }
 
-// Haversine formula to calculate distance between two coordinates
-function calculateDistanceBetweenCoords(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-}
-
 // Get and set last background position for distance filtering
 export interface LastPosition {
   lat: number;
@@ -115,6 +98,24 @@ async function clearLastBackgroundPosition(): Promise<void> {
   await AsyncStorage.removeItem(LAST_BACKGROUND_POSITION_KEY);
 }
 
+// Track processor state persisted between headless task invocations
+async function getBackgroundTrackState(): Promise<TrackProcessorState | null> {
+  try {
+    const json = await AsyncStorage.getItem(BACKGROUND_TRACK_STATE_KEY);
+    return json ? JSON.parse(json) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function setBackgroundTrackState(state: TrackProcessorState): Promise<void> {
+  await AsyncStorage.setItem(BACKGROUND_TRACK_STATE_KEY, JSON.stringify(state));
+}
+
+async function clearBackgroundTrackState(): Promise<void> {
+  await AsyncStorage.removeItem(BACKGROUND_TRACK_STATE_KEY);
+}
+
 // ============================================
 // BACKGROUND SYNC LOGIC
 // Periodically syncs buffered GPS points to server
@@ -128,13 +129,18 @@ async function performBackgroundSync(): Promise<void> {
       logger.gps('Background sync: No active activity');
       return;
     }
+    if (activityId < 0) {
+      // Recorded offline (client-side ID) — the foreground uploads once the server activity exists
+      logger.gps('Background sync: Local activity, keeping points buffered');
+      return;
+    }
 
     // Get sync state
     const syncState = await getBackgroundSyncState();
 
-    // Get buffer and calculate unsynced points
-    const buffer = await getLocationBuffer();
-    const unsyncedPoints = buffer.slice(syncState.syncedPointsCount);
+    // Read only the points after the sync cursor
+    const unsyncedPoints = await getLocationBuffer(syncState.syncedPointsCount);
+    const totalBuffered = syncState.syncedPointsCount + unsyncedPoints.length;
 
     if (unsyncedPoints.length === 0) {
       logger.gps('Background sync: No new points to sync');
@@ -152,11 +158,11 @@ async function performBackgroundSync(): Promise<void> {
       await updateBackgroundSyncState({
         lastSyncSuccess: Date.now(),
         lastSyncAttempt: Date.now(),
-        syncedPointsCount: buffer.length,
+        syncedPointsCount: totalBuffered,
         consecutiveFailures: 0,
         totalPointsSynced: syncState.totalPointsSynced + unsyncedPoints.length,
       });
-      logger.gps(`Background sync: SUCCESS (${unsyncedPoints.length} points synced, total: ${buffer.length})`);
+      logger.gps(`Background sync: SUCCESS (${unsyncedPoints.length} points synced, total: ${totalBuffered})`);
     } else {
       // Update failure count
       await updateBackgroundSyncState({
@@ -175,13 +181,16 @@ async function performBackgroundSync(): Promise<void> {
 // ============================================
 // AUDIO COACH — BACKGROUND ANNOUNCEMENTS
 // Runs inside the headless JS task, independent of React.
-// Tracks accumulated distance and speaks at km thresholds.
+// Tracks accumulated distance/time and speaks at distance and/or time thresholds.
 // ============================================
 
 const BG_AUDIO_DISTANCE_KEY = '@racefy:audioCoach:bgDistance';
 const BG_AUDIO_THRESHOLD_KEY = '@racefy:audioCoach:bgLastThreshold';
+const BG_AUDIO_TIME_THRESHOLD_KEY = '@racefy:audioCoach:bgLastTimeThreshold'; // whole minutes
+const BG_AUDIO_ELAPSED_KEY = '@racefy:audioCoach:bgElapsed'; // JSON { elapsedSeconds, syncedAt } from foreground
 const BG_AUDIO_START_TIME_KEY = '@racefy:audioCoach:bgStartTime';
 const AUDIO_COACH_SETTINGS_KEY = '@racefy:audioCoach:settings';
+const UNITS_KEY = '@racefy_units'; // same as useUnits.tsx
 const BG_AUDIO_SIM_KEY = '@racefy:audioCoach:bgSimStartTime'; // DEV sim mode
 const BG_AUDIO_MILESTONES_KEY = '@racefy:audioCoach:bgMilestones'; // JSON array of unachieved thresholds (km)
 const BG_AUDIO_PASSED_MILESTONES_KEY = '@racefy:audioCoach:bgPassedMilestones'; // JSON array of already announced
@@ -217,9 +226,10 @@ async function handleAudioCoachBackground(distanceAddedM: number): Promise<void>
     // Use defaults if settings not available (sim mode without configured settings)
     const language = settings?.language || 'pl';
     const style = settings?.style || 'neutral';
-    const intervalKm = settings?.intervalKm || 1;
+    const triggers = resolveTriggerSettings(settings);
     const speechRate = settings?.speechRate || 1.0;
     const speechPitch = settings?.speechPitch || 1.0;
+    const units: UnitSystem = (await AsyncStorage.getItem(UNITS_KEY)) === 'imperial' ? 'imperial' : 'metric';
 
     // Calculate distance
     let totalDistM: number;
@@ -234,24 +244,69 @@ async function handleAudioCoachBackground(distanceAddedM: number): Promise<void>
     }
     await AsyncStorage.setItem(BG_AUDIO_DISTANCE_KEY, totalDistM.toString());
 
-    // Check threshold
+    // Check thresholds
     const lastThresholdStr = await AsyncStorage.getItem(BG_AUDIO_THRESHOLD_KEY);
     const lastThreshold = lastThresholdStr ? parseFloat(lastThresholdStr) : 0;
+    const lastMinuteStr = await AsyncStorage.getItem(BG_AUDIO_TIME_THRESHOLD_KEY);
+    const lastMinute = lastMinuteStr ? parseFloat(lastMinuteStr) : 0;
+
+    // Elapsed time: continue from the foreground moving time when synced,
+    // otherwise fall back to wall time since tracking started
+    const elapsedJson = await AsyncStorage.getItem(BG_AUDIO_ELAPSED_KEY);
+    let elapsedSec: number;
+    if (elapsedJson) {
+      const synced: { elapsedSeconds: number; syncedAt: number } = JSON.parse(elapsedJson);
+      elapsedSec = synced.elapsedSeconds + (Date.now() - synced.syncedAt) / 1000;
+    } else {
+      const startTimeStr = await AsyncStorage.getItem(BG_AUDIO_START_TIME_KEY);
+      const startTime = startTimeStr ? parseInt(startTimeStr, 10) : Date.now();
+      elapsedSec = (Date.now() - startTime) / 1000;
+    }
 
     const totalDistKm = totalDistM / 1000;
-    const currentThreshold = Math.floor(totalDistKm / intervalKm) * intervalKm;
+    const currentThreshold = getDistanceThreshold(triggers, totalDistKm);
+    const currentMinute = getTimeThreshold(triggers, elapsedSec);
+    const isNewDistance = currentThreshold > lastThreshold;
+    const isNewMinute = currentMinute > lastMinute;
 
-    if (currentThreshold <= 0 || currentThreshold <= lastThreshold) return;
+    if (!isNewDistance && !isNewMinute) return;
+
+    // Calculate average pace (min/km) from elapsed time
+    const paceMinPerKm = totalDistKm > 0 ? elapsedSec / 60 / totalDistKm : 0;
+
+    // Minute crossed — same rule as the foreground hook: a coinciding
+    // distance announcement covers it, so only mark it as announced
+    if (isNewMinute) {
+      await AsyncStorage.setItem(BG_AUDIO_TIME_THRESHOLD_KEY, currentMinute.toString());
+
+      if (!isNewDistance) {
+        logger.info('audioCoach', 'BG time threshold crossed, speaking', {
+          minutes: currentMinute,
+          totalDistM: Math.round(totalDistM),
+          sim: isSimMode,
+        });
+        Speech.speak(
+          buildTimeAnnouncementText({
+            language,
+            style,
+            minutes: currentMinute,
+            km: totalDistKm,
+            pace: isSimMode ? 5.5 : paceMinPerKm,
+            units,
+          }),
+          {
+            language: SPEECH_LANG_MAP[language] || 'en-US',
+            rate: speechRate,
+            pitch: speechPitch,
+          },
+        );
+        return;
+      }
+    }
 
     // Threshold crossed!
     await AsyncStorage.setItem(BG_AUDIO_THRESHOLD_KEY, currentThreshold.toString());
 
-    // Calculate average pace (min/km) from elapsed time
-    const startTimeStr = await AsyncStorage.getItem(BG_AUDIO_START_TIME_KEY);
-    const startTime = startTimeStr ? parseInt(startTimeStr, 10) : Date.now();
-    const elapsedMin = (Date.now() - startTime) / 60000;
-    const paceMinPerKm = totalDistKm > 0 ? elapsedMin / totalDistKm : 0;
-
     const text = buildAnnouncementText({
       language,
       style,
@@ -259,6 +314,7 @@ async function handleAudioCoachBackground(distanceAddedM: number): Promise<void>
       pace: isSimMode ? 5.5 : paceMinPerKm, // Sim uses fixed pace
       heartRate: undefined,
       splitDelta: undefined,
+      units,
     });
 
     logger.info('audioCoach', 'BG threshold crossed, speaking', {
@@ -287,7 +343,7 @@ async function handleAudioCoachBackground(distanceAddedM: number): Promise<void>
 
         for (const threshold of thresholds) {
           if (totalDistKm >= threshold && !passed.includes(threshold)) {
-            const milestoneText = buildMilestoneAnnouncement(language, threshold);
+            const milestoneText = buildMilestoneAnnouncement(language, threshold, units);
             if (milestoneText) {
               passed.push(threshold);
               await AsyncStorage.setItem(BG_AUDIO_PASSED_MILESTONES_KEY, JSON.stringify(passed));
@@ -318,6 +374,8 @@ export async function clearAudioCoachBackgroundState(): Promise<void> {
   await Promise.all([
     AsyncStorage.removeItem(BG_AUDIO_DISTANCE_KEY),
     AsyncStorage.removeItem(BG_AUDIO_THRESHOLD_KEY),
+    AsyncStorage.removeItem(BG_AUDIO_TIME_THRESHOLD_KEY),
+    AsyncStorage.removeItem(BG_AUDIO_ELAPSED_KEY),
     AsyncStorage.removeItem(BG_AUDIO_START_TIME_KEY),
     AsyncStorage.removeItem(BG_AUDIO_MILESTONES_KEY),
     AsyncStorage.removeItem(BG_AUDIO_PASSED_MILESTONES_KEY),
@@ -338,19 +396,51 @@ export async function initAudioCoachBackgroundState(): Promise<void> {
   await AsyncStorage.setItem(BG_AUDIO_START_TIME_KEY, Date.now().toString());
   await AsyncStorage.setItem(BG_AUDIO_DISTANCE_KEY, '0');
   await AsyncStorage.setItem(BG_AUDIO_THRESHOLD_KEY, '0');
+  await AsyncStorage.setItem(BG_AUDIO_TIME_THRESHOLD_KEY, '0');
+  await AsyncStorage.removeItem(BG_AUDIO_ELAPSED_KEY);
 }
 
 /**
- * Sync foreground distance to background audio coach state.
+ * Sync foreground distance (and moving time) to background audio coach state.
  * Called when app transitions to background so that the background task
  * continues accumulating from the correct total distance instead of
- * only counting distance from previous background sessions.
+ * only counting distance from previous background sessions, and so
+ * time-based announcements don't count paused time.
  */
-export async function syncAudioCoachForegroundDistance(totalDistanceM: number): Promise<void> {
+export async function syncAudioCoachForegroundDistance(
+  totalDistanceM: number,
+  elapsedSeconds?: number,
+): Promise<void> {
   try {
     await AsyncStorage.setItem(BG_AUDIO_DISTANCE_KEY, totalDistanceM.toString());
+    if (elapsedSeconds !== undefined) {
+      await AsyncStorage.setItem(
+        BG_AUDIO_ELAPSED_KEY,
+        JSON.stringify({ elapsedSeconds, syncedAt: Date.now() }),
+      );
+
+      // Foreground has already announced everything crossed so far — mark it,
+      // since (re)starting the background task resets the stored thresholds
+      const settingsJson = await AsyncStorage.getItem(AUDIO_COACH_SETTINGS_KEY);
+      const triggers = resolveTriggerSettings(settingsJson ? JSON.parse(settingsJson) : null);
+      const [[, lastDist], [, lastMinute]] = await AsyncStorage.multiGet([
+        BG_AUDIO_THRESHOLD_KEY,
+        BG_AUDIO_TIME_THRESHOLD_KEY,
+      ]);
+      await AsyncStorage.multiSet([
+        [BG_AUDIO_THRESHOLD_KEY, Math.max(
+          lastDist ? parseFloat(lastDist) : 0,
+          getDistanceThreshold(triggers, totalDistanceM / 1000),
+        ).toString()],
+        [BG_AUDIO_TIME_THRESHOLD_KEY, Math.max(
+          lastMinute ? parseFloat(lastMinute) : 0,
+          getTimeThreshold(triggers, elapsedSeconds),
+        ).toString()],
+      ]);
+    }
     logger.info('audioCoach', 'Synced foreground distance to background', {
       totalDistanceM: Math.round(totalDistanceM),
+      elapsedSeconds,
     });
   } catch (err) {
     logger.error('audioCoach', 'Failed to sync foreground distance', { error: err });
@@ -378,107 +468,68 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
 
     if (locations && locations.length > 0) {
       try {
-        // Get GPS profile settings
+        // Continue the track processor where the previous task run left off
         const profile = await getStoredGpsProfile();
-        const { accuracyThreshold, minDistanceThreshold, maxRealisticSpeed, stationarySpeedThreshold } = profile;
-
-        // Get existing buffer and last position
-        const existingBuffer = await getLocationBuffer();
-        let lastPosition = await getLastBackgroundPosition();
+        const processor = createTrackProcessor(
+          profile,
+          (await getBackgroundTrackState()) ?? undefined,
+          'background'
+        );
+        if (!processor.getLastPosition()) {
+          const lastPosition = await getLastBackgroundPosition();
+          if (lastPosition) processor.seedPosition(lastPosition);
+        }
 
         const newPoints: BufferedLocation[] = [];
-        let filteredByAccuracy = 0;
-        let filteredByDistance = 0;
-        let filteredBySpeed = 0;
+        const filtered: Partial<Record<TrackRejectionReason, number>> = {};
+        let filteredCount = 0;
         let audioCoachDistAdded = 0; // Track distance for audio coach
 
         for (const location of locations) {
-          // Filter by accuracy
-          const accuracy = location.coords.accuracy;
-          if (accuracy && accuracy > accuracyThreshold) {
-            logger.gps(`Background: Filtered inaccurate (${accuracy?.toFixed(1)}m > ${accuracyThreshold}m)`);
-            filteredByAccuracy++;
-            continue;
-          }
-
-          const lat = location.coords.latitude;
-          const lng = location.coords.longitude;
-          const timestamp = location.timestamp;
-
-          // Stationary detection: if GPS reports very low speed, use stricter distance threshold
-          const gpsSpeed = location.coords.speed;
-          const isLikelyStationary = gpsSpeed !== null && gpsSpeed !== undefined && gpsSpeed < stationarySpeedThreshold;
-          const effectiveMinDistance = isLikelyStationary
-            ? Math.max(minDistanceThreshold, 8) // At least 8m when stationary
-            : minDistanceThreshold;
-
-          // Filter by distance and speed if we have a previous position
-          if (lastPosition) {
-            const distance = calculateDistanceBetweenCoords(
-              lastPosition.lat,
-              lastPosition.lng,
-              lat,
-              lng
-            );
-
-            // Filter small movements (GPS drift)
-            if (distance < effectiveMinDistance) {
-              logger.gps(`Background: Filtered small movement (${distance.toFixed(1)}m < ${effectiveMinDistance}m${isLikelyStationary ? ' stationary' : ''})`);
-              filteredByDistance++;
-              continue;
-            }
-
-            // Calculate implied speed and filter unrealistic speeds
-            const timeDiff = (timestamp - lastPosition.timestamp) / 1000; // seconds
-            if (timeDiff > 0) {
-              const impliedSpeed = distance / timeDiff; // m/s
-              if (impliedSpeed > maxRealisticSpeed) {
-                logger.gps(`Background: Filtered GPS glitch (${(impliedSpeed * 3.6).toFixed(1)} km/h > ${(maxRealisticSpeed * 3.6).toFixed(0)} km/h max)`);
-                filteredBySpeed++;
-                continue;
-              }
-            }
-          }
-
-          // Track distance for audio coach (before updating lastPosition)
-          if (lastPosition) {
-            audioCoachDistAdded += calculateDistanceBetweenCoords(
-              lastPosition.lat, lastPosition.lng, lat, lng,
-            );
-          }
-
-          // Point passed all filters, add it
-          newPoints.push({
-            lat,
-            lng,
+          const point: BufferedLocation = {
+            lat: location.coords.latitude,
+            lng: location.coords.longitude,
             ele: location.coords.altitude ?? undefined,
-            time: new Date(timestamp).toISOString(),
+            time: new Date(location.timestamp).toISOString(),
             speed: location.coords.speed != null && location.coords.speed >= 0 ? location.coords.speed : undefined,
             accuracy: location.coords.accuracy ?? undefined,
-          });
+          };
+          const result = processor.process(point);
+
+          if (!result.accepted) {
+            logger.gps(`Background: Filtered ${result.reason}`, result.details);
+            filtered[result.reason] = (filtered[result.reason] ?? 0) + 1;
+            filteredCount++;
+            continue;
+          }
 
-          // Update last position for next iteration
-          lastPosition = { lat, lng, timestamp };
+          // Point passed all filters, add it
+          audioCoachDistAdded += result.distance;
+          newPoints.push(point);
         }
 
-        // Save last position for next background task execution
+        // Save processor state and last position for next background task execution
+        await setBackgroundTrackState(processor.getState());
+        const lastPosition = processor.getLastPosition();
         if (lastPosition) {
-          await setLastBackgroundPosition(lastPosition);
+          await setLastBackgroundPosition({
+            lat: lastPosition.lat,
+            lng: lastPosition.lng,
+            timestamp: lastPosition.timestamp,
+          });
         }
 
         if (newPoints.length > 0) {
-          // Add to buffer
-          const updatedBuffer = [...existingBuffer, ...newPoints];
-          await saveLocationBuffer(updatedBuffer);
+          // Append to buffer
+          await appendLocationBuffer(newPoints);
 
-          logger.gps(`Background: Added ${newPoints.length} points, total: ${updatedBuffer.length}`, { filteredByAccuracy, filteredByDistance, filteredBySpeed });
+          logger.gps(`Background: Added ${newPoints.length} points, total: ${await countLocationBuffer()}`, filtered);
 
           // Initialize background sync timer on first GPS update if not already running
           if (!backgroundSyncTimer) {
-            const profile = await getStoredGpsProfile();
             // Check if background sync is enabled for this profile
-            const syncEnabled = (profile as any).backgroundSyncEnabled ?? true;
-            const syncInterval = (profile as any).backgroundSyncInterval ?? 240000; // Default: 4 minutes
+            const syncEnabled = profile.backgroundSyncEnabled ?? true;
+            const syncInterval = profile.backgroundSyncInterval ?? 240000; // Default: 4 minutes
 
             if (syncEnabled) {
               logger.gps(`Background sync: Initializing timer (interval: ${syncInterval / 1000}s)`);
@@ -489,8 +540,8 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
               logger.gps('Background sync: Disabled by GPS profile');
             }
           }
-        } else if (filteredByAccuracy + filteredByDistance + filteredBySpeed > 0) {
-          logger.gps(`Background: All ${locations.length} points filtered`, { filteredByAccuracy, filteredByDistance, filteredBySpeed });
+        } else if (filteredCount > 0) {
+          logger.gps(`Background: All ${locations.length} points filtered`, filtered);
         }
 
         // Audio coach: always check (works for both real GPS and sim mode)
@@ -510,21 +561,34 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
 console.log('[BackgroundLocation] Task defined successfully:', BACKGROUND_LOCATION_TASK);
 
 // Helper functions for managing the location buffer
-export async function getLocationBuffer(): Promise<BufferedLocation[]> {
+// Reads from `fromIndex` on, so callers holding a sync cursor skip synced points
+export async function getLocationBuffer(fromIndex: number = 0): Promise<BufferedLocation[]> {
   try {
-    const buffer = await AsyncStorage.getItem(LOCATION_BUFFER_KEY);
-    return buffer ? JSON.parse(buffer) : [];
+    return (await readBufferPoints('background', fromIndex)) as BufferedLocation[];
   } catch {
     return [];
   }
 }
 
+export async function appendLocationBuffer(points: BufferedLocation[]): Promise<void> {
+  await appendBufferPoints('background', points);
+}
+
+export async function countLocationBuffer(): Promise<number> {
+  try {
+    return await countBufferPoints('background');
+  } catch {
+    return 0;
+  }
+}
+
+// Replaces the whole buffer — only for recovery, normal writes append
 export async function saveLocationBuffer(buffer: BufferedLocation[]): Promise<void> {
-  await AsyncStorage.setItem(LOCATION_BUFFER_KEY, JSON.stringify(buffer));
+  await replaceBufferPoints('background', buffer);
 }
 
 export async function clearLocationBuffer(): Promise<void> {
-  await AsyncStorage.removeItem(LOCATION_BUFFER_KEY);
+  await clearBufferPoints('background');
 }
 
 export async function getAndClearLocationBuffer(): Promise<BufferedLocation[]> {
@@ -669,6 +733,7 @@ export async function stopBackgroundLocationTracking(): Promise<void> {
     // Clear stored profile, last position, and audio coach state
     await clearGpsProfile();
     await clearLastBackgroundPosition();
+    await clearBackgroundTrackState();
     await clearAudioCoachBackgroundState();
   } catch (error) {
     logger.error('gps', 'Failed to stop background location tracking', { error });
@@ -689,20 +754,31 @@ export async function isBackgroundLocationTrackingRunning(): Promise<boolean> {
 // Protects against app crash/kill during foreground tracking
 // ============================================
 
-// Get foreground buffer from AsyncStorage
+// Timestamps already written to the foreground buffer, so repeated saves of the
+// in-memory buffer only append new points (loaded lazily once per JS context)
+let persistedForegroundTimes: Set<string> | null = null;
+
+// Get foreground buffer from the track store
 export async function getForegroundBuffer(): Promise<BufferedLocation[]> {
   try {
-    const buffer = await AsyncStorage.getItem(FOREGROUND_BUFFER_KEY);
-    return buffer ? JSON.parse(buffer) : [];
+    return (await readBufferPoints('foreground')) as BufferedLocation[];
   } catch {
     return [];
   }
 }
 
-// Save foreground buffer to AsyncStorage (call periodically during tracking)
+// Persist the foreground buffer (call periodically during tracking).
+// Append-only: points persisted by an earlier call are skipped.
 export async function saveForegroundBuffer(buffer: BufferedLocation[]): Promise<void> {
   try {
-    await AsyncStorage.setItem(FOREGROUND_BUFFER_KEY, JSON.stringify(buffer));
+    if (!persistedForegroundTimes) {
+      const persisted = await readBufferPoints('foreground');
+      persistedForegroundTimes = new Set(persisted.map((p) => p.time ?? ''));
+    }
+    const seen = persistedForegroundTimes;
+    const newPoints = buffer.filter((p) => !seen.has(p.time));
+    await appendBufferPoints('foreground', newPoints);
+    for (const point of newPoints) seen.add(point.time);
   } catch (err) {
     logger.error('gps', 'Failed to persist foreground buffer', { error: err });
   }
@@ -710,7 +786,8 @@ export async function saveForegroundBuffer(buffer: BufferedLocation[]): Promise<
 
 // Clear foreground buffer (after successful sync or activity end)
 export async function clearForegroundBuffer(): Promise<void> {
-  await AsyncStorage.removeItem(FOREGROUND_BUFFER_KEY);
+  await clearBufferPoints('foreground');
+  persistedForegroundTimes = new Set();
 }
 
 // Get all persisted points (both foreground and background buffers)
@@ -807,9 +884,15 @@ export interface BackgroundSyncState {
 
 export async function getBackgroundSyncState(): Promise<BackgroundSyncState> {
   try {
-    const state = await AsyncStorage.getItem(BACKGROUND_SYNC_STATE_KEY);
-    if (state) {
-      return JSON.parse(state);
+    const cursor = await getSyncCursor(BACKGROUND_SYNC_CURSOR);
+    if (cursor) {
+      return {
+        lastSyncAttempt: cursor.lastAttempt,
+        lastSyncSuccess: cursor.lastSuccess,
+        syncedPointsCount: cursor.syncedCount,
+        consecutiveFailures: cursor.consecutiveFailures,
+        totalPointsSynced: cursor.totalSynced,
+      };
     }
   } catch (err) {
     logger.error('gps', 'Failed to get background sync state', { error: err });
@@ -828,12 +911,18 @@ export async function updateBackgroundSyncState(updates: Partial<BackgroundSyncS
   try {
     const current = await getBackgroundSyncState();
     const updated = { ...current, ...updates };
-    await AsyncStorage.setItem(BACKGROUND_SYNC_STATE_KEY, JSON.stringify(updated));
+    await setSyncCursor(BACKGROUND_SYNC_CURSOR, {
+      syncedCount: updated.syncedPointsCount,
+      lastAttempt: updated.lastSyncAttempt,
+      lastSuccess: updated.lastSyncSuccess,
+      consecutiveFailures: updated.consecutiveFailures,
+      totalSynced: updated.totalPointsSynced,
+    });
   } catch (err) {
     logger.error('gps', 'Failed to update background sync state', { error: err });
   }
 }
 
 export async function clearBackgroundSyncState(): Promise<void> {
-  await AsyncStorage.removeItem(BACKGROUND_SYNC_STATE_KEY);
+  await clearSyncCursor(BACKGROUND_SYNC_CURSOR);
 }
@@ -0,0 +1,135 @@
+/**
+ * Chat history store
+ *
+ * Keeps the most recent messages of each conversation on the device so a chat
+ * opens with its history immediately — also offline — while the newest page
+ * is fetched. Own messages that haven't reached the server (pending / failed)
+ * are stored too, so an unsent message survives an app restart and can be
+ * retried.
+ *
+ * Writes run one at a time, and saves queued before a clear (user change) are
+ * dropped so one user's history can't be written back for the next.
+ *
+ * Storage:
+ *   `@racefy:chat:index`            -> JSON array of conversation IDs with a snapshot
+ *   `@racefy:chat:{conversationId}` -> JSON ChatSnapshot
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from './logger';
+import type { Message } from '../types/api';
+
+const INDEX_KEY = '@racefy:chat:index';
+const SNAPSHOT_KEY_PREFIX = '@racefy:chat:';
+
+/** Server messages kept per conversation (newest); unsent ones are always kept */
+const MAX_STORED_MESSAGES = 200;
+
+// Disk writes run one at a time so concurrent saves can't lose index entries
+let writeQueue: Promise<void> = Promise.resolve();
+// Bumped by clearChatStore; saves started earlier are discarded
+let generation = 0;
+
+export interface ChatSnapshot {
+  messages: Message[];        // oldest first
+  hasMoreOlder: boolean;      // server has messages before the oldest stored one
+  savedAt: string;
+}
+
+function snapshotKey(conversationId: number): string {
+  return `${SNAPSHOT_KEY_PREFIX}${conversationId}`;
+}
+
+async function readIndex(): Promise<number[]> {
+  try {
+    const raw = await AsyncStorage.getItem(INDEX_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function isUnsentMessage(message: Message): boolean {
+  return message.delivery_state === 'pending' || message.delivery_state === 'failed';
+}
+
+export async function loadChatSnapshot(conversationId: number): Promise<ChatSnapshot | null> {
+  try {
+    const raw = await AsyncStorage.getItem(snapshotKey(conversationId));
+    if (!raw) return null;
+    const snapshot = JSON.parse(raw) as ChatSnapshot;
+    return {
+      ...snapshot,
+      // A send interrupted by the app closing never got its answer — offer a retry
+      messages: snapshot.messages.map((m) =>
+        m.delivery_state === 'pending' ? { ...m, delivery_state: 'failed' } : m
+      ),
+    };
+  } catch (error) {
+    logger.warn('api', 'Failed to load chat snapshot', { conversationId, error });
+    return null;
+  }
+}
+
+export async function saveChatSnapshot(
+  conversationId: number,
+  messages: Message[],
+  hasMoreOlder: boolean,
+): Promise<void> {
+  const sent = messages.filter((m) => !isUnsentMessage(m));
+  const unsent = messages.filter(isUnsentMessage);
+  const trimmed = sent.length > MAX_STORED_MESSAGES;
+  const snapshot: ChatSnapshot = {
+    messages: [...sent.slice(-MAX_STORED_MESSAGES), ...unsent],
+    // Trimmed messages are still on the server
+    hasMoreOlder: hasMoreOlder || trimmed,
+    savedAt: new Date().toISOString(),
+  };
+
+  const saveGeneration = generation;
+  writeQueue = writeQueue.then(async () => {
+    if (saveGeneration !== generation) return;
+    try {
+      await AsyncStorage.setItem(snapshotKey(conversationId), JSON.stringify(snapshot));
+      const index = await readIndex();
+      if (!index.includes(conversationId)) {
+        await AsyncStorage.setItem(INDEX_KEY, JSON.stringify([...index, conversationId]));
+      }
+    } catch (error) {
+      logger.warn('api', 'Failed to save chat snapshot', { conversationId, error });
+    }
+  });
+  await writeQueue;
+}
+
+export async function deleteChatSnapshot(conversationId: number): Promise<void> {
+  writeQueue = writeQueue.then(async () => {
+    try {
+      const index = await readIndex();
+      await AsyncStorage.removeItem(snapshotKey(conversationId));
+      await AsyncStorage.setItem(
+        INDEX_KEY,
+        JSON.stringify(index.filter((id) => id !== conversationId)),
+      );
+    } catch (error) {
+      logger.warn('api', 'Failed to delete chat snapshot', { conversationId, error });
+    }
+  });
+  await writeQueue;
+}
+
+/** Drop every stored conversation — called when the signed-in user changes */
+export async function clearChatStore(): Promise<void> {
+  generation++;
+  // Queued behind pending writes so none of them lands after the removal
+  writeQueue = writeQueue.then(async () => {
+    const index = await readIndex();
+    try {
+      await AsyncStorage.multiRemove([INDEX_KEY, ...index.map(snapshotKey)]);
+    } catch (error) {
+      logger.warn('api', 'Failed to clear chat store', { error });
+    }
+  });
+  await writeQueue;
+}
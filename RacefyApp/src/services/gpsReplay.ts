@@ -0,0 +1,175 @@
+/**
+ * GPS Replay (dev/QA)
+ *
+ * Feeds a recorded track through the live recording pipeline instead of the
+ * real GPS, so field bugs (tunnels, urban canyons, watch drift) can be
+ * reproduced at the desk. While a replay is armed, `watchLivePosition`
+ * emits recorded fixes at track pace divided by the speed multiplier;
+ * otherwise it's a thin wrapper over `Location.watchPositionAsync`.
+ *
+ * The recording clock is the wall clock, so a faster replay compresses the
+ * fix timestamps (and scales the reported speed) to match: at 2× the track
+ * is recorded as if covered twice as fast. Speed and gap filters, pace and
+ * time-based cues behave as for that faster athlete — replay at 1× to
+ * reproduce them exactly as in the field.
+ *
+ * Replay stays in the foreground: useLiveActivity skips the background task
+ * while a replay is active, since the recorded fixes come from JS timers.
+ */
+
+import * as Location from 'expo-location';
+import { logger } from './logger';
+import { degradeTrack, type ReplayDegradation, type ReplayFix } from '../utils/trackReplay';
+
+export interface GpsReplayStatus {
+  active: boolean;
+  trackName?: string;
+  speedMultiplier: number;
+  /** Fixes emitted so far / fixes in the (degraded) track */
+  emitted: number;
+  total: number;
+}
+
+interface ReplaySession {
+  trackName: string;
+  fixes: ReplayFix[];
+  speedMultiplier: number;
+  cursor: number;
+}
+
+let session: ReplaySession | null = null;
+let listeners: Array<(status: GpsReplayStatus) => void> = [];
+
+function getStatus(): GpsReplayStatus {
+  return {
+    active: session !== null,
+    trackName: session?.trackName,
+    speedMultiplier: session?.speedMultiplier ?? 1,
+    emitted: session?.cursor ?? 0,
+    total: session?.fixes.length ?? 0,
+  };
+}
+
+function notify() {
+  const status = getStatus();
+  listeners.forEach((listener) => listener(status));
+}
+
+/**
+ * Arm a replay: the next recording will receive these fixes instead of real GPS.
+ */
+export function armGpsReplay(
+  trackName: string,
+  fixes: ReplayFix[],
+  speedMultiplier: number,
+  degradation: ReplayDegradation
+): GpsReplayStatus {
+  const degraded = degradeTrack(fixes, degradation);
+  session = {
+    trackName,
+    fixes: degraded,
+    speedMultiplier: Math.max(1, speedMultiplier),
+    cursor: 0,
+  };
+  logger.gps('GPS replay armed', {
+    trackName,
+    recordedFixes: fixes.length,
+    replayFixes: degraded.length,
+    speedMultiplier,
+    seed: degradation.seed,
+  });
+  notify();
+  return getStatus();
+}
+
+export function disarmGpsReplay() {
+  if (!session) return;
+  logger.gps('GPS replay disarmed', { emitted: session.cursor, total: session.fixes.length });
+  session = null;
+  notify();
+}
+
+export function isGpsReplayActive(): boolean {
+  return session !== null;
+}
+
+export function getGpsReplayStatus(): GpsReplayStatus {
+  return getStatus();
+}
+
+export function subscribeGpsReplay(listener: (status: GpsReplayStatus) => void): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter((l) => l !== listener);
+  };
+}
+
+function toLocationObject(fix: ReplayFix, timestamp: number, speedMultiplier: number): Location.LocationObject {
+  return {
+    timestamp,
+    coords: {
+      latitude: fix.lat,
+      longitude: fix.lng,
+      altitude: fix.ele ?? null,
+      accuracy: fix.accuracy ?? null,
+      altitudeAccuracy: null,
+      heading: null,
+      speed: fix.speed !== undefined ? fix.speed * speedMultiplier : null,
+    },
+  };
+}
+
+/**
+ * Drop-in replacement for `Location.watchPositionAsync` that plays back the
+ * armed replay. Fixes are delivered faster by the speed multiplier, with
+ * timestamps rebased to now and compressed by the same factor, so they keep
+ * step with the recording timer as real fixes would.
+ * The cursor survives remove() so pause/resume continues the track.
+ */
+export async function watchLivePosition(
+  options: Location.LocationOptions,
+  callback: Location.LocationCallback
+): Promise<Location.LocationSubscription> {
+  const replay = session;
+  if (!replay) {
+    return Location.watchPositionAsync(options, callback);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let removed = false;
+  const startedAt = Date.now();
+  const trackStart = replay.fixes[replay.cursor]?.timestamp ?? 0;
+
+  const emitNext = () => {
+    if (removed || session !== replay) return;
+
+    const fix = replay.fixes[replay.cursor];
+    if (!fix) {
+      logger.gps('GPS replay finished', { total: replay.fixes.length });
+      notify();
+      return;
+    }
+
+    const timestamp = startedAt + (fix.timestamp - trackStart) / replay.speedMultiplier;
+    replay.cursor++;
+    callback(toLocationObject(fix, timestamp, replay.speedMultiplier));
+    notify();
+
+    const next = replay.fixes[replay.cursor];
+    if (next) {
+      timer = setTimeout(emitNext, Math.max(0, (next.timestamp - fix.timestamp) / replay.speedMultiplier));
+    } else {
+      emitNext();
+    }
+  };
+
+  logger.gps('GPS replay watch started', { cursor: replay.cursor, total: replay.fixes.length });
+  timer = setTimeout(emitNext, 0);
+
+  return {
+    remove: () => {
+      removed = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * Mutation outbox
+ *
+ * Social mutations (likes, boosts, follows, comments, reshares, posts) go
+ * through `submitMutation`. Online, it calls the API straight away. Without a
+ * connection, or when the request fails before reaching the server, the
+ * mutation is persisted here and the caller keeps its optimistic UI state.
+ * The outbox worker (`useOutboxWorker`) replays entries in order once the
+ * device is back online.
+ *
+ * While anything is queued, new mutations are queued behind it as well so the
+ * server sees them in the order the user made them. A toggle that undoes a
+ * queued one (like → unlike on the same post) cancels it instead.
+ *
+ * Entries remember which account made them; a replay under another account
+ * drops them. Creates (comments, posts) carry the entry ID as an
+ * `Idempotency-Key`, so a request that reached the server before the
+ * connection dropped isn't created twice when replayed.
+ *
+ * A replay the server rejects (4xx) is dropped: `OUTBOX_REJECTED_EVENT` fires
+ * so the UI can show an error, and the affected refresh types are emitted so
+ * cached screens refetch the server state, rolling back the optimistic change.
+ * 5xx / 429 responses and network errors leave the entry for the next pass.
+ *
+ * Storage:
+ *   `@racefy:outbox` -> JSON OutboxEntry[] in replay order
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {DeviceEventEmitter} from 'react-native';
+import {api} from './api';
+import {logger} from './logger';
+import {emitRefresh, type RefreshEventType} from './refreshEvents';
+import type {CreateCommentRequest, MediaItem, ReshareRequest} from '../types/api';
+
+const OUTBOX_KEY = '@racefy:outbox';
+
+/** Event fired whenever the outbox contents change */
+export const OUTBOX_CHANGED_EVENT = 'outbox:changed';
+/** Event fired with an OutboxRejection when the server refuses a replay */
+export const OUTBOX_REJECTED_EVENT = 'outbox:rejected';
+
+export type OutboxMutation =
+  | { type: 'likePost' | 'unlikePost'; targetId: number }
+  | { type: 'likeActivity' | 'unlikeActivity'; targetId: number }
+  | { type: 'likeComment' | 'unlikeComment'; targetId: number }
+  | { type: 'boostActivity' | 'unboostActivity'; targetId: number }
+  | { type: 'followUser' | 'unfollowUser'; targetId: number }
+  | { type: 'resharePost'; targetId: number; data: ReshareRequest }
+  | { type: 'unresharePost'; targetId: number }
+  | { type: 'createComment' | 'createEventComment'; targetId: number; data: CreateCommentRequest }
+  | {
+      type: 'createPost';
+      data: { content: string; visibility: 'public' | 'followers' | 'private' };
+      media?: MediaItem[];
+    };
+
+export type OutboxMutationType = OutboxMutation['type'];
+
+export interface OutboxEntry {
+  id: string;             // also the Idempotency-Key of creates
+  mutation: OutboxMutation;
+  ownerId?: number;       // user who made the mutation (missing on older entries)
+  createdAt: string;      // ISO timestamp of the user action
+  attempts: number;       // replays that failed without a verdict from the server
+  lastError?: string;
+}
+
+export interface OutboxRejection {
+  entry: OutboxEntry;
+  error: string;
+  status: number;
+}
+
+export type SubmitResult<T> =
+  | { queued: false; result: T }
+  | { queued: true; entry: OutboxEntry };
+
+/** Mutation types that cancel each other while both are still queued */
+const INVERSE_MUTATIONS: Partial<Record<OutboxMutationType, OutboxMutationType>> = {
+  likePost: 'unlikePost',
+  unlikePost: 'likePost',
+  likeActivity: 'unlikeActivity',
+  unlikeActivity: 'likeActivity',
+  likeComment: 'unlikeComment',
+  unlikeComment: 'likeComment',
+  boostActivity: 'unboostActivity',
+  unboostActivity: 'boostActivity',
+  followUser: 'unfollowUser',
+  unfollowUser: 'followUser',
+  resharePost: 'unresharePost',
+  unresharePost: 'resharePost',
+};
+
+/** Screens to refetch once a mutation of this type reaches the server (or is rejected) */
+const REFRESH_TYPES: Record<OutboxMutationType, RefreshEventType[]> = {
+  likePost: ['feed'],
+  unlikePost: ['feed'],
+  likeActivity: ['feed', 'activities'],
+  unlikeActivity: ['feed', 'activities'],
+  likeComment: ['feed'],
+  unlikeComment: ['feed'],
+  boostActivity: ['feed', 'activities'],
+  unboostActivity: ['feed', 'activities'],
+  followUser: ['profile'],
+  unfollowUser: ['profile'],
+  resharePost: ['feed'],
+  unresharePost: ['feed'],
+  createComment: ['feed'],
+  createEventComment: ['events'],
+  createPost: ['feed'],
+};
+
+let flushInFlight: Promise<void> | null = null;
+// Signed-in user, set by the outbox worker; entries of anyone else are never replayed
+let ownerId: number | null = null;
+let lastOptimisticId = 0;
+// Writes run one at a time so concurrent submits can't drop each other's entries
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function emitOutboxChanged(): void {
+  DeviceEventEmitter.emit(OUTBOX_CHANGED_EVENT);
+}
+
+async function readOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    logger.warn('api', 'Failed to read mutation outbox', { error });
+    return [];
+  }
+}
+
+function updateOutbox<T>(
+  updater: (entries: OutboxEntry[]) => { entries: OutboxEntry[]; result: T },
+): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { entries, result } = updater(await readOutbox());
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    emitOutboxChanged();
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+function targetOf(mutation: OutboxMutation): number | undefined {
+  return 'targetId' in mutation ? mutation.targetId : undefined;
+}
+
+/** No HTTP status means the request never got an answer from the server */
+function isNetworkError(error: any): boolean {
+  return !error?.status;
+}
+
+function isTransientError(error: any): boolean {
+  return isNetworkError(error) || error.status >= 500 || error.status === 429;
+}
+
+async function executeMutation(mutation: OutboxMutation, idempotencyKey: string): Promise<unknown> {
+  switch (mutation.type) {
+    case 'likePost':
+      return api.likePost(mutation.targetId);
+    case 'unlikePost':
+      return api.unlikePost(mutation.targetId);
+    case 'likeActivity':
+      return api.likeActivity(mutation.targetId);
+    case 'unlikeActivity':
+      return api.unlikeActivity(mutation.targetId);
+    case 'likeComment':
+      return api.likeComment(mutation.targetId);
+    case 'unlikeComment':
+      return api.unlikeComment(mutation.targetId);
+    case 'boostActivity':
+      return api.boostActivity(mutation.targetId);
+    case 'unboostActivity':
+      return api.unboostActivity(mutation.targetId);
+    case 'followUser':
+      return api.followUser(mutation.targetId);
+    case 'unfollowUser':
+      return api.unfollowUser(mutation.targetId);
+    case 'resharePost':
+      return api.resharePost(mutation.targetId, mutation.data);
+    case 'unresharePost':
+      return api.unresharePost(mutation.targetId);
+    case 'createComment':
+      return api.createComment(mutation.targetId, mutation.data, idempotencyKey);
+    case 'createEventComment':
+      return api.createEventComment(mutation.targetId, mutation.data, idempotencyKey);
+    case 'createPost': {
+      const post = await api.createPost(mutation.data, idempotencyKey);
+      if (mutation.media && mutation.media.length > 0) {
+        const uploadedMedia = [];
+        for (const item of mutation.media) {
+          try {
+            uploadedMedia.push(await api.uploadPostMedia(post.id, item));
+          } catch (uploadError) {
+            logger.error('api', 'Failed to upload media item', { error: uploadError });
+            // Continue with other uploads
+          }
+        }
+        post.media = uploadedMedia;
+      }
+      return post;
+    }
+  }
+}
+
+function createEntry(mutation: OutboxMutation): OutboxEntry {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    mutation,
+    ownerId: ownerId ?? undefined,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+}
+
+/** Persist a mutation, cancelling a queued inverse on the same target instead */
+async function enqueueEntry(entry: OutboxEntry): Promise<OutboxEntry> {
+  const { mutation } = entry;
+  const inverse = INVERSE_MUTATIONS[mutation.type];
+  const target = targetOf(mutation);
+
+  await updateOutbox((entries) => {
+    if (inverse) {
+      for (let i = entries.length - 1; i >= 0; i--) {
+        const queued = entries[i].mutation;
+        if (targetOf(queued) !== target) continue;
+        if (queued.type === inverse) {
+          logger.debug('api', 'Outbox mutation cancelled by its inverse', { type: mutation.type, target });
+          return { entries: entries.filter((_, index) => index !== i), result: undefined };
+        }
+        if (queued.type === mutation.type) break;
+      }
+    }
+    return { entries: [...entries, entry], result: undefined };
+  });
+
+  logger.info('api', 'Mutation queued for later', { type: mutation.type, target });
+  return entry;
+}
+
+/**
+ * Run a mutation now, or queue it when offline / behind other queued mutations.
+ * Server errors (the request got an answer) are thrown as usual so the caller
+ * can roll back; only unanswered requests are queued.
+ */
+export async function submitMutation<T = unknown>(
+  mutation: OutboxMutation,
+): Promise<SubmitResult<T>> {
+  const [netState, pending] = await Promise.all([NetInfo.fetch(), countOutbox()]);
+  const isOnline = netState.isConnected ?? true;
+  // Created up front: a failed attempt is replayed with the same Idempotency-Key
+  const entry = createEntry(mutation);
+
+  if (!isOnline || pending > 0) {
+    return { queued: true, entry: await enqueueEntry(entry) };
+  }
+
+  try {
+    const result = (await executeMutation(mutation, entry.id)) as T;
+    return { queued: false, result };
+  } catch (error: any) {
+    if (!isNetworkError(error)) throw error;
+    return { queued: true, entry: await enqueueEntry(entry) };
+  }
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  return readOutbox();
+}
+
+export async function countOutbox(): Promise<number> {
+  return (await readOutbox()).length;
+}
+
+/** Drop everything queued — called when the signed-in user changes */
+export async function clearOutbox(): Promise<void> {
+  await updateOutbox(() => ({ entries: [], result: undefined }));
+}
+
+/** The user whose mutations are submitted and replayed (null while signed out) */
+export function setOutboxOwner(userId: number | null): void {
+  ownerId = userId;
+}
+
+async function replayOutbox(): Promise<void> {
+  const refreshTypes = new Set<RefreshEventType>();
+  let replayed = 0;
+
+  try {
+    // Re-read each pass: new mutations may be appended while we replay
+    for (;;) {
+      const [entry] = await readOutbox();
+      if (!entry || ownerId === null) break;
+
+      if (entry.ownerId !== undefined && entry.ownerId !== ownerId) {
+        logger.warn('api', 'Dropped outbox mutation of another account', {
+          type: entry.mutation.type,
+          ownerId: entry.ownerId,
+        });
+        await updateOutbox((entries) => ({
+          entries: entries.filter((e) => e.id !== entry.id),
+          result: undefined,
+        }));
+        continue;
+      }
+
+      try {
+        await executeMutation(entry.mutation, entry.id);
+        replayed++;
+      } catch (error: any) {
+        if (isTransientError(error)) {
+          await updateOutbox((entries) => ({
+            entries: entries.map((e) =>
+              e.id === entry.id
+                ? { ...e, attempts: e.attempts + 1, lastError: error?.message || 'Network error' }
+                : e,
+            ),
+            result: undefined,
+          }));
+          logger.warn('api', 'Outbox replay paused', {
+            type: entry.mutation.type,
+            status: error?.status,
+            error: error?.message,
+          });
+          break;
+        }
+
+        // 409: the server already has this state (e.g. liked twice) — nothing to undo
+        if (error.status !== 409) {
+          const rejection: OutboxRejection = {
+            entry,
+            error: error?.message || 'Request rejected',
+            status: error.status,
+          };
+          logger.warn('api', 'Outbox mutation rejected by server', {
+            type: entry.mutation.type,
+            status: error.status,
+            error: error?.message,
+          });
+          DeviceEventEmitter.emit(OUTBOX_REJECTED_EVENT, rejection);
+        }
+      }
+
+      REFRESH_TYPES[entry.mutation.type].forEach((type) => refreshTypes.add(type));
+      await updateOutbox((entries) => ({
+        entries: entries.filter((e) => e.id !== entry.id),
+        result: undefined,
+      }));
+    }
+  } finally {
+    // Replace optimistic placeholders with server data / roll back rejected ones
+    refreshTypes.forEach(emitRefresh);
+    if (replayed > 0) logger.info('api', 'Outbox replayed', { replayed });
+  }
+}
+
+/** Replay queued mutations in order. Concurrent callers share one pass. */
+export function flushOutbox(): Promise<void> {
+  if (!flushInFlight) {
+    flushInFlight = replayOutbox().finally(() => {
+      flushInFlight = null;
+    });
+  }
+  return flushInFlight;
+}
+
+/**
+ * Placeholder IDs for optimistic items are negative so they never clash with
+ * server IDs; each call goes lower, so two in the same millisecond differ.
+ */
+export function createOptimisticId(): number {
+  lastOptimisticId = Math.min(lastOptimisticId - 1, -Date.now());
+  return lastOptimisticId;
+}
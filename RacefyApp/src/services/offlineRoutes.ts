@@ -0,0 +1,275 @@
+/**
+ * Offline route packs
+ *
+ * A downloaded planned route — geometry, turn instructions and elevation
+ * profile — plus Mapbox tile packs around its bounds, so a route can be
+ * opened and navigated without signal. Every map that shows a route draws
+ * through Mapbox (MapboxLiveMap while recording, MapboxRouteMap inside
+ * RoutePreview / LeafletMap), and Mapbox serves tiles from offline packs
+ * whenever the style matches, so one pack per style the recording map's
+ * style picker offers in the current theme covers them all.
+ *
+ * Tiles are best effort: without the Mapbox SDK or token, or when the tile
+ * download fails, the route data is still stored and navigation still works.
+ * A download can't outlive the process, so a pack left `downloading` by a
+ * killed app is read back as `failed`.
+ *
+ * Storage:
+ *   `@racefy:offlineRoutes` -> JSON OfflineRoutePack[]
+ *   Mapbox offline database -> tile packs named `route-{id}-{style}`
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {DeviceEventEmitter} from 'react-native';
+import {logger} from './logger';
+import type {PlannedRoute} from '../types/api';
+
+// Conditional import - only loads if @rnmapbox/maps is installed
+let MapboxGL: any = null;
+let MAPBOX_ACCESS_TOKEN: string | null = null;
+
+try {
+  MapboxGL = require('@rnmapbox/maps').default;
+  MAPBOX_ACCESS_TOKEN = require('../config/api').MAPBOX_ACCESS_TOKEN;
+} catch (e) {
+  logger.debug('gps', 'Mapbox SDK not available for offline route tiles');
+}
+
+const STORAGE_KEY = '@racefy:offlineRoutes';
+
+/** Fired with the new `OfflineRoutePack[]` whenever a pack is added, updated or removed */
+export const OFFLINE_ROUTES_CHANGED_EVENT = 'offlineRoutes:changed';
+
+/** Zoom range of the tile packs — overview down to street level */
+const TILE_MIN_ZOOM = 10;
+const TILE_MAX_ZOOM = 16;
+
+/** Tiles are downloaded this far around the route bounds (meters) */
+const TILE_PADDING_M = 1000;
+
+/**
+ * Styles the route maps use, per theme — outdoors, streets and satellite as
+ * picked on MapboxLiveMap (MapboxRouteMap uses the outdoors/dark one)
+ */
+const TILE_STYLES: Record<'light' | 'dark', Record<string, string>> = {
+  light: {
+    outdoors: 'mapbox://styles/mapbox/outdoors-v12',
+    streets: 'mapbox://styles/mapbox/streets-v12',
+    satellite: 'mapbox://styles/mapbox/satellite-v9',
+  },
+  dark: {
+    dark: 'mapbox://styles/mapbox/dark-v11',
+    night: 'mapbox://styles/mapbox/navigation-night-v1',
+    satellite: 'mapbox://styles/mapbox/satellite-v9',
+  },
+};
+
+export type OfflineTilesStatus = 'downloading' | 'complete' | 'failed' | 'unavailable';
+
+export interface OfflineRoutePack {
+  route: PlannedRoute;
+  downloadedAt: string;
+  tiles: {
+    status: OfflineTilesStatus;
+    /** Mapbox offline pack names */
+    packNames: string[];
+    sizeBytes: number;
+  };
+}
+
+export interface DownloadOfflineRouteOptions {
+  /** Download the dark theme styles instead of the light one */
+  isDark: boolean;
+  /** Tile download progress, 0-100 */
+  onProgress?: (percentage: number) => void;
+}
+
+let memory: OfflineRoutePack[] | null = null;
+
+async function readPacks(): Promise<OfflineRoutePack[]> {
+  if (memory) return memory;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    const packs: OfflineRoutePack[] = Array.isArray(parsed) ? parsed : [];
+    memory = packs.map((pack) =>
+      pack.tiles.status === 'downloading' ? {...pack, tiles: {...pack.tiles, status: 'failed'}} : pack
+    );
+  } catch (error) {
+    logger.warn('gps', 'Failed to read offline routes', {error});
+    memory = [];
+  }
+  return memory;
+}
+
+async function writePacks(packs: OfflineRoutePack[]): Promise<void> {
+  memory = packs;
+  DeviceEventEmitter.emit(OFFLINE_ROUTES_CHANGED_EVENT, packs);
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+  } catch (error) {
+    logger.warn('gps', 'Failed to store offline routes', {error});
+  }
+}
+
+async function upsertPack(pack: OfflineRoutePack): Promise<void> {
+  const packs = await readPacks();
+  await writePacks([pack, ...packs.filter((p) => p.route.id !== pack.route.id)]);
+}
+
+/** All downloaded routes, newest first */
+export async function getOfflineRoutes(): Promise<OfflineRoutePack[]> {
+  return readPacks();
+}
+
+export async function getOfflineRoute(routeId: number): Promise<OfflineRoutePack | null> {
+  const packs = await readPacks();
+  return packs.find((p) => p.route.id === routeId) ?? null;
+}
+
+/** Tile region around the route: [[neLng, neLat], [swLng, swLat]] */
+function tileBounds(route: PlannedRoute): [[number, number], [number, number]] | null {
+  let {min_lat, max_lat, min_lng, max_lng} = route.bounds ?? {min_lat: 0, max_lat: 0, min_lng: 0, max_lng: 0};
+  if (min_lat === 0 && max_lat === 0) {
+    const coords = route.geometry?.coordinates ?? [];
+    if (coords.length === 0) return null;
+    const lngs = coords.map((c) => c[0]);
+    const lats = coords.map((c) => c[1]);
+    min_lat = Math.min(...lats);
+    max_lat = Math.max(...lats);
+    min_lng = Math.min(...lngs);
+    max_lng = Math.max(...lngs);
+  }
+  const latPad = TILE_PADDING_M / 111320;
+  const lngPad = TILE_PADDING_M / (111320 * Math.cos((((min_lat + max_lat) / 2) * Math.PI) / 180));
+  return [
+    [max_lng + lngPad, max_lat + latPad],
+    [min_lng - lngPad, min_lat - latPad],
+  ];
+}
+
+/** Create one tile pack and resolve with its size once it's fully downloaded */
+function downloadTilePack(
+  name: string,
+  styleURL: string,
+  bounds: [[number, number], [number, number]],
+  onProgress: (percentage: number) => void
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    MapboxGL.offlineManager
+      .createPack(
+        {name, styleURL, bounds, minZoom: TILE_MIN_ZOOM, maxZoom: TILE_MAX_ZOOM},
+        (_pack: unknown, status: {state: number | string; percentage: number; completedResourceSize: number}) => {
+          onProgress(status.percentage);
+          const isComplete = status.state === MapboxGL.OfflinePackDownloadState.Complete || status.percentage >= 100;
+          if (isComplete && !settled) {
+            settled = true;
+            resolve(status.completedResourceSize);
+          }
+        },
+        (_pack: unknown, error: {message?: string}) => {
+          if (settled) return;
+          settled = true;
+          reject(new Error(error?.message ?? 'tile_download_failed'));
+        }
+      )
+      .catch((error: unknown) => {
+        if (settled) return;
+        settled = true;
+        reject(error);
+      });
+  });
+}
+
+async function deleteTilePacks(packNames: string[]): Promise<void> {
+  if (!MapboxGL) return;
+  await Promise.all(
+    packNames.map((name) =>
+      MapboxGL.offlineManager.deletePack(name).catch((error: unknown) => {
+        logger.debug('gps', 'Failed to delete offline tile pack', {name, error});
+      })
+    )
+  );
+}
+
+/**
+ * Store a route for offline use and download its map tiles. Resolves once
+ * the tiles are done (or failed) — check `tiles.status` for the outcome.
+ * Downloading a route again replaces the stored copy.
+ */
+export async function downloadOfflineRoute(
+  route: PlannedRoute,
+  {isDark, onProgress}: DownloadOfflineRouteOptions
+): Promise<OfflineRoutePack> {
+  const existing = await getOfflineRoute(route.id);
+  if (existing) await deleteTilePacks(existing.tiles.packNames);
+
+  const bounds = tileBounds(route);
+  if (!MapboxGL || !MAPBOX_ACCESS_TOKEN || !bounds) {
+    const pack: OfflineRoutePack = {
+      route,
+      downloadedAt: new Date().toISOString(),
+      tiles: {status: 'unavailable', packNames: [], sizeBytes: 0},
+    };
+    await upsertPack(pack);
+    logger.info('gps', 'Offline route stored without tiles', {routeId: route.id});
+    return pack;
+  }
+
+  const styles = Object.entries(TILE_STYLES[isDark ? 'dark' : 'light']);
+  const packNames = styles.map(([key]) => `route-${route.id}-${key}`);
+  const pending: OfflineRoutePack = {
+    route,
+    downloadedAt: new Date().toISOString(),
+    tiles: {status: 'downloading', packNames, sizeBytes: 0},
+  };
+  await upsertPack(pending);
+
+  const progress = styles.map(() => 0);
+  try {
+    const sizes = await Promise.all(
+      styles.map(([, styleURL], index) =>
+        downloadTilePack(packNames[index], styleURL, bounds, (percentage) => {
+          progress[index] = percentage;
+          onProgress?.(progress.reduce((sum, p) => sum + p, 0) / progress.length);
+        })
+      )
+    );
+    const pack: OfflineRoutePack = {
+      ...pending,
+      tiles: {status: 'complete', packNames, sizeBytes: sizes.reduce((sum, s) => sum + s, 0)},
+    };
+    await upsertPack(pack);
+    logger.info('gps', 'Offline route downloaded', {routeId: route.id, sizeBytes: pack.tiles.sizeBytes});
+    return pack;
+  } catch (error) {
+    logger.warn('gps', 'Offline route tiles failed, route data kept', {routeId: route.id, error});
+    await deleteTilePacks(packNames);
+    const pack: OfflineRoutePack = {...pending, tiles: {status: 'failed', packNames: [], sizeBytes: 0}};
+    await upsertPack(pack);
+    return pack;
+  }
+}
+
+export async function deleteOfflineRoute(routeId: number): Promise<void> {
+  const packs = await readPacks();
+  const pack = packs.find((p) => p.route.id === routeId);
+  if (!pack) return;
+  await deleteTilePacks(pack.tiles.packNames);
+  await writePacks(packs.filter((p) => p.route.id !== routeId));
+  logger.info('gps', 'Offline route deleted', {routeId});
+}
+
+/** Called whenever the signed-in user changes (see sessionData) — downloaded routes belong to the account */
+export async function clearOfflineRoutes(): Promise<void> {
+  const packs = await readPacks();
+  await deleteTilePacks(packs.flatMap((p) => p.tiles.packNames));
+  memory = null;
+  DeviceEventEmitter.emit(OFFLINE_ROUTES_CHANGED_EVENT, []);
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    logger.warn('gps', 'Failed to clear offline routes', {error});
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Privacy zones cache
+ *
+ * Keeps the user's privacy zones and start/end trim on the device so locally
+ * built outputs — GPX / TCX / GeoJSON exports (including the unsynced queue)
+ * and the live recording map — can be masked with utils/privacyMask.ts, also
+ * offline. Share images are rendered by the server from the already-masked
+ * track and don't go through here.
+ *
+ * Exports always try the API first so a zone added on the web is honored;
+ * the stored copy is the fallback. `null` means the mask is unknown (never
+ * fetched and offline): callers must not treat that as "no zones".
+ *
+ * Storage:
+ *   `@racefy:privacyZones` -> JSON { zones: PrivacyZone[], trim: PrivacyTrimSettings, fetchedAt: ISO string }
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {DeviceEventEmitter} from 'react-native';
+import {api} from './api';
+import {logger} from './logger';
+import {NO_PRIVACY_TRIM, type PrivacyMask} from '../utils/privacyMask';
+import type {PrivacyTrimSettings, PrivacyZone} from '../types/api';
+
+const STORAGE_KEY = '@racefy:privacyZones';
+
+/** Fired with the new `PrivacyMask` whenever the cached zones or trim change */
+export const PRIVACY_ZONES_CHANGED_EVENT = 'privacyZones:changed';
+
+interface StoredPrivacyMask {
+  zones: PrivacyZone[];
+  /** Missing in copies stored before trim existed — those zones still apply, without trim */
+  trim?: PrivacyTrimSettings;
+  fetchedAt: string;
+}
+
+let memory: PrivacyMask | null = null;
+
+/** Store a fresh mask (after a fetch, or after editing zones in settings) */
+export async function cachePrivacyMask(mask: PrivacyMask): Promise<void> {
+  memory = mask;
+  DeviceEventEmitter.emit(PRIVACY_ZONES_CHANGED_EVENT, mask);
+  const stored: StoredPrivacyMask = {...mask, fetchedAt: new Date().toISOString()};
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    logger.warn('api', 'Failed to store privacy zones', {error});
+  }
+}
+
+/** Mask from the device only — memory, then storage */
+export async function getCachedPrivacyMask(): Promise<PrivacyMask | null> {
+  if (memory) return memory;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as StoredPrivacyMask;
+    memory = {zones: stored.zones, trim: stored.trim ?? NO_PRIVACY_TRIM};
+    return memory;
+  } catch (error) {
+    logger.warn('api', 'Failed to read stored privacy zones', {error});
+    return null;
+  }
+}
+
+/**
+ * Trim from the API. Fetched on its own so a server without trim settings
+ * doesn't block zone masking: on failure the stored trim is kept, and
+ * without one nothing is trimmed.
+ */
+async function fetchPrivacyTrim(): Promise<PrivacyTrimSettings> {
+  try {
+    return await api.getPrivacyTrimSettings();
+  } catch (error) {
+    const stored = (await getCachedPrivacyMask())?.trim ?? NO_PRIVACY_TRIM;
+    logger.warn('api', 'Failed to fetch privacy trim, using stored trim', {stored, error});
+    return stored;
+  }
+}
+
+/** Current mask from the API, falling back to the stored copy when offline */
+export async function getPrivacyMask(): Promise<PrivacyMask | null> {
+  try {
+    const [zones, trim] = await Promise.all([api.getPrivacyZones(), fetchPrivacyTrim()]);
+    const mask = {zones, trim};
+    await cachePrivacyMask(mask);
+    return mask;
+  } catch (error) {
+    const cached = await getCachedPrivacyMask();
+    logger.warn('api', 'Failed to fetch privacy zones, using stored copy', {
+      hasStoredCopy: cached !== null,
+      error,
+    });
+    return cached;
+  }
+}
+
+/** Called when the signed-in user changes — zones belong to the account */
+export async function clearPrivacyZonesCache(): Promise<void> {
+  memory = null;
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    logger.warn('api', 'Failed to clear privacy zones', {error});
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Query cache
+ *
+ * Shared client-side cache for GET data, keyed by endpoint + params (see
+ * `queryKey`). Data hooks read it through `useCachedQuery` /
+ * `useCachedPaginatedQuery`: cached data renders immediately and a background
+ * fetch replaces it (stale-while-revalidate). Every hook showing the same key
+ * sees the same data, so a local update in one screen shows up in the others.
+ *
+ * Entries carry refresh tags; `emitRefresh(type)` invalidates every entry
+ * tagged with that type, and mounted hooks refetch. Entries are persisted so
+ * screens open with data after a restart, even offline. Keys aren't scoped
+ * to the user, so the cache is cleared whenever the signed-in user changes
+ * (see services/sessionData.ts); fetches started before a clear are dropped.
+ *
+ * Schema in AsyncStorage:
+ *   `@racefy:queryCache:index`        -> JSON array of keys, least recently written first
+ *   `@racefy:queryCache:entry:{key}`  -> JSON QueryCacheEntry
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {logger} from './logger';
+import type {RefreshEventType} from './refreshEvents';
+
+const INDEX_KEY = '@racefy:queryCache:index';
+const ENTRY_KEY_PREFIX = '@racefy:queryCache:entry:';
+
+/** Persisted entries kept on disk; the least recently written are dropped first */
+const MAX_PERSISTED_ENTRIES = 60;
+/** Larger entries stay in memory only (AsyncStorage rows are size-limited on Android) */
+const MAX_PERSISTED_ENTRY_LENGTH = 512 * 1024;
+
+export interface QueryCacheEntry<T> {
+  data: T;
+  updatedAt: number;            // ms timestamp of the last successful fetch or update
+  tags: RefreshEventType[];
+  isInvalidated?: boolean;      // set by invalidateQueries until the next fetch
+}
+
+type QueryListener = (entry: QueryCacheEntry<unknown> | undefined) => void;
+
+const memory = new Map<string, QueryCacheEntry<unknown>>();
+const listeners = new Map<string, Set<QueryListener>>();
+let persistedKeys: string[] | null = null;
+// Disk writes run one at a time so concurrent updates can't lose index entries
+let persistQueue: Promise<void> = Promise.resolve();
+// Bumped by clearQueryCache; results of fetches started earlier are discarded
+let generation = 0;
+
+function entryKey(key: string): string {
+  return `${ENTRY_KEY_PREFIX}${key}`;
+}
+
+function notify(key: string): void {
+  const entry = memory.get(key);
+  listeners.get(key)?.forEach((listener) => listener(entry));
+}
+
+async function readIndex(): Promise<string[]> {
+  if (persistedKeys) return persistedKeys;
+  try {
+    const raw = await AsyncStorage.getItem(INDEX_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    persistedKeys = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    persistedKeys = [];
+  }
+  return persistedKeys;
+}
+
+async function persistEntry(key: string, entry: QueryCacheEntry<unknown>): Promise<void> {
+  try {
+    const serialized = JSON.stringify(entry);
+    const index = (await readIndex()).filter((k) => k !== key);
+    if (serialized.length > MAX_PERSISTED_ENTRY_LENGTH) {
+      // Too big to keep on disk — drop any older copy so it can't resurface
+      persistedKeys = index;
+      await AsyncStorage.removeItem(entryKey(key));
+      await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+      return;
+    }
+    index.push(key);
+    const evicted = index.splice(0, Math.max(index.length - MAX_PERSISTED_ENTRIES, 0));
+    persistedKeys = index;
+    await AsyncStorage.setItem(entryKey(key), serialized);
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(evicted.map(entryKey));
+    }
+  } catch (error) {
+    logger.warn('api', 'Failed to persist query cache entry', { key, error });
+  }
+}
+
+/** Stable cache key for an endpoint and its params (undefined params are ignored) */
+export function queryKey(endpoint: string, params?: Record<string, unknown>): string {
+  if (!params) return endpoint;
+  const defined = Object.keys(params)
+    .filter((name) => params[name] !== undefined && params[name] !== null)
+    .sort()
+    .map((name) => `${name}=${String(params[name])}`);
+  return defined.length > 0 ? `${endpoint}?${defined.join('&')}` : endpoint;
+}
+
+/** In-memory entry, if this key was read or written since the app started */
+export function peekQuery<T>(key: string): QueryCacheEntry<T> | undefined {
+  return memory.get(key) as QueryCacheEntry<T> | undefined;
+}
+
+/** Current cache generation — pass it back to setQueryData with the fetch result */
+export function getQueryCacheGeneration(): number {
+  return generation;
+}
+
+/** Memory first, then the persisted copy from a previous session */
+export async function loadQuery<T>(key: string): Promise<QueryCacheEntry<T> | undefined> {
+  const cached = memory.get(key);
+  if (cached) return cached as QueryCacheEntry<T>;
+  const readGeneration = generation;
+  try {
+    const raw = await AsyncStorage.getItem(entryKey(key));
+    if (!raw || readGeneration !== generation) return undefined;
+    const entry = JSON.parse(raw) as QueryCacheEntry<T>;
+    // A fetch may have landed while we were reading
+    if (!memory.has(key)) {
+      memory.set(key, entry);
+      notify(key);
+    }
+    return memory.get(key) as QueryCacheEntry<T>;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write data for a key and notify every hook showing it. Pass an updater to
+ * patch the current data (it is skipped when nothing is cached yet).
+ * `persist: false` keeps the write in memory only. Pass the `generation` read
+ * before fetching so a response that arrives after a clear is dropped.
+ */
+export function setQueryData<T>(
+  key: string,
+  data: T | ((current: T) => T),
+  options: { tags?: RefreshEventType[]; persist?: boolean; fromFetch?: boolean; generation?: number } = {},
+): void {
+  if (options.generation !== undefined && options.generation !== generation) {
+    logger.debug('api', 'Dropped query result fetched before cache clear', { key });
+    return;
+  }
+  const current = memory.get(key) as QueryCacheEntry<T> | undefined;
+  let next: T;
+  if (typeof data === 'function') {
+    if (!current) return;
+    next = (data as (current: T) => T)(current.data);
+  } else {
+    next = data;
+  }
+
+  const entry: QueryCacheEntry<T> = {
+    data: next,
+    updatedAt: options.fromFetch || !current ? Date.now() : current.updatedAt,
+    tags: options.tags ?? current?.tags ?? [],
+    isInvalidated: options.fromFetch ? undefined : current?.isInvalidated,
+  };
+  memory.set(key, entry);
+  notify(key);
+
+  if (options.persist !== false) {
+    persistQueue = persistQueue.then(() => persistEntry(key, entry));
+  }
+}
+
+export function isQueryStale(
+  entry: QueryCacheEntry<unknown> | undefined,
+  staleTime: number,
+): boolean {
+  return !entry || !!entry.isInvalidated || Date.now() - entry.updatedAt >= staleTime;
+}
+
+export function subscribeQuery(key: string, listener: QueryListener): () => void {
+  let set = listeners.get(key);
+  if (!set) {
+    set = new Set();
+    listeners.set(key, set);
+  }
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) listeners.delete(key);
+  };
+}
+
+/**
+ * Mark every entry tagged with `tag` as stale. Mounted hooks refetch right
+ * away; the rest refetch the next time they mount.
+ */
+export async function invalidateQueries(tag: RefreshEventType): Promise<void> {
+  const affected: string[] = [];
+  memory.forEach((entry, key) => {
+    if (entry.tags.includes(tag)) {
+      memory.set(key, { ...entry, isInvalidated: true });
+      affected.push(key);
+    }
+  });
+  affected.forEach(notify);
+
+  // Persisted entries not loaded this session are stale too. Queued with the
+  // other disk writes, and skipped after a clear so nothing is written back.
+  const invalidateGeneration = generation;
+  persistQueue = persistQueue.then(async () => {
+    if (invalidateGeneration !== generation) return;
+    try {
+      const index = await readIndex();
+      const notLoaded = index.filter((key) => !memory.has(key));
+      if (notLoaded.length === 0) return;
+      const rows = await AsyncStorage.multiGet(notLoaded.map(entryKey));
+      const updates: [string, string][] = [];
+      for (const [storageKey, raw] of rows) {
+        if (!raw) continue;
+        const entry = JSON.parse(raw) as QueryCacheEntry<unknown>;
+        if (entry.tags.includes(tag)) {
+          updates.push([storageKey, JSON.stringify({ ...entry, isInvalidated: true })]);
+        }
+      }
+      if (updates.length > 0 && invalidateGeneration === generation) {
+        await AsyncStorage.multiSet(updates);
+      }
+    } catch (error) {
+      logger.warn('api', 'Failed to invalidate persisted query cache', { tag, error });
+    }
+  });
+  await persistQueue;
+}
+
+/** Drop everything (memory and disk) — called when the signed-in user changes */
+export async function clearQueryCache(): Promise<void> {
+  generation++;
+  memory.clear();
+  listeners.forEach((_, key) => notify(key));
+  // Queued behind pending writes so none of them lands after the removal
+  persistQueue = persistQueue.then(async () => {
+    const index = await readIndex();
+    persistedKeys = [];
+    try {
+      await AsyncStorage.multiRemove([INDEX_KEY, ...index.map(entryKey)]);
+    } catch (error) {
+      logger.warn('api', 'Failed to clear query cache', { error });
+    }
+  });
+  await persistQueue;
+}
@@ -0,0 +1,256 @@
+/**
+ * Realtime client
+ *
+ * Single connection for messaging events (new messages, read receipts,
+ * typing, unread counts) shared by every screen. Hooks subscribe to event
+ * types with `addRealtimeListener` and to conversations with
+ * `subscribeConversation`; the client keeps those subscriptions across
+ * reconnects.
+ *
+ * Reconnect policy: the primary transport (WebSocket) is retried with
+ * exponential backoff plus jitter. After FALLBACK_AFTER_FAILURES failed
+ * attempts in a row the polling transport takes over delivery until the
+ * primary comes back, so events keep flowing either way. Screens should
+ * refetch when the state returns to `connected` — events sent while the
+ * socket was down aren't replayed.
+ *
+ * Transports are injectable (`configureRealtimeTransports`) so the client can
+ * run against a local mock server or an in-memory fake.
+ */
+
+import { API_BASE_URL, REALTIME_URL } from '../../config/api';
+import { api } from '../api';
+import { logger } from '../logger';
+import type {
+  RealtimeConnectionState,
+  RealtimeEvent,
+  RealtimeEventOf,
+  RealtimeEventType,
+} from '../../types/realtime';
+import { createPollingTransport } from './pollingTransport';
+import type { RealtimeTransport, RealtimeTransportFactory } from './transport';
+import { createWebSocketTransport } from './webSocketTransport';
+
+/** Backoff between primary reconnect attempts: 1 s, doubling up to 30 s */
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+/** Failed primary attempts in a row before polling takes over */
+const FALLBACK_AFTER_FAILURES = 2;
+
+type AnyListener = (event: RealtimeEvent) => void;
+type StateListener = (state: RealtimeConnectionState) => void;
+
+/** ws(s)://host/realtime derived from the API URL unless configured explicitly */
+function defaultRealtimeUrl(): string {
+  return REALTIME_URL ?? API_BASE_URL.replace(/^http/, 'ws').replace(/\/api\/?$/, '/realtime');
+}
+
+let primaryFactory: RealtimeTransportFactory | null = () =>
+  createWebSocketTransport(defaultRealtimeUrl(), () => api.getToken());
+let fallbackFactory: RealtimeTransportFactory = createPollingTransport;
+
+let isStarted = false;
+let state: RealtimeConnectionState = 'disconnected';
+let primary: RealtimeTransport | null = null;
+let fallback: RealtimeTransport | null = null;
+let failures = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const eventListeners = new Map<RealtimeEventType, Set<AnyListener>>();
+const stateListeners = new Set<StateListener>();
+/** Conversation ID → number of hooks subscribed to it */
+const conversationRefs = new Map<number, number>();
+
+function setState(next: RealtimeConnectionState): void {
+  if (state === next) return;
+  state = next;
+  logger.debug('api', 'Realtime state changed', { state: next });
+  stateListeners.forEach((listener) => listener(next));
+}
+
+function dispatch(event: RealtimeEvent): void {
+  eventListeners.get(event.type)?.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (err) {
+      logger.error('api', 'Realtime listener failed', { type: event.type, error: err });
+    }
+  });
+}
+
+function subscribeAll(transport: RealtimeTransport): void {
+  conversationRefs.forEach((_, conversationId) => transport.subscribe(conversationId));
+}
+
+function startFallback(): void {
+  if (fallback || !isStarted) return;
+  const transport = fallbackFactory();
+  fallback = transport;
+  transport.connect({
+    onOpen: () => {
+      subscribeAll(transport);
+      if (state !== 'connected') setState('polling');
+    },
+    onEvent: dispatch,
+    onClose: () => {
+      if (fallback === transport) fallback = null;
+    },
+  });
+}
+
+function stopFallback(): void {
+  const transport = fallback;
+  fallback = null;
+  transport?.disconnect();
+}
+
+function scheduleReconnect(): void {
+  if (!isStarted || reconnectTimer) return;
+  const exponential = Math.min(
+    RECONNECT_BASE_DELAY_MS * 2 ** Math.max(failures - 1, 0),
+    RECONNECT_MAX_DELAY_MS,
+  );
+  // ±20% jitter so clients don't reconnect in lockstep after a server restart
+  const delay = exponential * (0.8 + Math.random() * 0.4);
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connectPrimary();
+  }, delay);
+}
+
+function connectPrimary(): void {
+  if (!isStarted || primary) return;
+  if (!primaryFactory) {
+    startFallback();
+    return;
+  }
+
+  const transport = primaryFactory();
+  primary = transport;
+  if (state !== 'polling') setState('connecting');
+
+  transport.connect({
+    onOpen: () => {
+      failures = 0;
+      subscribeAll(transport);
+      stopFallback();
+      setState('connected');
+      logger.info('api', 'Realtime connected', { transport: transport.name });
+    },
+    onEvent: dispatch,
+    onClose: (error) => {
+      if (primary !== transport) return;
+      primary = null;
+      if (!isStarted) return;
+
+      failures++;
+      logger.warn('api', 'Realtime connection lost', { transport: transport.name, error, failures });
+      if (failures >= FALLBACK_AFTER_FAILURES) {
+        startFallback();
+        setState('polling');
+      } else {
+        setState('connecting');
+      }
+      scheduleReconnect();
+    },
+  });
+}
+
+/** Open the connection (idempotent). Called when signed in and in the foreground. */
+export function startRealtime(): void {
+  if (isStarted) return;
+  isStarted = true;
+  failures = 0;
+  connectPrimary();
+}
+
+/** Close everything (sign-out, app in background). Subscriptions are kept for the next start. */
+export function stopRealtime(): void {
+  if (!isStarted) return;
+  isStarted = false;
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  const transport = primary;
+  primary = null;
+  transport?.disconnect();
+  stopFallback();
+  setState('disconnected');
+}
+
+/** Skip the backoff wait, e.g. when connectivity just came back */
+export function reconnectRealtimeNow(): void {
+  if (!isStarted || primary) return;
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  connectPrimary();
+}
+
+export function getRealtimeState(): RealtimeConnectionState {
+  return state;
+}
+
+export function addRealtimeStateListener(listener: StateListener): () => void {
+  stateListeners.add(listener);
+  return () => {
+    stateListeners.delete(listener);
+  };
+}
+
+export function addRealtimeListener<T extends RealtimeEventType>(
+  type: T,
+  listener: (event: RealtimeEventOf<T>) => void,
+): () => void {
+  let set = eventListeners.get(type);
+  if (!set) {
+    set = new Set();
+    eventListeners.set(type, set);
+  }
+  set.add(listener as AnyListener);
+  return () => {
+    set!.delete(listener as AnyListener);
+  };
+}
+
+/** Receive per-conversation events while the returned function hasn't been called */
+export function subscribeConversation(conversationId: number): () => void {
+  const refs = conversationRefs.get(conversationId) ?? 0;
+  conversationRefs.set(conversationId, refs + 1);
+  if (refs === 0) {
+    primary?.subscribe(conversationId);
+    fallback?.subscribe(conversationId);
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const remaining = (conversationRefs.get(conversationId) ?? 1) - 1;
+    if (remaining > 0) {
+      conversationRefs.set(conversationId, remaining);
+      return;
+    }
+    conversationRefs.delete(conversationId);
+    primary?.unsubscribe(conversationId);
+    fallback?.unsubscribe(conversationId);
+  };
+}
+
+export function sendTyping(conversationId: number, isTyping: boolean): void {
+  primary?.sendTyping(conversationId, isTyping);
+}
+
+/**
+ * Swap transports (mock server, in-memory fake). Pass `primary: null` to run
+ * on the fallback alone. Takes effect on the next connection.
+ */
+export function configureRealtimeTransports(transports: {
+  primary?: RealtimeTransportFactory | null;
+  fallback?: RealtimeTransportFactory;
+}): void {
+  if (transports.primary !== undefined) primaryFactory = transports.primary;
+  if (transports.fallback) fallbackFactory = transports.fallback;
+  if (isStarted) {
+    stopRealtime();
+    startRealtime();
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Polling transport
+ *
+ * Fallback used while the WebSocket can't connect. It turns REST polling into
+ * the same events the socket would push: new messages in subscribed
+ * conversations, conversation list changes and the unread count. Read
+ * receipts, reactions and typing aren't available over REST, so they are
+ * simply missing while polling.
+ *
+ * Only changes are emitted — the first poll of each resource records a
+ * baseline, so screens keep the data they fetched themselves.
+ */
+
+import { api } from '../api';
+import { logger } from '../logger';
+import type { RealtimeTransport, RealtimeTransportListener } from './transport';
+
+/** Subscribed (open) conversations — what the old chat polling used */
+const MESSAGES_POLL_INTERVAL_MS = 5 * 1000;
+/** Conversation list and unread badge */
+const SUMMARY_POLL_INTERVAL_MS = 30 * 1000;
+
+export function createPollingTransport(): RealtimeTransport {
+  let listener: RealtimeTransportListener | null = null;
+  let messagesTimer: ReturnType<typeof setTimeout> | null = null;
+  let summaryTimer: ReturnType<typeof setTimeout> | null = null;
+  const subscriptions = new Set<number>();
+  /** Latest message ID seen per subscribed conversation */
+  const lastMessageIds = new Map<number, number>();
+  /** `last_message_at|unread_count` per conversation, to detect list changes */
+  const conversationStamps = new Map<number, string>();
+  let lastUnreadCount: number | null = null;
+
+  const pollMessages = async () => {
+    for (const conversationId of subscriptions) {
+      try {
+        const response = await api.getMessageHistory(conversationId);
+        if (!listener) return;
+        const known = lastMessageIds.get(conversationId);
+        let latest = known ?? 0;
+        for (const message of response.data) {
+          if (known !== undefined && message.id > known) {
+            listener.onEvent({ type: 'message.created', conversationId, message });
+          }
+          latest = Math.max(latest, message.id);
+        }
+        lastMessageIds.set(conversationId, latest);
+      } catch (err) {
+        logger.warn('api', 'Message polling error', { conversationId, error: err });
+      }
+    }
+  };
+
+  const pollSummary = async () => {
+    try {
+      const [count, conversations] = await Promise.all([
+        api.getUnreadCount(),
+        api.getConversations(1),
+      ]);
+      if (!listener) return;
+
+      if (count !== lastUnreadCount) {
+        lastUnreadCount = count;
+        listener.onEvent({ type: 'unread.count', count });
+      }
+
+      for (const conversation of conversations.data) {
+        const stamp = `${conversation.last_message_at}|${conversation.unread_count}`;
+        const previous = conversationStamps.get(conversation.id);
+        conversationStamps.set(conversation.id, stamp);
+        if (previous !== undefined && previous !== stamp) {
+          listener.onEvent({ type: 'conversation.updated', conversation });
+        }
+      }
+    } catch (err) {
+      logger.warn('api', 'Conversation polling error', { error: err });
+    }
+  };
+
+  const scheduleMessages = () => {
+    messagesTimer = setTimeout(async () => {
+      await pollMessages();
+      if (listener) scheduleMessages();
+    }, MESSAGES_POLL_INTERVAL_MS);
+  };
+
+  const scheduleSummary = () => {
+    summaryTimer = setTimeout(async () => {
+      await pollSummary();
+      if (listener) scheduleSummary();
+    }, SUMMARY_POLL_INTERVAL_MS);
+  };
+
+  return {
+    name: 'polling',
+
+    connect(nextListener) {
+      listener = nextListener;
+      listener.onOpen();
+      // Baseline right away so the first change is noticed on the next tick
+      pollSummary();
+      pollMessages();
+      scheduleMessages();
+      scheduleSummary();
+    },
+
+    disconnect() {
+      if (messagesTimer) clearTimeout(messagesTimer);
+      if (summaryTimer) clearTimeout(summaryTimer);
+      messagesTimer = null;
+      summaryTimer = null;
+      const current = listener;
+      listener = null;
+      current?.onClose();
+    },
+
+    subscribe(conversationId) {
+      subscriptions.add(conversationId);
+    },
+
+    unsubscribe(conversationId) {
+      subscriptions.delete(conversationId);
+      lastMessageIds.delete(conversationId);
+    },
+
+    sendTyping() {
+      // Not available over REST
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import type { RealtimeEvent } from '../../types/realtime';
+
+/** Callbacks a transport reports to (the realtime client) */
+export interface RealtimeTransportListener {
+  onOpen(): void;
+  onEvent(event: RealtimeEvent): void;
+  /** Connection closed or could not be opened; `error` is set when it wasn't requested */
+  onClose(error?: string): void;
+}
+
+/**
+ * A way of receiving realtime events. The client owns reconnects and
+ * subscriptions: transports only open/close once per `connect` call and
+ * forward what they receive.
+ */
+export interface RealtimeTransport {
+  readonly name: string;
+  connect(listener: RealtimeTransportListener): void;
+  disconnect(): void;
+  /** Start receiving per-conversation events (messages, reads, typing) */
+  subscribe(conversationId: number): void;
+  unsubscribe(conversationId: number): void;
+  /** Best effort — transports that can't send may ignore it */
+  sendTyping(conversationId: number, isTyping: boolean): void;
+}
+
+/** Builds a fresh transport for every connection attempt */
+export type RealtimeTransportFactory = () => RealtimeTransport;
@@ -0,0 +1,188 @@
+/**
+ * WebSocket transport
+ *
+ * Frames are JSON in both directions.
+ *
+ * Server → client: `{ "event": <name>, "data": { ... } }`
+ *   message.created       { conversation_id, message }
+ *   message.read          { conversation_id, user_id, last_read_message_id, read_at }
+ *   message.reactions     { conversation_id, message_id, reactions }
+ *   typing                { conversation_id, user_id, is_typing }
+ *   unread.count          { count }
+ *   conversation.updated  { conversation }
+ *   pong                  {}
+ *
+ * Client → server: `{ "action": <name>, ... }`
+ *   subscribe / unsubscribe  { conversation_id }
+ *   typing                   { conversation_id, is_typing }
+ *   ping                     {}
+ *
+ * The auth token travels as a `token` query param (React Native's WebSocket
+ * can't set headers on iOS). Unknown events are ignored so the server can add
+ * new ones without breaking older app versions.
+ */
+
+import { logger } from '../logger';
+import type { RealtimeEvent } from '../../types/realtime';
+import type { RealtimeTransport, RealtimeTransportListener } from './transport';
+
+/** Heartbeat so proxies don't drop an idle socket, and dead sockets are noticed */
+const PING_INTERVAL_MS = 25 * 1000;
+/** No frame at all for this long after a ping → treat the socket as dead */
+const PONG_TIMEOUT_MS = 10 * 1000;
+/** Give up on a socket that doesn't open within this time */
+const OPEN_TIMEOUT_MS = 10 * 1000;
+
+function parseFrame(raw: string): RealtimeEvent | 'pong' | null {
+  let frame: { event?: string; data?: any };
+  try {
+    frame = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  const data = frame.data ?? {};
+
+  switch (frame.event) {
+    case 'pong':
+      return 'pong';
+    case 'message.created':
+      return { type: 'message.created', conversationId: data.conversation_id, message: data.message };
+    case 'message.read':
+      return {
+        type: 'message.read',
+        conversationId: data.conversation_id,
+        userId: data.user_id,
+        lastReadMessageId: data.last_read_message_id,
+        readAt: data.read_at,
+      };
+    case 'message.reactions':
+      return {
+        type: 'message.reactions',
+        conversationId: data.conversation_id,
+        messageId: data.message_id,
+        reactions: data.reactions ?? [],
+      };
+    case 'typing':
+      return {
+        type: 'typing',
+        conversationId: data.conversation_id,
+        userId: data.user_id,
+        isTyping: !!data.is_typing,
+      };
+    case 'unread.count':
+      return { type: 'unread.count', count: data.count ?? 0 };
+    case 'conversation.updated':
+      return { type: 'conversation.updated', conversation: data.conversation };
+    default:
+      return null;
+  }
+}
+
+export function createWebSocketTransport(
+  url: string,
+  getToken: () => string | null,
+): RealtimeTransport {
+  let socket: WebSocket | null = null;
+  let listener: RealtimeTransportListener | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let pongTimer: ReturnType<typeof setTimeout> | null = null;
+  let openTimer: ReturnType<typeof setTimeout> | null = null;
+  let closedByClient = false;
+
+  const clearTimers = () => {
+    if (pingTimer) clearInterval(pingTimer);
+    if (pongTimer) clearTimeout(pongTimer);
+    if (openTimer) clearTimeout(openTimer);
+    pingTimer = null;
+    pongTimer = null;
+    openTimer = null;
+  };
+
+  const send = (payload: Record<string, unknown>) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+    }
+  };
+
+  // Report the close once, then forget the listener
+  const close = (error?: string) => {
+    clearTimers();
+    const current = listener;
+    listener = null;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+        socket.close();
+      }
+      socket = null;
+    }
+    current?.onClose(error);
+  };
+
+  return {
+    name: 'websocket',
+
+    connect(nextListener) {
+      const token = getToken();
+      if (!token) {
+        nextListener.onClose('Not authenticated');
+        return;
+      }
+      listener = nextListener;
+      closedByClient = false;
+
+      const separator = url.includes('?') ? '&' : '?';
+      socket = new WebSocket(`${url}${separator}token=${encodeURIComponent(token)}`);
+      openTimer = setTimeout(() => close('Connection timed out'), OPEN_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        if (openTimer) clearTimeout(openTimer);
+        openTimer = null;
+        pingTimer = setInterval(() => {
+          send({ action: 'ping' });
+          if (!pongTimer) {
+            pongTimer = setTimeout(() => close('Heartbeat timed out'), PONG_TIMEOUT_MS);
+          }
+        }, PING_INTERVAL_MS);
+        listener?.onOpen();
+      };
+
+      socket.onmessage = (message) => {
+        // Any frame proves the socket is alive
+        if (pongTimer) clearTimeout(pongTimer);
+        pongTimer = null;
+
+        const parsed = parseFrame(String(message.data));
+        if (parsed && parsed !== 'pong') listener?.onEvent(parsed);
+      };
+
+      socket.onerror = (event: any) => {
+        logger.debug('api', 'Realtime socket error', { message: event?.message });
+      };
+
+      socket.onclose = (event) => {
+        close(closedByClient ? undefined : event.reason || `Socket closed (${event.code})`);
+      };
+    },
+
+    disconnect() {
+      closedByClient = true;
+      close();
+    },
+
+    subscribe(conversationId) {
+      send({ action: 'subscribe', conversation_id: conversationId });
+    },
+
+    unsubscribe(conversationId) {
+      send({ action: 'unsubscribe', conversation_id: conversationId });
+    },
+
+    sendTyping(conversationId, isTyping) {
+      send({ action: 'typing', conversation_id: conversationId, is_typing: isTyping });
+    },
+  };
+}
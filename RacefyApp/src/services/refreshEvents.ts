@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import { DeviceEventEmitter } from 'react-native';
+import { invalidateQueries } from './queryCache';
 
 export type RefreshEventType = 'feed' | 'events' | 'activities' | 'profile' | 'posts' | 'notifications' | 'messages' | 'teams' | 'training' | 'goals';
 
@@ -8,8 +9,10 @@ const REFRESH_EVENT_PREFIX = 'refresh:';
 /**
  * Emit a refresh event to notify list screens that data has changed.
  * Call this after successful mutations (create, update, delete).
+ * Cached queries tagged with the same type are invalidated and refetched.
  */
 export function emitRefresh(type: RefreshEventType): void {
+  invalidateQueries(type);
   DeviceEventEmitter.emit(`${REFRESH_EVENT_PREFIX}${type}`);
 }
 
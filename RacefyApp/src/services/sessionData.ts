@@ -0,0 +1,31 @@
+/**
+ * Per-account data on the device
+ *
+ * Caches and stores that hold the signed-in user's data. They are cleared
+ * whenever that user changes — logout, an expired session (401), and
+ * starting or stopping impersonation — so the next account never sees the
+ * previous one's data.
+ */
+
+import { logger } from './logger';
+import { clearQueryCache } from './queryCache';
+import { clearOutbox } from './mutationOutbox';
+import { clearChatStore } from './chatStore';
+import { clearPrivacyZonesCache } from './privacyZones';
+import { clearOfflineRoutes } from './offlineRoutes';
+
+export async function clearSessionData(): Promise<void> {
+  const results = await Promise.allSettled([
+    clearQueryCache(),
+    clearOutbox(),
+    clearChatStore(),
+    clearPrivacyZonesCache(),
+    clearOfflineRoutes(),
+  ]);
+  const failed = results.filter((result) => result.status === 'rejected');
+  if (failed.length > 0) {
+    logger.warn('auth', 'Failed to clear some session data', {
+      errors: failed.map((result) => String((result as PromiseRejectedResult).reason)),
+    });
+  }
+}
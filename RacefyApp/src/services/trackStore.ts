@@ -0,0 +1,493 @@
+/**
+ * Track store
+ *
+ * On-device SQLite database for everything that grows with the length of a
+ * recording: the background/foreground GPS buffers, their sync cursors, and
+ * the unsynced activity queue. Points are written one row each (append-only)
+ * and read back by range, so persisting a multi-hour ride never rewrites or
+ * re-parses the whole track the way the old AsyncStorage JSON blobs did.
+ *
+ * Schema (versioned with `PRAGMA user_version`):
+ *   `track_points`        live GPS buffers, one row per point, keyed by buffer
+ *   `sync_cursors`        how far each buffer has been uploaded
+ *   `unsynced_activities` queued activities, metadata stored as JSON
+ *   `unsynced_points`     points of queued activities, ordered by `seq`
+ *
+ * The first open after upgrading imports the legacy AsyncStorage keys inside
+ * the same transaction that creates the schema, and only then removes them —
+ * an in-progress or queued activity survives the upgrade.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import {logger} from './logger';
+
+const DATABASE_NAME = 'racefy-tracks.db';
+const SCHEMA_VERSION = 1;
+
+// Legacy AsyncStorage keys imported by the v1 migration
+const LEGACY_LOCATION_BUFFER_KEY = '@racefy_location_buffer';
+const LEGACY_FOREGROUND_BUFFER_KEY = '@racefy_foreground_buffer';
+const LEGACY_BG_SYNC_STATE_KEY = '@racefy_bg_sync_state';
+const LEGACY_UNSYNCED_INDEX_KEY = '@racefy:unsynced:index';
+const LEGACY_UNSYNCED_POINTS_PREFIX = '@racefy:unsynced:points:';
+
+const SCHEMA_V1 = `
+  CREATE TABLE IF NOT EXISTS track_points (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    buffer TEXT NOT NULL,
+    lat REAL NOT NULL,
+    lng REAL NOT NULL,
+    ele REAL,
+    time TEXT,
+    speed REAL,
+    accuracy REAL,
+    hr REAL,
+    cadence REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_track_points_buffer ON track_points (buffer, id);
+
+  CREATE TABLE IF NOT EXISTS sync_cursors (
+    name TEXT PRIMARY KEY NOT NULL,
+    synced_count INTEGER NOT NULL DEFAULT 0,
+    last_attempt INTEGER,
+    last_success INTEGER,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    total_synced INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS unsynced_activities (
+    activity_id INTEGER PRIMARY KEY NOT NULL,
+    failed_at TEXT NOT NULL,
+    meta TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS unsynced_points (
+    activity_id INTEGER NOT NULL,
+    seq INTEGER NOT NULL,
+    lat REAL NOT NULL,
+    lng REAL NOT NULL,
+    ele REAL,
+    time TEXT,
+    speed REAL,
+    accuracy REAL,
+    hr REAL,
+    cadence REAL,
+    PRIMARY KEY (activity_id, seq)
+  );
+`;
+
+/** Live GPS buffers: points from the background task and from the foreground watcher */
+export type TrackBuffer = 'background' | 'foreground';
+
+/** Point shape shared by the GPS buffers and the unsynced queue */
+export interface StoredPoint {
+  lat: number;
+  lng: number;
+  ele?: number;
+  time?: string;
+  speed?: number;
+  accuracy?: number;
+  hr?: number;
+  cadence?: number;
+}
+
+export interface SyncCursor {
+  syncedCount: number;          // points of the buffer already uploaded
+  lastAttempt: number | null;   // Timestamp (ms)
+  lastSuccess: number | null;   // Timestamp (ms)
+  consecutiveFailures: number;
+  totalSynced: number;          // Lifetime counter
+}
+
+interface PointRow {
+  lat: number;
+  lng: number;
+  ele: number | null;
+  time: string | null;
+  speed: number | null;
+  accuracy: number | null;
+  hr: number | null;
+  cadence: number | null;
+}
+
+interface SyncCursorRow {
+  synced_count: number;
+  last_attempt: number | null;
+  last_success: number | null;
+  consecutive_failures: number;
+  total_synced: number;
+}
+
+const POINT_COLUMNS = 'lat, lng, ele, time, speed, accuracy, hr, cadence';
+
+// One connection per JS context (the app and the headless location task)
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+async function openDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  // WAL lets the background task append while the app reads
+  await db.execAsync('PRAGMA journal_mode = WAL;');
+
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const version = row?.user_version ?? 0;
+  if (version < SCHEMA_VERSION) {
+    let importedKeys: string[] = [];
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      // The other JS context may have migrated since the check above
+      const current = await txn.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+      if ((current?.user_version ?? 0) >= SCHEMA_VERSION) return;
+      await txn.execAsync(SCHEMA_V1);
+      importedKeys = await importLegacyStorage(txn);
+      await txn.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+    });
+    if (importedKeys.length > 0) {
+      // Committed — the AsyncStorage copies are no longer needed
+      await AsyncStorage.multiRemove(importedKeys).catch((error) => {
+        logger.warn('gps', 'Failed to remove migrated AsyncStorage keys', { error });
+      });
+    }
+  }
+  return db;
+}
+
+function parseArray<T>(raw: string | null): T[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function pointParams(point: StoredPoint): SQLite.SQLiteBindValue[] {
+  return [
+    point.lat,
+    point.lng,
+    point.ele ?? null,
+    point.time ?? null,
+    point.speed ?? null,
+    point.accuracy ?? null,
+    point.hr ?? null,
+    point.cadence ?? null,
+  ];
+}
+
+function rowToPoint(row: PointRow): StoredPoint {
+  const point: StoredPoint = { lat: row.lat, lng: row.lng };
+  if (row.ele !== null) point.ele = row.ele;
+  if (row.time !== null) point.time = row.time;
+  if (row.speed !== null) point.speed = row.speed;
+  if (row.accuracy !== null) point.accuracy = row.accuracy;
+  if (row.hr !== null) point.hr = row.hr;
+  if (row.cadence !== null) point.cadence = row.cadence;
+  return point;
+}
+
+async function insertBufferPoints(
+  db: SQLite.SQLiteDatabase,
+  buffer: TrackBuffer,
+  points: StoredPoint[],
+): Promise<void> {
+  const statement = await db.prepareAsync(
+    `INSERT INTO track_points (buffer, ${POINT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  try {
+    for (const point of points) {
+      await statement.executeAsync([buffer, ...pointParams(point)]);
+    }
+  } finally {
+    await statement.finalizeAsync();
+  }
+}
+
+async function insertQueuedPoints(
+  db: SQLite.SQLiteDatabase,
+  activityId: number,
+  points: StoredPoint[],
+): Promise<void> {
+  const statement = await db.prepareAsync(
+    `INSERT INTO unsynced_points (activity_id, seq, ${POINT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  try {
+    for (let seq = 0; seq < points.length; seq++) {
+      await statement.executeAsync([activityId, seq, ...pointParams(points[seq])]);
+    }
+  } finally {
+    await statement.finalizeAsync();
+  }
+}
+
+/**
+ * Copy the pre-SQLite AsyncStorage data into the new tables.
+ * Returns the keys that were imported so they can be removed after commit.
+ */
+async function importLegacyStorage(db: SQLite.SQLiteDatabase): Promise<string[]> {
+  const [[, backgroundRaw], [, foregroundRaw], [, syncStateRaw], [, indexRaw]] =
+    await AsyncStorage.multiGet([
+      LEGACY_LOCATION_BUFFER_KEY,
+      LEGACY_FOREGROUND_BUFFER_KEY,
+      LEGACY_BG_SYNC_STATE_KEY,
+      LEGACY_UNSYNCED_INDEX_KEY,
+    ]);
+  const importedKeys: string[] = [];
+
+  const backgroundPoints = parseArray<StoredPoint>(backgroundRaw);
+  await insertBufferPoints(db, 'background', backgroundPoints);
+  if (backgroundRaw !== null) importedKeys.push(LEGACY_LOCATION_BUFFER_KEY);
+
+  const foregroundPoints = parseArray<StoredPoint>(foregroundRaw);
+  await insertBufferPoints(db, 'foreground', foregroundPoints);
+  if (foregroundRaw !== null) importedKeys.push(LEGACY_FOREGROUND_BUFFER_KEY);
+
+  if (syncStateRaw !== null) {
+    try {
+      const state = JSON.parse(syncStateRaw);
+      await db.runAsync(
+        `INSERT OR REPLACE INTO sync_cursors
+           (name, synced_count, last_attempt, last_success, consecutive_failures, total_synced)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          'background',
+          state.syncedPointsCount ?? 0,
+          state.lastSyncAttempt ?? null,
+          state.lastSyncSuccess ?? null,
+          state.consecutiveFailures ?? 0,
+          state.totalPointsSynced ?? 0,
+        ],
+      );
+    } catch {
+      // Unreadable cursor: the buffer is re-sent from the start
+    }
+    importedKeys.push(LEGACY_BG_SYNC_STATE_KEY);
+  }
+
+  const index = parseArray<{ activityId: number; failedAt: string }>(indexRaw);
+  for (const meta of index) {
+    const pointsKey = `${LEGACY_UNSYNCED_POINTS_PREFIX}${meta.activityId}`;
+    const points = parseArray<StoredPoint>(await AsyncStorage.getItem(pointsKey));
+    await db.runAsync(
+      'INSERT OR REPLACE INTO unsynced_activities (activity_id, failed_at, meta) VALUES (?, ?, ?)',
+      [meta.activityId, meta.failedAt, JSON.stringify(meta)],
+    );
+    await insertQueuedPoints(db, meta.activityId, points);
+    importedKeys.push(pointsKey);
+  }
+  if (indexRaw !== null) importedKeys.push(LEGACY_UNSYNCED_INDEX_KEY);
+
+  if (importedKeys.length > 0) {
+    logger.info('gps', 'Migrated GPS buffers and unsynced queue to SQLite', {
+      backgroundPoints: backgroundPoints.length,
+      foregroundPoints: foregroundPoints.length,
+      queuedActivities: index.length,
+    });
+  }
+  return importedKeys;
+}
+
+// ============================================
+// GPS BUFFERS
+// ============================================
+
+export async function appendBufferPoints(
+  buffer: TrackBuffer,
+  points: StoredPoint[],
+): Promise<void> {
+  if (points.length === 0) return;
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await insertBufferPoints(txn, buffer, points);
+  });
+}
+
+/** Points of a buffer in insertion order, starting at `offset` */
+export async function readBufferPoints(
+  buffer: TrackBuffer,
+  offset: number = 0,
+  limit: number = -1,
+): Promise<StoredPoint[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<PointRow>(
+    `SELECT ${POINT_COLUMNS} FROM track_points WHERE buffer = ? ORDER BY id LIMIT ? OFFSET ?`,
+    [buffer, limit, offset],
+  );
+  return rows.map(rowToPoint);
+}
+
+export async function countBufferPoints(buffer: TrackBuffer): Promise<number> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM track_points WHERE buffer = ?',
+    [buffer],
+  );
+  return row?.count ?? 0;
+}
+
+/** Replace a buffer's contents (recovery paths only — normal writes append) */
+export async function replaceBufferPoints(
+  buffer: TrackBuffer,
+  points: StoredPoint[],
+): Promise<void> {
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await txn.runAsync('DELETE FROM track_points WHERE buffer = ?', [buffer]);
+    await insertBufferPoints(txn, buffer, points);
+  });
+}
+
+export async function clearBufferPoints(buffer: TrackBuffer): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync('DELETE FROM track_points WHERE buffer = ?', [buffer]);
+}
+
+// ============================================
+// SYNC CURSORS
+// ============================================
+
+export async function getSyncCursor(name: string): Promise<SyncCursor | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<SyncCursorRow>(
+    'SELECT synced_count, last_attempt, last_success, consecutive_failures, total_synced FROM sync_cursors WHERE name = ?',
+    [name],
+  );
+  if (!row) return null;
+  return {
+    syncedCount: row.synced_count,
+    lastAttempt: row.last_attempt,
+    lastSuccess: row.last_success,
+    consecutiveFailures: row.consecutive_failures,
+    totalSynced: row.total_synced,
+  };
+}
+
+export async function setSyncCursor(name: string, cursor: SyncCursor): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    `INSERT OR REPLACE INTO sync_cursors
+       (name, synced_count, last_attempt, last_success, consecutive_failures, total_synced)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      name,
+      cursor.syncedCount,
+      cursor.lastAttempt,
+      cursor.lastSuccess,
+      cursor.consecutiveFailures,
+      cursor.totalSynced,
+    ],
+  );
+}
+
+export async function clearSyncCursor(name: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync('DELETE FROM sync_cursors WHERE name = ?', [name]);
+}
+
+// ============================================
+// UNSYNCED ACTIVITY QUEUE
+// Metadata is opaque JSON here; unsyncedActivities.ts owns its shape.
+// ============================================
+
+/** Queue entries, most recently failed first */
+export async function listQueuedActivities<T>(): Promise<T[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ meta: string }>(
+    'SELECT meta FROM unsynced_activities ORDER BY failed_at DESC',
+  );
+  return rows.map((row) => JSON.parse(row.meta) as T);
+}
+
+export async function countQueuedActivities(): Promise<number> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM unsynced_activities',
+  );
+  return row?.count ?? 0;
+}
+
+export async function getQueuedActivity<T>(activityId: number): Promise<T | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ meta: string }>(
+    'SELECT meta FROM unsynced_activities WHERE activity_id = ?',
+    [activityId],
+  );
+  return row ? (JSON.parse(row.meta) as T) : null;
+}
+
+/** Insert or replace a queue entry together with its full point list */
+export async function putQueuedActivity(
+  activityId: number,
+  failedAt: string,
+  meta: object,
+  points: StoredPoint[],
+): Promise<void> {
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await txn.runAsync(
+      'INSERT OR REPLACE INTO unsynced_activities (activity_id, failed_at, meta) VALUES (?, ?, ?)',
+      [activityId, failedAt, JSON.stringify(meta)],
+    );
+    await txn.runAsync('DELETE FROM unsynced_points WHERE activity_id = ?', [activityId]);
+    await insertQueuedPoints(txn, activityId, points);
+  });
+}
+
+/** Update the metadata of an existing entry; its points are untouched */
+export async function updateQueuedActivity(
+  activityId: number,
+  failedAt: string,
+  meta: object,
+): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    'UPDATE unsynced_activities SET failed_at = ?, meta = ? WHERE activity_id = ?',
+    [failedAt, JSON.stringify(meta), activityId],
+  );
+}
+
+/** Points of a queued activity in recording order, starting at `offset` */
+export async function readQueuedPoints(
+  activityId: number,
+  offset: number = 0,
+  limit: number = -1,
+): Promise<StoredPoint[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<PointRow>(
+    `SELECT ${POINT_COLUMNS} FROM unsynced_points WHERE activity_id = ? ORDER BY seq LIMIT ? OFFSET ?`,
+    [activityId, limit, offset],
+  );
+  return rows.map(rowToPoint);
+}
+
+export async function deleteQueuedActivity(activityId: number): Promise<void> {
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await txn.runAsync('DELETE FROM unsynced_activities WHERE activity_id = ?', [activityId]);
+    await txn.runAsync('DELETE FROM unsynced_points WHERE activity_id = ?', [activityId]);
+  });
+}
+
+/** Remove every queue entry; returns how many there were */
+export async function clearQueuedActivities(): Promise<number> {
+  const db = await getDatabase();
+  let cleared = 0;
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const row = await txn.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM unsynced_activities',
+    );
+    cleared = row?.count ?? 0;
+    await txn.runAsync('DELETE FROM unsynced_activities');
+    await txn.runAsync('DELETE FROM unsynced_points');
+  });
+  return cleared;
+}
@@ -6,21 +6,65 @@
  * snapshot here. The queue survives logout and app restart, and exposes the
  * raw GPS points so the UI can retry the upload or export them as GPX.
  *
- * Schema in AsyncStorage:
- *   `@racefy:unsynced:index`           -> JSON array of UnsyncedActivityMeta
- *   `@racefy:unsynced:points:{id}`     -> JSON array of GpsPoint (raw, deduplicated)
+ * Activities started without a connection live here too. They get a negative
+ * client-side ID, record into the usual GPS buffers, and go through this queue
+ * on finish: the upload creates the server activity first (`serverActivityId`
+ * keeps the local → server mapping), then backfills points and finishes it.
+ * Pauses taken before the server knew about the activity can't be replayed —
+ * the server only sees them as gaps in the track.
  *
- * We split metadata from the (potentially large) point list so listings can be
- * read cheaply without parsing every track.
+ * Storage:
+ *   track store `unsynced_activities` -> UnsyncedActivityMeta per entry
+ *   track store `unsynced_points`     -> GpsPoint rows (raw, deduplicated)
+ *   `@racefy:unsynced:local_current`  -> JSON LocalActivityRecord in AsyncStorage
+ *                                        (local activity being recorded)
+ *
+ * Metadata is kept apart from the (potentially large) point list so listings
+ * are cheap, and uploads read points page by page behind a cursor
+ * (`uploadedPointsCount`) so an interrupted upload resumes where it stopped.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {DeviceEventEmitter} from 'react-native';
+import {api} from './api';
 import {logger} from './logger';
-import type {ActivityLocation, GpsPoint} from '../types/api';
+import {
+  clearQueuedActivities,
+  countQueuedActivities,
+  deleteQueuedActivity,
+  getQueuedActivity,
+  listQueuedActivities,
+  putQueuedActivity,
+  readQueuedPoints,
+  updateQueuedActivity,
+} from './trackStore';
+import type {
+  Activity,
+  ActivityLocation,
+  FinishActivityRequest,
+  FinishActivityResponse,
+  GpsPoint,
+  GpsProfileRequest,
+} from '../types/api';
+
+const LOCAL_CURRENT_KEY = '@racefy:unsynced:local_current';
+
+/** Points sent per /points request when uploading a queued activity */
+const UPLOAD_PAGE_SIZE = 500;
+
+/** Automatic retry backoff: 1 min, doubling up to 1 h */
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const MAX_ATTEMPT_HISTORY = 10;
 
-const INDEX_KEY = '@racefy:unsynced:index';
-const POINTS_KEY_PREFIX = '@racefy:unsynced:points:';
+/** Server activities starting this close to a queued one (same sport) are the same activity */
+const DUPLICATE_START_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * A completed server copy this much shorter than the local recording is
+ * treated as a truncated upload, not as the finished activity
+ */
+const TRUNCATED_DISTANCE_RATIO = 0.9;
 
 /** Event fired whenever the queue contents change. UI hooks subscribe to refresh. */
 export const UNSYNCED_QUEUE_CHANGED_EVENT = 'unsyncedQueue:changed';
@@ -46,68 +90,186 @@ export interface UnsyncedActivityMeta {
   location?: ActivityLocation;
   lastError?: string;     // message from the last failed attempt
   failedAt: string;       // ISO timestamp of the failure that put it here
-  retryCount: number;     // number of manual retries the user attempted
-  lastRetryAt?: string;   // ISO timestamp of the last manual retry
+  retryCount: number;     // number of upload attempts, manual and automatic
+  lastRetryAt?: string;   // ISO timestamp of the last attempt
+  nextRetryAt?: string;   // ISO timestamp before which the sync worker leaves it alone
+  attempts?: UnsyncedAttempt[];   // most recent last, capped at MAX_ATTEMPT_HISTORY
+  uploadedPointsCount?: number;   // points the server already accepted (upload cursor)
+  userId?: number;                // owner, used to look for server-side duplicates
+  // Locally-started activities only
+  serverActivityId?: number;      // set once the server activity exists
+  eventId?: number | null;
+  gpsProfile?: GpsProfileRequest;
+  // Save-time details (title, workout, laps…) sent with /finish
+  finishData?: Omit<FinishActivityRequest, 'final_points' | 'ended_at' | 'location'>;
+}
+
+/** What started an upload attempt */
+export type UnsyncedRetryTrigger = 'manual' | 'finish' | 'reconnect' | 'foreground' | 'scheduled';
+
+/** A failed upload attempt (successful ones remove the entry) */
+export interface UnsyncedAttempt {
+  at: string;                     // ISO timestamp
+  trigger: UnsyncedRetryTrigger;
+  step?: 'create' | 'points' | 'finish';
+  error?: string;
+  status?: number;                // HTTP status; missing for network errors
 }
 
 export interface UnsyncedActivity extends UnsyncedActivityMeta {
   points: GpsPoint[];
 }
 
-function pointsKey(activityId: number): string {
-  return `${POINTS_KEY_PREFIX}${activityId}`;
+/** Activity recorded without a server counterpart yet */
+export interface LocalActivityRecord {
+  activity: Activity;
+  gpsProfile?: GpsProfileRequest;
 }
 
-async function readIndex(): Promise<UnsyncedActivityMeta[]> {
+export type UnsyncedUploadResult =
+  | { ok: true; activity: Activity; response?: FinishActivityResponse }
+  | { ok: false; error: string };
+
+/** Uploads in progress — a second caller must not create the activity twice */
+const uploadsInFlight = new Set<number>();
+
+/** Client-side IDs are negative so they can never clash with server IDs */
+export function isLocalActivityId(activityId: number): boolean {
+  return activityId < 0;
+}
+
+export function createLocalActivity(params: {
+  userId: number;
+  sportTypeId: number;
+  title?: string;
+  eventId?: number;
+}): Activity {
+  const now = new Date().toISOString();
+  return {
+    id: -Date.now(),
+    user_id: params.userId,
+    post_id: null,
+    sport_type_id: params.sportTypeId,
+    event_id: params.eventId ?? null,
+    title: params.title ?? '',
+    description: null,
+    started_at: now,
+    ended_at: null,
+    duration: 0,
+    distance: 0,
+    client_distance: null,
+    elevation_gain: null,
+    calories: null,
+    avg_speed: null,
+    max_speed: null,
+    avg_heart_rate: null,
+    max_heart_rate: null,
+    hr_data_source: null,
+    source: 'app',
+    is_private: false,
+    visibility: 'public',
+    show_start_finish_points: true,
+    can_view_start_finish: true,
+    status: 'in_progress',
+    is_active: true,
+    total_paused_duration: 0,
+    last_point_at: null,
+    has_gps_track: false,
+  };
+}
+
+/** Server timestamps may lose the milliseconds of the client's started_at */
+const PROMOTED_START_TOLERANCE_MS = 2000;
+
+/**
+ * Whether `server` is the local activity after promotion: startLiveActivity
+ * is sent the local started_at and sport, and the local ID never reaches
+ * the server, so those are what identify it.
+ */
+export function isPromotedLocalActivity(local: Activity, server: Activity): boolean {
+  if (server.id === local.id) return true;
+  if (server.sport_type_id !== local.sport_type_id) return false;
+  const delta = Math.abs(new Date(server.started_at).getTime() - new Date(local.started_at).getTime());
+  return delta <= PROMOTED_START_TOLERANCE_MS;
+}
+
+/**
+ * Create the server copy of the local activity being recorded. A local
+ * activity that is paused is paused on the server as well, so the next
+ * resume goes through /resume and the server tracks the rest of the pause.
+ * Paused time before this call can't be sent and shows as a track gap.
+ * If the pause fails the in_progress copy is returned — it exists already,
+ * and creating it again on the next sync would duplicate it.
+ */
+export async function createServerActivity(record: LocalActivityRecord): Promise<Activity> {
+  const created = await api.startLiveActivity({
+    sport_type_id: record.activity.sport_type_id,
+    title: record.activity.title,
+    started_at: record.activity.started_at,
+    event_id: record.activity.event_id ?? undefined,
+    gps_profile: record.gpsProfile,
+  });
+  if (record.activity.status !== 'paused') return created;
+  try {
+    return await api.pauseActivity(created.id);
+  } catch (err: any) {
+    logger.warn('activity', 'Failed to pause server copy of paused local activity', {
+      localId: record.activity.id,
+      id: created.id,
+      error: err?.message,
+    });
+    return created;
+  }
+}
+
+export async function getLocalActivity(): Promise<LocalActivityRecord | null> {
   try {
-    const raw = await AsyncStorage.getItem(INDEX_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed : [];
+    const raw = await AsyncStorage.getItem(LOCAL_CURRENT_KEY);
+    return raw ? JSON.parse(raw) : null;
   } catch (err) {
-    logger.warn('activity', 'Failed to read unsynced queue index', { error: err });
-    return [];
+    logger.warn('activity', 'Failed to read local activity', { error: err });
+    return null;
   }
 }
 
-async function writeIndex(index: UnsyncedActivityMeta[]): Promise<void> {
-  await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+export async function saveLocalActivity(record: LocalActivityRecord): Promise<void> {
+  await AsyncStorage.setItem(LOCAL_CURRENT_KEY, JSON.stringify(record));
+}
+
+export async function clearLocalActivity(): Promise<void> {
+  await AsyncStorage.removeItem(LOCAL_CURRENT_KEY);
 }
 
-async function readPoints(activityId: number): Promise<GpsPoint[]> {
+export async function listUnsyncedActivities(): Promise<UnsyncedActivityMeta[]> {
   try {
-    const raw = await AsyncStorage.getItem(pointsKey(activityId));
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed : [];
+    return await listQueuedActivities<UnsyncedActivityMeta>();
   } catch (err) {
-    logger.warn('activity', 'Failed to read unsynced points', {
-      activityId,
-      error: err,
-    });
+    logger.warn('activity', 'Failed to read unsynced queue', { error: err });
     return [];
   }
 }
 
-export async function listUnsyncedActivities(): Promise<UnsyncedActivityMeta[]> {
-  const index = await readIndex();
-  return [...index].sort((a, b) =>
-    new Date(b.failedAt).getTime() - new Date(a.failedAt).getTime(),
-  );
+export async function countUnsyncedActivities(): Promise<number> {
+  try {
+    return await countQueuedActivities();
+  } catch (err) {
+    logger.warn('activity', 'Failed to count unsynced queue', { error: err });
+    return 0;
+  }
 }
 
-export async function countUnsyncedActivities(): Promise<number> {
-  const index = await readIndex();
-  return index.length;
+export async function getUnsyncedActivityMeta(
+  activityId: number,
+): Promise<UnsyncedActivityMeta | null> {
+  return getQueuedActivity<UnsyncedActivityMeta>(activityId);
 }
 
 export async function getUnsyncedActivity(
   activityId: number,
 ): Promise<UnsyncedActivity | null> {
-  const index = await readIndex();
-  const meta = index.find(e => e.activityId === activityId);
+  const meta = await getUnsyncedActivityMeta(activityId);
   if (!meta) return null;
-  const points = await readPoints(activityId);
+  const points = (await readQueuedPoints(activityId)) as GpsPoint[];
   return { ...meta, points };
 }
 
@@ -118,29 +280,24 @@ export async function enqueueUnsyncedActivity(
   },
   points: GpsPoint[],
 ): Promise<void> {
-  const index = await readIndex();
   const failedAt = meta.failedAt ?? new Date().toISOString();
-  const existing = index.find(e => e.activityId === meta.activityId);
+  const existing = await getUnsyncedActivityMeta(meta.activityId);
 
   const merged: UnsyncedActivityMeta = {
     ...existing,
     ...meta,
     failedAt,
     retryCount: meta.retryCount ?? existing?.retryCount ?? 0,
+    // The point list is replaced, so the upload starts over
+    uploadedPointsCount: 0,
   };
 
-  const nextIndex = [
-    ...index.filter(e => e.activityId !== meta.activityId),
-    merged,
-  ];
-
-  await AsyncStorage.setItem(pointsKey(meta.activityId), JSON.stringify(points));
-  await writeIndex(nextIndex);
+  await putQueuedActivity(meta.activityId, failedAt, merged, points);
 
   logger.activity('Enqueued unsynced activity', {
     activityId: meta.activityId,
     points: points.length,
-    queueSize: nextIndex.length,
+    queueSize: await countUnsyncedActivities(),
   });
 
   emitQueueChanged();
@@ -150,34 +307,268 @@ export async function updateUnsyncedActivityMeta(
   activityId: number,
   patch: Partial<UnsyncedActivityMeta>,
 ): Promise<void> {
-  const index = await readIndex();
-  const idx = index.findIndex(e => e.activityId === activityId);
-  if (idx === -1) return;
-  index[idx] = { ...index[idx], ...patch };
-  await writeIndex(index);
+  const meta = await getUnsyncedActivityMeta(activityId);
+  if (!meta) return;
+  const next = { ...meta, ...patch };
+  await updateQueuedActivity(activityId, next.failedAt, next);
   emitQueueChanged();
 }
 
 export async function removeUnsyncedActivity(activityId: number): Promise<void> {
-  const index = await readIndex();
-  const next = index.filter(e => e.activityId !== activityId);
-  await writeIndex(next);
-  await AsyncStorage.removeItem(pointsKey(activityId));
+  await deleteQueuedActivity(activityId);
   logger.activity('Removed unsynced activity', {
     activityId,
-    queueSize: next.length,
+    queueSize: await countUnsyncedActivities(),
   });
   emitQueueChanged();
 }
 
 export async function clearAllUnsyncedActivities(): Promise<void> {
-  const index = await readIndex();
-  await AsyncStorage.multiRemove([
-    INDEX_KEY,
-    ...index.map(e => pointsKey(e.activityId)),
-  ]);
+  const cleared = await clearQueuedActivities();
   logger.activity('Cleared unsynced activity queue', {
-    cleared: index.length,
+    cleared,
   });
   emitQueueChanged();
-}
\ No newline at end of file
+}
+function retryDelayMs(failedAttempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(failedAttempts - 1, 0)),
+    RETRY_MAX_DELAY_MS,
+  );
+}
+
+function isSameActivity(activity: Activity, entry: UnsyncedActivityMeta): boolean {
+  return (
+    activity.sport_type_id === entry.sportTypeId &&
+    Math.abs(new Date(activity.started_at).getTime() - new Date(entry.startedAt).getTime()) <=
+      DUPLICATE_START_TOLERANCE_MS
+  );
+}
+
+/**
+ * Whether a completed server copy holds the whole recording: every queued
+ * point went up, or its distance is close to what was recorded locally
+ * (a finish with final_points uploads without moving the cursor).
+ */
+function hasAllPoints(activity: Activity, entry: UnsyncedActivityMeta): boolean {
+  if ((entry.uploadedPointsCount ?? 0) >= entry.pointsCount) return true;
+  return activity.distance >= entry.distance * TRUNCATED_DISTANCE_RATIO;
+}
+
+/**
+ * Look for an activity the server already has for this entry — e.g. a start
+ * or finish that succeeded but whose response never reached the device.
+ */
+async function findServerDuplicate(entry: UnsyncedActivityMeta): Promise<Activity | null> {
+  const current = await api.getCurrentActivity();
+  if (current && isSameActivity(current, entry)) return current;
+  if (!entry.userId) return null;
+  const recent = await api.getActivities({
+    user_id: entry.userId,
+    sport_type_id: entry.sportTypeId,
+  });
+  return recent.data.find(activity => isSameActivity(activity, entry)) ?? null;
+}
+
+/**
+ * Upload a queued activity: create it on the server if it was recorded
+ * offline, upload its points, then finish it. Before creating or finishing,
+ * the server is checked for the same activity so a retry never produces a
+ * second copy. The entry is removed on success; on failure the attempt is
+ * added to its history and the next automatic retry is pushed back.
+ */
+export async function uploadUnsyncedActivity(
+  activityId: number,
+  options: { trigger?: UnsyncedRetryTrigger } = {},
+): Promise<UnsyncedUploadResult> {
+  if (uploadsInFlight.has(activityId)) {
+    return { ok: false, error: 'Upload already in progress' };
+  }
+  uploadsInFlight.add(activityId);
+
+  const trigger = options.trigger ?? 'manual';
+  const entry = await getUnsyncedActivityMeta(activityId).catch(() => null);
+  if (!entry) {
+    uploadsInFlight.delete(activityId);
+    return { ok: false, error: 'Entry not found' };
+  }
+
+  const fail = async (
+    step: UnsyncedAttempt['step'],
+    err: any,
+    fallback: string,
+  ): Promise<UnsyncedUploadResult> => {
+    const error: string = err?.message || fallback;
+    const now = new Date();
+    const current = await getUnsyncedActivityMeta(activityId);
+    const retryCount = (current?.retryCount ?? entry.retryCount ?? 0) + 1;
+    await updateUnsyncedActivityMeta(activityId, {
+      lastError: error,
+      lastRetryAt: now.toISOString(),
+      retryCount,
+      nextRetryAt: new Date(now.getTime() + retryDelayMs(retryCount)).toISOString(),
+      attempts: [
+        ...(current?.attempts ?? []),
+        { at: now.toISOString(), trigger, step, error, status: err?.status },
+      ].slice(-MAX_ATTEMPT_HISTORY),
+    });
+    logger.warn('activity', 'Unsynced activity upload failed', {
+      activityId,
+      trigger,
+      step,
+      error,
+      retryCount,
+    });
+    return { ok: false, error };
+  };
+
+  const finishAsDuplicate = async (activity: Activity): Promise<UnsyncedUploadResult> => {
+    await removeUnsyncedActivity(activityId);
+    logger.activity('Unsynced activity already on server, dropped from queue', {
+      activityId,
+      id: activity.id,
+      trigger,
+    });
+    return { ok: true, activity };
+  };
+
+  try {
+    // 1. Find the server copy: the recorded mapping, the activity itself, or
+    //    one the server created from an earlier attempt we never heard back from.
+    let serverId = entry.serverActivityId
+      ?? (isLocalActivityId(activityId) ? null : activityId);
+    try {
+      const existing = serverId === null
+        ? await findServerDuplicate(entry)
+        : await api.getActivity(serverId);
+      if (existing?.status === 'completed') {
+        if (hasAllPoints(existing, entry)) return await finishAsDuplicate(existing);
+        // Truncated upload: send the rest of the points and finish it again
+        logger.warn('activity', 'Server copy is shorter than the local recording', {
+          activityId,
+          id: existing.id,
+          serverDistance: existing.distance,
+          localDistance: entry.distance,
+        });
+      }
+      if (existing) serverId = existing.id;
+    } catch (lookupErr: any) {
+      // A 404 just means nothing to reconcile with; anything else stops here
+      if (lookupErr?.status !== 404) {
+        return await fail('create', lookupErr, 'Failed to check server for this activity');
+      }
+    }
+
+    // 2. Recorded offline: create the server activity, and persist the mapping
+    //    before uploading anything so a later retry reuses it.
+    if (serverId === null) {
+      try {
+        const created = await api.startLiveActivity({
+          sport_type_id: entry.sportTypeId,
+          title: entry.title,
+          started_at: entry.startedAt,
+          event_id: entry.eventId ?? undefined,
+          gps_profile: entry.gpsProfile,
+        });
+        serverId = created.id;
+        logger.activity('Created server activity for local activity', {
+          localId: activityId,
+          id: serverId,
+        });
+      } catch (startErr: any) {
+        return await fail('create', startErr, 'Failed to create activity');
+      }
+    }
+    if (serverId !== entry.serverActivityId && serverId !== activityId) {
+      entry.serverActivityId = serverId;
+      await updateQueuedActivity(activityId, entry.failedAt, entry);
+    }
+
+    // 3. Upload points page by page, moving the cursor after each accepted
+    //    page so a retry never sends the same points twice.
+    let uploaded = entry.uploadedPointsCount ?? 0;
+    while (uploaded < entry.pointsCount) {
+      const page = (await readQueuedPoints(activityId, uploaded, UPLOAD_PAGE_SIZE)) as GpsPoint[];
+      if (page.length === 0) break;
+      try {
+        await api.addActivityPoints(serverId, page, {
+          calories: entry.calories,
+          avg_heart_rate: entry.avgHeartRate,
+          max_heart_rate: entry.maxHeartRate,
+          client_distance: entry.distance,
+        });
+      } catch (pointsErr: any) {
+        return await fail('points', pointsErr, 'Failed to upload points');
+      }
+      uploaded += page.length;
+      entry.uploadedPointsCount = uploaded;
+      await updateQueuedActivity(activityId, entry.failedAt, entry);
+    }
+
+    // 4. Finish the activity (no final_points: they were uploaded above).
+    let response: FinishActivityResponse;
+    try {
+      response = await api.finishActivity(serverId, {
+        calories: entry.calories,
+        ...entry.finishData,
+        ended_at: entry.endedAt,
+        location: entry.location,
+        client_distance: entry.distance,
+        avg_heart_rate: entry.avgHeartRate,
+        max_heart_rate: entry.maxHeartRate,
+      });
+    } catch (finishErr: any) {
+      return await fail('finish', finishErr, 'Failed to finish activity');
+    }
+
+    // All steps succeeded — drop the entry.
+    await removeUnsyncedActivity(activityId);
+    logger.activity('Unsynced activity uploaded', { activityId, id: serverId, trigger });
+    return { ok: true, activity: response.data, response };
+  } finally {
+    uploadsInFlight.delete(activityId);
+  }
+}
+
+function isRetryDue(
+  entry: UnsyncedActivityMeta,
+  trigger: UnsyncedRetryTrigger,
+  now: number,
+): boolean {
+  if (!entry.nextRetryAt || new Date(entry.nextRetryAt).getTime() <= now) return true;
+  // Connectivity just returned: whatever failed for lack of it is worth trying now
+  const last = entry.attempts?.[entry.attempts.length - 1];
+  return trigger === 'reconnect' && !!last && last.status === undefined;
+}
+
+/**
+ * Sync worker pass: upload every queued entry whose backoff has elapsed.
+ * Entries run one at a time so a flaky connection isn't hammered.
+ * Returns how many were uploaded (or found already on the server).
+ */
+export async function retryDueUnsyncedActivities(
+  trigger: UnsyncedRetryTrigger,
+): Promise<number> {
+  const now = Date.now();
+  const due = (await listUnsyncedActivities()).filter(entry => isRetryDue(entry, trigger, now));
+  let uploaded = 0;
+  for (const entry of due) {
+    const result = await uploadUnsyncedActivity(entry.activityId, { trigger });
+    if (result.ok) uploaded++;
+  }
+  if (due.length > 0) {
+    logger.activity('Unsynced queue retry pass', { trigger, due: due.length, uploaded });
+  }
+  return uploaded;
+}
+
+/** When the next queued entry becomes due (ms timestamp), or null if none are waiting */
+export async function getNextUnsyncedRetryAt(): Promise<number | null> {
+  const entries = await listUnsyncedActivities();
+  let next: number | null = null;
+  for (const entry of entries) {
+    const at = entry.nextRetryAt ? new Date(entry.nextRetryAt).getTime() : Date.now();
+    if (next === null || at < next) next = at;
+  }
+  return next;
+}
@@ -0,0 +1,83 @@
+/**
+ * Workout library
+ *
+ * Structured interval workouts the user builds in the workout editor and
+ * picks before starting a recording. Workouts live on the device only, so
+ * they're available offline and survive logout.
+ *
+ * Schema in AsyncStorage:
+ *   `@racefy:workouts`   -> JSON array of Workout, most recently edited first
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {DeviceEventEmitter} from 'react-native';
+import {logger} from './logger';
+import type {Workout} from '../types/workout';
+
+const WORKOUTS_KEY = '@racefy:workouts';
+
+/** Event fired whenever the library changes. UI hooks subscribe to refresh. */
+export const WORKOUTS_CHANGED_EVENT = 'workouts:changed';
+
+function emitWorkoutsChanged(): void {
+  DeviceEventEmitter.emit(WORKOUTS_CHANGED_EVENT);
+}
+
+async function readWorkouts(): Promise<Workout[]> {
+  try {
+    const raw = await AsyncStorage.getItem(WORKOUTS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    logger.warn('training', 'Failed to read workouts', { error: err });
+    return [];
+  }
+}
+
+async function writeWorkouts(workouts: Workout[]): Promise<void> {
+  await AsyncStorage.setItem(WORKOUTS_KEY, JSON.stringify(workouts));
+}
+
+export async function listWorkouts(): Promise<Workout[]> {
+  const workouts = await readWorkouts();
+  return [...workouts].sort((a, b) =>
+    new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+  );
+}
+
+export async function getWorkout(id: string): Promise<Workout | null> {
+  const workouts = await readWorkouts();
+  return workouts.find(w => w.id === id) ?? null;
+}
+
+/** Insert or replace by id; bumps updatedAt */
+export async function saveWorkout(
+  workout: Omit<Workout, 'createdAt' | 'updatedAt'> & {createdAt?: string},
+): Promise<Workout> {
+  const workouts = await readWorkouts();
+  const now = new Date().toISOString();
+  const existing = workouts.find(w => w.id === workout.id);
+
+  const saved: Workout = {
+    ...workout,
+    createdAt: existing?.createdAt ?? workout.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await writeWorkouts([...workouts.filter(w => w.id !== workout.id), saved]);
+  logger.info('training', 'Saved workout', {
+    id: saved.id,
+    blocks: saved.blocks.length,
+    isNew: !existing,
+  });
+  emitWorkoutsChanged();
+  return saved;
+}
+
+export async function deleteWorkout(id: string): Promise<void> {
+  const workouts = await readWorkouts();
+  await writeWorkouts(workouts.filter(w => w.id !== id));
+  logger.info('training', 'Deleted workout', {id});
+  emitWorkoutsChanged();
+}
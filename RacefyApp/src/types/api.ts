@@ -1,3 +1,6 @@
+import type { WorkoutStepResult } from './workout';
+import type { ActivityLap } from './lap';
+
 // ============ USER & AUTH ============
 
 export interface User {
@@ -276,6 +279,7 @@ export interface GpsProfileApiResponse {
   time_interval: number;
   distance_interval: number;
   smoothing_buffer_size: number;
+  smoothing_strategy?: 'weighted_average' | 'kalman'; // Position smoothing (default: weighted_average)
   // Stationary detection
   stationary_speed_threshold?: number; // Speed in m/s below which user is considered stationary (0.1-3)
   // Pace display settings (optional - API may not provide these yet)
@@ -298,6 +302,7 @@ export interface GpsProfileRequest {
   time_interval?: number;
   distance_interval?: number;
   smoothing_buffer_size?: number;
+  smoothing_strategy?: 'weighted_average' | 'kalman';
   // Stationary detection
   stationary_speed_threshold?: number;
   // Pace display settings
@@ -800,6 +805,8 @@ export interface Activity {
   is_boosted?: boolean;
   // Training link
   training_week_id?: number | null;
+  // Laps recorded in the app (auto / manual), oldest first
+  laps?: ActivityLap[] | null;
   // GPS profile used during tracking (returned by API after activity is finished)
   gps_profile_used?: GpsProfileApiResponse | null;
   // Mentions
@@ -930,6 +937,11 @@ export interface FinishActivityRequest {
   client_distance?: number;
   // Event the activity should be linked to (set/changed at save time)
   event_id?: number | null;
+  // Structured workout followed during the recording, with per-step results
+  workout_name?: string;
+  workout_steps?: WorkoutStepResult[];
+  // Laps (auto, manual and the closing one), oldest first
+  laps?: ActivityLap[];
 }
 
 // Auto-created post info returned when finishing an activity
@@ -1537,7 +1549,7 @@ export interface ConversationParticipant {
 export interface LastMessage {
   id: number;
   content: string | null;
-  type: 'text' | 'activity';
+  type: MessageType;
   sender_id: number;
   created_at: string;
 }
@@ -1577,24 +1589,91 @@ export interface MessageActivityPreview {
   route_preview_url: string | null;
 }
 
-export interface Message {
+export type MessageType = 'text' | 'activity' | 'photo' | 'route' | 'event';
+
+export interface MessagePhoto {
+  url: string;                    // local file URI while an optimistic message is uploading
+  thumbnail_url: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface MessageRoutePreview {
+  id: number;
+  title: string;
+  distance: number;               // meters
+  elevation_gain: number;         // meters
+  sport_type: { id: number; name: string; icon: string | null } | null;
+  route_preview_url: string | null;
+}
+
+export interface MessageEventPreview {
+  id: number;
+  title: string | null;
+  location_name: string;
+  starts_at: string;
+  status: Event['status'];
+  sport_type: { id: number; name: string; icon: string | null } | null;
+  cover_image_url: string | null;
+}
+
+/** Quoted message shown above a reply */
+export interface MessageReplyPreview {
   id: number;
-  conversation_id: number;
   sender: ConversationParticipant;
+  type: MessageType;
   content: string | null;
-  type: 'text' | 'activity';
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  user_ids: number[];
+}
+
+/** Client-side delivery state of an own message (absent on messages loaded from the server) */
+export type MessageDeliveryState = 'pending' | 'failed' | 'sent';
+
+export interface Message {
+  id: number;                     // negative while an optimistic message hasn't reached the server
+  conversation_id: number;
+  sender: ConversationParticipant;
+  content: string | null;         // text, or the caption of a photo
+  type: MessageType;
   activity?: MessageActivityPreview;
+  photo?: MessagePhoto;
+  route?: MessageRoutePreview;
+  event?: MessageEventPreview;
+  reply_to?: MessageReplyPreview | null;
+  reactions?: MessageReaction[];
   is_own: boolean;
   created_at: string;
+  client_id?: string | null;      // set by the sender, echoed back by the server
+  delivery_state?: MessageDeliveryState;
 }
 
 export interface StartConversationRequest {
   user_id: number;
 }
 
+/** One page of chat history, newest first; page further back with `before_id` = oldest ID received */
+export interface MessageHistoryResponse {
+  data: Message[];
+  meta: {
+    per_page: number;
+    has_more: boolean;
+  };
+}
+
+/** Photos are sent as multipart; routes and events by ID, the server builds the card */
 export interface SendMessageRequest {
-  content: string;
-  type?: 'text';
+  content?: string;
+  type?: Exclude<MessageType, 'activity'>;
+  photo?: MediaItem;
+  route_id?: number;
+  event_id?: number;
+  reply_to_id?: number;
+  client_id?: string;
 }
 
 // ============ SEARCH ============
@@ -2973,13 +3052,17 @@ export interface TeamLeaderboardResponse {
 
 // ============ PRIVACY ZONES ============
 
+export type PrivacyZoneShape = 'circle' | 'polygon';
+
 export interface PrivacyZone {
   id: number;
   name: string;
   type: 'home' | 'work' | 'other';
-  latitude: number;
+  shape?: PrivacyZoneShape;            // Missing on zones created before polygons: circle
+  latitude: number;                    // Polygon zones: center of the outline
   longitude: number;
-  radius_meters: number;
+  radius_meters: number;               // Circle zones only
+  polygon?: [number, number][] | null; // Polygon zones: [lng, lat] vertices, not closed
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -2997,15 +3080,25 @@ export interface PrivacyZoneSuggestion {
 export interface CreatePrivacyZoneRequest {
   name: string;
   type: 'home' | 'work' | 'other';
+  shape?: PrivacyZoneShape;
   latitude: number;
   longitude: number;
+  polygon?: [number, number][];
 }
 
 export interface UpdatePrivacyZoneRequest {
   name?: string;
   type?: 'home' | 'work' | 'other';
+  shape?: PrivacyZoneShape;
   latitude?: number;
   longitude?: number;
+  polygon?: [number, number][] | null;
+}
+
+/** Hide the first / last N meters of every activity, wherever it starts */
+export interface PrivacyTrimSettings {
+  hide_start_meters: number;
+  hide_end_meters: number;
 }
 
 // ============ FEEDBACK ============
@@ -3133,6 +3226,12 @@ export interface CreateRouteRequest {
   profile: 'walking' | 'cycling';
   waypoints: RouteWaypoint[];
   is_public?: boolean;
+  /** Routes made from a track: the server keeps this geometry instead of routing between the waypoints */
+  geometry?: GeoJSONLineString;
+  elevation_profile?: RouteElevationPoint[];
+  turn_instructions?: RouteTurnInstruction[];
+  source?: 'planner' | 'activity' | 'file';
+  source_activity_id?: number;
 }
 
 export interface UpdateRouteRequest {
@@ -1,3 +1,5 @@
+import type { UnitSystem } from '../utils/unitConversions';
+
 // ============ AUDIO COACH ============
 
 export type AudioCoachStyle = 'neutral' | 'motivational' | 'coach' | 'minimal';
@@ -8,10 +10,18 @@ export type AudioCoachVoice =
 
 export type AudioCoachLanguage = 'en' | 'pl' | 'de' | 'fr' | 'es' | 'it' | 'pt';
 
+/** What triggers announcements: distance thresholds, elapsed time, or both */
+export type AudioCoachTriggerMode = 'distance' | 'time' | 'both';
+
 export interface AudioCoachSettings {
   enabled: boolean;
   language: AudioCoachLanguage;
+  triggerMode: AudioCoachTriggerMode;
+  /** Distance interval in km, whatever the unit system (settings show it in the user's unit) */
   intervalKm: number;
+  /** Explicit distances (km) to announce at, e.g. [5, 10, 21.1]. Overrides intervalKm when non-empty */
+  customDistancesKm: number[];
+  intervalMinutes: number;
   style: AudioCoachStyle;
   speechRate: number;
   speechPitch: number;
@@ -24,7 +34,10 @@ export interface AudioCoachSettings {
 export const DEFAULT_AUDIO_COACH_SETTINGS: AudioCoachSettings = {
   enabled: false,
   language: 'en',
+  triggerMode: 'distance',
   intervalKm: 1,
+  customDistancesKm: [],
+  intervalMinutes: 5,
   style: 'motivational',
   speechRate: 1.0,
   speechPitch: 1.0,
@@ -66,7 +79,10 @@ export interface AudioCoachPlanInfo {
 export interface AudioCoachServerSettings {
   enabled: boolean;
   language: string; // Server uses full locale: 'en-US', 'pl-PL', etc.
+  trigger_mode?: AudioCoachTriggerMode;
   interval_km: number;
+  custom_distances_km?: number[];
+  interval_minutes?: number;
   voice_style: AudioCoachStyle;
   speech_rate: number;
   speech_pitch: number;
@@ -84,4 +100,17 @@ export interface AnnouncementData {
   pace: number; // min/km as decimal (e.g. 5.5 = 5:30)
   heartRate?: number;
   splitDelta?: number; // seconds faster/slower than previous km
+  /** Spoken unit system — inputs stay metric, templates convert (default metric) */
+  units?: UnitSystem;
+}
+
+// Time-triggered announcement input
+export interface TimeAnnouncementData {
+  language: AudioCoachLanguage;
+  style: AudioCoachStyle;
+  minutes: number;
+  km: number;
+  pace: number; // min/km as decimal
+  heartRate?: number;
+  units?: UnitSystem;
 }
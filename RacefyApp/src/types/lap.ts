@@ -0,0 +1,35 @@
+/** What closed a lap — `finish` is the lap still open when the activity ended */
+export type LapTrigger = 'distance' | 'start_point' | 'manual' | 'finish';
+
+export type AutoLapMode = 'off' | 'distance' | 'start_point';
+
+export interface AutoLapSettings {
+  mode: AutoLapMode;
+  /** Lap length for `distance` mode, in meters */
+  distanceMeters: number;
+}
+
+/** The lap in progress, as shown during the recording */
+export interface LapProgress {
+  /** 1-based */
+  number: number;
+  elapsedSeconds: number;
+  distanceMeters: number;
+  /** Seconds per km, null until the lap covers enough distance */
+  paceSecPerKm: number | null;
+  avgHeartRate: number | null;
+}
+
+/** Per-lap result stored with the finished activity */
+export interface ActivityLap {
+  lap_number: number;
+  trigger: LapTrigger;
+  /** Moving time (seconds) at which the lap started */
+  start_offset_seconds: number;
+  elapsed_seconds: number;
+  distance_meters: number;
+  /** Seconds per km, null when the lap covered too little distance */
+  avg_pace: number | null;
+  avg_heart_rate: number | null;
+  max_heart_rate: number | null;
+}
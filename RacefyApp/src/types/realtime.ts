@@ -0,0 +1,68 @@
+import type { Conversation, Message, MessageReaction } from './api';
+
+// ============ REALTIME MESSAGING ============
+
+/** A new message in a conversation the user belongs to */
+export interface MessageCreatedEvent {
+  type: 'message.created';
+  conversationId: number;
+  message: Message;
+}
+
+/** Another participant read the conversation up to a message */
+export interface MessageReadEvent {
+  type: 'message.read';
+  conversationId: number;
+  userId: number;
+  lastReadMessageId: number;
+  readAt: string;
+}
+
+/** Someone added or removed an emoji reaction; carries the message's full reaction list */
+export interface MessageReactionsEvent {
+  type: 'message.reactions';
+  conversationId: number;
+  messageId: number;
+  reactions: MessageReaction[];
+}
+
+/** Another participant started / stopped typing */
+export interface TypingEvent {
+  type: 'typing';
+  conversationId: number;
+  userId: number;
+  isTyping: boolean;
+}
+
+/** Total unread messages across conversations (tab / header badges) */
+export interface UnreadCountEvent {
+  type: 'unread.count';
+  count: number;
+}
+
+/** Conversation metadata changed (last message, unread count, rename…) */
+export interface ConversationUpdatedEvent {
+  type: 'conversation.updated';
+  conversation: Conversation;
+}
+
+export type RealtimeEvent =
+  | MessageCreatedEvent
+  | MessageReadEvent
+  | MessageReactionsEvent
+  | TypingEvent
+  | UnreadCountEvent
+  | ConversationUpdatedEvent;
+
+export type RealtimeEventType = RealtimeEvent['type'];
+
+/** Narrow the event union by its `type` */
+export type RealtimeEventOf<T extends RealtimeEventType> = Extract<RealtimeEvent, { type: T }>;
+
+/**
+ * - `connecting`  — opening the primary transport
+ * - `connected`   — primary transport open, events are pushed
+ * - `polling`     — primary transport unavailable, fallback polling delivers events
+ * - `disconnected` — stopped (signed out / app in background)
+ */
+export type RealtimeConnectionState = 'connecting' | 'connected' | 'polling' | 'disconnected';
@@ -0,0 +1,29 @@
+import type { WorkoutPaceStatus, WorkoutPaceTarget } from './workout';
+
+/** Heart rate zone in beats per minute (inclusive) */
+export interface HeartRateZone {
+  minBpm: number;
+  maxBpm: number;
+}
+
+/** Where the active zone came from — shown next to the indicator */
+export type TargetZoneSource = 'manual' | 'training';
+
+/**
+ * Pace band and/or heart rate zone to hold during a recording.
+ * Either part may be null; a zone with both null is treated as "no zone".
+ */
+export interface TargetZone {
+  pace: WorkoutPaceTarget | null;
+  heartRate: HeartRateZone | null;
+  /** Seconds of moving time outside the zone before the first alert */
+  alertDelaySeconds: number;
+  source: TargetZoneSource;
+}
+
+export type HeartRateZoneStatus = 'low' | 'in_zone' | 'high';
+
+export type TargetZoneStatus = {
+  pace: WorkoutPaceStatus | null;
+  heartRate: HeartRateZoneStatus | null;
+};
@@ -0,0 +1,62 @@
+export type WorkoutStepType = 'warmup' | 'work' | 'recovery' | 'cooldown';
+
+/** How a step ends: after a fixed moving time or a fixed distance */
+export type WorkoutStepDuration =
+  | { type: 'time'; seconds: number }
+  | { type: 'distance'; meters: number };
+
+/** Target pace band in seconds per km — `min` is the faster end */
+export interface WorkoutPaceTarget {
+  minSecPerKm: number;
+  maxSecPerKm: number;
+}
+
+export interface WorkoutStep {
+  id: string;
+  type: WorkoutStepType;
+  duration: WorkoutStepDuration;
+  target?: WorkoutPaceTarget | null;
+}
+
+/** Steps run `repeat` times in order — a single step is a block with repeat 1 */
+export interface WorkoutBlock {
+  id: string;
+  repeat: number;
+  steps: WorkoutStep[];
+}
+
+export interface Workout {
+  id: string;
+  name: string;
+  blocks: WorkoutBlock[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A step as the executor sees it, with repeat blocks unrolled */
+export interface FlatWorkoutStep extends WorkoutStep {
+  /** Position in the unrolled workout (0-based) */
+  index: number;
+  /** Repetition of the enclosing block (1-based) and its total */
+  repetition: number;
+  repeatCount: number;
+}
+
+export type WorkoutPaceStatus = 'fast' | 'on_target' | 'slow';
+
+/** Per-step outcome stored with the finished activity */
+export interface WorkoutStepResult {
+  step_index: number;
+  type: WorkoutStepType;
+  duration_type: WorkoutStepDuration['type'];
+  /** Planned seconds or meters, depending on duration_type */
+  planned_value: number;
+  elapsed_seconds: number;
+  distance_meters: number;
+  /** Seconds per km, null when the step covered too little distance */
+  avg_pace: number | null;
+  target_pace_min: number | null;
+  target_pace_max: number | null;
+  /** False when the activity was finished before the step ended */
+  completed: boolean;
+}
@@ -0,0 +1,43 @@
+import { buildTcxDocument } from '../activityExport';
+import type { GpsPoint } from '../../types/api';
+
+jest.mock('expo-file-system/legacy', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('../../services/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../services/privacyZones', () => ({}));
+
+/** Points 0.001° of latitude (~111 m) apart, one per 30 s */
+function points(fromIndex: number, count: number): GpsPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lat: 52 + (fromIndex + i) * 0.001,
+    lng: 21,
+    time: new Date(Date.UTC(2026, 0, 1, 8, 0, (fromIndex + i) * 30)).toISOString(),
+  }));
+}
+
+function distances(tcx: string): number[] {
+  return [...tcx.matchAll(/<DistanceMeters>([\d.]+)<\/DistanceMeters>\n\s*<\/Trackpoint>/g)].map((m) => Number(m[1]));
+}
+
+describe('buildTcxDocument', () => {
+  it('writes one track per segment and skips the distance across the gap', () => {
+    const before = points(0, 3);
+    const after = points(10, 3);
+    const tcx = buildTcxDocument([{ activityId: 1, points: [...before, ...after], segments: [before, after] }]);
+
+    expect(tcx.match(/<Track>/g)).toHaveLength(2);
+    const meters = distances(tcx);
+    expect(meters).toHaveLength(6);
+    // The second segment continues from where the first one stopped
+    expect(meters[3]).toBe(meters[2]);
+    expect(meters[5]).toBeCloseTo(4 * 111.2, 0);
+  });
+
+  it('writes an uncut track as one track', () => {
+    const tcx = buildTcxDocument([{ activityId: 1, points: points(0, 4) }]);
+    expect(tcx.match(/<Track>/g)).toHaveLength(1);
+    expect(distances(tcx)[3]).toBeCloseTo(3 * 111.2, 0);
+  });
+});
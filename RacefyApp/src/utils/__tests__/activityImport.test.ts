@@ -0,0 +1,119 @@
+import { checkImportPoints, parseActivityFile, parseGpxPoints, parseTcxPoints } from '../activityImport';
+
+function gpx(body: string): string {
+  return `<?xml version="1.0"?><gpx version="1.1"><trk><name>Run</name><trkseg>${body}</trkseg></trk></gpx>`;
+}
+
+describe('parseGpxPoints', () => {
+  it('reads points with and without a body', () => {
+    const parsed = parseGpxPoints(gpx(
+      '<trkpt lat="1" lon="1"/><trkpt lat="2" lon="2"><ele>5</ele></trkpt><trkpt lat="3" lon="3" />'
+    ));
+    expect(parsed?.points).toEqual([
+      expect.objectContaining({ lat: 1, lng: 1, ele: undefined }),
+      expect.objectContaining({ lat: 2, lng: 2, ele: 5 }),
+      expect.objectContaining({ lat: 3, lng: 3 }),
+    ]);
+  });
+
+  it('reads the track name and extension values', () => {
+    const parsed = parseGpxPoints(gpx(
+      '<trkpt lat="52" lon="21"><time>2026-01-01T08:00:00Z</time>' +
+        '<extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>140</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions></trkpt>'
+    ));
+    expect(parsed?.name).toBe('Run');
+    expect(parsed?.points[0]).toMatchObject({ time: '2026-01-01T08:00:00.000Z', hr: 140 });
+  });
+
+  it('reads route points when asked for them', () => {
+    const parsed = parseGpxPoints(
+      '<gpx version="1.1"><rte><name>Loop</name><rtept lat="1" lon="1"/><rtept lat="2" lon="2"><ele>5</ele></rtept></rte></gpx>',
+      'rtept'
+    );
+    expect(parsed?.name).toBe('Loop');
+    expect(parsed?.points).toEqual([
+      expect.objectContaining({ lat: 1, lng: 1 }),
+      expect.objectContaining({ lat: 2, lng: 2, ele: 5 }),
+    ]);
+  });
+});
+
+function tcx(trackpoints: string): string {
+  return '<?xml version="1.0"?><TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">' +
+    `<Activities><Activity Sport="Running"><Id>2026-01-01T08:00:00Z</Id><Lap><Track>${trackpoints}</Track></Lap>` +
+    '<Notes>Morning run</Notes></Activity></Activities></TrainingCenterDatabase>';
+}
+
+function trackpoint(lat: number, seconds: number, extra = ''): string {
+  const time = new Date(Date.UTC(2026, 0, 1, 8, 0, seconds)).toISOString();
+  return `<Trackpoint><Time>${time}</Time><Position><LatitudeDegrees>${lat}</LatitudeDegrees>` +
+    `<LongitudeDegrees>21</LongitudeDegrees></Position>${extra}</Trackpoint>`;
+}
+
+describe('parseTcxPoints', () => {
+  it('reads trackpoints with heart rate and the speed extension', () => {
+    const parsed = parseTcxPoints(tcx(trackpoint(
+      52,
+      0,
+      '<AltitudeMeters>101.5</AltitudeMeters><HeartRateBpm><Value>142</Value></HeartRateBpm>' +
+        '<Extensions><ns3:TPX><ns3:Speed>3.2</ns3:Speed></ns3:TPX></Extensions>'
+    )));
+    expect(parsed?.name).toBe('Morning run');
+    expect(parsed?.sport).toBe('Running');
+    expect(parsed?.points).toEqual([
+      expect.objectContaining({ lat: 52, lng: 21, ele: 101.5, hr: 142, speed: 3.2, time: '2026-01-01T08:00:00.000Z' }),
+    ]);
+  });
+
+  it('skips trackpoints without a position', () => {
+    const parsed = parseTcxPoints(tcx(
+      '<Trackpoint><Time>2026-01-01T08:00:00Z</Time><HeartRateBpm><Value>120</Value></HeartRateBpm></Trackpoint>' +
+        trackpoint(52, 5)
+    ));
+    expect(parsed?.points).toHaveLength(1);
+    expect(parsed?.points[0].lat).toBe(52);
+  });
+
+  it('rejects documents that are not TCX', () => {
+    expect(parseTcxPoints(gpx('<trkpt lat="1" lon="1"/>'))).toBeNull();
+  });
+});
+
+describe('checkImportPoints', () => {
+  const point = (lat: number, seconds: number) => ({
+    lat,
+    lng: 21,
+    time: new Date(Date.UTC(2026, 0, 1, 8, 0, seconds)).toISOString(),
+  });
+
+  it('rejects a single point and tracks shorter than the minimum', () => {
+    expect(checkImportPoints([point(52, 0)])).toBe('no_track');
+    expect(checkImportPoints([point(52, 0), point(52.00001, 5)])).toBe('too_short');
+    expect(checkImportPoints([point(52, 0), point(52.001, 30)])).toBeNull();
+  });
+});
+
+describe('parseActivityFile', () => {
+  it('rejects GPX tracks that are too short', () => {
+    const result = parseActivityFile('gpx', gpx(
+      '<trkpt lat="52" lon="21"><time>2026-01-01T08:00:00Z</time></trkpt>' +
+        '<trkpt lat="52.00001" lon="21"><time>2026-01-01T08:00:05Z</time></trkpt>'
+    ), Date.UTC(2026, 0, 2));
+    expect(result).toEqual({ ok: false, error: 'too_short' });
+  });
+
+  it('imports a TCX file sorted by time', () => {
+    const result = parseActivityFile('tcx', tcx(trackpoint(52.002, 60) + trackpoint(52, 0) + trackpoint(52.001, 30)), Date.UTC(2026, 0, 2));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.activity.points.map((p) => p.lat)).toEqual([52, 52.001, 52.002]);
+      expect(result.activity.format).toBe('tcx');
+    }
+  });
+
+  it('reports a TCX file without timestamps', () => {
+    const untimed = (lat: number) =>
+      `<Trackpoint><Position><LatitudeDegrees>${lat}</LatitudeDegrees><LongitudeDegrees>21</LongitudeDegrees></Position></Trackpoint>`;
+    expect(parseActivityFile('tcx', tcx(untimed(52) + untimed(52.001)))).toEqual({ ok: false, error: 'no_timestamps' });
+  });
+});
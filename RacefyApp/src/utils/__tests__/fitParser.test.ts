@@ -0,0 +1,107 @@
+import { parseFit } from '../fitParser';
+
+/** Seconds between the Unix epoch and the FIT epoch */
+const FIT_EPOCH_OFFSET_SEC = 631065600;
+const DEGREES_TO_SEMICIRCLES = 2 ** 31 / 180;
+
+type Field = [num: number, size: number, baseType: number];
+
+const TIMESTAMP: Field = [253, 4, 0x86];
+const LAT: Field = [0, 4, 0x85];
+const LNG: Field = [1, 4, 0x85];
+const ALTITUDE: Field = [2, 2, 0x84];
+const HEART_RATE: Field = [3, 1, 0x02];
+const SPEED: Field = [6, 2, 0x84];
+
+function definition(localType: number, globalNum: number, fields: Field[], littleEndian = true): number[] {
+  const global = littleEndian ? [globalNum & 0xff, globalNum >> 8] : [globalNum >> 8, globalNum & 0xff];
+  return [0x40 | localType, 0, littleEndian ? 0 : 1, ...global, fields.length, ...fields.flat()];
+}
+
+function values(fields: Field[], raw: number[], littleEndian = true): number[] {
+  const bytes: number[] = [];
+  fields.forEach(([, size, baseType], i) => {
+    const view = new DataView(new ArrayBuffer(size));
+    const signed = (baseType & 0x1f) === 0x05;
+    if (size === 1) view.setUint8(0, raw[i]);
+    else if (size === 2) view.setUint16(0, raw[i], littleEndian);
+    else if (signed) view.setInt32(0, raw[i], littleEndian);
+    else view.setUint32(0, raw[i], littleEndian);
+    bytes.push(...new Uint8Array(view.buffer));
+  });
+  return bytes;
+}
+
+/** 12-byte header (no CRC) followed by the messages */
+function fitFile(messages: number[][]): Uint8Array {
+  const data = messages.flat();
+  const header = [12, 0x10, 0x08, 0x08, ...values([[0, 4, 0x86]], [data.length]), 0x2e, 0x46, 0x49, 0x54];
+  return new Uint8Array([...header, ...data]);
+}
+
+function semicircles(degrees: number): number {
+  return Math.round(degrees * DEGREES_TO_SEMICIRCLES);
+}
+
+const RECORD_FIELDS = [TIMESTAMP, LAT, LNG, ALTITUDE, HEART_RATE, SPEED];
+const T = 1_100_000_000;
+
+describe('parseFit', () => {
+  it('reads record fields with their scale and offset', () => {
+    const fit = parseFit(fitFile([
+      definition(0, 20, RECORD_FIELDS),
+      [0, ...values(RECORD_FIELDS, [T, semicircles(52.25), semicircles(-21.5), 3000, 150, 3500])],
+      definition(1, 18, [[5, 1, 0x00]]),
+      [1, 1],
+    ]));
+
+    expect(fit.sport).toBe('running');
+    expect(fit.records).toHaveLength(1);
+    const [record] = fit.records;
+    expect(record.timestamp).toBe((T + FIT_EPOCH_OFFSET_SEC) * 1000);
+    expect(record.lat).toBeCloseTo(52.25, 6);
+    expect(record.lng).toBeCloseTo(-21.5, 6);
+    expect(record).toMatchObject({ altitude: 100, heartRate: 150, speed: 3.5 });
+  });
+
+  it('skips invalid field values', () => {
+    const fit = parseFit(fitFile([
+      definition(0, 20, RECORD_FIELDS),
+      [0, ...values(RECORD_FIELDS, [T, 0x7fffffff, 0x7fffffff, 0xffff, 0xff, 0xffff])],
+    ]));
+    expect(fit.records[0]).toEqual({ timestamp: (T + FIT_EPOCH_OFFSET_SEC) * 1000 });
+  });
+
+  it('rolls compressed timestamps over past the 5-bit offset', () => {
+    const last = (T & ~0x1f) + 30;
+    const position: Field[] = [LAT, LNG];
+    const fit = parseFit(fitFile([
+      definition(0, 20, RECORD_FIELDS),
+      [0, ...values(RECORD_FIELDS, [last, semicircles(52), semicircles(21), 3000, 150, 3500])],
+      definition(1, 20, position),
+      // Compressed header: local type 1, time offset 2 (< 30, so the next 32 s window)
+      [0x80 | (1 << 5) | 2, ...values(position, [semicircles(52.001), semicircles(21)])],
+      [0x80 | (1 << 5) | 3, ...values(position, [semicircles(52.002), semicircles(21)])],
+    ]));
+
+    expect(fit.records.map((r) => (r.timestamp! / 1000) - FIT_EPOCH_OFFSET_SEC)).toEqual([last, last + 4, last + 5]);
+    expect(fit.records[2].lat).toBeCloseTo(52.002, 6);
+  });
+
+  it('reads big-endian definitions', () => {
+    const fit = parseFit(fitFile([
+      definition(0, 20, RECORD_FIELDS, false),
+      [0, ...values(RECORD_FIELDS, [T, semicircles(52.25), semicircles(-21.5), 3000, 150, 3500], false)],
+    ]));
+
+    expect(fit.records[0].timestamp).toBe((T + FIT_EPOCH_OFFSET_SEC) * 1000);
+    expect(fit.records[0].lat).toBeCloseTo(52.25, 6);
+    expect(fit.records[0]).toMatchObject({ altitude: 100, heartRate: 150, speed: 3.5 });
+  });
+
+  it('rejects files without a signature or with truncated messages', () => {
+    expect(() => parseFit(new Uint8Array(12))).toThrow('Missing .FIT signature');
+    const truncated = fitFile([definition(0, 20, RECORD_FIELDS), [0, 1, 2]]);
+    expect(() => parseFit(truncated)).toThrow('Truncated FIT data');
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  circleToPolygon,
+  isInsidePrivacyZone,
+  splitOutsidePrivacyZones,
+  trimTrackEnds,
+} from '../privacyMask';
+import { haversine } from '../routeNavigation';
+import type { PrivacyZone } from '../../types/api';
+
+/** ~111 m per step of 0.001° latitude */
+const STEP_M = 111.2;
+
+function line(count: number): { lat: number; lng: number }[] {
+  return Array.from({ length: count }, (_, i) => ({ lat: 52 + i * 0.001, lng: 21 }));
+}
+
+function zone(overrides: Partial<PrivacyZone>): PrivacyZone {
+  return {
+    id: 1,
+    name: 'Home',
+    type: 'home',
+    latitude: 52,
+    longitude: 21,
+    radius_meters: 200,
+    is_active: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const square: [number, number][] = [
+  [20.999, 52.0035],
+  [21.001, 52.0035],
+  [21.001, 52.0065],
+  [20.999, 52.0065],
+];
+
+describe('isInsidePrivacyZone', () => {
+  it('checks circle zones by distance from the center', () => {
+    const circle = [zone({ latitude: 52.005 })];
+    expect(isInsidePrivacyZone({ lat: 52.006, lng: 21 }, circle)).toBe(true);
+    expect(isInsidePrivacyZone({ lat: 52.007, lng: 21 }, circle)).toBe(false);
+  });
+
+  it('checks polygon zones by ray casting', () => {
+    const polygon = [zone({ shape: 'polygon', polygon: square })];
+    expect(isInsidePrivacyZone({ lat: 52.005, lng: 21 }, polygon)).toBe(true);
+    expect(isInsidePrivacyZone({ lat: 52.005, lng: 21.0015 }, polygon)).toBe(false);
+    expect(isInsidePrivacyZone({ lat: 52.007, lng: 21 }, polygon)).toBe(false);
+  });
+
+  it('ignores inactive zones', () => {
+    expect(isInsidePrivacyZone({ lat: 52, lng: 21 }, [zone({ is_active: false })])).toBe(false);
+  });
+});
+
+describe('splitOutsidePrivacyZones', () => {
+  it('splits a track crossing a circle zone', () => {
+    const segments = splitOutsidePrivacyZones(line(11), [zone({ latitude: 52.005 })]);
+    expect(segments.map((segment) => segment.length)).toEqual([4, 4]);
+    expect(segments[0][3].lat).toBeCloseTo(52.003);
+    expect(segments[1][0].lat).toBeCloseTo(52.007);
+  });
+
+  it('splits a track crossing a polygon zone', () => {
+    const segments = splitOutsidePrivacyZones(line(11), [zone({ shape: 'polygon', polygon: square })]);
+    expect(segments.map((segment) => segment.length)).toEqual([4, 4]);
+  });
+
+  it('drops a track that starts inside a zone up to where it leaves', () => {
+    const segments = splitOutsidePrivacyZones(line(6), [zone({})]);
+    expect(segments).toHaveLength(1);
+    expect(segments[0][0].lat).toBeCloseTo(52.002);
+  });
+
+  it('returns the whole track when there are no active zones', () => {
+    const points = line(3);
+    expect(splitOutsidePrivacyZones(points, [])).toEqual([points]);
+    expect(splitOutsidePrivacyZones([], [])).toEqual([]);
+  });
+});
+
+describe('trimTrackEnds', () => {
+  it('drops the requested distance from each end', () => {
+    const trimmed = trimTrackEnds(line(11), { hide_start_meters: 2 * STEP_M, hide_end_meters: 3 * STEP_M - 1 });
+    expect(trimmed[0].lat).toBeCloseTo(52.002);
+    expect(trimmed[trimmed.length - 1].lat).toBeCloseTo(52.007);
+  });
+
+  it('leaves nothing when the trim is longer than the track', () => {
+    expect(trimTrackEnds(line(5), { hide_start_meters: 300, hide_end_meters: 300 })).toEqual([]);
+    expect(trimTrackEnds(line(5), { hide_start_meters: 1000, hide_end_meters: 0 })).toEqual([]);
+  });
+
+  it('returns the track unchanged without a trim', () => {
+    const points = line(3);
+    expect(trimTrackEnds(points, { hide_start_meters: 0, hide_end_meters: 0 })).toBe(points);
+  });
+});
+
+describe('circleToPolygon', () => {
+  it('surrounds the whole circle', () => {
+    const vertices = circleToPolygon(52, 21, 200, 8);
+    const polygon = [zone({ shape: 'polygon', polygon: vertices })];
+    // Every vertex lies outside the circle, and points on the circle between them stay covered
+    vertices.forEach(([lng, lat]) => expect(haversine([lng, lat], [21, 52])).toBeGreaterThan(200));
+    for (let i = 0; i < 32; i++) {
+      const angle = (2 * Math.PI * (i + 0.5)) / 32;
+      const onCircle = {
+        lat: 52 + (199 / 6371000) * (180 / Math.PI) * Math.sin(angle),
+        lng: 21 + ((199 / 6371000) * (180 / Math.PI) * Math.cos(angle)) / Math.cos((52 * Math.PI) / 180),
+      };
+      expect(isInsidePrivacyZone(onCircle, polygon)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,208 @@
+import { createTrackProcessor } from '../trackProcessor';
+import type { GpsProfile } from '../../config/gpsProfiles';
+import type { GpsPoint } from '../../types/api';
+
+const PROFILE: GpsProfile = {
+  enabled: true,
+  accuracyThreshold: 30,
+  minDistanceThreshold: 3,
+  maxRealisticSpeed: 20,
+  minElevationChange: 3,
+  timeInterval: 3000,
+  distanceInterval: 5,
+  // No averaging, so distances in these tests are exact
+  smoothingBufferSize: 1,
+  smoothingStrategy: 'weighted_average',
+  stationarySpeedThreshold: 0.5,
+  paceSmoothingFactor: 0.3,
+  paceWindowSeconds: 45,
+  minDistanceForPace: 50,
+  minSegmentDistance: 20,
+  backgroundSyncInterval: 240000,
+  backgroundSyncEnabled: true,
+};
+
+const START = Date.UTC(2026, 0, 1, 8, 0, 0);
+const METERS_PER_DEGREE_LAT = 111195;
+
+/** Fix `meters` north of the origin, `seconds` after the start */
+function fix(meters: number, seconds: number, extra: Partial<GpsPoint> = {}): GpsPoint {
+  return {
+    lat: 52 + meters / METERS_PER_DEGREE_LAT,
+    lng: 21,
+    time: new Date(START + seconds * 1000).toISOString(),
+    accuracy: 5,
+    speed: 3,
+    ...extra,
+  };
+}
+
+describe('createTrackProcessor (foreground)', () => {
+  it('rejects fixes above the accuracy threshold', () => {
+    const processor = createTrackProcessor(PROFILE);
+    const result = processor.process(fix(0, 0, { accuracy: 50 }));
+    expect(result).toMatchObject({ accepted: false, reason: 'poor_accuracy' });
+    expect(processor.getLastPosition()).toBeNull();
+  });
+
+  it('uses the first fix as a baseline and accumulates distance after it', () => {
+    const processor = createTrackProcessor(PROFILE);
+    expect(processor.process(fix(0, 0))).toMatchObject({ accepted: false, reason: 'baseline' });
+
+    const results = [fix(10, 3), fix(20, 6), fix(30, 9)].map((p) => processor.process(p));
+    expect(results.every((r) => r.accepted)).toBe(true);
+    expect(processor.getStats().distance).toBeCloseTo(30, 0);
+  });
+
+  it('moves the baseline on every fix that passes the accuracy filter', () => {
+    const processor = createTrackProcessor(PROFILE);
+    processor.process(fix(0, 0));
+    // Each step is below the 3 m threshold, measured from the previous fix
+    const results = [fix(2, 3), fix(4, 6), fix(6, 9)].map((p) => processor.process(p));
+    expect(results.map((r) => !r.accepted && r.reason)).toEqual([
+      'small_movement',
+      'small_movement',
+      'small_movement',
+    ]);
+    expect(processor.getStats().distance).toBe(0);
+  });
+
+  it('uses a stricter movement threshold when stationary', () => {
+    const processor = createTrackProcessor(PROFILE);
+    processor.process(fix(0, 0, { speed: 0.1 }));
+    expect(processor.process(fix(6, 3, { speed: 0.1 }))).toMatchObject({
+      accepted: false,
+      reason: 'small_movement',
+    });
+  });
+
+  it('rejects jumps faster than the profile allows', () => {
+    const processor = createTrackProcessor(PROFILE);
+    processor.process(fix(0, 0));
+    expect(processor.process(fix(500, 3))).toMatchObject({ accepted: false, reason: 'unrealistic_speed' });
+  });
+
+  it('discards the first point after a long gap and accepts the next one', () => {
+    const processor = createTrackProcessor(PROFILE);
+    processor.process(fix(0, 0));
+    expect(processor.process(fix(10, 3)).accepted).toBe(true);
+    // 2 minutes later at walking speed — realistic, but after the gap threshold
+    expect(processor.process(fix(200, 123))).toMatchObject({ accepted: false, reason: 'segment_gap' });
+    expect(processor.process(fix(210, 126)).accepted).toBe(true);
+  });
+
+  it('counts elevation gain above the noise threshold only', () => {
+    const processor = createTrackProcessor(PROFILE);
+    processor.process(fix(0, 0, { ele: 100 }));
+    processor.process(fix(10, 3, { ele: 102 }));
+    processor.process(fix(20, 6, { ele: 106 }));
+    expect(processor.getStats().elevation_gain).toBe(4);
+  });
+
+  it('treats the next fix as a baseline after rebaseline()', () => {
+    const processor = createTrackProcessor(PROFILE);
+    processor.process(fix(0, 0));
+    processor.process(fix(10, 3));
+    processor.rebaseline();
+    expect(processor.process(fix(20, 6))).toMatchObject({ accepted: false, reason: 'baseline' });
+    expect(processor.process(fix(30, 9)).accepted).toBe(true);
+  });
+
+  it('smooths positions with the weighted average', () => {
+    const processor = createTrackProcessor({ ...PROFILE, smoothingBufferSize: 3 });
+    processor.process(fix(0, 0));
+    processor.process(fix(10, 3));
+    // Weighted (1, 2) average of 0 m and 10 m
+    expect(processor.getLastPosition()!.lat).toBeCloseTo(52 + 6.667 / METERS_PER_DEGREE_LAT, 7);
+  });
+});
+
+describe('createTrackProcessor (background)', () => {
+  it('keeps the first fix instead of using it as a baseline', () => {
+    const processor = createTrackProcessor(PROFILE, undefined, 'background');
+    expect(processor.process(fix(0, 0))).toMatchObject({ accepted: true, distance: 0 });
+  });
+
+  it('only moves the reference position on accepted fixes', () => {
+    const processor = createTrackProcessor(PROFILE, undefined, 'background');
+    processor.process(fix(0, 0));
+    expect(processor.process(fix(2, 3))).toMatchObject({ accepted: false, reason: 'small_movement' });
+    // 4 m from the last accepted fix, even though only 2 m from the rejected one
+    const result = processor.process(fix(4, 6));
+    expect(result.accepted).toBe(true);
+    expect(processor.getStats().distance).toBeCloseTo(4, 1);
+  });
+
+  it('does not smooth positions', () => {
+    const processor = createTrackProcessor({ ...PROFILE, smoothingBufferSize: 3 }, undefined, 'background');
+    processor.process(fix(0, 0));
+    processor.process(fix(10, 3));
+    expect(processor.getLastPosition()!.lat).toBeCloseTo(fix(10, 3).lat, 9);
+  });
+
+  it('has no gap filter', () => {
+    const processor = createTrackProcessor(PROFILE, undefined, 'background');
+    processor.process(fix(0, 0));
+    expect(processor.process(fix(300, 300)).accepted).toBe(true);
+  });
+
+  it('rejects unrealistic jumps and keeps measuring from the last accepted fix', () => {
+    const processor = createTrackProcessor(PROFILE, undefined, 'background');
+    processor.process(fix(0, 0));
+    expect(processor.process(fix(500, 3))).toMatchObject({ accepted: false, reason: 'unrealistic_speed' });
+    expect(processor.process(fix(10, 6)).accepted).toBe(true);
+  });
+
+  it('continues from a seeded position', () => {
+    const processor = createTrackProcessor(PROFILE, undefined, 'background');
+    const seed = fix(0, 0);
+    processor.seedPosition({ lat: seed.lat, lng: seed.lng, timestamp: START });
+    expect(processor.process(fix(1, 3))).toMatchObject({ accepted: false, reason: 'small_movement' });
+  });
+});
+
+describe('createTrackProcessor.ingestFiltered', () => {
+  it('accumulates already-filtered points and drops the first point after a gap', () => {
+    const processor = createTrackProcessor(PROFILE);
+    const results = processor.ingestFiltered([fix(0, 0), fix(10, 3), fix(200, 123), fix(210, 126)]);
+    expect(results.map((r) => r.accepted)).toEqual([true, true, false, true]);
+    expect(processor.getStats().distance).toBeCloseTo(20, 0);
+  });
+});
+
+describe('createTrackProcessor (kalman)', () => {
+  const KALMAN: GpsProfile = { ...PROFILE, smoothingStrategy: 'kalman' };
+  const METERS_PER_DEGREE_LNG = METERS_PER_DEGREE_LAT * Math.cos((52 * Math.PI) / 180);
+
+  /** Fix at 3 m/s north, pushed `eastNoise` meters sideways */
+  const noisyFix = (seconds: number, eastNoise: number) =>
+    fix(seconds * 3, seconds, { lng: 21 + eastNoise / METERS_PER_DEGREE_LNG });
+
+  it('converges on the true line and speed through noisy fixes', () => {
+    const processor = createTrackProcessor(KALMAN);
+    for (let i = 0; i <= 30; i++) {
+      processor.process(noisyFix(i * 3, i % 2 === 0 ? 4 : -4));
+    }
+    const position = processor.getLastPosition()!;
+    // Well inside the ±4 m the raw fixes jump around
+    expect(Math.abs(position.lng - 21) * METERS_PER_DEGREE_LNG).toBeLessThan(3);
+    expect(Math.abs(position.lat - fix(270, 90).lat) * METERS_PER_DEGREE_LAT).toBeLessThan(3);
+    expect(position.speed).toBeCloseTo(3, 0);
+  });
+
+  it('starts over after a long gap instead of extrapolating the old velocity', () => {
+    const processor = createTrackProcessor(KALMAN);
+    for (let i = 0; i <= 10; i++) {
+      processor.process(noisyFix(i * 3, 0));
+    }
+    // Stopped for two minutes, then a fix just 10 m further on
+    const afterGap = fix(100, 150, { speed: 0 });
+    expect(processor.process(afterGap)).toMatchObject({ accepted: false, reason: 'segment_gap' });
+    expect(processor.getLastPosition()).toMatchObject({ speed: 0 });
+    expect(processor.getLastPosition()!.lat).toBeCloseTo(afterGap.lat, 7);
+
+    // Still standing there: the estimate doesn't drift on along the old heading
+    processor.process(fix(100, 153, { speed: 0 }));
+    expect(Math.abs(processor.getLastPosition()!.lat - afterGap.lat) * METERS_PER_DEGREE_LAT).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,17 @@
+import { parseGpxForReplay } from '../trackReplay';
+
+describe('parseGpxForReplay', () => {
+  it('keeps the point after a self-closing trkpt', () => {
+    const fixes = parseGpxForReplay(
+      '<gpx version="1.1"><trk><trkseg>' +
+        '<trkpt lat="1" lon="1"/>' +
+        '<trkpt lat="2" lon="2"><time>2026-01-01T08:00:03Z</time>' +
+        '<extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>3.5</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>' +
+        '</trkpt></trkseg></trk></gpx>'
+    );
+    expect(fixes).toHaveLength(2);
+    expect(fixes).toContainEqual(
+      expect.objectContaining({ lat: 2, lng: 2, speed: 3.5, timestamp: Date.UTC(2026, 0, 1, 8, 0, 3) })
+    );
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Activity export in GPX, TCX and GeoJSON.
+ *
+ * - GPX goes through utils/gpxExport.ts
+ * - TCX carries laps (from the per-km `ActivitySplit`s when we have them),
+ *   heart rate, cadence and calories for training tools
+ * - GeoJSON writes one LineString feature per activity for GIS tools
+ *
+ * Every builder takes a list so the same code serves single-activity and
+ * bulk (date range) exports.
+ *
+ * Tracks are trimmed and cut at the user's privacy zones before anything is
+ * written (utils/privacyMask.ts) unless the export opts out with
+ * `hidePrivacyZones: false`. The parts of a cut track are written as GPX
+ * segments, TCX tracks or GeoJSON lines, with no distance across the cuts.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import { logger } from '../services/logger';
+import { getPrivacyMask } from '../services/privacyZones';
+import { buildGpxDocument, escapeXml, XML_HEADER, type GpxExportInput } from './gpxExport';
+import { haversine } from './routeNavigation';
+import { matchSportSlug } from './activityImport';
+import { applyPrivacyMask, type PrivacyMask } from './privacyMask';
+import type { ActivitySplit, GpsPoint, TrackPoint } from '../types/api';
+
+export type ActivityExportFormat = 'gpx' | 'tcx' | 'geojson';
+
+export const ACTIVITY_EXPORT_FORMATS: ActivityExportFormat[] = ['gpx', 'tcx', 'geojson'];
+
+export interface ActivityExportInput extends GpxExportInput {
+  /** Per-km splits from the activity analysis, written as TCX laps */
+  splits?: ActivitySplit[];
+  calories?: number | null;
+  /** Meters, as recorded by the server */
+  distance?: number | null;
+  /** Moving seconds, as recorded by the server */
+  duration?: number | null;
+}
+
+export interface ActivityExportOptions {
+  /** Apply the user's start/end trim and privacy zones (default true) */
+  hidePrivacyZones?: boolean;
+}
+
+export type ActivityExportResult =
+  | { ok: true }
+  | { ok: false; reason: 'empty' | 'privacy_zones_unavailable' | 'failed' };
+
+const FORMAT_SHARE_OPTIONS: Record<ActivityExportFormat, { extension: string; mimeType: string; UTI: string }> = {
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', UTI: 'com.topografix.gpx' },
+  tcx: { extension: 'tcx', mimeType: 'application/vnd.garmin.tcx+xml', UTI: 'public.xml' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', UTI: 'public.json' },
+};
+
+/** Server track points (`/activities/{id}/track-points`) as export points */
+export function trackPointsToGpsPoints(points: TrackPoint[]): GpsPoint[] {
+  return points.map((p) => ({
+    lat: p.lat,
+    lng: p.lng,
+    ele: p.elevation,
+    time: p.timestamp,
+    speed: p.speed,
+  }));
+}
+
+/** Drop the trimmed ends and the points inside privacy zones; a track crossing one keeps its parts as segments */
+export function maskActivityExportInput(input: ActivityExportInput, mask: PrivacyMask): ActivityExportInput {
+  const segments = applyPrivacyMask(input.points, mask);
+  return { ...input, points: segments.flat(), segments };
+}
+
+// ─── TCX ───
+
+type TcxSport = 'Running' | 'Biking' | 'Other';
+
+function toTcxSport(sportType: string | undefined): TcxSport {
+  const slug = matchSportSlug(sportType);
+  if (slug === 'running') return 'Running';
+  if (slug === 'cycling') return 'Biking';
+  return 'Other';
+}
+
+/** Running cadence is stored as steps/min; TCX RunCadence counts one foot */
+function toTcxCadence(cadence: number, sport: TcxSport): number {
+  return Math.round(sport === 'Running' ? cadence / 2 : cadence);
+}
+
+interface TcxLap {
+  points: GpsPoint[];
+  /** Cumulative distance (m) at each point, from the start of the activity */
+  distances: number[];
+  /** Whether each point starts a track segment (the track was cut at a privacy zone before it) */
+  segmentStarts: boolean[];
+  /** Lap distance in meters — the split's own distance when there is one */
+  distance: number;
+  split?: ActivitySplit;
+}
+
+function timeOf(point: GpsPoint | undefined): number | null {
+  if (!point?.time) return null;
+  const time = new Date(point.time).getTime();
+  return Number.isFinite(time) ? time : null;
+}
+
+/** Distance across a segment gap isn't counted — the route through the zone is unknown */
+function cumulativeDistances(points: GpsPoint[], segmentStarts: boolean[]): number[] {
+  const distances: number[] = [];
+  let total = 0;
+  points.forEach((point, i) => {
+    if (i > 0 && !segmentStarts[i]) {
+      total += haversine([points[i - 1].lng, points[i - 1].lat], [point.lng, point.lat]);
+    }
+    distances.push(total);
+  });
+  return distances;
+}
+
+/**
+ * Cut the track at each split's cumulative distance. Split distances come
+ * from the server and are scaled to our haversine total so the cuts land on
+ * the right points; whatever is left after the last split becomes one more lap.
+ */
+function buildLaps(input: ActivityExportInput, points: GpsPoint[], segmentStarts: boolean[]): TcxLap[] {
+  const distances = cumulativeDistances(points, segmentStarts);
+  const splits = input.splits ?? [];
+  const localTotal = distances[distances.length - 1] ?? 0;
+  if (splits.length === 0) return [{ points, distances, segmentStarts, distance: localTotal }];
+
+  const serverTotal = input.distance || splits[splits.length - 1].cumulative_distance || localTotal;
+  const scale = serverTotal > 0 ? localTotal / serverTotal : 1;
+
+  const laps: TcxLap[] = [];
+  let start = 0;
+  let previousCumulative = 0;
+  for (const split of splits) {
+    const boundary = split.cumulative_distance * scale;
+    let end = start;
+    while (end < points.length - 1 && distances[end] < boundary) end++;
+    // Laps share their boundary point so no distance is lost between them,
+    // unless it starts a segment: nothing is covered across the gap
+    const lapEnd = end > start && segmentStarts[end] ? end : end + 1;
+    laps.push({
+      points: points.slice(start, lapEnd),
+      distances: distances.slice(start, lapEnd),
+      segmentStarts: segmentStarts.slice(start, lapEnd),
+      distance: split.cumulative_distance - previousCumulative,
+      split,
+    });
+    previousCumulative = split.cumulative_distance;
+    start = end;
+    if (start >= points.length - 1) break;
+  }
+  if (start < points.length - 1) {
+    laps.push({
+      points: points.slice(start),
+      distances: distances.slice(start),
+      segmentStarts: segmentStarts.slice(start),
+      distance: serverTotal > previousCumulative
+        ? serverTotal - previousCumulative
+        : localTotal - distances[start],
+    });
+  }
+  return laps;
+}
+
+function lapSeconds(lap: TcxLap): number {
+  if (lap.split) return lap.split.duration;
+  const first = timeOf(lap.points[0]);
+  const last = timeOf(lap.points[lap.points.length - 1]);
+  return first !== null && last !== null ? Math.max(0, Math.round((last - first) / 1000)) : 0;
+}
+
+function lapHeartRate(lap: TcxLap): { avg: number | null; max: number | null } {
+  if (lap.split) return { avg: lap.split.avg_heart_rate, max: lap.split.max_heart_rate };
+  const rates = lap.points.map((p) => p.hr).filter((hr): hr is number => hr !== undefined && hr > 0);
+  if (rates.length === 0) return { avg: null, max: null };
+  return {
+    avg: Math.round(rates.reduce((sum, hr) => sum + hr, 0) / rates.length),
+    max: Math.max(...rates),
+  };
+}
+
+function lapCadence(lap: TcxLap): number | null {
+  if (lap.split) return lap.split.avg_cadence;
+  const values = lap.points.map((p) => p.cadence).filter((c): c is number => c !== undefined && c > 0);
+  return values.length > 0 ? values.reduce((sum, c) => sum + c, 0) / values.length : null;
+}
+
+function lapMaxSpeed(lap: TcxLap): number | null {
+  if (lap.split) return lap.split.max_speed;
+  const speeds = lap.points.map((p) => p.speed).filter((s): s is number => s !== undefined && s >= 0);
+  return speeds.length > 0 ? Math.max(...speeds) : null;
+}
+
+function buildTcxTrackpoint(point: GpsPoint, distance: number, sport: TcxSport): string {
+  const parts: string[] = [`            <Time>${escapeXml(point.time!)}</Time>`];
+  parts.push(
+    '            <Position>',
+    `              <LatitudeDegrees>${point.lat}</LatitudeDegrees>`,
+    `              <LongitudeDegrees>${point.lng}</LongitudeDegrees>`,
+    '            </Position>'
+  );
+  if (point.ele != null) parts.push(`            <AltitudeMeters>${point.ele}</AltitudeMeters>`);
+  parts.push(`            <DistanceMeters>${distance.toFixed(1)}</DistanceMeters>`);
+  if (point.hr != null && point.hr > 0) {
+    parts.push(`            <HeartRateBpm><Value>${Math.round(point.hr)}</Value></HeartRateBpm>`);
+  }
+  if (sport !== 'Running' && point.cadence != null) {
+    parts.push(`            <Cadence>${toTcxCadence(point.cadence, sport)}</Cadence>`);
+  }
+
+  const extensions: string[] = [];
+  if (point.speed != null) extensions.push(`<ns3:Speed>${point.speed}</ns3:Speed>`);
+  if (sport === 'Running' && point.cadence != null) {
+    extensions.push(`<ns3:RunCadence>${toTcxCadence(point.cadence, sport)}</ns3:RunCadence>`);
+  }
+  if (extensions.length > 0) {
+    parts.push(`            <Extensions><ns3:TPX>${extensions.join('')}</ns3:TPX></Extensions>`);
+  }
+
+  return ['          <Trackpoint>', ...parts, '          </Trackpoint>'].join('\n');
+}
+
+function buildTcxLap(lap: TcxLap, sport: TcxSport, calories: number): string {
+  const heartRate = lapHeartRate(lap);
+  const cadence = lapCadence(lap);
+  const maxSpeed = lapMaxSpeed(lap);
+
+  const parts: string[] = [
+    `        <TotalTimeSeconds>${lapSeconds(lap)}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${lap.distance.toFixed(1)}</DistanceMeters>`,
+  ];
+  if (maxSpeed !== null) parts.push(`        <MaximumSpeed>${maxSpeed}</MaximumSpeed>`);
+  parts.push(`        <Calories>${calories}</Calories>`);
+  if (heartRate.avg) parts.push(`        <AverageHeartRateBpm><Value>${heartRate.avg}</Value></AverageHeartRateBpm>`);
+  if (heartRate.max) parts.push(`        <MaximumHeartRateBpm><Value>${heartRate.max}</Value></MaximumHeartRateBpm>`);
+  parts.push('        <Intensity>Active</Intensity>');
+  if (sport !== 'Running' && cadence !== null) parts.push(`        <Cadence>${toTcxCadence(cadence, sport)}</Cadence>`);
+  parts.push(`        <TriggerMethod>${lap.split ? 'Distance' : 'Manual'}</TriggerMethod>`);
+
+  // One <Track> per segment, so a track cut at a privacy zone isn't drawn across it
+  const tracks: string[][] = [];
+  lap.points.forEach((point, i) => {
+    if (i === 0 || lap.segmentStarts[i]) tracks.push([]);
+    if (point.time) tracks[tracks.length - 1].push(buildTcxTrackpoint(point, lap.distances[i], sport));
+  });
+  for (const trackpoints of tracks) {
+    if (trackpoints.length > 0) parts.push('        <Track>', ...trackpoints, '        </Track>');
+  }
+
+  if (sport === 'Running' && cadence !== null) {
+    parts.push(
+      `        <Extensions><ns3:LX><ns3:AvgRunCadence>${toTcxCadence(cadence, sport)}</ns3:AvgRunCadence></ns3:LX></Extensions>`
+    );
+  }
+
+  const startTime = lap.points.find((p) => p.time)?.time;
+  const open = startTime ? `      <Lap StartTime="${escapeXml(startTime)}">` : '      <Lap>';
+  return [open, ...parts, '      </Lap>'].join('\n');
+}
+
+function buildTcxActivity(input: ActivityExportInput): string {
+  const sport = toTcxSport(input.sportType);
+  const segments = (input.segments ?? [input.points])
+    .map((segment) => segment.filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lng)))
+    .filter((segment) => segment.length > 0);
+  const points = segments.flat();
+  const segmentStarts = segments.flatMap((segment) => segment.map((_, i) => i === 0));
+  const laps = buildLaps(input, points, segmentStarts);
+
+  // TCX requires calories on every lap: spread the total by lap duration
+  const totalSeconds = laps.reduce((sum, lap) => sum + lapSeconds(lap), 0);
+  const totalCalories = Math.max(0, Math.round(input.calories ?? 0));
+  let caloriesLeft = totalCalories;
+  const lapXml = laps.map((lap, i) => {
+    const share = i === laps.length - 1
+      ? caloriesLeft
+      : totalSeconds > 0
+        ? Math.min(caloriesLeft, Math.round((totalCalories * lapSeconds(lap)) / totalSeconds))
+        : 0;
+    caloriesLeft -= share;
+    return buildTcxLap(lap, sport, share);
+  });
+
+  const id = input.startedAt ?? points.find((p) => p.time)?.time ?? new Date(0).toISOString();
+  return [
+    `    <Activity Sport="${sport}">`,
+    `      <Id>${escapeXml(id)}</Id>`,
+    ...lapXml,
+    input.name ? `      <Notes>${escapeXml(input.name)}</Notes>` : '',
+    '    </Activity>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function buildTcxDocument(inputs: ActivityExportInput[]): string {
+  return [
+    XML_HEADER,
+    '<TrainingCenterDatabase',
+    '  xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"',
+    '  xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">',
+    '  <Activities>',
+    ...inputs.map(buildTcxActivity),
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+  ].join('\n');
+}
+
+// ─── GeoJSON ───
+
+/**
+ * FeatureCollection with a LineString per activity (MultiLineString when the
+ * track was cut at privacy zones). Per-point times and heart
+ * rates go into `coordTimes` / `heartRates` properties (the togeojson
+ * convention), so GIS tools can still read the geometry as plain GeoJSON.
+ */
+export function buildGeoJsonDocument(inputs: ActivityExportInput[]): string {
+  const features = inputs.map((input) => {
+    const points = input.points.filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lng));
+    const properties: Record<string, unknown> = {
+      activity_id: input.activityId,
+      name: input.name ?? null,
+      sport: input.sportType ?? null,
+      started_at: input.startedAt ?? null,
+      distance: input.distance ?? null,
+      duration: input.duration ?? null,
+      calories: input.calories ?? null,
+    };
+    if (points.some((p) => p.time)) properties.coordTimes = points.map((p) => p.time ?? null);
+    if (points.some((p) => p.hr != null)) properties.heartRates = points.map((p) => p.hr ?? null);
+
+    const toPosition = (p: GpsPoint) => (p.ele != null ? [p.lng, p.lat, p.ele] : [p.lng, p.lat]);
+    const segments = input.segments?.map((segment) =>
+      segment.filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lng))
+    );
+
+    return {
+      type: 'Feature',
+      geometry:
+        segments && segments.length > 1
+          ? { type: 'MultiLineString', coordinates: segments.map((segment) => segment.map(toPosition)) }
+          : { type: 'LineString', coordinates: points.map(toPosition) },
+      properties,
+    };
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features });
+}
+
+// ─── Files & sharing ───
+
+export function buildActivityExportDocument(
+  format: ActivityExportFormat,
+  inputs: ActivityExportInput[],
+  title?: string
+): string {
+  switch (format) {
+    case 'gpx':
+      return buildGpxDocument(inputs, title);
+    case 'tcx':
+      return buildTcxDocument(inputs);
+    case 'geojson':
+      return buildGeoJsonDocument(inputs);
+  }
+}
+
+export function activityExportFileName(format: ActivityExportFormat, baseName: string): string {
+  return `${baseName}.${FORMAT_SHARE_OPTIONS[format].extension}`;
+}
+
+/**
+ * Build the file for `inputs` and present the OS share sheet. Fails with
+ * `privacy_zones_unavailable` when the zones can't be loaded (offline and
+ * never fetched) rather than exporting an unmasked track.
+ */
+export async function exportActivitiesAndShare(
+  format: ActivityExportFormat,
+  inputs: ActivityExportInput[],
+  baseName: string,
+  title?: string,
+  options: ActivityExportOptions = {}
+): Promise<ActivityExportResult> {
+  let withPoints = inputs.filter((input) => input.points.length > 0);
+  if (withPoints.length > 0 && options.hidePrivacyZones !== false) {
+    const mask = await getPrivacyMask();
+    if (mask === null) {
+      logger.warn('activity', 'Activity export: privacy zones unavailable', { format, baseName });
+      return { ok: false, reason: 'privacy_zones_unavailable' };
+    }
+    withPoints = withPoints
+      .map((input) => maskActivityExportInput(input, mask))
+      .filter((input) => input.points.length > 0);
+  }
+  if (withPoints.length === 0) {
+    logger.warn('activity', 'Activity export: no points', { format, baseName });
+    return { ok: false, reason: 'empty' };
+  }
+
+  try {
+    const { mimeType, UTI } = FORMAT_SHARE_OPTIONS[format];
+    const uri = `${FileSystem.cacheDirectory}${activityExportFileName(format, baseName)}`;
+    await FileSystem.writeAsStringAsync(uri, buildActivityExportDocument(format, withPoints, title), {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (!isAvailable) {
+      logger.warn('activity', 'Activity export: Sharing not available on this device', {
+        format,
+        platform: Platform.OS,
+      });
+      return { ok: false, reason: 'failed' };
+    }
+
+    await Sharing.shareAsync(uri, {
+      mimeType,
+      dialogTitle: `Export ${format.toUpperCase()}`,
+      UTI,
+    });
+
+    logger.activity('Activities exported', {
+      format,
+      activities: withPoints.length,
+      pointsCount: withPoints.reduce((sum, input) => sum + input.points.length, 0),
+      hidePrivacyZones: options.hidePrivacyZones !== false,
+    });
+    return { ok: true };
+  } catch (err) {
+    logger.error('activity', 'Activity export failed', { format, baseName, error: err });
+    return { ok: false, reason: 'failed' };
+  }
+}
+
+/** Single-activity export, named `racefy-activity-<id>.<ext>` */
+export function exportActivityAndShare(
+  format: ActivityExportFormat,
+  input: ActivityExportInput,
+  options?: ActivityExportOptions
+): Promise<ActivityExportResult> {
+  return exportActivitiesAndShare(format, [input], `racefy-activity-${input.activityId}`, undefined, options);
+}
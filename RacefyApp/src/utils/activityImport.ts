@@ -0,0 +1,321 @@
+/**
+ * On-device parsing of activity files before import.
+ *
+ * Pure helpers used by the import screen (screens/activities/GpxImportScreen.tsx):
+ * - Parse GPX 1.0/1.1 (with Garmin TrackPointExtension hr/cad/speed), TCX and FIT
+ * - Reject files the server would refuse, with a reason the UI can translate
+ * - Summarize and trim the parsed track for the preview
+ */
+
+import { haversine } from './routeNavigation';
+import { base64ToBytes, parseFit } from './fitParser';
+import { readAttribute, readBlock, readElement, toNumber } from './xml';
+import type { GeoJSONLineString, GpsPoint } from '../types/api';
+
+export type ActivityFileFormat = 'gpx' | 'tcx' | 'fit';
+
+/** Why a file can't be imported — maps to `gpxImport.errors.<code>` */
+export type ActivityImportErrorCode =
+  | 'unsupported_format'
+  | 'too_large'
+  | 'corrupt'
+  | 'no_track'
+  | 'no_timestamps'
+  | 'too_short'
+  | 'future_date';
+
+export interface ParsedActivityFile {
+  format: ActivityFileFormat;
+  name?: string;
+  /** Sport as written in the file ("running", "Biking"…), used to preselect a sport type */
+  sport?: string;
+  /** Chronological points, all with lat/lng and time */
+  points: GpsPoint[];
+}
+
+export type ActivityFileParseResult =
+  | { ok: true; activity: ParsedActivityFile }
+  | { ok: false; error: ActivityImportErrorCode };
+
+export interface ActivityFileSummary {
+  startedAt: string;
+  /** Meters */
+  distance: number;
+  /** Elapsed seconds from first to last point */
+  duration: number;
+  elevationGain: number;
+  elevationLoss: number;
+  avgHeartRate: number | null;
+  maxHeartRate: number | null;
+}
+
+/** Upload limit of the import endpoint */
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+
+/** The server needs at least a start and an end point */
+const MIN_IMPORT_POINTS = 2;
+
+/** Tracks shorter than this are rejected as empty activities */
+const MIN_IMPORT_DISTANCE_M = 10;
+
+/** Allow for device clocks running slightly ahead */
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/** Ignore elevation changes smaller than this (barometer / GPS noise) */
+const ELEVATION_NOISE_M = 2;
+
+export function detectActivityFileFormat(fileName: string): ActivityFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'gpx' || extension === 'tcx' || extension === 'fit' ? extension : null;
+}
+
+function toIsoTime(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+function toInteger(value: string | undefined): number | undefined {
+  const parsed = toNumber(value);
+  return parsed !== undefined ? Math.round(parsed) : undefined;
+}
+
+/**
+ * GPX 1.0 and 1.1 `<trkpt>`s; hr/cad/speed come from TrackPointExtension or 1.0's `<speed>`.
+ * `pointTag: 'rtept'` reads a `<rte>` instead, as exported by route planners.
+ */
+export function parseGpxPoints(
+  xml: string,
+  pointTag: 'trkpt' | 'rtept' = 'trkpt'
+): Pick<ParsedActivityFile, 'name' | 'sport' | 'points'> | null {
+  if (!/<gpx\b/.test(xml)) return null;
+
+  const points: GpsPoint[] = [];
+  // Lazy attributes so a self-closing `<trkpt .../>` ends at its own `/>`
+  const pointRegex = new RegExp(`<${pointTag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${pointTag}>)`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pointRegex.exec(xml)) !== null) {
+    const lat = toNumber(readAttribute(match[1], 'lat'));
+    const lng = toNumber(readAttribute(match[1], 'lon'));
+    if (lat === undefined || lng === undefined) continue;
+
+    const body = match[2] ?? '';
+    points.push({
+      lat,
+      lng,
+      ele: toNumber(readElement(body, 'ele')),
+      time: toIsoTime(readElement(body, 'time')),
+      hr: toInteger(readElement(body, 'hr')),
+      cadence: toInteger(readElement(body, 'cad')),
+      speed: toNumber(readElement(body, 'speed')),
+    });
+  }
+
+  const track = readBlock(xml, pointTag === 'trkpt' ? 'trk' : 'rte') ?? '';
+  return {
+    name: readElement(track, 'name') ?? readElement(readBlock(xml, 'metadata') ?? '', 'name'),
+    sport: readElement(track, 'type'),
+    points,
+  };
+}
+
+/** TCX `<Trackpoint>`s; points without a position (indoor / GPS off) are skipped */
+export function parseTcxPoints(xml: string): Pick<ParsedActivityFile, 'name' | 'sport' | 'points'> | null {
+  if (!/<TrainingCenterDatabase\b/.test(xml)) return null;
+
+  const points: GpsPoint[] = [];
+  const trackpointRegex = /<Trackpoint\b[^>]*>([\s\S]*?)<\/Trackpoint>/g;
+  let match: RegExpExecArray | null;
+  while ((match = trackpointRegex.exec(xml)) !== null) {
+    const body = match[1];
+    const lat = toNumber(readElement(body, 'LatitudeDegrees'));
+    const lng = toNumber(readElement(body, 'LongitudeDegrees'));
+    if (lat === undefined || lng === undefined) continue;
+
+    points.push({
+      lat,
+      lng,
+      ele: toNumber(readElement(body, 'AltitudeMeters')),
+      time: toIsoTime(readElement(body, 'Time')),
+      hr: toInteger(readElement(readBlock(body, 'HeartRateBpm') ?? '', 'Value')),
+      cadence: toInteger(readElement(body, 'Cadence') ?? readElement(body, 'RunCadence')),
+      speed: toNumber(readElement(body, 'Speed')),
+    });
+  }
+
+  const activityTag = xml.match(/<Activity\b[^>]*>/)?.[0] ?? '';
+  return {
+    name: readElement(readBlock(xml, 'Activity') ?? '', 'Notes'),
+    sport: readAttribute(activityTag, 'Sport'),
+    points,
+  };
+}
+
+/** FIT `record` messages; `base64` is the raw file as read by expo-file-system */
+export function parseFitPoints(base64: string): Pick<ParsedActivityFile, 'sport' | 'points'> | null {
+  let fit: ReturnType<typeof parseFit>;
+  try {
+    fit = parseFit(base64ToBytes(base64));
+  } catch {
+    return null;
+  }
+
+  const points: GpsPoint[] = [];
+  for (const record of fit.records) {
+    if (record.lat === undefined || record.lng === undefined) continue;
+    points.push({
+      lat: record.lat,
+      lng: record.lng,
+      ele: record.altitude,
+      time: record.timestamp !== undefined ? new Date(record.timestamp).toISOString() : undefined,
+      hr: record.heartRate,
+      cadence: record.cadence,
+      speed: record.speed,
+    });
+  }
+  return { sport: fit.sport, points };
+}
+
+/** Drop undefined fields so generated GPX stays minimal */
+function compactPoint(point: GpsPoint): GpsPoint {
+  const compact: GpsPoint = { lat: point.lat, lng: point.lng };
+  if (point.ele !== undefined) compact.ele = point.ele;
+  if (point.time !== undefined) compact.time = point.time;
+  if (point.hr !== undefined) compact.hr = point.hr;
+  if (point.cadence !== undefined) compact.cadence = point.cadence;
+  if (point.speed !== undefined) compact.speed = point.speed;
+  return compact;
+}
+
+/**
+ * Parse an activity file and apply the import endpoint's rules locally.
+ * `content` is UTF-8 text for GPX/TCX and base64 for FIT.
+ */
+export function parseActivityFile(
+  format: ActivityFileFormat,
+  content: string,
+  now: number = Date.now()
+): ActivityFileParseResult {
+  const parsed: Pick<ParsedActivityFile, 'name' | 'sport' | 'points'> | null = format === 'gpx'
+    ? parseGpxPoints(content)
+    : format === 'tcx'
+      ? parseTcxPoints(content)
+      : parseFitPoints(content);
+  if (!parsed) return { ok: false, error: 'corrupt' };
+
+  const located = parsed.points.filter((p) =>
+    Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180 && !(p.lat === 0 && p.lng === 0)
+  );
+  if (located.length < MIN_IMPORT_POINTS) return { ok: false, error: 'no_track' };
+
+  const timed = located.filter((p) => p.time !== undefined);
+  if (timed.length < MIN_IMPORT_POINTS) return { ok: false, error: 'no_timestamps' };
+
+  const points = timed
+    .map(compactPoint)
+    .sort((a, b) => new Date(a.time!).getTime() - new Date(b.time!).getTime());
+
+  if (new Date(points[0].time!).getTime() > now + FUTURE_TOLERANCE_MS) {
+    return { ok: false, error: 'future_date' };
+  }
+  const tooFew = checkImportPoints(points);
+  if (tooFew) return { ok: false, error: tooFew };
+
+  return {
+    ok: true,
+    activity: {
+      format,
+      name: parsed.name,
+      sport: parsed.sport,
+      points,
+    },
+  };
+}
+
+/**
+ * The endpoint's minimum-track rules on their own, for re-checking a
+ * trimmed selection before upload. Returns null when the points are enough.
+ */
+export function checkImportPoints(points: GpsPoint[]): ActivityImportErrorCode | null {
+  if (points.length < MIN_IMPORT_POINTS) return 'no_track';
+  if (summarizeActivityPoints(points).distance < MIN_IMPORT_DISTANCE_M) return 'too_short';
+  return null;
+}
+
+/** Distance, elapsed time, elevation and heart rate of chronological points */
+export function summarizeActivityPoints(points: GpsPoint[]): ActivityFileSummary {
+  let distance = 0;
+  let elevationGain = 0;
+  let elevationLoss = 0;
+  let elevationAnchor: number | undefined;
+  let hrSum = 0;
+  let hrCount = 0;
+  let maxHeartRate: number | null = null;
+
+  points.forEach((point, i) => {
+    if (i > 0) {
+      const prev = points[i - 1];
+      distance += haversine([prev.lng, prev.lat], [point.lng, point.lat]);
+    }
+    if (point.ele !== undefined) {
+      if (elevationAnchor === undefined) {
+        elevationAnchor = point.ele;
+      } else if (Math.abs(point.ele - elevationAnchor) >= ELEVATION_NOISE_M) {
+        const delta = point.ele - elevationAnchor;
+        if (delta > 0) elevationGain += delta;
+        else elevationLoss -= delta;
+        elevationAnchor = point.ele;
+      }
+    }
+    if (point.hr !== undefined && point.hr > 0) {
+      hrSum += point.hr;
+      hrCount++;
+      maxHeartRate = Math.max(maxHeartRate ?? 0, point.hr);
+    }
+  });
+
+  const first = points[0]?.time ? new Date(points[0].time).getTime() : 0;
+  const last = points[points.length - 1]?.time ? new Date(points[points.length - 1].time!).getTime() : 0;
+
+  return {
+    startedAt: points[0]?.time ?? '',
+    distance,
+    duration: Math.max(0, Math.round((last - first) / 1000)),
+    elevationGain: Math.round(elevationGain),
+    elevationLoss: Math.round(elevationLoss),
+    avgHeartRate: hrCount > 0 ? Math.round(hrSum / hrCount) : null,
+    maxHeartRate,
+  };
+}
+
+/** Keep points `startIndex`..`endIndex` (inclusive), never fewer than two */
+export function trimActivityPoints(points: GpsPoint[], startIndex: number, endIndex: number): GpsPoint[] {
+  const last = points.length - 1;
+  const end = Math.min(Math.max(endIndex, 1), last);
+  const start = Math.min(Math.max(startIndex, 0), end - 1);
+  return points.slice(start, end + 1);
+}
+
+/** Seconds from the first point to `points[index]` (for trim labels) */
+export function secondsIntoActivity(points: GpsPoint[], index: number): number {
+  const first = points[0]?.time;
+  const at = points[index]?.time;
+  if (!first || !at) return 0;
+  return Math.max(0, Math.round((new Date(at).getTime() - new Date(first).getTime()) / 1000));
+}
+
+export function toLineString(points: GpsPoint[]): GeoJSONLineString {
+  return { type: 'LineString', coordinates: points.map((p) => [p.lng, p.lat]) };
+}
+
+/** Map a file's sport label (GPX `<type>`, TCX `Sport`, FIT sport) to one of our sport slugs */
+export function matchSportSlug(sport: string | undefined): string | null {
+  if (!sport) return null;
+  const value = sport.toLowerCase();
+  if (value.includes('run')) return 'running';
+  if (value.includes('bik') || value.includes('cycl') || value.includes('ride')) return 'cycling';
+  if (value.includes('hik')) return 'hiking';
+  if (value.includes('walk')) return 'walking';
+  if (value.includes('swim')) return 'swimming';
+  return null;
+}
@@ -0,0 +1,241 @@
+/**
+ * Garmin FIT decoder — just enough of the protocol to read an activity's
+ * `record` messages (position, time, altitude, heart rate, cadence, speed)
+ * and the session sport. Developer fields and everything else are skipped.
+ *
+ * Reference: FIT SDK "FIT Protocol" and "Profile" documents.
+ */
+
+export interface FitRecord {
+  /** Unix timestamp in milliseconds */
+  timestamp?: number;
+  lat?: number;
+  lng?: number;
+  /** Meters */
+  altitude?: number;
+  heartRate?: number;
+  cadence?: number;
+  /** m/s */
+  speed?: number;
+}
+
+export interface FitActivity {
+  records: FitRecord[];
+  /** Session sport mapped to a plain name ("running", "cycling"…), if known */
+  sport?: string;
+}
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z) */
+const FIT_EPOCH_OFFSET_SEC = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const MESG_RECORD = 20;
+const MESG_SESSION = 18;
+const MESG_SPORT = 12;
+
+// record fields
+const FIELD_TIMESTAMP = 253;
+const FIELD_POSITION_LAT = 0;
+const FIELD_POSITION_LONG = 1;
+const FIELD_ALTITUDE = 2;
+const FIELD_HEART_RATE = 3;
+const FIELD_CADENCE = 4;
+const FIELD_SPEED = 6;
+const FIELD_ENHANCED_SPEED = 73;
+const FIELD_ENHANCED_ALTITUDE = 78;
+// session.sport / sport.sport
+const FIELD_SESSION_SPORT = 5;
+const FIELD_SPORT_SPORT = 0;
+
+const FIT_SPORTS: Record<number, string> = {
+  1: 'running',
+  2: 'cycling',
+  5: 'swimming',
+  11: 'walking',
+  17: 'hiking',
+};
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  littleEndian: boolean;
+  globalNum: number;
+  fields: FieldDefinition[];
+  /** Total size of developer fields, skipped as raw bytes */
+  devSize: number;
+}
+
+/** Base types whose values are signed (FIT base type numbers, low 5 bits) */
+const SIGNED_BASE_TYPES = new Set([0x01, 0x03, 0x05]);
+
+function readValue(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): number | undefined {
+  const signed = SIGNED_BASE_TYPES.has(field.baseType & 0x1f);
+  let value: number;
+  let invalid: number;
+  switch (field.size) {
+    case 1:
+      value = signed ? view.getInt8(offset) : view.getUint8(offset);
+      invalid = signed ? 0x7f : 0xff;
+      break;
+    case 2:
+      value = signed ? view.getInt16(offset, littleEndian) : view.getUint16(offset, littleEndian);
+      invalid = signed ? 0x7fff : 0xffff;
+      break;
+    case 4:
+      value = signed ? view.getInt32(offset, littleEndian) : view.getUint32(offset, littleEndian);
+      invalid = signed ? 0x7fffffff : 0xffffffff;
+      break;
+    default:
+      return undefined;
+  }
+  // "z" base types use 0 as their invalid value
+  if ((field.baseType & 0x1f) >= 0x0a && (field.baseType & 0x1f) <= 0x0c && value === 0) return undefined;
+  return value === invalid ? undefined : value;
+}
+
+/** Apply the record profile's scale/offset to a raw field value */
+function applyRecordField(record: FitRecord, num: number, raw: number): void {
+  switch (num) {
+    case FIELD_TIMESTAMP:
+      record.timestamp = (raw + FIT_EPOCH_OFFSET_SEC) * 1000;
+      break;
+    case FIELD_POSITION_LAT:
+      record.lat = raw * SEMICIRCLES_TO_DEGREES;
+      break;
+    case FIELD_POSITION_LONG:
+      record.lng = raw * SEMICIRCLES_TO_DEGREES;
+      break;
+    case FIELD_ALTITUDE:
+      if (record.altitude === undefined) record.altitude = raw / 5 - 500;
+      break;
+    case FIELD_ENHANCED_ALTITUDE:
+      record.altitude = raw / 5 - 500;
+      break;
+    case FIELD_HEART_RATE:
+      record.heartRate = raw;
+      break;
+    case FIELD_CADENCE:
+      record.cadence = raw;
+      break;
+    case FIELD_SPEED:
+      if (record.speed === undefined) record.speed = raw / 1000;
+      break;
+    case FIELD_ENHANCED_SPEED:
+      record.speed = raw / 1000;
+      break;
+  }
+}
+
+export function isFitFile(bytes: Uint8Array): boolean {
+  return bytes.length >= 12
+    && bytes[8] === 0x2e && bytes[9] === 0x46 && bytes[10] === 0x49 && bytes[11] === 0x54; // ".FIT"
+}
+
+/**
+ * Decode the first FIT file in `bytes`. Throws on a bad header or a message
+ * that runs past the end of the data.
+ */
+export function parseFit(bytes: Uint8Array): FitActivity {
+  if (!isFitFile(bytes)) throw new Error('Missing .FIT signature');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = bytes[0];
+  const dataSize = view.getUint32(4, true);
+  const end = Math.min(headerSize + dataSize, bytes.length);
+  if (headerSize < 12 || headerSize >= end) throw new Error('Invalid FIT header');
+
+  const definitions = new Map<number, MessageDefinition>();
+  const records: FitRecord[] = [];
+  let sport: string | undefined;
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  const ensure = (length: number) => {
+    if (offset + length > end) throw new Error('Truncated FIT data');
+  };
+
+  while (offset < end) {
+    const header = bytes[offset++];
+
+    // Compressed timestamp header: local type in bits 5-6, time offset in bits 0-4
+    const isCompressed = (header & 0x80) !== 0;
+    const localType = isCompressed ? (header >> 5) & 0x03 : header & 0x0f;
+
+    if (!isCompressed && (header & 0x40) !== 0) {
+      // Definition message
+      ensure(5);
+      const littleEndian = bytes[offset + 1] === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = bytes[offset + 4];
+      offset += 5;
+      ensure(fieldCount * 3);
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({ num: bytes[offset], size: bytes[offset + 1], baseType: bytes[offset + 2] });
+        offset += 3;
+      }
+      let devSize = 0;
+      if ((header & 0x20) !== 0) {
+        ensure(1);
+        const devCount = bytes[offset++];
+        ensure(devCount * 3);
+        for (let i = 0; i < devCount; i++) {
+          devSize += bytes[offset + 1];
+          offset += 3;
+        }
+      }
+      definitions.set(localType, { littleEndian, globalNum, fields, devSize });
+      continue;
+    }
+
+    // Data message
+    const definition = definitions.get(localType);
+    if (!definition) throw new Error(`Data message without definition (local type ${localType})`);
+
+    const record: FitRecord = {};
+    if (isCompressed) {
+      const timeOffset = header & 0x1f;
+      let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+      lastTimestamp = timestamp;
+      record.timestamp = (timestamp + FIT_EPOCH_OFFSET_SEC) * 1000;
+    }
+
+    for (const field of definition.fields) {
+      ensure(field.size);
+      const raw = readValue(view, offset, field, definition.littleEndian);
+      offset += field.size;
+      if (raw === undefined) continue;
+
+      if (field.num === FIELD_TIMESTAMP) lastTimestamp = raw;
+      if (definition.globalNum === MESG_RECORD) {
+        applyRecordField(record, field.num, raw);
+      } else if (
+        (definition.globalNum === MESG_SESSION && field.num === FIELD_SESSION_SPORT)
+        || (definition.globalNum === MESG_SPORT && field.num === FIELD_SPORT_SPORT && !sport)
+      ) {
+        sport = FIT_SPORTS[raw] ?? sport;
+      }
+    }
+    ensure(definition.devSize);
+    offset += definition.devSize;
+
+    if (definition.globalNum === MESG_RECORD) records.push(record);
+  }
+
+  return { records, sport };
+}
+
+/** Decode a base64 string (as returned by expo-file-system) into bytes */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -1,7 +1,4 @@
 import * as FileSystem from 'expo-file-system/legacy';
-import * as Sharing from 'expo-sharing';
-import {Platform} from 'react-native';
-import {logger} from '../services/logger';
 import type {GpsPoint} from '../types/api';
 
 export interface GpxExportInput {
@@ -15,11 +12,16 @@ export interface GpxExportInput {
   sportType?: string;
   /** Raw GPS points (lat/lng/ele/time/speed). */
   points: GpsPoint[];
+  /**
+   * Set when the track has gaps (cut at privacy zones): one `<trkseg>` per
+   * segment. `points` still holds every point, for formats without segments.
+   */
+  segments?: GpsPoint[][];
 }
 
-const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+export const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
 
-function escapeXml(value: string): string {
+export function escapeXml(value: string): string {
   return value
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -28,17 +30,7 @@ function escapeXml(value: string): string {
     .replace(/'/g, '&apos;');
 }
 
-export function buildGpxDocument(input: GpxExportInput): string {
-  const { activityId, name, startedAt, sportType, points } = input;
-
-  const metadataParts: string[] = [];
-  if (name) metadataParts.push(`    <name>${escapeXml(name)}</name>`);
-  if (startedAt) metadataParts.push(`    <time>${escapeXml(startedAt)}</time>`);
-
-  const trkParts: string[] = [];
-  trkParts.push(`    <name>${escapeXml(name || `activity-${activityId}`)}</name>`);
-  if (sportType) trkParts.push(`    <type>${escapeXml(sportType)}</type>`);
-
+function buildGpxSegment(points: GpsPoint[]): string {
   const trkpts = points
     .filter(p => Number.isFinite(p.lat) && Number.isFinite(p.lng))
     .map(p => {
@@ -63,6 +55,39 @@ export function buildGpxDocument(input: GpxExportInput): string {
     })
     .join('\n');
 
+  return ['    <trkseg>', trkpts, '    </trkseg>'].filter(Boolean).join('\n');
+}
+
+function buildGpxTrack(input: GpxExportInput): string {
+  const { activityId, name, sportType, points, segments } = input;
+
+  const trkParts: string[] = [];
+  trkParts.push(`    <name>${escapeXml(name || `activity-${activityId}`)}</name>`);
+  if (sportType) trkParts.push(`    <type>${escapeXml(sportType)}</type>`);
+
+  return [
+    '  <trk>',
+    trkParts.join('\n'),
+    ...(segments ?? [points]).map(buildGpxSegment),
+    '  </trk>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * One GPX document with a `<trk>` per activity. A single input keeps its own
+ * name/time in `<metadata>`; bulk exports pass `metadataName` instead.
+ */
+export function buildGpxDocument(input: GpxExportInput | GpxExportInput[], metadataName?: string): string {
+  const inputs = Array.isArray(input) ? input : [input];
+  const single = inputs.length === 1 ? inputs[0] : undefined;
+
+  const metadataParts: string[] = [];
+  const name = metadataName ?? single?.name;
+  if (name) metadataParts.push(`    <name>${escapeXml(name)}</name>`);
+  if (single?.startedAt) metadataParts.push(`    <time>${escapeXml(single.startedAt)}</time>`);
+
   return [
     XML_HEADER,
     '<gpx version="1.1" creator="Racefy"',
@@ -71,12 +96,7 @@ export function buildGpxDocument(input: GpxExportInput): string {
     '     xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
     '     xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
     metadataParts.length > 0 ? `  <metadata>\n${metadataParts.join('\n')}\n  </metadata>` : '',
-    '  <trk>',
-    trkParts.join('\n'),
-    '    <trkseg>',
-    trkpts,
-    '    </trkseg>',
-    '  </trk>',
+    ...inputs.map(buildGpxTrack),
     '</gpx>',
   ]
     .filter(Boolean)
@@ -89,7 +109,7 @@ function gpxFileName(activityId: number | string): string {
 
 /**
  * Write the GPX to a temp file in the app cache directory and return its URI.
- * Callers usually want `exportGpxAndShare` instead.
+ * Callers usually want `exportActivityAndShare` (utils/activityExport.ts) instead.
  */
 export async function writeGpxToCache(input: GpxExportInput): Promise<string> {
   const xml = buildGpxDocument(input);
@@ -99,45 +119,3 @@ export async function writeGpxToCache(input: GpxExportInput): Promise<string> {
   });
   return uri;
 }
-
-/**
- * Build the GPX file and present the OS share sheet.
- * Returns true on success, false if the user cancelled or sharing was unavailable.
- */
-export async function exportGpxAndShare(input: GpxExportInput): Promise<boolean> {
-  if (input.points.length === 0) {
-    logger.warn('activity', 'GPX export: no points', { activityId: input.activityId });
-    return false;
-  }
-
-  try {
-    const uri = await writeGpxToCache(input);
-
-    const isAvailable = await Sharing.isAvailableAsync();
-    if (!isAvailable) {
-      logger.warn('activity', 'GPX export: Sharing not available on this device', {
-        activityId: input.activityId,
-        platform: Platform.OS,
-      });
-      return false;
-    }
-
-    await Sharing.shareAsync(uri, {
-      mimeType: 'application/gpx+xml',
-      dialogTitle: 'Export GPX',
-      UTI: 'com.topografix.gpx',
-    });
-
-    logger.activity('GPX exported', {
-      activityId: input.activityId,
-      pointsCount: input.points.length,
-    });
-    return true;
-  } catch (err) {
-    logger.error('activity', 'GPX export failed', {
-      activityId: input.activityId,
-      error: err,
-    });
-    return false;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,164 @@
+/**
+ * Constant-velocity Kalman filter for GPS fixes.
+ *
+ * Works in a local east/north frame (meters) anchored at the first fix, with
+ * independent [position, velocity] states per axis. The reported accuracy is
+ * used as measurement noise, and the reported speed as a pseudo-measurement
+ * of the velocity magnitude. Unlike a moving average it doesn't lag on turns
+ * and a single bad fix with poor accuracy barely moves the estimate.
+ */
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/** Initial velocity uncertainty (m/s) before the filter has seen movement */
+const INITIAL_VELOCITY_STD = 10;
+
+/** Below this estimated speed (m/s) the heading is unknown, so speed isn't applied */
+const MIN_HEADING_SPEED = 0.3;
+
+/** Per-axis state: position (m), velocity (m/s) and their covariance */
+interface AxisState {
+  pos: number;
+  vel: number;
+  pp: number; // position variance
+  pv: number; // position/velocity covariance
+  vv: number; // velocity variance
+}
+
+export interface KalmanFilterState {
+  originLat: number;
+  originLng: number;
+  east: AxisState;
+  north: AxisState;
+  /** Unix timestamp in milliseconds of the last update */
+  timestamp: number;
+}
+
+export interface KalmanFix {
+  lat: number;
+  lng: number;
+  timestamp: number;
+  /** Horizontal accuracy in meters (1 sigma) */
+  accuracy?: number;
+  /** Reported ground speed in m/s */
+  speed?: number;
+}
+
+export interface KalmanOptions {
+  /** Process noise: expected acceleration standard deviation in m/s² */
+  accelerationNoise: number;
+  /** Speed measurement standard deviation in m/s */
+  speedNoise: number;
+  /** Accuracy (m) assumed when the fix doesn't report one */
+  defaultAccuracy: number;
+}
+
+export interface KalmanEstimate {
+  lat: number;
+  lng: number;
+  /** Estimated ground speed in m/s */
+  speed: number;
+}
+
+function predictAxis(axis: AxisState, dt: number, q: number): AxisState {
+  const dt2 = dt * dt;
+  return {
+    pos: axis.pos + axis.vel * dt,
+    vel: axis.vel,
+    pp: axis.pp + 2 * dt * axis.pv + dt2 * axis.vv + (q * dt2 * dt2) / 4,
+    pv: axis.pv + dt * axis.vv + (q * dt2 * dt) / 2,
+    vv: axis.vv + q * dt2,
+  };
+}
+
+function updateAxis(axis: AxisState, measured: number, variance: number): AxisState {
+  const s = axis.pp + variance;
+  const kPos = axis.pp / s;
+  const kVel = axis.pv / s;
+  const innovation = measured - axis.pos;
+  return {
+    pos: axis.pos + kPos * innovation,
+    vel: axis.vel + kVel * innovation,
+    pp: (1 - kPos) * axis.pp,
+    pv: (1 - kPos) * axis.pv,
+    vv: axis.vv - kVel * axis.pv,
+  };
+}
+
+function toLocal(origin: { originLat: number; originLng: number }, lat: number, lng: number) {
+  return {
+    east: toRad(lng - origin.originLng) * Math.cos(toRad(origin.originLat)) * EARTH_RADIUS_M,
+    north: toRad(lat - origin.originLat) * EARTH_RADIUS_M,
+  };
+}
+
+function toEstimate(state: KalmanFilterState): KalmanEstimate {
+  return {
+    lat: state.originLat + toDeg(state.north.pos / EARTH_RADIUS_M),
+    lng: state.originLng + toDeg(state.east.pos / (EARTH_RADIUS_M * Math.cos(toRad(state.originLat)))),
+    speed: Math.hypot(state.east.vel, state.north.vel),
+  };
+}
+
+/**
+ * Feed one fix into the filter.
+ *
+ * @param previous - Filter state from the last fix, or null to start a new track
+ * @returns The new state and the filtered position/speed
+ */
+export function kalmanUpdate(
+  previous: KalmanFilterState | null,
+  fix: KalmanFix,
+  options: KalmanOptions
+): { state: KalmanFilterState; estimate: KalmanEstimate } {
+  const accuracy = fix.accuracy && fix.accuracy > 0 ? fix.accuracy : options.defaultAccuracy;
+  const variance = accuracy * accuracy;
+
+  if (!previous) {
+    const initialAxis: AxisState = {
+      pos: 0,
+      vel: 0,
+      pp: variance,
+      pv: 0,
+      vv: INITIAL_VELOCITY_STD * INITIAL_VELOCITY_STD,
+    };
+    const state: KalmanFilterState = {
+      originLat: fix.lat,
+      originLng: fix.lng,
+      east: initialAxis,
+      north: { ...initialAxis },
+      timestamp: fix.timestamp,
+    };
+    return { state, estimate: { lat: fix.lat, lng: fix.lng, speed: fix.speed ?? 0 } };
+  }
+
+  const dt = Math.max(0, (fix.timestamp - previous.timestamp) / 1000);
+  const q = options.accelerationNoise * options.accelerationNoise;
+  let east = dt > 0 ? predictAxis(previous.east, dt, q) : previous.east;
+  let north = dt > 0 ? predictAxis(previous.north, dt, q) : previous.north;
+
+  const measured = toLocal(previous, fix.lat, fix.lng);
+  east = updateAxis(east, measured.east, variance);
+  north = updateAxis(north, measured.north, variance);
+
+  // Reported speed: scalar update of the velocity magnitude, keeping the heading
+  const estimatedSpeed = Math.hypot(east.vel, north.vel);
+  if (fix.speed !== undefined && estimatedSpeed > MIN_HEADING_SPEED) {
+    const speedVariance = (east.vv + north.vv) / 2;
+    const gain = speedVariance / (speedVariance + options.speedNoise * options.speedNoise);
+    const scale = (estimatedSpeed + gain * (fix.speed - estimatedSpeed)) / estimatedSpeed;
+    east = { ...east, vel: east.vel * scale, vv: east.vv * (1 - gain) };
+    north = { ...north, vel: north.vel * scale, vv: north.vv * (1 - gain) };
+  }
+
+  const state: KalmanFilterState = {
+    originLat: previous.originLat,
+    originLng: previous.originLng,
+    east,
+    north,
+    timestamp: fix.timestamp,
+  };
+  return { state, estimate: toEstimate(state) };
+}
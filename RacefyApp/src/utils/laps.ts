@@ -0,0 +1,107 @@
+/**
+ * Lap helpers.
+ *
+ * Pure functions used by the lap hook (hooks/useLaps.ts):
+ * - Decide when an auto-lap is due (every N km/mi, or back at the start point)
+ * - Turn a lap's accumulated time/distance/heart rate into its result
+ */
+
+import { haversine } from './routeNavigation';
+import type { ActivityLap, AutoLapSettings, LapProgress, LapTrigger } from '../types/lap';
+
+/** Auto-lap distances offered in the picker, in the user's distance unit */
+export const AUTO_LAP_DISTANCES = [0.5, 1, 2, 5] as const;
+
+export const DEFAULT_AUTO_LAP_SETTINGS: AutoLapSettings = {
+  mode: 'off',
+  distanceMeters: 1000,
+};
+
+/** Counts as "back at the start" within this radius */
+const START_POINT_RADIUS_M = 25;
+
+/** A start-point lap must cover at least this much, so leaving the start doesn't lap */
+const MIN_START_POINT_LAP_M = 400;
+
+/** Below this distance a lap's pace is meaningless */
+const MIN_PACE_DISTANCE_M = 50;
+
+/** Running heart rate totals for the lap in progress */
+export interface LapHeartRate {
+  sum: number;
+  count: number;
+  max: number | null;
+}
+
+export const emptyLapHeartRate = (): LapHeartRate => ({ sum: 0, count: 0, max: null });
+
+export function addHeartRateSample(hr: LapHeartRate, bpm: number | null | undefined): LapHeartRate {
+  if (!bpm || bpm <= 0) return hr;
+  return { sum: hr.sum + bpm, count: hr.count + 1, max: Math.max(hr.max ?? 0, bpm) };
+}
+
+export function getLapPace(seconds: number, meters: number): number | null {
+  if (meters < MIN_PACE_DISTANCE_M || seconds <= 0) return null;
+  return (seconds / meters) * 1000;
+}
+
+/**
+ * Which auto-lap trigger fires for the lap in progress, if any.
+ * `distanceFromStart` is null while we don't know the start position.
+ */
+export function getAutoLapTrigger(
+  settings: AutoLapSettings,
+  lapDistanceMeters: number,
+  distanceFromStart: number | null
+): LapTrigger | null {
+  if (settings.mode === 'distance' && settings.distanceMeters > 0) {
+    return lapDistanceMeters >= settings.distanceMeters ? 'distance' : null;
+  }
+  if (settings.mode === 'start_point' && distanceFromStart !== null) {
+    return lapDistanceMeters >= MIN_START_POINT_LAP_M && distanceFromStart <= START_POINT_RADIUS_M
+      ? 'start_point'
+      : null;
+  }
+  return null;
+}
+
+export function distanceBetween(
+  a: { lat: number; lng: number } | null | undefined,
+  b: { lat: number; lng: number } | null | undefined
+): number | null {
+  if (!a || !b) return null;
+  return haversine([a.lng, a.lat], [b.lng, b.lat]);
+}
+
+export function buildLapProgress(
+  number: number,
+  seconds: number,
+  meters: number,
+  hr: LapHeartRate
+): LapProgress {
+  return {
+    number,
+    elapsedSeconds: Math.max(0, seconds),
+    distanceMeters: Math.max(0, meters),
+    paceSecPerKm: getLapPace(seconds, meters),
+    avgHeartRate: hr.count > 0 ? Math.round(hr.sum / hr.count) : null,
+  };
+}
+
+export function buildLapResult(
+  progress: LapProgress,
+  trigger: LapTrigger,
+  startOffsetSeconds: number,
+  hr: LapHeartRate
+): ActivityLap {
+  return {
+    lap_number: progress.number,
+    trigger,
+    start_offset_seconds: Math.round(startOffsetSeconds),
+    elapsed_seconds: Math.round(progress.elapsedSeconds),
+    distance_meters: Math.round(progress.distanceMeters),
+    avg_pace: progress.paceSecPerKm !== null ? Math.round(progress.paceSecPerKm) : null,
+    avg_heart_rate: progress.avgHeartRate,
+    max_heart_rate: hr.max,
+  };
+}
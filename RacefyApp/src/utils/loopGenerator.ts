@@ -0,0 +1,52 @@
+/**
+ * Round-trip loop sketches for the route planner.
+ *
+ * A loop is sketched as a circle through the start point, heading off in a
+ * given direction; previewRoute then snaps the circle's waypoints to roads
+ * and paths. Routed loops come out longer than the circle, so it is drawn
+ * smaller than the target (ROAD_FACTOR) and the caller re-scales it once
+ * when the routed distance still misses.
+ * Coordinates follow GeoJSON convention: [lng, lat].
+ */
+
+import { destinationPoint } from './routeNavigation';
+import type { RouteWaypoint } from '../types/api';
+
+/** Routed loops are typically this much longer than the sketched circle */
+const ROAD_FACTOR = 1.3;
+
+/** Waypoints placed on the circle between start and finish */
+const LOOP_POINTS = 3;
+
+/**
+ * Waypoints for a loop of roughly `targetDistanceM` that leaves the start
+ * towards `headingDeg` and comes back to it. `scale` stretches or shrinks
+ * the circle after a first routing attempt.
+ */
+export function loopWaypoints(
+  start: { lat: number; lng: number },
+  targetDistanceM: number,
+  headingDeg: number,
+  scale: number = 1
+): RouteWaypoint[] {
+  const radius = (targetDistanceM * scale) / (2 * Math.PI * ROAD_FACTOR);
+  const center = destinationPoint([start.lng, start.lat], headingDeg, radius);
+  // Seen from the center the start lies opposite the heading; walk round clockwise
+  const startAngle = headingDeg + 180;
+
+  const waypoints: RouteWaypoint[] = [{ lat: start.lat, lng: start.lng }];
+  for (let i = 1; i <= LOOP_POINTS; i++) {
+    const [lng, lat] = destinationPoint(center, startAngle + (360 / (LOOP_POINTS + 1)) * i, radius);
+    waypoints.push({ lat, lng });
+  }
+  waypoints.push({ lat: start.lat, lng: start.lng });
+  return waypoints;
+}
+
+/**
+ * `count` headings spread evenly around the start. `offsetDeg` rotates the
+ * whole set, so asking again gives loops in new directions.
+ */
+export function loopHeadings(count: number, offsetDeg: number = 0): number[] {
+  return Array.from({ length: count }, (_, i) => (offsetDeg + (360 / count) * i) % 360);
+}
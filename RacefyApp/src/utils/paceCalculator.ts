@@ -27,18 +27,20 @@ export interface PaceSegment {
  * @param segments - Array of pace segments (should be sorted by timestamp)
  * @param windowSeconds - Time window in seconds to consider (e.g., 30-60s)
  * @param minSegmentDistance - Minimum distance delta in meters required for valid pace
+ * @param now - Reference time in milliseconds for the window (default: Date.now(),
+ *              pass the fix timestamp when replaying recorded tracks)
  * @returns Pace in seconds per kilometer, or null if insufficient data
  */
 export function calculateCurrentPace(
   segments: PaceSegment[],
   windowSeconds: number,
-  minSegmentDistance: number
+  minSegmentDistance: number,
+  now: number = Date.now()
 ): number | null {
   if (segments.length < 2) {
     return null;
   }
 
-  const now = Date.now();
   const windowMs = windowSeconds * 1000;
   const cutoffTime = now - windowMs;
 
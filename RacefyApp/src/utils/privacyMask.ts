@@ -0,0 +1,149 @@
+/**
+ * On-device privacy zone masking.
+ *
+ * The server masks tracks it publishes, but files and maps built on the
+ * device start from raw points. These helpers trim the start / end of the
+ * track the user asked to hide, drop every point inside an active privacy
+ * zone (circle or polygon) and split the track where it passed through one,
+ * so an export never draws a line across (or ending at) a home address.
+ */
+
+import { haversine } from './routeNavigation';
+import type { PrivacyTrimSettings, PrivacyZone } from '../types/api';
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/** Everything a track is masked with */
+export interface PrivacyMask {
+  zones: PrivacyZone[];
+  trim: PrivacyTrimSettings;
+}
+
+export const NO_PRIVACY_TRIM: PrivacyTrimSettings = { hide_start_meters: 0, hide_end_meters: 0 };
+
+export const EMPTY_PRIVACY_MASK: PrivacyMask = { zones: [], trim: NO_PRIVACY_TRIM };
+
+/** Radius the server gives circle zones (not editable yet) */
+export const DEFAULT_PRIVACY_ZONE_RADIUS_M = 200;
+
+const EARTH_RADIUS_M = 6371000;
+
+function isPolygonZone(zone: PrivacyZone): boolean {
+  return zone.shape === 'polygon';
+}
+
+function activeZones(zones: PrivacyZone[]): PrivacyZone[] {
+  return zones.filter((zone) =>
+    zone.is_active && (isPolygonZone(zone) ? (zone.polygon?.length ?? 0) >= 3 : zone.radius_meters > 0)
+  );
+}
+
+/** Ray casting over `[lng, lat]` vertices; fine at privacy-zone scale */
+function isInsidePolygon(point: LatLng, vertices: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [xi, yi] = vertices[i];
+    const [xj, yj] = vertices[j];
+    if (yi > point.lat !== yj > point.lat && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isInsidePrivacyZone(point: LatLng, zones: PrivacyZone[]): boolean {
+  return zones.some((zone) => {
+    if (!zone.is_active) return false;
+    if (isPolygonZone(zone)) return !!zone.polygon && zone.polygon.length >= 3 && isInsidePolygon(point, zone.polygon);
+    return haversine([point.lng, point.lat], [zone.longitude, zone.latitude]) <= zone.radius_meters;
+  });
+}
+
+/**
+ * The runs of the track outside every active zone. A track that never enters
+ * a zone comes back as a single segment; an empty result means nothing is
+ * left to show.
+ */
+export function splitOutsidePrivacyZones<T extends LatLng>(points: T[], zones: PrivacyZone[]): T[][] {
+  const active = activeZones(zones);
+  if (active.length === 0) return points.length > 0 ? [points] : [];
+
+  const segments: T[][] = [];
+  let current: T[] = [];
+  for (const point of points) {
+    if (isInsidePrivacyZone(point, active)) {
+      if (current.length > 0) segments.push(current);
+      current = [];
+    } else {
+      current.push(point);
+    }
+  }
+  if (current.length > 0) segments.push(current);
+  return segments;
+}
+
+/** Drop the first `hide_start_meters` and last `hide_end_meters` of the track (by distance along it) */
+export function trimTrackEnds<T extends LatLng>(points: T[], trim: PrivacyTrimSettings): T[] {
+  if (points.length === 0 || (trim.hide_start_meters <= 0 && trim.hide_end_meters <= 0)) return points;
+
+  const cumulative: number[] = [0];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    cumulative.push(cumulative[i - 1] + haversine([prev.lng, prev.lat], [point.lng, point.lat]));
+  }
+  const total = cumulative[cumulative.length - 1];
+  const from = trim.hide_start_meters;
+  const to = total - trim.hide_end_meters;
+  if (from >= to) return [];
+  return points.filter((_, i) => cumulative[i] >= from && cumulative[i] <= to);
+}
+
+/** Start/end trim first (it's measured on the raw track), then the zones */
+export function applyPrivacyMask<T extends LatLng>(points: T[], mask: PrivacyMask): T[][] {
+  return splitOutsidePrivacyZones(trimTrackEnds(points, mask.trim), mask.zones);
+}
+
+function circleVertices(lat: number, lng: number, radiusMeters: number, steps: number): [number, number][] {
+  const latRad = (lat * Math.PI) / 180;
+  const dLat = (radiusMeters / EARTH_RADIUS_M) * (180 / Math.PI);
+  const dLng = dLat / Math.max(Math.cos(latRad), 1e-6);
+  const vertices: [number, number][] = [];
+  for (let i = 0; i < steps; i++) {
+    const angle = (2 * Math.PI * i) / steps;
+    vertices.push([lng + dLng * Math.cos(angle), lat + dLat * Math.sin(angle)]);
+  }
+  return vertices;
+}
+
+/**
+ * A circle as editable polygon vertices (`[lng, lat]`, not closed) — used to
+ * turn a suggestion or a circle zone into a polygon the user can reshape.
+ * The polygon is drawn around the circle (its edges touch it), so the
+ * converted zone still covers everything the circle did.
+ */
+export function circleToPolygon(
+  lat: number,
+  lng: number,
+  radiusMeters = DEFAULT_PRIVACY_ZONE_RADIUS_M,
+  sides = 8
+): [number, number][] {
+  return circleVertices(lat, lng, radiusMeters / Math.cos(Math.PI / sides), sides);
+}
+
+/** Vertex average — the point stored as a polygon zone's latitude / longitude */
+export function polygonCenter(vertices: [number, number][]): LatLng {
+  const sum = vertices.reduce((acc, [lng, lat]) => ({ lat: acc.lat + lat, lng: acc.lng + lng }), { lat: 0, lng: 0 });
+  return { lat: sum.lat / vertices.length, lng: sum.lng / vertices.length };
+}
+
+/** Zone outline as a closed `[lng, lat]` ring, for drawing it over a map */
+export function privacyZoneRing(zone: PrivacyZone, steps = 48): [number, number][] {
+  const vertices = isPolygonZone(zone) && zone.polygon
+    ? zone.polygon
+    : circleVertices(zone.latitude, zone.longitude, zone.radius_meters, steps);
+  return vertices.length > 0 ? [...vertices, vertices[0]] : [];
+}
@@ -0,0 +1,364 @@
+/**
+ * Planned routes from recorded tracks.
+ *
+ * Pure helpers used when saving one of the user's activities or an imported
+ * GPX / GeoJSON file as a planned route (screens/routes/RouteFromTrackScreen.tsx):
+ * - Parse GPX tracks and routes (no timestamps needed) and GeoJSON lines
+ * - Thin the track to a compact geometry and a handful of waypoints
+ * - Derive the elevation profile and turn instructions the planner gets from previewRoute
+ */
+
+import { parseGpxPoints } from './activityImport';
+import { bearing, haversine, routeTotalDistance } from './routeNavigation';
+import type {
+  GeoJSONLineString,
+  GpsPoint,
+  PlannedRoute,
+  RouteElevationPoint,
+  RouteTurnInstruction,
+  RouteWaypoint,
+} from '../types/api';
+
+export type RouteFileFormat = 'gpx' | 'geojson';
+
+/** Why a file can't become a route — maps to `routeFromTrack.errors.<code>` */
+export type RouteFileErrorCode =
+  | 'unsupported_format'
+  | 'too_large'
+  | 'corrupt'
+  | 'no_track'
+  | 'too_short';
+
+export type RouteFileParseResult =
+  | { ok: true; name?: string; points: GpsPoint[] }
+  | { ok: false; error: RouteFileErrorCode };
+
+export type TrackTurnManeuver =
+  | 'slight-left'
+  | 'slight-right'
+  | 'turn-left'
+  | 'turn-right'
+  | 'sharp-left'
+  | 'sharp-right'
+  | 'u-turn';
+
+export interface TrackRoute {
+  geometry: GeoJSONLineString;
+  waypoints: RouteWaypoint[];
+  /** Meters */
+  distance: number;
+  elevationGain: number;
+  elevationLoss: number;
+  elevationProfile: RouteElevationPoint[];
+  turnInstructions: RouteTurnInstruction[];
+  /** Start and finish (nearly) meet — the last waypoint closes the loop */
+  isLoop: boolean;
+}
+
+export const MAX_ROUTE_FILE_BYTES = 10 * 1024 * 1024;
+
+/** Shorter tracks aren't worth a route */
+const MIN_ROUTE_DISTANCE_M = 100;
+
+/** The saved geometry stays within this many meters of the track */
+const GEOMETRY_TOLERANCE_M = 5;
+const MAX_GEOMETRY_POINTS = 2000;
+
+/** Waypoints keep the shape of the route, not every bend */
+const WAYPOINT_TOLERANCE_M = 75;
+/** Directions API limit, so the route can be edited in the planner */
+const MAX_WAYPOINTS = 25;
+
+/** Ignore elevation changes smaller than this (barometer / GPS noise) */
+const ELEVATION_NOISE_M = 2;
+const MAX_ELEVATION_SAMPLES = 200;
+
+/** A saved route off by more than this (distance or line length) doesn't follow the track */
+const SAVED_ROUTE_TOLERANCE = 0.1;
+
+/** Start and finish closer than this make the route a loop */
+const LOOP_CLOSE_M = 100;
+
+/** Heading change that counts as a turn, measured over TURN_WINDOW_M either side */
+const MIN_TURN_DEGREES = 35;
+const TURN_WINDOW_M = 25;
+/** Of two turns closer than this, only the sharper one is kept */
+const MIN_TURN_SPACING_M = 40;
+
+export function detectRouteFileFormat(fileName: string): RouteFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  return null;
+}
+
+/** GPX `<trkpt>`s, or `<rtept>`s for files exported by route planners */
+export function parseGpxRoutePoints(xml: string): { name?: string; points: GpsPoint[] } | null {
+  const track = parseGpxPoints(xml);
+  if (!track || track.points.length > 0) return track;
+  return parseGpxPoints(xml, 'rtept');
+}
+
+/** First LineString / MultiLineString of a GeoJSON geometry, Feature or FeatureCollection */
+export function parseGeoJsonRoutePoints(json: string): { name?: string; points: GpsPoint[] } | null {
+  let root: any;
+  try {
+    root = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!root || typeof root !== 'object') return null;
+
+  const features: any[] = root.type === 'FeatureCollection'
+    ? root.features ?? []
+    : root.type === 'Feature'
+      ? [root]
+      : [{ type: 'Feature', geometry: root, properties: {} }];
+
+  for (const feature of features) {
+    const geometry = feature?.geometry;
+    const lines: unknown[][] = geometry?.type === 'LineString'
+      ? [geometry.coordinates]
+      : geometry?.type === 'MultiLineString'
+        ? geometry.coordinates
+        : [];
+    const points: GpsPoint[] = lines.flat().flatMap((coordinate) => {
+      if (!Array.isArray(coordinate) || coordinate.length < 2) return [];
+      const [lng, lat, ele] = coordinate.map(Number);
+      return Number.isFinite(lat) && Number.isFinite(lng)
+        ? [{ lat, lng, ele: Number.isFinite(ele) ? ele : undefined }]
+        : [];
+    });
+    if (points.length > 0) {
+      const name = feature.properties?.name ?? feature.properties?.title;
+      return { name: typeof name === 'string' ? name : undefined, points };
+    }
+  }
+  return { points: [] };
+}
+
+/** Parse and sanity-check a route file. `content` is UTF-8 text. */
+export function parseRouteFile(format: RouteFileFormat, content: string): RouteFileParseResult {
+  const parsed = format === 'gpx' ? parseGpxRoutePoints(content) : parseGeoJsonRoutePoints(content);
+  if (!parsed) return { ok: false, error: 'corrupt' };
+
+  const points = parsed.points.filter((p) =>
+    Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180 && !(p.lat === 0 && p.lng === 0)
+  );
+  if (points.length < 2) return { ok: false, error: 'no_track' };
+  if (routeTotalDistance(points.map((p) => [p.lng, p.lat])) < MIN_ROUTE_DISTANCE_M) {
+    return { ok: false, error: 'too_short' };
+  }
+  return { ok: true, name: parsed.name, points };
+}
+
+/** Activity track (`getActivityTrack`) as points; a third coordinate is elevation */
+export function lineStringToPoints(line: GeoJSONLineString): GpsPoint[] {
+  return (line.coordinates as number[][]).map(([lng, lat, ele]) => ({
+    lat,
+    lng,
+    ele: Number.isFinite(ele) ? ele : undefined,
+  }));
+}
+
+/** Meters from the segment a→b, on a local flat projection around a */
+function distanceToSegment(p: GpsPoint, a: GpsPoint, b: GpsPoint): number {
+  const metersPerLng = 111320 * Math.cos((a.lat * Math.PI) / 180);
+  const metersPerLat = 110540;
+  const bx = (b.lng - a.lng) * metersPerLng;
+  const by = (b.lat - a.lat) * metersPerLat;
+  const px = (p.lng - a.lng) * metersPerLng;
+  const py = (p.lat - a.lat) * metersPerLat;
+  const lengthSq = bx * bx + by * by;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq)) : 0;
+  return Math.hypot(px - t * bx, py - t * by);
+}
+
+/** Douglas–Peucker: the fewest points that stay within `toleranceM` of the track */
+export function simplifyTrack(points: GpsPoint[], toleranceM: number): GpsPoint[] {
+  if (points.length <= 2) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = toleranceM;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+/** Simplify, loosening the tolerance until at most `maxPoints` remain */
+function simplifyToMax(points: GpsPoint[], toleranceM: number, maxPoints: number): GpsPoint[] {
+  let tolerance = toleranceM;
+  let simplified = simplifyTrack(points, tolerance);
+  while (simplified.length > maxPoints) {
+    tolerance *= 1.5;
+    simplified = simplifyTrack(simplified, tolerance);
+  }
+  return simplified;
+}
+
+function cumulativeDistances(points: GpsPoint[]): number[] {
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + haversine([points[i - 1].lng, points[i - 1].lat], [points[i].lng, points[i].lat]));
+  }
+  return distances;
+}
+
+function elevationTotals(points: GpsPoint[]): { gain: number; loss: number } {
+  let gain = 0;
+  let loss = 0;
+  let anchor: number | undefined;
+  for (const point of points) {
+    if (point.ele === undefined) continue;
+    if (anchor === undefined) {
+      anchor = point.ele;
+    } else if (Math.abs(point.ele - anchor) >= ELEVATION_NOISE_M) {
+      if (point.ele > anchor) gain += point.ele - anchor;
+      else loss += anchor - point.ele;
+      anchor = point.ele;
+    }
+  }
+  return { gain: Math.round(gain), loss: Math.round(loss) };
+}
+
+/** Elevation every ~1/200 of the route; empty when the track has no elevation */
+function elevationProfile(points: GpsPoint[], distances: number[]): RouteElevationPoint[] {
+  const total = distances[distances.length - 1] ?? 0;
+  const step = total / MAX_ELEVATION_SAMPLES;
+  const profile: RouteElevationPoint[] = [];
+  let nextSample = 0;
+  points.forEach((point, i) => {
+    if (point.ele === undefined) return;
+    if (distances[i] >= nextSample || i === points.length - 1) {
+      profile.push({ distance: Math.round(distances[i]), elevation: Math.round(point.ele) });
+      nextSample = distances[i] + step;
+    }
+  });
+  return profile.length >= 2 ? profile : [];
+}
+
+function maneuverFor(delta: number): TrackTurnManeuver {
+  const side = delta > 0 ? 'right' : 'left';
+  const angle = Math.abs(delta);
+  if (angle >= 160) return 'u-turn';
+  if (angle >= 110) return `sharp-${side}`;
+  if (angle >= 60) return `turn-${side}`;
+  return `slight-${side}`;
+}
+
+/** Turns where the heading changes by MIN_TURN_DEGREES or more, measured over a window to smooth GPS jitter */
+function detectTurns(
+  points: GpsPoint[],
+  distances: number[],
+  describeTurn: (maneuver: TrackTurnManeuver) => string
+): RouteTurnInstruction[] {
+  const turns: (RouteTurnInstruction & { angle: number })[] = [];
+  let back = 0;
+  let ahead = 0;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    while (back < i && distances[i] - distances[back + 1] >= TURN_WINDOW_M) back++;
+    if (ahead < i) ahead = i;
+    while (ahead < points.length - 1 && distances[ahead] - distances[i] < TURN_WINDOW_M) ahead++;
+    if (distances[i] - distances[back] < TURN_WINDOW_M / 2 || distances[ahead] - distances[i] < TURN_WINDOW_M / 2) {
+      continue;
+    }
+
+    const here: [number, number] = [points[i].lng, points[i].lat];
+    const incoming = bearing([points[back].lng, points[back].lat], here);
+    const outgoing = bearing(here, [points[ahead].lng, points[ahead].lat]);
+    const delta = ((outgoing - incoming + 540) % 360) - 180;
+    if (Math.abs(delta) < MIN_TURN_DEGREES) continue;
+
+    const maneuver = maneuverFor(delta);
+    const turn = {
+      distance_along: Math.round(distances[i]),
+      maneuver,
+      instruction: describeTurn(maneuver),
+      location: here,
+      angle: Math.abs(delta),
+    };
+    const previous = turns[turns.length - 1];
+    if (previous && turn.distance_along - previous.distance_along < MIN_TURN_SPACING_M) {
+      if (turn.angle > previous.angle) turns[turns.length - 1] = turn;
+      continue;
+    }
+    turns.push(turn);
+  }
+
+  return turns.map(({ angle: _angle, ...turn }) => turn);
+}
+
+/**
+ * Everything a planned route needs from a track: a compact geometry, up to
+ * 25 waypoints (so it can still be edited in the planner), the elevation
+ * profile and turn instructions. `describeTurn` words the instructions in
+ * the app language.
+ */
+export function buildRouteFromTrack(
+  points: GpsPoint[],
+  describeTurn: (maneuver: TrackTurnManeuver) => string
+): TrackRoute {
+  const fullDistances = cumulativeDistances(points);
+  const { gain, loss } = elevationTotals(points);
+
+  const geometryPoints = simplifyToMax(points, GEOMETRY_TOLERANCE_M, MAX_GEOMETRY_POINTS);
+  const geometryDistances = cumulativeDistances(geometryPoints);
+
+  const start = points[0];
+  const finish = points[points.length - 1];
+  const isLoop = points.length > 2
+    && haversine([start.lng, start.lat], [finish.lng, finish.lat]) <= LOOP_CLOSE_M;
+  const waypoints: RouteWaypoint[] = simplifyToMax(geometryPoints, WAYPOINT_TOLERANCE_M, MAX_WAYPOINTS)
+    .map((p) => ({ lat: p.lat, lng: p.lng }));
+  if (isLoop) {
+    waypoints[waypoints.length - 1] = { lat: start.lat, lng: start.lng };
+  }
+  waypoints[0] = { ...waypoints[0], label: 'Start' };
+  waypoints[waypoints.length - 1] = { ...waypoints[waypoints.length - 1], label: 'Finish' };
+
+  return {
+    geometry: { type: 'LineString', coordinates: geometryPoints.map((p) => [p.lng, p.lat]) },
+    waypoints,
+    distance: Math.round(fullDistances[fullDistances.length - 1] ?? 0),
+    elevationGain: gain,
+    elevationLoss: loss,
+    elevationProfile: elevationProfile(points, fullDistances),
+    turnInstructions: detectTurns(geometryPoints, geometryDistances, describeTurn),
+    isLoop,
+  };
+}
+
+/**
+ * Whether the saved route still follows the track that was sent. createRoute's
+ * geometry, elevation_profile and turn_instructions aren't in the API docs; a
+ * server that ignores them routes between the waypoints instead.
+ */
+export function savedRouteMatchesTrack(
+  route: TrackRoute,
+  saved: Pick<PlannedRoute, 'distance' | 'geometry'>
+): boolean {
+  const sentLength = routeTotalDistance(route.geometry.coordinates as [number, number][]);
+  const savedLength = saved.geometry?.coordinates?.length
+    ? routeTotalDistance(saved.geometry.coordinates as [number, number][])
+    : 0;
+  const within = (value: number, expected: number) =>
+    expected > 0 && Math.abs(value / expected - 1) <= SAVED_ROUTE_TOLERANCE;
+  return within(saved.distance, route.distance) && within(savedLength, sentLength);
+}
@@ -69,6 +69,50 @@ export function nearestPointOnRoute(
   return { index: bestIndex, point: bestPoint, distance: bestDist, distanceAlong: bestDistAlong };
 }
 
+/**
+ * Nearest point on the part of the route from `fromDistanceAlong` onward —
+ * where to rejoin after going off route without doubling back over the part
+ * already covered. Falls back to the whole route when nothing is left ahead.
+ */
+export function nearestPointAhead(
+  position: [number, number], // [lng, lat]
+  coordinates: [number, number][],
+  fromDistanceAlong: number
+): {
+  index: number;
+  point: [number, number];
+  distance: number;
+  distanceAlong: number;
+} {
+  let best: { index: number; point: [number, number]; distance: number; distanceAlong: number } | null = null;
+  let cumulativeDist = 0;
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const a = coordinates[i];
+    const b = coordinates[i + 1];
+    const segLen = haversine(a, b);
+
+    if (cumulativeDist + segLen >= fromDistanceAlong) {
+      // Don't project behind the start of the remaining route
+      const minFraction = segLen > 0 ? Math.max(0, (fromDistanceAlong - cumulativeDist) / segLen) : 0;
+      const projected = projectOntoSegment(position, a, b);
+      const fraction = Math.max(projected.fraction, minFraction);
+      const point: [number, number] = fraction === projected.fraction
+        ? projected.point
+        : [a[0] + fraction * (b[0] - a[0]), a[1] + fraction * (b[1] - a[1])];
+      const dist = haversine(position, point);
+
+      if (!best || dist < best.distance) {
+        best = { index: i, point, distance: dist, distanceAlong: cumulativeDist + segLen * fraction };
+      }
+    }
+
+    cumulativeDist += segLen;
+  }
+
+  return best ?? nearestPointOnRoute(position, coordinates);
+}
+
 /**
  * Project a point onto a line segment, returning the closest point and fraction along segment.
  */
@@ -193,3 +237,23 @@ export function bearing(from: [number, number], to: [number, number]): number {
 
   return (toDeg(Math.atan2(y, x)) + 360) % 360;
 }
+
+/**
+ * Point reached by travelling `distanceM` from `from` on the given bearing (degrees).
+ */
+export function destinationPoint(from: [number, number], bearingDeg: number, distanceM: number): [number, number] {
+  const angular = distanceM / EARTH_RADIUS_M;
+  const theta = toRad(bearingDeg);
+  const lat1 = toRad(from[1]);
+  const lng1 = toRad(from[0]);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return [((toDeg(lng2) + 540) % 360) - 180, toDeg(lat2)];
+}
@@ -0,0 +1,107 @@
+/**
+ * Target zone helpers.
+ *
+ * Pure functions shared by the zone picker and the alert hook
+ * (hooks/useTargetZoneAlerts.ts):
+ * - Compare live heart rate with a zone
+ * - Read a pace band from a training week's session
+ */
+
+import { getPaceStatus } from './workouts';
+import type { TrainingActivity, TrainingWeek } from '../types/api';
+import type { WorkoutPaceTarget } from '../types/workout';
+import type {
+  HeartRateZone,
+  HeartRateZoneStatus,
+  TargetZone,
+  TargetZoneStatus,
+} from '../types/targetZone';
+
+/** Alert delay choices offered in the picker (seconds) */
+export const ZONE_ALERT_DELAYS = [10, 20, 30, 60] as const;
+
+export const DEFAULT_ZONE_ALERT_DELAY = 20;
+
+/**
+ * Heart rate zones need a per-sample heart rate, which the recorder doesn't
+ * have yet (no sensor or watch feed). Until it does, the heart rate part of a
+ * zone is hidden from the picker and the recording screen and never alerts.
+ */
+export const LIVE_HEART_RATE_AVAILABLE: boolean = false;
+
+/** A single pace like "5:30" becomes a band this many seconds either side */
+const SINGLE_PACE_TOLERANCE_SEC = 10;
+
+export function hasTargetZone(zone: TargetZone | null | undefined): zone is TargetZone {
+  return !!zone && (zone.pace !== null || (LIVE_HEART_RATE_AVAILABLE && zone.heartRate !== null));
+}
+
+export function getHeartRateStatus(
+  bpm: number | null | undefined,
+  zone: HeartRateZone | null | undefined
+): HeartRateZoneStatus | null {
+  if (!zone || !bpm || bpm <= 0) return null;
+  if (bpm < zone.minBpm) return 'low';
+  if (bpm > zone.maxBpm) return 'high';
+  return 'in_zone';
+}
+
+export function getTargetZoneStatus(
+  zone: TargetZone | null | undefined,
+  paceSecPerKm: number | null | undefined,
+  heartRate: number | null | undefined
+): TargetZoneStatus {
+  return {
+    pace: getPaceStatus(paceSecPerKm, zone?.pace),
+    heartRate: getHeartRateStatus(heartRate, zone?.heartRate),
+  };
+}
+
+function parsePaceToken(token: string): number | null {
+  const match = token.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const seconds = parseInt(match[2], 10);
+  if (seconds >= 60) return null;
+  return parseInt(match[1], 10) * 60 + seconds;
+}
+
+/**
+ * Parse a training session's `pace_target` (seconds per km), e.g.
+ * "5:30-6:00", "5:30 – 6:00" or a single "5:30". Null when unreadable.
+ */
+export function parsePaceTarget(value: string | null | undefined): WorkoutPaceTarget | null {
+  if (!value) return null;
+  const tokens = value.match(/\d{1,2}:\d{2}/g);
+  if (!tokens || tokens.length === 0) return null;
+
+  const paces = tokens.slice(0, 2).map(parsePaceToken);
+  if (paces.some((p) => p === null || p <= 0)) return null;
+
+  if (paces.length === 1) {
+    const pace = paces[0] as number;
+    return {
+      minSecPerKm: Math.max(1, pace - SINGLE_PACE_TOLERANCE_SEC),
+      maxSecPerKm: pace + SINGLE_PACE_TOLERANCE_SEC,
+    };
+  }
+  const [a, b] = paces as number[];
+  return { minSecPerKm: Math.min(a, b), maxSecPerKm: Math.max(a, b) };
+}
+
+/**
+ * Pick the training session whose pace target applies today: today's
+ * planned session if it has one, otherwise the next pending session with a
+ * readable target.
+ */
+export function findTrainingPaceSession(
+  week: TrainingWeek | null | undefined,
+  date: Date = new Date()
+): TrainingActivity | null {
+  const sessions = (week?.activities ?? []).filter((a) => parsePaceTarget(a.pace_target) !== null);
+  if (sessions.length === 0) return null;
+
+  const today = date.getDay() === 0 ? 7 : date.getDay(); // 1=Monday, 7=Sunday
+  return sessions.find((a) => a.day_of_week === today && a.status !== 'completed')
+    ?? sessions.find((a) => a.day_of_week >= today && a.status !== 'completed' && a.status !== 'skipped')
+    ?? null;
+}
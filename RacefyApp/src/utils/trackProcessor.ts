@@ -0,0 +1,462 @@
+/**
+ * GPS track-processing pipeline shared by foreground and background tracking.
+ *
+ * Pure and deterministic (no React, no storage, no clock reads for accepted
+ * fixes) so it can be fed recorded tracks in tests or dev replays.
+ *
+ * Pipeline for raw fixes (`process`):
+ * 1. Accuracy filter — fixes worse than the profile threshold are dropped
+ * 2. Baseline — first fix of a segment only seeds the last known position
+ * 3. Smoothing — per-profile strategy: recency-weighted moving average over the
+ *    last N fixes, or a constant-velocity Kalman filter (see kalmanFilter.ts)
+ * 4. Movement filter — stricter minimum distance when the GPS says we're stationary
+ * 5. Implied-speed filter — rejects jumps faster than maxRealisticSpeed
+ * 6. Gap filter — first fix after a long time gap starts a new segment
+ * 7. Accumulation — distance, elevation gain and current pace
+ *
+ * The background task runs the processor in `background` mode, which keeps
+ * that task's original filter: raw (unsmoothed) positions, the first fix is
+ * kept instead of becoming a baseline, there's no gap filter, and the
+ * reference position only moves on accepted fixes.
+ *
+ * Already-filtered points (background buffer, crash recovery) go through
+ * `ingestFiltered`, which only applies the gap filter and accumulation.
+ */
+
+import type { GpsPoint } from '../types/api';
+import type { GpsProfile } from '../config/gpsProfiles';
+import type { LiveActivityStats } from '../hooks/useLiveActivity';
+import { haversine } from './routeNavigation';
+import { type KalmanFilterState, kalmanUpdate } from './kalmanFilter';
+import {
+  addPaceSegment,
+  calculateCurrentPace,
+  type PaceSegment,
+  smoothPace,
+} from './paceCalculator';
+import {
+  GPS_GAP_THRESHOLD_MS,
+  KALMAN_ACCELERATION_NOISE,
+  KALMAN_SPEED_NOISE,
+  MAX_PACE_SEGMENTS,
+  STATIONARY_MIN_DISTANCE_M,
+} from '../constants/tracking';
+
+// ============ TYPES ============
+
+/** Why a point was not added to the track */
+export type TrackRejectionReason =
+  | 'poor_accuracy'
+  | 'baseline'
+  | 'small_movement'
+  | 'unrealistic_speed'
+  | 'segment_gap';
+
+/**
+ * foreground: full pipeline for the live recording screen
+ * background: accuracy, movement and implied-speed filters on raw fixes only
+ */
+export type TrackProcessorMode = 'foreground' | 'background';
+
+/** Position the next fix is measured against (smoothed for raw fixes) */
+export interface TrackPosition {
+  lat: number;
+  lng: number;
+  ele?: number;
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+  /** Filtered ground speed in m/s (Kalman strategy only) */
+  speed?: number;
+}
+
+/** Running stats produced by the processor */
+export type TrackStats = Pick<LiveActivityStats, 'distance' | 'elevation_gain' | 'currentPace'>;
+
+export interface AcceptedTrackPoint {
+  accepted: true;
+  /** Original (non-smoothed) point — this is what gets synced to the server */
+  point: GpsPoint;
+  /** Distance in meters added by this point */
+  distance: number;
+  /** Elevation gain in meters added by this point */
+  elevationGain: number;
+}
+
+export interface RejectedTrackPoint {
+  accepted: false;
+  point: GpsPoint;
+  reason: TrackRejectionReason;
+  /** Values that led to the rejection (for logging) */
+  details: Record<string, number | boolean>;
+}
+
+export type TrackPointResult = AcceptedTrackPoint | RejectedTrackPoint;
+
+/**
+ * Serializable processor state. The background task persists this between
+ * headless invocations so filtering continues where it left off.
+ */
+export interface TrackProcessorState {
+  lastPosition: TrackPosition | null;
+  /** Timestamp (ms) of the last accepted point — used for gap detection */
+  lastAcceptedTime: number | null;
+  smoothingBuffer: TrackPosition[];
+  /** Kalman filter state (kalman smoothing strategy only) */
+  kalman: KalmanFilterState | null;
+  /** When true the next raw fix only becomes the new baseline */
+  skipNextFix: boolean;
+  paceSegments: PaceSegment[];
+  smoothedPace: number | null;
+  stats: TrackStats;
+}
+
+export interface TrackProcessor {
+  /** Run a raw GPS fix through the full pipeline */
+  process(point: GpsPoint): TrackPointResult;
+  /** Accumulate points that were already filtered elsewhere (gap filter only) */
+  ingestFiltered(points: GpsPoint[]): TrackPointResult[];
+  /** Swap the GPS profile without losing accumulated state */
+  setProfile(profile: GpsProfile): void;
+  /** Override the baseline position (e.g. last background fix) */
+  seedPosition(position: TrackPosition): void;
+  /** Drop smoothing history and use the next fix as a fresh baseline (resume, return from background) */
+  rebaseline(): void;
+  /** Drop smoothing history and the gap clock (tracking stopped) */
+  resetSegment(): void;
+  getLastPosition(): TrackPosition | null;
+  getStats(): TrackStats;
+  getState(): TrackProcessorState;
+}
+
+// ============ HELPERS ============
+
+export function createInitialTrackState(): TrackProcessorState {
+  return {
+    lastPosition: null,
+    lastAcceptedTime: null,
+    smoothingBuffer: [],
+    kalman: null,
+    skipNextFix: false,
+    paceSegments: [],
+    smoothedPace: null,
+    stats: { distance: 0, elevation_gain: 0, currentPace: null },
+  };
+}
+
+function pointTimestamp(point: GpsPoint): number {
+  return point.time ? new Date(point.time).getTime() : Date.now();
+}
+
+function distanceBetween(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  return haversine([a.lng, a.lat], [b.lng, b.lat]);
+}
+
+/**
+ * Recency-weighted average of the smoothing buffer (linear weights 1..N).
+ * Elevation uses the median, which is more robust against altitude outliers.
+ */
+function weightedAverage(buffer: TrackPosition[]): TrackPosition {
+  let totalWeight = 0;
+  let weightedLat = 0;
+  let weightedLng = 0;
+
+  buffer.forEach((p, i) => {
+    const weight = i + 1;
+    weightedLat += p.lat * weight;
+    weightedLng += p.lng * weight;
+    totalWeight += weight;
+  });
+
+  const elevations = buffer
+    .filter((p) => p.ele !== undefined)
+    .map((p) => p.ele!)
+    .sort((a, b) => a - b);
+  let ele: number | undefined;
+  if (elevations.length > 0) {
+    const mid = Math.floor(elevations.length / 2);
+    ele = elevations.length % 2 === 0
+      ? (elevations[mid - 1] + elevations[mid]) / 2
+      : elevations[mid];
+  }
+
+  return {
+    lat: weightedLat / totalWeight,
+    lng: weightedLng / totalWeight,
+    ele,
+    timestamp: buffer[buffer.length - 1].timestamp,
+  };
+}
+
+// ============ PROCESSOR ============
+
+/**
+ * Create a track processor for a GPS profile.
+ *
+ * @param profile - GPS profile of the activity's sport
+ * @param initialState - Previously persisted state to continue from
+ * @param mode - Filtering pipeline (see TrackProcessorMode)
+ */
+export function createTrackProcessor(
+  profile: GpsProfile,
+  initialState?: TrackProcessorState,
+  mode: TrackProcessorMode = 'foreground'
+): TrackProcessor {
+  let currentProfile = profile;
+  const state: TrackProcessorState = initialState
+    ? { ...initialState, stats: { ...initialState.stats } }
+    : createInitialTrackState();
+
+  const smooth = (position: TrackPosition, point: GpsPoint): TrackPosition => {
+    state.smoothingBuffer = [...state.smoothingBuffer, position].slice(
+      -Math.max(1, currentProfile.smoothingBufferSize)
+    );
+    const averaged = weightedAverage(state.smoothingBuffer);
+    if (currentProfile.smoothingStrategy !== 'kalman') {
+      return averaged;
+    }
+
+    // After a long gap the velocity is stale; extrapolating it would throw
+    // the first fix off, so the filter starts over from that fix
+    if (state.kalman && position.timestamp - state.kalman.timestamp > GPS_GAP_THRESHOLD_MS) {
+      state.kalman = null;
+    }
+
+    // Kalman for the horizontal position; elevation keeps the buffer median
+    const { state: kalman, estimate } = kalmanUpdate(
+      state.kalman ?? null,
+      { lat: point.lat, lng: point.lng, timestamp: position.timestamp, accuracy: point.accuracy, speed: point.speed },
+      {
+        accelerationNoise: KALMAN_ACCELERATION_NOISE,
+        speedNoise: KALMAN_SPEED_NOISE,
+        defaultAccuracy: currentProfile.accuracyThreshold,
+      }
+    );
+    state.kalman = kalman;
+    return { ...averaged, lat: estimate.lat, lng: estimate.lng, speed: estimate.speed };
+  };
+
+  const accumulate = (
+    point: GpsPoint,
+    timestamp: number,
+    distance: number,
+    elevationGain: number
+  ): AcceptedTrackPoint => {
+    state.stats.distance += distance;
+    state.stats.elevation_gain += elevationGain;
+    state.lastAcceptedTime = timestamp;
+
+    state.paceSegments = addPaceSegment(
+      state.paceSegments,
+      { timestamp, distance: state.stats.distance },
+      MAX_PACE_SEGMENTS
+    );
+    const rawPace = calculateCurrentPace(
+      state.paceSegments,
+      currentProfile.paceWindowSeconds,
+      currentProfile.minSegmentDistance,
+      timestamp
+    );
+    if (rawPace !== null) {
+      state.smoothedPace = smoothPace(rawPace, state.smoothedPace, currentProfile.paceSmoothingFactor);
+    }
+    state.stats.currentPace = state.smoothedPace;
+
+    return { accepted: true, point, distance, elevationGain };
+  };
+
+  const isGap = (timestamp: number): boolean =>
+    state.lastAcceptedTime !== null && timestamp - state.lastAcceptedTime > GPS_GAP_THRESHOLD_MS;
+
+  const minDistanceFor = (speed: number | undefined) => {
+    const isStationary = speed !== undefined && speed < currentProfile.stationarySpeedThreshold;
+    return {
+      isStationary,
+      minDistance: isStationary
+        ? Math.max(currentProfile.minDistanceThreshold, STATIONARY_MIN_DISTANCE_M)
+        : currentProfile.minDistanceThreshold,
+    };
+  };
+
+  /**
+   * Background task filter. Positions are compared unsmoothed and the
+   * reference only moves on accepted fixes, so drift can't creep it along.
+   */
+  const processBackground = (point: GpsPoint, timestamp: number): TrackPointResult => {
+    const previous = state.lastPosition;
+    let distance = 0;
+
+    if (previous) {
+      const { isStationary, minDistance } = minDistanceFor(point.speed);
+      distance = distanceBetween(previous, point);
+      if (distance < minDistance) {
+        return {
+          accepted: false,
+          point,
+          reason: 'small_movement',
+          details: { distance, threshold: minDistance, isStationary },
+        };
+      }
+
+      const timeDelta = (timestamp - previous.timestamp) / 1000;
+      const impliedSpeed = timeDelta > 0 ? distance / timeDelta : 0;
+      if (impliedSpeed > currentProfile.maxRealisticSpeed) {
+        return {
+          accepted: false,
+          point,
+          reason: 'unrealistic_speed',
+          details: { distance, timeDelta, impliedSpeed, maxSpeed: currentProfile.maxRealisticSpeed },
+        };
+      }
+    }
+
+    let elevationGain = 0;
+    if (point.ele !== undefined && previous?.ele !== undefined) {
+      const elevDiff = point.ele - previous.ele;
+      if (elevDiff > currentProfile.minElevationChange) {
+        elevationGain = elevDiff;
+      }
+    }
+
+    state.lastPosition = { lat: point.lat, lng: point.lng, ele: point.ele, timestamp };
+    return accumulate(point, timestamp, distance, elevationGain);
+  };
+
+  const process = (point: GpsPoint): TrackPointResult => {
+    const timestamp = pointTimestamp(point);
+
+    if (point.accuracy && point.accuracy > currentProfile.accuracyThreshold) {
+      return {
+        accepted: false,
+        point,
+        reason: 'poor_accuracy',
+        details: { accuracy: point.accuracy, threshold: currentProfile.accuracyThreshold },
+      };
+    }
+
+    if (mode === 'background') {
+      return processBackground(point, timestamp);
+    }
+
+    const smoothed = smooth({ lat: point.lat, lng: point.lng, ele: point.ele, timestamp }, point);
+    const previous = state.lastPosition;
+    // Every fix that passes the accuracy filter becomes the next baseline,
+    // accepted or not (as the live screen always did)
+    state.lastPosition = smoothed;
+
+    if (!previous || state.skipNextFix) {
+      state.skipNextFix = false;
+      return { accepted: false, point, reason: 'baseline', details: {} };
+    }
+
+    // Prefer the filtered speed — raw GPS speed spikes while standing still
+    const { isStationary: isLikelyStationary, minDistance } = minDistanceFor(smoothed.speed ?? point.speed);
+
+    const distance = distanceBetween(previous, smoothed);
+    if (distance <= minDistance) {
+      return {
+        accepted: false,
+        point,
+        reason: 'small_movement',
+        details: { distance, threshold: minDistance, isStationary: isLikelyStationary },
+      };
+    }
+
+    const timeDelta = (timestamp - previous.timestamp) / 1000;
+    const impliedSpeed = timeDelta > 0 ? distance / timeDelta : Infinity;
+    if (impliedSpeed >= currentProfile.maxRealisticSpeed) {
+      return {
+        accepted: false,
+        point,
+        reason: 'unrealistic_speed',
+        details: { distance, timeDelta, impliedSpeed, maxSpeed: currentProfile.maxRealisticSpeed },
+      };
+    }
+
+    if (isGap(timestamp)) {
+      const gapMs = timestamp - state.lastAcceptedTime!;
+      // Advance the clock so the next point is accepted as the new segment start
+      state.lastAcceptedTime = timestamp;
+      return {
+        accepted: false,
+        point,
+        reason: 'segment_gap',
+        details: { gapSeconds: gapMs / 1000, thresholdSeconds: GPS_GAP_THRESHOLD_MS / 1000 },
+      };
+    }
+
+    let elevationGain = 0;
+    if (smoothed.ele !== undefined && previous.ele !== undefined) {
+      const elevDiff = smoothed.ele - previous.ele;
+      if (elevDiff > currentProfile.minElevationChange) {
+        elevationGain = elevDiff;
+      }
+    }
+
+    return accumulate(point, timestamp, distance, elevationGain);
+  };
+
+  const ingestFiltered = (points: GpsPoint[]): TrackPointResult[] =>
+    points.map((point) => {
+      const timestamp = pointTimestamp(point);
+      const previous = state.lastPosition;
+      state.lastPosition = { lat: point.lat, lng: point.lng, ele: point.ele, timestamp };
+
+      if (isGap(timestamp)) {
+        const gapMs = timestamp - state.lastAcceptedTime!;
+        state.lastAcceptedTime = timestamp;
+        return {
+          accepted: false,
+          point,
+          reason: 'segment_gap',
+          details: { gapSeconds: gapMs / 1000, thresholdSeconds: GPS_GAP_THRESHOLD_MS / 1000 },
+        };
+      }
+
+      let distance = 0;
+      let elevationGain = 0;
+      if (previous) {
+        const dist = distanceBetween(previous, point);
+        if (dist > currentProfile.minDistanceThreshold) {
+          distance = dist;
+          if (point.ele !== undefined && previous.ele !== undefined) {
+            const elevDiff = point.ele - previous.ele;
+            if (elevDiff > currentProfile.minElevationChange) {
+              elevationGain = elevDiff;
+            }
+          }
+        }
+      }
+
+      return accumulate(point, timestamp, distance, elevationGain);
+    });
+
+  return {
+    process,
+    ingestFiltered,
+    setProfile: (next) => {
+      currentProfile = next;
+    },
+    seedPosition: (position) => {
+      state.lastPosition = position;
+    },
+    rebaseline: () => {
+      state.smoothingBuffer = [];
+      state.kalman = null;
+      state.skipNextFix = true;
+    },
+    resetSegment: () => {
+      state.smoothingBuffer = [];
+      state.kalman = null;
+      state.skipNextFix = false;
+      state.lastAcceptedTime = null;
+    },
+    getLastPosition: () => state.lastPosition,
+    getStats: () => ({ ...state.stats }),
+    getState: () => ({
+      ...state,
+      smoothingBuffer: [...state.smoothingBuffer],
+      paceSegments: [...state.paceSegments],
+      stats: { ...state.stats },
+    }),
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Recorded-track parsing and deterministic signal degradation for GPS replay.
+ *
+ * Pure helpers used by the dev/QA replay mode (services/gpsReplay.ts):
+ * - Parse a GPX document or a track-points JSON export into replay fixes
+ * - Inject jitter, dropouts, signal-loss windows and poor-accuracy fixes
+ *   using a seeded PRNG, so the same seed reproduces the same field bug
+ */
+
+import type { TrackPointsResponse } from '../types/api';
+import { parseGpxPoints } from './activityImport';
+
+export interface ReplayFix {
+  lat: number;
+  lng: number;
+  ele?: number;
+  /** Unix timestamp in milliseconds (track time, not wall clock) */
+  timestamp: number;
+  /** Ground speed in m/s */
+  speed?: number;
+  /** Horizontal accuracy in meters */
+  accuracy?: number;
+}
+
+export interface ReplayDegradation {
+  /** PRNG seed — same seed + track = same output */
+  seed: number;
+  /** Standard deviation (m) of gaussian noise added to every fix */
+  jitterMeters: number;
+  /** Probability (0-1) that an individual fix is dropped */
+  dropoutRate: number;
+  /** Probability (0-1) that a fix is reported with poorAccuracyMeters */
+  poorAccuracyRate: number;
+  /** Accuracy (m) reported for degraded fixes */
+  poorAccuracyMeters: number;
+  /** Continuous windows without any fix (seconds from track start) */
+  signalLossWindows: Array<{ atSeconds: number; durationSeconds: number }>;
+}
+
+/** Accuracy (m) reported for recorded fixes that don't carry one */
+export const DEFAULT_REPLAY_ACCURACY_M = 5;
+
+/** Interval assumed between fixes of a track without timestamps */
+const UNTIMED_FIX_INTERVAL_MS = 3000;
+
+const METERS_PER_DEGREE = 111320;
+
+export const NO_DEGRADATION: ReplayDegradation = {
+  seed: 1,
+  jitterMeters: 0,
+  dropoutRate: 0,
+  poorAccuracyRate: 0,
+  poorAccuracyMeters: 50,
+  signalLossWindows: [],
+};
+
+/** Presets for reproducing common field conditions */
+export const REPLAY_DEGRADATION_PRESETS: Record<'clean' | 'city' | 'forest' | 'tunnel', ReplayDegradation> = {
+  clean: NO_DEGRADATION,
+  // Multipath between buildings: noisy fixes, occasional bad accuracy
+  city: { ...NO_DEGRADATION, seed: 42, jitterMeters: 8, dropoutRate: 0.05, poorAccuracyRate: 0.08, poorAccuracyMeters: 45 },
+  // Tree cover: moderate noise and frequent dropouts
+  forest: { ...NO_DEGRADATION, seed: 7, jitterMeters: 5, dropoutRate: 0.2, poorAccuracyRate: 0.05, poorAccuracyMeters: 35 },
+  // Two full signal losses, long enough to trigger segment-gap handling
+  tunnel: {
+    ...NO_DEGRADATION,
+    seed: 3,
+    jitterMeters: 2,
+    signalLossWindows: [
+      { atSeconds: 300, durationSeconds: 90 },
+      { atSeconds: 900, durationSeconds: 150 },
+    ],
+  },
+};
+
+// ============ PARSING ============
+
+/** Fill in timestamps for untimed tracks and sort chronologically */
+function finalizeFixes(fixes: Array<Omit<ReplayFix, 'timestamp'> & { timestamp?: number }>): ReplayFix[] {
+  const base = Date.now();
+  return fixes
+    .map((fix, i) => ({ ...fix, timestamp: fix.timestamp ?? base + i * UNTIMED_FIX_INTERVAL_MS }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Parse `<trkpt>` elements of a GPX document (including the Garmin
+ * TrackPointExtension speed we write in gpxExport.ts).
+ */
+export function parseGpxForReplay(xml: string): ReplayFix[] {
+  const points = parseGpxPoints(xml)?.points ?? [];
+  return finalizeFixes(
+    points.map((point) => {
+      const timestamp = point.time ? new Date(point.time).getTime() : undefined;
+      return {
+        lat: point.lat,
+        lng: point.lng,
+        ele: point.ele,
+        timestamp: timestamp !== undefined && Number.isFinite(timestamp) ? timestamp : undefined,
+        speed: point.speed,
+      };
+    })
+  );
+}
+
+/**
+ * Parse a track-points JSON export: a `TrackPointsResponse`, a bare array of
+ * `TrackPoint`s, or an array of `GpsPoint`s (e.g. from the unsynced queue).
+ */
+export function parseTrackJsonForReplay(json: string): ReplayFix[] {
+  const parsed = JSON.parse(json) as TrackPointsResponse | unknown[];
+  const items: any[] = Array.isArray(parsed) ? parsed : parsed?.data ?? [];
+
+  return finalizeFixes(
+    items
+      .filter((p) => Number.isFinite(p?.lat) && Number.isFinite(p?.lng))
+      .map((p) => {
+        const time = p.timestamp ?? p.time;
+        const timestamp = time ? new Date(time).getTime() : undefined;
+        return {
+          lat: p.lat,
+          lng: p.lng,
+          ele: p.elevation ?? p.ele ?? undefined,
+          timestamp: timestamp !== undefined && Number.isFinite(timestamp) ? timestamp : undefined,
+          speed: p.speed ?? undefined,
+          accuracy: p.accuracy ?? undefined,
+        };
+      })
+  );
+}
+
+/** Detect the format from the file name / content and parse it */
+export function parseRecordedTrack(fileName: string, content: string): ReplayFix[] {
+  const trimmed = content.trimStart();
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseTrackJsonForReplay(content);
+  }
+  return parseGpxForReplay(content);
+}
+
+// ============ DEGRADATION ============
+
+/** mulberry32 — tiny seeded PRNG, good enough for reproducible noise */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample (Box-Muller) */
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Apply deterministic signal degradation to a recorded track.
+ * Every fix consumes the same number of random draws, so changing one rate
+ * doesn't reshuffle the noise of the others.
+ */
+export function degradeTrack(fixes: ReplayFix[], degradation: ReplayDegradation): ReplayFix[] {
+  if (fixes.length === 0) return [];
+
+  const random = createRandom(degradation.seed);
+  const start = fixes[0].timestamp;
+  const result: ReplayFix[] = [];
+
+  for (const fix of fixes) {
+    const dropRoll = random();
+    const accuracyRoll = random();
+    const noiseNorth = gaussian(random) * degradation.jitterMeters;
+    const noiseEast = gaussian(random) * degradation.jitterMeters;
+
+    const elapsedSeconds = (fix.timestamp - start) / 1000;
+    const inSignalLoss = degradation.signalLossWindows.some(
+      (w) => elapsedSeconds >= w.atSeconds && elapsedSeconds < w.atSeconds + w.durationSeconds
+    );
+    if (inSignalLoss || dropRoll < degradation.dropoutRate) continue;
+
+    const isPoor = accuracyRoll < degradation.poorAccuracyRate;
+    const baseAccuracy = fix.accuracy ?? DEFAULT_REPLAY_ACCURACY_M;
+    result.push({
+      ...fix,
+      lat: fix.lat + noiseNorth / METERS_PER_DEGREE,
+      lng: fix.lng + noiseEast / (METERS_PER_DEGREE * Math.cos((fix.lat * Math.PI) / 180)),
+      accuracy: isPoor
+        ? Math.max(baseAccuracy, degradation.poorAccuracyMeters)
+        : Math.max(baseAccuracy, degradation.jitterMeters),
+    });
+  }
+
+  return result;
+}
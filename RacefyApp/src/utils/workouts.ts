@@ -0,0 +1,149 @@
+/**
+ * Structured workout helpers.
+ *
+ * Pure functions shared by the workout editor and the executor
+ * (hooks/useWorkoutExecutor.ts):
+ * - Unroll repeat blocks into a flat step list
+ * - Measure progress through the current step from moving time / distance
+ * - Build the per-step results stored with the finished activity
+ */
+
+import type {
+  FlatWorkoutStep,
+  Workout,
+  WorkoutBlock,
+  WorkoutPaceStatus,
+  WorkoutPaceTarget,
+  WorkoutStep,
+  WorkoutStepResult,
+} from '../types/workout';
+
+/** Below this distance a step's average pace is too noisy to report */
+const MIN_DISTANCE_FOR_STEP_PACE_M = 50;
+
+/** Local id for workouts, blocks and steps (never sent as a server id) */
+export function createWorkoutId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function createWorkoutStep(type: WorkoutStep['type'] = 'work'): WorkoutStep {
+  return {
+    id: createWorkoutId(),
+    type,
+    duration: type === 'work' ? { type: 'distance', meters: 400 } : { type: 'time', seconds: 120 },
+    target: null,
+  };
+}
+
+export function createWorkoutBlock(steps: WorkoutStep[], repeat = 1): WorkoutBlock {
+  return { id: createWorkoutId(), repeat, steps };
+}
+
+/** Unroll repeat blocks: 2 × [work, recovery] → work, recovery, work, recovery */
+export function flattenWorkout(workout: Pick<Workout, 'blocks'>): FlatWorkoutStep[] {
+  const flat: FlatWorkoutStep[] = [];
+  for (const block of workout.blocks) {
+    const repeatCount = Math.max(1, Math.floor(block.repeat));
+    for (let repetition = 1; repetition <= repeatCount; repetition++) {
+      for (const step of block.steps) {
+        flat.push({ ...step, index: flat.length, repetition, repeatCount });
+      }
+    }
+  }
+  return flat;
+}
+
+/** Sum of time-based and distance-based step durations (for list summaries) */
+export function getWorkoutTotals(workout: Pick<Workout, 'blocks'>): { seconds: number; meters: number; steps: number } {
+  const steps = flattenWorkout(workout);
+  return steps.reduce(
+    (totals, step) => {
+      if (step.duration.type === 'time') totals.seconds += step.duration.seconds;
+      else totals.meters += step.duration.meters;
+      return totals;
+    },
+    { seconds: 0, meters: 0, steps: steps.length }
+  );
+}
+
+export interface WorkoutStepProgress {
+  /** Seconds or meters left, matching the step's duration type */
+  remaining: number;
+  /** 0-1 share of the step done */
+  fraction: number;
+  isDone: boolean;
+}
+
+/**
+ * Progress through a step given the moving time and distance covered since
+ * the step started. Both come from the recording, so pauses stop the step too.
+ */
+export function getStepProgress(
+  step: WorkoutStep,
+  stepElapsedSeconds: number,
+  stepDistanceMeters: number
+): WorkoutStepProgress {
+  const planned = step.duration.type === 'time' ? step.duration.seconds : step.duration.meters;
+  const done = step.duration.type === 'time' ? stepElapsedSeconds : stepDistanceMeters;
+  if (planned <= 0) return { remaining: 0, fraction: 1, isDone: true };
+  return {
+    remaining: Math.max(0, planned - done),
+    fraction: Math.min(1, Math.max(0, done / planned)),
+    isDone: done >= planned,
+  };
+}
+
+/** Compare a pace (s/km) with the target band; null when there's no target or pace */
+export function getPaceStatus(
+  paceSecPerKm: number | null | undefined,
+  target: WorkoutPaceTarget | null | undefined
+): WorkoutPaceStatus | null {
+  if (!target || !paceSecPerKm || paceSecPerKm <= 0) return null;
+  if (paceSecPerKm < target.minSecPerKm) return 'fast';
+  if (paceSecPerKm > target.maxSecPerKm) return 'slow';
+  return 'on_target';
+}
+
+export function buildStepResult(
+  step: FlatWorkoutStep,
+  elapsedSeconds: number,
+  distanceMeters: number,
+  completed: boolean
+): WorkoutStepResult {
+  const elapsed = Math.max(0, Math.round(elapsedSeconds));
+  const distance = Math.max(0, Math.round(distanceMeters));
+  return {
+    step_index: step.index,
+    type: step.type,
+    duration_type: step.duration.type,
+    planned_value: step.duration.type === 'time' ? step.duration.seconds : step.duration.meters,
+    elapsed_seconds: elapsed,
+    distance_meters: distance,
+    avg_pace: distance >= MIN_DISTANCE_FOR_STEP_PACE_M && elapsed > 0
+      ? Math.round(elapsed / (distance / 1000))
+      : null,
+    target_pace_min: step.target?.minSecPerKm ?? null,
+    target_pace_max: step.target?.maxSecPerKm ?? null,
+    completed,
+  };
+}
+
+/** "4:30" → 270; plain numbers are read as minutes. Null when unparseable. */
+export function parseClockInput(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parts = trimmed.split(':');
+  if (parts.length > 2 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  if (parts.length === 1) return parseInt(parts[0], 10) * 60;
+  const seconds = parseInt(parts[1], 10);
+  if (seconds >= 60) return null;
+  return parseInt(parts[0], 10) * 60 + seconds;
+}
+
+/** 270 → "4:30" */
+export function formatClockInput(totalSeconds: number): string {
+  const rounded = Math.round(totalSeconds);
+  const minutes = Math.floor(rounded / 60);
+  const seconds = rounded % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
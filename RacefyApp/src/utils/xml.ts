@@ -0,0 +1,26 @@
+/**
+ * Minimal regex-based XML readers for the flat documents we parse on-device
+ * (GPX, TCX). Namespace prefixes on element names are ignored.
+ */
+
+export function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  return match?.[1];
+}
+
+export function readElement(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}>\\s*([^<]+?)\\s*</(?:\\w+:)?${name}>`));
+  return match?.[1];
+}
+
+/** Inner XML of the first `<name>…</name>` element (may contain child elements) */
+export function readBlock(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`));
+  return match?.[1];
+}
+
+export function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}